@@ -1,5 +1,5 @@
 /**
- * INCREMENTO 17 + 18 + 19 — AUTONOMIA GRADUADA: Avaliador de Autonomia
+ * INCREMENTO 17 + 18 + 19 + 51 — AUTONOMIA GRADUADA: Avaliador de Autonomia
  *
  * Implementa as regras canônicas de avaliação de autonomia.
  *
@@ -16,7 +16,10 @@
  * 10. Mandato expirado (valido_ate legado) - REGRA 2
  * 11. Política autorizada - REGRA 3
  * 12. Perfil risco máximo - REGRA 4
- * 13. Verificações adicionais (domínio, caso de uso, gatilhos)
+ * 13. Verificações adicionais (domínio, caso de uso)
+ * 14. Limites com condição (Inc 51) - indeterminado bloqueia
+ * 15. Gatilhos de supervisão humana, na ordem declarada: textuais
+ *     (substring no contexto) e estruturados (Inc 51) - indeterminado aciona
  *
  * Inc 19: Mandato suspenso exige revisão humana para retomada.
  *
@@ -31,11 +34,13 @@ import {
   AutonomyMandate,
   AutonomyCheckInput,
   AutonomyCheckResult,
+  MandateConditionFacts,
   MandateExpireReason,
   perfilExcede
 } from './AutonomyTypes';
 
 import { isMandateActive, MANDATE_RULE } from './AutonomyMandateService';
+import { evaluateMandateCondition, missingMandateFacts } from './MandateConditions';
 
 // ════════════════════════════════════════════════════════════════════════════
 // CÓDIGOS DE REGRA
@@ -57,6 +62,7 @@ const REGRA = {
   CASO_USO_NAO_AUTORIZADO: 'CASO_USO_NAO_AUTORIZADO',
   GATILHO_HUMANO_ACIONADO: 'GATILHO_HUMANO_ACIONADO',
   MODO_SOLICITADO_SEM_MANDATO: 'MODO_SOLICITADO_SEM_MANDATO',
+  LIMITE_MANDATO_VIOLADO: 'LIMITE_MANDATO_VIOLADO',
 
   // Regras Inc 18 - Validade Temporal e Limite de Usos
   MANDATO_NAO_ATIVO_AINDA: MANDATE_RULE.NOT_ACTIVE_YET,
@@ -277,11 +283,39 @@ function evaluate(input: AutonomyCheckInput): AutonomyCheckResultExtended {
     }
   }
 
-  // Verificar gatilhos textuais de supervisão humana
-  if (contexto && mandate.requer_humano_se && mandate.requer_humano_se.length > 0) {
-    const contextoLower = contexto.toLowerCase();
-    for (const gatilho of mandate.requer_humano_se) {
-      if (contextoLower.includes(gatilho.toLowerCase())) {
+  // ══════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 51: Limites e gatilhos com condição tipada
+  // ══════════════════════════════════════════════════════════════════════════
+  const fatos: MandateConditionFacts = {
+    dominio,
+    urgencia: input.urgencia,
+    tiposRisco: input.tiposRisco,
+    valores: input.valores
+  };
+
+  // Limites com condição precisam valer; não verificável bloqueia
+  for (const limite of mandate.limites ?? []) {
+    if (!limite.condicao) continue;
+    const resultado = evaluateMandateCondition(limite.condicao, fatos);
+    if (resultado !== true) {
+      return {
+        permitido: false,
+        modo,
+        motivo: resultado === false
+          ? `Limite "${limite.descricao}" do mandato ${mandate.id} violado`
+          : `Limite "${limite.descricao}" do mandato ${mandate.id} não verificável: ` +
+            `não declarado ${missingMandateFacts(limite.condicao, fatos).join(', ')}`,
+        mandato_id: mandate.id,
+        regra_bloqueio: REGRA.LIMITE_MANDATO_VIOLADO
+      };
+    }
+  }
+
+  // Verificar gatilhos de supervisão humana (textuais e estruturados)
+  const contextoLower = contexto ? contexto.toLowerCase() : undefined;
+  for (const gatilho of mandate.requer_humano_se ?? []) {
+    if (typeof gatilho === 'string') {
+      if (contextoLower && contextoLower.includes(gatilho.toLowerCase())) {
         return {
           permitido: false,
           modo,
@@ -290,6 +324,22 @@ function evaluate(input: AutonomyCheckInput): AutonomyCheckResultExtended {
           regra_bloqueio: REGRA.GATILHO_HUMANO_ACIONADO
         };
       }
+      continue;
+    }
+
+    // Estruturado: aciona se vale ou se não pode ser verificado
+    const resultado = evaluateMandateCondition(gatilho.condicao, fatos);
+    if (resultado !== false) {
+      return {
+        permitido: false,
+        modo,
+        motivo: resultado === true
+          ? `Gatilho de supervisão humana acionado: "${gatilho.descricao}"`
+          : `Gatilho de supervisão humana acionado: "${gatilho.descricao}" ` +
+            `(não verificável: não declarado ${missingMandateFacts(gatilho.condicao, fatos).join(', ')})`,
+        mandato_id: mandate.id,
+        regra_bloqueio: REGRA.GATILHO_HUMANO_ACIONADO
+      };
     }
   }
 
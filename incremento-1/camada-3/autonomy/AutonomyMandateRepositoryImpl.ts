@@ -17,9 +17,15 @@
  * - Método suspend para suspender mandato por consequência
  * - Método resume para retomar mandato suspenso
  * - Suporte a novos campos (suspendedAt, suspendReason, triggeredByObservacaoId)
+ *
+ * INCREMENTO 28 adiciona:
+ * - Persistência via StorageCollection (driver JSON ou SQLite)
+ * - Escrita por registro (put) em vez de reescrever o arquivo inteiro
  */
 
-import { JsonFileStore } from '../utilitarios/JsonFileStore';
+import { StorageCollection, StorageDriver } from '../storage/StorageTypes';
+import { JsonFileCollection } from '../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../storage/StorageCollections';
 import { AutonomyMandate, MandateExpireReason } from './AutonomyTypes';
 import { AutonomyMandateRepository } from './AutonomyMandateRepository';
 import { consumeUse, markAsExpired, getEffectiveStatus } from './AutonomyMandateService';
@@ -30,15 +36,21 @@ import { parseIsoDate, isAfter, isBefore } from './AutonomyTime';
 // ════════════════════════════════════════════════════════════════════════════
 
 /**
- * Implementação do repositório de mandatos usando JsonFileStore.
+ * Implementação do repositório de mandatos sobre uma StorageCollection.
  * Inclui lock de persistência para operações atômicas (Inc 18).
  */
 class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
-  private store: JsonFileStore;
+  private store: StorageCollection;
   private persistLock: Promise<void> = Promise.resolve();
 
-  constructor(filePath: string) {
-    this.store = new JsonFileStore(filePath);
+  /**
+   * @param filePath - Arquivo JSON (usado quando não há driver)
+   * @param driver - Driver de armazenamento do tenant (Inc 28)
+   */
+  constructor(filePath: string, driver?: StorageDriver) {
+    this.store = driver
+      ? driver.collection(STORAGE_COLLECTIONS.autonomyMandates)
+      : new JsonFileCollection(filePath, STORAGE_COLLECTIONS.autonomyMandates);
   }
 
   // ══════════════════════════════════════════════════════════════════════════
@@ -71,10 +83,8 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    */
   async create(mandate: AutonomyMandate): Promise<void> {
     return this.withLock(async () => {
-      const mandates = await this.store.readAll();
-
       // Verificar se ID já existe
-      if (mandates.some((m: AutonomyMandate) => m.id === mandate.id)) {
+      if (await this.store.get(mandate.id)) {
         throw new Error(`Mandato com ID ${mandate.id} já existe`);
       }
 
@@ -87,9 +97,7 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
 
       // Serializar datas
       const serialized = this.serializeMandate(mandateWithDefaults);
-      mandates.push(serialized);
-
-      await this.store.writeAll(mandates);
+      await this.store.put([serialized]);
     });
   }
 
@@ -97,8 +105,7 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    * Obtém mandato por ID.
    */
   async getById(id: string): Promise<AutonomyMandate | null> {
-    const mandates = await this.store.readAll();
-    const mandate = mandates.find((m: AutonomyMandate) => m.id === id);
+    const mandate = await this.store.get(id);
     return mandate ? this.deserializeMandate(mandate) : null;
   }
 
@@ -107,7 +114,7 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    * Considera: status, revogado, validFrom, validUntil, valido_ate, maxUses.
    */
   async getActiveByAgentId(agentId: string, now: Date = new Date()): Promise<AutonomyMandate[]> {
-    const mandates = await this.store.readAll();
+    const mandates = await this.store.findBy('agentId', agentId);
 
     return mandates
       .map((m: any) => this.deserializeMandate(m))
@@ -163,7 +170,7 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    * Obtém todos os mandatos de um agente.
    */
   async getAllByAgentId(agentId: string): Promise<AutonomyMandate[]> {
-    const mandates = await this.store.readAll();
+    const mandates = await this.store.findBy('agentId', agentId);
 
     return mandates
       .map((m: any) => this.deserializeMandate(m))
@@ -175,14 +182,13 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    */
   async revoke(id: string, revogadoPor: string, motivo?: string): Promise<void> {
     return this.withLock(async () => {
-      const mandates = await this.store.readAll();
-      const index = mandates.findIndex((m: AutonomyMandate) => m.id === id);
+      const raw = await this.store.get(id);
 
-      if (index === -1) {
+      if (!raw) {
         throw new Error(`Mandato ${id} não encontrado`);
       }
 
-      const mandate = this.deserializeMandate(mandates[index]);
+      const mandate = this.deserializeMandate(raw);
 
       if (mandate.revogado || mandate.status === 'revoked') {
         throw new Error(`Mandato ${id} já foi revogado`);
@@ -195,8 +201,7 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
       mandate.motivo_revogacao = motivo;
       mandate.status = 'revoked';
 
-      mandates[index] = this.serializeMandate(mandate);
-      await this.store.writeAll(mandates);
+      await this.store.put([this.serializeMandate(mandate)]);
     });
   }
 
@@ -233,14 +238,13 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    */
   async markExpired(id: string, reason: MandateExpireReason, now: Date = new Date()): Promise<void> {
     return this.withLock(async () => {
-      const mandates = await this.store.readAll();
-      const index = mandates.findIndex((m: AutonomyMandate) => m.id === id);
+      const raw = await this.store.get(id);
 
-      if (index === -1) {
+      if (!raw) {
         throw new Error(`Mandato ${id} não encontrado`);
       }
 
-      const mandate = this.deserializeMandate(mandates[index]);
+      const mandate = this.deserializeMandate(raw);
 
       // Idempotência: se já expirado ou revogado, não faz nada
       if (mandate.status === 'expired' || mandate.status === 'revoked' || mandate.revogado) {
@@ -249,8 +253,7 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
 
       // Marcar como expirado
       const expired = markAsExpired(mandate, reason, now);
-      mandates[index] = this.serializeMandate(expired);
-      await this.store.writeAll(mandates);
+      await this.store.put([this.serializeMandate(expired)]);
     });
   }
 
@@ -260,19 +263,17 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    */
   async incrementUses(id: string, now: Date = new Date()): Promise<AutonomyMandate> {
     return this.withLock(async () => {
-      const mandates = await this.store.readAll();
-      const index = mandates.findIndex((m: AutonomyMandate) => m.id === id);
+      const raw = await this.store.get(id);
 
-      if (index === -1) {
+      if (!raw) {
         throw new Error(`Mandato ${id} não encontrado`);
       }
 
-      const mandate = this.deserializeMandate(mandates[index]);
+      const mandate = this.deserializeMandate(raw);
 
       // Consumir uso
       const updated = consumeUse(mandate, now);
-      mandates[index] = this.serializeMandate(updated);
-      await this.store.writeAll(mandates);
+      await this.store.put([this.serializeMandate(updated)]);
 
       return updated;
     });
@@ -283,15 +284,11 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    */
   async update(mandate: AutonomyMandate): Promise<void> {
     return this.withLock(async () => {
-      const mandates = await this.store.readAll();
-      const index = mandates.findIndex((m: AutonomyMandate) => m.id === mandate.id);
-
-      if (index === -1) {
+      if (!(await this.store.get(mandate.id))) {
         throw new Error(`Mandato ${mandate.id} não encontrado`);
       }
 
-      mandates[index] = this.serializeMandate(mandate);
-      await this.store.writeAll(mandates);
+      await this.store.put([this.serializeMandate(mandate)]);
     });
   }
 
@@ -305,14 +302,13 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    */
   async suspend(id: string, reason: string, observacaoId: string, now: Date = new Date()): Promise<void> {
     return this.withLock(async () => {
-      const mandates = await this.store.readAll();
-      const index = mandates.findIndex((m: AutonomyMandate) => m.id === id);
+      const raw = await this.store.get(id);
 
-      if (index === -1) {
+      if (!raw) {
         throw new Error(`Mandato ${id} não encontrado`);
       }
 
-      const mandate = this.deserializeMandate(mandates[index]);
+      const mandate = this.deserializeMandate(raw);
 
       // Idempotência: se já suspenso, revogado ou expirado, não faz nada
       if (mandate.status === 'suspended' || mandate.status === 'revoked' ||
@@ -326,8 +322,7 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
       mandate.suspendReason = reason;
       mandate.triggeredByObservacaoId = observacaoId;
 
-      mandates[index] = this.serializeMandate(mandate);
-      await this.store.writeAll(mandates);
+      await this.store.put([this.serializeMandate(mandate)]);
     });
   }
 
@@ -337,14 +332,13 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
    */
   async resume(id: string, resumedBy: string, now: Date = new Date()): Promise<void> {
     return this.withLock(async () => {
-      const mandates = await this.store.readAll();
-      const index = mandates.findIndex((m: AutonomyMandate) => m.id === id);
+      const raw = await this.store.get(id);
 
-      if (index === -1) {
+      if (!raw) {
         throw new Error(`Mandato ${id} não encontrado`);
       }
 
-      const mandate = this.deserializeMandate(mandates[index]);
+      const mandate = this.deserializeMandate(raw);
 
       // Idempotência: se não suspenso, não faz nada
       if (mandate.status !== 'suspended') {
@@ -355,8 +349,7 @@ class AutonomyMandateRepositoryImpl implements AutonomyMandateRepository {
       mandate.status = 'active';
       // Mantém histórico de suspensão para auditoria
 
-      mandates[index] = this.serializeMandate(mandate);
-      await this.store.writeAll(mandates);
+      await this.store.put([this.serializeMandate(mandate)]);
     });
   }
 
@@ -18,6 +18,13 @@
  * - Campos de suspensão (suspendedAt, suspendReason, triggeredByObservacaoId)
  * - Feedback loop: consequências alteram autonomia
  *
+ * INCREMENTO 51 adiciona:
+ * - Condições tipadas (MandateCondition) em limites e gatilhos de humano
+ * - Fatos declarados na avaliação (urgência, tipos de risco, valores)
+ *
+ * INCREMENTO 52 adiciona:
+ * - Origem do mandato concedido por modelo (templateId, templateVersion)
+ *
  * PRINCÍPIOS:
  * - Ensino cria base
  * - Vivência cria sabedoria
@@ -73,6 +80,92 @@ enum AutonomyMode {
   VIVENCIA_AUTONOMA = 'VIVENCIA_AUTONOMA'
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// CONDIÇÕES DO MANDATO (INCREMENTO 51)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Tipos de condição avaliáveis por máquina.
+ */
+enum MandateConditionType {
+  /** Valor numérico declarado comparado a um limiar */
+  VALOR = 'VALOR',
+
+  /** Domínio da situação está na lista */
+  DOMINIO = 'DOMINIO',
+
+  /** Urgência da situação está na lista */
+  URGENCIA = 'URGENCIA',
+
+  /** Algum tipo de risco declarado está na lista */
+  TIPO_RISCO = 'TIPO_RISCO',
+
+  /** Todas as condições valem */
+  E = 'E',
+
+  /** Alguma condição vale */
+  OU = 'OU',
+
+  /** A condição não vale */
+  NAO = 'NAO'
+}
+
+/**
+ * Operadores de comparação numérica.
+ */
+type MandateComparisonOperator = '>' | '>=' | '<' | '<=' | '=';
+
+/**
+ * Condição tipada (JSON puro, sem código).
+ *
+ * Exemplo: { type: 'E', condicoes: [
+ *   { type: 'DOMINIO', em: ['credito'] },
+ *   { type: 'VALOR', nome: 'valor_operacao', op: '>', valor: 50000 }
+ * ] }
+ */
+type MandateCondition =
+  | { type: MandateConditionType.VALOR; nome: string; op: MandateComparisonOperator; valor: number }
+  | { type: MandateConditionType.DOMINIO; em: string[] }
+  | { type: MandateConditionType.URGENCIA; em: string[] }
+  | { type: MandateConditionType.TIPO_RISCO; em: string[] }
+  | { type: MandateConditionType.E; condicoes: MandateCondition[] }
+  | { type: MandateConditionType.OU; condicoes: MandateCondition[] }
+  | { type: MandateConditionType.NAO; condicao: MandateCondition };
+
+/**
+ * Fatos contra os quais as condições são avaliadas.
+ * Fato ausente = não declarado (a condição fica indeterminada).
+ */
+interface MandateConditionFacts {
+  dominio?: string;
+  urgencia?: string;
+  tiposRisco?: string[];
+  valores?: Record<string, number>;
+}
+
+/**
+ * Limite do mandato. Com condicao, a condição precisa valer para a
+ * autonomia ser permitida; sem ela, o limite é apenas descritivo.
+ */
+interface MandateLimite extends Limite {
+  condicao?: MandateCondition;
+}
+
+/**
+ * Gatilho estruturado de supervisão humana.
+ * Acionado quando a condição vale ou não pode ser verificada.
+ */
+interface MandateHumanTrigger {
+  descricao: string;
+  condicao: MandateCondition;
+}
+
+/**
+ * Gatilho de supervisão humana: texto (legado, busca no contexto)
+ * ou condição tipada (Inc 51).
+ */
+type MandateTrigger = string | MandateHumanTrigger;
+
 // ════════════════════════════════════════════════════════════════════════════
 // MANDATO DE AUTONOMIA
 // ════════════════════════════════════════════════════════════════════════════
@@ -104,11 +197,11 @@ interface AutonomyMandate {
   /** Perfil de risco máximo permitido */
   perfil_risco_maximo: PerfilRisco;
 
-  /** Limites invioláveis do mandato */
-  limites: Limite[];
+  /** Limites invioláveis do mandato (Inc 51: podem ter condicao) */
+  limites: MandateLimite[];
 
-  /** Gatilhos textuais que requerem humano */
-  requer_humano_se: string[];
+  /** Gatilhos que requerem humano: textuais ou estruturados (Inc 51) */
+  requer_humano_se: MandateTrigger[];
 
   /** Domínios permitidos (vazio = todos) */
   dominios_permitidos?: string[];
@@ -212,6 +305,19 @@ interface AutonomyMandate {
    * Usado para auditoria e idempotência.
    */
   triggeredByObservacaoId?: string;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CAMPOS DO INCREMENTO 52 - MODELOS DE MANDATO
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** Modelo que concedeu o mandato (se houver) */
+  templateId?: string;
+
+  /** Versão do modelo usada na concessão */
+  templateVersion?: number;
+
+  /** Mandato substituído por reconcessão do modelo */
+  substitui_mandato_id?: string;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -246,6 +352,18 @@ interface AutonomyCheckInput {
   /** Contexto textual (para verificar gatilhos) */
   contexto?: string;
 
+  /** Urgência da situação (Inc 51: condições URGENCIA) */
+  urgencia?: string;
+
+  /** Tipos de risco declarados (Inc 51: condições TIPO_RISCO) */
+  tiposRisco?: string[];
+
+  /**
+   * Valores numéricos declarados, por nome (Inc 51: condições VALOR).
+   * Ex.: { valor_operacao: 75000 }
+   */
+  valores?: Record<string, number>;
+
   /**
    * Modo de autonomia solicitado explicitamente pelo chamador.
    * Se especificado como VIVENCIA_* sem mandato válido, falha explicitamente
@@ -322,6 +440,14 @@ export {
   MandateExpireReason,
   // Modo de autonomia
   AutonomyMode,
+  // Condições do mandato (Inc 51)
+  MandateConditionType,
+  MandateComparisonOperator,
+  MandateCondition,
+  MandateConditionFacts,
+  MandateLimite,
+  MandateHumanTrigger,
+  MandateTrigger,
   // Mandato
   AutonomyMandate,
   // Avaliação
@@ -0,0 +1,301 @@
+/**
+ * INCREMENTO 51 — AUTONOMIA GRADUADA: Condições Tipadas do Mandato
+ *
+ * Linguagem pequena de condições para limites e gatilhos de supervisão
+ * humana: limiares numéricos sobre valores declarados, domínio, urgência,
+ * tipo de risco e combinadores E / OU / NAO.
+ *
+ * Lógica de três valores: uma condição que depende de um fato não
+ * declarado resulta em null (indeterminada). Quem avalia decide o lado
+ * seguro: limite indeterminado bloqueia, gatilho indeterminado aciona.
+ *
+ * PRINCÍPIOS:
+ * - Função pura, determinística, sem exceções na avaliação
+ * - Comparação de textos sem acento e sem caixa
+ * - Profundidade e tamanho limitados na validação
+ */
+
+import {
+  MandateConditionType,
+  MandateCondition,
+  MandateConditionFacts
+} from './AutonomyTypes';
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Profundidade máxima de aninhamento de uma condição */
+const MAX_MANDATE_CONDITION_DEPTH = 8;
+
+/** Máximo de nós por condição */
+const MAX_MANDATE_CONDITION_NODES = 64;
+
+const VALOR_NOME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+const OPERADORES = ['>', '>=', '<', '<=', '='];
+const CONDITION_TYPES: string[] = Object.values(MandateConditionType);
+
+// ════════════════════════════════════════════════════════════════════════════
+// AVALIAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+function normalizar(texto: string): string {
+  return texto.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+function pertence(valor: string | undefined, lista: string[]): boolean | null {
+  if (valor === undefined) return null;
+  const alvo = normalizar(valor);
+  return lista.some(item => normalizar(item) === alvo);
+}
+
+/**
+ * Avalia uma condição contra os fatos declarados.
+ *
+ * @returns true/false, ou null se algum fato necessário não foi declarado
+ */
+function evaluateMandateCondition(
+  condicao: MandateCondition,
+  fatos: MandateConditionFacts
+): boolean | null {
+  switch (condicao.type) {
+    case MandateConditionType.VALOR: {
+      const atual = fatos.valores?.[condicao.nome];
+      if (typeof atual !== 'number' || !Number.isFinite(atual)) return null;
+      switch (condicao.op) {
+        case '>': return atual > condicao.valor;
+        case '>=': return atual >= condicao.valor;
+        case '<': return atual < condicao.valor;
+        case '<=': return atual <= condicao.valor;
+        case '=': return atual === condicao.valor;
+        default: return null;
+      }
+    }
+
+    case MandateConditionType.DOMINIO:
+      return pertence(fatos.dominio, condicao.em);
+
+    case MandateConditionType.URGENCIA:
+      return pertence(fatos.urgencia, condicao.em);
+
+    case MandateConditionType.TIPO_RISCO: {
+      if (!fatos.tiposRisco) return null;
+      return fatos.tiposRisco.some(tipo => pertence(tipo, condicao.em));
+    }
+
+    case MandateConditionType.E: {
+      let resultado: boolean | null = true;
+      for (const sub of condicao.condicoes) {
+        const r = evaluateMandateCondition(sub, fatos);
+        if (r === false) return false;
+        if (r === null) resultado = null;
+      }
+      return resultado;
+    }
+
+    case MandateConditionType.OU: {
+      let resultado: boolean | null = false;
+      for (const sub of condicao.condicoes) {
+        const r = evaluateMandateCondition(sub, fatos);
+        if (r === true) return true;
+        if (r === null) resultado = null;
+      }
+      return resultado;
+    }
+
+    case MandateConditionType.NAO: {
+      const r = evaluateMandateCondition(condicao.condicao, fatos);
+      return r === null ? null : !r;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Fatos exigidos pela condição e não declarados, no formato do
+ * AutonomyCheckInput (ex.: "valores.valor_operacao", "urgencia").
+ */
+function missingMandateFacts(condicao: MandateCondition, fatos: MandateConditionFacts): string[] {
+  const ausentes = new Set<string>();
+
+  const visitar = (c: MandateCondition): void => {
+    switch (c.type) {
+      case MandateConditionType.VALOR:
+        if (typeof fatos.valores?.[c.nome] !== 'number' || !Number.isFinite(fatos.valores[c.nome])) {
+          ausentes.add(`valores.${c.nome}`);
+        }
+        break;
+      case MandateConditionType.DOMINIO:
+        if (fatos.dominio === undefined) ausentes.add('dominio');
+        break;
+      case MandateConditionType.URGENCIA:
+        if (fatos.urgencia === undefined) ausentes.add('urgencia');
+        break;
+      case MandateConditionType.TIPO_RISCO:
+        if (!fatos.tiposRisco) ausentes.add('tiposRisco');
+        break;
+      case MandateConditionType.E:
+      case MandateConditionType.OU:
+        c.condicoes.forEach(visitar);
+        break;
+      case MandateConditionType.NAO:
+        visitar(c.condicao);
+        break;
+    }
+  };
+
+  visitar(condicao);
+  return [...ausentes];
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// VALIDAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKnownFields(
+  obj: Record<string, unknown>,
+  allowed: string[],
+  path: string,
+  errors: string[]
+): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${path}.${key}: campo desconhecido`);
+    }
+  }
+}
+
+function checkStringList(value: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(value) || value.length === 0 ||
+      value.some(item => typeof item !== 'string' || item.trim().length === 0)) {
+    errors.push(`${path}: deve ser lista não vazia de textos`);
+  }
+}
+
+/**
+ * Valida uma condição (JSON já parseado), acumulando erros com caminho.
+ *
+ * @param contador - Nós visitados até aqui (compartilhado na recursão)
+ */
+function validateMandateCondition(
+  raw: unknown,
+  path: string,
+  errors: string[],
+  depth: number = 1,
+  contador: { nos: number } = { nos: 0 }
+): void {
+  contador.nos++;
+  if (contador.nos === MAX_MANDATE_CONDITION_NODES + 1) {
+    errors.push(`${path}: máximo de ${MAX_MANDATE_CONDITION_NODES} nós por condição`);
+  }
+  if (contador.nos > MAX_MANDATE_CONDITION_NODES) return;
+
+  if (depth > MAX_MANDATE_CONDITION_DEPTH) {
+    errors.push(`${path}: profundidade máxima ${MAX_MANDATE_CONDITION_DEPTH}`);
+    return;
+  }
+
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: condição deve ser um objeto`);
+    return;
+  }
+
+  switch (raw.type) {
+    case MandateConditionType.VALOR:
+      checkKnownFields(raw, ['type', 'nome', 'op', 'valor'], path, errors);
+      if (typeof raw.nome !== 'string' || !VALOR_NOME_PATTERN.test(raw.nome)) {
+        errors.push(`${path}.nome: use minúsculas, dígitos e _ (ex.: valor_operacao)`);
+      }
+      if (!OPERADORES.includes(raw.op as string)) {
+        errors.push(`${path}.op: deve ser um de ${OPERADORES.join(', ')}`);
+      }
+      if (typeof raw.valor !== 'number' || !Number.isFinite(raw.valor)) {
+        errors.push(`${path}.valor: deve ser número finito`);
+      }
+      break;
+
+    case MandateConditionType.DOMINIO:
+    case MandateConditionType.URGENCIA:
+    case MandateConditionType.TIPO_RISCO:
+      checkKnownFields(raw, ['type', 'em'], path, errors);
+      checkStringList(raw.em, `${path}.em`, errors);
+      break;
+
+    case MandateConditionType.E:
+    case MandateConditionType.OU:
+      checkKnownFields(raw, ['type', 'condicoes'], path, errors);
+      if (!Array.isArray(raw.condicoes) || raw.condicoes.length === 0) {
+        errors.push(`${path}.condicoes: deve ser lista não vazia de condições`);
+      } else {
+        raw.condicoes.forEach((sub, i) =>
+          validateMandateCondition(sub, `${path}.condicoes[${i}]`, errors, depth + 1, contador)
+        );
+      }
+      break;
+
+    case MandateConditionType.NAO:
+      checkKnownFields(raw, ['type', 'condicao'], path, errors);
+      validateMandateCondition(raw.condicao, `${path}.condicao`, errors, depth + 1, contador);
+      break;
+
+    default:
+      errors.push(`${path}.type: deve ser um de ${CONDITION_TYPES.join(', ')}`);
+  }
+}
+
+/**
+ * Valida as condições de limites e gatilhos de um mandato.
+ *
+ * Gatilhos textuais e limites sem condicao não são verificados aqui
+ * (continuam como antes). Erros no formato "limites[0].condicao.op: ...".
+ */
+function validateMandateConditions(
+  mandate: { limites?: unknown; requer_humano_se?: unknown }
+): string[] {
+  const errors: string[] = [];
+
+  if (Array.isArray(mandate.limites)) {
+    mandate.limites.forEach((limite: unknown, i: number) => {
+      if (isPlainObject(limite) && limite.condicao !== undefined) {
+        validateMandateCondition(limite.condicao, `limites[${i}].condicao`, errors);
+      }
+    });
+  }
+
+  if (Array.isArray(mandate.requer_humano_se)) {
+    mandate.requer_humano_se.forEach((gatilho: unknown, i: number) => {
+      if (typeof gatilho === 'string') return;
+      const path = `requer_humano_se[${i}]`;
+      if (!isPlainObject(gatilho)) {
+        errors.push(`${path}: deve ser texto ou { descricao, condicao }`);
+        return;
+      }
+      checkKnownFields(gatilho, ['descricao', 'condicao'], path, errors);
+      if (typeof gatilho.descricao !== 'string' || gatilho.descricao.trim().length === 0) {
+        errors.push(`${path}.descricao: deve ser texto não vazio`);
+      }
+      validateMandateCondition(gatilho.condicao, `${path}.condicao`, errors);
+    });
+  }
+
+  return errors;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// EXPORTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  evaluateMandateCondition,
+  missingMandateFacts,
+  validateMandateCondition,
+  validateMandateConditions,
+  MAX_MANDATE_CONDITION_DEPTH,
+  MAX_MANDATE_CONDITION_NODES
+};
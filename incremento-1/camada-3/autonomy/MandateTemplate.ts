@@ -0,0 +1,284 @@
+/**
+ * INCREMENTO 52 — AUTONOMIA GRADUADA: Modelos de Mandato (funções puras)
+ *
+ * Validação do modelo, diff entre versões e montagem do mandato concedido
+ * por um modelo. Persistência e eventos ficam no OrquestradorCognitivo.
+ *
+ * PRINCÍPIOS:
+ * - NÃO persiste nada, NÃO lança exceções
+ * - Erros com caminho do campo (ex.: "limites[0].condicao.op: ...")
+ * - Diff determinístico, na ordem fixa dos campos do modelo
+ */
+
+import { PerfilRisco } from '../entidades/tipos';
+import { ActorId } from '../event-log/EventLogEntry';
+import { AggregationPolicy } from '../multiagente/MultiAgentTypes';
+import { AutonomyMode, AutonomyMandate } from './AutonomyTypes';
+import { validateMandateConditions } from './MandateConditions';
+import { MandateTemplate, MandateTemplateSpec, MandateTemplateDiffEntry } from './MandateTemplateTypes';
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Máximo de agentes por concessão em lote */
+const MAX_MANDATE_TEMPLATE_AGENTS = 100;
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+const AGGREGATION_POLICIES: AggregationPolicy[] = [
+  'FIRST_VALID',
+  'MAJORITY_BY_ALTERNATIVE',
+  'WEIGHTED_MAJORITY',
+  'REQUIRE_CONSENSUS',
+  'HUMAN_OVERRIDE_REQUIRED'
+];
+
+/** Campos do modelo, na ordem usada pela validação e pelo diff */
+const SPEC_FIELDS: Array<keyof MandateTemplateSpec> = [
+  'descricao',
+  'modo',
+  'politicas_permitidas',
+  'perfil_risco_maximo',
+  'limites',
+  'requer_humano_se',
+  'dominios_permitidos',
+  'casos_uso_permitidos',
+  'validadeDias',
+  'maxUses'
+];
+
+// ════════════════════════════════════════════════════════════════════════════
+// VALIDAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resultado da validação de um modelo.
+ */
+interface MandateTemplateValidation {
+  valid: boolean;
+  errors: string[];
+
+  /** Campos normalizados (apenas se valid) */
+  spec?: MandateTemplateSpec;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Nome de modelo válido: minúsculas, dígitos, ".", "_" e "-".
+ */
+function isValidMandateTemplateId(templateId: unknown): templateId is string {
+  return typeof templateId === 'string' && TEMPLATE_ID_PATTERN.test(templateId);
+}
+
+/**
+ * Valida os campos de um modelo (JSON já parseado).
+ *
+ * Rejeita campos desconhecidos; limites e gatilhos seguem as regras de
+ * mandato, inclusive condições tipadas (Inc 51).
+ */
+function validateMandateTemplateSpec(raw: unknown): MandateTemplateValidation {
+  const errors: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    return { valid: false, errors: ['modelo deve ser um objeto'] };
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!(SPEC_FIELDS as string[]).includes(key)) {
+      errors.push(`${key}: campo desconhecido`);
+    }
+  }
+
+  if (raw.descricao !== undefined && typeof raw.descricao !== 'string') {
+    errors.push('descricao: deve ser texto');
+  }
+
+  if (!Object.values(AutonomyMode).includes(raw.modo as AutonomyMode)) {
+    errors.push(`modo: deve ser um de ${Object.values(AutonomyMode).join(', ')}`);
+  }
+
+  const politicas = raw.politicas_permitidas;
+  if (!Array.isArray(politicas) || politicas.length === 0) {
+    errors.push('politicas_permitidas: deve ser lista não vazia');
+  } else {
+    politicas.forEach((p: unknown, i: number) => {
+      if (!AGGREGATION_POLICIES.includes(p as AggregationPolicy)) {
+        errors.push(`politicas_permitidas[${i}]: deve ser um de ${AGGREGATION_POLICIES.join(', ')}`);
+      } else if (politicas.indexOf(p) !== i) {
+        errors.push(`politicas_permitidas[${i}]: ${p} duplicada`);
+      }
+    });
+  }
+
+  if (!Object.values(PerfilRisco).includes(raw.perfil_risco_maximo as PerfilRisco)) {
+    errors.push(`perfil_risco_maximo: deve ser um de ${Object.values(PerfilRisco).join(', ')}`);
+  }
+
+  if (raw.limites !== undefined) {
+    if (!Array.isArray(raw.limites)) {
+      errors.push('limites: deve ser lista de { tipo, descricao, valor }');
+    } else {
+      raw.limites.forEach((l: unknown, i: number) => {
+        if (!isPlainObject(l) || !isText(l.tipo) || typeof l.descricao !== 'string' || typeof l.valor !== 'string') {
+          errors.push(`limites[${i}]: deve ser { tipo, descricao, valor }`);
+        }
+      });
+    }
+  }
+
+  if (raw.requer_humano_se !== undefined) {
+    if (!Array.isArray(raw.requer_humano_se)) {
+      errors.push('requer_humano_se: deve ser lista de textos ou { descricao, condicao }');
+    } else {
+      raw.requer_humano_se.forEach((g: unknown, i: number) => {
+        if (typeof g === 'string' && !isText(g)) {
+          errors.push(`requer_humano_se[${i}]: deve ser texto não vazio`);
+        }
+      });
+    }
+  }
+
+  errors.push(...validateMandateConditions(raw));
+
+  if (raw.dominios_permitidos !== undefined &&
+      !(Array.isArray(raw.dominios_permitidos) && raw.dominios_permitidos.every(isText))) {
+    errors.push('dominios_permitidos: deve ser lista de textos');
+  }
+
+  if (raw.casos_uso_permitidos !== undefined &&
+      !(Array.isArray(raw.casos_uso_permitidos) && raw.casos_uso_permitidos.every(isPositiveInteger))) {
+    errors.push('casos_uso_permitidos: deve ser lista de inteiros >= 1');
+  }
+
+  for (const campo of ['validadeDias', 'maxUses']) {
+    if (raw[campo] !== undefined && !isPositiveInteger(raw[campo])) {
+      errors.push(`${campo}: deve ser inteiro >= 1`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Cópia com campos em ordem fixa: o diff compara a forma serializada
+  const copia = JSON.parse(JSON.stringify(raw)) as Record<string, unknown>;
+  const spec: Record<string, unknown> = {};
+  for (const campo of SPEC_FIELDS) {
+    if (copia[campo] !== undefined) spec[campo] = copia[campo];
+  }
+  spec.limites = spec.limites ?? [];
+  spec.requer_humano_se = spec.requer_humano_se ?? [];
+
+  return { valid: true, errors: [], spec: spec as unknown as MandateTemplateSpec };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// DIFF
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Campos do modelo que mudaram de uma versão para outra.
+ */
+function diffMandateTemplates(
+  antes: MandateTemplateSpec,
+  depois: MandateTemplateSpec
+): MandateTemplateDiffEntry[] {
+  const diff: MandateTemplateDiffEntry[] = [];
+  for (const campo of SPEC_FIELDS) {
+    const a = antes[campo] ?? null;
+    const b = depois[campo] ?? null;
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      diff.push({ campo, antes: a, depois: b });
+    }
+  }
+  return diff;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// MONTAGEM DO MANDATO
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Dados do mandato que não vêm do modelo.
+ */
+interface MandateFromTemplateOptions {
+  id: string;
+  agentId: string;
+  concedidoPor: ActorId;
+  now: Date;
+  validFrom?: string;
+  validUntil?: string;
+  maxUses?: number;
+  uses?: number;
+  substituiMandatoId?: string;
+}
+
+/**
+ * Monta o mandato concedido por uma versão do modelo.
+ *
+ * Sem validUntil explícito, validadeDias conta a partir de validFrom
+ * (ou de now); sem maxUses explícito, vale o padrão do modelo.
+ */
+function buildMandateFromTemplate(
+  template: MandateTemplate,
+  options: MandateFromTemplateOptions
+): AutonomyMandate {
+  const inicio = options.validFrom ?? options.now.toISOString();
+  const validUntil = options.validUntil ??
+    (template.validadeDias !== undefined
+      ? new Date(Date.parse(inicio) + template.validadeDias * DIA_MS).toISOString()
+      : undefined);
+
+  const copia = JSON.parse(JSON.stringify(template)) as MandateTemplate;
+
+  return {
+    id: options.id,
+    agentId: options.agentId,
+    modo: copia.modo,
+    politicas_permitidas: copia.politicas_permitidas,
+    perfil_risco_maximo: copia.perfil_risco_maximo,
+    limites: copia.limites,
+    requer_humano_se: copia.requer_humano_se,
+    dominios_permitidos: copia.dominios_permitidos,
+    casos_uso_permitidos: copia.casos_uso_permitidos,
+    concedido_por: options.concedidoPor,
+    concedido_em: options.now,
+    revogado: false,
+    validFrom: options.validFrom,
+    validUntil,
+    maxUses: options.maxUses ?? copia.maxUses,
+    uses: options.uses ?? 0,
+    status: 'active',
+    templateId: template.templateId,
+    templateVersion: template.version,
+    substitui_mandato_id: options.substituiMandatoId
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// EXPORTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  MandateTemplateValidation,
+  MandateFromTemplateOptions,
+  isValidMandateTemplateId,
+  validateMandateTemplateSpec,
+  diffMandateTemplates,
+  buildMandateFromTemplate,
+  MAX_MANDATE_TEMPLATE_AGENTS
+};
@@ -0,0 +1,43 @@
+/**
+ * INCREMENTO 52 — AUTONOMIA GRADUADA: Interface do Repositório de Modelos
+ *
+ * Guarda todas as versões de cada modelo de mandato.
+ *
+ * PRINCÍPIOS:
+ * - Por tenant: o repositório usa o storage do tenant
+ * - Append-only: uma versão registrada nunca muda; alteração = nova versão
+ */
+
+import { MandateTemplate } from './MandateTemplateTypes';
+
+interface MandateTemplateRepository {
+  /**
+   * Registra uma versão de modelo.
+   * @throws Se a versão já existe
+   */
+  create(template: MandateTemplate): Promise<void>;
+
+  /**
+   * Busca uma versão específica.
+   * @returns Versão ou null se não encontrada
+   */
+  getVersion(templateId: string, version: number): Promise<MandateTemplate | null>;
+
+  /**
+   * Versão mais recente de um modelo.
+   * @returns Versão ou null se o modelo não existe
+   */
+  getLatest(templateId: string): Promise<MandateTemplate | null>;
+
+  /**
+   * Todas as versões de um modelo, da mais antiga para a mais recente.
+   */
+  listVersions(templateId: string): Promise<MandateTemplate[]>;
+
+  /**
+   * Versão mais recente de cada modelo, ordenada por templateId.
+   */
+  listLatest(): Promise<MandateTemplate[]>;
+}
+
+export { MandateTemplateRepository };
@@ -0,0 +1,72 @@
+/**
+ * INCREMENTO 52 — AUTONOMIA GRADUADA: Implementação do Repositório de Modelos
+ *
+ * Persistência via StorageCollection (driver do tenant ou arquivo JSON).
+ * Cada versão é um registro com chave "<templateId>@<version>".
+ */
+
+import { StorageCollection, StorageDriver, StoredRecord } from '../storage/StorageTypes';
+import { JsonFileCollection } from '../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../storage/StorageCollections';
+import { MandateTemplateRepository } from './MandateTemplateRepository';
+import { MandateTemplate } from './MandateTemplateTypes';
+
+function chave(templateId: string, version: number): string {
+  return `${templateId}@${version}`;
+}
+
+function deserializar(raw: StoredRecord): MandateTemplate {
+  const { key: _key, ...template } = raw;
+  return template as unknown as MandateTemplate;
+}
+
+class MandateTemplateRepositoryImpl implements MandateTemplateRepository {
+  private store: StorageCollection;
+
+  /**
+   * @param filePath - Arquivo JSON (usado quando não há driver)
+   * @param driver - Driver de armazenamento do tenant
+   */
+  constructor(filePath: string, driver?: StorageDriver) {
+    this.store = driver
+      ? driver.collection(STORAGE_COLLECTIONS.mandateTemplates)
+      : new JsonFileCollection(filePath, STORAGE_COLLECTIONS.mandateTemplates);
+  }
+
+  async create(template: MandateTemplate): Promise<void> {
+    const key = chave(template.templateId, template.version);
+    if (await this.store.get(key)) {
+      throw new Error(`Modelo de mandato ${template.templateId} v${template.version} já registrado`);
+    }
+    await this.store.put([{ key, ...JSON.parse(JSON.stringify(template)) }]);
+  }
+
+  async getVersion(templateId: string, version: number): Promise<MandateTemplate | null> {
+    const raw = await this.store.get(chave(templateId, version));
+    return raw ? deserializar(raw) : null;
+  }
+
+  async getLatest(templateId: string): Promise<MandateTemplate | null> {
+    const versoes = await this.listVersions(templateId);
+    return versoes.length > 0 ? versoes[versoes.length - 1] : null;
+  }
+
+  async listVersions(templateId: string): Promise<MandateTemplate[]> {
+    const raws = await this.store.findBy('templateId', templateId);
+    return raws.map(deserializar).sort((a, b) => a.version - b.version);
+  }
+
+  async listLatest(): Promise<MandateTemplate[]> {
+    const raws = await this.store.readAll();
+    const latest = new Map<string, MandateTemplate>();
+    for (const template of raws.map(deserializar)) {
+      const atual = latest.get(template.templateId);
+      if (!atual || template.version > atual.version) {
+        latest.set(template.templateId, template);
+      }
+    }
+    return [...latest.values()].sort((a, b) => a.templateId.localeCompare(b.templateId));
+  }
+}
+
+export { MandateTemplateRepositoryImpl };
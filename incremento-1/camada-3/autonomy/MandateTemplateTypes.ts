@@ -0,0 +1,177 @@
+/**
+ * INCREMENTO 52 — AUTONOMIA GRADUADA: Modelos de Mandato
+ *
+ * Um modelo guarda os campos comuns de mandatos de uma frota de agentes
+ * (modo, políticas, perfil de risco máximo, limites, gatilhos e validade
+ * padrão) e concede mandatos a vários agentes de uma vez.
+ *
+ * PRINCÍPIOS:
+ * - Versionado: cada alteração cria uma nova versão; versões são imutáveis
+ * - Mandato concedido guarda templateId e templateVersion de origem
+ * - Alterar o modelo NUNCA altera mandatos vigentes: gera um diff e uma
+ *   reconcessão explícita, auditada no EventLog
+ */
+
+import { PerfilRisco } from '../entidades/tipos';
+import { ActorId } from '../event-log/EventLogEntry';
+import { AggregationPolicy } from '../multiagente/MultiAgentTypes';
+import { AutonomyMode, AutonomyMandate, MandateLimite, MandateTrigger } from './AutonomyTypes';
+
+// ════════════════════════════════════════════════════════════════════════════
+// MODELO
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Campos do mandato definidos pelo modelo.
+ */
+interface MandateTemplateSpec {
+  /** Descrição livre do modelo */
+  descricao?: string;
+
+  modo: AutonomyMode;
+  politicas_permitidas: AggregationPolicy[];
+  perfil_risco_maximo: PerfilRisco;
+  limites: MandateLimite[];
+  requer_humano_se: MandateTrigger[];
+  dominios_permitidos?: string[];
+  casos_uso_permitidos?: number[];
+
+  /**
+   * Validade padrão, em dias a partir do início do mandato.
+   * Sem valor = sem expiração por tempo.
+   */
+  validadeDias?: number;
+
+  /** Limite de usos padrão */
+  maxUses?: number;
+}
+
+/**
+ * Versão de um modelo de mandato (imutável).
+ */
+interface MandateTemplate extends MandateTemplateSpec {
+  /** Nome do modelo (ex.: "analista-credito") */
+  templateId: string;
+
+  /** Versão, a partir de 1 */
+  version: number;
+
+  /** Ator que criou esta versão */
+  criado_por: ActorId;
+
+  /** Data de criação desta versão (ISO) */
+  criado_em: string;
+}
+
+/**
+ * Campo alterado entre duas versões.
+ */
+interface MandateTemplateDiffEntry {
+  campo: keyof MandateTemplateSpec;
+  antes: unknown;
+  depois: unknown;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONCESSÃO EM LOTE
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Concessão de mandatos a partir de um modelo.
+ * validFrom/validUntil/maxUses sobrepõem os padrões do modelo.
+ */
+interface MandateTemplateGrantInput {
+  agentIds: string[];
+
+  /** Versão do modelo (default: a mais recente) */
+  version?: number;
+
+  validFrom?: string;
+  validUntil?: string;
+  maxUses?: number;
+}
+
+interface MandateTemplateGrantResult {
+  templateId: string;
+  version: number;
+  mandates: AutonomyMandate[];
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ATUALIZAÇÃO E RECONCESSÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+interface MandateTemplateUpdateResult {
+  template: MandateTemplate;
+
+  /** Versão substituída */
+  versaoAnterior: number;
+
+  diff: MandateTemplateDiffEntry[];
+
+  /** Mandatos vigentes de versões anteriores (não foram alterados) */
+  mandatosDesatualizados: string[];
+}
+
+/**
+ * Mandato vigente concedido por uma versão anterior do modelo.
+ */
+interface MandateRegrantItem {
+  mandateId: string;
+  agentId: string;
+  templateVersion: number;
+
+  /** false para mandato suspenso: a retomada exige revisão humana */
+  reconcedivel: boolean;
+  motivo?: string;
+
+  /**
+   * Mandato já concedido em substituição (reconcessão interrompida antes
+   * da revogação): a reconcessão apenas revoga o anterior.
+   */
+  substitutoId?: string;
+
+  /** Diferenças entre a versão do mandato e a versão atual */
+  diff: MandateTemplateDiffEntry[];
+}
+
+interface MandateRegrantPlan {
+  templateId: string;
+
+  /** Versão para a qual os mandatos seriam reconcedidos */
+  version: number;
+
+  itens: MandateRegrantItem[];
+}
+
+interface MandateRegrantInput {
+  /** Versão atual do modelo, confirmada por quem reconcede */
+  expectedVersion: number;
+
+  /** Restringe a reconcessão a estes mandatos (default: todos os reconcedíveis) */
+  mandateIds?: string[];
+}
+
+interface MandateRegrantResult {
+  templateId: string;
+  version: number;
+  reconcedidos: Array<{ anterior: string; mandate: AutonomyMandate }>;
+  ignorados: Array<{ mandateId: string; motivo: string }>;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// EXPORTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  MandateTemplateSpec,
+  MandateTemplate,
+  MandateTemplateDiffEntry,
+  MandateTemplateGrantInput,
+  MandateTemplateGrantResult,
+  MandateTemplateUpdateResult,
+  MandateRegrantItem,
+  MandateRegrantPlan,
+  MandateRegrantInput,
+  MandateRegrantResult
+};
@@ -93,6 +93,9 @@ interface SuspendMandateInput {
 
   /** Ator que registrou */
   actor?: ActorId;
+
+  /** Regra de consequência que disparou (INCREMENTO 34) */
+  ruleId?: ConsequenceRuleId;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -211,7 +214,7 @@ class AutonomyConsequenceService {
     switch (action) {
       case ConsequenceAction.REVOKE_MANDATE:
         if (mandate) {
-          await this.revokeByConsequenceInternal(mandate, effects.triggeredByObservacaoId!, reason, actor, now);
+          await this.revokeByConsequenceInternal(mandate, effects.triggeredByObservacaoId!, reason, actor, now, ruleId);
           result.applied = true;
           result.eventsLogged.push(TipoEvento.AUTONOMY_REVOKED_BY_CONSEQUENCE);
           result.updatedMandate = await this.mandateRepo.getById(mandate.id) ?? undefined;
@@ -225,7 +228,8 @@ class AutonomyConsequenceService {
             reason: effects.suspendReason ?? reason,
             observacaoId: effects.triggeredByObservacaoId!,
             suspendedAt: now,
-            actor
+            actor,
+            ruleId
           });
           result.applied = true;
           result.eventsLogged.push(TipoEvento.AUTONOMY_SUSPENDED);
@@ -238,7 +242,7 @@ class AutonomyConsequenceService {
 
       case ConsequenceAction.DEGRADE_MODE:
         if (mandate && effects.newAutonomyMode) {
-          await this.degradeModeInternal(mandate, effects.newAutonomyMode, effects.triggeredByObservacaoId!, actor, now);
+          await this.degradeModeInternal(mandate, effects.newAutonomyMode, effects.triggeredByObservacaoId!, actor, now, ruleId);
           result.applied = true;
           result.eventsLogged.push(TipoEvento.AUTONOMY_DEGRADED);
           result.updatedMandate = await this.mandateRepo.getById(mandate.id) ?? undefined;
@@ -246,7 +250,7 @@ class AutonomyConsequenceService {
         break;
 
       case ConsequenceAction.FLAG_HUMAN_REVIEW:
-        await this.flagHumanReviewInternal(mandate?.id, effects.triggeredByObservacaoId!, reason, actor, now);
+        await this.flagHumanReviewInternal(mandate?.id, effects.triggeredByObservacaoId!, reason, actor, now, ruleId);
         result.applied = true;
         result.eventsLogged.push(TipoEvento.AUTONOMY_HUMAN_REVIEW_FLAGGED);
         break;
@@ -322,7 +326,8 @@ class AutonomyConsequenceService {
         agentId: mandate.agentId,
         suspendedAt: input.suspendedAt.toISOString(),
         suspendReason: input.reason,
-        observacaoId: input.observacaoId
+        observacaoId: input.observacaoId,
+        ruleId: input.ruleId ?? null
       },
       input.actor ?? 'Libervia'
     );
@@ -354,7 +359,8 @@ class AutonomyConsequenceService {
     observacaoId: string,
     reason: string,
     actor: ActorId,
-    now: Date
+    now: Date,
+    ruleId?: ConsequenceRuleId
   ): Promise<void> {
     // Idempotência
     if (mandate.status === 'revoked' || mandate.revogado) {
@@ -384,7 +390,8 @@ class AutonomyConsequenceService {
         agentId: mandate.agentId,
         revokedAt: now.toISOString(),
         reason,
-        observacaoId
+        observacaoId,
+        ruleId: ruleId ?? null
       },
       actor
     );
@@ -415,7 +422,8 @@ class AutonomyConsequenceService {
     newMode: AutonomyMode,
     observacaoId: string,
     actor: ActorId,
-    now: Date
+    now: Date,
+    ruleId?: ConsequenceRuleId
   ): Promise<void> {
     const oldMode = mandate.modo;
 
@@ -439,7 +447,8 @@ class AutonomyConsequenceService {
         oldMode,
         newMode,
         degradedAt: now.toISOString(),
-        observacaoId
+        observacaoId,
+        ruleId: ruleId ?? null
       },
       actor
     );
@@ -558,7 +567,8 @@ class AutonomyConsequenceService {
     observacaoId: string,
     reason: string,
     actor: ActorId,
-    now: Date
+    now: Date,
+    ruleId?: ConsequenceRuleId
   ): Promise<void> {
     // Registrar evento (mesmo sem mandato)
     await this.logEvent(
@@ -569,7 +579,8 @@ class AutonomyConsequenceService {
         mandateId,
         observacaoId,
         reason,
-        flaggedAt: now.toISOString()
+        flaggedAt: now.toISOString(),
+        ruleId: ruleId ?? null
       },
       actor
     );
@@ -18,6 +18,9 @@
  * - Policy de consequência (revogação/suspensão/degradação automática)
  * - Regras determinísticas baseadas em gatilhos
  * - Feedback loop: consequências afetam autonomia
+ *
+ * INCREMENTO 51 adiciona:
+ * - Condições tipadas em limites e gatilhos de supervisão humana
  */
 
 // Tipos (Inc 17 + 18)
@@ -32,6 +35,50 @@ export {
   perfilExcede
 } from './AutonomyTypes';
 
+// Condições do mandato (Inc 51)
+export {
+  MandateConditionType,
+  MandateComparisonOperator,
+  MandateCondition,
+  MandateConditionFacts,
+  MandateLimite,
+  MandateHumanTrigger,
+  MandateTrigger
+} from './AutonomyTypes';
+export {
+  evaluateMandateCondition,
+  missingMandateFacts,
+  validateMandateCondition,
+  validateMandateConditions,
+  MAX_MANDATE_CONDITION_DEPTH,
+  MAX_MANDATE_CONDITION_NODES
+} from './MandateConditions';
+
+// Modelos de mandato (Inc 52)
+export {
+  MandateTemplateSpec,
+  MandateTemplate,
+  MandateTemplateDiffEntry,
+  MandateTemplateGrantInput,
+  MandateTemplateGrantResult,
+  MandateTemplateUpdateResult,
+  MandateRegrantItem,
+  MandateRegrantPlan,
+  MandateRegrantInput,
+  MandateRegrantResult
+} from './MandateTemplateTypes';
+export {
+  MandateTemplateValidation,
+  MandateFromTemplateOptions,
+  isValidMandateTemplateId,
+  validateMandateTemplateSpec,
+  diffMandateTemplates,
+  buildMandateFromTemplate,
+  MAX_MANDATE_TEMPLATE_AGENTS
+} from './MandateTemplate';
+export { MandateTemplateRepository } from './MandateTemplateRepository';
+export { MandateTemplateRepositoryImpl } from './MandateTemplateRepositoryImpl';
+
 // Erros
 export {
   AutonomyError,
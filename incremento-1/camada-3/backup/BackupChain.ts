@@ -0,0 +1,190 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 46: CADEIA DE BACKUPS INCREMENTAIS
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Um backup incremental aponta para o backup base (`baseBackupId`) e se
+ * prende a ele por hash em dois pontos:
+ *
+ * - `baseContentHash`: contentHash da base; trocar ou alterar a base quebra o elo
+ * - `baseLastEventHash`: último evento da base; o primeiro evento do
+ *   incremental tem `previous_hash` igual a ele
+ *
+ * Cadeia = [completo, incremental 1, ..., incremental N], da raiz à ponta.
+ */
+
+import { EventLogEntry } from '../event-log/EventLogEntry';
+import { BackupEntityData, BackupEntityType, BackupMetadata, BackupSnapshot } from './BackupTypes';
+import { computeEntityDataHash, serializeForHash, sha256, verifyBackupIntegrity } from './BackupCrypto';
+import { BackupChainError } from './BackupErrors';
+
+/**
+ * ID de um item de entidade (mesma regra da restauração).
+ */
+function getBackupItemId(item: unknown): string | undefined {
+  if (item && typeof item === 'object') {
+    const obj = item as Record<string, unknown>;
+    return (obj.id ?? obj.mandateId ?? obj.caseId ?? obj.tenantId) as string | undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Metadados de encadeamento de um novo incremental sobre `base` (ponta da cadeia).
+ */
+function createChainMetadata(
+  base: BackupSnapshot
+): Pick<BackupMetadata, 'kind' | 'baseBackupId' | 'baseContentHash' | 'baseLastEventId' | 'baseLastEventHash' | 'chainRootId' | 'chainDepth'> {
+  const meta = base.metadata;
+  return {
+    kind: 'incremental',
+    baseBackupId: meta.backupId,
+    baseContentHash: base.contentHash,
+    baseLastEventId: meta.lastEventId,
+    baseLastEventHash: meta.lastEventHash,
+    chainRootId: meta.kind === 'incremental' ? meta.chainRootId : meta.backupId,
+    chainDepth: (meta.chainDepth ?? 0) + 1
+  };
+}
+
+/**
+ * Eventos posteriores à âncora da base.
+ *
+ * @throws BackupChainError se o evento âncora não existe mais no EventLog
+ *         ou se o hash dele mudou (EventLog divergiu da base)
+ */
+function selectEventsAfter(events: EventLogEntry[], base: BackupMetadata): EventLogEntry[] {
+  if (!base.lastEventId) {
+    return events;
+  }
+
+  const index = events.findIndex(e => e.id === base.lastEventId);
+  if (index < 0) {
+    throw new BackupChainError(
+      `Evento âncora da base não encontrado no EventLog: ${base.lastEventId}`,
+      base.backupId
+    );
+  }
+  if (events[index].current_hash !== base.lastEventHash) {
+    throw new BackupChainError(
+      `EventLog divergiu da base no evento ${base.lastEventId}`,
+      base.backupId
+    );
+  }
+
+  return events.slice(index + 1);
+}
+
+/**
+ * Itens novos ou alterados em relação à versão consolidada da cadeia.
+ * Itens sem ID são sempre incluídos.
+ */
+function selectChangedItems(current: unknown[], base: BackupEntityData | undefined): unknown[] {
+  const known = new Map<string, string>();
+  for (const item of base?.data ?? []) {
+    const id = getBackupItemId(item);
+    if (id !== undefined) {
+      known.set(id, sha256(serializeForHash(item)));
+    }
+  }
+
+  return current.filter(item => {
+    const id = getBackupItemId(item);
+    return id === undefined || known.get(id) !== sha256(serializeForHash(item));
+  });
+}
+
+/**
+ * Consolida as entidades da cadeia, da raiz à ponta.
+ * EventLog: concatenação. Demais: última versão de cada item por ID.
+ */
+function mergeChainEntities(chain: BackupSnapshot[]): BackupEntityData[] {
+  const entityTypes: BackupEntityType[] = chain[0].metadata.includedEntities;
+
+  return entityTypes.map(entityType => {
+    const parts = chain.map(s => s.entities.find(e => e.entityType === entityType)?.data ?? []);
+    let data: unknown[];
+
+    if (entityType === 'EventLog') {
+      data = parts.flat();
+    } else {
+      const byId = new Map<string, unknown>();
+      const anonymous: unknown[] = [];
+      for (const item of parts.flat()) {
+        const id = getBackupItemId(item);
+        if (id === undefined) {
+          anonymous.push(item);
+        } else {
+          byId.set(id, item);
+        }
+      }
+      data = [...byId.values(), ...anonymous];
+    }
+
+    return { entityType, data, dataHash: computeEntityDataHash(data) };
+  });
+}
+
+/**
+ * Verifica o elo entre um backup e a sua base imediata.
+ */
+function verifyChainLink(base: BackupSnapshot, child: BackupSnapshot): string[] {
+  const errors: string[] = [];
+  const meta = child.metadata;
+  const label = `Elo ${base.metadata.backupId} → ${meta.backupId}`;
+
+  if (meta.kind !== 'incremental' || meta.baseBackupId !== base.metadata.backupId) {
+    errors.push(`${label}: backup não aponta para a base`);
+    return errors;
+  }
+  if (meta.baseContentHash !== base.contentHash) {
+    errors.push(`${label}: contentHash da base não confere`);
+  }
+  if (meta.tenantId !== base.metadata.tenantId) {
+    errors.push(`${label}: tenant diferente da base (${meta.tenantId} != ${base.metadata.tenantId})`);
+  }
+  if (serializeForHash(meta.includedEntities) !== serializeForHash(base.metadata.includedEntities)) {
+    errors.push(`${label}: entidades diferentes da base`);
+  }
+  if (meta.baseLastEventId !== base.metadata.lastEventId || meta.baseLastEventHash !== base.metadata.lastEventHash) {
+    errors.push(`${label}: âncora do EventLog não confere com o último evento da base`);
+  }
+
+  const events = (child.entities.find(e => e.entityType === 'EventLog')?.data ?? []) as EventLogEntry[];
+  if (events.length > 0 && base.metadata.lastEventHash && events[0].previous_hash !== base.metadata.lastEventHash) {
+    errors.push(`${label}: primeiro evento (${events[0].id}) não encadeia com o último evento da base`);
+  }
+
+  return errors;
+}
+
+/**
+ * Verifica integridade de cada backup e cada elo da cadeia (raiz completa primeiro).
+ */
+function verifyBackupChain(chain: BackupSnapshot[]): string[] {
+  const errors: string[] = [];
+
+  if (chain.length > 0 && chain[0].metadata.kind === 'incremental') {
+    errors.push(`Cadeia sem backup completo na raiz: ${chain[0].metadata.backupId}`);
+  }
+
+  chain.forEach((snapshot, i) => {
+    const integrity = verifyBackupIntegrity(snapshot);
+    errors.push(...integrity.errors.map(e => `${snapshot.metadata.backupId}: ${e}`));
+    if (i > 0) {
+      errors.push(...verifyChainLink(chain[i - 1], snapshot));
+    }
+  });
+
+  return errors;
+}
+
+export {
+  getBackupItemId,
+  createChainMetadata,
+  selectEventsAfter,
+  selectChangedItems,
+  mergeChainEntities,
+  verifyChainLink,
+  verifyBackupChain
+};
@@ -3,8 +3,23 @@
 // ════════════════════════════════════════════════════════════════════════
 
 import * as crypto from 'crypto';
-import { BackupConfigError, BackupSignatureError, BackupHashError } from './BackupErrors';
-import { BackupSnapshot, BackupMetadata, BackupEntityData } from './BackupTypes';
+import {
+  BackupConfigError,
+  BackupSignatureError,
+  BackupHashError,
+  BackupKeyMissingError,
+  BackupEncryptionError
+} from './BackupErrors';
+import { BackupSnapshot, BackupMetadata, BackupEntityData, BackupEncryption, EncryptedBlob } from './BackupTypes';
+import {
+  Signature,
+  sign,
+  verify,
+  loadPrivateKeyFromEnv,
+  loadPublicKeyFromEnv,
+  ENV_PRIVATE_KEY,
+  ENV_PUBLIC_KEY
+} from '../../scripts/crypto_utils';
 
 /**
  * Chave de ambiente para o pepper de assinatura de backups.
@@ -175,8 +190,9 @@ function generateBackupId(tenantId: string): string {
 /**
  * Gera nome de arquivo para backup.
  * Formato: backup_<tenantId>_<YYYYMMDD-HHmmss>.json
+ * INCREMENTO 46: com sufixo, backup_<tenantId>_<YYYYMMDD-HHmmss>_<sufixo>.json
  */
-function generateBackupFilename(tenantId: string, date: Date = new Date()): string {
+function generateBackupFilename(tenantId: string, date: Date = new Date(), suffix?: string): string {
   const pad = (n: number) => n.toString().padStart(2, '0');
   const timestamp = [
     date.getFullYear(),
@@ -187,7 +203,279 @@ function generateBackupFilename(tenantId: string, date: Date = new Date()): stri
     pad(date.getMinutes()),
     pad(date.getSeconds())
   ].join('');
-  return `backup_${tenantId}_${timestamp}.json`;
+  return suffix
+    ? `backup_${tenantId}_${timestamp}_${suffix}.json`
+    : `backup_${tenantId}_${timestamp}.json`;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 45: ASSINATURA Ed25519 (TenantFeatures.signedBackup)
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Assina { backupId, contentHash } com a chave do ambiente
+ * (LIBERVIA_SIGNING_KEY / LIBERVIA_KEY_ID).
+ * Lança BackupConfigError se a chave não estiver configurada.
+ */
+function signBackupDigitally(backupId: string, contentHash: string): Signature {
+  const key = loadPrivateKeyFromEnv();
+  if (!key) {
+    throw new BackupConfigError(ENV_PRIVATE_KEY);
+  }
+  return sign({ backupId, contentHash }, key.privateKey, key.keyId);
+}
+
+/**
+ * Verifica a assinatura Ed25519 de um backup assinado.
+ *
+ * Chaves aceitas: LIBERVIA_PUBLIC_KEY e a derivada de LIBERVIA_SIGNING_KEY.
+ * Retorna null em `valid` se a chave da assinatura não é conhecida.
+ */
+function verifyBackupDigitalSignature(snapshot: BackupSnapshot): { valid: boolean | null; error?: string } {
+  const signature = snapshot.digitalSignature;
+  if (!signature) {
+    return { valid: false, error: 'Backup assinado sem assinatura Ed25519' };
+  }
+
+  const keys: Record<string, crypto.KeyObject> = {};
+  if (process.env[ENV_PUBLIC_KEY]) {
+    const fromEnv = loadPublicKeyFromEnv();
+    if (fromEnv) keys[fromEnv.keyId] = fromEnv.publicKey;
+  }
+  if (process.env[ENV_PRIVATE_KEY]) {
+    const signing = loadPrivateKeyFromEnv();
+    if (signing) keys[signing.keyId] = crypto.createPublicKey(signing.privateKey);
+  }
+
+  const key = Object.prototype.hasOwnProperty.call(keys, signature.public_key_id)
+    ? keys[signature.public_key_id]
+    : undefined;
+  if (!key) {
+    return { valid: null, error: `Chave Ed25519 desconhecida: ${signature.public_key_id}` };
+  }
+
+  const result = verify(
+    { backupId: snapshot.metadata.backupId, contentHash: snapshot.contentHash },
+    signature,
+    key
+  );
+  return result.valid ? { valid: true } : { valid: false, error: 'Assinatura Ed25519 inválida' };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 47: CRIPTOGRAFIA EM REPOUSO (AES-256-GCM + KEY-RING)
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Chaves mestras do key-ring: `keyId:base64,keyId:base64` (32 bytes cada).
+ */
+const BACKUP_KEYS_ENV_KEY = 'LIBERVIA_BACKUP_KEYS';
+
+/**
+ * Chave ativa (cifra novos backups e é o destino do rewrap).
+ * Ausente = primeira chave de LIBERVIA_BACKUP_KEYS.
+ */
+const BACKUP_KEY_ID_ENV_KEY = 'LIBERVIA_BACKUP_KEY_ID';
+
+const BACKUP_CIPHER = 'aes-256-gcm';
+const BACKUP_KEY_BYTES = 32;
+const BACKUP_IV_BYTES = 12;
+
+/**
+ * Key-ring de chaves mestras (KEK). Cada chave mestra nunca cifra dados:
+ * dela deriva-se a chave de cada tenant, que embrulha a DEK de cada backup.
+ */
+interface BackupKeyRing {
+  activeKeyId?: string;
+  keys: Map<string, Buffer>;
+}
+
+/**
+ * Carrega o key-ring do ambiente. Sem LIBERVIA_BACKUP_KEYS, o key-ring é vazio.
+ * Lança BackupEncryptionError se a variável estiver malformada.
+ */
+function loadBackupKeyRing(): BackupKeyRing {
+  const keys = new Map<string, Buffer>();
+  const raw = process.env[BACKUP_KEYS_ENV_KEY];
+
+  for (const entry of (raw ?? '').split(',').map(e => e.trim()).filter(e => e.length > 0)) {
+    const separator = entry.indexOf(':');
+    const keyId = separator > 0 ? entry.slice(0, separator) : '';
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (!keyId || key.length !== BACKUP_KEY_BYTES) {
+      throw new BackupEncryptionError(
+        `${BACKUP_KEYS_ENV_KEY} malformada: esperado keyId:base64 com ${BACKUP_KEY_BYTES} bytes`
+      );
+    }
+    keys.set(keyId, key);
+  }
+
+  const activeKeyId = process.env[BACKUP_KEY_ID_ENV_KEY] || keys.keys().next().value;
+  if (activeKeyId && !keys.has(activeKeyId)) {
+    throw new BackupEncryptionError(
+      `${BACKUP_KEY_ID_ENV_KEY} aponta para chave fora de ${BACKUP_KEYS_ENV_KEY}: ${activeKeyId}`,
+      activeKeyId
+    );
+  }
+
+  return { activeKeyId, keys };
+}
+
+/**
+ * Gera uma chave mestra nova (base64) para LIBERVIA_BACKUP_KEYS.
+ */
+function generateBackupMasterKey(): string {
+  return crypto.randomBytes(BACKUP_KEY_BYTES).toString('base64');
+}
+
+/**
+ * Chave do tenant derivada da chave mestra (HKDF-SHA256, salt = tenantId).
+ */
+function deriveTenantBackupKey(masterKey: Buffer, tenantId: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', masterKey, tenantId, 'libervia-backup-kek', BACKUP_KEY_BYTES));
+}
+
+function sealBlob(key: Buffer, plaintext: Buffer, aad: string): EncryptedBlob {
+  const iv = crypto.randomBytes(BACKUP_IV_BYTES);
+  const cipher = crypto.createCipheriv(BACKUP_CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+function openBlob(key: Buffer, blob: EncryptedBlob, aad: string): Buffer {
+  const decipher = crypto.createDecipheriv(BACKUP_CIPHER, key, Buffer.from(blob.iv, 'base64'));
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(Buffer.from(blob.authTag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(blob.data, 'base64')), decipher.final()]);
+}
+
+/**
+ * AAD da DEK embrulhada: prende a chave ao tenant e ao backup.
+ */
+function wrapAad(metadata: BackupMetadata): string {
+  return `${metadata.tenantId}:${metadata.backupId}`;
+}
+
+/**
+ * Chave mestra de um envelope.
+ * Lança BackupKeyMissingError se o key-ring não tiver a chave.
+ */
+function requireMasterKey(ring: BackupKeyRing, keyId: string, backupId: string): Buffer {
+  const key = ring.keys.get(keyId);
+  if (!key) {
+    throw new BackupKeyMissingError(keyId, backupId);
+  }
+  return key;
+}
+
+/**
+ * Desembrulha a DEK de um backup cifrado.
+ */
+function unwrapDataKey(stored: BackupSnapshot, encryption: BackupEncryption, ring: BackupKeyRing): Buffer {
+  const masterKey = requireMasterKey(ring, encryption.keyId, stored.metadata.backupId);
+  try {
+    return openBlob(
+      deriveTenantBackupKey(masterKey, stored.metadata.tenantId),
+      encryption.wrappedKey,
+      wrapAad(stored.metadata)
+    );
+  } catch {
+    throw new BackupEncryptionError(
+      `Chave de dados do backup ${stored.metadata.backupId} não autenticou com a chave ${encryption.keyId}`,
+      encryption.keyId
+    );
+  }
+}
+
+/**
+ * Cifra as entidades de um snapshot com uma DEK nova, embrulhada pela
+ * chave ativa do key-ring. O arquivo resultante guarda `entities: []`.
+ * Lança BackupConfigError se o key-ring não tiver chave ativa.
+ */
+function encryptBackupSnapshot(snapshot: BackupSnapshot, ring: BackupKeyRing = loadBackupKeyRing()): BackupSnapshot {
+  if (!ring.activeKeyId) {
+    throw new BackupConfigError(BACKUP_KEYS_ENV_KEY);
+  }
+  const masterKey = requireMasterKey(ring, ring.activeKeyId, snapshot.metadata.backupId);
+  const dataKey = crypto.randomBytes(BACKUP_KEY_BYTES);
+
+  const encryption: BackupEncryption = {
+    algorithm: BACKUP_CIPHER,
+    keyId: ring.activeKeyId,
+    wrappedKey: sealBlob(
+      deriveTenantBackupKey(masterKey, snapshot.metadata.tenantId),
+      dataKey,
+      wrapAad(snapshot.metadata)
+    ),
+    payload: sealBlob(dataKey, Buffer.from(JSON.stringify(snapshot.entities), 'utf8'), snapshot.contentHash)
+  };
+
+  return { ...snapshot, entities: [], encryption };
+}
+
+/**
+ * Decifra as entidades de um snapshot lido do disco (mantém o envelope).
+ * Snapshot sem envelope é devolvido como está.
+ *
+ * @throws BackupKeyMissingError se a chave do envelope não está no key-ring
+ * @throws BackupEncryptionError se a DEK ou o payload não autenticam
+ */
+function decryptBackupSnapshot(stored: BackupSnapshot, ring: BackupKeyRing = loadBackupKeyRing()): BackupSnapshot {
+  const encryption = stored.encryption;
+  if (!encryption) {
+    return stored;
+  }
+
+  const dataKey = unwrapDataKey(stored, encryption, ring);
+  let entities: BackupEntityData[];
+  try {
+    entities = JSON.parse(openBlob(dataKey, encryption.payload, stored.contentHash).toString('utf8'));
+  } catch {
+    throw new BackupEncryptionError(
+      `Conteúdo cifrado do backup ${stored.metadata.backupId} não autenticou (arquivo alterado)`,
+      encryption.keyId
+    );
+  }
+
+  return { ...stored, entities };
+}
+
+/**
+ * Re-embrulha a DEK de um backup cifrado com a chave ativa, sem decifrar
+ * o payload. Backup já na chave ativa é devolvido como está.
+ *
+ * @throws BackupKeyMissingError se a chave atual do envelope não está no key-ring
+ */
+function rewrapBackupKey(stored: BackupSnapshot, ring: BackupKeyRing = loadBackupKeyRing()): BackupSnapshot {
+  const encryption = stored.encryption;
+  if (!encryption || encryption.keyId === ring.activeKeyId) {
+    return stored;
+  }
+  if (!ring.activeKeyId) {
+    throw new BackupConfigError(BACKUP_KEYS_ENV_KEY);
+  }
+
+  const dataKey = unwrapDataKey(stored, encryption, ring);
+  const masterKey = requireMasterKey(ring, ring.activeKeyId, stored.metadata.backupId);
+
+  return {
+    ...stored,
+    encryption: {
+      ...encryption,
+      keyId: ring.activeKeyId,
+      wrappedKey: sealBlob(
+        deriveTenantBackupKey(masterKey, stored.metadata.tenantId),
+        dataKey,
+        wrapAad(stored.metadata)
+      ),
+      rewrappedAt: new Date().toISOString()
+    }
+  };
 }
 
 export {
@@ -202,5 +490,15 @@ export {
   verifyBackupSignature,
   verifyBackupIntegrity,
   generateBackupId,
-  generateBackupFilename
+  generateBackupFilename,
+  signBackupDigitally,
+  verifyBackupDigitalSignature,
+  BACKUP_KEYS_ENV_KEY,
+  BACKUP_KEY_ID_ENV_KEY,
+  BackupKeyRing,
+  loadBackupKeyRing,
+  generateBackupMasterKey,
+  encryptBackupSnapshot,
+  decryptBackupSnapshot,
+  rewrapBackupKey
 };
@@ -141,6 +141,87 @@ class BackupConfigError extends BackupError {
   }
 }
 
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 44: ERROS DE PROCEDIMENTO DR PELA API
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Procedimento DR inexistente na instância.
+ */
+class DRProcedureNotFoundError extends BackupError {
+  constructor(
+    public readonly procedureId: string
+  ) {
+    super(`Procedimento DR não encontrado: ${procedureId}`, 'DR_PROCEDURE_NOT_FOUND');
+    this.name = 'DRProcedureNotFoundError';
+  }
+}
+
+/**
+ * Procedimento DR fora do estado exigido pela operação
+ * (ex: confirmação de procedimento que não aguarda confirmação).
+ */
+class DRProcedureStateError extends BackupError {
+  constructor(
+    message: string,
+    public readonly procedureId: string
+  ) {
+    super(message, 'DR_PROCEDURE_INVALID_STATE');
+    this.name = 'DRProcedureStateError';
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 46: CADEIA DE BACKUPS INCREMENTAIS
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Cadeia de backups incrementais inconsistente: base ausente ou alterada,
+ * âncora do EventLog divergente ou backup ainda usado como base.
+ */
+class BackupChainError extends BackupError {
+  constructor(
+    message: string,
+    public readonly backupId: string,
+    public readonly chainErrors: string[] = []
+  ) {
+    super(message, 'BACKUP_CHAIN_BROKEN');
+    this.name = 'BackupChainError';
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 47: CRIPTOGRAFIA EM REPOUSO
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Chave mestra exigida por um backup cifrado não está no key-ring
+ * (LIBERVIA_BACKUP_KEYS).
+ */
+class BackupKeyMissingError extends BackupError {
+  constructor(
+    public readonly keyId: string,
+    public readonly backupId: string
+  ) {
+    super(`Chave de criptografia ausente para o backup ${backupId}: ${keyId}`, 'BACKUP_KEY_MISSING');
+    this.name = 'BackupKeyMissingError';
+  }
+}
+
+/**
+ * Falha de criptografia: key-ring malformado, DEK ou payload que não
+ * autenticam (chave errada ou arquivo adulterado).
+ */
+class BackupEncryptionError extends BackupError {
+  constructor(
+    message: string,
+    public readonly keyId?: string
+  ) {
+    super(message, 'BACKUP_ENCRYPTION_ERROR');
+    this.name = 'BackupEncryptionError';
+  }
+}
+
 export {
   BackupError,
   BackupValidationError,
@@ -152,5 +233,10 @@ export {
   EventLogContinuityError,
   RestoreConflictError,
   DRProcedureError,
-  BackupConfigError
+  BackupConfigError,
+  DRProcedureNotFoundError,
+  DRProcedureStateError,
+  BackupChainError,
+  BackupKeyMissingError,
+  BackupEncryptionError
 };
@@ -0,0 +1,233 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 44: JOBS DE BACKUP & DISASTER RECOVERY
+// ════════════════════════════════════════════════════════════════════════
+
+import * as crypto from 'crypto';
+import {
+  BackupJob,
+  BackupJobOperation,
+  BackupJobRunnerConfig,
+  BackupSnapshot,
+  DEFAULT_BACKUP_JOB_CONFIG,
+  DRProcedure,
+  DRStep,
+  RestoreResult
+} from './BackupTypes';
+import { DRProgressCallback } from './DisasterRecoveryService';
+
+/**
+ * Executa operações longas de backup e DR de um tenant como jobs.
+ *
+ * Os jobs executam um por vez, na ordem de submissão: restauração e
+ * procedimentos DR nunca correm em paralelo sobre o mesmo Core. Isso
+ * também permite atribuir cada chamada de onProgress ao job corrente.
+ *
+ * Jobs ficam em memória, como os procedimentos do DisasterRecoveryService;
+ * os backups em si estão no BackupRepository.
+ */
+class BackupJobRunner {
+  private readonly config: BackupJobRunnerConfig;
+  private jobs = new Map<string, BackupJob>();
+  private chain: Promise<void> = Promise.resolve();
+  private current: BackupJob | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly tenantId: string,
+    config: Partial<BackupJobRunnerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_BACKUP_JOB_CONFIG, ...config };
+  }
+
+  /**
+   * DRProgressCallback a registrar no DisasterRecoveryService.
+   * Atualiza procedureId e progresso do job em execução.
+   */
+  readonly onProgress: DRProgressCallback = async (
+    procedureId: string,
+    step: DRStep,
+    procedure: DRProcedure
+  ) => {
+    const job = this.current;
+    if (!job || !job.operation.startsWith('dr_')) return;
+
+    job.procedureId = procedureId;
+    job.progress = {
+      step: { ...step },
+      completedSteps: procedure.steps.filter(s => s.status === 'completed').length,
+      totalSteps: procedure.steps.length
+    };
+  };
+
+  // ══════════════════════════════════════════════════════════════════════
+  // SUBMISSÃO
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Enfileira a criação de um backup.
+   */
+  submitBackup(requestedBy: string, action: () => Promise<BackupSnapshot>): BackupJob {
+    return this.enqueue('create', requestedBy, {}, async job => {
+      const snapshot = await action();
+      job.backupId = snapshot.metadata.backupId;
+      job.backup = snapshot.metadata;
+    });
+  }
+
+  /**
+   * Enfileira uma restauração (dry-run ou efetiva).
+   * Restauração com success=false termina o job como failed.
+   */
+  submitRestore(
+    operation: 'restore_dry_run' | 'restore',
+    backupId: string,
+    requestedBy: string,
+    action: () => Promise<RestoreResult>
+  ): BackupJob {
+    return this.enqueue(operation, requestedBy, { backupId }, async job => {
+      const result = await action();
+      job.restore = result;
+      if (!result.success) {
+        throw new Error(`Restauração falhou: ${result.errors.join(', ')}`);
+      }
+    });
+  }
+
+  /**
+   * Enfileira uma fase de procedimento DR.
+   * Procedimento que termina a fase como failed termina o job como failed.
+   */
+  submitProcedure(
+    operation: 'dr_start' | 'dr_confirm',
+    requestedBy: string,
+    action: () => Promise<DRProcedure>,
+    procedureId?: string
+  ): BackupJob {
+    return this.enqueue(operation, requestedBy, { procedureId }, async job => {
+      const procedure = await action();
+      job.procedureId = procedure.procedureId;
+      job.backupId = procedure.backupId;
+      job.procedureStatus = procedure.status;
+      if (procedure.status === 'failed') {
+        const failed = procedure.steps.find(s => s.status === 'failed');
+        throw new Error(failed?.error ?? `Procedimento falhou: ${procedure.procedureId}`);
+      }
+    });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // CONSULTA E CICLO DE VIDA
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Job por ID (null se inexistente ou descartado pela retenção).
+   */
+  getJob(jobId: string): BackupJob | null {
+    const job = this.jobs.get(jobId);
+    return job ? this.snapshot(job) : null;
+  }
+
+  /**
+   * Jobs do tenant, mais recentes primeiro.
+   */
+  listJobs(): BackupJob[] {
+    return Array.from(this.jobs.values()).reverse().map(job => this.snapshot(job));
+  }
+
+  /**
+   * Indica se há job aguardando ou executando para o procedimento.
+   */
+  hasPendingJob(procedureId: string): boolean {
+    return Array.from(this.jobs.values()).some(job =>
+      job.procedureId === procedureId && (job.status === 'queued' || job.status === 'running')
+    );
+  }
+
+  /**
+   * Resolve quando todos os jobs submetidos terminaram.
+   */
+  async idle(): Promise<void> {
+    let chain: Promise<void>;
+    do {
+      chain = this.chain;
+      await chain;
+    } while (chain !== this.chain);
+  }
+
+  /**
+   * Recusa novas submissões e aguarda os jobs já submetidos.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await this.idle();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // MÉTODOS PRIVADOS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private enqueue(
+    operation: BackupJobOperation,
+    requestedBy: string,
+    refs: Pick<BackupJob, 'backupId' | 'procedureId'>,
+    run: (job: BackupJob) => Promise<void>
+  ): BackupJob {
+    if (this.stopped) {
+      throw new Error(`Runner de backup encerrado: ${this.tenantId}`);
+    }
+
+    const job: BackupJob = {
+      jobId: `bjob_${crypto.randomUUID()}`,
+      tenantId: this.tenantId,
+      operation,
+      status: 'queued',
+      requestedBy,
+      requestedAt: new Date().toISOString(),
+      ...refs
+    };
+    this.jobs.set(job.jobId, job);
+
+    this.chain = this.chain.then(() => this.execute(job, run));
+    return this.snapshot(job);
+  }
+
+  private async execute(job: BackupJob, run: (job: BackupJob) => Promise<void>): Promise<void> {
+    this.current = job;
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+
+    try {
+      await run(job);
+      job.status = 'completed';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    job.finishedAt = new Date().toISOString();
+    this.current = null;
+    this.applyRetention();
+  }
+
+  /**
+   * Descarta os jobs encerrados mais antigos além de maxFinishedJobs.
+   * O Map mantém a ordem de submissão.
+   */
+  private applyRetention(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => job.status === 'completed' || job.status === 'failed');
+
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.config.maxFinishedJobs))) {
+      this.jobs.delete(job.jobId);
+    }
+  }
+
+  private snapshot(job: BackupJob): BackupJob {
+    return {
+      ...job,
+      progress: job.progress && { ...job.progress, step: { ...job.progress.step } }
+    };
+  }
+}
+
+export { BackupJobRunner };
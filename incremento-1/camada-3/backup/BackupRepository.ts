@@ -20,6 +20,7 @@ interface BackupRepository {
    * Carrega um backup por ID.
    * @param backupId - ID do backup
    * @returns Snapshot ou null se não encontrado
+   * @throws BackupKeyMissingError se o backup é cifrado com chave fora do key-ring (Inc 47)
    */
   load(backupId: string): Promise<BackupSnapshot | null>;
 
@@ -50,6 +51,14 @@ interface BackupRepository {
    */
   delete(backupId: string): Promise<boolean>;
 
+  /**
+   * INCREMENTO 47: Re-embrulha a chave de dados de um backup cifrado com a
+   * chave ativa, sem decifrar o conteúdo.
+   * @param backupId - ID do backup
+   * @returns keyId anterior, ou null se não havia o que re-embrulhar
+   */
+  rewrap(backupId: string): Promise<string | null>;
+
   /**
    * Obtém o caminho do diretório de backups.
    */
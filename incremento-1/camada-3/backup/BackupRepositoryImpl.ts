@@ -7,7 +7,13 @@ import * as path from 'path';
 import { BackupRepository } from './BackupRepository';
 import { BackupSnapshot, BackupFileInfo } from './BackupTypes';
 import { BackupNotFoundError, BackupFormatError } from './BackupErrors';
-import { generateBackupFilename, BACKUP_FORMAT_VERSION } from './BackupCrypto';
+import {
+  generateBackupFilename,
+  encryptBackupSnapshot,
+  decryptBackupSnapshot,
+  rewrapBackupKey,
+  BACKUP_FORMAT_VERSION
+} from './BackupCrypto';
 import { normalizeBackupMetadata, validateBackupStructure } from './BackupMetadata';
 
 /**
@@ -17,6 +23,8 @@ import { normalizeBackupMetadata, validateBackupStructure } from './BackupMetada
  * - Escrita atômica (via .tmp + rename)
  * - Controle de concorrência via fila interna
  * - Recuperação de crash (verifica .tmp pendentes)
+ * - INCREMENTO 47: cifra ao salvar (metadata.encrypted) e decifra ao
+ *   carregar; a listagem lê só os metadados, sem precisar da chave
  */
 class BackupRepositoryImpl implements BackupRepository {
   private writeChain: Promise<void> = Promise.resolve();
@@ -49,11 +57,28 @@ class BackupRepositoryImpl implements BackupRepository {
   async save(snapshot: BackupSnapshot): Promise<string> {
     await this.ensureDirectory();
 
+    // INCREMENTO 46: incrementais levam sufixo para não colidir com a base
+    // criada no mesmo segundo
     const filename = generateBackupFilename(
       snapshot.metadata.tenantId,
-      snapshot.metadata.createdAt
+      snapshot.metadata.createdAt,
+      snapshot.metadata.kind === 'incremental'
+        ? `inc-${snapshot.metadata.backupId.split('_').pop()}`
+        : undefined
     );
     const filePath = this.getFilePath(filename);
+
+    // INCREMENTO 47: entidades cifradas antes de tocar o disco
+    const stored = snapshot.metadata.encrypted ? encryptBackupSnapshot(snapshot) : snapshot;
+
+    await this.writeAtomic(filePath, stored);
+    return filePath;
+  }
+
+  /**
+   * Escrita atômica (.tmp + rename) na fila de escrita.
+   */
+  private async writeAtomic(filePath: string, snapshot: BackupSnapshot): Promise<void> {
     const tmpPath = filePath + '.tmp';
 
     // Serializar com datas em ISO format
@@ -71,7 +96,6 @@ class BackupRepositoryImpl implements BackupRepository {
     });
 
     await this.writeChain;
-    return filePath;
   }
 
   async load(backupId: string): Promise<BackupSnapshot | null> {
@@ -88,6 +112,37 @@ class BackupRepositoryImpl implements BackupRepository {
   }
 
   async loadFromPath(filePath: string): Promise<BackupSnapshot | null> {
+    const stored = await this.readStored(filePath);
+    return stored ? decryptBackupSnapshot(stored) : null;
+  }
+
+  /**
+   * INCREMENTO 47: Re-embrulha a chave de dados de um backup cifrado com a
+   * chave ativa do key-ring, reescrevendo só o envelope.
+   *
+   * @returns keyId anterior, ou null se o backup não é cifrado ou já usa a chave ativa
+   */
+  async rewrap(backupId: string): Promise<string | null> {
+    const file = (await this.list()).find(f => f.metadata?.backupId === backupId);
+    const stored = file ? await this.readStored(file.path) : null;
+    if (!file || !stored) {
+      throw new BackupNotFoundError(backupId);
+    }
+
+    const previousKeyId = stored.encryption?.keyId;
+    const rewrapped = rewrapBackupKey(stored);
+    if (!previousKeyId || rewrapped.encryption?.keyId === previousKeyId) {
+      return null;
+    }
+
+    await this.writeAtomic(file.path, rewrapped);
+    return previousKeyId;
+  }
+
+  /**
+   * Lê o arquivo como está no disco (entidades ainda cifradas, se for o caso).
+   */
+  private async readStored(filePath: string): Promise<BackupSnapshot | null> {
     try {
       const raw = await fs.readFile(filePath, 'utf-8');
       const parsed = JSON.parse(raw);
@@ -138,11 +193,14 @@ class BackupRepositoryImpl implements BackupRepository {
             modifiedAt: stat.mtime
           };
 
-          // Tentar extrair metadados
+          // Tentar extrair metadados (sem decifrar)
           try {
-            const snapshot = await this.loadFromPath(filePath);
+            const snapshot = await this.readStored(filePath);
             if (snapshot) {
               info.metadata = snapshot.metadata;
+              if (snapshot.encryption) {
+                info.encryptionKeyId = snapshot.encryption.keyId;
+              }
             }
           } catch {
             // Ignorar erros de parsing para listagem
@@ -174,8 +232,9 @@ class BackupRepositoryImpl implements BackupRepository {
   }
 
   async exists(backupId: string): Promise<boolean> {
-    const snapshot = await this.load(backupId);
-    return snapshot !== null;
+    // INCREMENTO 47: pela listagem, que não exige a chave de um backup cifrado
+    const files = await this.list();
+    return files.some(f => f.metadata?.backupId === backupId);
   }
 
   async delete(backupId: string): Promise<boolean> {
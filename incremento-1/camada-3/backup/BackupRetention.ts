@@ -0,0 +1,85 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 45: RETENÇÃO DE BACKUPS AGENDADOS
+// ════════════════════════════════════════════════════════════════════════
+
+import { BackupMetadata, BackupRetentionPolicy } from './BackupTypes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Chave do dia (UTC): YYYY-MM-DD.
+ */
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Chave da semana ISO (UTC): YYYY-Www. A semana pertence ao ano da sua quinta-feira.
+ */
+function weekKey(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return `${day.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Chave do mês (UTC): YYYY-MM.
+ */
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Marca o backup mais recente de cada um dos `limit` períodos mais recentes.
+ * `sorted` está em ordem do mais recente para o mais antigo.
+ */
+function keepNewestPerPeriod(
+  sorted: BackupMetadata[],
+  limit: number,
+  keyOf: (date: Date) => string,
+  keep: Set<string>
+): void {
+  const periods = new Set<string>();
+  for (const backup of sorted) {
+    const key = keyOf(backup.createdAt);
+    if (periods.has(key)) continue;
+    if (periods.size >= limit) break;
+    periods.add(key);
+    keep.add(backup.backupId);
+  }
+}
+
+/**
+ * Seleciona os backups que a política de retenção manda remover.
+ *
+ * Não remove nada se a política estiver desativada (tudo zero). O backup
+ * mais recente é sempre mantido.
+ *
+ * @param backups - Backups sujeitos à retenção (agendados de um tenant)
+ * @returns IDs dos backups a remover, do mais antigo para o mais recente
+ */
+function selectBackupsToPrune(backups: BackupMetadata[], policy: BackupRetentionPolicy): string[] {
+  if (policy.keepDaily <= 0 && policy.keepWeekly <= 0 && policy.keepMonthly <= 0) {
+    return [];
+  }
+
+  const sorted = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const keep = new Set<string>();
+  if (sorted.length > 0) {
+    keep.add(sorted[0].backupId);
+  }
+
+  keepNewestPerPeriod(sorted, policy.keepDaily, dayKey, keep);
+  keepNewestPerPeriod(sorted, policy.keepWeekly, weekKey, keep);
+  keepNewestPerPeriod(sorted, policy.keepMonthly, monthKey, keep);
+
+  return sorted
+    .filter(backup => !keep.has(backup.backupId))
+    .map(backup => backup.backupId)
+    .reverse();
+}
+
+export { selectBackupsToPrune };
@@ -9,7 +9,8 @@ import {
   BackupEntityType,
   BackupEntityData,
   BackupMetadata,
-  BackupValidationResult
+  BackupValidationResult,
+  BackupRewrapResult
 } from './BackupTypes';
 import { BackupRepository } from './BackupRepository';
 import {
@@ -18,10 +19,29 @@ import {
   computeBackupSignature,
   verifyBackupIntegrity,
   generateBackupId,
-  BACKUP_FORMAT_VERSION
+  signBackupDigitally,
+  verifyBackupDigitalSignature,
+  loadBackupKeyRing,
+  BACKUP_FORMAT_VERSION,
+  BACKUP_KEYS_ENV_KEY
 } from './BackupCrypto';
 import { ALL_BACKUP_ENTITIES, createBackupMetadata } from './BackupMetadata';
-import { BackupValidationError, BackupNotFoundError } from './BackupErrors';
+import {
+  BackupValidationError,
+  BackupNotFoundError,
+  BackupChainError,
+  BackupConfigError,
+  BackupKeyMissingError,
+  BackupEncryptionError
+} from './BackupErrors';
+import {
+  createChainMetadata,
+  mergeChainEntities,
+  selectChangedItems,
+  selectEventsAfter,
+  verifyBackupChain,
+  verifyChainLink
+} from './BackupChain';
 
 /**
  * Provedores de dados para backup.
@@ -65,14 +85,28 @@ class BackupService {
    */
   async createBackup(options: BackupOptions = {}): Promise<BackupSnapshot> {
     const tenantId = options.tenantId ?? 'global';
-    const includeEntities = options.includeEntities ?? ALL_BACKUP_ENTITIES;
+
+    // INCREMENTO 46: incremental parte da cadeia já verificada da base
+    const chain = options.baseBackupId
+      ? await this.loadVerifiedChain(options.baseBackupId, tenantId, options.includeEntities)
+      : null;
+    const base = chain ? chain[chain.length - 1] : null;
+    const consolidated = chain ? mergeChainEntities(chain) : [];
+    const includeEntities = base
+      ? base.metadata.includedEntities
+      : options.includeEntities ?? ALL_BACKUP_ENTITIES;
 
     // Coletar dados de cada entidade
     const entities: BackupEntityData[] = [];
     const entityCounts: Partial<Record<BackupEntityType, number>> = {};
 
     for (const entityType of includeEntities) {
-      const data = await this.collectEntityData(entityType, options.tenantId);
+      let data = await this.collectEntityData(entityType, options.tenantId);
+      if (base) {
+        data = entityType === 'EventLog'
+          ? selectEventsAfter(data as EventLogEntry[], base.metadata)
+          : selectChangedItems(data, consolidated.find(e => e.entityType === entityType));
+      }
       const dataHash = computeEntityDataHash(data);
 
       entities.push({
@@ -86,6 +120,10 @@ class BackupService {
 
     // Criar metadados
     const metadata = createBackupMetadata(tenantId, includeEntities, entityCounts);
+    if (options.scheduled) metadata.scheduled = true;
+    if (options.signed) metadata.signed = true;
+    if (options.encrypted) metadata.encrypted = true;
+    if (base) Object.assign(metadata, createChainMetadata(base));
 
     // Adicionar info do último evento se EventLog incluído
     if (includeEntities.includes('EventLog')) {
@@ -94,6 +132,10 @@ class BackupService {
         const lastEvent = eventLogEntity.data[eventLogEntity.data.length - 1] as EventLogEntry;
         metadata.lastEventHash = lastEvent.current_hash;
         metadata.lastEventId = lastEvent.id;
+      } else if (base?.metadata.lastEventId) {
+        // Incremental sem eventos novos: a âncora segue a da base
+        metadata.lastEventHash = base.metadata.lastEventHash;
+        metadata.lastEventId = base.metadata.lastEventId;
       }
     }
 
@@ -108,6 +150,11 @@ class BackupService {
       signature
     };
 
+    // INCREMENTO 45: assinatura Ed25519 (falha sem LIBERVIA_SIGNING_KEY)
+    if (options.signed) {
+      snapshot.digitalSignature = signBackupDigitally(metadata.backupId, contentHash);
+    }
+
     // Persistir
     const filePath = await this.repository.save(snapshot);
 
@@ -117,13 +164,85 @@ class BackupService {
         tenantId,
         includedEntities: includeEntities,
         entityCounts,
-        filePath
+        filePath,
+        scheduled: options.scheduled === true,
+        signed: options.signed === true,
+        encrypted: options.encrypted === true,
+        kind: metadata.kind ?? 'full',
+        baseBackupId: metadata.baseBackupId
       });
     }
 
     return snapshot;
   }
 
+  /**
+   * INCREMENTO 46: Carrega a cadeia que termina em `backupId`, da raiz
+   * completa à ponta. Não verifica hashes (ver verifyBackupChain).
+   *
+   * @throws BackupNotFoundError se algum backup da cadeia não existir
+   * @throws BackupChainError se a cadeia tiver ciclo
+   */
+  async getBackupChain(backupId: string): Promise<BackupSnapshot[]> {
+    const chain: BackupSnapshot[] = [];
+    const visited = new Set<string>();
+    let currentId: string | undefined = backupId;
+
+    while (currentId) {
+      if (visited.has(currentId)) {
+        throw new BackupChainError(`Ciclo na cadeia de backups em ${currentId}`, backupId);
+      }
+      visited.add(currentId);
+
+      const snapshot = await this.repository.load(currentId);
+      if (!snapshot) {
+        throw new BackupNotFoundError(currentId);
+      }
+      chain.unshift(snapshot);
+      currentId = snapshot.metadata.kind === 'incremental' ? snapshot.metadata.baseBackupId : undefined;
+    }
+
+    return chain;
+  }
+
+  /**
+   * INCREMENTO 46: Cadeia da base de um novo incremental, verificada.
+   */
+  private async loadVerifiedChain(
+    baseBackupId: string,
+    tenantId: string,
+    includeEntities?: BackupEntityType[]
+  ): Promise<BackupSnapshot[]> {
+    const chain = await this.getBackupChain(baseBackupId);
+    const root = chain[0].metadata;
+
+    if (root.tenantId !== tenantId) {
+      throw new BackupValidationError(
+        `Backup base pertence a outro tenant: ${root.tenantId}`,
+        [`baseBackupId: tenant ${root.tenantId} != ${tenantId}`]
+      );
+    }
+    if (!root.includedEntities.includes('EventLog')) {
+      throw new BackupValidationError(
+        'Backup incremental exige base com EventLog',
+        ['baseBackupId: base sem EventLog']
+      );
+    }
+    if (includeEntities && serializeEntities(includeEntities) !== serializeEntities(root.includedEntities)) {
+      throw new BackupValidationError(
+        'Backup incremental deve incluir as mesmas entidades da base',
+        [`includeEntities: esperado ${root.includedEntities.join(', ')}`]
+      );
+    }
+
+    const errors = verifyBackupChain(chain);
+    if (errors.length > 0) {
+      throw new BackupChainError('Cadeia da base falhou na verificação', baseBackupId, errors);
+    }
+
+    return chain;
+  }
+
   /**
    * Coleta dados de uma entidade específica.
    */
@@ -151,7 +270,21 @@ class BackupService {
    * Valida um backup (verifica hash e assinatura).
    */
   async validateBackup(backupId: string): Promise<BackupValidationResult> {
-    const snapshot = await this.repository.load(backupId);
+    let snapshot: BackupSnapshot | null;
+    try {
+      snapshot = await this.repository.load(backupId);
+    } catch (error) {
+      // INCREMENTO 47: backup cifrado que não pode ser decifrado
+      if (error instanceof BackupKeyMissingError || error instanceof BackupEncryptionError) {
+        return {
+          valid: false,
+          errors: [error.message],
+          warnings: [],
+          encryptionKeyId: error.keyId
+        };
+      }
+      throw error;
+    }
 
     if (!snapshot) {
       return {
@@ -177,6 +310,43 @@ class BackupService {
       warnings: []
     };
 
+    // INCREMENTO 45: assinatura Ed25519 de backups assinados
+    if (snapshot.metadata.signed) {
+      const digital = verifyBackupDigitalSignature(snapshot);
+      if (digital.valid === false) {
+        result.valid = false;
+        result.errors.push(digital.error!);
+      } else if (digital.valid === null) {
+        result.warnings.push(`Assinatura Ed25519 não verificada: ${digital.error}`);
+      }
+    }
+
+    // INCREMENTO 47: chave exigida; flag sem envelope = arquivo decifrado fora do sistema
+    if (snapshot.encryption) {
+      result.encryptionKeyId = snapshot.encryption.keyId;
+    } else if (snapshot.metadata.encrypted) {
+      result.valid = false;
+      result.errors.push('Backup cifrado sem envelope de criptografia');
+    }
+
+    // INCREMENTO 46: integridade das bases e de cada elo até o backup completo
+    if (snapshot.metadata.kind === 'incremental') {
+      try {
+        const ancestors = await this.getBackupChain(snapshot.metadata.baseBackupId ?? '');
+        const chainErrors = [
+          ...verifyBackupChain(ancestors),
+          ...verifyChainLink(ancestors[ancestors.length - 1], snapshot)
+        ];
+        if (chainErrors.length > 0) {
+          result.valid = false;
+          result.errors.push(...chainErrors);
+        }
+      } catch (error) {
+        result.valid = false;
+        result.errors.push(`Cadeia incompleta: ${(error as Error).message}`);
+      }
+    }
+
     // Verificar versão
     if (snapshot.metadata.formatVersion !== BACKUP_FORMAT_VERSION) {
       result.warnings.push(
@@ -215,12 +385,81 @@ class BackupService {
 
   /**
    * Lista todos os backups disponíveis.
+   * INCREMENTO 46: `kind` sempre preenchido; incrementais trazem
+   * baseBackupId, chainRootId e chainDepth.
    */
   async listBackups(tenantId?: string): Promise<BackupSnapshot['metadata'][]> {
     const files = await this.repository.list(tenantId);
     return files
       .filter(f => f.metadata)
-      .map(f => f.metadata!);
+      .map(f => ({ ...f.metadata!, kind: f.metadata!.kind ?? 'full' }));
+  }
+
+  /**
+   * INCREMENTO 45: Remove um backup (retenção).
+   *
+   * @returns true se removido, false se não existia
+   */
+  async deleteBackup(backupId: string, reason: string): Promise<boolean> {
+    // INCREMENTO 46: base de um incremental não pode sair da cadeia
+    const dependents = (await this.listBackups()).filter(m => m.baseBackupId === backupId);
+    if (dependents.length > 0) {
+      throw new BackupChainError(
+        `Backup é base de ${dependents.length} incremental(is): ${backupId}`,
+        backupId,
+        dependents.map(m => m.backupId)
+      );
+    }
+
+    const deleted = await this.repository.delete(backupId);
+
+    if (deleted && this.onEvent) {
+      await this.onEvent('BACKUP_DELETED', backupId, { reason });
+    }
+
+    return deleted;
+  }
+
+  /**
+   * INCREMENTO 47: Re-embrulha as chaves de dados dos backups cifrados
+   * com a chave ativa do key-ring (rotação). O conteúdo não é decifrado.
+   * Registra BACKUP_REWRAPPED por backup.
+   *
+   * @throws BackupConfigError se o key-ring não tiver chave ativa
+   */
+  async rewrapBackups(tenantId?: string): Promise<BackupRewrapResult> {
+    const activeKeyId = loadBackupKeyRing().activeKeyId;
+    if (!activeKeyId) {
+      throw new BackupConfigError(BACKUP_KEYS_ENV_KEY);
+    }
+
+    const result: BackupRewrapResult = { activeKeyId, rewrapped: [], unchanged: 0, failed: [] };
+    const files = await this.repository.list(tenantId);
+
+    for (const file of files) {
+      const backupId = file.metadata?.backupId;
+      if (!backupId || !file.encryptionKeyId) continue;
+      if (file.encryptionKeyId === activeKeyId) {
+        result.unchanged++;
+        continue;
+      }
+
+      try {
+        const fromKeyId = await this.repository.rewrap(backupId);
+        if (!fromKeyId) {
+          result.unchanged++;
+          continue;
+        }
+        result.rewrapped.push({ backupId, fromKeyId });
+        if (this.onEvent) {
+          await this.onEvent('BACKUP_REWRAPPED', backupId, { fromKeyId, toKeyId: activeKeyId });
+        }
+      } catch (error) {
+        result.failed.push({ backupId, keyId: file.encryptionKeyId, error: (error as Error).message });
+      }
+    }
+
+    return result;
   }
 
   /**
@@ -244,4 +483,11 @@ class BackupService {
   }
 }
 
+/**
+ * Forma canônica de uma lista de entidades (ordem não importa).
+ */
+function serializeEntities(entities: BackupEntityType[]): string {
+  return [...entities].sort().join(',');
+}
+
 export { BackupService, BackupDataProviders, BackupEventCallback };
@@ -3,6 +3,8 @@
 // ════════════════════════════════════════════════════════════════════════
 
 import { EventLogEntry } from '../event-log/EventLogEntry';
+import { ProjectionReport } from '../projection/ProjectionTypes';
+import { Signature } from '../../scripts/crypto_utils';
 
 /**
  * Entidades que podem ser incluídas em um backup.
@@ -41,8 +43,53 @@ interface BackupMetadata {
 
   /** ID do último evento do EventLog (se incluído) */
   lastEventId?: string;
+
+  /** INCREMENTO 45: criado pelo agendador (sujeito à retenção) */
+  scheduled?: boolean;
+
+  /**
+   * INCREMENTO 45: backup com assinatura Ed25519. Coberto pelo contentHash:
+   * remover a assinatura de um backup assinado invalida o backup.
+   */
+  signed?: boolean;
+
+  /**
+   * INCREMENTO 46: tipo do backup (ausente = 'full').
+   * Incremental guarda só o que mudou desde o backup base.
+   */
+  kind?: BackupKind;
+
+  /** INCREMENTO 46: backup base imediato (completo ou incremental) */
+  baseBackupId?: string;
+
+  /** INCREMENTO 46: contentHash do backup base (elo da cadeia por hash) */
+  baseContentHash?: string;
+
+  /** INCREMENTO 46: último evento do backup base (âncora do EventLog) */
+  baseLastEventId?: string;
+  baseLastEventHash?: string;
+
+  /** INCREMENTO 46: backup completo na raiz da cadeia */
+  chainRootId?: string;
+
+  /** INCREMENTO 46: posição na cadeia (1 = primeiro incremental sobre o completo) */
+  chainDepth?: number;
+
+  /**
+   * INCREMENTO 47: entidades cifradas em repouso (ver BackupSnapshot.encryption).
+   * Coberto pelo contentHash: um arquivo em claro com esta flag é inválido.
+   */
+  encrypted?: boolean;
 }
 
+/**
+ * INCREMENTO 46: tipo do backup.
+ * - full: snapshot completo das entidades
+ * - incremental: eventos após o último evento da base e itens novos ou
+ *   alterados das demais entidades
+ */
+type BackupKind = 'full' | 'incremental';
+
 /**
  * Dados de uma entidade no backup.
  */
@@ -72,6 +119,52 @@ interface BackupSnapshot {
 
   /** Assinatura HMAC do contentHash usando LIBERVIA_BACKUP_PEPPER */
   signature: string;
+
+  /**
+   * INCREMENTO 45: assinatura Ed25519 de { backupId, contentHash } com
+   * LIBERVIA_SIGNING_KEY (presente quando metadata.signed)
+   */
+  digitalSignature?: Signature;
+
+  /**
+   * INCREMENTO 47: envelope de criptografia (presente quando metadata.encrypted).
+   * Fica fora do contentHash: trocar a chave mestra (rewrap) não invalida o HMAC.
+   */
+  encryption?: BackupEncryption;
+}
+
+/**
+ * INCREMENTO 47: bloco AES-256-GCM (campos em base64).
+ */
+interface EncryptedBlob {
+  iv: string;
+  authTag: string;
+  data: string;
+}
+
+/**
+ * INCREMENTO 47: envelope de um backup cifrado.
+ *
+ * - `payload`: entidades cifradas com a chave de dados (DEK) do backup
+ * - `wrappedKey`: DEK cifrada com a chave do tenant, derivada da chave
+ *   mestra `keyId` do key-ring
+ *
+ * Rotação troca só `keyId`/`wrappedKey`; o `payload` não é decifrado.
+ */
+interface BackupEncryption {
+  algorithm: 'aes-256-gcm';
+
+  /** Chave mestra do key-ring necessária para decifrar */
+  keyId: string;
+
+  /** DEK embrulhada pela chave do tenant */
+  wrappedKey: EncryptedBlob;
+
+  /** Entidades cifradas (AAD: contentHash) */
+  payload: EncryptedBlob;
+
+  /** Último rewrap (ISO 8601), ausente se nunca rotacionado */
+  rewrappedAt?: string;
 }
 
 /**
@@ -86,6 +179,21 @@ interface BackupOptions {
 
   /** Descrição opcional do backup */
   description?: string;
+
+  /** INCREMENTO 45: assinar com Ed25519 (TenantFeatures.signedBackup) */
+  signed?: boolean;
+
+  /** INCREMENTO 45: backup criado pelo agendador */
+  scheduled?: boolean;
+
+  /** INCREMENTO 47: cifrar em repouso com a chave ativa do key-ring */
+  encrypted?: boolean;
+
+  /**
+   * INCREMENTO 46: cria backup incremental sobre este backup (completo ou
+   * incremental). As entidades incluídas são as da cadeia.
+   */
+  baseBackupId?: string;
 }
 
 /**
@@ -103,6 +211,9 @@ interface BackupValidationResult {
 
   /** Avisos (não impedem restore) */
   warnings: string[];
+
+  /** INCREMENTO 47: chave mestra exigida pelo backup (se cifrado) */
+  encryptionKeyId?: string;
 }
 
 /**
@@ -177,6 +288,21 @@ interface RestoreResult {
 
   /** Timestamp da restauração */
   restoredAt: Date;
+
+  /**
+   * INCREMENTO 35: verificação dos repositórios contra o EventLog após
+   * restauração efetiva (se a projeção estiver configurada)
+   */
+  projection?: ProjectionReport;
+
+  /**
+   * INCREMENTO 46: backups aplicados, do completo ao restaurado
+   * (presente quando o backup restaurado é incremental)
+   */
+  chain?: string[];
+
+  /** INCREMENTO 47: chave mestra usada para decifrar o backup (se cifrado) */
+  encryptionKeyId?: string;
 }
 
 /**
@@ -263,13 +389,154 @@ interface BackupFileInfo {
 
   /** Metadados extraídos (se backup válido) */
   metadata?: BackupMetadata;
+
+  /** INCREMENTO 47: chave mestra do envelope (backup cifrado) */
+  encryptionKeyId?: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 44: JOBS DE BACKUP & DR
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Operação executada por um job de backup.
+ * - create: cria backup do tenant
+ * - restore_dry_run / restore: restauração simulada ou efetiva
+ * - dr_start: primeira fase de um procedimento DR (até a confirmação)
+ * - dr_confirm: segunda fase, após confirmação do operador
+ */
+type BackupJobOperation = 'create' | 'restore_dry_run' | 'restore' | 'dr_start' | 'dr_confirm';
+
+/**
+ * Estado de um job de backup.
+ */
+type BackupJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Progresso de um job de DR, atualizado pelo DRProgressCallback.
+ */
+interface BackupJobProgress {
+  /** Passo reportado por último */
+  step: DRStep;
+
+  /** Passos concluídos do procedimento */
+  completedSteps: number;
+
+  /** Total de passos do procedimento */
+  totalSteps: number;
+}
+
+/**
+ * Job de backup, restauração ou procedimento DR.
+ */
+interface BackupJob {
+  /** ID do job */
+  jobId: string;
+
+  /** Tenant dono do job */
+  tenantId: string;
+
+  /** Operação executada */
+  operation: BackupJobOperation;
+
+  /** Estado atual */
+  status: BackupJobStatus;
+
+  /** Quem pediu (keyId da chave) */
+  requestedBy: string;
+
+  /** Timestamps (ISO 8601) */
+  requestedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+
+  /** Backup criado ou restaurado */
+  backupId?: string;
+
+  /** Procedimento DR (operações dr_*) */
+  procedureId?: string;
+
+  /** Progresso do procedimento DR */
+  progress?: BackupJobProgress;
+
+  /** Metadados do backup criado (create) */
+  backup?: BackupMetadata;
+
+  /** Resultado da restauração (restore_dry_run, restore) */
+  restore?: RestoreResult;
+
+  /** Estado do procedimento ao fim do job (dr_*) */
+  procedureStatus?: DRProcedureStatus;
+
+  /** Mensagem de erro (status failed) */
+  error?: string;
+}
+
+/**
+ * Configuração do runner de jobs de backup.
+ */
+interface BackupJobRunnerConfig {
+  /** Jobs encerrados mantidos em memória (os mais antigos são descartados) */
+  maxFinishedJobs: number;
+}
+
+const DEFAULT_BACKUP_JOB_CONFIG: BackupJobRunnerConfig = {
+  maxFinishedJobs: 100
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 45: BACKUP AGENDADO & RETENÇÃO
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Política de retenção dos backups agendados (avô-pai-filho).
+ *
+ * Mantém o backup mais recente de cada um dos últimos `keepDaily` dias,
+ * `keepWeekly` semanas (ISO) e `keepMonthly` meses que têm backup, em UTC.
+ * Um backup mantido por qualquer regra não é removido. Tudo zero desativa
+ * a retenção.
+ */
+interface BackupRetentionPolicy {
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
+}
+
+const DEFAULT_BACKUP_RETENTION: BackupRetentionPolicy = {
+  keepDaily: 7,
+  keepWeekly: 4,
+  keepMonthly: 12
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 47: CRIPTOGRAFIA EM REPOUSO
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resultado do rewrap dos backups cifrados para a chave ativa.
+ */
+interface BackupRewrapResult {
+  /** Chave ativa do key-ring (destino) */
+  activeKeyId: string;
+
+  /** Backups re-embrulhados */
+  rewrapped: Array<{ backupId: string; fromKeyId: string }>;
+
+  /** Backups já na chave ativa */
+  unchanged: number;
+
+  /** Backups que não puderam ser re-embrulhados (ex: chave antiga ausente) */
+  failed: Array<{ backupId: string; keyId: string; error: string }>;
 }
 
 export {
   BackupEntityType,
   BackupMetadata,
+  BackupKind,
   BackupEntityData,
   BackupSnapshot,
+  EncryptedBlob,
+  BackupEncryption,
   BackupOptions,
   BackupValidationResult,
   RestoreMode,
@@ -280,5 +547,14 @@ export {
   DRProcedureType,
   DRStep,
   DRProcedure,
-  BackupFileInfo
+  BackupFileInfo,
+  BackupJobOperation,
+  BackupJobStatus,
+  BackupJobProgress,
+  BackupJob,
+  BackupJobRunnerConfig,
+  DEFAULT_BACKUP_JOB_CONFIG,
+  BackupRetentionPolicy,
+  DEFAULT_BACKUP_RETENTION,
+  BackupRewrapResult
 };
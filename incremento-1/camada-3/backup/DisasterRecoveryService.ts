@@ -13,7 +13,12 @@ import {
 import { BackupRepository } from './BackupRepository';
 import { BackupService } from './BackupService';
 import { RestoreService } from './RestoreService';
-import { DRProcedureError, BackupNotFoundError } from './BackupErrors';
+import {
+  DRProcedureError,
+  BackupNotFoundError,
+  DRProcedureNotFoundError,
+  DRProcedureStateError
+} from './BackupErrors';
 import { verifyBackupIntegrity } from './BackupCrypto';
 import * as crypto from 'crypto';
 
@@ -26,6 +31,16 @@ type DRProgressCallback = (
   procedure: DRProcedure
 ) => Promise<void>;
 
+/**
+ * INCREMENTO 44: Passo de confirmação do operador por tipo de procedimento.
+ * corruption_detection não tem confirmação (termina no start).
+ */
+const DR_CONFIRMATION_STEP: Partial<Record<DRProcedureType, number>> = {
+  total_node_loss: 4,
+  old_snapshot_restore: 5,
+  controlled_rollback: 4
+};
+
 /**
  * Serviço de Disaster Recovery.
  *
@@ -425,6 +440,51 @@ class DisasterRecoveryService {
     return procedure;
   }
 
+  /**
+   * INCREMENTO 44: Indica se o procedimento parou na confirmação do operador:
+   * em andamento, passos anteriores concluídos e confirmação pendente.
+   */
+  isAwaitingConfirmation(procedureId: string): boolean {
+    const procedure = this.activeProcedures.get(procedureId);
+    const confirmationStep = procedure && DR_CONFIRMATION_STEP[procedure.type];
+    if (!procedure || confirmationStep === undefined || procedure.status !== 'in_progress') {
+      return false;
+    }
+
+    return procedure.steps.every(s =>
+      s.order < confirmationStep ? s.status === 'completed' : s.status === 'pending'
+    );
+  }
+
+  /**
+   * INCREMENTO 44: Confirma o procedimento conforme o tipo (segunda fase).
+   *
+   * @throws DRProcedureNotFoundError se o procedimento não existir
+   * @throws DRProcedureStateError se o procedimento não aguardar confirmação
+   */
+  async confirmProcedure(procedureId: string): Promise<DRProcedure> {
+    const procedure = this.activeProcedures.get(procedureId);
+    if (!procedure) {
+      throw new DRProcedureNotFoundError(procedureId);
+    }
+
+    if (!this.isAwaitingConfirmation(procedureId)) {
+      throw new DRProcedureStateError(
+        `Procedimento não aguarda confirmação: ${procedureId} (${procedure.type}, ${procedure.status})`,
+        procedureId
+      );
+    }
+
+    switch (procedure.type) {
+      case 'total_node_loss':
+        return this.confirmTotalNodeLoss(procedureId);
+      case 'old_snapshot_restore':
+        return this.confirmOldSnapshotRestore(procedureId);
+      default:
+        return this.confirmControlledRollback(procedureId);
+    }
+  }
+
   /**
    * Obtém status de um procedimento.
    */
@@ -14,11 +14,14 @@ import {
 import { BackupRepository } from './BackupRepository';
 import { BackupService } from './BackupService';
 import { verifyBackupIntegrity } from './BackupCrypto';
+import { getBackupItemId, mergeChainEntities, verifyBackupChain } from './BackupChain';
 import {
   RestoreRejectedError,
   EventLogContinuityError,
   BackupNotFoundError,
-  BackupValidationError
+  BackupValidationError,
+  BackupKeyMissingError,
+  BackupEncryptionError
 } from './BackupErrors';
 
 /**
@@ -79,8 +82,13 @@ class RestoreService {
     backupId: string,
     options: RestoreOptions
   ): Promise<RestoreResult> {
-    // Carregar backup
-    const snapshot = await this.repository.load(backupId);
+    // Carregar backup (INCREMENTO 47: decifra, se cifrado)
+    let snapshot: BackupSnapshot | null;
+    try {
+      snapshot = await this.repository.load(backupId);
+    } catch (error) {
+      throw await this.rejectEncryption(backupId, error);
+    }
     if (!snapshot) {
       throw new BackupNotFoundError(backupId);
     }
@@ -90,6 +98,10 @@ class RestoreService {
 
   /**
    * Restaura a partir de um snapshot já carregado.
+   *
+   * INCREMENTO 46: snapshot incremental restaura a cadeia inteira — o
+   * backup completo na raiz seguido de cada incremental, verificando
+   * integridade e elo por hash em cada passo.
    */
   async restoreFromSnapshot(
     snapshot: BackupSnapshot,
@@ -97,31 +109,38 @@ class RestoreService {
   ): Promise<RestoreResult> {
     const startTime = new Date();
     const backupId = snapshot.metadata.backupId;
+    const incremental = snapshot.metadata.kind === 'incremental';
 
-    // 1. Validar integridade do backup
-    const integrity = verifyBackupIntegrity(snapshot);
-    if (!integrity.valid) {
+    // 1. Validar integridade do backup (e da cadeia, se incremental)
+    const chain = incremental ? await this.resolveChain(snapshot) : [snapshot];
+    const chainErrors = incremental ? verifyBackupChain(chain) : verifyBackupIntegrity(snapshot).errors;
+    if (chainErrors.length > 0) {
       if (this.onEvent) {
         await this.onEvent('RESTORE_REJECTED', backupId, {
-          reason: 'integrity_check_failed',
-          errors: integrity.errors
+          reason: incremental ? 'chain_check_failed' : 'integrity_check_failed',
+          errors: chainErrors
         });
       }
       throw new RestoreRejectedError(
-        'Backup falhou na verificação de integridade',
-        integrity.errors.join('; ')
+        incremental
+          ? 'Cadeia de backups falhou na verificação de integridade'
+          : 'Backup falhou na verificação de integridade',
+        chainErrors.join('; ')
       );
     }
+    const source: BackupSnapshot = incremental
+      ? { ...snapshot, entities: mergeChainEntities(chain) }
+      : snapshot;
 
     // 2. Filtrar entidades a restaurar
-    const entitiesToRestore = this.filterEntities(snapshot, options);
+    const entitiesToRestore = this.filterEntities(source, options);
 
     // 3. Verificar continuidade do EventLog se aplicável
     if (
       options.verifyEventLogContinuity !== false &&
       entitiesToRestore.some(e => e.entityType === 'EventLog')
     ) {
-      await this.verifyEventLogContinuity(snapshot);
+      await this.verifyEventLogContinuity(source);
     }
 
     // 4. Calcular estatísticas e executar restauração
@@ -161,6 +180,12 @@ class RestoreService {
       warnings,
       restoredAt: startTime
     };
+    if (incremental) {
+      result.chain = chain.map(s => s.metadata.backupId);
+    }
+    if (snapshot.encryption) {
+      result.encryptionKeyId = snapshot.encryption.keyId;
+    }
 
     // 5. Notificar evento
     if (this.onEvent) {
@@ -169,6 +194,7 @@ class RestoreService {
         success,
         totalAdded,
         totalSkipped,
+        chain: result.chain,
         entityStats: entityStats.map(s => ({
           type: s.entityType,
           added: s.toAdd,
@@ -180,6 +206,54 @@ class RestoreService {
     return result;
   }
 
+  /**
+   * INCREMENTO 46: Cadeia do incremental, da raiz completa ao próprio snapshot.
+   * Base ausente rejeita a restauração.
+   */
+  private async resolveChain(snapshot: BackupSnapshot): Promise<BackupSnapshot[]> {
+    const backupId = snapshot.metadata.backupId;
+    try {
+      const ancestors = await this.backupService.getBackupChain(snapshot.metadata.baseBackupId ?? '');
+      return [...ancestors, snapshot];
+    } catch (error) {
+      if (error instanceof BackupKeyMissingError || error instanceof BackupEncryptionError) {
+        throw await this.rejectEncryption(backupId, error);
+      }
+      if (this.onEvent) {
+        await this.onEvent('RESTORE_REJECTED', backupId, {
+          reason: 'chain_incomplete',
+          errors: [(error as Error).message]
+        });
+      }
+      throw new RestoreRejectedError('Cadeia de backups incompleta', (error as Error).message);
+    }
+  }
+
+  /**
+   * INCREMENTO 47: Rejeição por backup (ou base da cadeia) que não pode ser
+   * decifrado. Outros erros seguem como estão.
+   */
+  private async rejectEncryption(backupId: string, error: unknown): Promise<unknown> {
+    if (!(error instanceof BackupKeyMissingError) && !(error instanceof BackupEncryptionError)) {
+      return error;
+    }
+
+    const missing = error instanceof BackupKeyMissingError;
+    if (this.onEvent) {
+      await this.onEvent('RESTORE_REJECTED', backupId, {
+        reason: missing ? 'encryption_key_missing' : 'decryption_failed',
+        keyId: error.keyId,
+        errors: [error.message]
+      });
+    }
+    return new RestoreRejectedError(
+      missing
+        ? `Backup exige a chave de criptografia ${error.keyId}, ausente do key-ring`
+        : 'Backup cifrado falhou na verificação de integridade',
+      error.message
+    );
+  }
+
   /**
    * Filtra entidades a restaurar com base nas opções.
    */
@@ -346,11 +420,7 @@ class RestoreService {
    * Obtém o ID de um item.
    */
   private getItemId(item: unknown): string | undefined {
-    if (item && typeof item === 'object') {
-      const obj = item as Record<string, unknown>;
-      return (obj.id ?? obj.mandateId ?? obj.caseId ?? obj.tenantId) as string | undefined;
-    }
-    return undefined;
+    return getBackupItemId(item);
   }
 
   /**
@@ -6,8 +6,11 @@
 export {
   BackupEntityType,
   BackupMetadata,
+  BackupKind,
   BackupEntityData,
   BackupSnapshot,
+  EncryptedBlob,
+  BackupEncryption,
   BackupOptions,
   BackupValidationResult,
   RestoreMode,
@@ -18,7 +21,16 @@ export {
   DRProcedureType,
   DRStep,
   DRProcedure,
-  BackupFileInfo
+  BackupFileInfo,
+  BackupJobOperation,
+  BackupJobStatus,
+  BackupJobProgress,
+  BackupJob,
+  BackupJobRunnerConfig,
+  DEFAULT_BACKUP_JOB_CONFIG,
+  BackupRetentionPolicy,
+  DEFAULT_BACKUP_RETENTION,
+  BackupRewrapResult
 } from './BackupTypes';
 
 // Erros
@@ -33,7 +45,12 @@ export {
   EventLogContinuityError,
   RestoreConflictError,
   DRProcedureError,
-  BackupConfigError
+  BackupConfigError,
+  DRProcedureNotFoundError,
+  DRProcedureStateError,
+  BackupChainError,
+  BackupKeyMissingError,
+  BackupEncryptionError
 } from './BackupErrors';
 
 // Crypto
@@ -49,7 +66,17 @@ export {
   verifyBackupSignature,
   verifyBackupIntegrity,
   generateBackupId,
-  generateBackupFilename
+  generateBackupFilename,
+  signBackupDigitally,
+  verifyBackupDigitalSignature,
+  BACKUP_KEYS_ENV_KEY,
+  BACKUP_KEY_ID_ENV_KEY,
+  BackupKeyRing,
+  loadBackupKeyRing,
+  generateBackupMasterKey,
+  encryptBackupSnapshot,
+  decryptBackupSnapshot,
+  rewrapBackupKey
 } from './BackupCrypto';
 
 // Metadata
@@ -72,3 +99,14 @@ export { BackupRepositoryImpl } from './BackupRepositoryImpl';
 export { BackupService, BackupDataProviders, BackupEventCallback } from './BackupService';
 export { RestoreService, RestoreExistenceCheckers, RestoreAppenders, RestoreEventCallback } from './RestoreService';
 export { DisasterRecoveryService, DRProgressCallback } from './DisasterRecoveryService';
+export { BackupJobRunner } from './BackupJobRunner';
+export { selectBackupsToPrune } from './BackupRetention';
+export {
+  getBackupItemId,
+  createChainMetadata,
+  selectEventsAfter,
+  selectChangedItems,
+  mergeChainEntities,
+  verifyChainLink,
+  verifyBackupChain
+} from './BackupChain';
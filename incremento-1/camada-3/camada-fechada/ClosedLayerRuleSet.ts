@@ -0,0 +1,352 @@
+/**
+ * INCREMENTO 48 — CAMADA FECHADA: Conjunto de Regras do Tenant
+ *
+ * Regras declarativas e versionadas que um tenant acrescenta às 5 regras
+ * embutidas. O formato é JSON puro (sem código), validado antes de ser
+ * aceito e avaliado de forma determinística.
+ *
+ * PRINCÍPIOS:
+ * - Regras embutidas continuam obrigatórias (rodam antes)
+ * - Avaliação na ordem declarada; retorna o PRIMEIRO bloqueio
+ * - NÃO persiste nada, NÃO lança exceções na avaliação
+ * - Comparação de textos sem acento e sem caixa
+ */
+
+import { SituacaoDecisoria, DecisionProtocol, PerfilRisco } from '../entidades/tipos';
+import {
+  ClosedLayerResult,
+  ClosedLayerViolation,
+  ClosedLayerRuleId,
+  ClosedLayerCustomRuleType,
+  ClosedLayerCustomRule,
+  ClosedLayerRuleSet,
+  ClosedLayerRuleSetValidation
+} from './ClosedLayerTypes';
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ════════════════════════════════════════════════════════════════════════════
+
+const PASSED: ClosedLayerResult = {
+  blocked: false,
+  rule: '',
+  reason: ''
+};
+
+/** Máximo de regras por conjunto */
+const MAX_CLOSED_LAYER_CUSTOM_RULES = 100;
+
+const RULE_SET_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+const RULE_ID_PATTERN = /^[A-Z][A-Z0-9_]{0,63}$/;
+
+const DEFAULT_VALORES_IRREVERSIVEIS = ['irreversivel'];
+
+const BUILTIN_RULE_IDS: string[] = Object.values(ClosedLayerRuleId);
+const CUSTOM_RULE_TYPES: string[] = Object.values(ClosedLayerCustomRuleType);
+const PERFIS: string[] = Object.values(PerfilRisco);
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+function normalizar(texto: string | undefined): string {
+  return (texto ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+function bloquear(ruleSet: ClosedLayerRuleSet, rule: ClosedLayerCustomRule, motivoPadrao: string): ClosedLayerResult {
+  return {
+    blocked: true,
+    rule: rule.id,
+    reason: rule.motivo ?? motivoPadrao,
+    ruleSetId: ruleSet.ruleSetId,
+    ruleSetVersion: ruleSet.version
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// AVALIAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Campos do protocolo lidos pelas regras do tenant. Aceita também os dados
+ * de entrada do protocolo, antes de ele existir (ConstruirProtocoloDeDecisao).
+ */
+type ProtocoloAvaliado = Pick<DecisionProtocol, 'limites_definidos' | 'perfil_risco'>;
+
+function checkCustomRule(
+  ruleSet: ClosedLayerRuleSet,
+  rule: ClosedLayerCustomRule,
+  situacao: SituacaoDecisoria,
+  protocolo: ProtocoloAvaliado
+): ClosedLayerResult {
+  const dominio = normalizar(situacao.dominio);
+
+  switch (rule.type) {
+    case ClosedLayerCustomRuleType.MINIMO_RISCOS_IRREVERSIVEIS: {
+      if (rule.dominios && !rule.dominios.some(d => normalizar(d) === dominio)) {
+        return PASSED;
+      }
+      const irreversiveis = new Set((rule.valoresIrreversiveis ?? DEFAULT_VALORES_IRREVERSIVEIS).map(normalizar));
+      const encontrados = (situacao.riscos ?? [])
+        .filter(r => irreversiveis.has(normalizar(r.reversibilidade)))
+        .length;
+      if (encontrados < rule.minimo) {
+        return bloquear(
+          ruleSet,
+          rule,
+          `Situação exige ao menos ${rule.minimo} risco(s) irreversível(is) declarado(s); encontrados: ${encontrados}`
+        );
+      }
+      return PASSED;
+    }
+
+    case ClosedLayerCustomRuleType.LIMITES_OBRIGATORIOS_POR_DOMINIO: {
+      if (normalizar(rule.dominio) !== dominio) {
+        return PASSED;
+      }
+      const definidos = new Set((protocolo.limites_definidos ?? []).map(l => normalizar(l.tipo)));
+      const ausentes = rule.tiposLimite.filter(t => !definidos.has(normalizar(t)));
+      if (ausentes.length > 0) {
+        return bloquear(
+          ruleSet,
+          rule,
+          `Domínio ${rule.dominio} exige limites dos tipos: ${ausentes.join(', ')}`
+        );
+      }
+      return PASSED;
+    }
+
+    case ClosedLayerCustomRuleType.PERFIL_PROIBIDO_POR_CASO_USO: {
+      if (rule.casosUso.includes(situacao.caso_uso_declarado) &&
+          rule.perfis.includes(protocolo.perfil_risco)) {
+        return bloquear(
+          ruleSet,
+          rule,
+          `Perfil ${protocolo.perfil_risco} proibido para o caso de uso ${situacao.caso_uso_declarado}`
+        );
+      }
+      return PASSED;
+    }
+
+    default:
+      return PASSED;
+  }
+}
+
+/**
+ * Avalia as regras do tenant na ordem declarada.
+ *
+ * Retorna o PRIMEIRO bloqueio (com ruleSetId e ruleSetVersion) ou PASSED.
+ * Não roda as regras embutidas: use validateClosedLayer para o fluxo completo.
+ */
+function evaluateClosedLayerRuleSet(
+  ruleSet: ClosedLayerRuleSet,
+  situacao: SituacaoDecisoria,
+  protocolo: ProtocoloAvaliado
+): ClosedLayerResult {
+  for (const rule of ruleSet.rules) {
+    const result = checkCustomRule(ruleSet, rule, situacao, protocolo);
+    if (result.blocked) return result;
+  }
+  return PASSED;
+}
+
+/**
+ * INCREMENTO 49: Campos envolvidos em cada tipo de regra.
+ */
+function customRuleFields(rule: ClosedLayerCustomRule): string[] {
+  switch (rule.type) {
+    case ClosedLayerCustomRuleType.MINIMO_RISCOS_IRREVERSIVEIS:
+      return ['situacao.riscos'];
+    case ClosedLayerCustomRuleType.LIMITES_OBRIGATORIOS_POR_DOMINIO:
+      return ['protocolo.limites_definidos', 'situacao.dominio'];
+    case ClosedLayerCustomRuleType.PERFIL_PROIBIDO_POR_CASO_USO:
+      return ['protocolo.perfil_risco', 'situacao.caso_uso_declarado'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * INCREMENTO 49: Avalia TODAS as regras do tenant, na ordem declarada.
+ * O primeiro item é o bloqueio de evaluateClosedLayerRuleSet.
+ */
+function explainClosedLayerRuleSet(
+  ruleSet: ClosedLayerRuleSet,
+  situacao: SituacaoDecisoria,
+  protocolo: ProtocoloAvaliado
+): ClosedLayerViolation[] {
+  const violations: ClosedLayerViolation[] = [];
+  for (const rule of ruleSet.rules) {
+    const result = checkCustomRule(ruleSet, rule, situacao, protocolo);
+    if (result.blocked) {
+      violations.push({ ...result, blocked: true, fields: customRuleFields(rule) });
+    }
+  }
+  return violations;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// VALIDAÇÃO DO ARQUIVO
+// ════════════════════════════════════════════════════════════════════════════
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKnownFields(
+  obj: Record<string, unknown>,
+  allowed: string[],
+  path: string,
+  errors: string[]
+): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${path}${key}: campo desconhecido`);
+    }
+  }
+}
+
+function checkNonEmptyString(value: unknown, path: string, errors: string[]): value is string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    errors.push(`${path}: deve ser texto não vazio`);
+    return false;
+  }
+  return true;
+}
+
+function checkStringList(value: unknown, path: string, errors: string[]): value is string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${path}: deve ser lista não vazia de textos`);
+    return false;
+  }
+  let ok = true;
+  value.forEach((item, i) => {
+    if (!checkNonEmptyString(item, `${path}[${i}]`, errors)) ok = false;
+  });
+  return ok;
+}
+
+function validateRule(raw: unknown, path: string, errors: string[]): ClosedLayerCustomRule | null {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: regra deve ser um objeto`);
+    return null;
+  }
+
+  const before = errors.length;
+
+  if (typeof raw.id !== 'string' || !RULE_ID_PATTERN.test(raw.id)) {
+    errors.push(`${path}.id: use MAIÚSCULAS, dígitos e _ (ex.: BLOQUEAR_AGRESSIVO_CREDITO)`);
+  } else if (BUILTIN_RULE_IDS.includes(raw.id)) {
+    errors.push(`${path}.id: ${raw.id} é uma regra embutida`);
+  }
+
+  if (raw.motivo !== undefined) {
+    checkNonEmptyString(raw.motivo, `${path}.motivo`, errors);
+  }
+
+  const base = ['id', 'type', 'motivo'];
+
+  switch (raw.type) {
+    case ClosedLayerCustomRuleType.MINIMO_RISCOS_IRREVERSIVEIS:
+      checkKnownFields(raw, [...base, 'minimo', 'dominios', 'valoresIrreversiveis'], `${path}.`, errors);
+      if (typeof raw.minimo !== 'number' || !Number.isInteger(raw.minimo) || raw.minimo < 1) {
+        errors.push(`${path}.minimo: deve ser inteiro >= 1`);
+      }
+      if (raw.dominios !== undefined) checkStringList(raw.dominios, `${path}.dominios`, errors);
+      if (raw.valoresIrreversiveis !== undefined) {
+        checkStringList(raw.valoresIrreversiveis, `${path}.valoresIrreversiveis`, errors);
+      }
+      break;
+
+    case ClosedLayerCustomRuleType.LIMITES_OBRIGATORIOS_POR_DOMINIO:
+      checkKnownFields(raw, [...base, 'dominio', 'tiposLimite'], `${path}.`, errors);
+      checkNonEmptyString(raw.dominio, `${path}.dominio`, errors);
+      checkStringList(raw.tiposLimite, `${path}.tiposLimite`, errors);
+      break;
+
+    case ClosedLayerCustomRuleType.PERFIL_PROIBIDO_POR_CASO_USO:
+      checkKnownFields(raw, [...base, 'perfis', 'casosUso'], `${path}.`, errors);
+      if (!Array.isArray(raw.perfis) || raw.perfis.length === 0 ||
+          raw.perfis.some(p => !PERFIS.includes(p))) {
+        errors.push(`${path}.perfis: deve ser lista não vazia de ${PERFIS.join(', ')}`);
+      }
+      if (!Array.isArray(raw.casosUso) || raw.casosUso.length === 0 ||
+          raw.casosUso.some(c => typeof c !== 'number' || !Number.isInteger(c) || c < 1)) {
+        errors.push(`${path}.casosUso: deve ser lista não vazia de inteiros >= 1`);
+      }
+      break;
+
+    default:
+      errors.push(`${path}.type: deve ser um de ${CUSTOM_RULE_TYPES.join(', ')}`);
+  }
+
+  return errors.length === before ? (raw as unknown as ClosedLayerCustomRule) : null;
+}
+
+/**
+ * Valida um conjunto de regras (conteúdo de arquivo JSON já parseado).
+ *
+ * Rejeita campos desconhecidos, ids duplicados e ids de regras embutidas.
+ * Com valid = true, devolve uma cópia do conjunto pronta para avaliação.
+ */
+function validateClosedLayerRuleSet(raw: unknown): ClosedLayerRuleSetValidation {
+  const errors: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    return { valid: false, errors: ['conjunto de regras deve ser um objeto JSON'] };
+  }
+
+  checkKnownFields(raw, ['ruleSetId', 'version', 'description', 'rules'], '', errors);
+
+  if (typeof raw.ruleSetId !== 'string' || !RULE_SET_ID_PATTERN.test(raw.ruleSetId)) {
+    errors.push('ruleSetId: use minúsculas, dígitos, ".", "_" e "-" (até 64 caracteres)');
+  }
+
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    errors.push('version: deve ser inteiro >= 1');
+  }
+
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    errors.push('description: deve ser texto');
+  }
+
+  if (!Array.isArray(raw.rules)) {
+    errors.push('rules: deve ser uma lista');
+  } else {
+    if (raw.rules.length > MAX_CLOSED_LAYER_CUSTOM_RULES) {
+      errors.push(`rules: máximo de ${MAX_CLOSED_LAYER_CUSTOM_RULES} regras`);
+    }
+    const ids = new Set<string>();
+    raw.rules.forEach((rule, i) => {
+      const valid = validateRule(rule, `rules[${i}]`, errors);
+      if (valid) {
+        if (ids.has(valid.id)) {
+          errors.push(`rules[${i}].id: ${valid.id} duplicado`);
+        }
+        ids.add(valid.id);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    ruleSet: JSON.parse(JSON.stringify(raw)) as ClosedLayerRuleSet
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// EXPORTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  evaluateClosedLayerRuleSet,
+  explainClosedLayerRuleSet,
+  validateClosedLayerRuleSet,
+  MAX_CLOSED_LAYER_CUSTOM_RULES
+};
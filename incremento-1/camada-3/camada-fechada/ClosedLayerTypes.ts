@@ -3,8 +3,13 @@
  *
  * Tipos auxiliares usados APENAS internamente pela Camada Fechada.
  * NÃO expostos publicamente, NÃO alteram tipos existentes.
+ *
+ * INCREMENTO 48: tipos do conjunto de regras configurável por tenant.
+ * INCREMENTO 49: violações com ponteiro de campo (modo "explicar tudo").
  */
 
+import { PerfilRisco } from '../entidades/tipos';
+
 // ════════════════════════════════════════════════════════════════════════════
 // RESULTADO DA VALIDAÇÃO
 // ════════════════════════════════════════════════════════════════════════════
@@ -23,6 +28,39 @@ interface ClosedLayerResult {
 
   /** Motivo legível do bloqueio (vazio se não bloqueado) */
   reason: string;
+
+  /** Conjunto de regras do tenant que causou o bloqueio (Inc 48) */
+  ruleSetId?: string;
+
+  /** Versão do conjunto de regras do tenant que causou o bloqueio (Inc 48) */
+  ruleSetVersion?: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// MODO DIAGNÓSTICO (INCREMENTO 49)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Regra violada, com os campos que a causaram.
+ */
+interface ClosedLayerViolation extends ClosedLayerResult {
+  blocked: true;
+
+  /**
+   * Caminhos dos campos envolvidos, o principal primeiro,
+   * no formato do corpo de /decisoes (ex.: "protocolo.limites_definidos")
+   */
+  fields: string[];
+}
+
+/**
+ * Todas as regras violadas, na mesma ordem de avaliação do validador.
+ *
+ * violations[0] é exatamente o bloqueio que validateClosedLayer retorna.
+ */
+interface ClosedLayerExplanation {
+  blocked: boolean;
+  violations: ClosedLayerViolation[];
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -43,8 +81,118 @@ const ClosedLayerRuleId = {
 
 type ClosedLayerRuleIdType = typeof ClosedLayerRuleId[keyof typeof ClosedLayerRuleId];
 
+// ════════════════════════════════════════════════════════════════════════════
+// CONJUNTO DE REGRAS DO TENANT (INCREMENTO 48)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Tipos de regra declarativa aceitos em um conjunto de regras do tenant.
+ */
+const ClosedLayerCustomRuleType = {
+  MINIMO_RISCOS_IRREVERSIVEIS: 'MINIMO_RISCOS_IRREVERSIVEIS',
+  LIMITES_OBRIGATORIOS_POR_DOMINIO: 'LIMITES_OBRIGATORIOS_POR_DOMINIO',
+  PERFIL_PROIBIDO_POR_CASO_USO: 'PERFIL_PROIBIDO_POR_CASO_USO'
+} as const;
+
+type ClosedLayerCustomRuleTypeValue = typeof ClosedLayerCustomRuleType[keyof typeof ClosedLayerCustomRuleType];
+
+/**
+ * Campos comuns a toda regra do tenant.
+ */
+interface ClosedLayerCustomRuleBase {
+  /** Identificador da regra (MAIÚSCULAS, distinto das regras embutidas) */
+  id: string;
+
+  /** Motivo exibido no bloqueio; ausente = motivo padrão do tipo */
+  motivo?: string;
+}
+
+/**
+ * Exige ao menos `minimo` riscos irreversíveis declarados na situação.
+ * Riscos são comparados por `reversibilidade`, sem acento e sem caixa.
+ */
+interface MinimoRiscosIrreversiveisRule extends ClosedLayerCustomRuleBase {
+  type: typeof ClosedLayerCustomRuleType.MINIMO_RISCOS_IRREVERSIVEIS;
+  minimo: number;
+
+  /** Domínios em que a regra se aplica; ausente = todos */
+  dominios?: string[];
+
+  /** Valores de reversibilidade tratados como irreversíveis; ausente = ['irreversivel'] */
+  valoresIrreversiveis?: string[];
+}
+
+/**
+ * Exige que o protocolo defina limites de todos os `tiposLimite`
+ * quando a situação é do `dominio` indicado.
+ */
+interface LimitesObrigatoriosPorDominioRule extends ClosedLayerCustomRuleBase {
+  type: typeof ClosedLayerCustomRuleType.LIMITES_OBRIGATORIOS_POR_DOMINIO;
+  dominio: string;
+  tiposLimite: string[];
+}
+
+/**
+ * Proíbe os `perfis` de risco quando a situação declara um dos `casosUso`.
+ */
+interface PerfilProibidoPorCasoUsoRule extends ClosedLayerCustomRuleBase {
+  type: typeof ClosedLayerCustomRuleType.PERFIL_PROIBIDO_POR_CASO_USO;
+  perfis: PerfilRisco[];
+  casosUso: number[];
+}
+
+type ClosedLayerCustomRule =
+  | MinimoRiscosIrreversiveisRule
+  | LimitesObrigatoriosPorDominioRule
+  | PerfilProibidoPorCasoUsoRule;
+
+/**
+ * Conjunto de regras versionado de um tenant.
+ *
+ * As regras rodam DEPOIS das 5 regras embutidas, na ordem declarada.
+ * Só podem acrescentar bloqueios: as embutidas continuam obrigatórias.
+ */
+interface ClosedLayerRuleSet {
+  /** Identificador do conjunto (ex.: "bancos-br") */
+  ruleSetId: string;
+
+  /** Versão inteira >= 1; cada substituição exige versão maior */
+  version: number;
+
+  description?: string;
+
+  rules: ClosedLayerCustomRule[];
+}
+
+/**
+ * Resultado da validação de um arquivo de conjunto de regras.
+ */
+interface ClosedLayerRuleSetValidation {
+  valid: boolean;
+
+  /** Erros com caminho do campo (ex.: "rules[1].minimo: ...") */
+  errors: string[];
+
+  /** Conjunto normalizado (apenas se valid) */
+  ruleSet?: ClosedLayerRuleSet;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // EXPORTS
 // ════════════════════════════════════════════════════════════════════════════
 
-export { ClosedLayerResult, ClosedLayerRuleId, ClosedLayerRuleIdType };
+export {
+  ClosedLayerResult,
+  ClosedLayerViolation,
+  ClosedLayerExplanation,
+  ClosedLayerRuleId,
+  ClosedLayerRuleIdType,
+  ClosedLayerCustomRuleType,
+  ClosedLayerCustomRuleTypeValue,
+  MinimoRiscosIrreversiveisRule,
+  LimitesObrigatoriosPorDominioRule,
+  PerfilProibidoPorCasoUsoRule,
+  ClosedLayerCustomRule,
+  ClosedLayerRuleSet,
+  ClosedLayerRuleSetValidation
+};
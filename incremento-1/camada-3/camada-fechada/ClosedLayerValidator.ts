@@ -9,10 +9,19 @@
  * - NÃO persiste nada
  * - NÃO lança exceções
  * - Ordem das regras é determinística
+ *
+ * INCREMENTO 48: conjunto de regras do tenant roda depois das embutidas.
+ * INCREMENTO 49: explainClosedLayer() avalia todas as regras, para diagnóstico.
  */
 
 import { SituacaoDecisoria, DecisionProtocol } from '../entidades/tipos';
-import { ClosedLayerResult } from './ClosedLayerTypes';
+import {
+  ClosedLayerResult,
+  ClosedLayerRuleSet,
+  ClosedLayerViolation,
+  ClosedLayerExplanation
+} from './ClosedLayerTypes';
+import { evaluateClosedLayerRuleSet, explainClosedLayerRuleSet } from './ClosedLayerRuleSet';
 import {
   checkSemRisco,
   checkSemAlternativas,
@@ -44,16 +53,19 @@ const PASSED: ClosedLayerResult = {
  * 3. BLOQUEAR_SEM_LIMITES
  * 4. BLOQUEAR_CONSERVADOR_SEM_CRITERIOS
  * 5. BLOQUEAR_SEM_CONSEQUENCIA
+ * 6. Regras do tenant, na ordem declarada (Inc 48)
  *
  * Retorna o PRIMEIRO bloqueio encontrado ou PASSED se nenhum.
  *
  * @param situacao - A situação decisória sendo avaliada
  * @param protocolo - O protocolo de decisão construído
+ * @param ruleSet - Conjunto de regras do tenant (opcional)
  * @returns ClosedLayerResult indicando se deve bloquear
  */
 function validateClosedLayer(
   situacao: SituacaoDecisoria,
-  protocolo: DecisionProtocol
+  protocolo: DecisionProtocol,
+  ruleSet?: ClosedLayerRuleSet
 ): ClosedLayerResult {
   // Regra 1: Sem risco nem incerteza
   const r1 = checkSemRisco(situacao);
@@ -75,12 +87,71 @@ function validateClosedLayer(
   const r5 = checkSemConsequencia(situacao);
   if (r5.blocked) return r5;
 
+  // Regras do tenant: só acrescentam bloqueios
+  if (ruleSet) {
+    const custom = evaluateClosedLayerRuleSet(ruleSet, situacao, protocolo);
+    if (custom.blocked) return custom;
+  }
+
   // Todas as regras passaram
   return PASSED;
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// MODO DIAGNÓSTICO (INCREMENTO 49)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Regras embutidas na ordem de validateClosedLayer, com os campos que avaliam.
+ */
+const BUILTIN_CHECKS: ReadonlyArray<{
+  check: (situacao: SituacaoDecisoria, protocolo: DecisionProtocol) => ClosedLayerResult;
+  fields: string[];
+}> = [
+  { check: s => checkSemRisco(s), fields: ['situacao.riscos', 'situacao.incertezas'] },
+  { check: s => checkSemAlternativas(s), fields: ['situacao.alternativas'] },
+  { check: (_, p) => checkSemLimites(p), fields: ['protocolo.limites_definidos'] },
+  {
+    check: (_, p) => checkConservadorSemCriterios(p),
+    fields: ['protocolo.criterios_minimos', 'protocolo.perfil_risco']
+  },
+  { check: s => checkSemConsequencia(s), fields: ['situacao.consequencia_relevante'] }
+];
+
+/**
+ * Avalia TODAS as regras e retorna cada violação com os campos envolvidos.
+ *
+ * Só para diagnóstico: a decisão de bloqueio continua sendo a de
+ * validateClosedLayer, que é sempre violations[0].
+ *
+ * @param situacao - A situação decisória sendo avaliada
+ * @param protocolo - O protocolo de decisão construído
+ * @param ruleSet - Conjunto de regras do tenant (opcional)
+ * @returns ClosedLayerExplanation com todas as violações, em ordem
+ */
+function explainClosedLayer(
+  situacao: SituacaoDecisoria,
+  protocolo: DecisionProtocol,
+  ruleSet?: ClosedLayerRuleSet
+): ClosedLayerExplanation {
+  const violations: ClosedLayerViolation[] = [];
+
+  for (const { check, fields } of BUILTIN_CHECKS) {
+    const result = check(situacao, protocolo);
+    if (result.blocked) {
+      violations.push({ ...result, blocked: true, fields: [...fields] });
+    }
+  }
+
+  if (ruleSet) {
+    violations.push(...explainClosedLayerRuleSet(ruleSet, situacao, protocolo));
+  }
+
+  return { blocked: violations.length > 0, violations };
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // EXPORTS
 // ════════════════════════════════════════════════════════════════════════════
 
-export { validateClosedLayer };
+export { validateClosedLayer, explainClosedLayer };
@@ -3,7 +3,29 @@
  *
  * Barrel export para a Camada Fechada.
  * Expõe apenas o validador e tipos necessários.
+ * INCREMENTO 48: conjunto de regras do tenant.
+ * INCREMENTO 49: modo diagnóstico (explainClosedLayer).
  */
 
-export { validateClosedLayer } from './ClosedLayerValidator';
-export { ClosedLayerResult, ClosedLayerRuleId, ClosedLayerRuleIdType } from './ClosedLayerTypes';
+export { validateClosedLayer, explainClosedLayer } from './ClosedLayerValidator';
+export {
+  evaluateClosedLayerRuleSet,
+  explainClosedLayerRuleSet,
+  validateClosedLayerRuleSet,
+  MAX_CLOSED_LAYER_CUSTOM_RULES
+} from './ClosedLayerRuleSet';
+export {
+  ClosedLayerResult,
+  ClosedLayerViolation,
+  ClosedLayerExplanation,
+  ClosedLayerRuleId,
+  ClosedLayerRuleIdType,
+  ClosedLayerCustomRuleType,
+  ClosedLayerCustomRuleTypeValue,
+  MinimoRiscosIrreversiveisRule,
+  LimitesObrigatoriosPorDominioRule,
+  PerfilProibidoPorCasoUsoRule,
+  ClosedLayerCustomRule,
+  ClosedLayerRuleSet,
+  ClosedLayerRuleSetValidation
+} from './ClosedLayerTypes';
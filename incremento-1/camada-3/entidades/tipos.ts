@@ -1,3 +1,5 @@
+import type { ClosedLayerExplanation } from '../camada-fechada/ClosedLayerTypes';
+
 // ════════════════════════════════════════════════════════════════════════
 // ENUMERAÇÕES
 // ════════════════════════════════════════════════════════════════════════
@@ -163,6 +165,9 @@ interface DecisionProtocol {
 
   // Motivo de rejeição (se aplicável)
   motivo_rejeicao?: string;
+
+  // INCREMENTO 48: Conjunto de regras da Camada Fechada do tenant avaliado
+  regras_camada_fechada?: { ruleSetId: string; version: number };
 }
 
 /**
@@ -179,6 +184,79 @@ interface DadosProtocoloInput {
   memoria_consultada_ids?: string[];
 }
 
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 30: DECISÃO EM CHAMADA ÚNICA
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Dados da situação fornecidos pelo chamador
+ * (id, status e datas são atribuídos pelo Orquestrador)
+ */
+interface DadosSituacaoInput {
+  dominio: string;
+  contexto: string;
+  objetivo: string;
+  incertezas: string[];
+  alternativas: Alternativa[];
+  riscos: Risco[];
+  urgencia: string;
+  capacidade_absorcao: string;
+  consequencia_relevante: string;
+  possibilidade_aprendizado: boolean;
+  caso_uso_declarado: number;
+}
+
+/**
+ * Input do fluxo completo: situação → episódio → protocolo → decisão → contrato
+ */
+interface DecisaoCompletaInput {
+  situacao: DadosSituacaoInput;
+  protocolo: DadosProtocoloInput;
+
+  /** Condições obrigatórias do contrato (default: nenhuma) */
+  condicoes?: string[];
+}
+
+/**
+ * Resultado do fluxo completo
+ */
+interface ResultadoDecisao {
+  situacao_id: string;
+  episodio_id: string;
+  protocolo: DecisionProtocol;
+
+  /** null quando o protocolo foi REJEITADO */
+  contrato: ContratoDeDecisao | null;
+
+  /** true quando devolvido a partir de uma chave de idempotência já usada */
+  replay: boolean;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 50: VALIDAÇÃO PRÉVIA (DRY RUN)
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Todos os problemas que Decidir() encontraria para a mesma entrada.
+ * Nenhuma entidade é criada e nenhum evento é registrado.
+ */
+interface ValidacaoDecisao {
+  /** true quando Decidir() emitiria contrato */
+  valida: boolean;
+
+  /** Regras de criação da situação (Decidir falharia antes do episódio) */
+  erros_situacao: string[];
+
+  /** Validações de ConstruirProtocoloDeDecisao (protocolo seria REJEITADO) */
+  erros_protocolo: string[];
+
+  /** Todas as regras da Camada Fechada violadas (embutidas + tenant) */
+  camada_fechada: ClosedLayerExplanation;
+
+  /** Conjunto de regras do tenant avaliado */
+  regras_camada_fechada?: { ruleSetId: string; version: number };
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // QUERY E RESULTADO
 // ════════════════════════════════════════════════════════════════════════
@@ -229,6 +307,10 @@ export {
   ContratoDeDecisao,
   DecisionProtocol,
   DadosProtocoloInput,
+  DadosSituacaoInput,
+  DecisaoCompletaInput,
+  ResultadoDecisao,
+  ValidacaoDecisao,
   MemoryQuery,
   MemoryHit,
   MemoryQueryResult
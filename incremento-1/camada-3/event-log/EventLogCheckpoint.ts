@@ -0,0 +1,288 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 32: CHECKPOINTS ASSINADOS DO EVENTLOG
+// ════════════════════════════════════════════════════════════════════════
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  SignedData,
+  sign,
+  verify,
+  loadPrivateKeyFromEnv,
+  loadPublicKeyFromEnv,
+  ENV_PRIVATE_KEY,
+  ENV_PUBLIC_KEY
+} from '../../scripts/crypto_utils';
+
+/**
+ * Arquivo de checkpoints dentro do dataDir (uma linha JSON por checkpoint).
+ */
+const CHECKPOINT_FILE_NAME = 'event-log-checkpoints.jsonl';
+
+/**
+ * Conteúdo assinado de um checkpoint.
+ *
+ * Plano (sem objetos aninhados): a serialização canônica de
+ * crypto_utils ordena apenas as chaves do primeiro nível.
+ */
+interface EventLogCheckpointData {
+  version: 1;
+  /** Número sequencial do checkpoint (1, 2, 3...) */
+  sequence: number;
+  /** Segmento do último evento coberto */
+  segment: number;
+  /** Posição do último evento dentro do segmento */
+  index_in_segment: number;
+  last_event_id: string;
+  last_hash: string;
+  /** Total de eventos do log até o último evento (inclusive) */
+  count: number;
+  created_at: string;
+}
+
+type SignedEventLogCheckpoint = SignedData<EventLogCheckpointData>;
+
+/**
+ * Chave de assinatura (formato de crypto_utils).
+ */
+interface CheckpointSigningKey {
+  privateKey: crypto.KeyObject;
+  keyId: string;
+}
+
+/**
+ * Chaves públicas aceitas na verificação, por keyId.
+ */
+type CheckpointPublicKeys = Record<string, crypto.KeyObject>;
+
+/**
+ * Falha de um checkpoint na verificação.
+ */
+interface CheckpointFailure {
+  sequence: number;
+  reason: string;
+}
+
+/**
+ * Resultado da comparação da cadeia atual com os checkpoints.
+ */
+interface CheckpointVerificationResult {
+  /** Todos os checkpoints verificáveis conferem com a cadeia */
+  valid: boolean;
+  total: number;
+  matched: number;
+  /** Checkpoints de segmentos removidos pela retenção (não verificáveis) */
+  pruned: number;
+  /** false se algum checkpoint não pôde ter a assinatura verificada (chave desconhecida) */
+  signaturesVerified: boolean;
+  failures: CheckpointFailure[];
+}
+
+/**
+ * Pacote para testemunhas externas: checkpoints assinados + chaves
+ * públicas para conferência independente.
+ */
+interface EventLogWitnessBundle {
+  version: 1;
+  generated_at: string;
+  public_keys: Array<{ keyId: string; publicKey: string }>;
+  head: {
+    count: number;
+    last_event_id: string | null;
+    last_hash: string | null;
+  };
+  checkpoints: SignedEventLogCheckpoint[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// CHAVES
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Chave de assinatura do ambiente (LIBERVIA_SIGNING_KEY / LIBERVIA_KEY_ID).
+ * Sem chave: checkpoints desabilitados.
+ */
+function loadCheckpointSigningKeyFromEnv(): CheckpointSigningKey | null {
+  return process.env[ENV_PRIVATE_KEY] ? loadPrivateKeyFromEnv() : null;
+}
+
+/**
+ * Chaves públicas para verificação: as informadas, a do ambiente
+ * (LIBERVIA_PUBLIC_KEY) e a derivada da chave de assinatura.
+ */
+function resolveCheckpointPublicKeys(
+  signingKey: CheckpointSigningKey | null,
+  publicKeys: CheckpointPublicKeys = {}
+): CheckpointPublicKeys {
+  const keys: CheckpointPublicKeys = {};
+
+  if (process.env[ENV_PUBLIC_KEY]) {
+    const fromEnv = loadPublicKeyFromEnv();
+    if (fromEnv) keys[fromEnv.keyId] = fromEnv.publicKey;
+  }
+  if (signingKey) {
+    keys[signingKey.keyId] = crypto.createPublicKey(signingKey.privateKey);
+  }
+
+  return { ...keys, ...publicKeys };
+}
+
+function exportPublicKey(key: crypto.KeyObject): string {
+  return key.export({ type: 'spki', format: 'der' }).toString('base64');
+}
+
+function importPublicKey(base64: string): crypto.KeyObject {
+  return crypto.createPublicKey({
+    key: Buffer.from(base64, 'base64'),
+    format: 'der',
+    type: 'spki'
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// ASSINATURA
+// ════════════════════════════════════════════════════════════════════════
+
+function signCheckpoint(
+  data: EventLogCheckpointData,
+  key: CheckpointSigningKey
+): SignedEventLogCheckpoint {
+  return { data, signature: sign(data, key.privateKey, key.keyId) };
+}
+
+/**
+ * Verifica a assinatura de um checkpoint.
+ * Retorna null se a chave do checkpoint não é conhecida.
+ */
+function verifyCheckpointSignature(
+  checkpoint: SignedEventLogCheckpoint,
+  publicKeys: CheckpointPublicKeys
+): boolean | null {
+  const keyId = checkpoint.signature.public_key_id;
+  const key = Object.prototype.hasOwnProperty.call(publicKeys, keyId) ? publicKeys[keyId] : undefined;
+  if (!key) return null;
+  return verify(checkpoint.data, checkpoint.signature, key).valid;
+}
+
+/**
+ * Verifica as assinaturas de um pacote de testemunha com uma chave
+ * pública obtida fora do pacote (a incluída no pacote serve apenas de
+ * referência).
+ */
+function verifyWitnessBundleSignatures(
+  bundle: EventLogWitnessBundle,
+  publicKeys: CheckpointPublicKeys
+): CheckpointVerificationResult {
+  const result: CheckpointVerificationResult = {
+    valid: true,
+    total: bundle.checkpoints.length,
+    matched: 0,
+    pruned: 0,
+    signaturesVerified: true,
+    failures: []
+  };
+
+  for (const checkpoint of bundle.checkpoints) {
+    const ok = verifyCheckpointSignature(checkpoint, publicKeys);
+    if (ok === null) {
+      result.signaturesVerified = false;
+    } else if (!ok) {
+      result.failures.push({ sequence: checkpoint.data.sequence, reason: 'Invalid signature' });
+    } else {
+      result.matched++;
+    }
+  }
+
+  result.valid = result.failures.length === 0;
+  return result;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// ARQUIVO DE CHECKPOINTS
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Arquivo append-only de checkpoints.
+ *
+ * Uma linha JSON por checkpoint, gravada com append + fsync. Nunca é
+ * reescrito: a única operação de escrita é adicionar uma linha.
+ */
+class EventLogCheckpointStore {
+  constructor(private readonly filePath: string) {}
+
+  static forDataDir(dataDir: string): EventLogCheckpointStore {
+    return new EventLogCheckpointStore(path.join(dataDir, CHECKPOINT_FILE_NAME));
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  async append(checkpoint: SignedEventLogCheckpoint): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const handle = await fs.open(this.filePath, 'a+');
+    try {
+      // Linha incompleta de uma gravação interrompida: começar nova linha
+      const { size } = await handle.stat();
+      let prefix = '';
+      if (size > 0) {
+        const last = Buffer.alloc(1);
+        await handle.read(last, 0, 1, size - 1);
+        if (last.toString('utf-8') !== '\n') prefix = '\n';
+      }
+      await handle.appendFile(prefix + JSON.stringify(checkpoint) + '\n', 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Lista os checkpoints em ordem de gravação.
+   * Linhas incompletas (queda durante o append) são ignoradas; o
+   * próximo append começa em nova linha.
+   */
+  async list(): Promise<SignedEventLogCheckpoint[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const checkpoints: SignedEventLogCheckpoint[] = [];
+
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        checkpoints.push(JSON.parse(line));
+      } catch {
+        // Gravação interrompida: a linha nunca foi um checkpoint
+      }
+    }
+
+    return checkpoints;
+  }
+}
+
+export {
+  CHECKPOINT_FILE_NAME,
+  EventLogCheckpointData,
+  SignedEventLogCheckpoint,
+  CheckpointSigningKey,
+  CheckpointPublicKeys,
+  CheckpointFailure,
+  CheckpointVerificationResult,
+  EventLogWitnessBundle,
+  loadCheckpointSigningKeyFromEnv,
+  resolveCheckpointPublicKeys,
+  exportPublicKey,
+  importPublicKey,
+  signCheckpoint,
+  verifyCheckpointSignature,
+  verifyWitnessBundleSignatures,
+  EventLogCheckpointStore
+};
@@ -2,6 +2,9 @@
 // INCREMENTO 4: MODELO DO EVENTO (CANÔNICO)
 // ════════════════════════════════════════════════════════════════════════
 
+import { CheckpointVerificationResult } from './EventLogCheckpoint';
+import { PayloadEnvelope } from './EventLogEnvelope';
+
 /**
  * ActorId - Identificador do ator que originou o evento.
  *
@@ -50,6 +53,12 @@ interface EventLogEntry {
 
   /** Hash deste evento (calculado a partir dos campos acima) */
   current_hash: string;
+
+  /**
+   * INCREMENTO 34: Payload versionado (apenas tipos com esquema).
+   * Fora do current_hash; conferido contra payload_hash.
+   */
+  envelope?: PayloadEnvelope;
 }
 
 /**
@@ -86,6 +95,7 @@ enum TipoEvento {
   AGENT_DECISION_PROPOSED = 'AGENT_DECISION_PROPOSED',
   MULTIAGENT_AGGREGATION_SELECTED = 'MULTIAGENT_AGGREGATION_SELECTED',
   MULTIAGENT_NO_DECISION = 'MULTIAGENT_NO_DECISION',
+  MULTIAGENT_HUMAN_OVERRIDE_SELECTED = 'MULTIAGENT_HUMAN_OVERRIDE_SELECTED', // Incremento 40
 
   // Autonomia (Incremento 17)
   AUTONOMY_GRANTED = 'AUTONOMY_GRANTED',
@@ -105,18 +115,37 @@ enum TipoEvento {
   AUTONOMY_REVOKED_BY_CONSEQUENCE = 'AUTONOMY_REVOKED_BY_CONSEQUENCE',
   AUTONOMY_HUMAN_REVIEW_FLAGGED = 'AUTONOMY_HUMAN_REVIEW_FLAGGED',
 
+  // Autonomia - Modelos de mandato (Incremento 52)
+  MANDATE_TEMPLATE_CREATED = 'MANDATE_TEMPLATE_CREATED',
+  MANDATE_TEMPLATE_UPDATED = 'MANDATE_TEMPLATE_UPDATED',
+  MANDATE_TEMPLATE_GRANTED = 'MANDATE_TEMPLATE_GRANTED',
+  MANDATE_TEMPLATE_REGRANTED = 'MANDATE_TEMPLATE_REGRANTED',
+
   // Human Review Workflow (Incremento 20)
   HUMAN_REVIEW_CASE_OPENED = 'HUMAN_REVIEW_CASE_OPENED',
   HUMAN_REVIEW_CASE_RESOLVED = 'HUMAN_REVIEW_CASE_RESOLVED',
   HUMAN_REVIEW_CASE_DISMISSED = 'HUMAN_REVIEW_CASE_DISMISSED',
   HUMAN_REVIEW_CASE_NOTES_UPDATED = 'HUMAN_REVIEW_CASE_NOTES_UPDATED',
+  // Human Review - Revisor responsável (Incremento 42)
+  HUMAN_REVIEW_CASE_CLAIMED = 'HUMAN_REVIEW_CASE_CLAIMED',
+  HUMAN_REVIEW_CASE_RELEASED = 'HUMAN_REVIEW_CASE_RELEASED',
 
   // Backup & Restore (Incremento 26)
   BACKUP_CREATED = 'BACKUP_CREATED',
   BACKUP_VERIFIED = 'BACKUP_VERIFIED',
   RESTORE_DRY_RUN = 'RESTORE_DRY_RUN',
   RESTORE_EXECUTED = 'RESTORE_EXECUTED',
-  RESTORE_REJECTED = 'RESTORE_REJECTED'
+  RESTORE_REJECTED = 'RESTORE_REJECTED',
+  // Backup agendado - retenção (Incremento 45)
+  BACKUP_DELETED = 'BACKUP_DELETED',
+  // Backup cifrado - rotação de chave (Incremento 47)
+  BACKUP_REWRAPPED = 'BACKUP_REWRAPPED',
+
+  // Unidade de trabalho (Incremento 29)
+  UNIT_OF_WORK_RECOVERED = 'UNIT_OF_WORK_RECOVERED',
+
+  // Idempotência (Incremento 30)
+  IDEMPOTENT_REPLAY = 'IDEMPOTENT_REPLAY'
 }
 
 /**
@@ -132,8 +161,11 @@ enum TipoEntidade {
   OBSERVACAO = 'ObservacaoDeConsequencia',
   MULTIAGENT_RUN = 'MultiAgentRun',
   AUTONOMY_MANDATE = 'AutonomyMandate',
+  MANDATE_TEMPLATE = 'MandateTemplate',
   REVIEW_CASE = 'ReviewCase',
-  BACKUP = 'BackupSnapshot'
+  BACKUP = 'BackupSnapshot',
+  UNIT_OF_WORK = 'UnitOfWork',
+  IDEMPOTENCY_KEY = 'IdempotencyKey'
 }
 
 /**
@@ -154,6 +186,9 @@ interface ChainVerificationResult {
 
   /** Total de eventos verificados */
   totalVerified: number;
+
+  /** INCREMENTO 32: Comparação com os checkpoints assinados (se houver) */
+  checkpoints?: CheckpointVerificationResult;
 }
 
 export { ActorId, EventLogEntry, TipoEvento, TipoEntidade, ChainVerificationResult };
@@ -0,0 +1,246 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 34: ENVELOPES DE PAYLOAD VERSIONADOS
+// ════════════════════════════════════════════════════════════════════════
+
+import { computePayloadHash } from '../utilitarios/HashUtil';
+import { EventLogEntry, TipoEvento } from './EventLogEntry';
+
+/**
+ * Payload de um evento, gravado junto ao evento no segmento.
+ *
+ * Não entra no current_hash: `data` é o próprio payload do append, e
+ * computePayloadHash(data) reproduz o payload_hash do evento.
+ */
+interface PayloadEnvelope {
+  /** Versão do esquema do tipo de evento */
+  v: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Esquema do envelope de um tipo de evento.
+ */
+interface EnvelopeSchema {
+  /** Versão gravada em novos eventos */
+  current: number;
+  /** Campos obrigatórios por versão */
+  fields: Record<number, readonly string[]>;
+  /** Conversão da versão N para N+1 */
+  upcast?: Record<number, (data: Record<string, unknown>) => Record<string, unknown>>;
+}
+
+type EnvelopeSchemas = Partial<Record<string, EnvelopeSchema>>;
+
+/**
+ * Envelope lido de um evento.
+ */
+interface DecodedEventPayload {
+  evento: string;
+  /** Versão gravada no envelope */
+  version: number;
+  /** Dados na versão atual do esquema; null se a versão é desconhecida */
+  data: Record<string, unknown> | null;
+  /** computePayloadHash(envelope.data) === payload_hash */
+  verified: boolean;
+}
+
+/**
+ * Tipos de evento com envelope.
+ *
+ * Para mudar o payload de um tipo: incrementar `current`, declarar os
+ * campos da nova versão e um `upcast` da versão anterior. Envelopes já
+ * gravados nunca são reescritos; são convertidos na leitura.
+ */
+const ENVELOPE_SCHEMAS: EnvelopeSchemas = {
+  [TipoEvento.SITUACAO_STATUS_ALTERADO]: {
+    current: 1,
+    fields: { 1: ['status_anterior', 'status_novo'] }
+  },
+  [TipoEvento.EPISODIO_ESTADO_ALTERADO]: {
+    current: 1,
+    fields: { 1: ['estado_anterior', 'estado_novo'] }
+  },
+  [TipoEvento.AUTONOMY_SUSPENDED]: {
+    current: 1,
+    fields: { 1: ['mandateId', 'agentId', 'suspendedAt', 'suspendReason', 'observacaoId', 'ruleId'] }
+  },
+  [TipoEvento.AUTONOMY_RESUMED]: {
+    current: 1,
+    fields: { 1: ['mandateId', 'agentId', 'resumedAt', 'resumedBy', 'reason'] }
+  },
+  [TipoEvento.AUTONOMY_DEGRADED]: {
+    current: 1,
+    fields: { 1: ['mandateId', 'agentId', 'oldMode', 'newMode', 'degradedAt', 'observacaoId', 'ruleId'] }
+  },
+  [TipoEvento.AUTONOMY_REVOKED_BY_CONSEQUENCE]: {
+    current: 1,
+    fields: { 1: ['mandateId', 'agentId', 'revokedAt', 'reason', 'observacaoId', 'ruleId'] }
+  },
+  [TipoEvento.AUTONOMY_HUMAN_REVIEW_FLAGGED]: {
+    current: 1,
+    fields: { 1: ['observacaoId', 'reason', 'flaggedAt', 'ruleId'] }
+  },
+
+  // INCREMENTO 35: eventos usados na projeção de estado
+  [TipoEvento.EPISODIO_CRIADO]: {
+    current: 1,
+    fields: { 1: ['id', 'caso_uso', 'dominio', 'estado', 'situacao_referenciada', 'data_criacao'] }
+  },
+  [TipoEvento.DECISAO_REGISTRADA]: {
+    current: 1,
+    fields: { 1: ['id', 'episodio_id', 'alternativa_escolhida', 'data_decisao'] }
+  },
+  [TipoEvento.CONTRATO_EMITIDO]: {
+    current: 1,
+    fields: { 1: ['id', 'episodio_id', 'decisao_id', 'alternativa_autorizada', 'data_emissao'] }
+  },
+  [TipoEvento.AUTONOMY_GRANTED]: {
+    current: 1,
+    fields: { 1: ['id', 'agentId', 'modo', 'concedido_por', 'concedido_em'] }
+  },
+  [TipoEvento.AUTONOMY_REVOKED]: {
+    current: 1,
+    fields: { 1: ['agentId'] }
+  },
+  [TipoEvento.AUTONOMY_EXPIRED]: {
+    current: 1,
+    fields: { 1: ['mandateId', 'agentId', 'expiredAt', 'reason'] }
+  },
+  [TipoEvento.AUTONOMY_USE_CONSUMED]: {
+    current: 1,
+    fields: { 1: ['mandateId', 'agentId', 'uses'] }
+  },
+  [TipoEvento.HUMAN_REVIEW_CASE_OPENED]: {
+    current: 1,
+    fields: { 1: ['reviewId', 'tenantId', 'reviewCase'] }
+  },
+  [TipoEvento.HUMAN_REVIEW_CASE_RESOLVED]: {
+    current: 1,
+    fields: { 1: ['reviewId', 'tenantId', 'reviewCase'] }
+  },
+  [TipoEvento.HUMAN_REVIEW_CASE_DISMISSED]: {
+    current: 1,
+    fields: { 1: ['reviewId', 'tenantId', 'reviewCase'] }
+  },
+  [TipoEvento.HUMAN_REVIEW_CASE_NOTES_UPDATED]: {
+    current: 1,
+    fields: { 1: ['reviewId', 'tenantId', 'reviewCase'] }
+  },
+  // INCREMENTO 42: revisor assume/devolve o caso
+  [TipoEvento.HUMAN_REVIEW_CASE_CLAIMED]: {
+    current: 1,
+    fields: { 1: ['reviewId', 'tenantId', 'claimedBy', 'reviewCase'] }
+  },
+  [TipoEvento.HUMAN_REVIEW_CASE_RELEASED]: {
+    current: 1,
+    fields: { 1: ['reviewId', 'tenantId', 'releasedBy', 'reviewCase'] }
+  },
+
+  // INCREMENTO 48: motivo da rejeição legível no evento, com a versão das
+  // regras da Camada Fechada do tenant (regras_camada_fechada, se houver)
+  [TipoEvento.PROTOCOLO_REJEITADO]: {
+    current: 1,
+    fields: { 1: ['id', 'episodio_id', 'estado', 'motivo_rejeicao'] }
+  },
+
+  // INCREMENTO 40: conclusão de execução multiagente por override humano
+  [TipoEvento.MULTIAGENT_HUMAN_OVERRIDE_SELECTED]: {
+    current: 1,
+    fields: { 1: ['runId', 'episodioId', 'selectedAgentId', 'contratoId', 'justificativa'] }
+  },
+
+  // INCREMENTO 52: modelos de mandato; a atualização guarda o diff e a
+  // reconcessão lista cada mandato substituído
+  [TipoEvento.MANDATE_TEMPLATE_CREATED]: {
+    current: 1,
+    fields: { 1: ['templateId', 'version', 'template'] }
+  },
+  [TipoEvento.MANDATE_TEMPLATE_UPDATED]: {
+    current: 1,
+    fields: { 1: ['templateId', 'version', 'versaoAnterior', 'diff', 'mandatosDesatualizados', 'template'] }
+  },
+  [TipoEvento.MANDATE_TEMPLATE_GRANTED]: {
+    current: 1,
+    fields: { 1: ['templateId', 'version', 'agentIds', 'mandateIds'] }
+  },
+  [TipoEvento.MANDATE_TEMPLATE_REGRANTED]: {
+    current: 1,
+    fields: { 1: ['templateId', 'version', 'reconcedidos', 'ignorados'] }
+  }
+};
+
+function schemaFor(evento: string, schemas: EnvelopeSchemas): EnvelopeSchema | undefined {
+  return Object.prototype.hasOwnProperty.call(schemas, evento) ? schemas[evento] : undefined;
+}
+
+function hasFields(data: Record<string, unknown>, fields: readonly string[]): boolean {
+  return fields.every(f => Object.prototype.hasOwnProperty.call(data, f));
+}
+
+/**
+ * Envelope para um novo evento.
+ * undefined se o tipo não tem esquema ou o payload não tem os campos
+ * da versão atual (o evento é gravado sem envelope).
+ */
+function encodeEventPayload(
+  evento: string,
+  payload: unknown,
+  schemas: EnvelopeSchemas = ENVELOPE_SCHEMAS
+): PayloadEnvelope | undefined {
+  const schema = schemaFor(evento, schemas);
+  if (!schema || payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+    return undefined;
+  }
+
+  // Forma serializada: a mesma que será lida do segmento
+  const data = JSON.parse(JSON.stringify(payload)) as Record<string, unknown>;
+  if (!hasFields(data, schema.fields[schema.current] ?? [])) {
+    return undefined;
+  }
+
+  return { v: schema.current, data };
+}
+
+/**
+ * Lê o envelope de um evento, convertendo para a versão atual.
+ * null se o evento não tem envelope.
+ */
+function decodeEventPayload(
+  entry: EventLogEntry,
+  schemas: EnvelopeSchemas = ENVELOPE_SCHEMAS
+): DecodedEventPayload | null {
+  const envelope = entry.envelope;
+  if (!envelope) return null;
+
+  const decoded: DecodedEventPayload = {
+    evento: entry.evento,
+    version: envelope.v,
+    data: null,
+    verified: computePayloadHash(envelope.data) === entry.payload_hash
+  };
+
+  const schema = schemaFor(entry.evento, schemas);
+  if (!schema || !Number.isInteger(envelope.v) || envelope.v < 1 || envelope.v > schema.current) {
+    return decoded;
+  }
+
+  let data = envelope.data;
+  for (let v = envelope.v; v < schema.current; v++) {
+    const upcast = schema.upcast?.[v];
+    if (!upcast) return decoded;
+    data = upcast(data);
+  }
+
+  decoded.data = data;
+  return decoded;
+}
+
+export {
+  PayloadEnvelope,
+  EnvelopeSchema,
+  EnvelopeSchemas,
+  DecodedEventPayload,
+  ENVELOPE_SCHEMAS,
+  encodeEventPayload,
+  decodeEventPayload
+};
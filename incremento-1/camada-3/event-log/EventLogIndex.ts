@@ -0,0 +1,241 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 31: ÍNDICES SECUNDÁRIOS POR SEGMENTO
+// ════════════════════════════════════════════════════════════════════════
+
+import { EventLogEntry } from './EventLogEntry';
+import { EventLogQuery } from './EventLogRepository';
+
+/**
+ * Índice de um segmento do EventLog.
+ *
+ * Posições são índices dentro do segmento, em ordem crescente.
+ * O índice é derivado do segmento: pode ser descartado e reconstruído
+ * a qualquer momento.
+ */
+interface SegmentIndex {
+  version: 1;
+  segment: number;
+  count: number;
+  /** Menor e maior timestamp do segmento (epoch ms) */
+  minTs: number | null;
+  maxTs: number | null;
+  ids: Record<string, number>;
+  byEvento: Record<string, number[]>;
+  byEntidade: Record<string, number[]>;
+  byEntidadeId: Record<string, Record<string, number[]>>;
+  byActor: Record<string, number[]>;
+}
+
+/**
+ * Cursor inválido (malformado ou de outro formato).
+ */
+class EventLogCursorError extends Error {
+  constructor(public readonly cursor: string) {
+    super(`Cursor de EventLog inválido: ${cursor}`);
+    this.name = 'EventLogCursorError';
+  }
+}
+
+/**
+ * Posição de um evento no log.
+ */
+interface EventLogPosition {
+  segment: number;
+  position: number;
+}
+
+function indexFileName(segmentNumber: number): string {
+  return `segment-${String(segmentNumber).padStart(6, '0')}.index.json`;
+}
+
+function emptySegmentIndex(segment: number): SegmentIndex {
+  return {
+    version: 1,
+    segment,
+    count: 0,
+    minTs: null,
+    maxTs: null,
+    ids: {},
+    byEvento: {},
+    byEntidade: {},
+    byEntidadeId: {},
+    byActor: {}
+  };
+}
+
+/**
+ * Leitura segura: chaves vêm de dados externos (ex: "constructor").
+ */
+function lookup<T>(map: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(map, key) ? map[key] : undefined;
+}
+
+function setOwn<T>(map: Record<string, T>, key: string, value: T): void {
+  Object.defineProperty(map, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function pushPosition(map: Record<string, number[]>, key: string, position: number): void {
+  const list = lookup(map, key);
+  if (list) {
+    list.push(position);
+  } else {
+    setOwn(map, key, [position]);
+  }
+}
+
+/**
+ * Adiciona o próximo evento do segmento ao índice.
+ */
+function addToSegmentIndex(index: SegmentIndex, entry: EventLogEntry): void {
+  const position = index.count;
+  const ts = new Date(entry.timestamp).getTime();
+
+  setOwn(index.ids, entry.id, position);
+  pushPosition(index.byEvento, entry.evento, position);
+  pushPosition(index.byEntidade, entry.entidade, position);
+  pushPosition(index.byActor, entry.actor, position);
+
+  let porId = lookup(index.byEntidadeId, entry.entidade);
+  if (!porId) {
+    porId = {};
+    setOwn(index.byEntidadeId, entry.entidade, porId);
+  }
+  pushPosition(porId, entry.entidade_id, position);
+
+  index.minTs = index.minTs === null ? ts : Math.min(index.minTs, ts);
+  index.maxTs = index.maxTs === null ? ts : Math.max(index.maxTs, ts);
+  index.count++;
+}
+
+function buildSegmentIndex(segment: number, entries: EventLogEntry[]): SegmentIndex {
+  const index = emptySegmentIndex(segment);
+  for (const entry of entries) {
+    addToSegmentIndex(index, entry);
+  }
+  return index;
+}
+
+function isValidSegmentIndex(raw: any, segment: number): raw is SegmentIndex {
+  return !!raw &&
+    raw.version === 1 &&
+    raw.segment === segment &&
+    typeof raw.count === 'number' &&
+    typeof raw.ids === 'object' &&
+    typeof raw.byEvento === 'object' &&
+    typeof raw.byEntidade === 'object' &&
+    typeof raw.byEntidadeId === 'object' &&
+    typeof raw.byActor === 'object';
+}
+
+/**
+ * Interseção de listas ordenadas de posições.
+ */
+function intersectSorted(lists: number[][]): number[] {
+  if (lists.length === 0) return [];
+  const [smallest, ...rest] = [...lists].sort((a, b) => a.length - b.length);
+  const sets = rest.map(list => new Set(list));
+  return smallest.filter(p => sets.every(s => s.has(p)));
+}
+
+/**
+ * Indica se o intervalo de timestamps do segmento pode conter eventos
+ * do intervalo pedido.
+ */
+function segmentOverlapsRange(index: SegmentIndex, query: EventLogQuery): boolean {
+  if (index.count === 0 || index.minTs === null || index.maxTs === null) return false;
+  if (query.fromTs && index.maxTs < query.fromTs.getTime()) return false;
+  if (query.toTs && index.minTs > query.toTs.getTime()) return false;
+  return true;
+}
+
+/**
+ * Indica se todos os eventos do segmento estão no intervalo pedido.
+ */
+function segmentWithinRange(index: SegmentIndex, query: EventLogQuery): boolean {
+  if (index.minTs === null || index.maxTs === null) return false;
+  if (query.fromTs && index.minTs < query.fromTs.getTime()) return false;
+  if (query.toTs && index.maxTs > query.toTs.getTime()) return false;
+  return true;
+}
+
+/**
+ * Posições candidatas do segmento para os filtros por igualdade.
+ * Retorna null quando não há filtro (todas as posições).
+ * O filtro de timestamp é aplicado sobre os eventos carregados.
+ */
+function candidatePositions(index: SegmentIndex, query: EventLogQuery): number[] | null {
+  const lists: number[][] = [];
+
+  if (query.evento !== undefined) {
+    lists.push(lookup(index.byEvento, query.evento) ?? []);
+  }
+  if (query.actor !== undefined) {
+    lists.push(lookup(index.byActor, query.actor) ?? []);
+  }
+  if (query.entidade !== undefined) {
+    if (query.entidadeId !== undefined) {
+      const porId = lookup(index.byEntidadeId, query.entidade);
+      lists.push((porId && lookup(porId, query.entidadeId)) ?? []);
+    } else {
+      lists.push(lookup(index.byEntidade, query.entidade) ?? []);
+    }
+  } else if (query.entidadeId !== undefined) {
+    const merged: number[] = [];
+    for (const entidade of Object.keys(index.byEntidadeId)) {
+      merged.push(...(lookup(index.byEntidadeId[entidade], query.entidadeId) ?? []));
+    }
+    lists.push(merged.sort((a, b) => a - b));
+  }
+
+  return lists.length === 0 ? null : intersectSorted(lists);
+}
+
+function matchesQuery(entry: EventLogEntry, query: EventLogQuery): boolean {
+  if (query.evento !== undefined && entry.evento !== query.evento) return false;
+  if (query.entidade !== undefined && entry.entidade !== query.entidade) return false;
+  if (query.entidadeId !== undefined && entry.entidade_id !== query.entidadeId) return false;
+  if (query.actor !== undefined && entry.actor !== query.actor) return false;
+  if (query.fromTs && entry.timestamp < query.fromTs) return false;
+  if (query.toTs && entry.timestamp > query.toTs) return false;
+  return true;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// CURSOR
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Cursor opaco: posição do último evento entregue.
+ */
+function encodeEventLogCursor(pos: EventLogPosition): string {
+  return Buffer.from(`${pos.segment}:${pos.position}`, 'utf-8').toString('base64url');
+}
+
+/**
+ * @throws EventLogCursorError
+ */
+function decodeEventLogCursor(cursor: string): EventLogPosition {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf-8');
+  const match = decoded.match(/^(\d{1,9}):(\d{1,9})$/);
+  if (!match) {
+    throw new EventLogCursorError(cursor);
+  }
+  return { segment: parseInt(match[1], 10), position: parseInt(match[2], 10) };
+}
+
+export {
+  SegmentIndex,
+  EventLogPosition,
+  EventLogCursorError,
+  indexFileName,
+  emptySegmentIndex,
+  addToSegmentIndex,
+  buildSegmentIndex,
+  isValidSegmentIndex,
+  segmentOverlapsRange,
+  segmentWithinRange,
+  candidatePositions,
+  matchesQuery,
+  encodeEventLogCursor,
+  decodeEventLogCursor
+};
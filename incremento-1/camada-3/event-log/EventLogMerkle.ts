@@ -0,0 +1,255 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 33: RAÍZES DE MERKLE POR SEGMENTO
+// ════════════════════════════════════════════════════════════════════════
+
+import { sha256, computeEventHash } from '../utilitarios/HashUtil';
+import { EventLogEntry } from './EventLogEntry';
+
+/**
+ * Raiz de Merkle de um segmento fechado.
+ * Gravada na rotação em event-log-merkle/segment-NNNNNN.merkle.json
+ * (fora de event-log/, onde todo segment-*.json é um segmento).
+ */
+interface SegmentMerkleRoot {
+  version: 1;
+  segment: number;
+  /** Número de folhas (eventos do segmento) */
+  count: number;
+  root: string;
+  first_event_id: string | null;
+  last_event_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Passo da prova: hash irmão e o lado em que ele fica.
+ */
+interface MerkleProofStep {
+  side: 'left' | 'right';
+  hash: string;
+}
+
+/**
+ * Prova de inclusão de um evento na raiz do seu segmento.
+ * Autocontida: o evento vai junto para que o verificador recalcule
+ * current_hash sem acesso ao log.
+ */
+interface EventInclusionProof {
+  version: 1;
+  segment: number;
+  index: number;
+  leaf_count: number;
+  /** false: segmento ainda aberto, a raiz muda com novos eventos */
+  sealed: boolean;
+  event: {
+    id: string;
+    timestamp: string;
+    actor: string;
+    evento: string;
+    entidade: string;
+    entidade_id: string;
+    payload_hash: string;
+    previous_hash: string | null;
+    current_hash: string;
+  };
+  leaf_hash: string;
+  root: string;
+  path: MerkleProofStep[];
+}
+
+interface InclusionProofVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+function merkleRootFileName(segmentNumber: number): string {
+  return `segment-${String(segmentNumber).padStart(6, '0')}.merkle.json`;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// ÁRVORE
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Folha e nó interno têm prefixos distintos: um nó interno não pode
+ * ser apresentado como folha.
+ */
+function merkleLeafHash(eventHash: string): string {
+  return sha256(`0|${eventHash}`);
+}
+
+function merkleNodeHash(left: string, right: string): string {
+  return sha256(`1|${left}|${right}`);
+}
+
+/**
+ * Próximo nível da árvore. Nó sem par sobe sem alteração.
+ */
+function nextLevel(level: string[]): string[] {
+  const next: string[] = [];
+  for (let i = 0; i < level.length; i += 2) {
+    next.push(i + 1 < level.length ? merkleNodeHash(level[i], level[i + 1]) : level[i]);
+  }
+  return next;
+}
+
+/**
+ * Raiz das folhas. Árvore vazia: SHA-256 da string vazia.
+ */
+function computeMerkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) return sha256('');
+
+  let level = leaves;
+  while (level.length > 1) {
+    level = nextLevel(level);
+  }
+  return level[0];
+}
+
+function buildMerklePath(leaves: string[], index: number): MerkleProofStep[] {
+  const steps: MerkleProofStep[] = [];
+  let level = leaves;
+  let position = index;
+
+  while (level.length > 1) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) {
+      steps.push({ side: position % 2 === 0 ? 'right' : 'left', hash: level[sibling] });
+    }
+    level = nextLevel(level);
+    position = Math.floor(position / 2);
+  }
+
+  return steps;
+}
+
+function rootFromPath(leafHash: string, steps: MerkleProofStep[]): string {
+  return steps.reduce(
+    (acc, step) => step.side === 'left' ? merkleNodeHash(step.hash, acc) : merkleNodeHash(acc, step.hash),
+    leafHash
+  );
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// SEGMENTO E PROVA
+// ════════════════════════════════════════════════════════════════════════
+
+function segmentLeaves(entries: EventLogEntry[]): string[] {
+  return entries.map(e => merkleLeafHash(e.current_hash));
+}
+
+function buildSegmentMerkleRoot(segment: number, entries: EventLogEntry[]): SegmentMerkleRoot {
+  return {
+    version: 1,
+    segment,
+    count: entries.length,
+    root: computeMerkleRoot(segmentLeaves(entries)),
+    first_event_id: entries.length > 0 ? entries[0].id : null,
+    last_event_id: entries.length > 0 ? entries[entries.length - 1].id : null,
+    created_at: new Date().toISOString()
+  };
+}
+
+function isValidSegmentMerkleRoot(raw: any, segment: number): raw is SegmentMerkleRoot {
+  return !!raw &&
+    raw.version === 1 &&
+    raw.segment === segment &&
+    typeof raw.count === 'number' &&
+    typeof raw.root === 'string';
+}
+
+/**
+ * Prova de inclusão do evento na posição `index` do segmento.
+ * `root` é a raiz publicada do segmento (se houver); o caminho é
+ * sempre calculado a partir dos eventos atuais.
+ */
+function buildInclusionProof(
+  segment: number,
+  entries: EventLogEntry[],
+  index: number,
+  sealed: boolean,
+  publishedRoot?: string
+): EventInclusionProof {
+  const leaves = segmentLeaves(entries);
+  const entry = entries[index];
+
+  return {
+    version: 1,
+    segment,
+    index,
+    leaf_count: leaves.length,
+    sealed,
+    event: {
+      id: entry.id,
+      timestamp: entry.timestamp.toISOString(),
+      actor: entry.actor,
+      evento: entry.evento,
+      entidade: entry.entidade,
+      entidade_id: entry.entidade_id,
+      payload_hash: entry.payload_hash,
+      previous_hash: entry.previous_hash,
+      current_hash: entry.current_hash
+    },
+    leaf_hash: leaves[index],
+    root: publishedRoot ?? computeMerkleRoot(leaves),
+    path: buildMerklePath(leaves, index)
+  };
+}
+
+/**
+ * Verifica uma prova de inclusão sem acesso ao log.
+ *
+ * Recalcula current_hash a partir dos campos do evento, a folha e a
+ * raiz. Com `expectedRoot` (raiz publicada obtida por outro canal), a
+ * raiz da prova precisa ser igual a ela.
+ */
+function verifyInclusionProof(
+  proof: EventInclusionProof,
+  expectedRoot?: string
+): InclusionProofVerification {
+  const { event } = proof;
+
+  const eventHash = computeEventHash(
+    event.previous_hash,
+    new Date(event.timestamp),
+    event.actor,
+    event.evento,
+    event.entidade,
+    event.entidade_id,
+    event.payload_hash
+  );
+  if (eventHash !== event.current_hash) {
+    return { valid: false, reason: 'Event hash mismatch' };
+  }
+
+  if (merkleLeafHash(event.current_hash) !== proof.leaf_hash) {
+    return { valid: false, reason: 'Leaf hash mismatch' };
+  }
+
+  if (rootFromPath(proof.leaf_hash, proof.path) !== proof.root) {
+    return { valid: false, reason: 'Path does not lead to root' };
+  }
+
+  if (expectedRoot !== undefined && proof.root !== expectedRoot) {
+    return { valid: false, reason: 'Root does not match published root' };
+  }
+
+  return { valid: true };
+}
+
+export {
+  SegmentMerkleRoot,
+  MerkleProofStep,
+  EventInclusionProof,
+  InclusionProofVerification,
+  merkleRootFileName,
+  merkleLeafHash,
+  merkleNodeHash,
+  computeMerkleRoot,
+  buildMerklePath,
+  rootFromPath,
+  buildSegmentMerkleRoot,
+  isValidSegmentMerkleRoot,
+  buildInclusionProof,
+  verifyInclusionProof
+};
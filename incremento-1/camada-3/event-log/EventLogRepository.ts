@@ -3,6 +3,13 @@
 // ════════════════════════════════════════════════════════════════════════
 
 import { ActorId, EventLogEntry, ChainVerificationResult } from './EventLogEntry';
+import {
+  SignedEventLogCheckpoint,
+  CheckpointVerificationResult,
+  EventLogWitnessBundle
+} from './EventLogCheckpoint';
+import { SegmentMerkleRoot, EventInclusionProof } from './EventLogMerkle';
+import { DecodedEventPayload } from './EventLogEnvelope';
 
 // ════════════════════════════════════════════════════════════════════════
 // INCREMENTO 4.3: TIPOS PARA AUDITORIA OPERACIONAL
@@ -42,6 +49,8 @@ interface ExportManifest {
 interface ExportRangeResult {
   entries: EventLogEntry[];
   manifest: ExportManifest;
+  /** INCREMENTO 34: Envelopes decodificados, por id do evento */
+  payloads: Record<string, DecodedEventPayload>;
 }
 
 /**
@@ -80,8 +89,62 @@ interface ReplayResult {
   range: { firstTs: string | null; lastTs: string | null };
   inconsistencias: ReplayInconsistency[];
   truncated: boolean;
+  /** INCREMENTO 34: Envelopes por tipo e versão (ex: "AUTONOMY_SUSPENDED@v1") */
+  porVersao: Record<string, number>;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 31: LEITURA INDEXADA E STREAMING
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Filtros de consulta ao EventLog (combinados com AND).
+ */
+interface EventLogQuery {
+  evento?: string;
+  entidade?: string;
+  entidadeId?: string;
+  actor?: string;
+  /** Timestamp inicial (inclusivo) */
+  fromTs?: Date;
+  /** Timestamp final (inclusivo) */
+  toTs?: Date;
+}
+
+/**
+ * Opções de iteração.
+ */
+interface EventLogIterateOptions extends EventLogQuery {
+  /** 'asc' (padrão): mais antigo primeiro; 'desc': mais recente primeiro */
+  direction?: 'asc' | 'desc';
+  /** Continuar após o evento identificado pelo cursor */
+  after?: string;
+}
+
+/**
+ * Opções de consulta paginada.
+ */
+interface EventLogPageOptions extends EventLogIterateOptions {
+  limit: number;
 }
 
+/**
+ * Página de eventos. `nextCursor` é null quando não há mais eventos.
+ */
+interface EventLogPage {
+  entries: EventLogEntry[];
+  nextCursor: string | null;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 36: ASSINATURA DE NOVOS EVENTOS
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Recebe cada evento gravado, depois de persistido.
+ */
+type EventLogListener = (entry: EventLogEntry) => void;
+
 /**
  * EventLogRepository - Interface para o repositório de eventos encadeados.
  *
@@ -159,6 +222,7 @@ interface EventLogRepository {
    * Verifica a integridade da cadeia de hashes.
    * Recalcula hashes em sequência e para na primeira quebra.
    * NUNCA corrige automaticamente.
+   * Com checkpoints assinados, informa também se a cadeia confere com eles.
    */
   verifyChain(): Promise<ChainVerificationResult>;
 
@@ -186,6 +250,97 @@ interface EventLogRepository {
    */
   verifyFromSnapshot(): Promise<ChainVerificationResult>;
 
+  // ══════════════════════════════════════════════════════════════════════
+  // INCREMENTO 31: LEITURA INDEXADA E STREAMING
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Percorre os eventos que atendem aos filtros, um segmento por vez.
+   * Segmentos sem candidatos no índice não são lidos.
+   *
+   * @throws EventLogCursorError se `after` for inválido
+   */
+  iterate(options?: EventLogIterateOptions): AsyncIterableIterator<EventLogEntry>;
+
+  /**
+   * Consulta paginada por cursor.
+   *
+   * @throws EventLogCursorError se `after` for inválido
+   */
+  query(options: EventLogPageOptions): Promise<EventLogPage>;
+
+  /**
+   * Conta os eventos que atendem aos filtros.
+   * Sem filtro de timestamp, usa apenas os índices.
+   */
+  countWhere(query?: EventLogQuery): Promise<number>;
+
+  // ══════════════════════════════════════════════════════════════════════
+  // INCREMENTO 32: CHECKPOINTS ASSINADOS
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Assina e grava um checkpoint do último evento.
+   *
+   * @throws Error se não há chave de assinatura configurada ou o log está vazio
+   */
+  createCheckpoint(): Promise<SignedEventLogCheckpoint>;
+
+  /**
+   * Checkpoints gravados, em ordem.
+   */
+  getCheckpoints(): Promise<SignedEventLogCheckpoint[]>;
+
+  /**
+   * Compara a cadeia atual com checkpoints assinados.
+   * Sem argumento, usa o arquivo de checkpoints local.
+   */
+  verifyCheckpoints(checkpoints?: SignedEventLogCheckpoint[]): Promise<CheckpointVerificationResult>;
+
+  /**
+   * Pacote de checkpoints + chaves públicas para testemunhas externas.
+   */
+  exportWitnessBundle(): Promise<EventLogWitnessBundle>;
+
+  // ══════════════════════════════════════════════════════════════════════
+  // INCREMENTO 33: PROVAS DE INCLUSÃO (MERKLE)
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Raiz de Merkle publicada de um segmento fechado.
+   * null para o segmento atual ou inexistente.
+   */
+  getSegmentRoot(segment: number): Promise<SegmentMerkleRoot | null>;
+
+  /**
+   * Raízes de todos os segmentos fechados.
+   */
+  listSegmentRoots(): Promise<SegmentMerkleRoot[]>;
+
+  /**
+   * Prova de inclusão de um evento na raiz do seu segmento.
+   * null se o evento não existe.
+   */
+  getInclusionProof(eventId: string): Promise<EventInclusionProof | null>;
+
+  // ══════════════════════════════════════════════════════════════════════
+  // INCREMENTO 36: ASSINATURA DE NOVOS EVENTOS
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Registra um listener chamado a cada evento gravado (append/appendRaw).
+   * Erros do listener são ignorados: o log observa, não governa.
+   *
+   * @returns Função que cancela a assinatura
+   */
+  subscribe(listener: EventLogListener): () => void;
+
+  /**
+   * Cursor posicionado no evento (para iterate/query com `after`).
+   * null se o evento não existe.
+   */
+  cursorFor(eventId: string): Promise<string | null>;
+
   // UPDATE é PROIBIDO - método não existe
   // DELETE é PROIBIDO - método não existe
 }
@@ -197,5 +352,10 @@ export {
   ExportRangeResult,
   ReplayOptions,
   ReplayInconsistency,
-  ReplayResult
+  ReplayResult,
+  EventLogQuery,
+  EventLogIterateOptions,
+  EventLogPageOptions,
+  EventLogPage,
+  EventLogListener
 };
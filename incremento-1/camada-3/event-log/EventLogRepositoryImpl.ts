@@ -8,9 +8,52 @@ import {
   ExportManifest,
   ReplayOptions,
   ReplayResult,
-  ReplayInconsistency
+  ReplayInconsistency,
+  EventLogQuery,
+  EventLogIterateOptions,
+  EventLogPageOptions,
+  EventLogPage,
+  EventLogListener
 } from './EventLogRepository';
 import { ActorId, EventLogEntry, ChainVerificationResult } from './EventLogEntry';
+import {
+  SegmentIndex,
+  EventLogPosition,
+  indexFileName,
+  emptySegmentIndex,
+  addToSegmentIndex,
+  buildSegmentIndex,
+  isValidSegmentIndex,
+  segmentOverlapsRange,
+  segmentWithinRange,
+  candidatePositions,
+  matchesQuery,
+  encodeEventLogCursor,
+  decodeEventLogCursor
+} from './EventLogIndex';
+import {
+  EventLogCheckpointData,
+  SignedEventLogCheckpoint,
+  CheckpointSigningKey,
+  CheckpointPublicKeys,
+  CheckpointVerificationResult,
+  EventLogWitnessBundle,
+  EventLogCheckpointStore,
+  loadCheckpointSigningKeyFromEnv,
+  resolveCheckpointPublicKeys,
+  exportPublicKey,
+  signCheckpoint,
+  verifyCheckpointSignature
+} from './EventLogCheckpoint';
+import {
+  SegmentMerkleRoot,
+  EventInclusionProof,
+  merkleRootFileName,
+  buildSegmentMerkleRoot,
+  isValidSegmentMerkleRoot,
+  buildInclusionProof
+} from './EventLogMerkle';
+import { DecodedEventPayload, encodeEventPayload, decodeEventPayload } from './EventLogEnvelope';
 
 // ════════════════════════════════════════════════════════════════════════
 // INCREMENTO 4.2: CONFIGURAÇÃO
@@ -23,6 +66,13 @@ interface EventLogConfig {
   snapshotEvery: number;
   /** Número de segmentos a manter (retenção) */
   retentionSegments: number;
+  /**
+   * INCREMENTO 32: Chave para assinar checkpoints.
+   * undefined = ler do ambiente (LIBERVIA_SIGNING_KEY); null = desabilitado.
+   */
+  checkpointKey?: CheckpointSigningKey | null;
+  /** INCREMENTO 32: Chaves públicas adicionais aceitas na verificação */
+  checkpointPublicKeys?: CheckpointPublicKeys;
 }
 
 const DEFAULT_CONFIG: EventLogConfig = {
@@ -105,6 +155,10 @@ function parseSegmentNumber(fileName: string): number | null {
   return match ? parseInt(match[1], 10) : null;
 }
 
+function allPositions(index: SegmentIndex): number[] {
+  return Array.from({ length: index.count }, (_, i) => i);
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // ESCRITA ATÔMICA
 // ════════════════════════════════════════════════════════════════════════
@@ -134,6 +188,8 @@ async function readJsonSafe<T>(filePath: string): Promise<T | null> {
 class EventLogRepositoryImpl implements EventLogRepository {
   private dataDir: string;
   private segmentDir: string;
+  private indexDir: string;
+  private merkleDir: string;
   private snapshotPath: string;
   private legacyPath: string;
   private legacyBackupPath: string;
@@ -153,13 +209,31 @@ class EventLogRepositoryImpl implements EventLogRepository {
   // AVISO: Em produção com muitos eventos, isso pode consumir memória
   private allEntriesCache: EventLogEntry[] | null = null;
 
+  // INCREMENTO 31: Índices por segmento
+  // O índice do segmento atual é mantido em memória e gravado na rotação;
+  // os dos segmentos fechados são lidos (ou reconstruídos) sob demanda.
+  private currentIndex: SegmentIndex = emptySegmentIndex(1);
+  private sealedIndexes: Map<number, SegmentIndex> = new Map();
+
+  // INCREMENTO 32: Checkpoints assinados
+  private checkpointStore: EventLogCheckpointStore;
+  private signingKey: CheckpointSigningKey | null = null;
+  private publicKeys: CheckpointPublicKeys = {};
+  private lastCheckpoint: SignedEventLogCheckpoint | null = null;
+
+  // INCREMENTO 36: Assinantes de novos eventos
+  private listeners: Set<EventLogListener> = new Set();
+
   constructor(dataDir: string = './data', config: Partial<EventLogConfig> = {}) {
     this.dataDir = dataDir;
     this.segmentDir = path.join(dataDir, 'event-log');
+    this.indexDir = path.join(dataDir, 'event-log-index');
+    this.merkleDir = path.join(dataDir, 'event-log-merkle');
     this.snapshotPath = path.join(dataDir, 'event-log-snapshot.json');
     this.legacyPath = path.join(dataDir, 'event-log.json');
     this.legacyBackupPath = path.join(dataDir, 'event-log.legacy.json');
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.checkpointStore = EventLogCheckpointStore.forDataDir(dataDir);
   }
 
   static async create(
@@ -181,6 +255,18 @@ class EventLogRepositoryImpl implements EventLogRepository {
     // 3. Determinar segmento atual e carregar
     await this.loadCurrentState();
 
+    // 4. Índice do segmento atual (segmentos fechados: sob demanda)
+    this.sealedIndexes.clear();
+    this.currentIndex = buildSegmentIndex(this.currentSegment, this.currentSegmentEntries);
+
+    // 5. Chaves e último checkpoint
+    this.signingKey = this.config.checkpointKey === undefined
+      ? loadCheckpointSigningKeyFromEnv()
+      : this.config.checkpointKey;
+    this.publicKeys = resolveCheckpointPublicKeys(this.signingKey, this.config.checkpointPublicKeys);
+    const checkpoints = await this.checkpointStore.list();
+    this.lastCheckpoint = checkpoints.length > 0 ? checkpoints[checkpoints.length - 1] : null;
+
     this.initialized = true;
   }
 
@@ -431,6 +517,11 @@ class EventLogRepositoryImpl implements EventLogRepository {
     };
     await atomicWriteJson(this.snapshotPath, this.snapshot);
     this.eventsSinceSnapshot = 0;
+
+    // INCREMENTO 32: Checkpoint assinado junto com o snapshot
+    if (this.signingKey && this.lastCheckpoint?.data.last_event_id !== lastEntry.id) {
+      await this.writeCheckpoint(this.signingKey, this.currentSegment, this.snapshot.last_index_in_segment, lastEntry);
+    }
   }
 
   private async rotateSegment(): Promise<void> {
@@ -438,9 +529,17 @@ class EventLogRepositoryImpl implements EventLogRepository {
     // Atualizar snapshot antes de rotacionar
     await this.updateSnapshot();
 
+    // INCREMENTO 31: Gravar índice do segmento fechado
+    this.sealedIndexes.set(this.currentSegment, this.currentIndex);
+    await this.persistSegmentIndex(this.currentIndex);
+
+    // INCREMENTO 33: Publicar raiz de Merkle do segmento fechado
+    await this.persistSegmentRoot(buildSegmentMerkleRoot(this.currentSegment, this.currentSegmentEntries));
+
     // Criar novo segmento
     this.currentSegment++;
     this.currentSegmentEntries = [];
+    this.currentIndex = emptySegmentIndex(this.currentSegment);
   }
 
   async append(
@@ -482,8 +581,15 @@ class EventLogRepositoryImpl implements EventLogRepository {
       current_hash: currentHash
     };
 
+    // INCREMENTO 34: Envelope versionado (fora do hash)
+    const envelope = encodeEventPayload(evento, payload);
+    if (envelope) {
+      entry.envelope = envelope;
+    }
+
     // Adicionar ao segmento atual
     this.currentSegmentEntries.push(entry);
+    addToSegmentIndex(this.currentIndex, entry);
     this.totalEvents++;
     this.lastHash = currentHash;
     this.eventsSinceSnapshot++;
@@ -502,6 +608,8 @@ class EventLogRepositoryImpl implements EventLogRepository {
       await this.updateSnapshot();
     }
 
+    this.notify(entry);
+
     return entry;
   }
 
@@ -515,6 +623,7 @@ class EventLogRepositoryImpl implements EventLogRepository {
 
     // Adicionar ao segmento atual
     this.currentSegmentEntries.push(entry);
+    addToSegmentIndex(this.currentIndex, entry);
     this.totalEvents++;
     this.lastHash = entry.current_hash;
     this.eventsSinceSnapshot++;
@@ -531,6 +640,8 @@ class EventLogRepositoryImpl implements EventLogRepository {
     } else if (this.eventsSinceSnapshot >= this.config.snapshotEvery) {
       await this.updateSnapshot();
     }
+
+    this.notify(entry);
   }
 
   async getAll(): Promise<EventLogEntry[]> {
@@ -575,24 +686,40 @@ class EventLogRepositoryImpl implements EventLogRepository {
 
   async getById(id: string): Promise<EventLogEntry | null> {
     this.checkInitialized();
-    const all = await this.getAll();
-    const entry = all.find(e => e.id === id);
-    return entry || null;
+
+    // INCREMENTO 31: Localizar pelo índice e ler apenas o segmento do evento
+    const located = await this.locate(id);
+    return located ? located.entries[located.position] : null;
+  }
+
+  /**
+   * Segmento e posição de um evento pelo índice.
+   */
+  private async locate(
+    id: string
+  ): Promise<{ segment: number; position: number; entries: EventLogEntry[] } | null> {
+    const segmentNumbers = await this.listSegmentNumbers();
+    const lastSegment = segmentNumbers[segmentNumbers.length - 1];
+
+    for (const segNum of segmentNumbers) {
+      const index = await this.getSegmentIndex(segNum, lastSegment);
+      if (!Object.prototype.hasOwnProperty.call(index.ids, id)) continue;
+
+      const entries = await this.loadSegment(segNum);
+      const position = index.ids[id];
+      const entry = entries[position];
+      if (entry && entry.id === id) return { segment: segNum, position, entries };
+    }
+
+    return null;
   }
 
   async getByEvento(evento: string): Promise<EventLogEntry[]> {
-    this.checkInitialized();
-    const all = await this.getAll();
-    return all.filter(e => e.evento === evento);
+    return this.collect({ evento });
   }
 
   async getByEntidade(entidade: string, entidadeId?: string): Promise<EventLogEntry[]> {
-    this.checkInitialized();
-    const all = await this.getAll();
-    return all.filter(e =>
-      e.entidade === entidade &&
-      (entidadeId === undefined || e.entidade_id === entidadeId)
-    );
+    return this.collect({ entidade, entidadeId });
   }
 
   async getLastEntry(): Promise<EventLogEntry | null> {
@@ -627,7 +754,7 @@ class EventLogRepositoryImpl implements EventLogRepository {
     this.checkInitialized();
 
     if (this.totalEvents === 0) {
-      return { valid: true, totalVerified: 0 };
+      return this.withCheckpoints({ valid: true, totalVerified: 0 });
     }
 
     // Fast verify: começar do snapshot se disponível
@@ -642,11 +769,11 @@ class EventLogRepositoryImpl implements EventLogRepository {
     this.checkInitialized();
 
     if (this.totalEvents === 0) {
-      return { valid: true, totalVerified: 0 };
+      return this.withCheckpoints({ valid: true, totalVerified: 0 });
     }
 
     const all = await this.getAll();
-    return this.verifyEntries(all, 0, true);
+    return this.withCheckpoints(this.verifyEntries(all, 0, true));
   }
 
   /**
@@ -656,7 +783,10 @@ class EventLogRepositoryImpl implements EventLogRepository {
    */
   async verifyFromSnapshot(): Promise<ChainVerificationResult> {
     this.checkInitialized();
+    return this.withCheckpoints(await this.verifyChainFromSnapshot());
+  }
 
+  private async verifyChainFromSnapshot(): Promise<ChainVerificationResult> {
     if (this.totalEvents === 0) {
       return { valid: true, totalVerified: 0 };
     }
@@ -832,6 +962,9 @@ class EventLogRepositoryImpl implements EventLogRepository {
       const segData = await readJsonSafe<any[]>(segPath);
       eventsRemoved += segData ? segData.length : 0;
       await fs.unlink(segPath).catch(() => {});
+      await fs.unlink(path.join(this.indexDir, indexFileName(segNum))).catch(() => {});
+      await fs.unlink(path.join(this.merkleDir, merkleRootFileName(segNum))).catch(() => {});
+      this.sealedIndexes.delete(segNum);
     }
 
     // Atualizar total de eventos
@@ -926,7 +1059,8 @@ class EventLogRepositoryImpl implements EventLogRepository {
     if (segmentNumbers.length === 0) {
       return {
         entries: [],
-        manifest: this.createEmptyManifest()
+        manifest: this.createEmptyManifest(),
+        payloads: {}
       };
     }
 
@@ -937,14 +1071,26 @@ class EventLogRepositoryImpl implements EventLogRepository {
     const entries: EventLogEntry[] = [];
     let isFirstGlobalEvent = true;
     let globalEventIndex = 0;
+    const lastSegment = segmentNumbers[segmentNumbers.length - 1];
 
     // Iterar segmentos em ordem
     for (const segNum of segmentNumbers) {
+      // INCREMENTO 31: Contagens e intervalo de timestamps vêm do índice
+      const index = await this.getSegmentIndex(segNum, lastSegment);
+
       if (segNum < minSeg || segNum > maxSeg) {
         // Contar eventos para saber se é genesis
         if (segNum < minSeg) {
-          const segData = await this.loadSegment(segNum);
-          globalEventIndex += segData.length;
+          globalEventIndex += index.count;
+          isFirstGlobalEvent = false;
+        }
+        continue;
+      }
+
+      // Segmento inteiro antes de fromTs ou depois de toTs: não ler
+      if (index.count > 0 && !segmentOverlapsRange(index, { fromTs, toTs })) {
+        if (fromTs && index.maxTs! < fromTs.getTime()) {
+          globalEventIndex += index.count;
           isFirstGlobalEvent = false;
         }
         continue;
@@ -991,7 +1137,14 @@ class EventLogRepositoryImpl implements EventLogRepository {
       chainValidWithinExport
     };
 
-    return { entries, manifest };
+    // INCREMENTO 34: Envelopes decodificados pela versão gravada
+    const payloads: Record<string, DecodedEventPayload> = {};
+    for (const entry of entries) {
+      const decoded = decodeEventPayload(entry);
+      if (decoded) payloads[entry.id] = decoded;
+    }
+
+    return { entries, manifest, payloads };
   }
 
   /**
@@ -1056,7 +1209,8 @@ class EventLogRepositoryImpl implements EventLogRepository {
       porAtor: {},
       range: { firstTs: null, lastTs: null },
       inconsistencias: [],
-      truncated: false
+      truncated: false,
+      porVersao: {}
     };
 
     const segmentNumbers = await this.listSegmentNumbers();
@@ -1099,6 +1253,26 @@ class EventLogRepositoryImpl implements EventLogRepository {
         result.porEntidade[entry.entidade] = (result.porEntidade[entry.entidade] || 0) + 1;
         result.porAtor[entry.actor] = (result.porAtor[entry.actor] || 0) + 1;
 
+        // INCREMENTO 34: Envelope decodificado pela versão gravada
+        const decoded = decodeEventPayload(entry);
+        if (decoded) {
+          const chave = `${decoded.evento}@v${decoded.version}`;
+          result.porVersao[chave] = (result.porVersao[chave] || 0) + 1;
+          if (!decoded.verified) {
+            result.inconsistencias.push({
+              index: globalIndex - 1,
+              id: entry.id,
+              reason: 'Envelope does not match payload_hash'
+            });
+          } else if (decoded.data === null) {
+            result.inconsistencias.push({
+              index: globalIndex - 1,
+              id: entry.id,
+              reason: `Unknown envelope version ${decoded.version}`
+            });
+          }
+        }
+
         // Atualizar range
         const tsIso = entry.timestamp.toISOString();
         if (!result.range.firstTs) {
@@ -1194,6 +1368,505 @@ class EventLogRepositoryImpl implements EventLogRepository {
     };
   }
 
+  // ══════════════════════════════════════════════════════════════════════
+  // INCREMENTO 31: LEITURA INDEXADA E STREAMING
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Percorre os eventos que atendem aos filtros, um segmento por vez.
+   * Segmentos sem candidatos no índice não são lidos.
+   */
+  async *iterate(options: EventLogIterateOptions = {}): AsyncIterableIterator<EventLogEntry> {
+    for await (const { entry } of this.scan(options)) {
+      yield entry;
+    }
+  }
+
+  /**
+   * Consulta paginada por cursor.
+   * O cursor aponta para o último evento da página.
+   */
+  async query(options: EventLogPageOptions): Promise<EventLogPage> {
+    const limit = Math.max(0, Math.floor(options.limit));
+    const entries: EventLogEntry[] = [];
+    let last: EventLogPosition | null = null;
+    let hasMore = false;
+
+    for await (const { entry, position } of this.scan(options)) {
+      if (entries.length >= limit) {
+        hasMore = true;
+        break;
+      }
+      entries.push(entry);
+      last = position;
+    }
+
+    return {
+      entries,
+      nextCursor: hasMore && last ? encodeEventLogCursor(last) : null
+    };
+  }
+
+  /**
+   * Conta os eventos que atendem aos filtros.
+   * Só lê segmentos que cruzam os limites do intervalo de timestamps.
+   */
+  async countWhere(query: EventLogQuery = {}): Promise<number> {
+    this.checkInitialized();
+
+    const hasRange = !!(query.fromTs || query.toTs);
+    const segmentNumbers = await this.listSegmentNumbers();
+    const lastSegment = segmentNumbers[segmentNumbers.length - 1];
+    let total = 0;
+
+    for (const segNum of segmentNumbers) {
+      const index = await this.getSegmentIndex(segNum, lastSegment);
+      if (hasRange && !segmentOverlapsRange(index, query)) continue;
+
+      const positions = candidatePositions(index, query);
+
+      if (!hasRange || segmentWithinRange(index, query)) {
+        total += positions ? positions.length : index.count;
+        continue;
+      }
+
+      const entries = await this.loadSegment(segNum);
+      for (const p of positions ?? allPositions(index)) {
+        if (entries[p] && matchesQuery(entries[p], query)) total++;
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * Eventos com a posição de cada um (base de iterate() e query()).
+   */
+  private async *scan(
+    options: EventLogIterateOptions
+  ): AsyncGenerator<{ entry: EventLogEntry; position: EventLogPosition }> {
+    this.checkInitialized();
+
+    const after = options.after !== undefined ? decodeEventLogCursor(options.after) : null;
+    const desc = options.direction === 'desc';
+    const hasRange = !!(options.fromTs || options.toTs);
+
+    const segmentNumbers = await this.listSegmentNumbers();
+    const lastSegment = segmentNumbers[segmentNumbers.length - 1];
+    if (desc) segmentNumbers.reverse();
+
+    for (const segNum of segmentNumbers) {
+      if (after && (desc ? segNum > after.segment : segNum < after.segment)) continue;
+
+      const index = await this.getSegmentIndex(segNum, lastSegment);
+      if (hasRange && !segmentOverlapsRange(index, options)) continue;
+
+      let positions = candidatePositions(index, options) ?? allPositions(index);
+      if (after && segNum === after.segment) {
+        positions = positions.filter(p => desc ? p < after.position : p > after.position);
+      }
+      if (positions.length === 0) continue;
+      if (desc) positions = [...positions].reverse();
+
+      const entries = await this.loadSegment(segNum);
+      for (const p of positions) {
+        const entry = entries[p];
+        if (entry && matchesQuery(entry, options)) {
+          yield { entry, position: { segment: segNum, position: p } };
+        }
+      }
+    }
+  }
+
+  private async collect(query: EventLogQuery): Promise<EventLogEntry[]> {
+    const entries: EventLogEntry[] = [];
+    for await (const entry of this.iterate(query)) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  /**
+   * Índice de um segmento.
+   *
+   * Segmento atual: índice em memória. Segmento fechado: cache, arquivo
+   * em event-log-index/ ou reconstrução a partir do segmento. O índice
+   * reconstruído só é gravado se já existe um segmento posterior (o
+   * segmento não recebe mais eventos).
+   */
+  private async getSegmentIndex(segNum: number, lastSegmentOnDisk: number): Promise<SegmentIndex> {
+    if (segNum === this.currentSegment) {
+      return this.currentIndex;
+    }
+
+    const cached = this.sealedIndexes.get(segNum);
+    if (cached) return cached;
+
+    let index: SegmentIndex | null = null;
+    try {
+      const raw = await readJsonSafe<any>(path.join(this.indexDir, indexFileName(segNum)));
+      if (isValidSegmentIndex(raw, segNum)) index = raw;
+    } catch {
+      // Índice ilegível: reconstruir
+    }
+
+    if (!index) {
+      index = buildSegmentIndex(segNum, await this.loadSegment(segNum));
+      if (segNum < lastSegmentOnDisk) {
+        await this.persistSegmentIndex(index);
+      }
+    }
+
+    this.sealedIndexes.set(segNum, index);
+    return index;
+  }
+
+  /**
+   * Grava o índice de um segmento. Falha não é propagada: o índice é
+   * derivado e será reconstruído na próxima leitura.
+   */
+  private async persistSegmentIndex(index: SegmentIndex): Promise<void> {
+    try {
+      await atomicWriteJson(path.join(this.indexDir, indexFileName(index.segment)), index);
+    } catch {
+      // Ignorado: reconstrução sob demanda
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // INCREMENTO 32: CHECKPOINTS ASSINADOS
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Assina e grava um checkpoint do último evento.
+   * Se o último checkpoint já cobre o último evento, ele é retornado.
+   *
+   * @throws Error se não há chave de assinatura ou o log está vazio
+   */
+  async createCheckpoint(): Promise<SignedEventLogCheckpoint> {
+    this.checkInitialized();
+
+    if (!this.signingKey) {
+      throw new Error('Chave de assinatura de checkpoints não configurada');
+    }
+
+    const head = await this.headPosition();
+    if (!head) {
+      throw new Error('EventLog vazio: nada a registrar em checkpoint');
+    }
+
+    if (this.lastCheckpoint && this.lastCheckpoint.data.last_event_id === head.entry.id) {
+      return this.lastCheckpoint;
+    }
+
+    return this.writeCheckpoint(this.signingKey, head.segment, head.index, head.entry);
+  }
+
+  async getCheckpoints(): Promise<SignedEventLogCheckpoint[]> {
+    this.checkInitialized();
+    return this.checkpointStore.list();
+  }
+
+  /**
+   * Compara a cadeia atual com checkpoints assinados.
+   *
+   * Cada checkpoint precisa de assinatura válida, sequência contínua e
+   * do mesmo evento (id + hash) na posição registrada. A contagem só é
+   * conferida quando o log ainda começa no segmento 1. Checkpoints de
+   * segmentos removidos pela retenção são contados em `pruned`.
+   */
+  async verifyCheckpoints(checkpoints?: SignedEventLogCheckpoint[]): Promise<CheckpointVerificationResult> {
+    this.checkInitialized();
+
+    const list = checkpoints ?? await this.checkpointStore.list();
+    const result: CheckpointVerificationResult = {
+      valid: true,
+      total: list.length,
+      matched: 0,
+      pruned: 0,
+      signaturesVerified: true,
+      failures: []
+    };
+
+    const segments = await this.listSegmentNumbers();
+    const firstSegment = segments.length > 0 ? segments[0] : null;
+    const lastSegmentOnDisk = segments.length > 0 ? segments[segments.length - 1] : 0;
+
+    let previousSequence: number | null = null;
+    let loadedSegment = -1;
+    let loadedEntries: EventLogEntry[] = [];
+
+    for (const checkpoint of list) {
+      const { data } = checkpoint;
+      const fail = (reason: string) => result.failures.push({ sequence: data.sequence, reason });
+
+      const expectedSequence: number | null = previousSequence === null ? null : previousSequence + 1;
+      previousSequence = data.sequence;
+
+      const signatureValid = verifyCheckpointSignature(checkpoint, this.publicKeys);
+      if (signatureValid === false) {
+        fail('Invalid signature');
+        continue;
+      }
+      if (signatureValid === null) {
+        result.signaturesVerified = false;
+      }
+
+      if (expectedSequence !== null && data.sequence !== expectedSequence) {
+        fail(`Sequence gap: expected ${expectedSequence}`);
+        continue;
+      }
+
+      if (firstSegment !== null && data.segment < firstSegment) {
+        result.pruned++;
+        continue;
+      }
+
+      if (data.segment !== loadedSegment) {
+        loadedEntries = await this.loadSegment(data.segment);
+        loadedSegment = data.segment;
+      }
+
+      const entry = loadedEntries[data.index_in_segment];
+      if (!entry) {
+        fail(`Event ${data.last_event_id} not found (log truncated)`);
+        continue;
+      }
+
+      if (entry.id !== data.last_event_id || entry.current_hash !== data.last_hash) {
+        fail(`Event mismatch at segment ${data.segment}, index ${data.index_in_segment}`);
+        continue;
+      }
+
+      if (firstSegment === 1) {
+        let count = data.index_in_segment + 1;
+        for (const segNum of segments) {
+          if (segNum >= data.segment) break;
+          count += (await this.getSegmentIndex(segNum, lastSegmentOnDisk)).count;
+        }
+        if (count !== data.count) {
+          fail(`Event count mismatch: expected ${data.count}, found ${count}`);
+          continue;
+        }
+      }
+
+      result.matched++;
+    }
+
+    result.valid = result.failures.length === 0;
+    return result;
+  }
+
+  /**
+   * Pacote para testemunhas externas: checkpoints, chaves públicas
+   * conhecidas e o estado atual do log.
+   */
+  async exportWitnessBundle(): Promise<EventLogWitnessBundle> {
+    this.checkInitialized();
+
+    const head = await this.headPosition();
+
+    return {
+      version: 1,
+      generated_at: new Date().toISOString(),
+      public_keys: Object.entries(this.publicKeys).map(([keyId, key]) => ({
+        keyId,
+        publicKey: exportPublicKey(key)
+      })),
+      head: {
+        count: this.totalEvents,
+        last_event_id: head ? head.entry.id : null,
+        last_hash: head ? head.entry.current_hash : null
+      },
+      checkpoints: await this.checkpointStore.list()
+    };
+  }
+
+  /**
+   * Anexa o resultado dos checkpoints à verificação da cadeia.
+   * Sem checkpoints gravados, o resultado não é alterado.
+   */
+  private async withCheckpoints(result: ChainVerificationResult): Promise<ChainVerificationResult> {
+    const checkpoints = await this.checkpointStore.list();
+    if (checkpoints.length === 0) return result;
+
+    const verification = await this.verifyCheckpoints(checkpoints);
+    if (verification.valid || !result.valid) {
+      return { ...result, checkpoints: verification };
+    }
+
+    const first = verification.failures[0];
+    return {
+      ...result,
+      valid: false,
+      reason: `Chain does not match signed checkpoint ${first.sequence}: ${first.reason}`,
+      checkpoints: verification
+    };
+  }
+
+  private async writeCheckpoint(
+    key: CheckpointSigningKey,
+    segment: number,
+    indexInSegment: number,
+    entry: EventLogEntry
+  ): Promise<SignedEventLogCheckpoint> {
+    const data: EventLogCheckpointData = {
+      version: 1,
+      sequence: (this.lastCheckpoint?.data.sequence ?? 0) + 1,
+      segment,
+      index_in_segment: indexInSegment,
+      last_event_id: entry.id,
+      last_hash: entry.current_hash,
+      count: this.totalEvents,
+      created_at: new Date().toISOString()
+    };
+
+    const checkpoint = signCheckpoint(data, key);
+    await this.checkpointStore.append(checkpoint);
+    this.lastCheckpoint = checkpoint;
+    return checkpoint;
+  }
+
+  /**
+   * Posição do último evento (o segmento atual fica vazio logo após a rotação).
+   */
+  private async headPosition(): Promise<{ segment: number; index: number; entry: EventLogEntry } | null> {
+    if (this.currentSegmentEntries.length > 0) {
+      const index = this.currentSegmentEntries.length - 1;
+      return { segment: this.currentSegment, index, entry: this.currentSegmentEntries[index] };
+    }
+
+    if (this.currentSegment > 1) {
+      const previous = await this.loadSegment(this.currentSegment - 1);
+      if (previous.length > 0) {
+        const index = previous.length - 1;
+        return { segment: this.currentSegment - 1, index, entry: previous[index] };
+      }
+    }
+
+    return null;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // INCREMENTO 33: PROVAS DE INCLUSÃO (MERKLE)
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Raiz de Merkle publicada de um segmento fechado.
+   * Retorna null para o segmento atual (ainda aberto) ou inexistente.
+   */
+  async getSegmentRoot(segment: number): Promise<SegmentMerkleRoot | null> {
+    this.checkInitialized();
+
+    if (segment >= this.currentSegment) return null;
+    const segmentNumbers = await this.listSegmentNumbers();
+    if (!segmentNumbers.includes(segment)) return null;
+
+    return this.getPublishedRoot(segment);
+  }
+
+  /**
+   * Raízes de todos os segmentos fechados, em ordem.
+   */
+  async listSegmentRoots(): Promise<SegmentMerkleRoot[]> {
+    this.checkInitialized();
+
+    const roots: SegmentMerkleRoot[] = [];
+    for (const segNum of await this.listSegmentNumbers()) {
+      if (segNum >= this.currentSegment) break;
+      roots.push(await this.getPublishedRoot(segNum));
+    }
+    return roots;
+  }
+
+  /**
+   * Prova de inclusão de um evento na raiz do seu segmento.
+   * Para segmento fechado, a prova aponta para a raiz publicada; para o
+   * segmento atual, para a raiz dos eventos existentes (`sealed: false`).
+   */
+  async getInclusionProof(eventId: string): Promise<EventInclusionProof | null> {
+    this.checkInitialized();
+
+    const located = await this.locate(eventId);
+    if (!located) return null;
+
+    const sealed = located.segment < this.currentSegment;
+    const published = sealed ? await this.getPublishedRoot(located.segment) : null;
+
+    return buildInclusionProof(
+      located.segment,
+      located.entries,
+      located.position,
+      sealed,
+      published ? published.root : undefined
+    );
+  }
+
+  /**
+   * Raiz gravada do segmento fechado. Sem arquivo (segmentos anteriores
+   * ao Incremento 33), a raiz é calculada do segmento e gravada.
+   */
+  private async getPublishedRoot(segNum: number): Promise<SegmentMerkleRoot> {
+    const filePath = path.join(this.merkleDir, merkleRootFileName(segNum));
+
+    try {
+      const raw = await readJsonSafe<any>(filePath);
+      if (isValidSegmentMerkleRoot(raw, segNum)) return raw;
+    } catch {
+      // Arquivo ilegível: recalcular
+    }
+
+    const root = buildSegmentMerkleRoot(segNum, await this.loadSegment(segNum));
+    await this.persistSegmentRoot(root);
+    return root;
+  }
+
+  /**
+   * Grava a raiz de um segmento. Falha não é propagada: a raiz é
+   * recalculada na próxima leitura.
+   */
+  private async persistSegmentRoot(root: SegmentMerkleRoot): Promise<void> {
+    try {
+      await atomicWriteJson(path.join(this.merkleDir, merkleRootFileName(root.segment)), root);
+    } catch {
+      // Ignorado: cálculo sob demanda
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // INCREMENTO 36: ASSINATURA DE NOVOS EVENTOS
+  // ══════════════════════════════════════════════════════════════════════
+
+  subscribe(listener: EventLogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async cursorFor(eventId: string): Promise<string | null> {
+    this.checkInitialized();
+
+    const located = await this.locate(eventId);
+    return located
+      ? encodeEventLogCursor({ segment: located.segment, position: located.position })
+      : null;
+  }
+
+  /**
+   * Entrega o evento gravado aos assinantes. Falha de um assinante não
+   * afeta o append nem os demais.
+   */
+  private notify(entry: EventLogEntry): void {
+    for (const listener of this.listeners) {
+      try {
+        listener({ ...entry });
+      } catch {
+        // Ignorado: o log observa, não governa
+      }
+    }
+  }
+
   // ══════════════════════════════════════════════════════════════════════
   // MÉTODOS DE DEBUG (SOMENTE PARA TESTES)
   // ══════════════════════════════════════════════════════════════════════
@@ -0,0 +1,45 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 30: ERROS DE IDEMPOTÊNCIA
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Erro base de idempotência.
+ */
+class IdempotencyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'IdempotencyError';
+  }
+}
+
+/**
+ * Chave vazia, longa demais ou com caracteres não permitidos.
+ */
+class IdempotencyKeyInvalidError extends IdempotencyError {
+  constructor(public readonly reason: string) {
+    super(`Chave de idempotência inválida: ${reason}`, 'IDEMPOTENCY_KEY_INVALID');
+    this.name = 'IdempotencyKeyInvalidError';
+  }
+}
+
+/**
+ * Chave já usada com uma requisição diferente.
+ */
+class IdempotencyKeyConflictError extends IdempotencyError {
+  constructor(public readonly key: string) {
+    super(
+      `Chave de idempotência ${key} já foi usada com outra requisição`,
+      'IDEMPOTENCY_KEY_CONFLICT'
+    );
+    this.name = 'IdempotencyKeyConflictError';
+  }
+}
+
+export {
+  IdempotencyError,
+  IdempotencyKeyInvalidError,
+  IdempotencyKeyConflictError
+};
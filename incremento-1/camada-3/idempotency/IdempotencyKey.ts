@@ -0,0 +1,42 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 30: REGRAS DA CHAVE DE IDEMPOTÊNCIA
+// ════════════════════════════════════════════════════════════════════════
+
+import { serializeForHash, sha256 } from '../backup/BackupCrypto';
+import { IdempotencyKeyInvalidError } from './IdempotencyErrors';
+
+/**
+ * Tamanho máximo da chave (compatível com UUIDs, ULIDs e hashes hex).
+ */
+const IDEMPOTENCY_KEY_MAX_LENGTH = 128;
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9._:-]+$/;
+
+/**
+ * @throws IdempotencyKeyInvalidError
+ */
+function validateIdempotencyKey(key: string): void {
+  if (!key) {
+    throw new IdempotencyKeyInvalidError('vazia');
+  }
+  if (key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+    throw new IdempotencyKeyInvalidError(`mais de ${IDEMPOTENCY_KEY_MAX_LENGTH} caracteres`);
+  }
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    throw new IdempotencyKeyInvalidError('use apenas letras, dígitos e . _ : -');
+  }
+}
+
+/**
+ * Hash canônico da requisição (independe da ordem das chaves).
+ * Detecta reuso da mesma chave com conteúdo diferente.
+ */
+function hashIdempotentRequest(request: unknown): string {
+  return sha256(serializeForHash(request));
+}
+
+export {
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+  validateIdempotencyKey,
+  hashIdempotentRequest
+};
@@ -0,0 +1,27 @@
+/**
+ * INCREMENTO 30 — IDEMPOTÊNCIA: Interface do Repositório
+ *
+ * Chaves de idempotência da decisão em chamada única.
+ *
+ * PRINCÍPIOS:
+ * - Por tenant: o repositório usa o storage do tenant
+ * - Append-only: uma chave registrada nunca muda
+ */
+
+import { IdempotencyRecord } from './IdempotencyTypes';
+
+interface IdempotencyKeyRepository {
+  /**
+   * Busca o registro de uma chave.
+   * @returns Registro ou null se a chave nunca foi usada
+   */
+  get(key: string): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Registra uma chave.
+   * @throws Se a chave já existe
+   */
+  create(record: IdempotencyRecord): Promise<void>;
+}
+
+export { IdempotencyKeyRepository };
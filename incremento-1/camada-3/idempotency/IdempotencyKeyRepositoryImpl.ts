@@ -0,0 +1,41 @@
+/**
+ * INCREMENTO 30 — IDEMPOTÊNCIA: Implementação do Repositório
+ *
+ * Persistência via StorageCollection (driver do tenant ou arquivo JSON).
+ * Com o driver compartilhado pela unidade de trabalho, a chave é gravada
+ * na mesma transação do contrato.
+ */
+
+import { StorageCollection, StorageDriver } from '../storage/StorageTypes';
+import { JsonFileCollection } from '../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../storage/StorageCollections';
+import { IdempotencyKeyRepository } from './IdempotencyKeyRepository';
+import { IdempotencyRecord } from './IdempotencyTypes';
+
+class IdempotencyKeyRepositoryImpl implements IdempotencyKeyRepository {
+  private store: StorageCollection;
+
+  /**
+   * @param filePath - Arquivo JSON (usado quando não há driver)
+   * @param driver - Driver de armazenamento do tenant
+   */
+  constructor(filePath: string, driver?: StorageDriver) {
+    this.store = driver
+      ? driver.collection(STORAGE_COLLECTIONS.idempotencyKeys)
+      : new JsonFileCollection(filePath, STORAGE_COLLECTIONS.idempotencyKeys);
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const raw = await this.store.get(key);
+    return raw ? { ...(raw as IdempotencyRecord) } : null;
+  }
+
+  async create(record: IdempotencyRecord): Promise<void> {
+    if (await this.store.get(record.key)) {
+      throw new Error(`Chave de idempotência ${record.key} já registrada`);
+    }
+    await this.store.put([{ ...record }]);
+  }
+}
+
+export { IdempotencyKeyRepositoryImpl };
@@ -0,0 +1,34 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 30: TIPOS DE IDEMPOTÊNCIA
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Desfecho registrado para uma chave.
+ *
+ * - CONTRATO_EMITIDO: fluxo completo, contrato emitido
+ * - PROTOCOLO_REJEITADO: protocolo rejeitado, sem decisão nem contrato
+ */
+type IdempotencyOutcome = 'CONTRATO_EMITIDO' | 'PROTOCOLO_REJEITADO';
+
+/**
+ * Registro de uma chave de idempotência (por tenant: vive no dataDir do tenant).
+ */
+interface IdempotencyRecord {
+  /** Chave fornecida pelo cliente */
+  key: string;
+
+  /** Hash canônico da requisição original */
+  requestHash: string;
+
+  outcome: IdempotencyOutcome;
+  situacaoId: string;
+  episodioId: string;
+  protocoloId: string;
+
+  /** Presente quando outcome = CONTRATO_EMITIDO */
+  contratoId?: string;
+
+  createdAt: string;
+}
+
+export { IdempotencyOutcome, IdempotencyRecord };
@@ -0,0 +1,26 @@
+/**
+ * INCREMENTO 30 — IDEMPOTÊNCIA
+ *
+ * Barrel export para chaves de idempotência da decisão em chamada única.
+ */
+
+// Tipos
+export { IdempotencyOutcome, IdempotencyRecord } from './IdempotencyTypes';
+
+// Erros
+export {
+  IdempotencyError,
+  IdempotencyKeyInvalidError,
+  IdempotencyKeyConflictError
+} from './IdempotencyErrors';
+
+// Regras
+export {
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+  validateIdempotencyKey,
+  hashIdempotentRequest
+} from './IdempotencyKey';
+
+// Repositório
+export { IdempotencyKeyRepository } from './IdempotencyKeyRepository';
+export { IdempotencyKeyRepositoryImpl } from './IdempotencyKeyRepositoryImpl';
@@ -63,20 +63,71 @@ export {
   ExportRangeOptions,
   ExportRangeResult,
   ReplayOptions,
-  ReplayResult
+  ReplayResult,
+  EventLogQuery,
+  EventLogIterateOptions,
+  EventLogPageOptions,
+  EventLogPage,
+  EventLogListener
 } from './event-log/EventLogRepository';
 
 export { EventLogRepositoryImpl } from './event-log/EventLogRepositoryImpl';
 
+// Incremento 31: cursores de leitura do EventLog
+export { EventLogCursorError } from './event-log/EventLogIndex';
+
+// Incremento 32: checkpoints assinados do EventLog
+export {
+  EventLogCheckpointData,
+  SignedEventLogCheckpoint,
+  CheckpointSigningKey,
+  CheckpointPublicKeys,
+  CheckpointFailure,
+  CheckpointVerificationResult,
+  EventLogWitnessBundle,
+  EventLogCheckpointStore,
+  importPublicKey,
+  verifyWitnessBundleSignatures
+} from './event-log/EventLogCheckpoint';
+
+// Incremento 33: provas de inclusão (Merkle)
+export {
+  SegmentMerkleRoot,
+  MerkleProofStep,
+  EventInclusionProof,
+  InclusionProofVerification,
+  computeMerkleRoot,
+  verifyInclusionProof
+} from './event-log/EventLogMerkle';
+
+// Incremento 34: envelopes de payload versionados
+export {
+  PayloadEnvelope,
+  EnvelopeSchema,
+  EnvelopeSchemas,
+  DecodedEventPayload,
+  ENVELOPE_SCHEMAS,
+  encodeEventPayload,
+  decodeEventPayload
+} from './event-log/EventLogEnvelope';
+
 // ════════════════════════════════════════════════════════════════════════════
-// CAMADA FECHADA (INCREMENTO 13)
+// CAMADA FECHADA (INCREMENTO 13 + 48 + 49)
 // ════════════════════════════════════════════════════════════════════════════
 
 export {
   validateClosedLayer,
+  explainClosedLayer,
+  validateClosedLayerRuleSet,
   ClosedLayerResult,
+  ClosedLayerViolation,
+  ClosedLayerExplanation,
   ClosedLayerRuleId,
-  ClosedLayerRuleIdType
+  ClosedLayerRuleIdType,
+  ClosedLayerCustomRuleType,
+  ClosedLayerCustomRule,
+  ClosedLayerRuleSet,
+  ClosedLayerRuleSetValidation
 } from './camada-fechada';
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -110,8 +161,20 @@ export {
   ReadOnlyDecisaoRepository,
   ReadOnlyContratoRepository,
   ReadOnlyProtocolRepository,
+  ReadOnlyEventLogRepository,
   ReadOnlyRepositoryContext,
-  createReadOnlyContext
+  createReadOnlyContext,
+  // Jobs (Inc 43)
+  ResearchJobStatus,
+  ResearchReadOnlyProof,
+  ResearchJob,
+  ResearchJobRunnerConfig,
+  DEFAULT_RESEARCH_JOB_CONFIG,
+  ResearchJobError,
+  RESEARCH_QUEUE_FULL,
+  RESEARCH_JOB_ID_PATTERN,
+  isValidResearchJobId,
+  ResearchJobRunner
 } from './pesquisa';
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -123,9 +186,12 @@ export {
   AgentProfile,
   AggregationPolicy,
   MultiAgentRunInput,
+  DecisaoMultiAgenteInput,
   AgentProposalResult,
   NoDecisionReason,
   AggregationDecision,
+  HumanOverrideInput,
+  HumanOverrideRecord,
   MultiAgentRunResult,
   MultiAgentError,
   // Agregador
@@ -139,12 +205,16 @@ export {
   applyTieBreak,
   // Runner
   runMultiAgent,
+  completeHumanOverride,
   MultiAgentContext,
-  selectAlternativeForAgent
+  selectAlternativeForAgent,
+  // Repositório de execuções (Inc 39)
+  MultiAgentRunRepository,
+  MultiAgentRunRepositoryImpl
 } from './multiagente';
 
 // ════════════════════════════════════════════════════════════════════════════
-// AUTONOMIA GRADUADA (INCREMENTO 17 + 18 + 19)
+// AUTONOMIA GRADUADA (INCREMENTO 17 + 18 + 19 + 51 + 52)
 // ════════════════════════════════════════════════════════════════════════════
 
 export {
@@ -157,6 +227,40 @@ export {
   AutonomyCheckResult,
   PERFIL_RISCO_ORDEM,
   perfilExcede,
+  // Condições do mandato (Inc 51)
+  MandateConditionType,
+  MandateComparisonOperator,
+  MandateCondition,
+  MandateConditionFacts,
+  MandateLimite,
+  MandateHumanTrigger,
+  MandateTrigger,
+  evaluateMandateCondition,
+  missingMandateFacts,
+  validateMandateCondition,
+  validateMandateConditions,
+  MAX_MANDATE_CONDITION_DEPTH,
+  MAX_MANDATE_CONDITION_NODES,
+  // Modelos de mandato (Inc 52)
+  MandateTemplateSpec,
+  MandateTemplate,
+  MandateTemplateDiffEntry,
+  MandateTemplateGrantInput,
+  MandateTemplateGrantResult,
+  MandateTemplateUpdateResult,
+  MandateRegrantItem,
+  MandateRegrantPlan,
+  MandateRegrantInput,
+  MandateRegrantResult,
+  MandateTemplateValidation,
+  MandateFromTemplateOptions,
+  isValidMandateTemplateId,
+  validateMandateTemplateSpec,
+  diffMandateTemplates,
+  buildMandateFromTemplate,
+  MAX_MANDATE_TEMPLATE_AGENTS,
+  MandateTemplateRepository,
+  MandateTemplateRepositoryImpl,
   // Erros
   AutonomyError,
   HumanOverrideRequiredError,
@@ -246,10 +350,13 @@ export {
   ReviewCaseAlreadyExistsError,
   InvalidReviewEffectError,
   ReviewAccessDeniedError,
+  ReviewVersionConflictError,
+  ReviewCaseClaimedError,
   REVIEW_RULE,
   // Repositório
   ReviewCaseRepository,
   CreateOrGetResult,
+  ReviewClaimResult,
   ReviewCaseRepositoryImpl,
   // Serviço
   ReviewCaseService,
@@ -258,6 +365,109 @@ export {
   ResolveReviewResult
 } from './review';
 
+// ════════════════════════════════════════════════════════════════════════════
+// STORAGE DRIVER (INCREMENTO 28)
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  // Tipos
+  StorageDriverKind,
+  CollectionDefinition,
+  StoredRecord,
+  StorageCollection,
+  StorageDriver,
+  PreparedWrite,
+  TransactionHooks,
+  // Erros
+  StorageError,
+  StorageDriverUnavailableError,
+  StorageKeyMissingError,
+  StorageMigrationError,
+  // Coleções
+  STORAGE_COLLECTIONS,
+  ALL_STORAGE_COLLECTIONS,
+  // Drivers
+  JsonFileDriver,
+  SqliteDriver,
+  createStorageDriver,
+  // Migração
+  StorageMigrationReport,
+  migrateTenantStorage
+} from './storage';
+
+// ════════════════════════════════════════════════════════════════════════════
+// UNIDADE DE TRABALHO (INCREMENTO 29)
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  StagedEvent,
+  UnitOfWorkJournalEntry,
+  UnitOfWorkRecoveryItem,
+  UnitOfWorkRecoveryReport,
+  UnitOfWorkJournal,
+  UnitOfWork
+} from './unit-of-work';
+
+// ════════════════════════════════════════════════════════════════════════════
+// IDEMPOTÊNCIA (INCREMENTO 30)
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  IdempotencyRecord,
+  IdempotencyError,
+  IdempotencyKeyInvalidError,
+  IdempotencyKeyConflictError,
+  IdempotencyKeyRepository,
+  IdempotencyKeyRepositoryImpl
+} from './idempotency';
+
+// ════════════════════════════════════════════════════════════════════════════
+// PROJEÇÃO DE ESTADO A PARTIR DO EVENTLOG (INCREMENTO 35)
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  ProjectedCollectionName,
+  ProjectionSkip,
+  ProjectedState,
+  ProjectionDivergenceKind,
+  ProjectionDivergence,
+  ProjectionCollectionReport,
+  ProjectionReport,
+  ProjectionRebuildOptions,
+  ProjectionRebuildCollectionReport,
+  ProjectionRebuildReport,
+  PROJECTION_FIELDS,
+  PROJECTED_COLLECTIONS,
+  EventProjector,
+  projectEventLog,
+  verifyProjection,
+  rebuildFromEventLog
+} from './projection';
+
+// ════════════════════════════════════════════════════════════════════════════
+// WEBHOOKS DE SAÍDA (INCREMENTO 37)
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  WEBHOOK_EVENT_TYPES,
+  WebhookEndpoint,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDispatcherConfig,
+  DEFAULT_WEBHOOK_DISPATCHER_CONFIG,
+  WEBHOOK_HEADERS,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY,
+  isBlockedWebhookAddress,
+  blockedWebhookHost,
+  resolveBlockedWebhookTarget,
+  WebhookOutbox,
+  WebhookDispatcher
+} from './webhooks';
+
 // ════════════════════════════════════════════════════════════════════════════
 // UTILITÁRIOS
 // ════════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,47 @@
+/**
+ * INCREMENTO 39 — MULTIAGENTE: Interface do Repositório de Execuções
+ *
+ * Guarda o resultado completo de cada execução multiagente (propostas
+ * por agente, bloqueios da Camada Fechada e agregação), para consulta
+ * posterior por runId ou por episódio.
+ *
+ * PRINCÍPIOS:
+ * - Por tenant: o repositório usa o storage do tenant
+ * - Append-only: uma execução registrada só muda uma vez, ao ser
+ *   concluída por override humano (Inc 40)
+ */
+
+import { MultiAgentRunResult } from './MultiAgentTypes';
+
+interface MultiAgentRunRepository {
+  /**
+   * Registra uma execução.
+   * @throws Se o runId já existe
+   */
+  create(run: MultiAgentRunResult): Promise<void>;
+
+  /**
+   * INCREMENTO 40: Substitui uma execução já registrada.
+   * @throws Se o runId não existe
+   */
+  update(run: MultiAgentRunResult): Promise<void>;
+
+  /**
+   * Busca execução pelo runId.
+   * @returns Execução ou null se não encontrada
+   */
+  getById(runId: string): Promise<MultiAgentRunResult | null>;
+
+  /**
+   * Execuções de um episódio, da mais antiga para a mais recente.
+   */
+  getByEpisodioId(episodioId: string): Promise<MultiAgentRunResult[]>;
+
+  /**
+   * INCREMENTO 40: Execuções HUMAN_OVERRIDE_PENDING ainda sem override,
+   * da mais antiga para a mais recente.
+   */
+  getPendingHumanOverride(): Promise<MultiAgentRunResult[]>;
+}
+
+export { MultiAgentRunRepository };
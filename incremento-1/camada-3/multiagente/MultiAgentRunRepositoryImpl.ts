@@ -0,0 +1,88 @@
+/**
+ * INCREMENTO 39 — MULTIAGENTE: Implementação do Repositório de Execuções
+ *
+ * Persistência via StorageCollection (driver do tenant ou arquivo JSON).
+ * A execução é gravada já serializada; na leitura, as datas do resultado,
+ * dos protocolos e dos contratos voltam a ser Date.
+ */
+
+import { StorageCollection, StorageDriver, StoredRecord } from '../storage/StorageTypes';
+import { JsonFileCollection } from '../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../storage/StorageCollections';
+import { ContratoDeDecisao } from '../entidades/tipos';
+import { MultiAgentRunRepository } from './MultiAgentRunRepository';
+import { MultiAgentRunResult, AgentProposalResult } from './MultiAgentTypes';
+
+function reviverContrato(raw: any): ContratoDeDecisao | null {
+  return raw ? { ...raw, data_emissao: new Date(raw.data_emissao) } : null;
+}
+
+function reviverAgentResult(raw: any): AgentProposalResult {
+  return {
+    ...raw,
+    protocolo: raw.protocolo
+      ? { ...raw.protocolo, validado_em: new Date(raw.protocolo.validado_em) }
+      : null,
+    contratoCandidato: reviverContrato(raw.contratoCandidato)
+  };
+}
+
+function deserializar(raw: StoredRecord): MultiAgentRunResult {
+  return {
+    ...(raw as MultiAgentRunResult),
+    agentResults: (raw.agentResults ?? []).map(reviverAgentResult),
+    contratoFinal: reviverContrato(raw.contratoFinal),
+    startedAt: new Date(raw.startedAt),
+    finishedAt: new Date(raw.finishedAt),
+    humanOverride: raw.humanOverride
+      ? { ...raw.humanOverride, selectedAt: new Date(raw.humanOverride.selectedAt) }
+      : undefined
+  };
+}
+
+class MultiAgentRunRepositoryImpl implements MultiAgentRunRepository {
+  private store: StorageCollection;
+
+  /**
+   * @param filePath - Arquivo JSON (usado quando não há driver)
+   * @param driver - Driver de armazenamento do tenant
+   */
+  constructor(filePath: string, driver?: StorageDriver) {
+    this.store = driver
+      ? driver.collection(STORAGE_COLLECTIONS.multiagentRuns)
+      : new JsonFileCollection(filePath, STORAGE_COLLECTIONS.multiagentRuns);
+  }
+
+  async create(run: MultiAgentRunResult): Promise<void> {
+    if (await this.store.get(run.runId)) {
+      throw new Error(`Execução multiagente ${run.runId} já registrada`);
+    }
+    await this.store.put([JSON.parse(JSON.stringify(run))]);
+  }
+
+  async update(run: MultiAgentRunResult): Promise<void> {
+    if (!(await this.store.get(run.runId))) {
+      throw new Error(`Execução multiagente ${run.runId} não encontrada`);
+    }
+    await this.store.put([JSON.parse(JSON.stringify(run))]);
+  }
+
+  async getById(runId: string): Promise<MultiAgentRunResult | null> {
+    const raw = await this.store.get(runId);
+    return raw ? deserializar(raw) : null;
+  }
+
+  async getByEpisodioId(episodioId: string): Promise<MultiAgentRunResult[]> {
+    const raws = await this.store.findBy('episodioId', episodioId);
+    return raws.map(deserializar);
+  }
+
+  async getPendingHumanOverride(): Promise<MultiAgentRunResult[]> {
+    const raws = await this.store.readAll();
+    return raws
+      .filter(raw => raw.aggregation?.noDecisionReason === 'HUMAN_OVERRIDE_PENDING' && !raw.humanOverride)
+      .map(deserializar);
+  }
+}
+
+export { MultiAgentRunRepositoryImpl };
@@ -32,7 +32,7 @@ import {
 } from '../entidades/tipos';
 import { ActorId, TipoEvento, TipoEntidade } from '../event-log/EventLogEntry';
 import { EventLogRepository } from '../event-log/EventLogRepository';
-import { validateClosedLayer, ClosedLayerResult } from '../camada-fechada';
+import { validateClosedLayer, ClosedLayerResult, ClosedLayerRuleSet } from '../camada-fechada';
 import { SituacaoRepository } from '../repositorios/interfaces/SituacaoRepository';
 import { EpisodioRepository } from '../repositorios/interfaces/EpisodioRepository';
 import { DecisaoRepository } from '../repositorios/interfaces/DecisaoRepository';
@@ -46,6 +46,8 @@ import {
   AgentProposalResult,
   MultiAgentRunResult,
   AggregationDecision,
+  HumanOverrideInput,
+  HumanOverrideRecord,
   MultiAgentError
 } from './MultiAgentTypes';
 
@@ -65,6 +67,19 @@ interface MultiAgentContext {
   protocoloRepo: DecisionProtocolRepository;
   eventLog?: EventLogRepository;
   gerarId: () => string;
+  closedLayerRuleSet?: ClosedLayerRuleSet; // INCREMENTO 48
+
+  /**
+   * INCREMENTO 40: Registro de eventos do chamador. O Orquestrador retém
+   * os eventos até o commit do passo (Inc 29); ausente, grava no eventLog.
+   */
+  logEvent?: (
+    actor: ActorId,
+    evento: string,
+    entidade: string,
+    entidadeId: string,
+    payload: unknown
+  ) => Promise<void>;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -193,40 +208,16 @@ async function runMultiAgent(
     const selectedResult = agentResults.find(r => r.agentId === aggregation.selectedAgentId);
 
     if (selectedResult && selectedResult.decisaoCandidato && !selectedResult.blocked) {
-      // Usar a decisão candidata do agente selecionado
-      const candidato = selectedResult.decisaoCandidato;
-
-      // Construir decisão final para persistência
-      const decisaoFinal: DecisaoInstitucional = {
-        id: candidato.id,
-        episodio_id: episodio.id,
-        alternativa_escolhida: candidato.alternativa_escolhida,
-        criterios: candidato.criterios,
-        limites: candidato.limites,
-        condicoes: candidato.condicoes,
-        perfil_risco: candidato.perfil_risco,
-        data_decisao: new Date()
-      };
-
-      // Agora sim, persistir APENAS a decisão do agente selecionado
-      await context.decisaoRepo.create(decisaoFinal);
-
-      // Log da decisão registrada
-      await logEvent(
+      // Persistir APENAS a decisão candidata do agente selecionado
+      contratoFinal = await registrarDecisaoSelecionada(
+        episodio.id,
+        sit!.id,
+        selectedResult.decisaoCandidato,
+        emitidoPara,
         context,
-        TipoEvento.DECISAO_REGISTRADA,
-        TipoEntidade.DECISAO,
-        decisaoFinal.id,
-        decisaoFinal,
         actor
       );
 
-      contratoFinal = await emitirContratoFinal(episodio.id, decisaoFinal, emitidoPara, context, actor);
-
-      // Atualizar estado do episódio e situação
-      await context.episodioRepo.updateEstado(episodio.id, EstadoEpisodio.DECIDIDO);
-      await context.situacaoRepo.updateStatus(sit!.id, StatusSituacao.DECIDIDA);
-
       // Log de agregação selecionada
       await logEvent(
         context,
@@ -275,10 +266,186 @@ async function runMultiAgent(
   };
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// OVERRIDE HUMANO (INCREMENTO 40)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Conclui uma execução HUMAN_OVERRIDE_PENDING com a proposta escolhida
+ * por um humano: persiste a decisão e o contrato daquele agente e registra
+ * MULTIAGENT_HUMAN_OVERRIDE_SELECTED.
+ *
+ * Não persiste a execução: devolve a execução atualizada para o chamador.
+ *
+ * @param run - Execução registrada (aguardando override)
+ * @param input - Escolha humana (actor, agentId, justificativa)
+ * @param context - Contexto de repositórios e dependências
+ * @param options - Destinatário do contrato
+ * @returns Execução com contratoFinal e humanOverride preenchidos
+ */
+async function completeHumanOverride(
+  run: MultiAgentRunResult,
+  input: HumanOverrideInput,
+  context: MultiAgentContext,
+  options?: { emitidoPara?: string }
+): Promise<MultiAgentRunResult> {
+  const emitidoPara = options?.emitidoPara ?? 'external';
+
+  if (run.humanOverride) {
+    throw new MultiAgentError(
+      `Execução ${run.runId} já concluída por override humano`,
+      'HUMAN_OVERRIDE_ALREADY_APPLIED',
+      { runId: run.runId, agentId: run.humanOverride.agentId }
+    );
+  }
+
+  if (run.aggregation.noDecisionReason !== 'HUMAN_OVERRIDE_PENDING') {
+    throw new MultiAgentError(
+      `Execução ${run.runId} não aguarda override humano`,
+      'HUMAN_OVERRIDE_NOT_PENDING',
+      { runId: run.runId, noDecisionReason: run.aggregation.noDecisionReason }
+    );
+  }
+
+  if (!input.justificativa || input.justificativa.trim().length === 0) {
+    throw new MultiAgentError('justificativa é obrigatória', 'JUSTIFICATIVA_REQUIRED');
+  }
+
+  const selected = run.agentResults.find(r => r.agentId === input.agentId);
+
+  if (!selected) {
+    throw new MultiAgentError(
+      `Agente ${input.agentId} não participou da execução ${run.runId}`,
+      'AGENT_NOT_IN_RUN',
+      { runId: run.runId, agentId: input.agentId }
+    );
+  }
+
+  if (selected.blocked || !selected.decisaoCandidato) {
+    throw new MultiAgentError(
+      `Agente ${input.agentId} foi bloqueado pela Camada Fechada`,
+      'AGENT_BLOCKED',
+      { runId: run.runId, agentId: input.agentId, rule: selected.closedLayerResult.rule }
+    );
+  }
+
+  const episodio = await context.episodioRepo.getById(run.episodioId);
+
+  if (!episodio) {
+    throw new MultiAgentError(
+      `Episódio ${run.episodioId} não encontrado`,
+      'EPISODIO_NOT_FOUND',
+      { runId: run.runId, episodioId: run.episodioId }
+    );
+  }
+
+  // Episódio já decidido por outro caminho: a escolha humana não se aplica
+  if (episodio.estado !== EstadoEpisodio.CRIADO) {
+    throw new MultiAgentError(
+      `Episódio ${run.episodioId} não está mais em ${EstadoEpisodio.CRIADO}`,
+      'EPISODIO_NOT_CRIADO',
+      { runId: run.runId, episodioId: run.episodioId, estado: episodio.estado }
+    );
+  }
+
+  const contratoFinal = await registrarDecisaoSelecionada(
+    episodio.id,
+    episodio.situacao_referenciada,
+    selected.decisaoCandidato,
+    emitidoPara,
+    context,
+    input.actor
+  );
+
+  const humanOverride: HumanOverrideRecord = {
+    actor: input.actor,
+    agentId: selected.agentId,
+    justificativa: input.justificativa,
+    alternativaFinal: selected.decisaoCandidato.alternativa_escolhida,
+    decisaoId: selected.decisaoCandidato.id,
+    contratoId: contratoFinal.id,
+    selectedAt: new Date()
+  };
+
+  await logEvent(
+    context,
+    TipoEvento.MULTIAGENT_HUMAN_OVERRIDE_SELECTED,
+    TipoEntidade.MULTIAGENT_RUN,
+    run.runId,
+    {
+      runId: run.runId,
+      episodioId: run.episodioId,
+      selectedAgentId: humanOverride.agentId,
+      alternativaFinal: humanOverride.alternativaFinal,
+      contratoId: humanOverride.contratoId,
+      justificativa: humanOverride.justificativa,
+      votesByAlternative: run.aggregation.votesByAlternative
+    },
+    input.actor
+  );
+
+  return { ...run, contratoFinal, humanOverride };
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // FUNÇÕES AUXILIARES
 // ════════════════════════════════════════════════════════════════════════════
 
+/**
+ * Persiste a decisão candidata escolhida (pela agregação ou por override
+ * humano), emite o contrato final e marca episódio/situação como decididos.
+ */
+async function registrarDecisaoSelecionada(
+  episodioId: string,
+  situacaoId: string,
+  candidato: NonNullable<AgentProposalResult['decisaoCandidato']>,
+  emitidoPara: string,
+  context: MultiAgentContext,
+  actor: ActorId
+): Promise<ContratoDeDecisao> {
+  // Construir decisão final para persistência
+  const decisaoFinal: DecisaoInstitucional = {
+    id: candidato.id,
+    episodio_id: episodioId,
+    alternativa_escolhida: candidato.alternativa_escolhida,
+    criterios: candidato.criterios,
+    limites: candidato.limites,
+    condicoes: candidato.condicoes,
+    perfil_risco: candidato.perfil_risco,
+    data_decisao: new Date()
+  };
+
+  await context.decisaoRepo.create(decisaoFinal);
+
+  // Log da decisão registrada
+  await logEvent(
+    context,
+    TipoEvento.DECISAO_REGISTRADA,
+    TipoEntidade.DECISAO,
+    decisaoFinal.id,
+    decisaoFinal,
+    actor
+  );
+
+  const contrato = await emitirContratoFinal(episodioId, decisaoFinal, emitidoPara, context, actor);
+
+  // Atualizar estado do episódio e situação
+  await context.episodioRepo.updateEstado(episodioId, EstadoEpisodio.DECIDIDO);
+  await context.situacaoRepo.updateStatus(situacaoId, StatusSituacao.DECIDIDA);
+
+  // INCREMENTO 35: transição registrada, como no fluxo do Orquestrador
+  await logEvent(
+    context,
+    TipoEvento.EPISODIO_ESTADO_ALTERADO,
+    TipoEntidade.EPISODIO,
+    episodioId,
+    { estado_anterior: EstadoEpisodio.CRIADO, estado_novo: EstadoEpisodio.DECIDIDO },
+    actor
+  );
+
+  return contrato;
+}
+
 async function criarEpisodio(
   situacao: SituacaoDecisoria,
   context: MultiAgentContext,
@@ -329,7 +496,7 @@ async function processAgent(
   );
 
   // Validar Closed Layer
-  const closedLayerResult = validateClosedLayer(situacao, protocolo);
+  const closedLayerResult = validateClosedLayer(situacao, protocolo, context.closedLayerRuleSet);
 
   // Log do protocolo proposto
   await logEvent(
@@ -556,6 +723,11 @@ async function logEvent(
   payload: unknown,
   actor: ActorId
 ): Promise<void> {
+  if (context.logEvent) {
+    await context.logEvent(actor, evento, entidade, entidadeId, payload);
+    return;
+  }
+
   if (!context.eventLog) return;
 
   try {
@@ -572,6 +744,7 @@ async function logEvent(
 
 export {
   runMultiAgent,
+  completeHumanOverride,
   MultiAgentContext,
   selectAlternativeForAgent
 };
@@ -14,8 +14,15 @@
  * - Core permanece agnóstico a integrações
  */
 
-import { PerfilRisco, DecisionProtocol, ContratoDeDecisao, Limite } from '../entidades/tipos';
+import {
+  PerfilRisco,
+  DecisionProtocol,
+  ContratoDeDecisao,
+  Limite,
+  DadosSituacaoInput
+} from '../entidades/tipos';
 import { ClosedLayerResult } from '../camada-fechada';
+import { ActorId } from '../event-log/EventLogEntry';
 
 // ════════════════════════════════════════════════════════════════════════════
 // PERFIL DE AGENTE
@@ -96,6 +103,14 @@ interface MultiAgentRunInput {
   };
 }
 
+/**
+ * INCREMENTO 39: Input da execução multiagente em chamada única.
+ * A situação é criada pelo Core (mesmo formato de DecisaoCompletaInput.situacao).
+ */
+interface DecisaoMultiAgenteInput extends MultiAgentRunInput {
+  situacao: DadosSituacaoInput;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // RESULTADO POR AGENTE
 // ════════════════════════════════════════════════════════════════════════════
@@ -179,6 +194,37 @@ interface AggregationDecision {
   votesByAlternative?: Record<string, number>;
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// OVERRIDE HUMANO (INCREMENTO 40)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Escolha humana que conclui uma execução HUMAN_OVERRIDE_PENDING.
+ */
+interface HumanOverrideInput {
+  /** Quem escolheu (registrado no EventLog) */
+  actor: ActorId;
+
+  /** Agente cuja proposta será adotada (não pode estar bloqueado) */
+  agentId: string;
+
+  /** Justificativa obrigatória da escolha */
+  justificativa: string;
+}
+
+/**
+ * Override humano aplicado a uma execução.
+ */
+interface HumanOverrideRecord {
+  actor: ActorId;
+  agentId: string;
+  justificativa: string;
+  alternativaFinal: string;
+  decisaoId: string;
+  contratoId: string;
+  selectedAt: Date;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // RESULTADO COMPLETO DO MULTIAGENTE
 // ════════════════════════════════════════════════════════════════════════════
@@ -210,6 +256,13 @@ interface MultiAgentRunResult {
 
   /** Timestamp de término */
   finishedAt: Date;
+
+  /**
+   * INCREMENTO 40: Conclusão por override humano.
+   * `aggregation` continua registrando HUMAN_OVERRIDE_PENDING; o contrato
+   * da escolha humana fica em `contratoFinal`.
+   */
+  humanOverride?: HumanOverrideRecord;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -238,9 +291,12 @@ export {
   AgentProfile,
   AggregationPolicy,
   MultiAgentRunInput,
+  DecisaoMultiAgenteInput,
   AgentProposalResult,
   NoDecisionReason,
   AggregationDecision,
+  HumanOverrideInput,
+  HumanOverrideRecord,
   MultiAgentRunResult,
   MultiAgentError
 };
@@ -13,9 +13,12 @@ export {
   AgentProfile,
   AggregationPolicy,
   MultiAgentRunInput,
+  DecisaoMultiAgenteInput,
   AgentProposalResult,
   NoDecisionReason,
   AggregationDecision,
+  HumanOverrideInput,
+  HumanOverrideRecord,
   MultiAgentRunResult,
   MultiAgentError
 } from './MultiAgentTypes';
@@ -35,6 +38,11 @@ export {
 // Runner
 export {
   runMultiAgent,
+  completeHumanOverride,
   MultiAgentContext,
   selectAlternativeForAgent
 } from './MultiAgentRunner';
+
+// Repositório de execuções (Inc 39)
+export { MultiAgentRunRepository } from './MultiAgentRunRepository';
+export { MultiAgentRunRepositoryImpl } from './MultiAgentRunRepositoryImpl';
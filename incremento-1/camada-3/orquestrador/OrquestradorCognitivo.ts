@@ -1,4 +1,5 @@
 import { SituacaoRepository } from '../repositorios/interfaces/SituacaoRepository';
+import { validarDadosSituacao } from '../repositorios/implementacao/SituacaoRepositoryImpl';
 import { EpisodioRepository } from '../repositorios/interfaces/EpisodioRepository';
 import { DecisaoRepository } from '../repositorios/interfaces/DecisaoRepository';
 import { ContratoRepository } from '../repositorios/interfaces/ContratoRepository';
@@ -24,16 +25,38 @@ import {
   ContratoDeDecisao,
   DecisionProtocol,
   DadosProtocoloInput,
+  DadosSituacaoInput,
   StatusSituacao,
   EstadoEpisodio,
   EstadoProtocolo,
   MemoryQuery,
   MemoryQueryResult,
-  AnexoAnalise
+  AnexoAnalise,
+  DecisaoCompletaInput,
+  ValidacaoDecisao,
+  ResultadoDecisao
 } from '../entidades/tipos';
-import { validateClosedLayer, ClosedLayerResult } from '../camada-fechada';
-import { runMultiAgent, MultiAgentContext } from '../multiagente/MultiAgentRunner';
-import { MultiAgentRunInput, MultiAgentRunResult } from '../multiagente/MultiAgentTypes';
+import {
+  validateClosedLayer,
+  explainClosedLayer,
+  evaluateClosedLayerRuleSet,
+  ClosedLayerResult,
+  ClosedLayerRuleSet,
+  ClosedLayerExplanation
+} from '../camada-fechada';
+import {
+  runMultiAgent,
+  completeHumanOverride,
+  MultiAgentContext
+} from '../multiagente/MultiAgentRunner';
+import {
+  MultiAgentRunInput,
+  MultiAgentRunResult,
+  DecisaoMultiAgenteInput,
+  HumanOverrideInput,
+  MultiAgentError
+} from '../multiagente/MultiAgentTypes';
+import { MultiAgentRunRepository } from '../multiagente/MultiAgentRunRepository';
 import {
   AutonomyMode,
   AutonomyMandate,
@@ -42,9 +65,29 @@ import {
   MandateExpireReason,
   evaluate as evaluateAutonomy,
   AutonomyCheckResultExtended,
-  shouldMarkExpired
+  shouldMarkExpired,
+  validateMandateConditions,
+  isMandateActive,
+  getEffectiveStatus
 } from '../autonomy';
 import { AutonomyMandateRepository } from '../autonomy/AutonomyMandateRepository';
+import { MandateTemplateRepository } from '../autonomy/MandateTemplateRepository';
+import {
+  MandateTemplate,
+  MandateTemplateGrantInput,
+  MandateTemplateGrantResult,
+  MandateTemplateUpdateResult,
+  MandateRegrantPlan,
+  MandateRegrantInput,
+  MandateRegrantResult
+} from '../autonomy/MandateTemplateTypes';
+import {
+  isValidMandateTemplateId,
+  validateMandateTemplateSpec,
+  diffMandateTemplates,
+  buildMandateFromTemplate,
+  MAX_MANDATE_TEMPLATE_AGENTS
+} from '../autonomy/MandateTemplate';
 import { HumanOverrideRequiredError } from '../autonomy/AutonomyErrors';
 import {
   ConsequenceAutonomyTriggers,
@@ -58,7 +101,11 @@ import {
   ReviewCaseRepository,
   ReviewCaseService,
   ReviewCaseServiceContext,
-  CreateReviewCaseInput
+  CreateReviewCaseInput,
+  ReviewCase,
+  ResolveReviewCaseInput,
+  DismissReviewCaseInput,
+  ResolveReviewResult
 } from '../review';
 import {
   BackupService,
@@ -71,9 +118,26 @@ import {
   BackupSnapshot,
   BackupOptions,
   BackupValidationResult,
+  BackupRewrapResult,
   RestoreOptions,
-  RestoreResult
+  RestoreResult,
+  DisasterRecoveryService,
+  DRProgressCallback,
+  DRProcedure,
+  DRProcedureType,
+  DRProcedureNotFoundError,
+  DRProcedureStateError
 } from '../backup';
+import { UnitOfWork, UnitOfWorkRecoveryReport } from '../unit-of-work';
+import {
+  IdempotencyKeyRepository,
+  IdempotencyRecord,
+  IdempotencyKeyConflictError,
+  validateIdempotencyKey,
+  hashIdempotentRequest
+} from '../idempotency';
+import { StorageDriver } from '../storage';
+import { verifyProjection, ProjectionReport } from '../projection';
 
 // ════════════════════════════════════════════════════════════════════════
 // INCREMENTO 4.1: TIPOS PARA HEALTH DO EVENTLOG
@@ -117,6 +181,15 @@ class OrquestradorCognitivo {
   private backupService?: BackupService; // INCREMENTO 26
   private restoreService?: RestoreService; // INCREMENTO 26
   private backupRepo?: BackupRepository; // INCREMENTO 26
+  private drService?: DisasterRecoveryService; // INCREMENTO 44
+  private unitOfWork?: UnitOfWork; // INCREMENTO 29
+  private lastRecovery: UnitOfWorkRecoveryReport | null = null; // INCREMENTO 29
+  private idempotencyRepo?: IdempotencyKeyRepository; // INCREMENTO 30
+  private projectionStorage?: StorageDriver; // INCREMENTO 35
+  private multiAgentRunRepo?: MultiAgentRunRepository; // INCREMENTO 39
+  private overridesEmAndamento = new Set<string>(); // INCREMENTO 40
+  private closedLayerRuleSetProvider?: () => ClosedLayerRuleSet | undefined; // INCREMENTO 48
+  private mandateTemplateRepo?: MandateTemplateRepository; // INCREMENTO 52
 
   constructor(
     private situacaoRepo: SituacaoRepository,
@@ -147,8 +220,15 @@ class OrquestradorCognitivo {
    * Verifica integridade da cadeia de eventos ao iniciar.
    * Chamador deve chamar init() logo após new OrquestradorCognitivo().
    * Falha na verificação NÃO bloqueia - apenas marca degraded=true.
+   *
+   * INCREMENTO 29: com unidade de trabalho configurada, conclui ou desfaz
+   * passos interrompidos antes de verificar a cadeia.
    */
   async init(): Promise<void> {
+    if (this.unitOfWork) {
+      await this.RecuperarPassosInterrompidos();
+    }
+
     if (!this.eventLog) return;
 
     try {
@@ -263,7 +343,8 @@ class OrquestradorCognitivo {
           firstId: null,
           lastId: null,
           chainValidWithinExport: true
-        }
+        },
+        payloads: {}
       };
     }
 
@@ -288,7 +369,8 @@ class OrquestradorCognitivo {
           firstId: null,
           lastId: null,
           chainValidWithinExport: false
-        }
+        },
+        payloads: {}
       };
     }
   }
@@ -306,6 +388,7 @@ class OrquestradorCognitivo {
         porEvento: {},
         porEntidade: {},
         porAtor: {},
+        porVersao: {},
         range: { firstTs: null, lastTs: null },
         inconsistencias: [],
         truncated: false
@@ -327,6 +410,7 @@ class OrquestradorCognitivo {
         porEvento: {},
         porEntidade: {},
         porAtor: {},
+        porVersao: {},
         range: { firstTs: null, lastTs: null },
         inconsistencias: [],
         truncated: false
@@ -348,17 +432,118 @@ class OrquestradorCognitivo {
   ): Promise<void> {
     if (!this.eventLog) return;
 
+    // INCREMENTO 29: dentro de um passo, o evento é gravado no commit
+    if (this.unitOfWork?.stageEvent({ actor, evento, entidade, entidadeId, payload })) {
+      return;
+    }
+
     try {
       await this.eventLog.append(actor, evento, entidade, entidadeId, payload);
     } catch (error) {
-      // INCREMENTO 4.1: Tracking de erros com ring buffer
-      this.eventLogStatus.degraded = true;
-      this.eventLogStatus.errorCount++;
-      this.eventLogStatus.lastErrorAt = new Date();
-      this.eventLogStatus.lastErrorMsg = error instanceof Error ? error.message : String(error);
-      this.addError(evento, this.eventLogStatus.lastErrorMsg);
-      // Log falhou, mas não bloqueia a operação
-      console.error('[EventLog] Falha ao registrar evento:', evento, error);
+      this.registrarFalhaDeLog(evento, error);
+    }
+  }
+
+  /**
+   * INCREMENTO 4.1: Tracking de erros com ring buffer
+   */
+  private registrarFalhaDeLog(evento: string, error: unknown): void {
+    this.eventLogStatus.degraded = true;
+    this.eventLogStatus.errorCount++;
+    this.eventLogStatus.lastErrorAt = new Date();
+    this.eventLogStatus.lastErrorMsg = error instanceof Error ? error.message : String(error);
+    this.addError(evento, this.eventLogStatus.lastErrorMsg);
+    // Log falhou, mas não bloqueia a operação
+    console.error('[EventLog] Falha ao registrar evento:', evento, error);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 29: UNIDADE DE TRABALHO
+  // Cada passo grava repositórios + EventLog de forma atômica
+  // ════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Configura a unidade de trabalho dos passos do fluxo.
+   * Exige que todos os repositórios compartilhem o driver da unidade.
+   * Deve ser chamado antes de init() (que executa a recuperação).
+   */
+  ConfigurarUnidadeDeTrabalho(unitOfWork: UnitOfWork): void {
+    this.unitOfWork = unitOfWork;
+  }
+
+  /**
+   * Relatório da última recuperação (null se não executada).
+   */
+  GetRecoveryReport(): UnitOfWorkRecoveryReport | null {
+    return this.lastRecovery;
+  }
+
+  /**
+   * Conclui (roll-forward) ou desfaz (rollback) passos interrompidos
+   * e recarrega os repositórios. Registra UNIT_OF_WORK_RECOVERED quando
+   * houve algo a recuperar.
+   */
+  async RecuperarPassosInterrompidos(): Promise<UnitOfWorkRecoveryReport | null> {
+    if (!this.unitOfWork) return null;
+
+    const report = await this.unitOfWork.recover();
+    this.lastRecovery = report;
+
+    if (report.rolledForward > 0) {
+      await this.recarregarRepositorios();
+    }
+
+    if (report.items.length > 0) {
+      await this.logEvent(
+        TipoEvento.UNIT_OF_WORK_RECOVERED,
+        TipoEntidade.UNIT_OF_WORK,
+        this.gerarId(),
+        report
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Executa um passo dentro da unidade de trabalho (se configurada).
+   */
+  private async executarPasso<T>(step: string, work: () => Promise<T>): Promise<T> {
+    if (!this.unitOfWork) {
+      return work();
+    }
+
+    return this.unitOfWork.run(step, work, {
+      onRollback: () => this.recarregarRepositorios(),
+      onEventError: (event, error) => this.registrarFalhaDeLog(event.evento, error)
+    });
+  }
+
+  /**
+   * Descarta o estado em memória dos repositórios, relendo do storage.
+   * Inclui todos os repositórios que gravam dentro de um passo;
+   * os que leem direto da coleção (sem init) são ignorados.
+   */
+  private async recarregarRepositorios(): Promise<void> {
+    const repos: unknown[] = [
+      this.situacaoRepo,
+      this.episodioRepo,
+      this.decisaoRepo,
+      this.contratoRepo,
+      this.protocoloRepo,
+      this.observacaoRepo,
+      this.autonomyMandateRepo,
+      this.reviewCaseRepo,
+      this.idempotencyRepo,
+      this.multiAgentRunRepo,
+      this.mandateTemplateRepo
+    ];
+
+    for (const repo of repos) {
+      const reloadable = repo as { init?: () => Promise<void> } | undefined;
+      if (reloadable && typeof reloadable.init === 'function') {
+        await reloadable.init();
+      }
     }
   }
 
@@ -379,6 +564,15 @@ class OrquestradorCognitivo {
   async ProcessarSolicitacao(
     situacao: SituacaoDecisoria,
     options?: { actor?: string }
+  ): Promise<EpisodioDecisao> {
+    return this.executarPasso('ProcessarSolicitacao', () =>
+      this.ExecutarProcessarSolicitacao(situacao, options)
+    );
+  }
+
+  private async ExecutarProcessarSolicitacao(
+    situacao: SituacaoDecisoria,
+    options?: { actor?: string }
   ): Promise<EpisodioDecisao> {
     const actor = options?.actor ?? 'external';
 
@@ -495,12 +689,22 @@ class OrquestradorCognitivo {
    * - Memória só pode ser usada se registrada como anexo
    * - Todos os campos obrigatórios preenchidos
    * - Alternativa escolhida ∈ alternativas avaliadas
+   * - Regras da Camada Fechada do tenant, se configuradas (Inc 48)
    *
    * @returns DecisionProtocol com estado VALIDADO ou REJEITADO
    */
   async ConstruirProtocoloDeDecisao(
     episodio_id: string,
     dados: DadosProtocoloInput
+  ): Promise<DecisionProtocol> {
+    return this.executarPasso('ConstruirProtocoloDeDecisao', () =>
+      this.ExecutarConstruirProtocolo(episodio_id, dados)
+    );
+  }
+
+  private async ExecutarConstruirProtocolo(
+    episodio_id: string,
+    dados: DadosProtocoloInput
   ): Promise<DecisionProtocol> {
     if (!this.protocoloRepo) {
       throw new Error(
@@ -555,6 +759,83 @@ class OrquestradorCognitivo {
       );
     }
 
+    // ══════════════════════════════════════════════════════════════════════
+    // VALIDAÇÕES 5-8: Conteúdo do protocolo
+    // ══════════════════════════════════════════════════════════════════════
+    const regrasTenant = this.closedLayerRuleSetProvider?.();
+    const errosValidacao = this.validarDadosProtocolo(situacao, dados, regrasTenant);
+    const memoriaConsultadaIds = dados.memoria_consultada_ids ?? [];
+
+    // ══════════════════════════════════════════════════════════════════════
+    // DETERMINAR ESTADO DO PROTOCOLO
+    // ══════════════════════════════════════════════════════════════════════
+
+    const now = new Date();
+    let estado: EstadoProtocolo;
+    let motivo_rejeicao: string | undefined;
+
+    if (errosValidacao.length > 0) {
+      estado = EstadoProtocolo.REJEITADO;
+      motivo_rejeicao = errosValidacao.join('; ');
+    } else {
+      estado = EstadoProtocolo.VALIDADO;
+    }
+
+    // ══════════════════════════════════════════════════════════════════════
+    // CONSTRUIR E PERSISTIR PROTOCOLO
+    // ══════════════════════════════════════════════════════════════════════
+
+    // Extrair IDs de anexos utilizados (todos os anexos da situação)
+    const anexos_utilizados_ids = situacao.anexos_analise.map((_, index) =>
+      `anexo-${situacao.id}-${index}`
+    );
+
+    const protocolo: DecisionProtocol = {
+      id: this.gerarId(),
+      episodio_id,
+      criterios_minimos: dados.criterios_minimos ?? [],
+      riscos_considerados: dados.riscos_considerados ?? [],
+      limites_definidos: dados.limites_definidos ?? [],
+      perfil_risco: dados.perfil_risco,
+      alternativas_avaliadas: dados.alternativas_avaliadas ?? [],
+      alternativa_escolhida: dados.alternativa_escolhida ?? '',
+      memoria_consultada_ids: memoriaConsultadaIds,
+      anexos_utilizados_ids,
+      estado,
+      validado_em: now,
+      validado_por: 'Libervia',
+      motivo_rejeicao,
+      ...(regrasTenant && {
+        regras_camada_fechada: { ruleSetId: regrasTenant.ruleSetId, version: regrasTenant.version }
+      })
+    };
+
+    await this.protocoloRepo.create(protocolo);
+
+    // INCREMENTO 4: Log de protocolo (VALIDADO ou REJEITADO)
+    const eventoProtocolo = protocolo.estado === EstadoProtocolo.VALIDADO
+      ? TipoEvento.PROTOCOLO_VALIDADO
+      : TipoEvento.PROTOCOLO_REJEITADO;
+
+    await this.logEvent(
+      eventoProtocolo,
+      TipoEntidade.PROTOCOLO,
+      protocolo.id,
+      protocolo
+    );
+
+    return protocolo;
+  }
+
+  /**
+   * INCREMENTO 50: Validações 5-8 de ConstruirProtocoloDeDecisao, extraídas
+   * para que ValidarDecisao reporte exatamente o mesmo motivo_rejeicao.
+   */
+  private validarDadosProtocolo(
+    situacao: SituacaoDecisoria,
+    dados: DadosProtocoloInput,
+    regrasTenant: ClosedLayerRuleSet | undefined
+  ): string[] {
     // ══════════════════════════════════════════════════════════════════════
     // VALIDAÇÃO 5: Campos obrigatórios preenchidos
     // ══════════════════════════════════════════════════════════════════════
@@ -613,61 +894,106 @@ class OrquestradorCognitivo {
     }
 
     // ══════════════════════════════════════════════════════════════════════
-    // DETERMINAR ESTADO DO PROTOCOLO
+    // VALIDAÇÃO 8 (INCREMENTO 48): Regras da Camada Fechada do tenant
+    // As embutidas rodam em RegistrarDecisao; a versão avaliada fica no
+    // protocolo (e portanto no evento PROTOCOLO_VALIDADO/REJEITADO)
     // ══════════════════════════════════════════════════════════════════════
+    if (regrasTenant) {
+      const resultadoTenant = evaluateClosedLayerRuleSet(regrasTenant, situacao, dados);
+      if (resultadoTenant.blocked) {
+        errosValidacao.push(
+          `Camada Fechada (${regrasTenant.ruleSetId} v${regrasTenant.version}): ` +
+          `Regra: ${resultadoTenant.rule}. Motivo: ${resultadoTenant.reason}`
+        );
+      }
+    }
 
-    const now = new Date();
-    let estado: EstadoProtocolo;
-    let motivo_rejeicao: string | undefined;
+    return errosValidacao;
+  }
 
-    if (errosValidacao.length > 0) {
-      estado = EstadoProtocolo.REJEITADO;
-      motivo_rejeicao = errosValidacao.join('; ');
-    } else {
-      estado = EstadoProtocolo.VALIDADO;
+  /**
+   * INCREMENTO 48: Configura a origem do conjunto de regras da Camada
+   * Fechada do tenant. Consultada a cada protocolo/decisão, então uma
+   * nova versão vale sem recriar o orquestrador.
+   */
+  ConfigurarRegrasCamadaFechada(provider: () => ClosedLayerRuleSet | undefined): void {
+    this.closedLayerRuleSetProvider = provider;
+  }
+
+  /**
+   * INCREMENTO 49: Lista todas as regras da Camada Fechada (embutidas +
+   * conjunto do tenant) que a entrada de Decidir() viola, com os campos.
+   *
+   * Função pura: não persiste nada nem grava eventos. O bloqueio efetivo
+   * continua sendo o de RegistrarDecisao (violations[0]).
+   */
+  DiagnosticarCamadaFechada(input: DecisaoCompletaInput): ClosedLayerExplanation {
+    const { situacao, protocolo } = this.montarEntradaSemPersistir(input);
+    return explainClosedLayer(situacao, protocolo, this.closedLayerRuleSetProvider?.());
+  }
+
+  /**
+   * INCREMENTO 50: Validação prévia (dry run) da entrada de Decidir().
+   *
+   * Reúne, sem parar no primeiro erro: regras de criação da situação,
+   * validações 5-8 do protocolo (mesmas mensagens de motivo_rejeicao),
+   * existência das memórias consultadas e todas as regras da Camada
+   * Fechada. Não cria entidades nem grava eventos.
+   */
+  async ValidarDecisao(input: DecisaoCompletaInput): Promise<ValidacaoDecisao> {
+    const { situacao, protocolo } = this.montarEntradaSemPersistir(input);
+    const regrasTenant = this.closedLayerRuleSetProvider?.();
+
+    const erros_situacao = validarDadosSituacao(situacao);
+    const erros_protocolo = this.validarDadosProtocolo(situacao, input.protocolo, regrasTenant);
+
+    for (const memoriaId of protocolo.memoria_consultada_ids) {
+      const episodio = await this.episodioRepo.getById(memoriaId);
+      if (!episodio) {
+        erros_protocolo.push(`Memória ${memoriaId} não encontrada: episódio inexistente`);
+      }
     }
 
-    // ══════════════════════════════════════════════════════════════════════
-    // CONSTRUIR E PERSISTIR PROTOCOLO
-    // ══════════════════════════════════════════════════════════════════════
+    const camada_fechada = explainClosedLayer(situacao, protocolo, regrasTenant);
 
-    // Extrair IDs de anexos utilizados (todos os anexos da situação)
-    const anexos_utilizados_ids = situacao.anexos_analise.map((_, index) =>
-      `anexo-${situacao.id}-${index}`
-    );
+    return {
+      valida: erros_situacao.length === 0 && erros_protocolo.length === 0 && !camada_fechada.blocked,
+      erros_situacao,
+      erros_protocolo,
+      camada_fechada,
+      ...(regrasTenant && {
+        regras_camada_fechada: { ruleSetId: regrasTenant.ruleSetId, version: regrasTenant.version }
+      })
+    };
+  }
+
+  /**
+   * Situação e protocolo como Decidir() os montaria, sem persistir
+   * (mesmos defaults de ExecutarConstruirProtocolo).
+   */
+  private montarEntradaSemPersistir(
+    input: DecisaoCompletaInput
+  ): { situacao: SituacaoDecisoria; protocolo: DecisionProtocol } {
+    const situacao = this.montarSituacao(input.situacao, 'diagnostico');
 
+    const dados = input.protocolo;
     const protocolo: DecisionProtocol = {
-      id: this.gerarId(),
-      episodio_id,
+      id: 'diagnostico',
+      episodio_id: 'diagnostico',
       criterios_minimos: dados.criterios_minimos ?? [],
       riscos_considerados: dados.riscos_considerados ?? [],
       limites_definidos: dados.limites_definidos ?? [],
       perfil_risco: dados.perfil_risco,
       alternativas_avaliadas: dados.alternativas_avaliadas ?? [],
       alternativa_escolhida: dados.alternativa_escolhida ?? '',
-      memoria_consultada_ids: memoriaConsultadaIds,
-      anexos_utilizados_ids,
-      estado,
-      validado_em: now,
-      validado_por: 'Libervia',
-      motivo_rejeicao
+      memoria_consultada_ids: dados.memoria_consultada_ids ?? [],
+      anexos_utilizados_ids: [],
+      estado: EstadoProtocolo.EM_CONSTRUCAO,
+      validado_em: new Date(),
+      validado_por: 'Libervia'
     };
 
-    await this.protocoloRepo.create(protocolo);
-
-    // INCREMENTO 4: Log de protocolo (VALIDADO ou REJEITADO)
-    const eventoProtocolo = protocolo.estado === EstadoProtocolo.VALIDADO
-      ? TipoEvento.PROTOCOLO_VALIDADO
-      : TipoEvento.PROTOCOLO_REJEITADO;
-
-    await this.logEvent(
-      eventoProtocolo,
-      TipoEntidade.PROTOCOLO,
-      protocolo.id,
-      protocolo
-    );
-
-    return protocolo;
+    return { situacao, protocolo };
   }
 
   /**
@@ -701,6 +1027,16 @@ class OrquestradorCognitivo {
     episodio_id: string,
     decisaoInput: Omit<DecisaoInstitucional, 'id' | 'episodio_id' | 'data_decisao'>,
     options?: { emitidoPara?: string }
+  ): Promise<ContratoDeDecisao> {
+    return this.executarPasso('RegistrarDecisao', () =>
+      this.ExecutarRegistrarDecisao(episodio_id, decisaoInput, options)
+    );
+  }
+
+  private async ExecutarRegistrarDecisao(
+    episodio_id: string,
+    decisaoInput: Omit<DecisaoInstitucional, 'id' | 'episodio_id' | 'data_decisao'>,
+    options?: { emitidoPara?: string }
   ): Promise<ContratoDeDecisao> {
     const episodio = await this.episodioRepo.getById(episodio_id);
 
@@ -751,11 +1087,16 @@ class OrquestradorCognitivo {
       );
     }
 
-    const closedLayerResult = validateClosedLayer(situacao, protocolo);
+    // INCREMENTO 48: regras do tenant rodam depois das embutidas
+    const closedLayerResult = validateClosedLayer(situacao, protocolo, this.closedLayerRuleSetProvider?.());
     if (closedLayerResult.blocked) {
+      const conjunto = closedLayerResult.ruleSetId
+        ? `Conjunto: ${closedLayerResult.ruleSetId} v${closedLayerResult.ruleSetVersion}. `
+        : '';
       throw new Error(
         `Decisão bloqueada pela Camada Fechada. ` +
         `Regra: ${closedLayerResult.rule}. ` +
+        conjunto +
         `Motivo: ${closedLayerResult.reason}`
       );
     }
@@ -861,6 +1202,12 @@ class OrquestradorCognitivo {
   }
 
   async IniciarObservacao(episodio_id: string): Promise<void> {
+    return this.executarPasso('IniciarObservacao', () =>
+      this.ExecutarIniciarObservacao(episodio_id)
+    );
+  }
+
+  private async ExecutarIniciarObservacao(episodio_id: string): Promise<void> {
     const episodio = await this.episodioRepo.getById(episodio_id);
 
     if (!episodio) {
@@ -896,6 +1243,12 @@ class OrquestradorCognitivo {
   }
 
   async EncerrarEpisodio(episodio_id: string): Promise<void> {
+    return this.executarPasso('EncerrarEpisodio', () =>
+      this.ExecutarEncerrarEpisodio(episodio_id)
+    );
+  }
+
+  private async ExecutarEncerrarEpisodio(episodio_id: string): Promise<void> {
     const episodio = await this.episodioRepo.getById(episodio_id);
 
     if (!episodio) {
@@ -931,48 +1284,189 @@ class OrquestradorCognitivo {
   }
 
   // ════════════════════════════════════════════════════════════════════════
-  // FUNÇÕES DO INCREMENTO 1
+  // INCREMENTO 30: DECISÃO EM CHAMADA ÚNICA + IDEMPOTÊNCIA
   // ════════════════════════════════════════════════════════════════════════
 
   /**
-   * Consulta memória institucional durante análise
-   * APENAS em EM_ANALISE
-   * Registra consulta como AnexoAnalise (append-only)
-   * NÃO recomenda, NÃO ranqueia, apenas consulta e registra
+   * Configura o repositório de chaves de idempotência usado por Decidir().
    */
-  async ConsultarMemoriaDuranteAnalise(
-    situacao_id: string,
-    query: MemoryQuery
-  ): Promise<MemoryQueryResult> {
-    // Verificar que situação existe
-    const situacao = await this.situacaoRepo.getById(situacao_id);
+  ConfigurarIdempotencia(idempotencyRepo: IdempotencyKeyRepository): void {
+    this.idempotencyRepo = idempotencyRepo;
+  }
 
-    if (!situacao) {
-      throw new Error(`SituaçãoDecisoria com id ${situacao_id} não encontrada`);
-    }
+  /**
+   * Executa o fluxo completo em uma única operação:
+   * Situação → Episódio → Protocolo → Decisão → Contrato
+   *
+   * Com unidade de trabalho configurada, o fluxo inteiro é um único passo
+   * atômico (inclusive o registro da chave de idempotência).
+   *
+   * IDEMPOTÊNCIA:
+   * - Chave nova: executa o fluxo e registra o desfecho
+   * - Chave conhecida + mesma requisição: devolve o desfecho original
+   *   (replay = true) e registra IDEMPOTENT_REPLAY
+   * - Chave conhecida + requisição diferente: IdempotencyKeyConflictError
+   *
+   * Protocolo REJEITADO não é erro: retorna contrato = null.
+   */
+  async Decidir(
+    input: DecisaoCompletaInput,
+    options?: { idempotencyKey?: string; actor?: string; emitidoPara?: string }
+  ): Promise<ResultadoDecisao> {
+    const key = options?.idempotencyKey;
+    const actor = options?.actor ?? 'external';
 
-    // APENAS em EM_ANALISE
-    if (situacao.status !== StatusSituacao.EM_ANALISE) {
-      throw new Error(
-        `Consulta de memória só é permitida em EM_ANALISE. ` +
-        `Status atual: ${situacao.status}`
-      );
+    if (key !== undefined) {
+      validateIdempotencyKey(key);
+      if (!this.idempotencyRepo) {
+        throw new Error(
+          'IdempotencyKeyRepository não configurado. ' +
+          'Use ConfigurarIdempotencia() para aceitar chaves de idempotência.'
+        );
+      }
     }
 
-    // Executar consulta (sem ranking, sem recomendação)
-    // INCREMENTO 2: Internamente usa índices para eficiência
-    const resultado = await this.memoryService.find(query);
-
-    // Registrar consulta como anexo (append-only)
-    await this.RegistrarMemoriaConsultada(situacao_id, query, resultado);
+    const requestHash = hashIdempotentRequest(input);
 
-    // INCREMENTO 4: Log de consulta de memória
-    await this.logEvent(
-      TipoEvento.MEMORIA_CONSULTADA,
-      TipoEntidade.CONSULTA,
-      situacao_id,
-      { query, total_encontrado: resultado.total_encontrado }
-    );
+    return this.executarPasso('Decidir', async () => {
+      if (key !== undefined) {
+        const existing = await this.idempotencyRepo!.get(key);
+        if (existing) {
+          return this.ReproduzirDecisao(existing, requestHash, actor);
+        }
+      }
+
+      const situacao = this.montarSituacao(input.situacao, `sit-${this.gerarId()}`);
+
+      const episodio = await this.ProcessarSolicitacao(situacao, { actor });
+      const protocolo = await this.ConstruirProtocoloDeDecisao(episodio.id, input.protocolo);
+
+      let contrato: ContratoDeDecisao | null = null;
+      if (protocolo.estado === EstadoProtocolo.VALIDADO) {
+        contrato = await this.RegistrarDecisao(
+          episodio.id,
+          {
+            alternativa_escolhida: input.protocolo.alternativa_escolhida,
+            criterios: input.protocolo.criterios_minimos,
+            perfil_risco: input.protocolo.perfil_risco,
+            limites: input.protocolo.limites_definidos,
+            condicoes: input.condicoes ?? []
+          },
+          { emitidoPara: options?.emitidoPara }
+        );
+      }
+
+      if (key !== undefined) {
+        await this.idempotencyRepo!.create({
+          key,
+          requestHash,
+          outcome: contrato ? 'CONTRATO_EMITIDO' : 'PROTOCOLO_REJEITADO',
+          situacaoId: situacao.id,
+          episodioId: episodio.id,
+          protocoloId: protocolo.id,
+          contratoId: contrato?.id,
+          createdAt: new Date().toISOString()
+        });
+      }
+
+      return {
+        situacao_id: situacao.id,
+        episodio_id: episodio.id,
+        protocolo,
+        contrato,
+        replay: false
+      };
+    });
+  }
+
+  /**
+   * Devolve o desfecho registrado para uma chave já usada.
+   */
+  private async ReproduzirDecisao(
+    record: IdempotencyRecord,
+    requestHash: string,
+    actor: string
+  ): Promise<ResultadoDecisao> {
+    if (record.requestHash !== requestHash) {
+      throw new IdempotencyKeyConflictError(record.key);
+    }
+
+    const protocolo = await this.protocoloRepo?.getById(record.protocoloId);
+    const contrato = record.contratoId
+      ? await this.contratoRepo.getById(record.contratoId)
+      : null;
+
+    if (!protocolo || (record.contratoId && !contrato)) {
+      throw new Error(
+        `Registro de idempotência ${record.key} referencia entidades inexistentes ` +
+        `(episódio ${record.episodioId})`
+      );
+    }
+
+    await this.logEvent(
+      TipoEvento.IDEMPOTENT_REPLAY,
+      TipoEntidade.IDEMPOTENCY_KEY,
+      record.key,
+      {
+        episodio_id: record.episodioId,
+        contrato_id: record.contratoId ?? null,
+        outcome: record.outcome
+      },
+      actor
+    );
+
+    return {
+      situacao_id: record.situacaoId,
+      episodio_id: record.episodioId,
+      protocolo,
+      contrato,
+      replay: true
+    };
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // FUNÇÕES DO INCREMENTO 1
+  // ════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Consulta memória institucional durante análise
+   * APENAS em EM_ANALISE
+   * Registra consulta como AnexoAnalise (append-only)
+   * NÃO recomenda, NÃO ranqueia, apenas consulta e registra
+   */
+  async ConsultarMemoriaDuranteAnalise(
+    situacao_id: string,
+    query: MemoryQuery
+  ): Promise<MemoryQueryResult> {
+    // Verificar que situação existe
+    const situacao = await this.situacaoRepo.getById(situacao_id);
+
+    if (!situacao) {
+      throw new Error(`SituaçãoDecisoria com id ${situacao_id} não encontrada`);
+    }
+
+    // APENAS em EM_ANALISE
+    if (situacao.status !== StatusSituacao.EM_ANALISE) {
+      throw new Error(
+        `Consulta de memória só é permitida em EM_ANALISE. ` +
+        `Status atual: ${situacao.status}`
+      );
+    }
+
+    // Executar consulta (sem ranking, sem recomendação)
+    // INCREMENTO 2: Internamente usa índices para eficiência
+    const resultado = await this.memoryService.find(query);
+
+    // Registrar consulta como anexo (append-only)
+    await this.RegistrarMemoriaConsultada(situacao_id, query, resultado);
+
+    // INCREMENTO 4: Log de consulta de memória
+    await this.logEvent(
+      TipoEvento.MEMORIA_CONSULTADA,
+      TipoEntidade.CONSULTA,
+      situacao_id,
+      { query, total_encontrado: resultado.total_encontrado }
+    );
 
     return resultado;
   }
@@ -1313,7 +1807,22 @@ class OrquestradorCognitivo {
     input: MultiAgentRunInput,
     options?: { actor?: ActorId; emitidoPara?: string }
   ): Promise<MultiAgentRunResult> {
-    // Validar que protocoloRepo está configurado
+    // Delegar para o runner
+    const resultado = await runMultiAgent(situacao, input, this.criarContextoMultiAgente(), options);
+
+    // INCREMENTO 39: registrar a execução para consulta posterior
+    if (this.multiAgentRunRepo) {
+      await this.multiAgentRunRepo.create(resultado);
+    }
+
+    return resultado;
+  }
+
+  /**
+   * Contexto de repositórios para o runner multiagente.
+   * Exige protocoloRepo configurado.
+   */
+  private criarContextoMultiAgente(): MultiAgentContext {
     if (!this.protocoloRepo) {
       throw new Error(
         'DecisionProtocolRepository não configurado. ' +
@@ -1321,19 +1830,148 @@ class OrquestradorCognitivo {
       );
     }
 
-    // Criar contexto para o runner
-    const context: MultiAgentContext = {
+    return {
       situacaoRepo: this.situacaoRepo,
       episodioRepo: this.episodioRepo,
       decisaoRepo: this.decisaoRepo,
       contratoRepo: this.contratoRepo,
       protocoloRepo: this.protocoloRepo,
       eventLog: this.eventLog,
-      gerarId: () => this.gerarId()
+      gerarId: () => this.gerarId(),
+      closedLayerRuleSet: this.closedLayerRuleSetProvider?.(),
+      logEvent: (actor, evento, entidade, entidadeId, payload) =>
+        this.logEvent(evento, entidade, entidadeId, payload, actor)
     };
+  }
 
-    // Delegar para o runner
-    return runMultiAgent(situacao, input, context, options);
+  // ════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 39: EXECUÇÕES MULTIAGENTE CONSULTÁVEIS
+  // ════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Configura o repositório de execuções multiagente.
+   * Com ele, cada execução de ProcessarSolicitacaoMultiAgente é registrada.
+   */
+  ConfigurarExecucoesMultiAgente(multiAgentRunRepo: MultiAgentRunRepository): void {
+    this.multiAgentRunRepo = multiAgentRunRepo;
+  }
+
+  /**
+   * Executa o multiagente a partir dos dados da situação, como Decidir():
+   * a situação é criada pelo Core em RASCUNHO.
+   */
+  async DecidirMultiAgente(
+    input: DecisaoMultiAgenteInput,
+    options?: { actor?: ActorId; emitidoPara?: string }
+  ): Promise<MultiAgentRunResult> {
+    const { situacao: dadosSituacao, ...runInput } = input;
+
+    const situacao = this.montarSituacao(dadosSituacao, `sit-${this.gerarId()}`);
+
+    return this.ProcessarSolicitacaoMultiAgente(situacao, runInput, options);
+  }
+
+  /**
+   * Busca uma execução multiagente registrada.
+   * @returns Execução ou null se não encontrada (ou repositório não configurado)
+   */
+  async GetExecucaoMultiAgente(runId: string): Promise<MultiAgentRunResult | null> {
+    if (!this.multiAgentRunRepo) {
+      return null;
+    }
+
+    return this.multiAgentRunRepo.getById(runId);
+  }
+
+  /**
+   * Execuções multiagente de um episódio, da mais antiga para a mais recente.
+   */
+  async ListarExecucoesMultiAgente(episodioId: string): Promise<MultiAgentRunResult[]> {
+    if (!this.multiAgentRunRepo) {
+      return [];
+    }
+
+    return this.multiAgentRunRepo.getByEpisodioId(episodioId);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 40: OVERRIDE HUMANO
+  // ════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Execuções HUMAN_OVERRIDE_PENDING que ainda aguardam escolha humana.
+   */
+  async ListarExecucoesPendentesDeOverride(): Promise<MultiAgentRunResult[]> {
+    if (!this.multiAgentRunRepo) {
+      return [];
+    }
+
+    return this.multiAgentRunRepo.getPendingHumanOverride();
+  }
+
+  /**
+   * Conclui uma execução HUMAN_OVERRIDE_PENDING com a proposta do agente
+   * escolhido por um humano: persiste a decisão e o contrato desse agente
+   * e registra MULTIAGENT_HUMAN_OVERRIDE_SELECTED.
+   *
+   * PRINCÍPIOS:
+   * - Só propostas não bloqueadas pela Camada Fechada podem ser escolhidas
+   * - Justificativa obrigatória (auditável)
+   * - Uma única conclusão por execução (a segunda é recusada; uma chamada
+   *   concorrente recebe HUMAN_OVERRIDE_IN_PROGRESS, e só depois que a
+   *   conclusão é gravada vale HUMAN_OVERRIDE_ALREADY_APPLIED)
+   * - Passo atômico (Inc 29): execução e episódio são relidos dentro do
+   *   passo, então a verificação vale também após reinício
+   *
+   * @throws MultiAgentError (RUN_NOT_FOUND, HUMAN_OVERRIDE_IN_PROGRESS,
+   *   HUMAN_OVERRIDE_ALREADY_APPLIED, HUMAN_OVERRIDE_NOT_PENDING, JUSTIFICATIVA_REQUIRED, AGENT_NOT_IN_RUN, AGENT_BLOCKED,
+   *   EPISODIO_NOT_CRIADO)
+   */
+  async ConcluirOverrideHumano(
+    runId: string,
+    input: HumanOverrideInput,
+    options?: { emitidoPara?: string }
+  ): Promise<MultiAgentRunResult> {
+    if (!this.multiAgentRunRepo) {
+      throw new Error(
+        'MultiAgentRunRepository não configurado. ' +
+        'Use ConfigurarExecucoesMultiAgente() para concluir execuções por override humano.'
+      );
+    }
+
+    // Chamadas concorrentes para o mesmo runId: só a primeira prossegue
+    // (sem unidade de trabalho, os passos não são serializados)
+    if (this.overridesEmAndamento.has(runId)) {
+      throw new MultiAgentError(
+        `Override humano da execução ${runId} já em andamento`,
+        'HUMAN_OVERRIDE_IN_PROGRESS',
+        { runId }
+      );
+    }
+
+    const runRepo = this.multiAgentRunRepo;
+
+    this.overridesEmAndamento.add(runId);
+    try {
+      return await this.executarPasso('ConcluirOverrideHumano', async () => {
+        const run = await runRepo.getById(runId);
+        if (!run) {
+          throw new MultiAgentError(`Execução ${runId} não encontrada`, 'RUN_NOT_FOUND', { runId });
+        }
+
+        const concluida = await completeHumanOverride(
+          run,
+          input,
+          this.criarContextoMultiAgente(),
+          options
+        );
+        await runRepo.update(concluida);
+
+        return concluida;
+      });
+    } finally {
+      this.overridesEmAndamento.delete(runId);
+    }
   }
 
   // ════════════════════════════════════════════════════════════════════════
@@ -1379,6 +2017,12 @@ class OrquestradorCognitivo {
       throw new Error('mandate.concedido_por é obrigatório');
     }
 
+    // INCREMENTO 51: Condições de limites e gatilhos precisam ser avaliáveis
+    const errosCondicao = validateMandateConditions(mandate);
+    if (errosCondicao.length > 0) {
+      throw new Error(`mandate.${errosCondicao[0]}`);
+    }
+
     // Garantir campos padrão
     const mandateToCreate: AutonomyMandate = {
       ...mandate,
@@ -1833,6 +2477,606 @@ class OrquestradorCognitivo {
     return updated;
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 41: GESTÃO DE MANDATOS PELO GATEWAY
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Obtém um mandato pelo ID, em qualquer status.
+   *
+   * @param mandateId - ID do mandato
+   * @returns Mandato ou null
+   */
+  async GetMandato(mandateId: string): Promise<AutonomyMandate | null> {
+    if (!this.autonomyMandateRepo) {
+      return null;
+    }
+
+    return this.autonomyMandateRepo.getById(mandateId);
+  }
+
+  /**
+   * Retoma um mandato suspenso por consequência (Inc 19).
+   * Mesmas guardas de AutonomyConsequenceService.resumeMandate: revogado ou
+   * expirado não volta; mandato não suspenso é no-op; suspensão disparada por
+   * observação exige motivo.
+   *
+   * @param mandateId - ID do mandato
+   * @param retomadoPor - Ator humano que retoma
+   * @param motivo - Motivo da retomada
+   * @returns Mandato após a retomada
+   */
+  async RetomarMandato(
+    mandateId: string,
+    retomadoPor: ActorId,
+    motivo?: string
+  ): Promise<AutonomyMandate> {
+    if (!this.autonomyMandateRepo) {
+      throw new Error(
+        'AutonomyMandateRepository não configurado. ' +
+        'Passe autonomyMandateRepo no constructor para usar Incremento 19.'
+      );
+    }
+
+    const service = new AutonomyConsequenceService({
+      mandateRepo: this.autonomyMandateRepo,
+      eventLog: this.eventLog
+    });
+    await service.resumeMandate(mandateId, retomadoPor, motivo);
+
+    return (await this.autonomyMandateRepo.getById(mandateId))!;
+  }
+
+  /**
+   * Mandato ativo de cada agente (o mais recente, como em GetMandatoAtivo).
+   * Mandatos fora da validade ou sem usos restantes não contam.
+   *
+   * @param now - Data de referência
+   * @returns Um mandato por agente com mandato ativo, ordenado por agentId
+   */
+  async ListarMandatosAtivos(now: Date = new Date()): Promise<AutonomyMandate[]> {
+    if (!this.autonomyMandateRepo) {
+      return [];
+    }
+
+    const todos = await this.autonomyMandateRepo.getAll(true);
+    const agentIds = [...new Set(todos.map(m => m.agentId))].sort();
+
+    const ativos: AutonomyMandate[] = [];
+    for (const agentId of agentIds) {
+      const mandato = await this.autonomyMandateRepo.getMostRecentActiveByAgentId(agentId, now);
+      if (mandato) ativos.push(mandato);
+    }
+    return ativos;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 52: MODELOS DE MANDATO
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Configura o repositório de modelos de mandato.
+   * Os mandatos concedidos por modelo usam o repositório de mandatos.
+   */
+  ConfigurarModelosMandato(mandateTemplateRepo: MandateTemplateRepository): void {
+    this.mandateTemplateRepo = mandateTemplateRepo;
+  }
+
+  private exigirModelosMandato(): MandateTemplateRepository {
+    if (!this.mandateTemplateRepo || !this.autonomyMandateRepo) {
+      throw new Error(
+        'MandateTemplateRepository não configurado. ' +
+        'Use ConfigurarModelosMandato() e passe autonomyMandateRepo no constructor.'
+      );
+    }
+    return this.mandateTemplateRepo;
+  }
+
+  /**
+   * Versão do modelo (default: a mais recente).
+   * @throws Se o modelo ou a versão não existe
+   */
+  private async obterVersaoModelo(templateId: string, version?: number): Promise<MandateTemplate> {
+    const repo = this.exigirModelosMandato();
+    const template = version !== undefined
+      ? await repo.getVersion(templateId, version)
+      : await repo.getLatest(templateId);
+    if (!template) {
+      throw new Error(
+        `Modelo de mandato ${templateId}${version !== undefined ? ` v${version}` : ''} não encontrado`
+      );
+    }
+    return template;
+  }
+
+  /**
+   * Mandatos do modelo ainda em vigor: ativos dentro da validade e dos
+   * usos, ou suspensos (a suspensão pode ser retomada).
+   */
+  private async mandatosVigentesDoModelo(templateId: string, now: Date): Promise<AutonomyMandate[]> {
+    // getAll(false) descarta suspensos; o filtro abaixo decide o que está em vigor
+    const todos = await this.autonomyMandateRepo!.getAll(true);
+    return todos.filter(m =>
+      m.templateId === templateId &&
+      (getEffectiveStatus(m) === 'suspended' || isMandateActive(m, now).ok)
+    );
+  }
+
+  /**
+   * Cria um modelo de mandato (versão 1).
+   *
+   * @param templateId - Nome do modelo (minúsculas, dígitos, ".", "_", "-")
+   * @param spec - Campos do modelo (validados por validateMandateTemplateSpec)
+   * @param actor - Ator que cria
+   */
+  async CriarModeloMandato(templateId: string, spec: unknown, actor: ActorId): Promise<MandateTemplate> {
+    const repo = this.exigirModelosMandato();
+
+    if (!isValidMandateTemplateId(templateId)) {
+      throw new Error('templateId: use minúsculas, dígitos, ".", "_" e "-" (até 64 caracteres)');
+    }
+    const validacao = validateMandateTemplateSpec(spec);
+    if (!validacao.valid) {
+      throw new Error(`Modelo de mandato inválido: ${validacao.errors.join('; ')}`);
+    }
+    if (await repo.getLatest(templateId)) {
+      throw new Error(`Modelo de mandato ${templateId} já existe`);
+    }
+
+    const template: MandateTemplate = {
+      ...validacao.spec!,
+      templateId,
+      version: 1,
+      criado_por: actor,
+      criado_em: new Date().toISOString()
+    };
+    await repo.create(template);
+
+    await this.logEvent(
+      TipoEvento.MANDATE_TEMPLATE_CREATED,
+      TipoEntidade.MANDATE_TEMPLATE,
+      templateId,
+      { templateId, version: 1, template },
+      actor
+    );
+
+    return template;
+  }
+
+  /**
+   * Cria uma nova versão do modelo.
+   *
+   * Mandatos vigentes NÃO mudam: o resultado traz o diff e os mandatos
+   * desatualizados, que só passam à nova versão por ReconcederMandatosPorModelo.
+   *
+   * @param expectedVersion - Versão atual conhecida por quem altera
+   * @throws Se expectedVersion não é a versão atual ou nada mudou
+   */
+  async AtualizarModeloMandato(
+    templateId: string,
+    spec: unknown,
+    expectedVersion: number,
+    actor: ActorId,
+    now: Date = new Date()
+  ): Promise<MandateTemplateUpdateResult> {
+    const repo = this.exigirModelosMandato();
+    const anterior = await this.obterVersaoModelo(templateId);
+
+    if (anterior.version !== expectedVersion) {
+      throw new Error(
+        `Versão esperada ${expectedVersion}, mas o modelo ${templateId} está na versão ${anterior.version}`
+      );
+    }
+    const validacao = validateMandateTemplateSpec(spec);
+    if (!validacao.valid) {
+      throw new Error(`Modelo de mandato inválido: ${validacao.errors.join('; ')}`);
+    }
+    const diff = diffMandateTemplates(anterior, validacao.spec!);
+    if (diff.length === 0) {
+      throw new Error(`Modelo de mandato ${templateId} v${anterior.version}: nenhuma alteração`);
+    }
+
+    const template: MandateTemplate = {
+      ...validacao.spec!,
+      templateId,
+      version: anterior.version + 1,
+      criado_por: actor,
+      criado_em: now.toISOString()
+    };
+    await repo.create(template);
+
+    const mandatosDesatualizados = (await this.mandatosVigentesDoModelo(templateId, now))
+      .filter(m => (m.templateVersion ?? 0) < template.version)
+      .map(m => m.id);
+
+    await this.logEvent(
+      TipoEvento.MANDATE_TEMPLATE_UPDATED,
+      TipoEntidade.MANDATE_TEMPLATE,
+      templateId,
+      {
+        templateId,
+        version: template.version,
+        versaoAnterior: anterior.version,
+        diff,
+        mandatosDesatualizados,
+        template
+      },
+      actor
+    );
+
+    return { template, versaoAnterior: anterior.version, diff, mandatosDesatualizados };
+  }
+
+  /**
+   * Versão mais recente de cada modelo, ordenada por templateId.
+   */
+  async ListarModelosMandato(): Promise<MandateTemplate[]> {
+    return this.exigirModelosMandato().listLatest();
+  }
+
+  /**
+   * Versão de um modelo (default: a mais recente).
+   * @returns Versão ou null se não encontrada
+   */
+  async ObterModeloMandato(templateId: string, version?: number): Promise<MandateTemplate | null> {
+    const repo = this.exigirModelosMandato();
+    return version !== undefined ? repo.getVersion(templateId, version) : repo.getLatest(templateId);
+  }
+
+  /**
+   * Todas as versões de um modelo (vazio se não existe).
+   */
+  async ListarVersoesModeloMandato(templateId: string): Promise<MandateTemplate[]> {
+    return this.exigirModelosMandato().listVersions(templateId);
+  }
+
+  /**
+   * Concede mandatos a vários agentes a partir de um modelo.
+   *
+   * Entrada inteira validada antes da primeira concessão; cada mandato é
+   * registrado por ConcederMandato (AUTONOMY_GRANTED) e o lote por
+   * MANDATE_TEMPLATE_GRANTED. Se uma concessão falha, o evento do lote
+   * registra as concessões feitas e a falha, e o erro é relançado.
+   */
+  async ConcederMandatosPorModelo(
+    templateId: string,
+    input: MandateTemplateGrantInput,
+    actor: ActorId,
+    now: Date = new Date()
+  ): Promise<MandateTemplateGrantResult> {
+    this.exigirModelosMandato();
+
+    const { agentIds, validFrom, validUntil, maxUses } = input;
+    if (!Array.isArray(agentIds) || agentIds.length === 0) {
+      throw new Error('agentIds é obrigatório e não pode ser vazio');
+    }
+    if (agentIds.length > MAX_MANDATE_TEMPLATE_AGENTS) {
+      throw new Error(`agentIds: máximo de ${MAX_MANDATE_TEMPLATE_AGENTS} agentes por concessão`);
+    }
+    agentIds.forEach((agentId, i) => {
+      if (typeof agentId !== 'string' || agentId.trim().length === 0) {
+        throw new Error(`agentIds[${i}] deve ser texto não vazio`);
+      }
+      if (agentIds.indexOf(agentId) !== i) {
+        throw new Error(`agentIds[${i}] duplicado: ${agentId}`);
+      }
+    });
+    if (validFrom !== undefined && validUntil !== undefined && Date.parse(validUntil) <= Date.parse(validFrom)) {
+      throw new Error('validUntil deve ser posterior a validFrom');
+    }
+
+    const template = await this.obterVersaoModelo(templateId, input.version);
+
+    const mandates: AutonomyMandate[] = [];
+    let falha: { agentId: string; erro: string; naoConcedidos: string[] } | undefined;
+    let erro: unknown;
+
+    for (const [i, agentId] of agentIds.entries()) {
+      const mandate = buildMandateFromTemplate(template, {
+        id: `mandate-${this.gerarId()}`,
+        agentId,
+        concedidoPor: actor,
+        now,
+        validFrom,
+        validUntil,
+        maxUses
+      });
+      try {
+        mandates.push(await this.ConcederMandato(mandate));
+      } catch (error) {
+        erro = error;
+        falha = {
+          agentId,
+          erro: error instanceof Error ? error.message : String(error),
+          naoConcedidos: agentIds.slice(i)
+        };
+        break;
+      }
+    }
+
+    await this.logEvent(
+      TipoEvento.MANDATE_TEMPLATE_GRANTED,
+      TipoEntidade.MANDATE_TEMPLATE,
+      templateId,
+      {
+        templateId,
+        version: template.version,
+        agentIds: mandates.map(m => m.agentId),
+        mandateIds: mandates.map(m => m.id),
+        ...(falha ? { falha } : {})
+      },
+      actor
+    );
+
+    if (falha) throw erro;
+
+    return { templateId, version: template.version, mandates };
+  }
+
+  /**
+   * Mandatos vigentes concedidos por versões anteriores do modelo, com o
+   * diff até a versão atual. Não altera nada.
+   *
+   * Mandatos suspensos aparecem como não reconcedíveis: reconceder
+   * contornaria a revisão humana exigida pela suspensão (Inc 19).
+   * Mandatos que já têm substituto (não revogado) trazem substitutoId:
+   * a reconcessão anterior parou antes de revogá-los.
+   */
+  async PlanejarReconcessaoModelo(templateId: string, now: Date = new Date()): Promise<MandateRegrantPlan> {
+    const atual = await this.obterVersaoModelo(templateId);
+    const versoes = new Map<number, MandateTemplate>();
+
+    const substitutos = new Map<string, string>();
+    for (const m of await this.autonomyMandateRepo!.getAll(true)) {
+      if (m.substitui_mandato_id && !m.revogado) {
+        substitutos.set(m.substitui_mandato_id, m.id);
+      }
+    }
+
+    const itens: MandateRegrantPlan['itens'] = [];
+    for (const mandate of await this.mandatosVigentesDoModelo(templateId, now)) {
+      const versao = mandate.templateVersion ?? 0;
+      if (versao >= atual.version) continue;
+
+      if (!versoes.has(versao)) {
+        versoes.set(versao, await this.obterVersaoModelo(templateId, versao));
+      }
+      // Com substituto, resta só revogar: não contorna a suspensão
+      const substitutoId = substitutos.get(mandate.id);
+      const suspenso = !substitutoId && getEffectiveStatus(mandate) === 'suspended';
+      itens.push({
+        mandateId: mandate.id,
+        agentId: mandate.agentId,
+        templateVersion: versao,
+        reconcedivel: !suspenso,
+        motivo: suspenso ? 'Mandato suspenso: retomada exige revisão humana' : undefined,
+        substitutoId,
+        diff: diffMandateTemplates(versoes.get(versao)!, atual)
+      });
+    }
+
+    return { templateId, version: atual.version, itens };
+  }
+
+  /**
+   * Reconcede à versão atual do modelo os mandatos do plano: concede um
+   * mandato novo (mesmo agente, validade, maxUses e usos já consumidos) e
+   * revoga o anterior. Cada passo é auditado (AUTONOMY_GRANTED,
+   * AUTONOMY_REVOKED) e o lote por MANDATE_TEMPLATE_REGRANTED.
+   *
+   * Mandato com substituto (substitutoId no plano) é apenas revogado, então
+   * repetir a reconcessão após uma falha não concede de novo. Se um passo
+   * falha, o evento do lote registra o que foi feito e a falha, e o erro
+   * é relançado.
+   *
+   * @throws Se expectedVersion não é a versão atual do modelo
+   */
+  async ReconcederMandatosPorModelo(
+    templateId: string,
+    input: MandateRegrantInput,
+    actor: ActorId,
+    now: Date = new Date()
+  ): Promise<MandateRegrantResult> {
+    const plano = await this.PlanejarReconcessaoModelo(templateId, now);
+    if (plano.version !== input.expectedVersion) {
+      throw new Error(
+        `Versão esperada ${input.expectedVersion}, mas o modelo ${templateId} está na versão ${plano.version}`
+      );
+    }
+    const template = await this.obterVersaoModelo(templateId, plano.version);
+
+    const ignorados: MandateRegrantResult['ignorados'] = [];
+    let itens = plano.itens;
+    if (input.mandateIds) {
+      const noPlano = new Set(itens.map(item => item.mandateId));
+      for (const mandateId of input.mandateIds) {
+        if (!noPlano.has(mandateId)) {
+          ignorados.push({ mandateId, motivo: 'Não é mandato vigente de versão anterior do modelo' });
+        }
+      }
+      itens = itens.filter(item => input.mandateIds!.includes(item.mandateId));
+    }
+
+    const reconcedidos: MandateRegrantResult['reconcedidos'] = [];
+    let falha: { mandateId: string; novo?: string; erro: string } | undefined;
+    let erro: unknown;
+
+    for (const item of itens) {
+      if (!item.reconcedivel) {
+        ignorados.push({ mandateId: item.mandateId, motivo: item.motivo! });
+        continue;
+      }
+
+      let concedido: AutonomyMandate | null = null;
+      try {
+        const anterior = (await this.autonomyMandateRepo!.getById(item.mandateId))!;
+        concedido = item.substitutoId
+          ? await this.autonomyMandateRepo!.getById(item.substitutoId)
+          : await this.ConcederMandato({
+              ...buildMandateFromTemplate(template, {
+                id: `mandate-${this.gerarId()}`,
+                agentId: anterior.agentId,
+                concedidoPor: actor,
+                now,
+                validFrom: anterior.validFrom,
+                uses: anterior.uses,
+                substituiMandatoId: anterior.id
+              }),
+              // Validade e usos são do mandato, não do modelo
+              validUntil: anterior.validUntil,
+              maxUses: anterior.maxUses
+            });
+
+        await this.RevogarMandato(
+          anterior.id,
+          actor,
+          `Reconcedido pelo modelo ${templateId} v${template.version}: ${concedido!.id}`
+        );
+        reconcedidos.push({ anterior: anterior.id, mandate: concedido! });
+      } catch (error) {
+        erro = error;
+        falha = {
+          mandateId: item.mandateId,
+          novo: concedido?.id,
+          erro: error instanceof Error ? error.message : String(error)
+        };
+        break;
+      }
+    }
+
+    await this.logEvent(
+      TipoEvento.MANDATE_TEMPLATE_REGRANTED,
+      TipoEntidade.MANDATE_TEMPLATE,
+      templateId,
+      {
+        templateId,
+        version: template.version,
+        reconcedidos: reconcedidos.map(r => ({
+          anterior: r.anterior,
+          novo: r.mandate.id,
+          agentId: r.mandate.agentId
+        })),
+        ignorados,
+        ...(falha ? { falha } : {})
+      },
+      actor
+    );
+
+    if (falha) throw erro;
+
+    return { templateId, version: template.version, reconcedidos, ignorados };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 42: REVISÃO HUMANA PELO GATEWAY
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Serviço de revisão do tenant atual, com mandatos e EventLog para que
+   * os efeitos da resolução (Inc 20) sejam aplicados e auditados.
+   */
+  private criarServicoRevisao(): ReviewCaseService {
+    if (!this.reviewCaseRepo) {
+      throw new Error(
+        'ReviewCaseRepository não configurado. ' +
+        'Passe reviewCaseRepo no constructor para usar Incremento 20.'
+      );
+    }
+
+    return new ReviewCaseService({
+      reviewRepo: this.reviewCaseRepo,
+      eventLog: this.eventLog,
+      mandateRepo: this.autonomyMandateRepo
+    });
+  }
+
+  /**
+   * Obtém um caso de revisão do tenant atual.
+   *
+   * @param reviewId - ID do caso
+   * @returns Caso ou null
+   */
+  async GetCasoRevisao(reviewId: string): Promise<ReviewCase | null> {
+    if (!this.reviewCaseRepo) {
+      return null;
+    }
+
+    return this.reviewCaseRepo.getById(this.tenantId, reviewId);
+  }
+
+  /**
+   * Revisor assume um caso OPEN.
+   *
+   * @param reviewId - ID do caso
+   * @param revisor - Identidade do revisor
+   * @param expectedVersion - Versão lida pelo revisor (opcional)
+   */
+  async AssumirCasoRevisao(
+    reviewId: string,
+    revisor: ActorId,
+    expectedVersion?: number
+  ): Promise<ReviewCase> {
+    return this.criarServicoRevisao().claim(this.tenantId, reviewId, revisor, expectedVersion);
+  }
+
+  /**
+   * Revisor devolve à fila um caso que havia assumido.
+   *
+   * @param reviewId - ID do caso
+   * @param revisor - Identidade do revisor
+   * @param expectedVersion - Versão lida pelo revisor (opcional)
+   */
+  async DevolverCasoRevisao(
+    reviewId: string,
+    revisor: ActorId,
+    expectedVersion?: number
+  ): Promise<ReviewCase> {
+    return this.criarServicoRevisao().release(this.tenantId, reviewId, revisor, expectedVersion);
+  }
+
+  /**
+   * Atualiza as notas de um caso.
+   *
+   * @param reviewId - ID do caso
+   * @param notas - Novas notas
+   * @param revisor - Identidade do revisor
+   * @param expectedVersion - Versão lida pelo revisor (opcional)
+   */
+  async AtualizarNotasCasoRevisao(
+    reviewId: string,
+    notas: string,
+    revisor: ActorId,
+    expectedVersion?: number
+  ): Promise<ReviewCase> {
+    return this.criarServicoRevisao().updateNotes(this.tenantId, reviewId, notas, revisor, expectedVersion);
+  }
+
+  /**
+   * Resolve um caso e aplica os efeitos pedidos.
+   *
+   * @param reviewId - ID do caso
+   * @param input - Resolução (decidedBy é o revisor)
+   */
+  async ResolverCasoRevisao(
+    reviewId: string,
+    input: ResolveReviewCaseInput
+  ): Promise<ResolveReviewResult> {
+    return this.criarServicoRevisao().resolve(this.tenantId, reviewId, input);
+  }
+
+  /**
+   * Dispensa um caso.
+   *
+   * @param reviewId - ID do caso
+   * @param input - Dispensa (dismissedBy é o revisor)
+   */
+  async DispensarCasoRevisao(
+    reviewId: string,
+    input: DismissReviewCaseInput
+  ): Promise<ReviewCase> {
+    return this.criarServicoRevisao().dismiss(this.tenantId, reviewId, input);
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // INCREMENTO 26: BACKUP, RESTORE & DISASTER RECOVERY
   // ══════════════════════════════════════════════════════════════════════════
@@ -1842,8 +3086,9 @@ class OrquestradorCognitivo {
    * Deve ser chamado após o construtor para habilitar funcionalidades de backup.
    *
    * @param backupDir - Diretório para armazenar backups
+   * @param onDRProgress - INCREMENTO 44: progresso dos procedimentos DR
    */
-  async ConfigurarBackup(backupDir: string): Promise<void> {
+  async ConfigurarBackup(backupDir: string, onDRProgress?: DRProgressCallback): Promise<void> {
     this.backupRepo = new BackupRepositoryImpl(backupDir);
 
     // Criar provedores de dados
@@ -1932,7 +3177,8 @@ class OrquestradorCognitivo {
     const appenders: RestoreAppenders = {
       appendEvent: async (event) => {
         if (!this.eventLog) return;
-        await this.eventLog.appendRaw(event);
+        // INCREMENTO 35: o backup é JSON, o timestamp chega como string
+        await this.eventLog.appendRaw({ ...event, timestamp: new Date(event.timestamp) });
       },
       appendObservacao: async (observacao) => {
         if (!this.observacaoRepo) return;
@@ -1971,12 +3217,27 @@ class OrquestradorCognitivo {
       appenders,
       onRestoreEvent
     );
+
+    // INCREMENTO 44: procedimentos DR sobre os mesmos serviços
+    this.drService = new DisasterRecoveryService(
+      this.backupRepo,
+      this.backupService,
+      this.restoreService,
+      onDRProgress
+    );
   }
 
   /**
    * Cria um backup do estado atual.
    *
-   * @param options - Opções de backup (tenant, entidades a incluir)
+   * INCREMENTO 46: com `baseBackupId`, cria backup incremental sobre a
+   * cadeia da base (eventos após o último evento da base e itens novos ou
+   * alterados das demais entidades).
+   *
+   * INCREMENTO 47: com `encrypted`, as entidades são cifradas em repouso
+   * com a chave ativa do key-ring (LIBERVIA_BACKUP_KEYS).
+   *
+   * @param options - Opções de backup (tenant, entidades a incluir, base)
    * @returns Snapshot do backup criado
    */
   async CriarBackup(options?: BackupOptions): Promise<BackupSnapshot> {
@@ -2027,12 +3288,22 @@ class OrquestradorCognitivo {
       );
     }
 
-    return this.restoreService.restore(backupId, options);
+    const result = await this.restoreService.restore(backupId, options);
+
+    // INCREMENTO 35: verifica os repositórios restaurados contra o EventLog
+    if (result.success && options.mode === 'effective' && this.projectionStorage && this.eventLog) {
+      result.projection = await verifyProjection(this.eventLog, this.projectionStorage);
+    }
+
+    return result;
   }
 
   /**
    * Lista backups disponíveis.
    *
+   * INCREMENTO 46: cada item traz `kind` ('full' | 'incremental'); os
+   * incrementais trazem baseBackupId, chainRootId e chainDepth.
+   *
    * @param tenantId - Filtrar por tenant (opcional)
    * @returns Lista de metadados de backups
    */
@@ -2064,6 +3335,194 @@ class OrquestradorCognitivo {
     return this.backupService.getLatestBackup(tenantId);
   }
 
+  /**
+   * INCREMENTO 44: Verifica se um backup existe no diretório configurado.
+   */
+  async ExisteBackup(backupId: string): Promise<boolean> {
+    if (!this.backupRepo) {
+      throw new Error(
+        'Serviço de backup não configurado. ' +
+        'Chame ConfigurarBackup(backupDir) primeiro.'
+      );
+    }
+
+    return this.backupRepo.exists(backupId);
+  }
+
+  /**
+   * INCREMENTO 45: Remove um backup (retenção dos backups agendados).
+   * Registra BACKUP_DELETED com o motivo.
+   * INCREMENTO 46: lança BackupChainError se o backup for base de incremental.
+   *
+   * @returns true se removido, false se não existia
+   */
+  async RemoverBackup(backupId: string, motivo: string): Promise<boolean> {
+    if (!this.backupService) {
+      throw new Error(
+        'Serviço de backup não configurado. ' +
+        'Chame ConfigurarBackup(backupDir) primeiro.'
+      );
+    }
+
+    return this.backupService.deleteBackup(backupId, motivo);
+  }
+
+  /**
+   * INCREMENTO 46: Cadeia de um backup, do completo na raiz até ele.
+   *
+   * @param backupId - ID do backup (completo ou incremental)
+   * @returns Metadados da cadeia, raiz primeiro
+   */
+  async ObterCadeiaBackup(backupId: string): Promise<BackupSnapshot['metadata'][]> {
+    if (!this.backupService) {
+      throw new Error(
+        'Serviço de backup não configurado. ' +
+        'Chame ConfigurarBackup(backupDir) primeiro.'
+      );
+    }
+
+    const chain = await this.backupService.getBackupChain(backupId);
+    return chain.map(snapshot => snapshot.metadata);
+  }
+
+  /**
+   * INCREMENTO 47: Rotação de chave — re-embrulha as chaves de dados dos
+   * backups cifrados com a chave ativa do key-ring, sem decifrar o conteúdo.
+   *
+   * @param tenantId - Filtrar por tenant (opcional)
+   * @returns Backups re-embrulhados, inalterados e com falha
+   */
+  async RotacionarChaveBackups(tenantId?: string): Promise<BackupRewrapResult> {
+    if (!this.backupService) {
+      throw new Error(
+        'Serviço de backup não configurado. ' +
+        'Chame ConfigurarBackup(backupDir) primeiro.'
+      );
+    }
+
+    return this.backupService.rewrapBackups(tenantId);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 44: PROCEDIMENTOS DE DISASTER RECOVERY
+  // ════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Inicia um procedimento DR (primeira fase).
+   * Procedimentos com confirmação param no passo de confirmação do operador.
+   *
+   * @param tipo - Tipo do procedimento
+   * @param backupId - Backup de destino (old_snapshot_restore e controlled_rollback)
+   */
+  async IniciarProcedimentoDR(tipo: DRProcedureType, backupId?: string): Promise<DRProcedure> {
+    const dr = this.getDisasterRecovery();
+
+    switch (tipo) {
+      case 'total_node_loss':
+        return dr.startTotalNodeLoss(this.tenantId);
+      case 'corruption_detection':
+        return dr.startCorruptionDetection();
+      case 'old_snapshot_restore':
+        return dr.startOldSnapshotRestore(this.exigirBackupId(tipo, backupId));
+      case 'controlled_rollback':
+        return dr.startControlledRollback(this.exigirBackupId(tipo, backupId));
+    }
+  }
+
+  /**
+   * Confirma um procedimento DR parado na confirmação (segunda fase).
+   */
+  async ConfirmarProcedimentoDR(procedureId: string): Promise<DRProcedure> {
+    return this.getDisasterRecovery().confirmProcedure(procedureId);
+  }
+
+  /**
+   * Indica se o procedimento aguarda confirmação do operador.
+   */
+  ProcedimentoDRAguardaConfirmacao(procedureId: string): boolean {
+    return this.getDisasterRecovery().isAwaitingConfirmation(procedureId);
+  }
+
+  /**
+   * Cancela um procedimento DR não concluído.
+   *
+   * @throws DRProcedureNotFoundError se o procedimento não existir
+   * @throws DRProcedureStateError se o procedimento já estiver concluído
+   */
+  CancelarProcedimentoDR(procedureId: string): DRProcedure {
+    const dr = this.getDisasterRecovery();
+    const procedure = dr.getProcedure(procedureId);
+    if (!procedure) {
+      throw new DRProcedureNotFoundError(procedureId);
+    }
+
+    if (!dr.cancelProcedure(procedureId)) {
+      throw new DRProcedureStateError(`Procedimento DR já concluído: ${procedureId}`, procedureId);
+    }
+
+    return procedure;
+  }
+
+  /**
+   * Obtém um procedimento DR da instância.
+   */
+  GetProcedimentoDR(procedureId: string): DRProcedure | null {
+    return this.getDisasterRecovery().getProcedure(procedureId) ?? null;
+  }
+
+  /**
+   * Lista os procedimentos DR da instância.
+   */
+  ListarProcedimentosDR(): DRProcedure[] {
+    return this.getDisasterRecovery().listActiveProcedures();
+  }
+
+  private getDisasterRecovery(): DisasterRecoveryService {
+    if (!this.drService) {
+      throw new Error(
+        'Serviço de backup não configurado. ' +
+        'Chame ConfigurarBackup(backupDir) primeiro.'
+      );
+    }
+
+    return this.drService;
+  }
+
+  private exigirBackupId(tipo: DRProcedureType, backupId?: string): string {
+    if (!backupId) {
+      throw new Error(`backupId é obrigatório para o procedimento ${tipo}`);
+    }
+
+    return backupId;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 35: PROJEÇÃO DE ESTADO A PARTIR DO EVENTLOG
+  // ════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Configura o driver dos repositórios verificados pela projeção.
+   * Com projeção configurada, RestaurarBackup() efetivo inclui a verificação.
+   */
+  ConfigurarProjecao(storage: StorageDriver): void {
+    this.projectionStorage = storage;
+  }
+
+  /**
+   * Reconstrói episódios, decisões, contratos, mandatos e casos de revisão
+   * a partir do EventLog e compara com os repositórios.
+   */
+  async VerificarProjecao(): Promise<ProjectionReport> {
+    if (!this.projectionStorage || !this.eventLog) {
+      throw new Error(
+        'Projeção não configurada. ' +
+        'Chame ConfigurarProjecao(storage) com EventLog configurado.'
+      );
+    }
+
+    return verifyProjection(this.eventLog, this.projectionStorage);
+  }
+
   // ════════════════════════════════════════════════════════════════════════
   // UTILITÁRIOS
   // ════════════════════════════════════════════════════════════════════════
@@ -2071,6 +3530,38 @@ class OrquestradorCognitivo {
   private gerarId(): string {
     return `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
   }
+
+  /**
+   * Monta a situação em RASCUNHO a partir dos dados do chamador.
+   * Copia campo a campo: campos extras do corpo não são persistidos.
+   * Listas ausentes seguem ausentes para a validação da situação.
+   */
+  private montarSituacao(dados: DadosSituacaoInput, id: string): SituacaoDecisoria {
+    return {
+      id,
+      dominio: dados.dominio,
+      contexto: dados.contexto,
+      objetivo: dados.objetivo,
+      incertezas: dados.incertezas,
+      alternativas: dados.alternativas?.map(alt => ({
+        descricao: alt.descricao,
+        riscos_associados: alt.riscos_associados
+      })),
+      riscos: dados.riscos?.map(r => ({
+        descricao: r.descricao,
+        tipo: r.tipo,
+        reversibilidade: r.reversibilidade
+      })),
+      urgencia: dados.urgencia,
+      capacidade_absorcao: dados.capacidade_absorcao,
+      consequencia_relevante: dados.consequencia_relevante,
+      possibilidade_aprendizado: dados.possibilidade_aprendizado,
+      status: StatusSituacao.RASCUNHO,
+      data_criacao: new Date(),
+      caso_uso_declarado: dados.caso_uso_declarado,
+      anexos_analise: []
+    };
+  }
 }
 
 export { OrquestradorCognitivo };
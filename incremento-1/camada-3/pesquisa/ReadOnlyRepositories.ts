@@ -24,8 +24,24 @@ import {
   AnexoAnalise,
   MemoryQuery
 } from '../entidades/tipos';
+import { EventLogRepository, EventLogListener } from '../event-log/EventLogRepository';
+import { ActorId, EventLogEntry } from '../event-log/EventLogEntry';
 import { ResearchWriteForbiddenError } from './ResearchTypes';
 
+// ════════════════════════════════════════════════════════════════════════════
+// REGISTRO DE ESCRITAS RECUSADAS (INCREMENTO 43)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Registra a operação recusada e devolve o erro a lançar.
+ * Wrappers criados com a mesma lista (createReadOnlyContext) compartilham
+ * o registro: um job de pesquisa prova que não escreveu pela lista vazia.
+ */
+function forbid(operation: string, blockedWrites: string[]): ResearchWriteForbiddenError {
+  blockedWrites.push(operation);
+  return new ResearchWriteForbiddenError(operation);
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // READONLY SITUACAO REPOSITORY
 // ════════════════════════════════════════════════════════════════════════════
@@ -34,7 +50,10 @@ import { ResearchWriteForbiddenError } from './ResearchTypes';
  * Wrapper somente-leitura para SituacaoRepository.
  */
 class ReadOnlySituacaoRepository implements SituacaoRepository {
-  constructor(private readonly inner: SituacaoRepository) {}
+  constructor(
+    private readonly inner: SituacaoRepository,
+    private readonly blockedWrites: string[] = []
+  ) {}
 
   async init(): Promise<void> {
     return this.inner.init();
@@ -49,15 +68,15 @@ class ReadOnlySituacaoRepository implements SituacaoRepository {
   // ══════════════════════════════════════════════════════════════════════════
 
   async create(_situacao: SituacaoDecisoria): Promise<void> {
-    throw new ResearchWriteForbiddenError('SituacaoRepository.create');
+    throw forbid('SituacaoRepository.create', this.blockedWrites);
   }
 
   async updateStatus(_id: string, _status: StatusSituacao): Promise<void> {
-    throw new ResearchWriteForbiddenError('SituacaoRepository.updateStatus');
+    throw forbid('SituacaoRepository.updateStatus', this.blockedWrites);
   }
 
   async appendAnexoAnalise(_id: string, _anexo: AnexoAnalise): Promise<void> {
-    throw new ResearchWriteForbiddenError('SituacaoRepository.appendAnexoAnalise');
+    throw forbid('SituacaoRepository.appendAnexoAnalise', this.blockedWrites);
   }
 }
 
@@ -69,7 +88,10 @@ class ReadOnlySituacaoRepository implements SituacaoRepository {
  * Wrapper somente-leitura para EpisodioRepository.
  */
 class ReadOnlyEpisodioRepository implements EpisodioRepository {
-  constructor(private readonly inner: EpisodioRepository) {}
+  constructor(
+    private readonly inner: EpisodioRepository,
+    private readonly blockedWrites: string[] = []
+  ) {}
 
   async init(): Promise<void> {
     return this.inner.init();
@@ -92,11 +114,11 @@ class ReadOnlyEpisodioRepository implements EpisodioRepository {
   // ══════════════════════════════════════════════════════════════════════════
 
   async create(_episodio: EpisodioDecisao): Promise<void> {
-    throw new ResearchWriteForbiddenError('EpisodioRepository.create');
+    throw forbid('EpisodioRepository.create', this.blockedWrites);
   }
 
   async updateEstado(_id: string, _estado: EstadoEpisodio): Promise<void> {
-    throw new ResearchWriteForbiddenError('EpisodioRepository.updateEstado');
+    throw forbid('EpisodioRepository.updateEstado', this.blockedWrites);
   }
 }
 
@@ -108,7 +130,10 @@ class ReadOnlyEpisodioRepository implements EpisodioRepository {
  * Wrapper somente-leitura para DecisaoRepository.
  */
 class ReadOnlyDecisaoRepository implements DecisaoRepository {
-  constructor(private readonly inner: DecisaoRepository) {}
+  constructor(
+    private readonly inner: DecisaoRepository,
+    private readonly blockedWrites: string[] = []
+  ) {}
 
   async init(): Promise<void> {
     return this.inner.init();
@@ -131,7 +156,7 @@ class ReadOnlyDecisaoRepository implements DecisaoRepository {
   // ══════════════════════════════════════════════════════════════════════════
 
   async create(_decisao: DecisaoInstitucional): Promise<void> {
-    throw new ResearchWriteForbiddenError('DecisaoRepository.create');
+    throw forbid('DecisaoRepository.create', this.blockedWrites);
   }
 }
 
@@ -143,7 +168,10 @@ class ReadOnlyDecisaoRepository implements DecisaoRepository {
  * Wrapper somente-leitura para ContratoRepository.
  */
 class ReadOnlyContratoRepository implements ContratoRepository {
-  constructor(private readonly inner: ContratoRepository) {}
+  constructor(
+    private readonly inner: ContratoRepository,
+    private readonly blockedWrites: string[] = []
+  ) {}
 
   async init(): Promise<void> {
     return this.inner.init();
@@ -166,7 +194,7 @@ class ReadOnlyContratoRepository implements ContratoRepository {
   // ══════════════════════════════════════════════════════════════════════════
 
   async create(_contrato: ContratoDeDecisao): Promise<void> {
-    throw new ResearchWriteForbiddenError('ContratoRepository.create');
+    throw forbid('ContratoRepository.create', this.blockedWrites);
   }
 }
 
@@ -178,7 +206,10 @@ class ReadOnlyContratoRepository implements ContratoRepository {
  * Wrapper somente-leitura para DecisionProtocolRepository.
  */
 class ReadOnlyProtocolRepository implements DecisionProtocolRepository {
-  constructor(private readonly inner: DecisionProtocolRepository) {}
+  constructor(
+    private readonly inner: DecisionProtocolRepository,
+    private readonly blockedWrites: string[] = []
+  ) {}
 
   async init(): Promise<void> {
     return this.inner.init();
@@ -201,7 +232,146 @@ class ReadOnlyProtocolRepository implements DecisionProtocolRepository {
   // ══════════════════════════════════════════════════════════════════════════
 
   async create(_protocolo: DecisionProtocol): Promise<void> {
-    throw new ResearchWriteForbiddenError('DecisionProtocolRepository.create');
+    throw forbid('DecisionProtocolRepository.create', this.blockedWrites);
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// READONLY EVENT LOG REPOSITORY (INCREMENTO 43)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Wrapper somente-leitura para EventLogRepository.
+ * append, appendRaw e createCheckpoint são recusados e contados.
+ */
+class ReadOnlyEventLogRepository implements EventLogRepository {
+  private writeAttempts = 0;
+
+  constructor(
+    private readonly inner: EventLogRepository,
+    private readonly blockedWrites: string[] = []
+  ) {}
+
+  /**
+   * Tentativas de escrita recebidas por este wrapper (todas recusadas).
+   */
+  getWriteAttempts(): number {
+    return this.writeAttempts;
+  }
+
+  async init(): Promise<void> {
+    return this.inner.init();
+  }
+
+  getAll(): Promise<EventLogEntry[]> {
+    return this.inner.getAll();
+  }
+
+  getById(id: string): Promise<EventLogEntry | null> {
+    return this.inner.getById(id);
+  }
+
+  getByEvento(evento: string): Promise<EventLogEntry[]> {
+    return this.inner.getByEvento(evento);
+  }
+
+  getByEntidade(entidade: string, entidadeId?: string): Promise<EventLogEntry[]> {
+    return this.inner.getByEntidade(entidade, entidadeId);
+  }
+
+  getLastEntry(): Promise<EventLogEntry | null> {
+    return this.inner.getLastEntry();
+  }
+
+  count(): Promise<number> {
+    return this.inner.count();
+  }
+
+  verifyChain(): ReturnType<EventLogRepository['verifyChain']> {
+    return this.inner.verifyChain();
+  }
+
+  exportRange(...args: Parameters<EventLogRepository['exportRange']>): ReturnType<EventLogRepository['exportRange']> {
+    return this.inner.exportRange(...args);
+  }
+
+  replay(...args: Parameters<EventLogRepository['replay']>): ReturnType<EventLogRepository['replay']> {
+    return this.inner.replay(...args);
+  }
+
+  verifyFromSnapshot(): ReturnType<EventLogRepository['verifyFromSnapshot']> {
+    return this.inner.verifyFromSnapshot();
+  }
+
+  iterate(...args: Parameters<EventLogRepository['iterate']>): ReturnType<EventLogRepository['iterate']> {
+    return this.inner.iterate(...args);
+  }
+
+  query(...args: Parameters<EventLogRepository['query']>): ReturnType<EventLogRepository['query']> {
+    return this.inner.query(...args);
+  }
+
+  countWhere(...args: Parameters<EventLogRepository['countWhere']>): ReturnType<EventLogRepository['countWhere']> {
+    return this.inner.countWhere(...args);
+  }
+
+  getCheckpoints(): ReturnType<EventLogRepository['getCheckpoints']> {
+    return this.inner.getCheckpoints();
+  }
+
+  verifyCheckpoints(
+    ...args: Parameters<EventLogRepository['verifyCheckpoints']>
+  ): ReturnType<EventLogRepository['verifyCheckpoints']> {
+    return this.inner.verifyCheckpoints(...args);
+  }
+
+  exportWitnessBundle(): ReturnType<EventLogRepository['exportWitnessBundle']> {
+    return this.inner.exportWitnessBundle();
+  }
+
+  getSegmentRoot(segment: number): ReturnType<EventLogRepository['getSegmentRoot']> {
+    return this.inner.getSegmentRoot(segment);
+  }
+
+  listSegmentRoots(): ReturnType<EventLogRepository['listSegmentRoots']> {
+    return this.inner.listSegmentRoots();
+  }
+
+  getInclusionProof(eventId: string): ReturnType<EventLogRepository['getInclusionProof']> {
+    return this.inner.getInclusionProof(eventId);
+  }
+
+  subscribe(listener: EventLogListener): () => void {
+    return this.inner.subscribe(listener);
+  }
+
+  cursorFor(eventId: string): Promise<string | null> {
+    return this.inner.cursorFor(eventId);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // MÉTODOS DE ESCRITA - BLOQUEADOS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async append(
+    _actor: ActorId,
+    _evento: string,
+    _entidade: string,
+    _entidadeId: string,
+    _payload: unknown
+  ): Promise<EventLogEntry> {
+    this.writeAttempts++;
+    throw forbid('EventLogRepository.append', this.blockedWrites);
+  }
+
+  async appendRaw(_entry: EventLogEntry): Promise<void> {
+    this.writeAttempts++;
+    throw forbid('EventLogRepository.appendRaw', this.blockedWrites);
+  }
+
+  async createCheckpoint(): ReturnType<EventLogRepository['createCheckpoint']> {
+    this.writeAttempts++;
+    throw forbid('EventLogRepository.createCheckpoint', this.blockedWrites);
   }
 }
 
@@ -218,24 +388,36 @@ interface ReadOnlyRepositoryContext {
   decisaoRepo: ReadOnlyDecisaoRepository;
   contratoRepo: ReadOnlyContratoRepository;
   protocoloRepo: ReadOnlyProtocolRepository;
+
+  /** EventLog somente-leitura (Inc 43; presente se informado na criação) */
+  eventLogRepo?: ReadOnlyEventLogRepository;
+
+  /** Escritas recusadas por qualquer wrapper do contexto (Inc 43) */
+  blockedWrites: string[];
 }
 
 /**
  * Cria wrappers somente-leitura para todos os repositórios.
+ * Os wrappers do contexto compartilham o registro de escritas recusadas.
  */
 function createReadOnlyContext(
   situacaoRepo: SituacaoRepository,
   episodioRepo: EpisodioRepository,
   decisaoRepo: DecisaoRepository,
   contratoRepo: ContratoRepository,
-  protocoloRepo: DecisionProtocolRepository
+  protocoloRepo: DecisionProtocolRepository,
+  eventLog?: EventLogRepository
 ): ReadOnlyRepositoryContext {
+  const blockedWrites: string[] = [];
+
   return {
-    situacaoRepo: new ReadOnlySituacaoRepository(situacaoRepo),
-    episodioRepo: new ReadOnlyEpisodioRepository(episodioRepo),
-    decisaoRepo: new ReadOnlyDecisaoRepository(decisaoRepo),
-    contratoRepo: new ReadOnlyContratoRepository(contratoRepo),
-    protocoloRepo: new ReadOnlyProtocolRepository(protocoloRepo)
+    situacaoRepo: new ReadOnlySituacaoRepository(situacaoRepo, blockedWrites),
+    episodioRepo: new ReadOnlyEpisodioRepository(episodioRepo, blockedWrites),
+    decisaoRepo: new ReadOnlyDecisaoRepository(decisaoRepo, blockedWrites),
+    contratoRepo: new ReadOnlyContratoRepository(contratoRepo, blockedWrites),
+    protocoloRepo: new ReadOnlyProtocolRepository(protocoloRepo, blockedWrites),
+    eventLogRepo: eventLog ? new ReadOnlyEventLogRepository(eventLog, blockedWrites) : undefined,
+    blockedWrites
   };
 }
 
@@ -249,6 +431,7 @@ export {
   ReadOnlyDecisaoRepository,
   ReadOnlyContratoRepository,
   ReadOnlyProtocolRepository,
+  ReadOnlyEventLogRepository,
   ReadOnlyRepositoryContext,
   createReadOnlyContext
 };
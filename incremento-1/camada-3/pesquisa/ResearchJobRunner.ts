@@ -0,0 +1,278 @@
+/**
+ * INCREMENTO 43 — CAMADA DE PESQUISA: Jobs em segundo plano
+ *
+ * Executa ResearchInput submetidos pela API sem bloquear a requisição:
+ * - Jobs e relatórios ficam no ResearchStore (fora do dataDir do Core)
+ * - Concorrência e orçamento de variações limitados pelo teto do runner
+ * - Cada job usa um contexto novo de ReadOnlyRepositories, repassado ao
+ *   runner e ao sandbox como único acesso a repositórios e EventLog; o job
+ *   só termina completed se nenhum wrapper recusou escrita
+ * - Retenção: mantém os maxReports jobs encerrados mais recentes
+ *
+ * Jobs queued/running encontrados no start() (reinício do processo)
+ * voltam para a fila: a pesquisa é somente-leitura e pode ser repetida.
+ */
+
+import * as crypto from 'crypto';
+import { ResearchRunner, DEFAULT_MAX_VARIACOES, DEFAULT_MAX_TEMPO_MS } from './ResearchRunner';
+import { ResearchStore } from './ResearchStore';
+import { ReadOnlyRepositoryContext } from './ReadOnlyRepositories';
+import {
+  DEFAULT_RESEARCH_JOB_CONFIG,
+  RESEARCH_QUEUE_FULL,
+  ResearchInput,
+  ResearchJob,
+  ResearchJobError,
+  ResearchJobRunnerConfig,
+  ResearchLimits,
+  ResearchReadOnlyProof,
+  ResearchReport,
+  ResearchWriteForbiddenError
+} from './ResearchTypes';
+
+// ════════════════════════════════════════════════════════════════════════════
+// RESEARCH JOB RUNNER
+// ════════════════════════════════════════════════════════════════════════════
+
+class ResearchJobRunner {
+  private readonly config: ResearchJobRunnerConfig;
+  private queue: ResearchJob[] = [];
+  private running = new Map<string, Promise<void>>();
+  private variacoesEmUso = 0;
+  private submetendo = 0;
+  private started = false;
+  private stopped = false;
+
+  /**
+   * @param contextFactory - Cria um contexto somente-leitura novo por job
+   * @param maxReports - Retenção do tenant (lida a cada job encerrado);
+   *                     ausente usa config.maxReports
+   */
+  constructor(
+    private readonly tenantId: string,
+    private readonly store: ResearchStore,
+    private readonly contextFactory: () => ReadOnlyRepositoryContext,
+    config: Partial<ResearchJobRunnerConfig> = {},
+    private readonly maxReports?: () => number | undefined
+  ) {
+    this.config = { ...DEFAULT_RESEARCH_JOB_CONFIG, ...config };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CICLO DE VIDA
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Carrega jobs pendentes do store e retoma a fila.
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of await this.store.listJobs()) {
+      if (job.status === 'queued' || job.status === 'running') {
+        job.status = 'queued';
+        delete job.startedAt;
+        await this.store.saveJob(job);
+        this.queue.push(job);
+      }
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Para de iniciar jobs e aguarda os que estão executando.
+   * Jobs na fila continuam gravados como queued.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await Promise.all(this.running.values());
+  }
+
+  /**
+   * Resolve quando não há job executando nem aguardando.
+   */
+  async idle(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.all(this.running.values());
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // SUBMISSÃO E CONSULTA
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Enfileira o input e devolve o job (status queued).
+   *
+   * @throws ResearchJobError RESEARCH_QUEUE_FULL se já houver maxPendingJobs
+   */
+  async submit(input: ResearchInput, submittedBy: string): Promise<ResearchJob> {
+    if (this.stopped) {
+      throw new Error(`Runner de pesquisa encerrado: ${this.tenantId}`);
+    }
+
+    // Vaga reservada antes do primeiro await: submissões simultâneas
+    // não passam juntas pela checagem
+    const pendentes = this.queue.length + this.running.size + this.submetendo;
+    if (pendentes >= this.config.maxPendingJobs) {
+      throw new ResearchJobError(
+        `Fila de pesquisa cheia: ${pendentes} job(s) pendente(s) (máximo ${this.config.maxPendingJobs})`,
+        RESEARCH_QUEUE_FULL
+      );
+    }
+    this.submetendo++;
+
+    const job: ResearchJob = {
+      jobId: `rjob_${crypto.randomUUID()}`,
+      tenantId: this.tenantId,
+      status: 'queued',
+      submittedBy,
+      submittedAt: new Date().toISOString(),
+      input,
+      limitsApplied: this.aplicarTeto(input.limitesPesquisa)
+    };
+
+    try {
+      await this.store.saveJob(job);
+    } finally {
+      this.submetendo--;
+    }
+    const snapshot: ResearchJob = { ...job };
+
+    this.queue.push(job);
+    this.schedule();
+
+    return snapshot;
+  }
+
+  /**
+   * Job por ID (null se inexistente ou removido pela retenção).
+   */
+  async getJob(jobId: string): Promise<ResearchJob | null> {
+    return this.store.loadJob(jobId);
+  }
+
+  /**
+   * Relatório de um job completed (null se o job não tiver relatório).
+   */
+  async getReport(jobId: string): Promise<ResearchReport | null> {
+    const job = await this.store.loadJob(jobId);
+    if (!job?.reportId) return null;
+    return this.store.load(job.reportId);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // AGENDAMENTO
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Inicia jobs da fila (FIFO) enquanto houver vaga.
+   * O próximo job só começa se suas variações couberem no orçamento
+   * compartilhado; sozinho, sempre cabe (limitsApplied <= teto).
+   */
+  private schedule(): void {
+    while (!this.stopped && this.queue.length > 0 && this.running.size < this.config.maxConcurrentJobs) {
+      const job = this.queue[0];
+      const custo = this.custoVariacoes(job);
+
+      if (this.running.size > 0 && this.variacoesEmUso + custo > this.config.limits.maxVariacoes) {
+        break;
+      }
+
+      this.queue.shift();
+      this.variacoesEmUso += custo;
+
+      const run = this.execute(job)
+        .catch(() => undefined)
+        .finally(() => {
+          this.running.delete(job.jobId);
+          this.variacoesEmUso -= custo;
+          this.schedule();
+        });
+      this.running.set(job.jobId, run);
+    }
+  }
+
+  private async execute(job: ResearchJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    await this.store.saveJob(job);
+
+    const context = this.contextFactory();
+
+    try {
+      // Memória consultada pelos wrappers do próprio contexto
+      const report = await new ResearchRunner(undefined, context).run({
+        ...job.input,
+        limitesPesquisa: job.limitsApplied
+      });
+
+      // Escrita recusada e engolida pelo caminho ainda invalida o job
+      if (context.blockedWrites.length > 0) {
+        throw new ResearchWriteForbiddenError(context.blockedWrites.join(', '));
+      }
+
+      await this.store.save(report);
+      job.status = 'completed';
+      job.reportId = report.reportId;
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    job.readOnlyProof = this.provaSomenteLeitura(context);
+    job.finishedAt = new Date().toISOString();
+    await this.store.saveJob(job);
+
+    await this.aplicarRetencao();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // MÉTODOS PRIVADOS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private aplicarTeto(pedidos?: ResearchLimits): Required<ResearchLimits> {
+    return {
+      maxVariacoes: Math.min(pedidos?.maxVariacoes ?? DEFAULT_MAX_VARIACOES, this.config.limits.maxVariacoes),
+      maxTempoMs: Math.min(pedidos?.maxTempoMs ?? DEFAULT_MAX_TEMPO_MS, this.config.limits.maxTempoMs)
+    };
+  }
+
+  private custoVariacoes(job: ResearchJob): number {
+    return Math.min(job.input.variacoes?.length ?? 0, job.limitsApplied.maxVariacoes);
+  }
+
+  private provaSomenteLeitura(context: ReadOnlyRepositoryContext): ResearchReadOnlyProof {
+    return {
+      eventLogWriteAttempts: context.eventLogRepo?.getWriteAttempts() ?? 0,
+      blockedWrites: [...context.blockedWrites]
+    };
+  }
+
+  /**
+   * Remove os jobs encerrados (e seus relatórios) além da retenção.
+   */
+  private async aplicarRetencao(): Promise<void> {
+    const limite = this.maxReports?.() ?? this.config.maxReports;
+    if (limite <= 0) return;
+
+    const encerrados = (await this.store.listJobs())
+      .filter(j => j.status === 'completed' || j.status === 'failed')
+      .sort((a, b) => (a.finishedAt ?? '').localeCompare(b.finishedAt ?? ''));
+
+    for (const job of encerrados.slice(0, Math.max(0, encerrados.length - limite))) {
+      if (job.reportId) {
+        await this.store.delete(job.reportId);
+      }
+      await this.store.deleteJob(job.jobId);
+    }
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// EXPORTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export { ResearchJobRunner };
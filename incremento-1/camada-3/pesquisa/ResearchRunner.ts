@@ -13,6 +13,7 @@
 
 import { MemoryQueryService } from '../servicos/MemoryQueryService';
 import { ResearchSandbox } from './ResearchSandbox';
+import { ReadOnlyRepositoryContext } from './ReadOnlyRepositories';
 import {
   ResearchInput,
   ResearchReport,
@@ -37,9 +38,14 @@ const DEFAULT_MAX_TEMPO_MS = 30000;
  */
 class ResearchRunner {
   private readonly memoryService?: MemoryQueryService;
+  private readonly repositorios?: ReadOnlyRepositoryContext;
 
-  constructor(memoryService?: MemoryQueryService) {
+  /**
+   * @param repositorios - Contexto somente-leitura repassado ao sandbox (Inc 43)
+   */
+  constructor(memoryService?: MemoryQueryService, repositorios?: ReadOnlyRepositoryContext) {
     this.memoryService = memoryService;
+    this.repositorios = repositorios;
   }
 
   /**
@@ -59,7 +65,8 @@ class ResearchRunner {
     // Criar sandbox
     const sandbox = new ResearchSandbox({
       memoryService: this.memoryService,
-      modoMemoria: input.modoMemoria
+      modoMemoria: input.modoMemoria,
+      repositorios: this.repositorios
     });
 
     // Arrays para resultados
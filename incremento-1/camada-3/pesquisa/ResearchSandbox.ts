@@ -22,8 +22,9 @@ import {
   MemoryQuery,
   MemoryQueryResult
 } from '../entidades/tipos';
-import { validateClosedLayer, ClosedLayerResult } from '../camada-fechada';
+import { explainClosedLayer, ClosedLayerViolation } from '../camada-fechada';
 import { MemoryQueryService } from '../servicos/MemoryQueryService';
+import { ReadOnlyRepositoryContext } from './ReadOnlyRepositories';
 import {
   ResearchInput,
   ResearchVariation,
@@ -46,6 +47,12 @@ interface SandboxConfig {
 
   /** Modo de memória */
   modoMemoria: ResearchMemoryMode;
+
+  /**
+   * Repositórios e EventLog somente-leitura do job (Inc 43).
+   * Sem memoryService, a memória é consultada por estes wrappers.
+   */
+  repositorios?: ReadOnlyRepositoryContext;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -59,13 +66,24 @@ interface SandboxConfig {
  * 1. Não recebe dataDir de tenant
  * 2. Não tem acesso a repositórios de escrita
  * 3. Usa apenas validação e leitura
+ * 4. Acessa o Core somente pelos wrappers de `repositorios` (Inc 43)
  */
 class ResearchSandbox {
+  /** Único acesso ao Core: escritas são recusadas e registradas */
+  readonly repositorios?: ReadOnlyRepositoryContext;
+
   private readonly memoryService?: MemoryQueryService;
   private readonly modoMemoria: ResearchMemoryMode;
 
   constructor(config: SandboxConfig) {
-    this.memoryService = config.memoryService;
+    this.repositorios = config.repositorios;
+    this.memoryService = config.memoryService ?? (config.repositorios
+      ? new MemoryQueryService(
+          config.repositorios.episodioRepo,
+          config.repositorios.decisaoRepo,
+          config.repositorios.contratoRepo
+        )
+      : undefined);
     this.modoMemoria = config.modoMemoria;
   }
 
@@ -82,10 +100,8 @@ class ResearchSandbox {
     const protocoloFicticio = this.criarProtocoloFicticio(situacao);
 
     // Rodar Camada Fechada em modo diagnóstico
-    const closedLayerResult = validateClosedLayer(situacao, protocoloFicticio);
-    const closedLayerBlocks: ClosedLayerResult[] = closedLayerResult.blocked
-      ? [closedLayerResult]
-      : [];
+    // INCREMENTO 49: todas as regras violadas, não só a primeira
+    const closedLayerBlocks = explainClosedLayer(situacao, protocoloFicticio).violations;
 
     return {
       situacaoId: situacao.id,
@@ -125,10 +141,8 @@ class ResearchSandbox {
     );
 
     // Rodar Camada Fechada em modo diagnóstico
-    const closedLayerResult = validateClosedLayer(situacaoModificada, protocoloFicticio);
-    const closedLayerBlocks: ClosedLayerResult[] = closedLayerResult.blocked
-      ? [closedLayerResult]
-      : [];
+    // INCREMENTO 49: todas as regras violadas, não só a primeira
+    const closedLayerBlocks = explainClosedLayer(situacaoModificada, protocoloFicticio).violations;
 
     // Gerar análise textual
     const analysis = this.gerarAnaliseTextual(situacaoModificada, closedLayerBlocks, variation);
@@ -275,7 +289,7 @@ class ResearchSandbox {
    */
   private gerarAnaliseTextual(
     situacao: SituacaoDecisoria,
-    bloqueios: ClosedLayerResult[],
+    bloqueios: ClosedLayerViolation[],
     variation: ResearchVariation
   ): string {
     const linhas: string[] = [];
@@ -312,7 +326,7 @@ class ResearchSandbox {
     if (bloqueios.length > 0) {
       linhas.push('**Bloqueios detectados pela Camada Fechada:**');
       for (const bloqueio of bloqueios) {
-        linhas.push(`- ${bloqueio.rule}: ${bloqueio.reason}`);
+        linhas.push(`- ${bloqueio.rule} (${bloqueio.fields.join(', ')}): ${bloqueio.reason}`);
       }
     } else {
       linhas.push('**Nenhum bloqueio detectado pela Camada Fechada.**');
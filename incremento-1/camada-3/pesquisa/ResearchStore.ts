@@ -11,7 +11,7 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { ResearchReport } from './ResearchTypes';
+import { ResearchReport, ResearchJob, isValidResearchJobId } from './ResearchTypes';
 
 // ════════════════════════════════════════════════════════════════════════════
 // RESEARCH STORE
@@ -152,6 +152,78 @@ class ResearchStore {
     return deleted;
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // INCREMENTO 43: JOBS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Grava o job (substitui a versão anterior).
+   * Escrita atômica: arquivo temporário + rename.
+   */
+  async saveJob(job: ResearchJob): Promise<void> {
+    if (!isValidResearchJobId(job.jobId)) {
+      throw new Error(`jobId inválido: ${job.jobId}`);
+    }
+    const jobsDir = await this.ensureJobsDir();
+    const filepath = path.join(jobsDir, `${job.jobId}.json`);
+    const tmp = `${filepath}.tmp`;
+
+    await fs.writeFile(tmp, JSON.stringify(job, null, 2), 'utf8');
+    await fs.rename(tmp, filepath);
+  }
+
+  /**
+   * Carrega job por ID (null também para jobId fora do formato).
+   */
+  async loadJob(jobId: string): Promise<ResearchJob | null> {
+    if (!isValidResearchJobId(jobId)) return null;
+    const jobsDir = await this.ensureJobsDir();
+
+    try {
+      const content = await fs.readFile(path.join(jobsDir, `${jobId}.json`), 'utf8');
+      return JSON.parse(content) as ResearchJob;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lista todos os jobs, do mais antigo para o mais recente (submittedAt).
+   */
+  async listJobs(): Promise<ResearchJob[]> {
+    const jobsDir = await this.ensureJobsDir();
+    const files = (await fs.readdir(jobsDir)).filter(f => f.endsWith('.json'));
+
+    const jobs: ResearchJob[] = [];
+    for (const file of files) {
+      const job = await this.loadJob(file.replace('.json', ''));
+      if (job) jobs.push(job);
+    }
+
+    return jobs.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+  }
+
+  /**
+   * Remove job por ID (o relatório é removido à parte).
+   */
+  async deleteJob(jobId: string): Promise<boolean> {
+    if (!isValidResearchJobId(jobId)) return false;
+    const jobsDir = await this.ensureJobsDir();
+
+    try {
+      await fs.unlink(path.join(jobsDir, `${jobId}.json`));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // MÉTODOS PRIVADOS
   // ══════════════════════════════════════════════════════════════════════════
@@ -162,6 +234,14 @@ class ResearchStore {
     }
   }
 
+  private async ensureJobsDir(): Promise<string> {
+    await this.ensureInitialized();
+
+    const jobsDir = path.join(this.researchDir, 'jobs');
+    await fs.mkdir(jobsDir, { recursive: true });
+    return jobsDir;
+  }
+
   /**
    * Serializa relatório para JSON.
    */
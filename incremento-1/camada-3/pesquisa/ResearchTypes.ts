@@ -13,7 +13,7 @@ import {
   Alternativa,
   Risco
 } from '../entidades/tipos';
-import { ClosedLayerResult } from '../camada-fechada';
+import { ClosedLayerViolation } from '../camada-fechada';
 
 // ════════════════════════════════════════════════════════════════════════════
 // MODO DE MEMÓRIA
@@ -123,8 +123,8 @@ interface ResearchVariationResult {
   /** Postura de risco resultante */
   riskPosture: PerfilRisco;
 
-  /** Bloqueios detectados pela Camada Fechada (modo diagnóstico) */
-  closedLayerBlocks: ClosedLayerResult[];
+  /** Bloqueios detectados pela Camada Fechada (modo diagnóstico; Inc 49: todos, com campos) */
+  closedLayerBlocks: ClosedLayerViolation[];
 
   /** Tempo de processamento em ms */
   processingTimeMs: number;
@@ -229,8 +229,8 @@ interface ResearchBaselineSummary {
   /** Tem consequência declarada */
   temConsequencia: boolean;
 
-  /** Bloqueios da Camada Fechada no baseline */
-  closedLayerBlocks: ClosedLayerResult[];
+  /** Bloqueios da Camada Fechada no baseline (Inc 49: todos, com campos) */
+  closedLayerBlocks: ClosedLayerViolation[];
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -254,11 +254,133 @@ class ResearchWriteForbiddenError extends Error {
   }
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// INCREMENTO 43: JOBS DE PESQUISA
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Estado de um job de pesquisa.
+ * - queued: aguardando vaga (concorrência ou orçamento de variações)
+ * - running: em execução
+ * - completed: relatório gravado
+ * - failed: erro na execução ou tentativa de escrita
+ */
+type ResearchJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Prova de somente-leitura de um job.
+ * Contada pelos wrappers de ReadOnlyRepositories usados no job.
+ */
+interface ResearchReadOnlyProof {
+  /** Tentativas de append/appendRaw/createCheckpoint no EventLog (todas recusadas) */
+  eventLogWriteAttempts: number;
+
+  /** Operações de escrita recusadas (qualquer repositório) */
+  blockedWrites: string[];
+}
+
+/**
+ * Job de pesquisa em segundo plano.
+ * Gravado em baseDir/research/<tenantId>/jobs/, fora do dataDir do Core.
+ */
+interface ResearchJob {
+  /** ID do job */
+  jobId: string;
+
+  /** Tenant dono do job */
+  tenantId: string;
+
+  /** Estado atual */
+  status: ResearchJobStatus;
+
+  /** Quem submeteu (keyId da chave) */
+  submittedBy: string;
+
+  /** Timestamps (ISO 8601) */
+  submittedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+
+  /** Input submetido (mantido para retomar jobs após reinício) */
+  input: ResearchInput;
+
+  /** Limites efetivos: os pedidos, limitados pelo teto do runner */
+  limitsApplied: Required<ResearchLimits>;
+
+  /** Relatório gerado (status completed) */
+  reportId?: string;
+
+  /** Mensagem de erro (status failed) */
+  error?: string;
+
+  /** Prova de somente-leitura (status completed ou failed) */
+  readOnlyProof?: ResearchReadOnlyProof;
+}
+
+/**
+ * Configuração do runner de jobs de pesquisa.
+ */
+interface ResearchJobRunnerConfig {
+  /** Jobs executando ao mesmo tempo */
+  maxConcurrentJobs: number;
+
+  /** Jobs aguardando ou executando; além disso a submissão é recusada */
+  maxPendingJobs: number;
+
+  /**
+   * Teto dos limites.
+   * maxVariacoes é um orçamento compartilhado: a soma das variações dos
+   * jobs em execução nunca passa dele. maxTempoMs limita cada job.
+   */
+  limits: Required<ResearchLimits>;
+
+  /** Relatórios mantidos por tenant (os mais antigos são removidos) */
+  maxReports: number;
+}
+
+const DEFAULT_RESEARCH_JOB_CONFIG: ResearchJobRunnerConfig = {
+  maxConcurrentJobs: 2,
+  maxPendingJobs: 20,
+  limits: { maxVariacoes: 10, maxTempoMs: 30000 },
+  maxReports: 100
+};
+
+/**
+ * Erro de submissão de job de pesquisa.
+ */
+class ResearchJobError extends Error {
+  constructor(message: string, readonly code: string) {
+    super(message);
+    this.name = 'ResearchJobError';
+  }
+}
+
+const RESEARCH_QUEUE_FULL = 'RESEARCH_QUEUE_FULL';
+
+/**
+ * Formato do jobId gerado pelo runner (rjob_ + UUID). O jobId vira nome de
+ * arquivo no ResearchStore: fora deste formato (ex.: "../..") é recusado.
+ */
+const RESEARCH_JOB_ID_PATTERN = /^rjob_[0-9a-f-]{36}$/;
+
+function isValidResearchJobId(jobId: unknown): jobId is string {
+  return typeof jobId === 'string' && RESEARCH_JOB_ID_PATTERN.test(jobId);
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // EXPORTS
 // ════════════════════════════════════════════════════════════════════════════
 
 export {
+  ResearchJobStatus,
+  ResearchReadOnlyProof,
+  ResearchJob,
+  ResearchJobRunnerConfig,
+  DEFAULT_RESEARCH_JOB_CONFIG,
+  ResearchJobError,
+  RESEARCH_QUEUE_FULL,
+  RESEARCH_JOB_ID_PATTERN,
+  isValidResearchJobId,
   ResearchMemoryMode,
   ResearchLimits,
   ResearchVariation,
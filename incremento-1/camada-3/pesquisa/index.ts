@@ -2,7 +2,7 @@
  * INCREMENTO 14 — CAMADA DE PESQUISA
  *
  * Barrel export para a Camada de Pesquisa.
- * Expõe tipos, sandbox, runner, store e wrappers readonly.
+ * Expõe tipos, sandbox, runner, store, wrappers readonly e jobs (Inc 43).
  */
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -19,7 +19,16 @@ export {
   ResearchReport,
   ResearchBaselineSummary,
   RESEARCH_WRITE_FORBIDDEN,
-  ResearchWriteForbiddenError
+  ResearchWriteForbiddenError,
+  ResearchJobStatus,
+  ResearchReadOnlyProof,
+  ResearchJob,
+  ResearchJobRunnerConfig,
+  DEFAULT_RESEARCH_JOB_CONFIG,
+  ResearchJobError,
+  RESEARCH_QUEUE_FULL,
+  RESEARCH_JOB_ID_PATTERN,
+  isValidResearchJobId
 } from './ResearchTypes';
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -44,6 +53,12 @@ export {
 
 export { ResearchStore } from './ResearchStore';
 
+// ════════════════════════════════════════════════════════════════════════════
+// JOBS (INCREMENTO 43)
+// ════════════════════════════════════════════════════════════════════════════
+
+export { ResearchJobRunner } from './ResearchJobRunner';
+
 // ════════════════════════════════════════════════════════════════════════════
 // READONLY WRAPPERS
 // ════════════════════════════════════════════════════════════════════════════
@@ -54,6 +69,7 @@ export {
   ReadOnlyDecisaoRepository,
   ReadOnlyContratoRepository,
   ReadOnlyProtocolRepository,
+  ReadOnlyEventLogRepository,
   ReadOnlyRepositoryContext,
   createReadOnlyContext
 } from './ReadOnlyRepositories';
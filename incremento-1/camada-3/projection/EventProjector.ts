@@ -0,0 +1,265 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 35: PROJEÇÃO DE ESTADO A PARTIR DO EVENTLOG
+// ════════════════════════════════════════════════════════════════════════
+
+import { EventLogEntry, TipoEvento } from '../event-log/EventLogEntry';
+import { EventLogRepository } from '../event-log/EventLogRepository';
+import { EnvelopeSchemas, ENVELOPE_SCHEMAS, decodeEventPayload } from '../event-log/EventLogEnvelope';
+import { EstadoEpisodio } from '../entidades/tipos';
+import { StoredRecord } from '../storage/StorageTypes';
+import { ProjectedCollectionName, ProjectedState, ProjectionSkip } from './ProjectionTypes';
+
+type EventData = Record<string, unknown>;
+
+/**
+ * Aplica um evento às entidades da coleção.
+ * Retorna o motivo se o evento não pôde ser aplicado.
+ */
+type ProjectionHandler = (
+  records: Map<string, StoredRecord>,
+  entry: EventLogEntry,
+  data: EventData
+) => string | null;
+
+interface EventProjection {
+  collection: ProjectedCollectionName;
+  apply: ProjectionHandler;
+}
+
+/**
+ * Campos comparados com o repositório, por coleção.
+ * null: registro inteiro (coleções imutáveis ou gravadas por snapshot).
+ *
+ * Datas de transição gravadas pelo repositório (ex: data_decisao,
+ * revogado_em) não são comparadas: a projeção usa o timestamp do evento,
+ * alguns milissegundos depois.
+ */
+const PROJECTION_FIELDS: Record<ProjectedCollectionName, readonly string[] | null> = {
+  episodios: ['id', 'caso_uso', 'dominio', 'situacao_referenciada', 'estado', 'data_criacao'],
+  decisoes: null,
+  contratos: null,
+  autonomyMandates: ['id', 'agentId', 'modo', 'status', 'revogado', 'uses'],
+  reviewCases: null
+};
+
+const PROJECTED_COLLECTIONS = Object.keys(PROJECTION_FIELDS) as ProjectedCollectionName[];
+
+const DATA_POR_ESTADO: Partial<Record<string, string>> = {
+  [EstadoEpisodio.DECIDIDO]: 'data_decisao',
+  [EstadoEpisodio.EM_OBSERVACAO]: 'data_observacao_iniciada',
+  [EstadoEpisodio.ENCERRADO]: 'data_encerramento'
+};
+
+function copy(data: unknown): StoredRecord {
+  return JSON.parse(JSON.stringify(data));
+}
+
+/**
+ * Evento de criação: o payload é o registro serializado.
+ */
+function create(idField: string): ProjectionHandler {
+  return (records, _entry, data) => {
+    records.set(String(data[idField]), copy(data));
+    return null;
+  };
+}
+
+/**
+ * Evento de mudança: altera a entidade do entidade_id.
+ */
+function update(change: (record: StoredRecord, entry: EventLogEntry, data: EventData) => void): ProjectionHandler {
+  return (records, entry, data) => {
+    const record = records.get(entry.entidade_id);
+    if (!record) return 'Entity not projected';
+    change(record, entry, data);
+    return null;
+  };
+}
+
+/**
+ * Evento com snapshot do registro após a mudança.
+ */
+function snapshot(idField: string, snapshotField: string): ProjectionHandler {
+  return (records, _entry, data) => {
+    records.set(String(data[idField]), copy(data[snapshotField]));
+    return null;
+  };
+}
+
+const PROJECTIONS: Partial<Record<string, EventProjection>> = {
+  // Episódios
+  [TipoEvento.EPISODIO_CRIADO]: { collection: 'episodios', apply: create('id') },
+  [TipoEvento.EPISODIO_ESTADO_ALTERADO]: {
+    collection: 'episodios',
+    apply: update((record, entry, data) => {
+      record.estado = data.estado_novo;
+      const campo = DATA_POR_ESTADO[String(data.estado_novo)];
+      if (campo) record[campo] = entry.timestamp.toISOString();
+    })
+  },
+
+  // Decisões e contratos (imutáveis)
+  [TipoEvento.DECISAO_REGISTRADA]: { collection: 'decisoes', apply: create('id') },
+  [TipoEvento.CONTRATO_EMITIDO]: { collection: 'contratos', apply: create('id') },
+
+  // Mandatos (mesmos defaults de AutonomyMandateRepositoryImpl.create)
+  [TipoEvento.AUTONOMY_GRANTED]: {
+    collection: 'autonomyMandates',
+    apply: (records, _entry, data) => {
+      const record = copy(data);
+      record.uses = record.uses ?? 0;
+      record.status = record.status ?? (record.revogado ? 'revoked' : 'active');
+      records.set(String(record.id), record);
+      return null;
+    }
+  },
+  [TipoEvento.AUTONOMY_REVOKED]: {
+    collection: 'autonomyMandates',
+    apply: update((record, entry, data) => {
+      record.revogado = true;
+      record.revogado_em = entry.timestamp.toISOString();
+      record.revogado_por = entry.actor;
+      record.motivo_revogacao = data.motivo;
+      record.status = 'revoked';
+    })
+  },
+  [TipoEvento.AUTONOMY_REVOKED_BY_CONSEQUENCE]: {
+    collection: 'autonomyMandates',
+    apply: update((record, entry, data) => {
+      record.revogado = true;
+      record.revogado_em = data.revokedAt;
+      record.revogado_por = entry.actor;
+      record.motivo_revogacao = data.reason;
+      record.triggeredByObservacaoId = data.observacaoId;
+      record.status = 'revoked';
+    })
+  },
+  [TipoEvento.AUTONOMY_EXPIRED]: {
+    collection: 'autonomyMandates',
+    apply: update((record, _entry, data) => {
+      record.status = 'expired';
+      record.expiredAt = data.expiredAt;
+      record.expireReason = data.reason;
+    })
+  },
+  [TipoEvento.AUTONOMY_USE_CONSUMED]: {
+    collection: 'autonomyMandates',
+    apply: update((record, _entry, data) => {
+      record.uses = data.uses;
+      if (data.lastUsedAt !== undefined) record.lastUsedAt = data.lastUsedAt;
+    })
+  },
+  [TipoEvento.AUTONOMY_SUSPENDED]: {
+    collection: 'autonomyMandates',
+    apply: update((record, _entry, data) => {
+      record.status = 'suspended';
+      record.suspendedAt = data.suspendedAt;
+      record.suspendReason = data.suspendReason;
+      record.triggeredByObservacaoId = data.observacaoId;
+    })
+  },
+  [TipoEvento.AUTONOMY_RESUMED]: {
+    collection: 'autonomyMandates',
+    apply: update(record => {
+      record.status = 'active';
+      delete record.suspendedAt;
+      delete record.suspendReason;
+      delete record.triggeredByObservacaoId;
+    })
+  },
+  [TipoEvento.AUTONOMY_DEGRADED]: {
+    collection: 'autonomyMandates',
+    apply: update((record, _entry, data) => {
+      record.modo = data.newMode;
+      record.triggeredByObservacaoId = data.observacaoId;
+    })
+  },
+
+  // Casos de revisão (snapshot em todo evento)
+  [TipoEvento.HUMAN_REVIEW_CASE_OPENED]: { collection: 'reviewCases', apply: snapshot('reviewId', 'reviewCase') },
+  [TipoEvento.HUMAN_REVIEW_CASE_RESOLVED]: { collection: 'reviewCases', apply: snapshot('reviewId', 'reviewCase') },
+  [TipoEvento.HUMAN_REVIEW_CASE_DISMISSED]: { collection: 'reviewCases', apply: snapshot('reviewId', 'reviewCase') },
+  [TipoEvento.HUMAN_REVIEW_CASE_NOTES_UPDATED]: { collection: 'reviewCases', apply: snapshot('reviewId', 'reviewCase') },
+  [TipoEvento.HUMAN_REVIEW_CASE_CLAIMED]: { collection: 'reviewCases', apply: snapshot('reviewId', 'reviewCase') },
+  [TipoEvento.HUMAN_REVIEW_CASE_RELEASED]: { collection: 'reviewCases', apply: snapshot('reviewId', 'reviewCase') }
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// PROJETOR
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reconstrói entidades aplicando eventos em ordem.
+ *
+ * Usa os dados do envelope (Inc 34). Eventos sem envelope, com envelope
+ * que não confere com payload_hash ou de versão desconhecida não são
+ * aplicados e ficam em `skipped`.
+ */
+class EventProjector {
+  private readonly collections = Object.fromEntries(
+    PROJECTED_COLLECTIONS.map(name => [name, new Map<string, StoredRecord>()])
+  ) as Record<ProjectedCollectionName, Map<string, StoredRecord>>;
+  private readonly skipped: ProjectionSkip[] = [];
+  private eventsRead = 0;
+  private eventsApplied = 0;
+
+  constructor(private readonly schemas: EnvelopeSchemas = ENVELOPE_SCHEMAS) {}
+
+  apply(entry: EventLogEntry): void {
+    this.eventsRead++;
+
+    const projection = PROJECTIONS[entry.evento];
+    if (!projection) return;
+
+    const reason = this.applyProjection(projection, entry);
+    if (reason) {
+      this.skipped.push({
+        eventId: entry.id,
+        evento: entry.evento,
+        entidadeId: entry.entidade_id,
+        reason
+      });
+    } else {
+      this.eventsApplied++;
+    }
+  }
+
+  result(): ProjectedState {
+    return {
+      collections: this.collections,
+      eventsRead: this.eventsRead,
+      eventsApplied: this.eventsApplied,
+      skipped: this.skipped
+    };
+  }
+
+  private applyProjection(projection: EventProjection, entry: EventLogEntry): string | null {
+    const decoded = decodeEventPayload(entry, this.schemas);
+    if (!decoded) return 'No payload envelope';
+    if (!decoded.verified) return 'Envelope does not match payload_hash';
+    if (!decoded.data) return `Unknown envelope version ${decoded.version}`;
+
+    return projection.apply(this.collections[projection.collection], entry, decoded.data);
+  }
+}
+
+/**
+ * Projeta o EventLog inteiro, em ordem.
+ */
+async function projectEventLog(
+  eventLog: EventLogRepository,
+  schemas: EnvelopeSchemas = ENVELOPE_SCHEMAS
+): Promise<ProjectedState> {
+  const projector = new EventProjector(schemas);
+  for await (const entry of eventLog.iterate()) {
+    projector.apply(entry);
+  }
+  return projector.result();
+}
+
+export {
+  PROJECTION_FIELDS,
+  PROJECTED_COLLECTIONS,
+  EventProjector,
+  projectEventLog
+};
@@ -0,0 +1,265 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 35: VERIFICAÇÃO E RECONSTRUÇÃO DOS REPOSITÓRIOS
+// ════════════════════════════════════════════════════════════════════════
+
+import { EventLogRepository } from '../event-log/EventLogRepository';
+import { EnvelopeSchemas, ENVELOPE_SCHEMAS } from '../event-log/EventLogEnvelope';
+import { STORAGE_COLLECTIONS } from '../storage/StorageCollections';
+import { StorageDriver, StoredRecord } from '../storage/StorageTypes';
+import { serializeForHash } from '../backup/BackupCrypto';
+import { PROJECTION_FIELDS, PROJECTED_COLLECTIONS, projectEventLog } from './EventProjector';
+import {
+  ProjectedCollectionName,
+  ProjectedState,
+  ProjectionCollectionReport,
+  ProjectionDivergence,
+  ProjectionReport,
+  ProjectionRebuildOptions,
+  ProjectionRebuildCollectionReport,
+  ProjectionRebuildReport
+} from './ProjectionTypes';
+
+// ════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════
+
+interface StoreRead {
+  records: StoredRecord[] | null;
+  error?: string;
+}
+
+/**
+ * Lê a coleção; null se o arquivo/tabela não pôde ser lido
+ * (ex: JSON corrompido).
+ */
+async function readStore(driver: StorageDriver, name: ProjectedCollectionName): Promise<StoreRead> {
+  try {
+    return { records: await driver.collection(STORAGE_COLLECTIONS[name]).readAll() };
+  } catch (error) {
+    return { records: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return serializeForHash(a) === serializeForHash(b);
+}
+
+function comparedFields(name: ProjectedCollectionName, expected: StoredRecord, actual: StoredRecord): string[] {
+  const fields = PROJECTION_FIELDS[name];
+  if (fields) return [...fields];
+  return Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)])).sort();
+}
+
+function compareRecord(
+  name: ProjectedCollectionName,
+  id: string,
+  expected: StoredRecord,
+  actual: StoredRecord
+): ProjectionDivergence[] {
+  return comparedFields(name, expected, actual)
+    .filter(field => !sameValue(expected[field], actual[field]))
+    .map(field => ({
+      collection: name,
+      id,
+      kind: 'FIELD_MISMATCH' as const,
+      field,
+      expected: expected[field],
+      actual: actual[field]
+    }));
+}
+
+/**
+ * Entidades com algum evento não aplicado: a projeção delas não é
+ * confiável e não é comparada nem gravada.
+ */
+function unverifiedIds(state: ProjectedState): Set<string> {
+  return new Set(state.skipped.map(s => s.entidadeId));
+}
+
+function keyOf(record: StoredRecord): string {
+  return String(record.id);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// VERIFICAÇÃO
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Compara as entidades projetadas do EventLog com os repositórios.
+ *
+ * Somente leitura. Registros de entidades com eventos não aplicados
+ * (ex: eventos anteriores ao Inc 34) não são comparados.
+ */
+async function verifyProjection(
+  eventLog: EventLogRepository,
+  driver: StorageDriver,
+  schemas: EnvelopeSchemas = ENVELOPE_SCHEMAS
+): Promise<ProjectionReport> {
+  const state = await projectEventLog(eventLog, schemas);
+  const unverified = unverifiedIds(state);
+  const collections: ProjectionCollectionReport[] = [];
+  const divergences: ProjectionDivergence[] = [];
+
+  for (const name of PROJECTED_COLLECTIONS) {
+    const projected = state.collections[name];
+    const store = await readStore(driver, name);
+    const report: ProjectionCollectionReport = {
+      collection: name,
+      storeReadable: store.records !== null,
+      projected: projected.size,
+      stored: store.records?.length ?? 0,
+      matched: 0,
+      divergent: 0
+    };
+    if (store.error) report.storeError = store.error;
+    collections.push(report);
+
+    if (!store.records) continue;
+
+    const stored = new Map(store.records.map(r => [keyOf(r), r]));
+    const found: ProjectionDivergence[] = [];
+
+    for (const [id, expected] of projected) {
+      if (unverified.has(id)) continue;
+
+      const actual = stored.get(id);
+      if (!actual) {
+        found.push({ collection: name, id, kind: 'MISSING_IN_STORE' });
+        report.divergent++;
+        continue;
+      }
+
+      const diffs = compareRecord(name, id, expected, actual);
+      if (diffs.length > 0) {
+        found.push(...diffs);
+        report.divergent++;
+      } else {
+        report.matched++;
+      }
+    }
+
+    for (const id of stored.keys()) {
+      if (!projected.has(id) && !unverified.has(id)) {
+        found.push({ collection: name, id, kind: 'MISSING_IN_EVENTLOG' });
+        report.divergent++;
+      }
+    }
+
+    divergences.push(...found);
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    eventsRead: state.eventsRead,
+    eventsApplied: state.eventsApplied,
+    consistent: divergences.length === 0 && collections.every(c => c.storeReadable),
+    collections,
+    divergences,
+    skipped: state.skipped
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// RECONSTRUÇÃO
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Registro reconstruído: campos projetados sobre o registro existente.
+ * Campos não projetados (ex: datas de transição) são preservados.
+ */
+function mergeRecord(name: ProjectedCollectionName, projected: StoredRecord, stored: StoredRecord): StoredRecord {
+  const fields = PROJECTION_FIELDS[name];
+  if (!fields) return projected;
+
+  const merged: StoredRecord = { ...stored };
+  for (const field of fields) {
+    if (projected[field] === undefined) {
+      delete merged[field];
+    } else {
+      merged[field] = projected[field];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Reconstrói as coleções a partir do EventLog.
+ *
+ * - Registro ausente: gravado a partir da projeção
+ * - Registro divergente: campos projetados corrigidos
+ * - Registro sem projeção (ou com eventos não aplicados): mantido
+ * - Coleção ilegível (ex: JSON corrompido): regravada só com a projeção
+ *
+ * Coleções sem alteração não são regravadas. Deve rodar com o tenant
+ * parado: os repositórios em memória não são recarregados.
+ */
+async function rebuildFromEventLog(
+  eventLog: EventLogRepository,
+  driver: StorageDriver,
+  options: ProjectionRebuildOptions = {},
+  schemas: EnvelopeSchemas = ENVELOPE_SCHEMAS
+): Promise<ProjectionRebuildReport> {
+  const state = await projectEventLog(eventLog, schemas);
+  const unverified = unverifiedIds(state);
+  const dryRun = options.dryRun ?? false;
+  const collections: ProjectionRebuildCollectionReport[] = [];
+
+  for (const name of options.collections ?? PROJECTED_COLLECTIONS) {
+    const projected = state.collections[name];
+    const store = await readStore(driver, name);
+    const report: ProjectionRebuildCollectionReport = {
+      collection: name,
+      storeReadable: store.records !== null,
+      restored: 0,
+      repaired: 0,
+      kept: 0,
+      written: 0
+    };
+
+    const records: StoredRecord[] = [];
+    const seen = new Set<string>();
+
+    for (const stored of store.records ?? []) {
+      const id = keyOf(stored);
+      const expected = projected.get(id);
+      seen.add(id);
+
+      if (!expected || unverified.has(id)) {
+        records.push(stored);
+        report.kept++;
+        continue;
+      }
+
+      const merged = mergeRecord(name, expected, stored);
+      if (compareRecord(name, id, merged, stored).length > 0) {
+        report.repaired++;
+      } else {
+        report.kept++;
+      }
+      records.push(merged);
+    }
+
+    for (const [id, expected] of projected) {
+      if (seen.has(id) || unverified.has(id)) continue;
+      records.push(expected);
+      report.restored++;
+    }
+
+    report.written = records.length;
+    collections.push(report);
+
+    const changed = !report.storeReadable || report.restored > 0 || report.repaired > 0;
+    if (!dryRun && changed) {
+      await driver.collection(STORAGE_COLLECTIONS[name]).writeAll(records);
+    }
+  }
+
+  return {
+    rebuiltAt: new Date().toISOString(),
+    dryRun,
+    collections,
+    skipped: state.skipped
+  };
+}
+
+export { verifyProjection, rebuildFromEventLog };
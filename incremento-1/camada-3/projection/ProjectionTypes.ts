@@ -0,0 +1,133 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 35: TIPOS DA PROJEÇÃO DE ESTADO A PARTIR DO EVENTLOG
+// ════════════════════════════════════════════════════════════════════════
+
+import { StorageCollectionName } from '../storage/StorageCollections';
+import { StoredRecord } from '../storage/StorageTypes';
+
+/**
+ * Coleções reconstruídas a partir do EventLog.
+ */
+type ProjectedCollectionName = Extract<
+  StorageCollectionName,
+  'episodios' | 'decisoes' | 'contratos' | 'autonomyMandates' | 'reviewCases'
+>;
+
+/**
+ * Evento que não pôde ser aplicado à projeção.
+ *
+ * Ex: evento anterior ao Inc 34 (sem envelope), envelope adulterado,
+ * versão desconhecida, ou mudança de uma entidade cuja criação não
+ * foi projetada.
+ */
+interface ProjectionSkip {
+  eventId: string;
+  evento: string;
+  entidadeId: string;
+  reason: string;
+}
+
+/**
+ * Estado projetado: registros na forma serializada das coleções.
+ */
+interface ProjectedState {
+  collections: Record<ProjectedCollectionName, Map<string, StoredRecord>>;
+  /** Eventos lidos do EventLog */
+  eventsRead: number;
+  /** Eventos aplicados a alguma entidade */
+  eventsApplied: number;
+  skipped: ProjectionSkip[];
+}
+
+/**
+ * Tipo de divergência entre a projeção e o repositório.
+ *
+ * - MISSING_IN_STORE: entidade projetada ausente no repositório
+ * - MISSING_IN_EVENTLOG: registro sem evento de criação projetável
+ * - FIELD_MISMATCH: campo projetado difere do registro
+ */
+type ProjectionDivergenceKind = 'MISSING_IN_STORE' | 'MISSING_IN_EVENTLOG' | 'FIELD_MISMATCH';
+
+interface ProjectionDivergence {
+  collection: ProjectedCollectionName;
+  id: string;
+  kind: ProjectionDivergenceKind;
+  field?: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+/**
+ * Comparação de uma coleção.
+ */
+interface ProjectionCollectionReport {
+  collection: ProjectedCollectionName;
+  /** false: o arquivo/tabela da coleção não pôde ser lido (ex: JSON corrompido) */
+  storeReadable: boolean;
+  storeError?: string;
+  projected: number;
+  stored: number;
+  matched: number;
+  divergent: number;
+}
+
+/**
+ * Resultado da verificação da projeção contra os repositórios.
+ */
+interface ProjectionReport {
+  generatedAt: string;
+  eventsRead: number;
+  eventsApplied: number;
+  /** Sem divergências e todas as coleções legíveis */
+  consistent: boolean;
+  collections: ProjectionCollectionReport[];
+  divergences: ProjectionDivergence[];
+  skipped: ProjectionSkip[];
+}
+
+/**
+ * Opções da reconstrução dos repositórios.
+ */
+interface ProjectionRebuildOptions {
+  /** Coleções a reconstruir (default: todas as projetadas) */
+  collections?: ProjectedCollectionName[];
+
+  /** Apenas calcula o resultado, sem gravar (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Resultado da reconstrução de uma coleção.
+ */
+interface ProjectionRebuildCollectionReport {
+  collection: ProjectedCollectionName;
+  storeReadable: boolean;
+  /** Registros projetados ausentes no repositório */
+  restored: number;
+  /** Registros existentes com campos projetados corrigidos */
+  repaired: number;
+  /** Registros sem projeção mantidos como estavam */
+  kept: number;
+  /** Total gravado na coleção */
+  written: number;
+}
+
+interface ProjectionRebuildReport {
+  rebuiltAt: string;
+  dryRun: boolean;
+  collections: ProjectionRebuildCollectionReport[];
+  skipped: ProjectionSkip[];
+}
+
+export {
+  ProjectedCollectionName,
+  ProjectionSkip,
+  ProjectedState,
+  ProjectionDivergenceKind,
+  ProjectionDivergence,
+  ProjectionCollectionReport,
+  ProjectionReport,
+  ProjectionRebuildOptions,
+  ProjectionRebuildCollectionReport,
+  ProjectionRebuildReport
+};
@@ -0,0 +1,28 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 35: EXPORTS DA PROJEÇÃO DE ESTADO
+// ════════════════════════════════════════════════════════════════════════
+
+// Tipos
+export {
+  ProjectedCollectionName,
+  ProjectionSkip,
+  ProjectedState,
+  ProjectionDivergenceKind,
+  ProjectionDivergence,
+  ProjectionCollectionReport,
+  ProjectionReport,
+  ProjectionRebuildOptions,
+  ProjectionRebuildCollectionReport,
+  ProjectionRebuildReport
+} from './ProjectionTypes';
+
+// Projetor
+export {
+  PROJECTION_FIELDS,
+  PROJECTED_COLLECTIONS,
+  EventProjector,
+  projectEventLog
+} from './EventProjector';
+
+// Verificação e reconstrução
+export { verifyProjection, rebuildFromEventLog } from './ProjectionService';
@@ -1,5 +1,6 @@
-import * as path from 'path';
-import { JsonFileStore } from '../../utilitarios/JsonFileStore';
+import { StorageCollection, StorageDriver } from '../../storage/StorageTypes';
+import { JsonFileDriver } from '../../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../../storage/StorageCollections';
 import { ContratoRepository } from '../interfaces/ContratoRepository';
 import { ContratoDeDecisao } from '../../entidades/tipos';
 
@@ -38,21 +39,22 @@ function cloneContrato(c: ContratoDeDecisao): ContratoDeDecisao {
 class ContratoRepositoryImpl implements ContratoRepository {
   private store: Map<string, ContratoDeDecisao> = new Map();
   private indexByEpisodio: Map<string, string> = new Map();
-  private fileStore: JsonFileStore;
+  private collection: StorageCollection;
   private initialized: boolean = false;
 
-  constructor(dataDir: string = './data') {
-    this.fileStore = new JsonFileStore(path.join(dataDir, 'contratos.json'));
+  constructor(dataDir: string = './data', driver?: StorageDriver) {
+    // INCREMENTO 28: driver plugável (default: JSON em contratos.json)
+    this.collection = (driver ?? new JsonFileDriver(dataDir)).collection(STORAGE_COLLECTIONS.contratos);
   }
 
-  static async create(dataDir: string = './data'): Promise<ContratoRepositoryImpl> {
-    const repo = new ContratoRepositoryImpl(dataDir);
+  static async create(dataDir: string = './data', driver?: StorageDriver): Promise<ContratoRepositoryImpl> {
+    const repo = new ContratoRepositoryImpl(dataDir, driver);
     await repo.init();
     return repo;
   }
 
   async init(): Promise<void> {
-    const items = await this.fileStore.readAll();
+    const items = await this.collection.readAll();
     this.store.clear();
     this.indexByEpisodio.clear();
     for (const raw of items) {
@@ -71,9 +73,11 @@ class ContratoRepositoryImpl implements ContratoRepository {
     }
   }
 
-  private async persist(): Promise<void> {
-    const items = Array.from(this.store.values()).map(serializeContrato);
-    await this.fileStore.writeAll(items);
+  /**
+   * INCREMENTO 28: grava apenas o registro alterado (upsert por id)
+   */
+  private async persist(item: ContratoDeDecisao): Promise<void> {
+    await this.collection.put([serializeContrato(item)]);
   }
 
   async create(contrato: ContratoDeDecisao): Promise<void> {
@@ -97,7 +101,7 @@ class ContratoRepositoryImpl implements ContratoRepository {
     this.store.set(clone.id, clone);
     this.indexByEpisodio.set(clone.episodio_id, clone.id);
 
-    await this.persist();
+    await this.persist(clone);
   }
 
   async getById(id: string): Promise<ContratoDeDecisao | null> {
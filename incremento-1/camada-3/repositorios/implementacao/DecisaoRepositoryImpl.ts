@@ -1,5 +1,6 @@
-import * as path from 'path';
-import { JsonFileStore } from '../../utilitarios/JsonFileStore';
+import { StorageCollection, StorageDriver } from '../../storage/StorageTypes';
+import { JsonFileDriver } from '../../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../../storage/StorageCollections';
 import { DecisaoRepository } from '../interfaces/DecisaoRepository';
 import { DecisaoInstitucional } from '../../entidades/tipos';
 
@@ -38,21 +39,22 @@ function cloneDecisao(d: DecisaoInstitucional): DecisaoInstitucional {
 class DecisaoRepositoryImpl implements DecisaoRepository {
   private store: Map<string, DecisaoInstitucional> = new Map();
   private indexByEpisodio: Map<string, string> = new Map();
-  private fileStore: JsonFileStore;
+  private collection: StorageCollection;
   private initialized: boolean = false;
 
-  constructor(dataDir: string = './data') {
-    this.fileStore = new JsonFileStore(path.join(dataDir, 'decisoes.json'));
+  constructor(dataDir: string = './data', driver?: StorageDriver) {
+    // INCREMENTO 28: driver plugável (default: JSON em decisoes.json)
+    this.collection = (driver ?? new JsonFileDriver(dataDir)).collection(STORAGE_COLLECTIONS.decisoes);
   }
 
-  static async create(dataDir: string = './data'): Promise<DecisaoRepositoryImpl> {
-    const repo = new DecisaoRepositoryImpl(dataDir);
+  static async create(dataDir: string = './data', driver?: StorageDriver): Promise<DecisaoRepositoryImpl> {
+    const repo = new DecisaoRepositoryImpl(dataDir, driver);
     await repo.init();
     return repo;
   }
 
   async init(): Promise<void> {
-    const items = await this.fileStore.readAll();
+    const items = await this.collection.readAll();
     this.store.clear();
     this.indexByEpisodio.clear();
     for (const raw of items) {
@@ -71,9 +73,11 @@ class DecisaoRepositoryImpl implements DecisaoRepository {
     }
   }
 
-  private async persist(): Promise<void> {
-    const items = Array.from(this.store.values()).map(serializeDecisao);
-    await this.fileStore.writeAll(items);
+  /**
+   * INCREMENTO 28: grava apenas o registro alterado (upsert por id)
+   */
+  private async persist(item: DecisaoInstitucional): Promise<void> {
+    await this.collection.put([serializeDecisao(item)]);
   }
 
   async create(decisao: DecisaoInstitucional): Promise<void> {
@@ -97,7 +101,7 @@ class DecisaoRepositoryImpl implements DecisaoRepository {
     this.store.set(clone.id, clone);
     this.indexByEpisodio.set(clone.episodio_id, clone.id);
 
-    await this.persist();
+    await this.persist(clone);
   }
 
   async getById(id: string): Promise<DecisaoInstitucional | null> {
@@ -1,5 +1,6 @@
-import * as path from 'path';
-import { JsonFileStore } from '../../utilitarios/JsonFileStore';
+import { StorageCollection, StorageDriver } from '../../storage/StorageTypes';
+import { JsonFileDriver } from '../../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../../storage/StorageCollections';
 import { DecisionProtocolRepository } from '../interfaces/DecisionProtocolRepository';
 import { DecisionProtocol, EstadoProtocolo, PerfilRisco } from '../../entidades/tipos';
 
@@ -41,21 +42,22 @@ function cloneProtocol(p: DecisionProtocol): DecisionProtocol {
 class DecisionProtocolRepositoryImpl implements DecisionProtocolRepository {
   private store: Map<string, DecisionProtocol> = new Map();
   private indexByEpisodio: Map<string, string> = new Map();
-  private fileStore: JsonFileStore;
+  private collection: StorageCollection;
   private initialized: boolean = false;
 
-  constructor(dataDir: string = './data') {
-    this.fileStore = new JsonFileStore(path.join(dataDir, 'protocolos.json'));
+  constructor(dataDir: string = './data', driver?: StorageDriver) {
+    // INCREMENTO 28: driver plugável (default: JSON em protocolos.json)
+    this.collection = (driver ?? new JsonFileDriver(dataDir)).collection(STORAGE_COLLECTIONS.protocolos);
   }
 
-  static async create(dataDir: string = './data'): Promise<DecisionProtocolRepositoryImpl> {
-    const repo = new DecisionProtocolRepositoryImpl(dataDir);
+  static async create(dataDir: string = './data', driver?: StorageDriver): Promise<DecisionProtocolRepositoryImpl> {
+    const repo = new DecisionProtocolRepositoryImpl(dataDir, driver);
     await repo.init();
     return repo;
   }
 
   async init(): Promise<void> {
-    const items = await this.fileStore.readAll();
+    const items = await this.collection.readAll();
     this.store.clear();
     this.indexByEpisodio.clear();
     for (const raw of items) {
@@ -74,9 +76,11 @@ class DecisionProtocolRepositoryImpl implements DecisionProtocolRepository {
     }
   }
 
-  private async persist(): Promise<void> {
-    const items = Array.from(this.store.values()).map(serializeProtocol);
-    await this.fileStore.writeAll(items);
+  /**
+   * INCREMENTO 28: grava apenas o registro alterado (upsert por id)
+   */
+  private async persist(item: DecisionProtocol): Promise<void> {
+    await this.collection.put([serializeProtocol(item)]);
   }
 
   async create(protocolo: DecisionProtocol): Promise<void> {
@@ -99,7 +103,7 @@ class DecisionProtocolRepositoryImpl implements DecisionProtocolRepository {
     this.store.set(clone.id, clone);
     this.indexByEpisodio.set(clone.episodio_id, clone.id);
 
-    await this.persist();
+    await this.persist(clone);
   }
 
   async getById(id: string): Promise<DecisionProtocol | null> {
@@ -1,5 +1,6 @@
-import * as path from 'path';
-import { JsonFileStore } from '../../utilitarios/JsonFileStore';
+import { StorageCollection, StorageDriver } from '../../storage/StorageTypes';
+import { JsonFileDriver } from '../../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../../storage/StorageCollections';
 import { EpisodioRepository } from '../interfaces/EpisodioRepository';
 import {
   EpisodioDecisao,
@@ -242,7 +243,7 @@ interface FindDebugStats {
 
 class EpisodioRepositoryImpl implements EpisodioRepository {
   private store: Map<string, EpisodioDecisao> = new Map();
-  private fileStore: JsonFileStore;
+  private collection: StorageCollection;
   private initialized: boolean = false;
 
   // INCREMENTO 2: IndexManager interno
@@ -251,18 +252,19 @@ class EpisodioRepositoryImpl implements EpisodioRepository {
   // INCREMENTO 2.1: Debug stats (atualizado a cada find())
   private _lastFindDebug: FindDebugStats | null = null;
 
-  constructor(dataDir: string = './data') {
-    this.fileStore = new JsonFileStore(path.join(dataDir, 'episodios.json'));
+  constructor(dataDir: string = './data', driver?: StorageDriver) {
+    // INCREMENTO 28: driver plugável (default: JSON em episodios.json)
+    this.collection = (driver ?? new JsonFileDriver(dataDir)).collection(STORAGE_COLLECTIONS.episodios);
   }
 
-  static async create(dataDir: string = './data'): Promise<EpisodioRepositoryImpl> {
-    const repo = new EpisodioRepositoryImpl(dataDir);
+  static async create(dataDir: string = './data', driver?: StorageDriver): Promise<EpisodioRepositoryImpl> {
+    const repo = new EpisodioRepositoryImpl(dataDir, driver);
     await repo.init();
     return repo;
   }
 
   async init(): Promise<void> {
-    const items = await this.fileStore.readAll();
+    const items = await this.collection.readAll();
     this.store.clear();
     this.indexes.clear();
 
@@ -287,9 +289,11 @@ class EpisodioRepositoryImpl implements EpisodioRepository {
     }
   }
 
-  private async persist(): Promise<void> {
-    const items = Array.from(this.store.values()).map(serializeEpisodio);
-    await this.fileStore.writeAll(items);
+  /**
+   * INCREMENTO 28: grava apenas o registro alterado (upsert por id)
+   */
+  private async persist(item: EpisodioDecisao): Promise<void> {
+    await this.collection.put([serializeEpisodio(item)]);
   }
 
   async create(episodio: EpisodioDecisao): Promise<void> {
@@ -310,7 +314,7 @@ class EpisodioRepositoryImpl implements EpisodioRepository {
     this.indexes.addEpisodio(clone);
     this.indexes.sortByDataCriacao();
 
-    await this.persist();
+    await this.persist(clone);
   }
 
   async getById(id: string): Promise<EpisodioDecisao | null> {
@@ -379,7 +383,7 @@ class EpisodioRepositoryImpl implements EpisodioRepository {
     // INCREMENTO 2: Atualizar índice de estado
     this.indexes.updateEstado(id, estadoAntigo, novo_estado);
 
-    await this.persist();
+    await this.persist(episodio);
   }
 
   /**
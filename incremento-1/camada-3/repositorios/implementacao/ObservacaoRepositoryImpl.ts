@@ -10,8 +10,9 @@
  * - Imutável após criação
  */
 
-import * as path from 'path';
-import { JsonFileStore } from '../../utilitarios/JsonFileStore';
+import { StorageCollection, StorageDriver } from '../../storage/StorageTypes';
+import { JsonFileDriver } from '../../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../../storage/StorageCollections';
 import { ObservacaoRepository } from '../interfaces/ObservacaoRepository';
 import {
   ObservacaoDeConsequencia,
@@ -22,7 +23,7 @@ import {
 // FUNÇÕES DE SERIALIZAÇÃO E RE-HIDRATAÇÃO
 // ════════════════════════════════════════════════════════════════════════════
 
-function serializeObservacao(o: ObservacaoDeConsequencia): unknown {
+function serializeObservacao(o: ObservacaoDeConsequencia): Record<string, unknown> {
   return {
     ...o,
     data_registro: o.data_registro.toISOString(),
@@ -80,21 +81,22 @@ class ObservacaoRepositoryImpl implements ObservacaoRepository {
   private store: Map<string, ObservacaoDeConsequencia> = new Map();
   private indexByContrato: Map<string, string[]> = new Map();
   private indexByEpisodio: Map<string, string[]> = new Map();
-  private fileStore: JsonFileStore;
+  private collection: StorageCollection;
   private initialized = false;
 
-  constructor(dataDir: string = './data') {
-    this.fileStore = new JsonFileStore(path.join(dataDir, 'observacoes.json'));
+  constructor(dataDir: string = './data', driver?: StorageDriver) {
+    // INCREMENTO 28: driver plugável (default: JSON em observacoes.json)
+    this.collection = (driver ?? new JsonFileDriver(dataDir)).collection(STORAGE_COLLECTIONS.observacoes);
   }
 
-  static async create(dataDir: string = './data'): Promise<ObservacaoRepositoryImpl> {
-    const repo = new ObservacaoRepositoryImpl(dataDir);
+  static async create(dataDir: string = './data', driver?: StorageDriver): Promise<ObservacaoRepositoryImpl> {
+    const repo = new ObservacaoRepositoryImpl(dataDir, driver);
     await repo.init();
     return repo;
   }
 
   async init(): Promise<void> {
-    const items = await this.fileStore.readAll();
+    const items = await this.collection.readAll();
     this.store.clear();
     this.indexByContrato.clear();
     this.indexByEpisodio.clear();
@@ -128,9 +130,11 @@ class ObservacaoRepositoryImpl implements ObservacaoRepository {
     }
   }
 
-  private async persist(): Promise<void> {
-    const items = Array.from(this.store.values()).map(serializeObservacao);
-    await this.fileStore.writeAll(items);
+  /**
+   * INCREMENTO 28: grava apenas o registro alterado (upsert por id)
+   */
+  private async persist(item: ObservacaoDeConsequencia): Promise<void> {
+    await this.collection.put([serializeObservacao(item)]);
   }
 
   // ══════════════════════════════════════════════════════════════════════════
@@ -152,7 +156,7 @@ class ObservacaoRepositoryImpl implements ObservacaoRepository {
     this.store.set(clone.id, clone);
     this.addToIndex(clone);
 
-    await this.persist();
+    await this.persist(clone);
   }
 
   // ══════════════════════════════════════════════════════════════════════════
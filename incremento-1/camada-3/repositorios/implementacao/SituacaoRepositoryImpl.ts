@@ -1,10 +1,12 @@
-import * as path from 'path';
-import { JsonFileStore } from '../../utilitarios/JsonFileStore';
+import { StorageCollection, StorageDriver } from '../../storage/StorageTypes';
+import { JsonFileDriver } from '../../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../../storage/StorageCollections';
 import { SituacaoRepository } from '../interfaces/SituacaoRepository';
 import {
   SituacaoDecisoria,
   StatusSituacao,
-  AnexoAnalise
+  AnexoAnalise,
+  DadosSituacaoInput
 } from '../../entidades/tipos';
 
 // ════════════════════════════════════════════════════════════════════════
@@ -71,29 +73,30 @@ const TRANSICOES_SITUACAO: Record<StatusSituacao, StatusSituacao[]> = {
 
 class SituacaoRepositoryImpl implements SituacaoRepository {
   private store: Map<string, SituacaoDecisoria> = new Map();
-  private fileStore: JsonFileStore;
+  private collection: StorageCollection;
   private initialized: boolean = false;
 
   /**
    * Constructor é privado conceitualmente
    * USE static create() para criar instâncias
    */
-  constructor(dataDir: string = './data') {
-    this.fileStore = new JsonFileStore(path.join(dataDir, 'situacoes.json'));
+  constructor(dataDir: string = './data', driver?: StorageDriver) {
+    // INCREMENTO 28: driver plugável (default: JSON em situacoes.json)
+    this.collection = (driver ?? new JsonFileDriver(dataDir)).collection(STORAGE_COLLECTIONS.situacoes);
   }
 
   /**
    * Factory method RECOMENDADO para criar instância inicializada
    * Evita o bug de usar repositório sem init()
    */
-  static async create(dataDir: string = './data'): Promise<SituacaoRepositoryImpl> {
-    const repo = new SituacaoRepositoryImpl(dataDir);
+  static async create(dataDir: string = './data', driver?: StorageDriver): Promise<SituacaoRepositoryImpl> {
+    const repo = new SituacaoRepositoryImpl(dataDir, driver);
     await repo.init();
     return repo;
   }
 
   async init(): Promise<void> {
-    const items = await this.fileStore.readAll();
+    const items = await this.collection.readAll();
     this.store.clear();
     for (const raw of items) {
       const situacao = reviveSituacao(raw);
@@ -110,9 +113,11 @@ class SituacaoRepositoryImpl implements SituacaoRepository {
     }
   }
 
-  private async persist(): Promise<void> {
-    const items = Array.from(this.store.values()).map(serializeSituacao);
-    await this.fileStore.writeAll(items);
+  /**
+   * INCREMENTO 28: grava apenas o registro alterado (upsert por id)
+   */
+  private async persist(item: SituacaoDecisoria): Promise<void> {
+    await this.collection.put([serializeSituacao(item)]);
   }
 
   async create(situacao: SituacaoDecisoria): Promise<void> {
@@ -128,7 +133,7 @@ class SituacaoRepositoryImpl implements SituacaoRepository {
     const clone = cloneSituacao(situacao);
 
     this.store.set(clone.id, clone);
-    await this.persist();
+    await this.persist(clone);
   }
 
   async getById(id: string): Promise<SituacaoDecisoria | null> {
@@ -163,7 +168,7 @@ class SituacaoRepositoryImpl implements SituacaoRepository {
     }
 
     situacao.status = novo_status;
-    await this.persist();
+    await this.persist(situacao);
   }
 
   async appendAnexoAnalise(id: string, anexo: AnexoAnalise): Promise<void> {
@@ -200,7 +205,7 @@ class SituacaoRepositoryImpl implements SituacaoRepository {
     }
 
     situacao.anexos_analise.push(anexado);
-    await this.persist();
+    await this.persist(situacao);
   }
 
   // ══════════════════════════════════════════════════════════════════════
@@ -211,34 +216,55 @@ class SituacaoRepositoryImpl implements SituacaoRepository {
     if (!situacao.id) {
       throw new Error('id é obrigatório');
     }
-    if (!situacao.dominio) {
-      throw new Error('dominio é obrigatório');
-    }
-    if (!situacao.contexto) {
-      throw new Error('contexto é obrigatório');
-    }
-    if (!situacao.objetivo) {
-      throw new Error('objetivo é obrigatório');
-    }
-    if (!situacao.incertezas || situacao.incertezas.length === 0) {
-      throw new Error('Não há incerteza real - decisão é determinística');
-    }
-    if (!situacao.alternativas || situacao.alternativas.length < 2) {
-      throw new Error('Decisão requer no mínimo 2 alternativas reais');
-    }
-    if (!situacao.riscos || situacao.riscos.length === 0) {
-      throw new Error('Não há risco real identificado');
-    }
-    if (!situacao.consequencia_relevante) {
-      throw new Error('Não há consequência relevante identificada');
-    }
-    if (situacao.possibilidade_aprendizado !== true) {
-      throw new Error('Não há possibilidade de aprendizado - decisão não qualifica');
-    }
-    if (situacao.caso_uso_declarado < 1 || situacao.caso_uso_declarado > 5) {
-      throw new Error('Caso de uso deve ser entre 1 e 5');
+    const erros = validarDadosSituacao(situacao);
+    if (erros.length > 0) {
+      throw new Error(erros[0]);
     }
   }
 }
 
-export { SituacaoRepositoryImpl };
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 50: REGRAS DE CRIAÇÃO SEM PARAR NO PRIMEIRO ERRO
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Todas as regras que create() aplica aos dados da situação, na mesma
+ * ordem e com as mesmas mensagens. create() lança o primeiro erro; a
+ * validação prévia de decisões (OrquestradorCognitivo.ValidarDecisao)
+ * reporta a lista inteira.
+ */
+function validarDadosSituacao(situacao: DadosSituacaoInput): string[] {
+  const erros: string[] = [];
+
+  if (!situacao.dominio) {
+    erros.push('dominio é obrigatório');
+  }
+  if (!situacao.contexto) {
+    erros.push('contexto é obrigatório');
+  }
+  if (!situacao.objetivo) {
+    erros.push('objetivo é obrigatório');
+  }
+  if (!situacao.incertezas || situacao.incertezas.length === 0) {
+    erros.push('Não há incerteza real - decisão é determinística');
+  }
+  if (!situacao.alternativas || situacao.alternativas.length < 2) {
+    erros.push('Decisão requer no mínimo 2 alternativas reais');
+  }
+  if (!situacao.riscos || situacao.riscos.length === 0) {
+    erros.push('Não há risco real identificado');
+  }
+  if (!situacao.consequencia_relevante) {
+    erros.push('Não há consequência relevante identificada');
+  }
+  if (situacao.possibilidade_aprendizado !== true) {
+    erros.push('Não há possibilidade de aprendizado - decisão não qualifica');
+  }
+  if (situacao.caso_uso_declarado < 1 || situacao.caso_uso_declarado > 5) {
+    erros.push('Caso de uso deve ser entre 1 e 5');
+  }
+
+  return erros;
+}
+
+export { SituacaoRepositoryImpl, validarDadosSituacao };
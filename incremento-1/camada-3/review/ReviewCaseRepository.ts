@@ -7,6 +7,8 @@
  * - Multi-tenant: cada operação recebe tenantId
  * - Append-only com transições controladas
  * - Idempotência: createOrGetOpen não duplica casos
+ * - INCREMENTO 42: toda mudança incrementa `version`; operações com
+ *   expectedVersion falham se o caso mudou desde a leitura
  */
 
 import {
@@ -32,6 +34,17 @@ interface CreateOrGetResult {
   created: boolean;
 }
 
+/**
+ * INCREMENTO 42: Resultado de claim/release.
+ */
+interface ReviewClaimResult {
+  /** O caso após a operação */
+  reviewCase: ReviewCase;
+
+  /** Se o caso mudou (false quando a operação foi idempotente) */
+  changed: boolean;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // INTERFACE DO REPOSITÓRIO
 // ════════════════════════════════════════════════════════════════════════════
@@ -86,6 +99,8 @@ interface ReviewCaseRepository {
    * @returns Caso atualizado
    * @throws InvalidReviewTransitionError se não estiver OPEN
    * @throws ReviewNotesRequiredError se notes vazio e resolution != NO_ACTION
+   * @throws ReviewVersionConflictError se expectedVersion não confere (Inc 42)
+   * @throws ReviewCaseClaimedError se assumido por outro revisor (Inc 42)
    */
   resolve(tenantId: string, reviewId: string, input: ResolveReviewCaseInput): Promise<ReviewCase>;
 
@@ -99,20 +114,51 @@ interface ReviewCaseRepository {
    * @returns Caso atualizado
    * @throws InvalidReviewTransitionError se não estiver OPEN
    * @throws ReviewNotesRequiredError se notes vazio
+   * @throws ReviewVersionConflictError se expectedVersion não confere (Inc 42)
+   * @throws ReviewCaseClaimedError se assumido por outro revisor (Inc 42)
    */
   dismiss(tenantId: string, reviewId: string, input: DismissReviewCaseInput): Promise<ReviewCase>;
 
   /**
-   * Atualiza notas de um caso (qualquer status).
+   * Atualiza notas de um caso OPEN.
    * Operação auditável.
    *
    * @param tenantId - ID do tenant
    * @param reviewId - ID do caso
    * @param notes - Novas notas
    * @param updatedBy - Quem atualizou
+   * @param expectedVersion - INCREMENTO 42: versão lida (opcional)
    * @returns Caso atualizado
+   * @throws InvalidReviewTransitionError se não estiver OPEN
+   * @throws ReviewCaseClaimedError se assumido por outro revisor
+   * @throws ReviewVersionConflictError se expectedVersion não confere
+   */
+  updateNotes(
+    tenantId: string,
+    reviewId: string,
+    notes: string,
+    updatedBy: string,
+    expectedVersion?: number
+  ): Promise<ReviewCase>;
+
+  /**
+   * INCREMENTO 42: Revisor assume um caso OPEN.
+   * Idempotente para o mesmo revisor (não muda a versão).
+   *
+   * @throws InvalidReviewTransitionError se não estiver OPEN
+   * @throws ReviewCaseClaimedError se já assumido por outro revisor
+   * @throws ReviewVersionConflictError se expectedVersion não confere
+   */
+  claim(tenantId: string, reviewId: string, claimedBy: string, expectedVersion?: number): Promise<ReviewClaimResult>;
+
+  /**
+   * INCREMENTO 42: Revisor devolve o caso à fila.
+   * Caso não assumido: no-op.
+   *
+   * @throws ReviewCaseClaimedError se assumido por outro revisor
+   * @throws ReviewVersionConflictError se expectedVersion não confere
    */
-  updateNotes(tenantId: string, reviewId: string, notes: string, updatedBy: string): Promise<ReviewCase>;
+  release(tenantId: string, reviewId: string, releasedBy: string, expectedVersion?: number): Promise<ReviewClaimResult>;
 
   /**
    * Conta casos por status.
@@ -127,4 +173,4 @@ interface ReviewCaseRepository {
 // EXPORTS
 // ════════════════════════════════════════════════════════════════════════════
 
-export { ReviewCaseRepository, CreateOrGetResult };
+export { ReviewCaseRepository, CreateOrGetResult, ReviewClaimResult };
@@ -8,10 +8,18 @@
  * - Lock de persistência para evitar races
  * - Transições de estado controladas
  * - Idempotência por observacaoId
+ *
+ * INCREMENTO 28: persistência via StorageCollection (driver JSON ou SQLite),
+ * com escrita por registro.
+ *
+ * INCREMENTO 42: versão e revisor responsável verificados dentro do lock,
+ * junto com a transição de status.
  */
 
-import { JsonFileStore } from '../utilitarios/JsonFileStore';
-import { ReviewCaseRepository, CreateOrGetResult } from './ReviewCaseRepository';
+import { StorageCollection, StorageDriver } from '../storage/StorageTypes';
+import { JsonFileCollection } from '../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../storage/StorageCollections';
+import { ReviewCaseRepository, CreateOrGetResult, ReviewClaimResult } from './ReviewCaseRepository';
 import {
   ReviewCase,
   ReviewCaseFilters,
@@ -22,23 +30,50 @@ import {
 import {
   ReviewCaseNotFoundError,
   InvalidReviewTransitionError,
-  ReviewNotesRequiredError
+  ReviewNotesRequiredError,
+  ReviewVersionConflictError,
+  ReviewCaseClaimedError
 } from './ReviewErrors';
 
+/**
+ * INCREMENTO 42: Casos anteriores ao campo `version` valem como versão 1.
+ */
+function versionOf(reviewCase: ReviewCase): number {
+  return reviewCase.version ?? 1;
+}
+
+function checkVersion(reviewCase: ReviewCase, expectedVersion?: number): void {
+  if (expectedVersion !== undefined && expectedVersion !== versionOf(reviewCase)) {
+    throw new ReviewVersionConflictError(reviewCase.id, expectedVersion, versionOf(reviewCase));
+  }
+}
+
+function checkClaim(reviewCase: ReviewCase, actor: string): void {
+  if (reviewCase.claimedBy && reviewCase.claimedBy !== actor) {
+    throw new ReviewCaseClaimedError(reviewCase.id, reviewCase.claimedBy);
+  }
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // IMPLEMENTAÇÃO
 // ════════════════════════════════════════════════════════════════════════════
 
 /**
  * Implementação do repositório de casos de revisão.
- * Usa JsonFileStore com lock de persistência.
+ * Usa StorageCollection com lock de persistência.
  */
 class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
-  private store: JsonFileStore;
+  private store: StorageCollection;
   private persistLock: Promise<void> = Promise.resolve();
 
-  constructor(filePath: string) {
-    this.store = new JsonFileStore(filePath);
+  /**
+   * @param filePath - Arquivo JSON (usado quando não há driver)
+   * @param driver - Driver de armazenamento do tenant (Inc 28)
+   */
+  constructor(filePath: string, driver?: StorageDriver) {
+    this.store = driver
+      ? driver.collection(STORAGE_COLLECTIONS.reviewCases)
+      : new JsonFileCollection(filePath, STORAGE_COLLECTIONS.reviewCases);
   }
 
   // ══════════════════════════════════════════════════════════════════════════
@@ -71,7 +106,7 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
 
   async createOrGetOpenByObservacaoId(input: CreateReviewCaseInput): Promise<CreateOrGetResult> {
     return this.withLock(async () => {
-      const cases = await this.store.readAll() as ReviewCase[];
+      const cases = await this.store.findBy('tenantId', input.tenantId) as ReviewCase[];
 
       // Buscar caso OPEN existente para esta observação + tenant
       const existing = cases.find(
@@ -93,18 +128,18 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
         createdAt: now,
         updatedAt: now,
         triggeredBy: input.triggeredBy,
-        contextSnapshot: input.contextSnapshot
+        contextSnapshot: input.contextSnapshot,
+        version: 1
       };
 
-      cases.push(newCase);
-      await this.store.writeAll(cases);
+      await this.store.put([newCase]);
 
       return { reviewCase: newCase, created: true };
     });
   }
 
   async list(tenantId: string, filters?: ReviewCaseFilters): Promise<ReviewCase[]> {
-    const cases = await this.store.readAll() as ReviewCase[];
+    const cases = await this.store.findBy('tenantId', tenantId) as ReviewCase[];
 
     let filtered = cases.filter(c => c.tenantId === tenantId);
 
@@ -135,12 +170,12 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
   }
 
   async getById(tenantId: string, reviewId: string): Promise<ReviewCase | null> {
-    const cases = await this.store.readAll() as ReviewCase[];
+    const cases = await this.store.findBy('tenantId', tenantId) as ReviewCase[];
     return cases.find(c => c.id === reviewId && c.tenantId === tenantId) ?? null;
   }
 
   async getOpenByObservacaoId(tenantId: string, observacaoId: string): Promise<ReviewCase | null> {
-    const cases = await this.store.readAll() as ReviewCase[];
+    const cases = await this.store.findBy('tenantId', tenantId) as ReviewCase[];
     return cases.find(
       c => c.tenantId === tenantId &&
            c.triggeredBy.observacaoId === observacaoId &&
@@ -154,7 +189,7 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
     input: ResolveReviewCaseInput
   ): Promise<ReviewCase> {
     return this.withLock(async () => {
-      const cases = await this.store.readAll() as ReviewCase[];
+      const cases = await this.store.findBy('tenantId', tenantId) as ReviewCase[];
       const index = cases.findIndex(c => c.id === reviewId && c.tenantId === tenantId);
 
       if (index === -1) {
@@ -163,11 +198,16 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
 
       const reviewCase = cases[index];
 
+      // Validar versão lida e revisor responsável (Inc 42)
+      checkVersion(reviewCase, input.expectedVersion);
+
       // Validar transição
       if (reviewCase.status !== 'OPEN') {
         throw new InvalidReviewTransitionError(reviewId, reviewCase.status, 'RESOLVED');
       }
 
+      checkClaim(reviewCase, input.decidedBy);
+
       // Validar notas (obrigatório se resolution != NO_ACTION)
       if (input.resolution !== 'NO_ACTION' && (!input.notes || input.notes.trim() === '')) {
         throw new ReviewNotesRequiredError(input.resolution);
@@ -179,6 +219,7 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
         ...reviewCase,
         status: 'RESOLVED',
         updatedAt: now,
+        version: versionOf(reviewCase) + 1,
         decision: {
           decidedBy: input.decidedBy,
           decisionAt: now,
@@ -188,8 +229,7 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
         }
       };
 
-      cases[index] = updated;
-      await this.store.writeAll(cases);
+      await this.store.put([updated]);
 
       return updated;
     });
@@ -201,7 +241,7 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
     input: DismissReviewCaseInput
   ): Promise<ReviewCase> {
     return this.withLock(async () => {
-      const cases = await this.store.readAll() as ReviewCase[];
+      const cases = await this.store.findBy('tenantId', tenantId) as ReviewCase[];
       const index = cases.findIndex(c => c.id === reviewId && c.tenantId === tenantId);
 
       if (index === -1) {
@@ -210,11 +250,16 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
 
       const reviewCase = cases[index];
 
+      // Validar versão lida e revisor responsável (Inc 42)
+      checkVersion(reviewCase, input.expectedVersion);
+
       // Validar transição
       if (reviewCase.status !== 'OPEN') {
         throw new InvalidReviewTransitionError(reviewId, reviewCase.status, 'DISMISSED');
       }
 
+      checkClaim(reviewCase, input.dismissedBy);
+
       // Validar notas (sempre obrigatório para dismiss)
       if (!input.notes || input.notes.trim() === '') {
         throw new ReviewNotesRequiredError('DISMISS');
@@ -226,6 +271,7 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
         ...reviewCase,
         status: 'DISMISSED',
         updatedAt: now,
+        version: versionOf(reviewCase) + 1,
         decision: {
           decidedBy: input.dismissedBy,
           decisionAt: now,
@@ -235,8 +281,7 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
         }
       };
 
-      cases[index] = updated;
-      await this.store.writeAll(cases);
+      await this.store.put([updated]);
 
       return updated;
     });
@@ -246,10 +291,11 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
     tenantId: string,
     reviewId: string,
     notes: string,
-    updatedBy: string
+    updatedBy: string,
+    expectedVersion?: number
   ): Promise<ReviewCase> {
     return this.withLock(async () => {
-      const cases = await this.store.readAll() as ReviewCase[];
+      const cases = await this.store.findBy('tenantId', tenantId) as ReviewCase[];
       const index = cases.findIndex(c => c.id === reviewId && c.tenantId === tenantId);
 
       if (index === -1) {
@@ -257,12 +303,22 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
       }
 
       const reviewCase = cases[index];
+      checkVersion(reviewCase, expectedVersion);
+
+      // Só casos OPEN, e apenas pelo revisor que assumiu (se houver)
+      if (reviewCase.status !== 'OPEN') {
+        throw new InvalidReviewTransitionError(reviewId, reviewCase.status, 'NOTES_UPDATED');
+      }
+
+      checkClaim(reviewCase, updatedBy);
+
       const now = new Date().toISOString();
 
       // Atualizar notas
       const updated: ReviewCase = {
         ...reviewCase,
         updatedAt: now,
+        version: versionOf(reviewCase) + 1,
         decision: reviewCase.decision
           ? { ...reviewCase.decision, notes }
           : {
@@ -274,15 +330,97 @@ class ReviewCaseRepositoryImpl implements ReviewCaseRepository {
             }
       };
 
-      cases[index] = updated;
-      await this.store.writeAll(cases);
+      await this.store.put([updated]);
 
       return updated;
     });
   }
 
+  async claim(
+    tenantId: string,
+    reviewId: string,
+    claimedBy: string,
+    expectedVersion?: number
+  ): Promise<ReviewClaimResult> {
+    return this.withLock(async () => {
+      const cases = await this.store.findBy('tenantId', tenantId) as ReviewCase[];
+      const reviewCase = cases.find(c => c.id === reviewId && c.tenantId === tenantId);
+
+      if (!reviewCase) {
+        throw new ReviewCaseNotFoundError(reviewId, tenantId);
+      }
+
+      checkVersion(reviewCase, expectedVersion);
+
+      if (reviewCase.status !== 'OPEN') {
+        throw new InvalidReviewTransitionError(reviewId, reviewCase.status, 'CLAIMED');
+      }
+
+      checkClaim(reviewCase, claimedBy);
+
+      // Idempotência: já assumido pelo mesmo revisor
+      if (reviewCase.claimedBy === claimedBy) {
+        return { reviewCase, changed: false };
+      }
+
+      const now = new Date().toISOString();
+      const updated: ReviewCase = {
+        ...reviewCase,
+        updatedAt: now,
+        version: versionOf(reviewCase) + 1,
+        claimedBy,
+        claimedAt: now
+      };
+
+      await this.store.put([updated]);
+
+      return { reviewCase: updated, changed: true };
+    });
+  }
+
+  async release(
+    tenantId: string,
+    reviewId: string,
+    releasedBy: string,
+    expectedVersion?: number
+  ): Promise<ReviewClaimResult> {
+    return this.withLock(async () => {
+      const cases = await this.store.findBy('tenantId', tenantId) as ReviewCase[];
+      const reviewCase = cases.find(c => c.id === reviewId && c.tenantId === tenantId);
+
+      if (!reviewCase) {
+        throw new ReviewCaseNotFoundError(reviewId, tenantId);
+      }
+
+      checkVersion(reviewCase, expectedVersion);
+
+      // Idempotência: caso não assumido
+      if (!reviewCase.claimedBy) {
+        return { reviewCase, changed: false };
+      }
+
+      if (reviewCase.status !== 'OPEN') {
+        throw new InvalidReviewTransitionError(reviewId, reviewCase.status, 'RELEASED');
+      }
+
+      checkClaim(reviewCase, releasedBy);
+
+      const updated: ReviewCase = {
+        ...reviewCase,
+        updatedAt: new Date().toISOString(),
+        version: versionOf(reviewCase) + 1
+      };
+      delete updated.claimedBy;
+      delete updated.claimedAt;
+
+      await this.store.put([updated]);
+
+      return { reviewCase: updated, changed: true };
+    });
+  }
+
   async countByStatus(tenantId: string): Promise<Record<string, number>> {
-    const cases = await this.store.readAll() as ReviewCase[];
+    const cases = await this.store.findBy('tenantId', tenantId) as ReviewCase[];
     const tenantCases = cases.filter(c => c.tenantId === tenantId);
 
     const counts: Record<string, number> = {
@@ -8,6 +8,8 @@
  * - Idempotência: mesma observação não duplica caso nem evento
  * - Auditoria: todas as operações registradas no EventLog
  * - Efeitos: aplica ações de autonomia quando solicitado
+ * - INCREMENTO 42: revisor assume o caso (claim) e operações aceitam
+ *   expectedVersion para concorrência otimista
  */
 
 import { ActorId, TipoEvento, TipoEntidade } from '../event-log/EventLogEntry';
@@ -130,7 +132,8 @@ class ReviewCaseService {
           mandateId: result.reviewCase.triggeredBy.mandateId,
           ruleId: result.reviewCase.triggeredBy.ruleId,
           actionSuggested: result.reviewCase.triggeredBy.actionSuggested,
-          status: result.reviewCase.status
+          status: result.reviewCase.status,
+          reviewCase: result.reviewCase
         },
         actor
       );
@@ -224,7 +227,8 @@ class ReviewCaseService {
           resolution: input.resolution,
           decidedBy: input.decidedBy,
           effectsApplied,
-          effectErrors: effectErrors.length > 0 ? effectErrors : undefined
+          effectErrors: effectErrors.length > 0 ? effectErrors : undefined,
+          reviewCase: resolved
         },
         input.decidedBy
       );
@@ -268,7 +272,8 @@ class ReviewCaseService {
           observacaoId: dismissed.triggeredBy.observacaoId,
           mandateId: dismissed.triggeredBy.mandateId,
           dismissedBy: input.dismissedBy,
-          notes: input.notes
+          notes: input.notes,
+          reviewCase: dismissed
         },
         input.dismissedBy
       );
@@ -288,15 +293,17 @@ class ReviewCaseService {
    * @param reviewId - ID do caso
    * @param notes - Novas notas
    * @param updatedBy - Quem atualizou
+   * @param expectedVersion - INCREMENTO 42: versão lida (opcional)
    * @returns Caso atualizado
    */
   async updateNotes(
     tenantId: string,
     reviewId: string,
     notes: string,
-    updatedBy: string
+    updatedBy: string,
+    expectedVersion?: number
   ): Promise<ReviewCase> {
-    const updated = await this.reviewRepo.updateNotes(tenantId, reviewId, notes, updatedBy);
+    const updated = await this.reviewRepo.updateNotes(tenantId, reviewId, notes, updatedBy, expectedVersion);
 
     // Emitir evento
     if (this.eventLog) {
@@ -307,7 +314,8 @@ class ReviewCaseService {
         {
           reviewId: updated.id,
           tenantId: updated.tenantId,
-          updatedBy
+          updatedBy,
+          reviewCase: updated
         },
         updatedBy
       );
@@ -316,6 +324,88 @@ class ReviewCaseService {
     return updated;
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // REVISOR RESPONSÁVEL (INCREMENTO 42)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Revisor assume o caso. Só o revisor que assumiu pode resolvê-lo ou
+   * dispensá-lo enquanto não o devolver.
+   * Idempotente: repetir pelo mesmo revisor não emite evento.
+   *
+   * @param tenantId - ID do tenant
+   * @param reviewId - ID do caso
+   * @param claimedBy - Revisor
+   * @param expectedVersion - Versão lida (opcional)
+   * @returns Caso atualizado
+   */
+  async claim(
+    tenantId: string,
+    reviewId: string,
+    claimedBy: string,
+    expectedVersion?: number
+  ): Promise<ReviewCase> {
+    // changed é decidido sob o lock do repositório, junto com a escrita
+    const { reviewCase: claimed, changed } = await this.reviewRepo.claim(
+      tenantId, reviewId, claimedBy, expectedVersion
+    );
+
+    if (changed) {
+      await this.logEvent(
+        TipoEvento.HUMAN_REVIEW_CASE_CLAIMED,
+        TipoEntidade.REVIEW_CASE,
+        claimed.id,
+        {
+          reviewId: claimed.id,
+          tenantId: claimed.tenantId,
+          claimedBy,
+          reviewCase: claimed
+        },
+        claimedBy
+      );
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Revisor devolve o caso à fila.
+   * Idempotente: caso não assumido não emite evento.
+   *
+   * @param tenantId - ID do tenant
+   * @param reviewId - ID do caso
+   * @param releasedBy - Revisor que havia assumido
+   * @param expectedVersion - Versão lida (opcional)
+   * @returns Caso atualizado
+   */
+  async release(
+    tenantId: string,
+    reviewId: string,
+    releasedBy: string,
+    expectedVersion?: number
+  ): Promise<ReviewCase> {
+    const { reviewCase: released, changed } = await this.reviewRepo.release(
+      tenantId, reviewId, releasedBy, expectedVersion
+    );
+
+    if (changed) {
+      await this.logEvent(
+        TipoEvento.HUMAN_REVIEW_CASE_RELEASED,
+        TipoEntidade.REVIEW_CASE,
+        released.id,
+        {
+          reviewId: released.id,
+          tenantId: released.tenantId,
+          releasedBy,
+          reviewCase: released
+        },
+        releasedBy
+      );
+    }
+
+    return released;
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // APLICAÇÃO DE EFEITOS
   // ══════════════════════════════════════════════════════════════════════════
@@ -2,6 +2,8 @@
  * INCREMENTO 20 — HUMAN REVIEW WORKFLOW: Erros
  *
  * Erros específicos do módulo de revisão humana.
+ *
+ * INCREMENTO 42: conflito de versão e caso assumido por outro revisor.
  */
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -106,6 +108,40 @@ class ReviewAccessDeniedError extends ReviewError {
   }
 }
 
+/**
+ * INCREMENTO 42: O caso mudou desde a versão lida pelo revisor.
+ */
+class ReviewVersionConflictError extends ReviewError {
+  readonly expectedVersion: number;
+  readonly currentVersion: number;
+
+  constructor(reviewId: string, expectedVersion: number, currentVersion: number) {
+    super(
+      `Caso ${reviewId} está na versão ${currentVersion}, esperada ${expectedVersion}`,
+      'REVIEW_VERSION_CONFLICT'
+    );
+    this.name = 'ReviewVersionConflictError';
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
+
+/**
+ * INCREMENTO 42: O caso foi assumido por outro revisor.
+ */
+class ReviewCaseClaimedError extends ReviewError {
+  readonly claimedBy: string;
+
+  constructor(reviewId: string, claimedBy: string) {
+    super(
+      `Caso ${reviewId} foi assumido por ${claimedBy}`,
+      'REVIEW_CASE_CLAIMED'
+    );
+    this.name = 'ReviewCaseClaimedError';
+    this.claimedBy = claimedBy;
+  }
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // CÓDIGOS DE REGRA
 // ════════════════════════════════════════════════════════════════════════════
@@ -119,7 +155,9 @@ const REVIEW_RULE = {
   NOTES_REQUIRED: 'REVIEW_NOTES_REQUIRED',
   ALREADY_EXISTS: 'REVIEW_CASE_ALREADY_EXISTS',
   INVALID_EFFECT: 'INVALID_REVIEW_EFFECT',
-  ACCESS_DENIED: 'REVIEW_ACCESS_DENIED'
+  ACCESS_DENIED: 'REVIEW_ACCESS_DENIED',
+  VERSION_CONFLICT: 'REVIEW_VERSION_CONFLICT',
+  CLAIMED: 'REVIEW_CASE_CLAIMED'
 } as const;
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -134,5 +172,7 @@ export {
   ReviewCaseAlreadyExistsError,
   InvalidReviewEffectError,
   ReviewAccessDeniedError,
+  ReviewVersionConflictError,
+  ReviewCaseClaimedError,
   REVIEW_RULE
 };
@@ -8,6 +8,9 @@
  * - Sem IA/heurística: fila mecânica
  * - Idempotência: mesma observação não duplica caso
  * - Multi-tenant: cada caso pertence a um tenant
+ *
+ * INCREMENTO 42: revisor responsável (claim) e versão para concorrência
+ * otimista.
  */
 
 import { ConsequenceAction, ConsequenceRuleId } from '../autonomy/consequence/AutonomyConsequenceTypes';
@@ -156,6 +159,18 @@ interface ReviewCase {
 
   /** Decisão (quando resolvido) */
   decision?: ReviewDecision;
+
+  /**
+   * INCREMENTO 42: Versão do caso, incrementada a cada mudança.
+   * Casos anteriores ao Inc 42 não têm o campo e valem como versão 1.
+   */
+  version?: number;
+
+  /** INCREMENTO 42: Revisor que assumiu o caso */
+  claimedBy?: string;
+
+  /** INCREMENTO 42: Quando o caso foi assumido (ISO string) */
+  claimedAt?: string;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -194,6 +209,9 @@ interface ResolveReviewCaseInput {
 
   /** Efeitos a aplicar (se applyEffects=true) */
   effects?: ReviewEffect[];
+
+  /** INCREMENTO 42: Versão lida pelo revisor (conflito se o caso mudou) */
+  expectedVersion?: number;
 }
 
 /**
@@ -205,6 +223,9 @@ interface DismissReviewCaseInput {
 
   /** Notas obrigatórias */
   notes: string;
+
+  /** INCREMENTO 42: Versão lida pelo revisor (conflito se o caso mudou) */
+  expectedVersion?: number;
 }
 
 /**
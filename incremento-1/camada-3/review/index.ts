@@ -33,11 +33,13 @@ export {
   ReviewCaseAlreadyExistsError,
   InvalidReviewEffectError,
   ReviewAccessDeniedError,
+  ReviewVersionConflictError,
+  ReviewCaseClaimedError,
   REVIEW_RULE
 } from './ReviewErrors';
 
 // Repositório
-export { ReviewCaseRepository, CreateOrGetResult } from './ReviewCaseRepository';
+export { ReviewCaseRepository, CreateOrGetResult, ReviewClaimResult } from './ReviewCaseRepository';
 export { ReviewCaseRepositoryImpl } from './ReviewCaseRepositoryImpl';
 
 // Serviço
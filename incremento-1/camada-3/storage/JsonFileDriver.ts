@@ -0,0 +1,124 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 28: DRIVER JSON (UM ARQUIVO POR COLEÇÃO)
+// ════════════════════════════════════════════════════════════════════════
+
+import * as path from 'path';
+import { JsonFileStore } from '../utilitarios/JsonFileStore';
+import { CollectionDefinition, StorageDriver, StoredRecord, TransactionHooks } from './StorageTypes';
+import {
+  BaseStorageCollection,
+  PendingTransaction,
+  StorageTransactionScope
+} from './StorageTransaction';
+
+/**
+ * Coleção persistida em um arquivo JSON (formato histórico dos repositórios).
+ *
+ * - Leituras sempre vão ao disco (outras instâncias podem ter escrito)
+ * - put() reescreve o arquivo a partir do último estado lido
+ * - Escrita atômica herdada do JsonFileStore (.tmp + rename)
+ */
+class JsonFileCollection extends BaseStorageCollection {
+  private fileStore: JsonFileStore;
+  private cache: Map<string, StoredRecord> | null = null;
+  private writeLock: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly filePath: string,
+    definition: CollectionDefinition,
+    scope: StorageTransactionScope = new StorageTransactionScope()
+  ) {
+    super(definition, scope);
+    this.fileStore = new JsonFileStore(filePath);
+  }
+
+  protected async loadAll(): Promise<StoredRecord[]> {
+    const items = await this.fileStore.readAll();
+    const cache = new Map<string, StoredRecord>();
+    for (const item of items) {
+      cache.set(String(item[this.keyField]), item);
+    }
+    this.cache = cache;
+    return items;
+  }
+
+  protected async loadOne(key: string): Promise<StoredRecord | null> {
+    const items = await this.loadAll();
+    return items.find(item => String(item[this.keyField]) === key) ?? null;
+  }
+
+  protected async loadBy(field: string, value: string | number | boolean): Promise<StoredRecord[]> {
+    const items = await this.loadAll();
+    return items.filter(item => BaseStorageCollection.matches(item, field, value));
+  }
+
+  async applyPuts(records: StoredRecord[]): Promise<void> {
+    await this.withWriteLock(async () => {
+      if (!this.cache) {
+        await this.loadAll();
+      }
+      for (const record of records) {
+        this.cache!.set(this.keyOf(record), record);
+      }
+      await this.fileStore.writeAll(Array.from(this.cache!.values()));
+    });
+  }
+
+  protected async replaceAll(records: StoredRecord[]): Promise<void> {
+    await this.withWriteLock(async () => {
+      this.cache = new Map(records.map(r => [this.keyOf(r), r]));
+      await this.fileStore.writeAll(records);
+    });
+  }
+
+  private async withWriteLock(operation: () => Promise<void>): Promise<void> {
+    const run = this.writeLock.catch(() => {}).then(operation);
+    this.writeLock = run;
+    return run;
+  }
+}
+
+/**
+ * Driver JSON: mantém o layout atual do dataDir (`<colecao>.json`).
+ * É o driver padrão e não exige migração.
+ */
+class JsonFileDriver implements StorageDriver {
+  readonly kind = 'json' as const;
+  private collections: Map<string, JsonFileCollection> = new Map();
+  private scope = new StorageTransactionScope();
+
+  constructor(readonly baseDir: string) {}
+
+  async open(): Promise<void> {
+    // Nada a abrir: arquivos são criados na primeira escrita
+  }
+
+  collection(definition: CollectionDefinition): JsonFileCollection {
+    const existing = this.collections.get(definition.name);
+    if (existing) return existing;
+
+    const created = new JsonFileCollection(
+      path.join(this.baseDir, `${definition.name}.json`),
+      definition,
+      this.scope
+    );
+    this.collections.set(definition.name, created);
+    return created;
+  }
+
+  async transaction<T>(work: () => Promise<T>, hooks?: TransactionHooks): Promise<T> {
+    return this.scope.run(work, (tx) => this.commit(tx), hooks);
+  }
+
+  async close(): Promise<void> {
+    this.collections.clear();
+  }
+
+  private async commit(tx: PendingTransaction): Promise<void> {
+    for (const [collection, pending] of tx.writes) {
+      await collection.applyPuts(Array.from(pending.values()));
+    }
+  }
+}
+
+export { JsonFileDriver, JsonFileCollection };
@@ -0,0 +1,305 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 28: DRIVER SQLITE (ARQUIVO ÚNICO, TRANSAÇÕES E ÍNDICES)
+// ════════════════════════════════════════════════════════════════════════
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { CollectionDefinition, StorageDriver, StoredRecord, TransactionHooks } from './StorageTypes';
+import { StorageDriverUnavailableError, StorageError } from './StorageErrors';
+import {
+  BaseStorageCollection,
+  PendingTransaction,
+  StorageTransactionScope
+} from './StorageTransaction';
+
+/**
+ * Nome padrão do arquivo SQLite dentro do dataDir do tenant.
+ */
+const SQLITE_FILE_NAME = 'libervia.sqlite';
+
+/**
+ * Versão do schema físico (tabela storage_meta).
+ */
+const SQLITE_SCHEMA_VERSION = 1;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z0-9_]+$/;
+
+function assertIdentifier(value: string, what: string): string {
+  if (!IDENTIFIER_PATTERN.test(value)) {
+    throw new StorageError(`${what} inválido para SQLite: ${value}`, 'STORAGE_INVALID_IDENTIFIER');
+  }
+  return value;
+}
+
+function indexValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return String(value);
+}
+
+/**
+ * Carrega o módulo nativo sob demanda.
+ * Tenants no driver JSON não dependem do binário.
+ */
+function loadSqliteModule(): typeof BetterSqlite3 {
+  try {
+    return require('better-sqlite3');
+  } catch (error) {
+    throw new StorageDriverUnavailableError(
+      'sqlite',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// COLEÇÃO
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Coleção armazenada como tabela `col_<nome>`:
+ * - seq: ordem de inserção (preservada em upserts)
+ * - key: chave primária lógica (UNIQUE)
+ * - data: registro serializado em JSON
+ * - ix_<campo>: colunas indexadas declaradas na definição
+ */
+class SqliteCollection extends BaseStorageCollection {
+  private readonly table: string;
+  private readonly indexFields: string[];
+  private schemaReady = false;
+
+  constructor(
+    private readonly driver: SqliteDriver,
+    definition: CollectionDefinition,
+    scope: StorageTransactionScope
+  ) {
+    super(definition, scope);
+    this.table = `col_${assertIdentifier(definition.name, 'Nome de coleção')}`;
+    this.indexFields = (definition.indexes ?? []).map(f => assertIdentifier(f, 'Campo indexado'));
+  }
+
+  private db(): BetterSqlite3.Database {
+    const db = this.driver.database();
+    if (!this.schemaReady) {
+      this.ensureSchema(db);
+      this.schemaReady = true;
+    }
+    return db;
+  }
+
+  private ensureSchema(db: BetterSqlite3.Database): void {
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS "${this.table}" (` +
+      `seq INTEGER PRIMARY KEY AUTOINCREMENT, ` +
+      `key TEXT NOT NULL UNIQUE, ` +
+      `data TEXT NOT NULL)`
+    );
+
+    const columns = new Set(
+      (db.prepare(`PRAGMA table_info("${this.table}")`).all() as Array<{ name: string }>)
+        .map(c => c.name)
+    );
+
+    for (const field of this.indexFields) {
+      const column = `ix_${field}`;
+      if (!columns.has(column)) {
+        // Índice novo em tabela existente: criar coluna e preencher a partir do JSON
+        db.exec(`ALTER TABLE "${this.table}" ADD COLUMN "${column}" TEXT`);
+        const rows = db.prepare(`SELECT key, data FROM "${this.table}"`).all() as Array<{ key: string; data: string }>;
+        const update = db.prepare(`UPDATE "${this.table}" SET "${column}" = ? WHERE key = ?`);
+        for (const row of rows) {
+          update.run(indexValue(JSON.parse(row.data)[field]), row.key);
+        }
+      }
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS "idx_${this.table}_${field}" ON "${this.table}"("${column}")`
+      );
+    }
+  }
+
+  protected async loadAll(): Promise<StoredRecord[]> {
+    const rows = this.db().prepare(`SELECT data FROM "${this.table}" ORDER BY seq`).all() as Array<{ data: string }>;
+    return rows.map(r => JSON.parse(r.data));
+  }
+
+  protected async loadOne(key: string): Promise<StoredRecord | null> {
+    const row = this.db().prepare(`SELECT data FROM "${this.table}" WHERE key = ?`).get(key) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  protected async loadBy(field: string, value: string | number | boolean): Promise<StoredRecord[]> {
+    if (field === this.keyField) {
+      const one = await this.loadOne(String(value));
+      return one ? [one] : [];
+    }
+
+    if (!this.indexFields.includes(field)) {
+      // Campo sem índice: varredura completa
+      const all = await this.loadAll();
+      return all.filter(r => BaseStorageCollection.matches(r, field, value));
+    }
+
+    const rows = this.db()
+      .prepare(`SELECT data FROM "${this.table}" WHERE "ix_${field}" = ? ORDER BY seq`)
+      .all(String(value)) as Array<{ data: string }>;
+    return rows.map(r => JSON.parse(r.data));
+  }
+
+  async count(): Promise<number> {
+    if (this.scope.current()?.pendingFor(this)) {
+      return super.count();
+    }
+    const row = this.db().prepare(`SELECT COUNT(*) AS total FROM "${this.table}"`).get() as { total: number };
+    return row.total;
+  }
+
+  /**
+   * Upsert síncrono (usado dentro de transações do better-sqlite3).
+   */
+  applyPutsSync(records: StoredRecord[]): void {
+    const db = this.db();
+    const columns = ['key', 'data', ...this.indexFields.map(f => `ix_${f}`)];
+    const placeholders = columns.map(() => '?').join(', ');
+    const updates = columns
+      .filter(c => c !== 'key')
+      .map(c => `"${c}" = excluded."${c}"`)
+      .join(', ');
+
+    const statement = db.prepare(
+      `INSERT INTO "${this.table}" (${columns.map(c => `"${c}"`).join(', ')}) ` +
+      `VALUES (${placeholders}) ON CONFLICT(key) DO UPDATE SET ${updates}`
+    );
+
+    for (const record of records) {
+      statement.run(
+        this.keyOf(record),
+        JSON.stringify(record),
+        ...this.indexFields.map(f => indexValue(record[f]))
+      );
+    }
+  }
+
+  async applyPuts(records: StoredRecord[]): Promise<void> {
+    const db = this.db();
+    db.transaction(() => this.applyPutsSync(records))();
+  }
+
+  protected async replaceAll(records: StoredRecord[]): Promise<void> {
+    const db = this.db();
+    db.transaction(() => {
+      db.prepare(`DELETE FROM "${this.table}"`).run();
+      this.applyPutsSync(records);
+    })();
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// DRIVER
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Driver SQLite embarcado (better-sqlite3).
+ *
+ * - Um arquivo por tenant (`<dataDir>/libervia.sqlite`)
+ * - WAL + synchronous=FULL: commit durável antes de retornar
+ * - transaction(): todas as coleções gravadas em uma única transação SQL
+ */
+class SqliteDriver implements StorageDriver {
+  readonly kind = 'sqlite' as const;
+  private db: BetterSqlite3.Database | null = null;
+  private collections: Map<string, SqliteCollection> = new Map();
+  private scope = new StorageTransactionScope();
+
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Cria driver apontando para o arquivo padrão dentro do dataDir.
+   */
+  static forDataDir(dataDir: string): SqliteDriver {
+    return new SqliteDriver(path.join(dataDir, SQLITE_FILE_NAME));
+  }
+
+  async open(): Promise<void> {
+    if (this.db) return;
+
+    const Database = loadSqliteModule();
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const db = new Database(this.filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = FULL');
+    db.exec(
+      'CREATE TABLE IF NOT EXISTS storage_meta (name TEXT PRIMARY KEY, value TEXT NOT NULL)'
+    );
+    db.prepare(
+      'INSERT INTO storage_meta (name, value) VALUES (?, ?) ON CONFLICT(name) DO NOTHING'
+    ).run('schema_version', String(SQLITE_SCHEMA_VERSION));
+
+    this.db = db;
+  }
+
+  /**
+   * Conexão aberta.
+   * @throws StorageError se open() não foi chamado
+   */
+  database(): BetterSqlite3.Database {
+    if (!this.db) {
+      throw new StorageError(
+        'Driver SQLite não aberto. Chame open() antes de usar.',
+        'STORAGE_NOT_OPEN'
+      );
+    }
+    return this.db;
+  }
+
+  collection(definition: CollectionDefinition): SqliteCollection {
+    const existing = this.collections.get(definition.name);
+    if (existing) return existing;
+
+    const created = new SqliteCollection(this, definition, this.scope);
+    this.collections.set(definition.name, created);
+    return created;
+  }
+
+  async transaction<T>(work: () => Promise<T>, hooks?: TransactionHooks): Promise<T> {
+    return this.scope.run(work, async (tx) => this.commit(tx), hooks);
+  }
+
+  /**
+   * Lê um valor da tabela storage_meta.
+   */
+  getMeta(name: string): string | null {
+    const row = this.database()
+      .prepare('SELECT value FROM storage_meta WHERE name = ?')
+      .get(name) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  /**
+   * Grava um valor na tabela storage_meta.
+   */
+  setMeta(name: string, value: string): void {
+    this.database()
+      .prepare('INSERT INTO storage_meta (name, value) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET value = excluded.value')
+      .run(name, value);
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    this.collections.clear();
+  }
+
+  private commit(tx: PendingTransaction): void {
+    const db = this.database();
+    db.transaction(() => {
+      for (const [collection, pending] of tx.writes) {
+        (collection as SqliteCollection).applyPutsSync(Array.from(pending.values()));
+      }
+    })();
+  }
+}
+
+export { SqliteDriver, SqliteCollection, SQLITE_FILE_NAME, SQLITE_SCHEMA_VERSION };
@@ -0,0 +1,96 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 28: COLEÇÕES DA CAMADA 3
+// ════════════════════════════════════════════════════════════════════════
+
+import { CollectionDefinition } from './StorageTypes';
+
+type StorageCollectionName =
+  | 'situacoes'
+  | 'episodios'
+  | 'decisoes'
+  | 'contratos'
+  | 'protocolos'
+  | 'observacoes'
+  | 'autonomyMandates'
+  | 'reviewCases'
+  | 'idempotencyKeys'
+  | 'webhookDeliveries'
+  | 'webhookCursor'
+  | 'multiagentRuns'
+  | 'mandateTemplates';
+
+/**
+ * Coleções persistidas pelos repositórios da Camada 3.
+ *
+ * Os nomes coincidem com os arquivos históricos do dataDir
+ * (`situacoes.json`, `episodios.json`, ...), de modo que o driver JSON
+ * continua lendo tenants existentes sem migração.
+ */
+const STORAGE_COLLECTIONS: Record<StorageCollectionName, CollectionDefinition> = {
+  situacoes: {
+    name: 'situacoes',
+    indexes: ['status']
+  },
+  episodios: {
+    name: 'episodios',
+    indexes: ['situacao_referenciada', 'estado']
+  },
+  decisoes: {
+    name: 'decisoes',
+    indexes: ['episodio_id']
+  },
+  contratos: {
+    name: 'contratos',
+    indexes: ['episodio_id']
+  },
+  protocolos: {
+    name: 'protocolos',
+    indexes: ['episodio_id']
+  },
+  observacoes: {
+    name: 'observacoes',
+    indexes: ['contrato_id', 'episodio_id']
+  },
+  autonomyMandates: {
+    name: 'autonomy_mandates',
+    indexes: ['agentId', 'status']
+  },
+  reviewCases: {
+    name: 'review_cases',
+    indexes: ['tenantId', 'status']
+  },
+  // INCREMENTO 30: chaves de idempotência da decisão em chamada única
+  idempotencyKeys: {
+    name: 'idempotency_keys',
+    keyField: 'key',
+    indexes: ['episodioId']
+  },
+  // INCREMENTO 37: outbox de entregas de webhook
+  webhookDeliveries: {
+    name: 'webhook_deliveries',
+    indexes: ['webhookId', 'status']
+  },
+  // INCREMENTO 37: último evento do EventLog já enfileirado no outbox
+  webhookCursor: {
+    name: 'webhook_cursor'
+  },
+  // INCREMENTO 39: execuções multiagente
+  multiagentRuns: {
+    name: 'multiagent_runs',
+    keyField: 'runId',
+    indexes: ['episodioId']
+  },
+  // INCREMENTO 52: versões de modelos de mandato
+  mandateTemplates: {
+    name: 'mandate_templates',
+    keyField: 'key',
+    indexes: ['templateId']
+  }
+};
+
+/**
+ * Lista de todas as coleções (ordem usada na migração).
+ */
+const ALL_STORAGE_COLLECTIONS: CollectionDefinition[] = Object.values(STORAGE_COLLECTIONS);
+
+export { STORAGE_COLLECTIONS, StorageCollectionName, ALL_STORAGE_COLLECTIONS };
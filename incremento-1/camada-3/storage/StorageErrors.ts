@@ -0,0 +1,69 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 28: ERROS DA CAMADA DE ARMAZENAMENTO
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Erro base para operações de armazenamento.
+ */
+class StorageError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Driver solicitado não está disponível no ambiente
+ * (ex: binário nativo do SQLite ausente).
+ */
+class StorageDriverUnavailableError extends StorageError {
+  constructor(
+    public readonly driver: string,
+    cause?: string
+  ) {
+    super(
+      `Driver de armazenamento indisponível: ${driver}` + (cause ? ` (${cause})` : ''),
+      'STORAGE_DRIVER_UNAVAILABLE'
+    );
+    this.name = 'StorageDriverUnavailableError';
+  }
+}
+
+/**
+ * Registro sem chave primária.
+ */
+class StorageKeyMissingError extends StorageError {
+  constructor(
+    public readonly collection: string,
+    public readonly keyField: string
+  ) {
+    super(
+      `Registro da coleção ${collection} sem chave (${keyField})`,
+      'STORAGE_KEY_MISSING'
+    );
+    this.name = 'StorageKeyMissingError';
+  }
+}
+
+/**
+ * Migração entre drivers falhou na verificação.
+ */
+class StorageMigrationError extends StorageError {
+  constructor(
+    message: string,
+    public readonly problems: string[]
+  ) {
+    super(message, 'STORAGE_MIGRATION_FAILED');
+    this.name = 'StorageMigrationError';
+  }
+}
+
+export {
+  StorageError,
+  StorageDriverUnavailableError,
+  StorageKeyMissingError,
+  StorageMigrationError
+};
@@ -0,0 +1,44 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 28: FÁBRICA DE DRIVERS
+// ════════════════════════════════════════════════════════════════════════
+
+import { StorageDriver, StorageDriverKind } from './StorageTypes';
+import { StorageError } from './StorageErrors';
+import { JsonFileDriver } from './JsonFileDriver';
+import { SqliteDriver } from './SqliteDriver';
+
+/**
+ * Cria e abre o driver de armazenamento de um dataDir.
+ *
+ * @param kind - Tipo do driver ('json' | 'sqlite')
+ * @param dataDir - Diretório de dados do tenant
+ */
+async function createStorageDriver(
+  kind: StorageDriverKind,
+  dataDir: string
+): Promise<StorageDriver> {
+  let driver: StorageDriver;
+
+  switch (kind) {
+    case 'json':
+      driver = new JsonFileDriver(dataDir);
+      break;
+    case 'sqlite':
+      driver = SqliteDriver.forDataDir(dataDir);
+      break;
+    default:
+      throw new StorageError(`Driver de armazenamento desconhecido: ${kind}`, 'STORAGE_UNKNOWN_DRIVER');
+  }
+
+  await driver.open();
+  return driver;
+}
+
+/**
+ * Verifica se o valor é um tipo de driver suportado.
+ */
+function isStorageDriverKind(value: unknown): value is StorageDriverKind {
+  return value === 'json' || value === 'sqlite';
+}
+
+export { createStorageDriver, isStorageDriverKind };
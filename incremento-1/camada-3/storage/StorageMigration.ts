@@ -0,0 +1,278 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 28: MIGRAÇÃO DE DADOS ENTRE DRIVERS
+// ════════════════════════════════════════════════════════════════════════
+
+import { CollectionDefinition, StorageDriver, StorageDriverKind, StoredRecord } from './StorageTypes';
+import { StorageMigrationError } from './StorageErrors';
+import { ALL_STORAGE_COLLECTIONS, STORAGE_COLLECTIONS } from './StorageCollections';
+import { createStorageDriver } from './StorageFactory';
+import { EventLogRepositoryImpl } from '../event-log/EventLogRepositoryImpl';
+import { EventLogEntry, TipoEvento } from '../event-log/EventLogEntry';
+import { computePayloadHash } from '../utilitarios/HashUtil';
+import { serializeForHash, sha256 } from '../backup/BackupCrypto';
+
+// ════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Opções da migração de um dataDir.
+ */
+interface StorageMigrationOptions {
+  /** Diretório de dados do tenant */
+  dataDir: string;
+
+  /** Driver de destino */
+  target: StorageDriverKind;
+
+  /** Driver de origem (default: 'json') */
+  source?: StorageDriverKind;
+
+  /** Verificar contra a cadeia do EventLog (default: true) */
+  verifyEventLog?: boolean;
+}
+
+/**
+ * Resultado da cópia de uma coleção.
+ */
+interface CollectionMigrationReport {
+  collection: string;
+  sourceCount: number;
+  targetCount: number;
+  sourceHash: string;
+  targetHash: string;
+  ok: boolean;
+}
+
+/**
+ * Resultado da verificação contra o EventLog.
+ */
+interface EventLogCrossCheck {
+  /** Cadeia íntegra (verifyChainFull) */
+  chainValid: boolean;
+
+  /** Total de eventos verificados */
+  totalEvents: number;
+
+  /** Eventos de criação cujo registro não existe no destino */
+  missingEntities: string[];
+
+  /** Registros imutáveis cujo payload_hash difere do evento de criação */
+  payloadMismatches: string[];
+}
+
+/**
+ * Relatório completo da migração.
+ */
+interface StorageMigrationReport {
+  dataDir: string;
+  source: StorageDriverKind;
+  target: StorageDriverKind;
+  startedAt: string;
+  finishedAt: string;
+  collections: CollectionMigrationReport[];
+  eventLog: EventLogCrossCheck | null;
+  ok: boolean;
+  problems: string[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// REGRAS DE VERIFICAÇÃO
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Eventos que registram a criação de um registro persistido.
+ * Todo entidade_id desses eventos deve existir na coleção correspondente.
+ */
+const CREATION_EVENTS: Array<{ evento: string; collection: CollectionDefinition }> = [
+  { evento: TipoEvento.SITUACAO_CRIADA, collection: STORAGE_COLLECTIONS.situacoes },
+  { evento: TipoEvento.EPISODIO_CRIADO, collection: STORAGE_COLLECTIONS.episodios },
+  { evento: TipoEvento.DECISAO_REGISTRADA, collection: STORAGE_COLLECTIONS.decisoes },
+  { evento: TipoEvento.CONTRATO_EMITIDO, collection: STORAGE_COLLECTIONS.contratos },
+  { evento: TipoEvento.PROTOCOLO_VALIDADO, collection: STORAGE_COLLECTIONS.protocolos },
+  { evento: TipoEvento.PROTOCOLO_REJEITADO, collection: STORAGE_COLLECTIONS.protocolos },
+  { evento: TipoEvento.CONSEQUENCIA_REGISTRADA, collection: STORAGE_COLLECTIONS.observacoes },
+  { evento: TipoEvento.AUTONOMY_GRANTED, collection: STORAGE_COLLECTIONS.autonomyMandates }
+];
+
+/**
+ * Coleções imutáveis após a criação: o registro persistido deve
+ * reproduzir o payload_hash gravado no evento de criação.
+ */
+const IMMUTABLE_COLLECTIONS = new Set<string>([
+  STORAGE_COLLECTIONS.decisoes.name,
+  STORAGE_COLLECTIONS.contratos.name,
+  STORAGE_COLLECTIONS.protocolos.name,
+  STORAGE_COLLECTIONS.observacoes.name
+]);
+
+/**
+ * Hash do conteúdo de uma coleção, independente da ordem física.
+ */
+function hashCollection(records: StoredRecord[], keyField: string): string {
+  const sorted = [...records].sort((a, b) =>
+    String(a[keyField]).localeCompare(String(b[keyField]))
+  );
+  return sha256(serializeForHash(sorted));
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// MIGRAÇÃO
+// ════════════════════════════════════════════════════════════════════════
+
+async function copyCollection(
+  definition: CollectionDefinition,
+  source: StorageDriver,
+  target: StorageDriver
+): Promise<{ report: CollectionMigrationReport; records: Map<string, StoredRecord> }> {
+  const keyField = definition.keyField ?? 'id';
+  const sourceRecords = await source.collection(definition).readAll();
+
+  await target.collection(definition).writeAll(sourceRecords);
+
+  const targetRecords = await target.collection(definition).readAll();
+  const sourceHash = hashCollection(sourceRecords, keyField);
+  const targetHash = hashCollection(targetRecords, keyField);
+
+  return {
+    report: {
+      collection: definition.name,
+      sourceCount: sourceRecords.length,
+      targetCount: targetRecords.length,
+      sourceHash,
+      targetHash,
+      ok: sourceRecords.length === targetRecords.length && sourceHash === targetHash
+    },
+    records: new Map(targetRecords.map(r => [String(r[keyField]), r]))
+  };
+}
+
+async function crossCheckEventLog(
+  dataDir: string,
+  migrated: Map<string, Map<string, StoredRecord>>
+): Promise<EventLogCrossCheck> {
+  const eventLog = await EventLogRepositoryImpl.create(dataDir);
+  const chain = await eventLog.verifyChainFull();
+  const events = await eventLog.getAll();
+
+  const missingEntities: string[] = [];
+  const payloadMismatches: string[] = [];
+
+  const byEvento = new Map<string, EventLogEntry[]>();
+  for (const event of events) {
+    const list = byEvento.get(event.evento) ?? [];
+    list.push(event);
+    byEvento.set(event.evento, list);
+  }
+
+  for (const { evento, collection } of CREATION_EVENTS) {
+    const records = migrated.get(collection.name) ?? new Map<string, StoredRecord>();
+
+    for (const event of byEvento.get(evento) ?? []) {
+      const record = records.get(event.entidade_id);
+
+      if (!record) {
+        missingEntities.push(`${collection.name}/${event.entidade_id} (${evento})`);
+        continue;
+      }
+
+      if (IMMUTABLE_COLLECTIONS.has(collection.name) &&
+          computePayloadHash(record) !== event.payload_hash) {
+        payloadMismatches.push(`${collection.name}/${event.entidade_id}`);
+      }
+    }
+  }
+
+  return {
+    chainValid: chain.valid,
+    totalEvents: chain.totalVerified,
+    missingEntities,
+    payloadMismatches
+  };
+}
+
+/**
+ * Migra todas as coleções de um dataDir para outro driver.
+ *
+ * Passos:
+ * 1. Copia cada coleção (substituindo o conteúdo do destino, o que torna
+ *    a migração reexecutável)
+ * 2. Compara contagem e hash de origem x destino
+ * 3. Verifica a cadeia do EventLog e confere que toda entidade criada
+ *    no log existe no destino, com payload_hash idêntico para as imutáveis
+ *
+ * A origem não é alterada nem removida (permite rollback).
+ *
+ * @returns Relatório; `ok` = false se qualquer verificação falhar
+ */
+async function migrateTenantStorage(options: StorageMigrationOptions): Promise<StorageMigrationReport> {
+  const sourceKind = options.source ?? 'json';
+  const startedAt = new Date().toISOString();
+
+  if (sourceKind === options.target) {
+    throw new StorageMigrationError(
+      `Origem e destino são o mesmo driver (${sourceKind})`,
+      []
+    );
+  }
+
+  const source = await createStorageDriver(sourceKind, options.dataDir);
+  const target = await createStorageDriver(options.target, options.dataDir);
+  const problems: string[] = [];
+  const collections: CollectionMigrationReport[] = [];
+  const migrated = new Map<string, Map<string, StoredRecord>>();
+
+  try {
+    for (const definition of ALL_STORAGE_COLLECTIONS) {
+      const { report, records } = await copyCollection(definition, source, target);
+      collections.push(report);
+      migrated.set(definition.name, records);
+
+      if (report.sourceCount !== report.targetCount) {
+        problems.push(
+          `${definition.name}: contagem difere (origem ${report.sourceCount}, destino ${report.targetCount})`
+        );
+      } else if (report.sourceHash !== report.targetHash) {
+        problems.push(`${definition.name}: hash do conteúdo difere`);
+      }
+    }
+  } finally {
+    await source.close();
+    await target.close();
+  }
+
+  let eventLog: EventLogCrossCheck | null = null;
+  if (options.verifyEventLog !== false) {
+    eventLog = await crossCheckEventLog(options.dataDir, migrated);
+
+    if (!eventLog.chainValid) {
+      problems.push('EventLog: cadeia de hashes inválida');
+    }
+    for (const missing of eventLog.missingEntities) {
+      problems.push(`EventLog: entidade ausente no destino: ${missing}`);
+    }
+    for (const mismatch of eventLog.payloadMismatches) {
+      problems.push(`EventLog: payload_hash não confere: ${mismatch}`);
+    }
+  }
+
+  return {
+    dataDir: options.dataDir,
+    source: sourceKind,
+    target: options.target,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    collections,
+    eventLog,
+    ok: problems.length === 0,
+    problems
+  };
+}
+
+export {
+  StorageMigrationOptions,
+  CollectionMigrationReport,
+  EventLogCrossCheck,
+  StorageMigrationReport,
+  migrateTenantStorage
+};
@@ -0,0 +1,213 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 28: TRANSAÇÕES E COLEÇÃO BASE
+// ════════════════════════════════════════════════════════════════════════
+
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  CollectionDefinition,
+  PreparedWrite,
+  StorageCollection,
+  StoredRecord,
+  TransactionHooks
+} from './StorageTypes';
+import { StorageError, StorageKeyMissingError } from './StorageErrors';
+
+// ════════════════════════════════════════════════════════════════════════
+// TRANSAÇÃO PENDENTE
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Escritas acumuladas durante uma transação, por coleção.
+ * Só são aplicadas no commit; descartadas se o trabalho falhar.
+ */
+class PendingTransaction {
+  readonly writes: Map<BaseStorageCollection, Map<string, StoredRecord>> = new Map();
+
+  stage(collection: BaseStorageCollection, key: string, record: StoredRecord): void {
+    let pending = this.writes.get(collection);
+    if (!pending) {
+      pending = new Map();
+      this.writes.set(collection, pending);
+    }
+    pending.set(key, record);
+  }
+
+  pendingFor(collection: BaseStorageCollection): Map<string, StoredRecord> | undefined {
+    return this.writes.get(collection);
+  }
+
+  isEmpty(): boolean {
+    return this.writes.size === 0;
+  }
+
+  /**
+   * Escritas pendentes em formato serializável.
+   */
+  prepared(): PreparedWrite[] {
+    return Array.from(this.writes.entries()).map(([collection, pending]) => ({
+      collection: { ...collection.definition },
+      records: Array.from(pending.values())
+    }));
+  }
+}
+
+/**
+ * Escopo de transação de um driver.
+ * Usa AsyncLocalStorage para que escritas feitas em qualquer ponto da
+ * cadeia assíncrona de `work` sejam associadas à transação corrente.
+ */
+class StorageTransactionScope {
+  private storage = new AsyncLocalStorage<PendingTransaction>();
+
+  current(): PendingTransaction | undefined {
+    return this.storage.getStore();
+  }
+
+  async run<T>(
+    work: () => Promise<T>,
+    commit: (tx: PendingTransaction) => Promise<void>,
+    hooks: TransactionHooks = {}
+  ): Promise<T> {
+    // Transação aninhada participa da externa
+    if (this.current()) {
+      return work();
+    }
+
+    const tx = new PendingTransaction();
+    let result: T;
+
+    // Repositórios atualizam a memória antes de persistir: qualquer falha
+    // (work, preparação ou commit) aciona onRollback, mesmo sem escritas
+    // pendentes, para que o estado em memória seja relido do storage.
+    try {
+      result = await this.storage.run(tx, work);
+
+      // INCREMENTO 29: fase de preparação (ex: journal) antes do commit
+      if (hooks.onPrepare) {
+        await hooks.onPrepare(tx.prepared());
+      }
+
+      if (!tx.isEmpty()) {
+        await commit(tx);
+      }
+    } catch (error) {
+      if (hooks.onRollback) {
+        await hooks.onRollback(tx.prepared());
+      }
+      throw error;
+    }
+
+    return result;
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// COLEÇÃO BASE
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Implementa a sobreposição de escritas pendentes sobre as leituras.
+ * Drivers implementam apenas o acesso físico (load*, applyPuts, replaceAll).
+ */
+abstract class BaseStorageCollection implements StorageCollection {
+  constructor(
+    readonly definition: CollectionDefinition,
+    protected readonly scope: StorageTransactionScope
+  ) {}
+
+  protected get keyField(): string {
+    return this.definition.keyField ?? 'id';
+  }
+
+  protected keyOf(record: StoredRecord): string {
+    const key = record[this.keyField];
+    if (key === undefined || key === null || key === '') {
+      throw new StorageKeyMissingError(this.definition.name, this.keyField);
+    }
+    return String(key);
+  }
+
+  protected static matches(record: StoredRecord, field: string, value: string | number | boolean): boolean {
+    const current = record[field];
+    return current !== undefined && current !== null && String(current) === String(value);
+  }
+
+  async readAll(): Promise<StoredRecord[]> {
+    const records = await this.loadAll();
+    const pending = this.scope.current()?.pendingFor(this);
+    if (!pending) return records;
+
+    const merged = new Map<string, StoredRecord>();
+    for (const record of records) {
+      merged.set(this.keyOf(record), record);
+    }
+    for (const [key, record] of pending) {
+      merged.set(key, record);
+    }
+    return Array.from(merged.values());
+  }
+
+  async get(key: string): Promise<StoredRecord | null> {
+    const pending = this.scope.current()?.pendingFor(this);
+    if (pending?.has(key)) {
+      return pending.get(key)!;
+    }
+    return this.loadOne(key);
+  }
+
+  async findBy(field: string, value: string | number | boolean): Promise<StoredRecord[]> {
+    const records = await this.loadBy(field, value);
+    const pending = this.scope.current()?.pendingFor(this);
+    if (!pending) return records;
+
+    const result = records.filter(r => !pending.has(this.keyOf(r)));
+    for (const record of pending.values()) {
+      if (BaseStorageCollection.matches(record, field, value)) {
+        result.push(record);
+      }
+    }
+    return result;
+  }
+
+  async put(records: StoredRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const tx = this.scope.current();
+    if (tx) {
+      for (const record of records) {
+        tx.stage(this, this.keyOf(record), record);
+      }
+      return;
+    }
+
+    // Validar chaves antes de qualquer escrita
+    records.forEach(r => this.keyOf(r));
+    await this.applyPuts(records);
+  }
+
+  async writeAll(records: StoredRecord[]): Promise<void> {
+    if (this.scope.current()) {
+      throw new StorageError(
+        `writeAll não é permitido dentro de transação (coleção ${this.definition.name})`,
+        'STORAGE_WRITE_ALL_IN_TRANSACTION'
+      );
+    }
+    records.forEach(r => this.keyOf(r));
+    await this.replaceAll(records);
+  }
+
+  async count(): Promise<number> {
+    return (await this.readAll()).length;
+  }
+
+  protected abstract loadAll(): Promise<StoredRecord[]>;
+  protected abstract loadOne(key: string): Promise<StoredRecord | null>;
+  protected abstract loadBy(field: string, value: string | number | boolean): Promise<StoredRecord[]>;
+
+  /** Aplica upserts fisicamente (fora de transação ou no commit) */
+  abstract applyPuts(records: StoredRecord[]): Promise<void>;
+
+  protected abstract replaceAll(records: StoredRecord[]): Promise<void>;
+}
+
+export { PendingTransaction, StorageTransactionScope, BaseStorageCollection };
@@ -0,0 +1,153 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 28: TIPOS DA CAMADA DE ARMAZENAMENTO (STORAGE DRIVER)
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Drivers de armazenamento suportados.
+ *
+ * - 'json': um arquivo JSON por coleção (comportamento histórico)
+ * - 'sqlite': arquivo único SQLite com transações e índices
+ */
+type StorageDriverKind = 'json' | 'sqlite';
+
+/**
+ * Definição declarativa de uma coleção.
+ * A mesma definição é usada por todos os drivers.
+ */
+interface CollectionDefinition {
+  /** Nome da coleção (no driver JSON vira `<name>.json`) */
+  name: string;
+
+  /** Campo usado como chave primária (default: 'id') */
+  keyField?: string;
+
+  /** Campos indexados para consultas por igualdade */
+  indexes?: string[];
+}
+
+/**
+ * Registro persistido (já serializado, sem instâncias de Date).
+ */
+type StoredRecord = Record<string, any>;
+
+/**
+ * Coleção de registros de um driver.
+ *
+ * PRINCÍPIOS:
+ * - Escrita por registro (put) em vez de reescrever a coleção inteira
+ * - Dentro de transaction(), escritas ficam pendentes até o commit
+ * - Leituras enxergam as escritas pendentes da própria transação
+ */
+interface StorageCollection {
+  /** Definição da coleção */
+  readonly definition: CollectionDefinition;
+
+  /**
+   * Lê todos os registros, na ordem de inserção.
+   */
+  readAll(): Promise<StoredRecord[]>;
+
+  /**
+   * Busca registro pela chave.
+   * @returns Registro ou null se não encontrado
+   */
+  get(key: string): Promise<StoredRecord | null>;
+
+  /**
+   * Busca registros por igualdade em um campo (usa índice quando declarado).
+   */
+  findBy(field: string, value: string | number | boolean): Promise<StoredRecord[]>;
+
+  /**
+   * Insere ou substitui registros pela chave (upsert).
+   * Registros novos entram no fim da ordem de inserção.
+   */
+  put(records: StoredRecord[]): Promise<void>;
+
+  /**
+   * Substitui a coleção inteira.
+   * Usado apenas por migração e restauração.
+   */
+  writeAll(records: StoredRecord[]): Promise<void>;
+
+  /**
+   * Total de registros na coleção.
+   */
+  count(): Promise<number>;
+}
+
+/**
+ * Escritas de uma coleção prontas para commit (INCREMENTO 29).
+ * Serializável: usada pelo journal da unidade de trabalho.
+ */
+interface PreparedWrite {
+  /** Definição da coleção (permite reaplicar sem conhecer o repositório) */
+  collection: CollectionDefinition;
+
+  /** Registros a gravar (upsert) */
+  records: StoredRecord[];
+}
+
+/**
+ * Ganchos do ciclo de vida de uma transação (INCREMENTO 29).
+ */
+interface TransactionHooks {
+  /**
+   * Chamado após `work` concluir e antes do commit, com todas as escritas
+   * pendentes. Se lançar, nada é aplicado.
+   */
+  onPrepare?: (writes: PreparedWrite[]) => Promise<void>;
+
+  /**
+   * Chamado quando `work`, `onPrepare` ou o commit falham, com as escritas
+   * pendentes (possivelmente nenhuma).
+   */
+  onRollback?: (discarded: PreparedWrite[]) => Promise<void>;
+}
+
+/**
+ * Driver de armazenamento sobre o qual os repositórios da Camada 3 operam.
+ */
+interface StorageDriver {
+  /** Tipo do driver */
+  readonly kind: StorageDriverKind;
+
+  /**
+   * Abre o driver (cria arquivos/schema se necessário).
+   * Idempotente.
+   */
+  open(): Promise<void>;
+
+  /**
+   * Obtém (ou cria) uma coleção a partir da definição.
+   */
+  collection(definition: CollectionDefinition): StorageCollection;
+
+  /**
+   * Executa o trabalho como unidade atômica.
+   * Escritas feitas dentro de `work` só são aplicadas se ele concluir.
+   * Transações aninhadas participam da transação externa.
+   *
+   * Garantia por driver:
+   * - sqlite: atômica entre todas as coleções
+   * - json: atômica por arquivo (cada coleção é reescrita uma única vez)
+   *
+   * Hooks só se aplicam à transação externa.
+   */
+  transaction<T>(work: () => Promise<T>, hooks?: TransactionHooks): Promise<T>;
+
+  /**
+   * Libera recursos (conexões, handles).
+   */
+  close(): Promise<void>;
+}
+
+export {
+  StorageDriverKind,
+  CollectionDefinition,
+  StoredRecord,
+  StorageCollection,
+  PreparedWrite,
+  TransactionHooks,
+  StorageDriver
+};
@@ -0,0 +1,43 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 28: EXPORTS DO MÓDULO DE ARMAZENAMENTO
+// ════════════════════════════════════════════════════════════════════════
+
+// Tipos
+export {
+  StorageDriverKind,
+  CollectionDefinition,
+  StoredRecord,
+  StorageCollection,
+  PreparedWrite,
+  TransactionHooks,
+  StorageDriver
+} from './StorageTypes';
+
+// Erros
+export {
+  StorageError,
+  StorageDriverUnavailableError,
+  StorageKeyMissingError,
+  StorageMigrationError
+} from './StorageErrors';
+
+// Coleções
+export {
+  STORAGE_COLLECTIONS,
+  StorageCollectionName,
+  ALL_STORAGE_COLLECTIONS
+} from './StorageCollections';
+
+// Drivers
+export { JsonFileDriver, JsonFileCollection } from './JsonFileDriver';
+export { SqliteDriver, SQLITE_FILE_NAME } from './SqliteDriver';
+export { createStorageDriver, isStorageDriverKind } from './StorageFactory';
+
+// Migração
+export {
+  StorageMigrationOptions,
+  CollectionMigrationReport,
+  EventLogCrossCheck,
+  StorageMigrationReport,
+  migrateTenantStorage
+} from './StorageMigration';
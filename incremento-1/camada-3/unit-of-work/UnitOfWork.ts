@@ -0,0 +1,313 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 29: UNIDADE DE TRABALHO (STORAGE + EVENTLOG)
+// ════════════════════════════════════════════════════════════════════════
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as crypto from 'crypto';
+import { StorageDriver, PreparedWrite } from '../storage/StorageTypes';
+import { EventLogRepository } from '../event-log/EventLogRepository';
+import { EventLogEntry } from '../event-log/EventLogEntry';
+import { computePayloadHash } from '../utilitarios/HashUtil';
+import { UnitOfWorkJournal } from './UnitOfWorkJournal';
+import {
+  StagedEvent,
+  UnitOfWorkJournalEntry,
+  UnitOfWorkRunHooks,
+  UnitOfWorkRecoveryItem,
+  UnitOfWorkRecoveryReport
+} from './UnitOfWorkTypes';
+
+/**
+ * Contexto do passo em execução.
+ */
+interface UnitOfWorkContext {
+  entry: UnitOfWorkJournalEntry;
+  events: StagedEvent[];
+}
+
+function gerarJournalId(): string {
+  return `uow_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Cópia serializável do payload: é o que vai para o journal e para o
+ * EventLog, garantindo o mesmo payload_hash no commit e na recuperação.
+ */
+function snapshotPayload(payload: unknown): unknown {
+  return payload === undefined ? payload : JSON.parse(JSON.stringify(payload));
+}
+
+function sameEvent(event: StagedEvent, entry: EventLogEntry): boolean {
+  return entry.evento === event.evento &&
+    entry.entidade === event.entidade &&
+    entry.entidade_id === event.entidadeId &&
+    entry.payload_hash === computePayloadHash(event.payload);
+}
+
+/**
+ * Unidade de trabalho de um passo do Orquestrador.
+ *
+ * Um passo (ex: RegistrarDecisao) grava em vários repositórios e emite
+ * vários eventos. Dentro de `run()`:
+ *
+ * 1. Entrada STARTED no journal
+ * 2. Escritas dos repositórios ficam pendentes (transação do driver) e
+ *    eventos ficam retidos (`stageEvent`)
+ * 3. Ao fim do trabalho, escritas + eventos vão para o journal (PREPARED)
+ * 4. Driver aplica as escritas; eventos são gravados no EventLog
+ * 5. Entrada removida
+ *
+ * Falha antes de PREPARED: nada foi gravado (rollback).
+ * Falha depois de PREPARED: `recover()` conclui o passo (roll-forward).
+ *
+ * Passos são serializados: o estado em memória dos repositórios é
+ * compartilhado e só pode ser recarregado com segurança sem passos
+ * concorrentes.
+ */
+class UnitOfWork {
+  private readonly context = new AsyncLocalStorage<UnitOfWorkContext>();
+  private stepLock: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly driver: StorageDriver,
+    private readonly journal: UnitOfWorkJournal,
+    private readonly eventLog?: EventLogRepository
+  ) {}
+
+  /**
+   * Cria a unidade de trabalho com o journal padrão do dataDir.
+   */
+  static forDataDir(
+    dataDir: string,
+    driver: StorageDriver,
+    eventLog?: EventLogRepository
+  ): UnitOfWork {
+    return new UnitOfWork(driver, UnitOfWorkJournal.forDataDir(dataDir), eventLog);
+  }
+
+  getJournal(): UnitOfWorkJournal {
+    return this.journal;
+  }
+
+  /**
+   * Indica se há um passo ativo no contexto assíncrono atual.
+   */
+  isActive(): boolean {
+    return this.context.getStore() !== undefined;
+  }
+
+  /**
+   * Retém um evento até o commit do passo ativo.
+   * Fora de um passo, retorna false (chamador grava diretamente).
+   */
+  stageEvent(event: StagedEvent): boolean {
+    const ctx = this.context.getStore();
+    if (!ctx) return false;
+
+    ctx.events.push({ ...event, payload: snapshotPayload(event.payload) });
+    return true;
+  }
+
+  /**
+   * Executa um passo de forma atômica.
+   * Chamadas aninhadas participam do passo externo.
+   */
+  async run<T>(step: string, work: () => Promise<T>, hooks: UnitOfWorkRunHooks = {}): Promise<T> {
+    if (this.isActive()) {
+      return work();
+    }
+
+    return this.withStepLock(() => this.runStep(step, work, hooks));
+  }
+
+  private async runStep<T>(step: string, work: () => Promise<T>, hooks: UnitOfWorkRunHooks): Promise<T> {
+    const ctx: UnitOfWorkContext = {
+      entry: {
+        id: gerarJournalId(),
+        step,
+        status: 'STARTED',
+        startedAt: new Date().toISOString(),
+        writes: [],
+        events: [],
+        eventLogTailId: null
+      },
+      events: []
+    };
+
+    await this.journal.write(ctx.entry);
+
+    let result: T;
+    try {
+      result = await this.context.run(ctx, () =>
+        this.driver.transaction(work, {
+          onPrepare: async (writes) => this.prepare(ctx, writes),
+          onRollback: async () => {
+            if (hooks.onRollback) await hooks.onRollback();
+          }
+        })
+      );
+    } catch (error) {
+      // Antes de PREPARED nada foi aplicado: descartar a entrada.
+      // Depois de PREPARED o commit pode ter sido parcial: manter
+      // a entrada para a recuperação.
+      if (ctx.entry.status === 'STARTED') {
+        await this.journal.remove(ctx.entry.id);
+      }
+      throw error;
+    }
+
+    // Escritas aplicadas: gravar eventos em ordem
+    for (const event of ctx.entry.events) {
+      try {
+        await this.appendEvent(event);
+      } catch (error) {
+        // Entrada permanece PREPARED; recover() grava o restante
+        if (hooks.onEventError) hooks.onEventError(event, error);
+        return result;
+      }
+    }
+
+    await this.journal.remove(ctx.entry.id);
+    return result;
+  }
+
+  private async prepare(ctx: UnitOfWorkContext, writes: PreparedWrite[]): Promise<void> {
+    const tail = this.eventLog ? await this.eventLog.getLastEntry() : null;
+
+    const prepared: UnitOfWorkJournalEntry = {
+      ...ctx.entry,
+      status: 'PREPARED',
+      preparedAt: new Date().toISOString(),
+      writes,
+      events: ctx.events,
+      eventLogTailId: tail?.id ?? null
+    };
+
+    // Só vale como PREPARED depois de gravada: se a gravação falhar,
+    // a entrada STARTED é descartada pelo chamador
+    await this.journal.write(prepared);
+    ctx.entry = prepared;
+  }
+
+  private async appendEvent(event: StagedEvent): Promise<void> {
+    if (!this.eventLog) return;
+    await this.eventLog.append(event.actor, event.evento, event.entidade, event.entidadeId, event.payload);
+  }
+
+  private async withStepLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previousLock = this.stepLock;
+    let resolve: () => void;
+    this.stepLock = new Promise(r => { resolve = r; });
+
+    try {
+      await previousLock;
+      return await operation();
+    } finally {
+      resolve!();
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // RECUPERAÇÃO
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Conclui ou desfaz os passos interrompidos.
+   *
+   * - STARTED: nenhuma escrita foi aplicada → entrada descartada
+   * - PREPARED: escritas regravadas (upsert idempotente) e eventos
+   *   ausentes do EventLog gravados, na ordem original
+   *
+   * Deve rodar na inicialização, antes de qualquer passo. Entradas que
+   * falham permanecem no journal para a próxima tentativa.
+   */
+  async recover(): Promise<UnitOfWorkRecoveryReport> {
+    return this.withStepLock(async () => {
+      const startedAt = new Date().toISOString();
+      const items: UnitOfWorkRecoveryItem[] = [];
+
+      for (const entry of await this.journal.list()) {
+        items.push(await this.recoverEntry(entry));
+      }
+
+      return {
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        rolledForward: items.filter(i => i.action === 'ROLLED_FORWARD').length,
+        rolledBack: items.filter(i => i.action === 'ROLLED_BACK').length,
+        failed: items.filter(i => i.action === 'FAILED').length,
+        items
+      };
+    });
+  }
+
+  private async recoverEntry(entry: UnitOfWorkJournalEntry): Promise<UnitOfWorkRecoveryItem> {
+    const item: UnitOfWorkRecoveryItem = {
+      journalId: entry.id,
+      step: entry.step,
+      status: entry.status,
+      action: 'ROLLED_BACK',
+      recordsApplied: 0,
+      eventsAppended: 0,
+      eventsAlreadyPresent: 0
+    };
+
+    try {
+      if (entry.status === 'PREPARED') {
+        item.action = 'ROLLED_FORWARD';
+
+        await this.driver.transaction(async () => {
+          for (const write of entry.writes) {
+            await this.driver.collection(write.collection).put(write.records);
+            item.recordsApplied += write.records.length;
+          }
+        });
+
+        const missing = await this.findMissingEvents(entry);
+        item.eventsAlreadyPresent = entry.events.length - missing.length;
+
+        for (const event of missing) {
+          await this.appendEvent(event);
+          item.eventsAppended++;
+        }
+      }
+
+      await this.journal.remove(entry.id);
+    } catch (error) {
+      item.action = 'FAILED';
+      item.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return item;
+  }
+
+  /**
+   * Eventos do passo ainda não gravados.
+   *
+   * O commit grava os eventos em ordem e para na primeira falha, então os
+   * já gravados formam um prefixo. Eles são procurados a partir do cursor
+   * do último evento existente na preparação (ou do início do log, se
+   * esse evento não estiver mais disponível), sem carregar o log em memória.
+   */
+  private async findMissingEvents(entry: UnitOfWorkJournalEntry): Promise<StagedEvent[]> {
+    if (!this.eventLog || entry.events.length === 0) {
+      return [];
+    }
+
+    const after = entry.eventLogTailId
+      ? await this.eventLog.cursorFor(entry.eventLogTailId)
+      : null;
+
+    let matched = 0;
+    for await (const logged of this.eventLog.iterate(after ? { after } : undefined)) {
+      if (matched >= entry.events.length) break;
+      if (sameEvent(entry.events[matched], logged)) {
+        matched++;
+      }
+    }
+
+    return entry.events.slice(matched);
+  }
+}
+
+export { UnitOfWork };
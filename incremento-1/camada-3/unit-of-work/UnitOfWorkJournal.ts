@@ -0,0 +1,99 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 29: JOURNAL DA UNIDADE DE TRABALHO
+// ════════════════════════════════════════════════════════════════════════
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { UnitOfWorkJournalEntry } from './UnitOfWorkTypes';
+
+/**
+ * Diretório do journal dentro do dataDir.
+ */
+const JOURNAL_DIR_NAME = 'uow-journal';
+
+/**
+ * Journal de passos em andamento.
+ *
+ * Um arquivo `<id>.json` por passo. Cada gravação é atômica e durável
+ * (.tmp + fsync + rename), pois a entrada PREPARED é a única fonte
+ * para concluir um commit interrompido.
+ *
+ * Entradas existem apenas enquanto o passo não terminou: o commit
+ * completo (ou o rollback) remove o arquivo.
+ */
+class UnitOfWorkJournal {
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Journal padrão de um dataDir.
+   */
+  static forDataDir(dataDir: string): UnitOfWorkJournal {
+    return new UnitOfWorkJournal(path.join(dataDir, JOURNAL_DIR_NAME));
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  async write(entry: UnitOfWorkJournalEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const filePath = this.pathFor(entry.id);
+    const tmpPath = filePath + '.tmp';
+    const handle = await fs.open(tmpPath, 'w');
+
+    try {
+      await handle.writeFile(JSON.stringify(entry), 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    await fs.rename(tmpPath, filePath);
+  }
+
+  async remove(id: string): Promise<void> {
+    await fs.rm(this.pathFor(id), { force: true });
+  }
+
+  /**
+   * Lista as entradas pendentes, da mais antiga para a mais recente.
+   * Arquivos .tmp (gravação interrompida) são descartados: a entrada
+   * anterior, se existir, continua válida.
+   */
+  async list(): Promise<UnitOfWorkJournalEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: UnitOfWorkJournalEntry[] = [];
+
+    for (const file of files) {
+      const fullPath = path.join(this.dir, file);
+
+      if (file.endsWith('.tmp')) {
+        await fs.rm(fullPath, { force: true });
+        continue;
+      }
+      if (!file.endsWith('.json')) continue;
+
+      const raw = await fs.readFile(fullPath, 'utf-8');
+      entries.push(JSON.parse(raw) as UnitOfWorkJournalEntry);
+    }
+
+    return entries.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  }
+
+  private pathFor(id: string): string {
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+      throw new Error(`Id de journal inválido: ${id}`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+export { UnitOfWorkJournal, JOURNAL_DIR_NAME };
@@ -0,0 +1,119 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 29: TIPOS DA UNIDADE DE TRABALHO
+// ════════════════════════════════════════════════════════════════════════
+
+import { ActorId } from '../event-log/EventLogEntry';
+import { PreparedWrite } from '../storage/StorageTypes';
+
+/**
+ * Estado de uma entrada do journal.
+ *
+ * - STARTED: passo em execução, nada foi gravado (escritas pendentes)
+ * - PREPARED: escritas e eventos completos registrados no journal;
+ *   o commit pode ter sido interrompido a qualquer momento depois disso
+ */
+type UnitOfWorkJournalStatus = 'STARTED' | 'PREPARED';
+
+/**
+ * Evento do EventLog retido até o commit do passo.
+ */
+interface StagedEvent {
+  actor: ActorId;
+  evento: string;
+  entidade: string;
+  entidadeId: string;
+  payload: unknown;
+}
+
+/**
+ * Entrada do journal (um arquivo por passo em andamento).
+ */
+interface UnitOfWorkJournalEntry {
+  id: string;
+
+  /** Nome do passo do Orquestrador (ex: RegistrarDecisao) */
+  step: string;
+
+  status: UnitOfWorkJournalStatus;
+  startedAt: string;
+  preparedAt?: string;
+
+  /** Escritas do passo (presentes a partir de PREPARED) */
+  writes: PreparedWrite[];
+
+  /** Eventos do passo, na ordem de emissão (presentes a partir de PREPARED) */
+  events: StagedEvent[];
+
+  /**
+   * Último evento do EventLog no momento da preparação.
+   * Delimita a busca por eventos já gravados durante a recuperação.
+   */
+  eventLogTailId: string | null;
+}
+
+/**
+ * Ganchos opcionais de uma execução de passo.
+ */
+interface UnitOfWorkRunHooks {
+  /**
+   * Chamado quando o passo falha, inclusive na preparação do journal
+   * ou no commit. Usado para recarregar o estado em memória a partir
+   * do storage.
+   */
+  onRollback?: () => Promise<void>;
+
+  /**
+   * Chamado quando o append de um evento falha no commit.
+   * A entrada permanece PREPARED e os eventos restantes são
+   * gravados pela recuperação.
+   */
+  onEventError?: (event: StagedEvent, error: unknown) => void;
+}
+
+/**
+ * Ação tomada pela recuperação para uma entrada do journal.
+ */
+type UnitOfWorkRecoveryAction = 'ROLLED_FORWARD' | 'ROLLED_BACK' | 'FAILED';
+
+/**
+ * Resultado da recuperação de uma entrada.
+ */
+interface UnitOfWorkRecoveryItem {
+  journalId: string;
+  step: string;
+  status: UnitOfWorkJournalStatus;
+  action: UnitOfWorkRecoveryAction;
+
+  /** Registros regravados (roll-forward) */
+  recordsApplied: number;
+
+  /** Eventos ausentes no EventLog e gravados agora */
+  eventsAppended: number;
+
+  /** Eventos que já estavam no EventLog */
+  eventsAlreadyPresent: number;
+
+  error?: string;
+}
+
+/**
+ * Relatório da passada de recuperação.
+ */
+interface UnitOfWorkRecoveryReport {
+  startedAt: string;
+  finishedAt: string;
+  rolledForward: number;
+  rolledBack: number;
+  failed: number;
+  items: UnitOfWorkRecoveryItem[];
+}
+
+export {
+  UnitOfWorkJournalStatus,
+  StagedEvent,
+  UnitOfWorkJournalEntry,
+  UnitOfWorkRunHooks,
+  UnitOfWorkRecoveryAction,
+  UnitOfWorkRecoveryItem,
+  UnitOfWorkRecoveryReport
+};
@@ -0,0 +1,20 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 29: EXPORTS DA UNIDADE DE TRABALHO
+// ════════════════════════════════════════════════════════════════════════
+
+// Tipos
+export {
+  UnitOfWorkJournalStatus,
+  StagedEvent,
+  UnitOfWorkJournalEntry,
+  UnitOfWorkRunHooks,
+  UnitOfWorkRecoveryAction,
+  UnitOfWorkRecoveryItem,
+  UnitOfWorkRecoveryReport
+} from './UnitOfWorkTypes';
+
+// Journal
+export { UnitOfWorkJournal, JOURNAL_DIR_NAME } from './UnitOfWorkJournal';
+
+// Unidade de trabalho
+export { UnitOfWork } from './UnitOfWork';
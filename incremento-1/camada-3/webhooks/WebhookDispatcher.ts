@@ -0,0 +1,369 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 37: DESPACHANTE DE WEBHOOKS
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Transforma eventos do EventLog em entregas HTTP assinadas.
+ *
+ * FLUXO:
+ * 1. subscribe() do EventLog (Inc 36) recebe o evento gravado
+ * 2. A varredura periódica enfileira uma entrega por assinatura no outbox
+ * 3. Entregas vencidas são enviadas (POST JSON, HMAC-SHA256)
+ * 4. Falha (não-2xx, rede, timeout) reagenda com backoff exponencial;
+ *    após maxAttempts a entrega fica failed
+ *
+ * O listener apenas acumula eventos em memória: nenhuma escrita acontece
+ * dentro da gravação do EventLog (nem da transação que a originou).
+ *
+ * Antes de cada entrega o host é resolvido: destino em faixa interna
+ * (WebhookTarget) marca a entrega como failed, sem novas tentativas.
+ *
+ * O outbox guarda o cursor do último evento enfileirado. Na primeira
+ * varredura após start(), os eventos gravados depois do cursor (inclusive
+ * os que estavam só em memória numa queda) são lidos do EventLog.
+ */
+
+import { EventLogEntry } from '../event-log/EventLogEntry';
+import { EventLogRepository } from '../event-log/EventLogRepository';
+import { EventLogCursorError } from '../event-log/EventLogIndex';
+import { WebhookOutbox } from './WebhookOutbox';
+import { WEBHOOK_HEADERS, signWebhookPayload } from './WebhookSignature';
+import { resolveBlockedWebhookTarget } from './WebhookTarget';
+import {
+  DEFAULT_WEBHOOK_DISPATCHER_CONFIG,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDispatcherConfig,
+  WebhookEndpoint
+} from './WebhookTypes';
+
+const USER_AGENT = 'Libervia-Webhooks/1.0';
+const CATCH_UP_BATCH = 500;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+class WebhookDispatcher {
+  private readonly config: WebhookDispatcherConfig;
+  private incoming: EventLogEntry[] = [];
+  private caughtUp = false;
+  private lastPruneAt = 0;
+  private unsubscribe: (() => void) | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private chain: Promise<void> = Promise.resolve();
+  private busy = false;
+
+  /**
+   * @param endpoints - Assinaturas atuais do tenant (lidas a cada varredura)
+   */
+  constructor(
+    private readonly tenantId: string,
+    private readonly eventLog: EventLogRepository,
+    private readonly outbox: WebhookOutbox,
+    private readonly endpoints: () => WebhookEndpoint[],
+    config: Partial<WebhookDispatcherConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_WEBHOOK_DISPATCHER_CONFIG, ...config };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // CICLO DE VIDA
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Passa a observar o EventLog e a varrer o outbox.
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.caughtUp = false;
+    this.unsubscribe = this.eventLog.subscribe(entry => {
+      this.incoming.push(entry);
+    });
+
+    this.timer = setInterval(() => {
+      if (!this.busy) {
+        this.flush().catch(() => undefined);
+      }
+    }, this.config.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Para a varredura. Eventos recebidos e ainda não enfileirados são
+   * gravados no outbox antes de retornar.
+   */
+  async stop(): Promise<void> {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    const drain = this.chain.then(() => this.enqueuePending());
+    this.chain = drain.catch(() => undefined);
+    await drain;
+  }
+
+  /**
+   * Enfileira os eventos recebidos e envia as entregas vencidas.
+   * Execuções são serializadas.
+   */
+  flush(): Promise<void> {
+    const run = this.chain.then(() => this.process());
+    this.chain = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Consulta entregas do outbox.
+   */
+  listDeliveries(query?: WebhookDeliveryQuery): Promise<WebhookDelivery[]> {
+    return this.outbox.list(query);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PROCESSAMENTO
+  // ══════════════════════════════════════════════════════════════════════
+
+  private async process(): Promise<void> {
+    this.busy = true;
+    try {
+      await this.enqueuePending();
+
+      const due = await this.outbox.due(new Date(), this.config.batchSize);
+      for (const delivery of due) {
+        await this.deliver(delivery);
+      }
+
+      await this.pruneDelivered();
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async enqueuePending(): Promise<void> {
+    if (!this.caughtUp) {
+      await this.catchUp();
+      this.caughtUp = true;
+    }
+    await this.enqueueIncoming();
+  }
+
+  /**
+   * Enfileira os eventos gravados depois do cursor do outbox.
+   * Sem cursor (ou cursor inválido após restauração do EventLog), lê a
+   * partir da criação da assinatura ativa mais antiga.
+   */
+  private async catchUp(): Promise<void> {
+    const cursor = await this.outbox.getCursor();
+
+    try {
+      await this.enqueueFromEventLog(cursor);
+    } catch (error) {
+      if (!(error instanceof EventLogCursorError) || cursor === null) throw error;
+      await this.enqueueFromEventLog(null);
+    }
+  }
+
+  private async enqueueFromEventLog(cursor: string | null): Promise<void> {
+    let options: { after?: string; fromTs?: Date } = { after: cursor ?? undefined };
+
+    if (cursor === null) {
+      const inicio = this.endpoints()
+        .filter(e => e.active)
+        .map(e => e.createdAt)
+        .sort()[0];
+
+      if (inicio === undefined) {
+        // Nenhuma assinatura: só posiciona o cursor no fim do EventLog
+        const last = await this.eventLog.getLastEntry();
+        if (last) await this.enqueueEntries([last]);
+        return;
+      }
+      options = { fromTs: new Date(inicio) };
+    }
+
+    let batch: EventLogEntry[] = [];
+    for await (const entry of this.eventLog.iterate(options)) {
+      batch.push(entry);
+      if (batch.length >= CATCH_UP_BATCH) {
+        await this.enqueueEntries(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await this.enqueueEntries(batch);
+    }
+  }
+
+  private async enqueueIncoming(): Promise<void> {
+    if (this.incoming.length === 0) return;
+
+    const entries = this.incoming.splice(0);
+    try {
+      await this.enqueueEntries(entries);
+    } catch (error) {
+      // Próxima varredura tenta de novo
+      this.incoming.unshift(...entries);
+      throw error;
+    }
+  }
+
+  /**
+   * Uma entrega por assinatura interessada em cada evento; em seguida,
+   * o cursor avança para o último evento do lote.
+   */
+  private async enqueueEntries(entries: EventLogEntry[]): Promise<void> {
+    const endpoints = this.endpoints().filter(e => e.active);
+    const now = new Date().toISOString();
+    const deliveries: WebhookDelivery[] = [];
+
+    for (const entry of entries) {
+      const timestamp = new Date(entry.timestamp).toISOString();
+      for (const endpoint of endpoints) {
+        if (!endpoint.events.includes(entry.evento) || timestamp < endpoint.createdAt) {
+          continue;
+        }
+        const id = `${endpoint.webhookId}:${entry.id}`;
+        deliveries.push({
+          id,
+          webhookId: endpoint.webhookId,
+          eventId: entry.id,
+          evento: entry.evento,
+          status: 'pending',
+          attempts: 0,
+          createdAt: now,
+          nextAttemptAt: now,
+          payload: {
+            deliveryId: id,
+            webhookId: endpoint.webhookId,
+            tenantId: this.tenantId,
+            evento: entry.evento,
+            event: JSON.parse(JSON.stringify(entry))
+          }
+        });
+      }
+    }
+
+    await this.outbox.enqueue(deliveries);
+
+    const last = entries[entries.length - 1];
+    const cursor = await this.eventLog.cursorFor(last.id);
+    if (cursor) {
+      await this.outbox.saveCursor(cursor, last.id);
+    }
+  }
+
+  /**
+   * Remove do outbox as entregas delivered além da retenção
+   * (no máximo uma vez por hora).
+   */
+  private async pruneDelivered(): Promise<void> {
+    if (this.config.deliveredRetentionMs <= 0) return;
+
+    const now = Date.now();
+    if (now - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+
+    this.lastPruneAt = now;
+    await this.outbox.prune(new Date(now - this.config.deliveredRetentionMs));
+  }
+
+  /**
+   * Uma tentativa de entrega; o resultado é gravado no outbox.
+   */
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const endpoint = this.endpoints().find(e => e.webhookId === delivery.webhookId);
+
+    if (!endpoint || !endpoint.active) {
+      await this.outbox.update({
+        ...delivery,
+        status: 'failed',
+        nextAttemptAt: undefined,
+        lastError: endpoint ? 'Webhook desativado' : 'Webhook removido'
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempt: WebhookDelivery = {
+      ...delivery,
+      attempts: delivery.attempts + 1,
+      lastAttemptAt: new Date().toISOString()
+    };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      // Endereço resolvido agora: um host público no cadastro pode
+      // passar a apontar para a rede interna
+      const blocked = await resolveBlockedWebhookTarget(endpoint.url);
+      if (blocked) {
+        attempt.status = 'failed';
+        attempt.nextAttemptAt = undefined;
+        attempt.lastStatusCode = undefined;
+        attempt.lastError = `Destino bloqueado: ${blocked}`;
+        return;
+      }
+
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'user-agent': USER_AGENT,
+          [WEBHOOK_HEADERS.signature]: signWebhookPayload(endpoint.secret, timestamp, body),
+          [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+          [WEBHOOK_HEADERS.event]: delivery.evento,
+          [WEBHOOK_HEADERS.delivery]: delivery.id
+        },
+        body,
+        signal: controller.signal
+      });
+      await response.body?.cancel();
+
+      attempt.lastStatusCode = response.status;
+      if (response.ok) {
+        attempt.status = 'delivered';
+        attempt.deliveredAt = new Date().toISOString();
+        attempt.nextAttemptAt = undefined;
+        attempt.lastError = undefined;
+      } else {
+        this.reschedule(attempt, `HTTP ${response.status}`);
+      }
+    } catch (error: unknown) {
+      attempt.lastStatusCode = undefined;
+      const message = controller.signal.aborted
+        ? `Timeout após ${this.config.timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      this.reschedule(attempt, message);
+    } finally {
+      clearTimeout(timeoutId);
+      await this.outbox.update(attempt);
+    }
+  }
+
+  /**
+   * Backoff exponencial: baseDelayMs * 2^(tentativas - 1), limitado a maxDelayMs.
+   */
+  private reschedule(delivery: WebhookDelivery, error: string): void {
+    delivery.lastError = error;
+
+    if (delivery.attempts >= this.config.maxAttempts) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+      return;
+    }
+
+    const delay = Math.min(
+      this.config.baseDelayMs * 2 ** (delivery.attempts - 1),
+      this.config.maxDelayMs
+    );
+    delivery.status = 'pending';
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+  }
+}
+
+export { WebhookDispatcher };
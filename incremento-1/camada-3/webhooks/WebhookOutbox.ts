@@ -0,0 +1,137 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 37: OUTBOX DURÁVEL DE ENTREGAS DE WEBHOOK
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Entregas persistidas no driver do tenant (coleção `webhook_deliveries`).
+ * Entregas pendentes sobrevivem a reinícios: o despachante retoma a partir
+ * de `nextAttemptAt`.
+ *
+ * A coleção `webhook_cursor` guarda o cursor do último evento do EventLog
+ * já enfileirado: ao reiniciar, o despachante continua a partir dele.
+ */
+
+import * as path from 'path';
+import { StorageCollection, StorageDriver } from '../storage/StorageTypes';
+import { JsonFileCollection } from '../storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../storage/StorageCollections';
+import { WebhookDelivery, WebhookDeliveryQuery } from './WebhookTypes';
+
+const DEFAULT_QUERY_LIMIT = 50;
+const CURSOR_ID = 'eventlog';
+
+class WebhookOutbox {
+  private store: StorageCollection;
+  private cursorStore: StorageCollection;
+
+  /**
+   * @param filePath - Arquivo JSON (usado quando não há driver); o cursor
+   *                   fica em webhook_cursor.json no mesmo diretório
+   * @param driver - Driver de armazenamento do tenant
+   */
+  constructor(filePath: string, driver?: StorageDriver) {
+    this.store = driver
+      ? driver.collection(STORAGE_COLLECTIONS.webhookDeliveries)
+      : new JsonFileCollection(filePath, STORAGE_COLLECTIONS.webhookDeliveries);
+    this.cursorStore = driver
+      ? driver.collection(STORAGE_COLLECTIONS.webhookCursor)
+      : new JsonFileCollection(
+          path.join(path.dirname(filePath), `${STORAGE_COLLECTIONS.webhookCursor.name}.json`),
+          STORAGE_COLLECTIONS.webhookCursor
+        );
+  }
+
+  /**
+   * Cursor do último evento enfileirado (null se nenhum).
+   */
+  async getCursor(): Promise<string | null> {
+    const raw = await this.cursorStore.get(CURSOR_ID);
+    return raw ? String(raw.cursor) : null;
+  }
+
+  /**
+   * Grava o cursor. Chamado depois de enqueue(): queda entre os dois
+   * reenfileira os mesmos eventos, que não duplicam (mesmo id).
+   */
+  async saveCursor(cursor: string, eventId: string): Promise<void> {
+    await this.cursorStore.put([{ id: CURSOR_ID, cursor, eventId, updatedAt: new Date().toISOString() }]);
+  }
+
+  /**
+   * Remove entregas delivered antes de `deliveredBefore`.
+   * Entregas pending e failed são mantidas.
+   *
+   * @returns Quantidade removida
+   */
+  async prune(deliveredBefore: Date): Promise<number> {
+    const limite = deliveredBefore.toISOString();
+    const records = (await this.store.readAll()) as WebhookDelivery[];
+    const mantidas = records.filter(d =>
+      d.status !== 'delivered' || !d.deliveredAt || d.deliveredAt >= limite
+    );
+
+    const removidas = records.length - mantidas.length;
+    if (removidas > 0) {
+      await this.store.writeAll(mantidas);
+    }
+    return removidas;
+  }
+
+  /**
+   * Enfileira entregas novas. Entregas já registradas (mesmo id) são
+   * mantidas como estão.
+   *
+   * @returns Entregas efetivamente enfileiradas
+   */
+  async enqueue(deliveries: WebhookDelivery[]): Promise<WebhookDelivery[]> {
+    const novas: WebhookDelivery[] = [];
+    for (const delivery of deliveries) {
+      if (!(await this.store.get(delivery.id))) {
+        novas.push(delivery);
+      }
+    }
+    if (novas.length > 0) {
+      await this.store.put(novas.map(d => ({ ...d })));
+    }
+    return novas;
+  }
+
+  async get(id: string): Promise<WebhookDelivery | null> {
+    const raw = await this.store.get(id);
+    return raw ? { ...(raw as WebhookDelivery) } : null;
+  }
+
+  async update(delivery: WebhookDelivery): Promise<void> {
+    await this.store.put([{ ...delivery }]);
+  }
+
+  /**
+   * Entregas pendentes com tentativa vencida, das mais antigas.
+   */
+  async due(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const pending = await this.store.findBy('status', 'pending');
+    const nowIso = now.toISOString();
+    return (pending as WebhookDelivery[])
+      .filter(d => !d.nextAttemptAt || d.nextAttemptAt <= nowIso)
+      .sort((a, b) => (a.nextAttemptAt ?? '').localeCompare(b.nextAttemptAt ?? ''))
+      .slice(0, limit)
+      .map(d => ({ ...d }));
+  }
+
+  /**
+   * Consulta entregas, das mais recentes para as mais antigas.
+   */
+  async list(query: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    const records = (query.webhookId
+      ? await this.store.findBy('webhookId', query.webhookId)
+      : await this.store.readAll()) as WebhookDelivery[];
+
+    return records
+      .filter(d => !query.status || d.status === query.status)
+      .reverse()
+      .slice(0, query.limit ?? DEFAULT_QUERY_LIMIT)
+      .map(d => ({ ...d }));
+  }
+}
+
+export { WebhookOutbox };
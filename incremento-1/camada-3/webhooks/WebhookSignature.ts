@@ -0,0 +1,53 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 37: ASSINATURA HMAC DAS ENTREGAS DE WEBHOOK
+// ════════════════════════════════════════════════════════════════════════
+
+import * as crypto from 'crypto';
+
+/**
+ * Headers enviados em cada entrega.
+ */
+const WEBHOOK_HEADERS = {
+  signature: 'x-libervia-signature',
+  timestamp: 'x-libervia-timestamp',
+  event: 'x-libervia-event',
+  delivery: 'x-libervia-delivery'
+} as const;
+
+/**
+ * Assina `<timestamp>.<corpo>` com HMAC-SHA256.
+ * O timestamp (segundos Unix) entra na assinatura para limitar replays.
+ *
+ * @returns `sha256=<hex>`
+ */
+function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`, 'utf8')
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verifica a assinatura de uma entrega (lado do receptor).
+ *
+ * @param toleranceSec - Diferença máxima entre o timestamp e o relógio local
+ */
+function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string,
+  timestamp: number,
+  toleranceSec: number = 300,
+  now: number = Date.now()
+): boolean {
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSec) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body), 'utf8');
+  const actual = Buffer.from(signature, 'utf8');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export { WEBHOOK_HEADERS, signWebhookPayload, verifyWebhookSignature };
@@ -0,0 +1,108 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 37: DESTINOS PERMITIDOS DE WEBHOOK
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Impede que um tenant use o despachante para alcançar a rede interna
+ * (SSRF): loopback, link-local (metadados de nuvem em 169.254.169.254),
+ * faixas privadas e reservadas.
+ *
+ * - No cadastro: host literal (IP ou localhost) é recusado
+ * - Na entrega: o host é resolvido e todos os endereços são verificados
+ *
+ * Ambientes de desenvolvimento e testes com receptor local definem
+ * LIBERVIA_WEBHOOK_ALLOW_PRIVATE_TARGETS=true.
+ */
+
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+/**
+ * Chave de ambiente que libera destinos internos.
+ */
+const WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY = 'LIBERVIA_WEBHOOK_ALLOW_PRIVATE_TARGETS';
+
+const BLOCKED_SUBNETS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix, type] of BLOCKED_SUBNETS) {
+  blockedAddresses.addSubnet(network, prefix, type);
+}
+
+function privateWebhookTargetsAllowed(): boolean {
+  const value = process.env[WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY];
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Endereço IP em faixa interna (IPv4 mapeado em IPv6 incluído).
+ */
+function isBlockedWebhookAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function hostnameOf(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+}
+
+/**
+ * Verificação sem rede, usada no cadastro.
+ * @returns Motivo da recusa, ou null se o host é aceitável
+ */
+function blockedWebhookHost(url: URL): string | null {
+  if (privateWebhookTargetsAllowed()) return null;
+
+  const host = hostnameOf(url);
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return `host ${host} aponta para a propria maquina`;
+  }
+  if (isBlockedWebhookAddress(host)) {
+    return `endereco ${host} em faixa interna`;
+  }
+  return null;
+}
+
+/**
+ * Resolve o host e verifica todos os endereços, usada antes de cada entrega.
+ * @returns Motivo da recusa, ou null se todos os endereços são públicos
+ */
+async function resolveBlockedWebhookTarget(url: string): Promise<string | null> {
+  if (privateWebhookTargetsAllowed()) return null;
+
+  const parsed = new URL(url);
+  const literal = blockedWebhookHost(parsed);
+  if (literal) return literal;
+
+  const host = hostnameOf(parsed);
+  if (isIP(host) !== 0) return null;
+
+  const addresses = await lookup(host, { all: true });
+  const blocked = addresses.find(a => isBlockedWebhookAddress(a.address));
+  return blocked ? `host ${host} resolve para ${blocked.address}, em faixa interna` : null;
+}
+
+export {
+  WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY,
+  isBlockedWebhookAddress,
+  blockedWebhookHost,
+  resolveBlockedWebhookTarget
+};
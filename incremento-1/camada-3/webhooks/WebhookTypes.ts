@@ -0,0 +1,122 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 37: TIPOS DOS WEBHOOKS DE SAÍDA
+// ════════════════════════════════════════════════════════════════════════
+
+import { EventLogEntry, TipoEvento } from '../event-log/EventLogEntry';
+
+/**
+ * Eventos que podem ser assinados por webhook.
+ */
+const WEBHOOK_EVENT_TYPES: readonly string[] = [
+  TipoEvento.CONTRATO_EMITIDO,
+  TipoEvento.CONSEQUENCIA_REGISTRADA,
+  TipoEvento.AUTONOMY_SUSPENDED,
+  TipoEvento.HUMAN_REVIEW_CASE_OPENED
+];
+
+/**
+ * Destino de entrega resolvido (assinatura do tenant + segredo).
+ * O segredo nunca é persistido no outbox.
+ */
+interface WebhookEndpoint {
+  webhookId: string;
+  url: string;
+  events: string[];
+  active: boolean;
+  secret: string;
+  /** Eventos anteriores à criação da assinatura não são entregues */
+  createdAt: string;
+}
+
+/**
+ * Estado de uma entrega.
+ *
+ * - pending: aguardando tentativa (nova ou retentativa)
+ * - delivered: destino respondeu 2xx
+ * - failed: tentativas esgotadas, ou assinatura removida/desativada
+ */
+type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Corpo enviado ao destino (JSON).
+ */
+interface WebhookPayload {
+  deliveryId: string;
+  webhookId: string;
+  tenantId: string;
+  evento: string;
+  event: EventLogEntry;
+}
+
+/**
+ * Entrega registrada no outbox (uma por assinatura e evento).
+ */
+interface WebhookDelivery {
+  /** `<webhookId>:<eventId>` — reenfileirar o mesmo evento não duplica */
+  id: string;
+  webhookId: string;
+  eventId: string;
+  evento: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  /** Próxima tentativa (ISO 8601); ausente quando finalizada */
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  /** Status HTTP da última tentativa */
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: string;
+  payload: WebhookPayload;
+}
+
+/**
+ * Filtros de consulta ao outbox.
+ */
+interface WebhookDeliveryQuery {
+  webhookId?: string;
+  status?: WebhookDeliveryStatus;
+  /** Máximo de entregas, das mais recentes (default: 50) */
+  limit?: number;
+}
+
+/**
+ * Configuração do despachante.
+ */
+interface WebhookDispatcherConfig {
+  /** Tentativas antes de marcar como failed (default: 8) */
+  maxAttempts: number;
+  /** Espera após a primeira falha; dobra a cada tentativa (default: 1000) */
+  baseDelayMs: number;
+  /** Teto da espera entre tentativas (default: 1h) */
+  maxDelayMs: number;
+  /** Timeout de cada requisição (default: 10000) */
+  timeoutMs: number;
+  /** Intervalo de varredura do outbox (default: 1000) */
+  pollIntervalMs: number;
+  /** Entregas por varredura (default: 20) */
+  batchSize: number;
+  /** Tempo que entregas delivered ficam no outbox; 0 desativa (default: 7 dias) */
+  deliveredRetentionMs: number;
+}
+
+const DEFAULT_WEBHOOK_DISPATCHER_CONFIG: WebhookDispatcherConfig = {
+  maxAttempts: 8,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  timeoutMs: 10000,
+  pollIntervalMs: 1000,
+  batchSize: 20,
+  deliveredRetentionMs: 7 * 24 * 60 * 60 * 1000
+};
+
+export {
+  WEBHOOK_EVENT_TYPES,
+  WebhookEndpoint,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDispatcherConfig,
+  DEFAULT_WEBHOOK_DISPATCHER_CONFIG
+};
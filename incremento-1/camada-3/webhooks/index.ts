@@ -0,0 +1,30 @@
+// ════════════════════════════════════════════════════════════════════════
+// INCREMENTO 37: EXPORTS DOS WEBHOOKS DE SAÍDA
+// ════════════════════════════════════════════════════════════════════════
+
+// Tipos
+export {
+  WEBHOOK_EVENT_TYPES,
+  WebhookEndpoint,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDispatcherConfig,
+  DEFAULT_WEBHOOK_DISPATCHER_CONFIG
+} from './WebhookTypes';
+
+// Assinatura HMAC
+export { WEBHOOK_HEADERS, signWebhookPayload, verifyWebhookSignature } from './WebhookSignature';
+
+// Destinos permitidos (SSRF)
+export {
+  WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY,
+  isBlockedWebhookAddress,
+  blockedWebhookHost,
+  resolveBlockedWebhookTarget
+} from './WebhookTarget';
+
+// Outbox e despachante
+export { WebhookOutbox } from './WebhookOutbox';
+export { WebhookDispatcher } from './WebhookDispatcher';
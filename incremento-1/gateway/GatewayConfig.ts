@@ -4,6 +4,8 @@
  * Tipos e loader de configuracao do Gateway HTTP multi-tenant.
  */
 
+import { BackupRetentionPolicy, DEFAULT_BACKUP_RETENTION } from '../camada-3/backup/BackupTypes';
+
 // ════════════════════════════════════════════════════════════════════════════
 // TIPOS
 // ════════════════════════════════════════════════════════════════════════════
@@ -47,6 +49,31 @@ export interface GatewayConfig {
    * Nivel de log (default: 'info')
    */
   logLevel: 'fatal' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+  /**
+   * Backup agendado por tenant (Inc 45). Ausente ou intervalMs = 0: desativado.
+   */
+  backupSchedule?: BackupScheduleConfig;
+}
+
+/**
+ * Agendamento de backups (Inc 45)
+ */
+export interface BackupScheduleConfig {
+  /**
+   * Intervalo entre backups agendados de um tenant, em ms (0 = desativado)
+   */
+  intervalMs: number;
+
+  /**
+   * Retencao dos backups agendados (backups manuais nunca sao removidos)
+   */
+  retention: BackupRetentionPolicy;
+
+  /**
+   * Periodicidade da verificacao, em ms (default: min(intervalMs, 60s))
+   */
+  pollIntervalMs?: number;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -77,6 +104,8 @@ const DEFAULT_CONFIG: GatewayConfig = {
  * - GATEWAY_CORS_ORIGINS (comma-separated)
  * - NODE_ENV
  * - GATEWAY_LOG_LEVEL
+ * - GATEWAY_BACKUP_INTERVAL_MINUTES (0 = desativado, Inc 45)
+ * - GATEWAY_BACKUP_KEEP_DAILY / _WEEKLY / _MONTHLY (retencao, Inc 45)
  */
 export function loadConfig(): GatewayConfig {
   const nodeEnv = (process.env.NODE_ENV || 'development') as GatewayConfig['nodeEnv'];
@@ -94,6 +123,8 @@ export function loadConfig(): GatewayConfig {
     ? corsOriginsEnv.split(',').map(s => s.trim())
     : DEFAULT_CONFIG.corsOrigins;
 
+  const backupIntervalMinutes = parseInt(process.env.GATEWAY_BACKUP_INTERVAL_MINUTES || '0', 10);
+
   return {
     port: parseInt(process.env.GATEWAY_PORT || String(DEFAULT_CONFIG.port), 10),
     host: process.env.GATEWAY_HOST || DEFAULT_CONFIG.host,
@@ -101,7 +132,15 @@ export function loadConfig(): GatewayConfig {
     adminToken,
     corsOrigins,
     nodeEnv,
-    logLevel: (process.env.GATEWAY_LOG_LEVEL || DEFAULT_CONFIG.logLevel) as GatewayConfig['logLevel']
+    logLevel: (process.env.GATEWAY_LOG_LEVEL || DEFAULT_CONFIG.logLevel) as GatewayConfig['logLevel'],
+    backupSchedule: {
+      intervalMs: backupIntervalMinutes * 60 * 1000,
+      retention: {
+        keepDaily: parseInt(process.env.GATEWAY_BACKUP_KEEP_DAILY || String(DEFAULT_BACKUP_RETENTION.keepDaily), 10),
+        keepWeekly: parseInt(process.env.GATEWAY_BACKUP_KEEP_WEEKLY || String(DEFAULT_BACKUP_RETENTION.keepWeekly), 10),
+        keepMonthly: parseInt(process.env.GATEWAY_BACKUP_KEEP_MONTHLY || String(DEFAULT_BACKUP_RETENTION.keepMonthly), 10)
+      }
+    }
   };
 }
 
@@ -121,6 +160,18 @@ export function validateConfig(config: GatewayConfig): void {
   if (config.nodeEnv === 'production' && !config.adminToken) {
     throw new Error('adminToken is required in production');
   }
+
+  if (config.backupSchedule) {
+    const { intervalMs, retention } = config.backupSchedule;
+    if (!Number.isFinite(intervalMs) || intervalMs < 0) {
+      throw new Error(`Invalid backup interval: ${intervalMs}`);
+    }
+    for (const [name, value] of Object.entries(retention)) {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Invalid backup retention ${name}: ${value}`);
+      }
+    }
+  }
 }
 
 export { DEFAULT_CONFIG };
@@ -23,12 +23,20 @@ import { getAuthPepper } from '../tenant/TenantSecurity';
 import { healthRoutes } from './routes/healthRoutes';
 import { adminRoutes } from './routes/adminRoutes';
 import { publicRoutes } from './routes/publicRoutes';
+import { eventStreamRoutes } from './routes/eventStreamRoutes';
 import { queryRoutes } from './routes/queryRoutes';
 import { metricsRoutes } from './routes/metricsRoutes';
 import { telemetryMiddleware } from './telemetry/TelemetryMiddleware';
+import { BackupScheduler } from './backup/BackupScheduler';
 import fastifyStatic from '@fastify/static';
 import * as path from 'path';
 
+declare module 'fastify' {
+  interface FastifyInstance {
+    backupScheduler: BackupScheduler | null;
+  }
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // TIPOS
 // ════════════════════════════════════════════════════════════════════════════
@@ -95,6 +103,12 @@ export async function buildApp(options: BuildAppOptions): Promise<FastifyInstanc
   app.decorate('runtime', runtime);
   app.decorate('adminApi', adminApi);
 
+  // Backup agendado (Inc 45) - so existe com intervalo configurado
+  const backupScheduler = config.backupSchedule && config.backupSchedule.intervalMs > 0
+    ? new BackupScheduler(registry, runtime, config.backupSchedule, app.log)
+    : null;
+  app.decorate('backupScheduler', backupScheduler);
+
   // ══════════════════════════════════════════════════════════════════════════
   // REGISTRAR PLUGINS
   // ══════════════════════════════════════════════════════════════════════════
@@ -155,12 +169,25 @@ export async function buildApp(options: BuildAppOptions): Promise<FastifyInstanc
   // Public API
   await app.register(publicRoutes, { prefix: '/api/v1' });
 
+  // Assinatura de eventos em tempo real (Inc 36)
+  await app.register(eventStreamRoutes, { prefix: '/api/v1' });
+
   // ══════════════════════════════════════════════════════════════════════════
   // HOOKS DE LIFECYCLE
   // ══════════════════════════════════════════════════════════════════════════
 
+  // Backup agendado inicia com o servidor pronto
+  if (backupScheduler) {
+    app.addHook('onReady', async () => {
+      backupScheduler.start();
+    });
+  }
+
   // Graceful shutdown
   app.addHook('onClose', async () => {
+    if (backupScheduler) {
+      await backupScheduler.stop();
+    }
     app.log.info('Shutting down all tenant instances...');
     await runtime.shutdownAll();
     app.log.info('All instances shutdown complete');
@@ -0,0 +1,255 @@
+/**
+ * INCREMENTO 45 — BACKUP AGENDADO POR TENANT
+ *
+ * Cria backups periodicos dos tenants ativos com `features.backupEnabled`,
+ * assinados (Ed25519) quando `features.signedBackup`, cifrados quando
+ * `features.encryptedBackup` (Inc 47), e aplica a retencao
+ * (diaria/semanal/mensal) sobre os backups agendados.
+ *
+ * FLUXO (a cada verificacao):
+ * 1. Para cada tenant elegivel, lista os backups agendados
+ * 2. Se o mais recente tiver idade >= intervalMs, enfileira um job `create`
+ *    no BackupJobRunner da instancia (serializado com restore/DR)
+ * 3. Aplica a retencao; backups manuais nunca sao removidos
+ * 4. Publica na telemetria o ultimo backup de cada tenant e a saude da execucao
+ */
+
+import { FastifyBaseLogger } from 'fastify';
+import { TenantRegistry } from '../../tenant/TenantRegistry';
+import { TenantRuntime } from '../../tenant/TenantRuntime';
+import { TenantConfig } from '../../tenant/TenantConfig';
+import { BackupMetadata } from '../../camada-3/backup/BackupTypes';
+import { selectBackupsToPrune } from '../../camada-3/backup/BackupRetention';
+import { getTelemetryRegistry } from '../telemetry/TelemetryRegistry';
+import { BackupScheduleConfig } from '../GatewayConfig';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resultado do agendamento para um tenant
+ */
+export interface ScheduledBackupResult {
+  tenantId: string;
+  /** created: backup criado; skipped: ainda nao venceu; failed: job falhou */
+  status: 'created' | 'skipped' | 'failed';
+  backupId?: string;
+  jobId?: string;
+  /** IDs removidos pela retencao */
+  pruned: string[];
+  error?: string;
+}
+
+/**
+ * Resultado de uma execucao do agendador
+ */
+export interface BackupSchedulerRun {
+  startedAt: Date;
+  finishedAt: Date;
+  results: ScheduledBackupResult[];
+  failingTenants: number;
+}
+
+/**
+ * requestedBy dos jobs criados pelo agendador
+ */
+export const BACKUP_SCHEDULER_ACTOR = 'backup-scheduler';
+
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+
+// ════════════════════════════════════════════════════════════════════════════
+// SCHEDULER
+// ════════════════════════════════════════════════════════════════════════════
+
+export class BackupScheduler {
+  private readonly pollIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private chain: Promise<unknown> = Promise.resolve();
+  private busy = false;
+  private tracked = new Set<string>();
+  private lastRun: BackupSchedulerRun | null = null;
+
+  constructor(
+    private readonly registry: TenantRegistry,
+    private readonly runtime: TenantRuntime,
+    private readonly config: BackupScheduleConfig,
+    private readonly log?: FastifyBaseLogger
+  ) {
+    this.pollIntervalMs = config.pollIntervalMs ?? Math.min(config.intervalMs, DEFAULT_POLL_INTERVAL_MS);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CICLO DE VIDA
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Inicia as verificacoes periodicas. A primeira ocorre apos pollIntervalMs.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    getTelemetryRegistry().setBackupSchedulerInterval(this.config.intervalMs / 1000);
+
+    this.timer = setInterval(() => {
+      if (!this.busy) {
+        this.runOnce().catch(() => undefined);
+      }
+    }, this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Para as verificacoes e aguarda a execucao em andamento.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.chain;
+    getTelemetryRegistry().setBackupSchedulerInterval(0);
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Ultima execucao concluida (null antes da primeira)
+   */
+  getLastRun(): BackupSchedulerRun | null {
+    return this.lastRun;
+  }
+
+  /**
+   * Executa uma verificacao em todos os tenants. Execucoes sao serializadas.
+   */
+  runOnce(): Promise<BackupSchedulerRun> {
+    const run = this.chain.then(() => this.process());
+    this.chain = run.catch(() => undefined);
+    return run;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PROCESSAMENTO
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async process(): Promise<BackupSchedulerRun> {
+    this.busy = true;
+    try {
+      const telemetry = getTelemetryRegistry();
+      const startedAt = new Date();
+      const eligible = this.registry.listActive().filter(t => t.features.backupEnabled);
+      const results: ScheduledBackupResult[] = [];
+
+      for (const tenant of eligible) {
+        const result = await this.processTenant(tenant);
+        results.push(result);
+        if (result.status === 'failed') {
+          this.log?.warn({ tenantId: tenant.id, error: result.error }, 'Scheduled backup failed');
+        }
+      }
+
+      // Tenants que deixaram de ser elegiveis (suspensos, removidos ou sem backup)
+      const eligibleIds = new Set(eligible.map(t => t.id));
+      for (const tenantId of this.tracked) {
+        if (!eligibleIds.has(tenantId)) {
+          telemetry.removeBackupLastSuccess(tenantId);
+          this.tracked.delete(tenantId);
+        }
+      }
+
+      const failingTenants = results.filter(r => r.status === 'failed').length;
+      telemetry.recordBackupSchedulerRun(failingTenants);
+
+      this.lastRun = { startedAt, finishedAt: new Date(), results, failingTenants };
+      return this.lastRun;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async processTenant(tenant: TenantConfig): Promise<ScheduledBackupResult> {
+    const telemetry = getTelemetryRegistry();
+    const result: ScheduledBackupResult = { tenantId: tenant.id, status: 'skipped', pruned: [] };
+
+    try {
+      const instance = await this.runtime.getOrCreate(tenant.id);
+      const orquestrador = instance.orquestrador;
+
+      const backups = await orquestrador.ListarBackups(tenant.id);
+      const scheduled = backups.filter(b => b.scheduled);
+      // Base de incremental (Inc 46) nao sai pela retencao
+      const bases = new Set(backups.map(b => b.baseBackupId).filter(id => id !== undefined));
+      const latest = newest(scheduled);
+
+      if (!latest || Date.now() - latest.createdAt.getTime() >= this.config.intervalMs) {
+        const submitted = instance.backups.submitBackup(BACKUP_SCHEDULER_ACTOR, () =>
+          orquestrador.CriarBackup({
+            tenantId: tenant.id,
+            scheduled: true,
+            signed: tenant.features.signedBackup,
+            encrypted: tenant.features.encryptedBackup,
+            description: 'Backup agendado'
+          })
+        );
+        await instance.backups.idle();
+
+        const job = instance.backups.getJob(submitted.jobId);
+        result.jobId = submitted.jobId;
+
+        if (job?.status !== 'completed' || !job.backup) {
+          telemetry.incScheduledBackup(tenant.id, 'failure');
+          result.status = 'failed';
+          result.error = job?.error ?? 'Job de backup nao encontrado';
+        } else {
+          telemetry.incScheduledBackup(tenant.id, 'success');
+          result.status = 'created';
+          result.backupId = job.backup.backupId;
+          scheduled.push(job.backup);
+        }
+      }
+
+      // Retencao so apos um ciclo sem falha: nunca reduzir backups enquanto o novo nao existe
+      if (result.status !== 'failed') {
+        const prunable = selectBackupsToPrune(scheduled, this.config.retention).filter(id => !bases.has(id));
+        for (const backupId of prunable) {
+          if (await orquestrador.RemoverBackup(backupId, 'retention')) {
+            result.pruned.push(backupId);
+          }
+        }
+        if (result.pruned.length > 0) {
+          telemetry.incBackupsPruned(tenant.id, result.pruned.length);
+        }
+      }
+
+      const current = newest(scheduled);
+      if (current) {
+        telemetry.setBackupLastSuccess(tenant.id, current.createdAt);
+        this.tracked.add(tenant.id);
+      }
+    } catch (err) {
+      telemetry.incScheduledBackup(tenant.id, 'failure');
+      result.status = 'failed';
+      result.error = (err as Error).message;
+    }
+
+    return result;
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+function newest(backups: BackupMetadata[]): BackupMetadata | null {
+  let latest: BackupMetadata | null = null;
+  for (const backup of backups) {
+    if (!latest || backup.createdAt.getTime() > latest.createdAt.getTime()) {
+      latest = backup;
+    }
+  }
+  return latest;
+}
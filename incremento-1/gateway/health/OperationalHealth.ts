@@ -83,7 +83,11 @@ export const THRESHOLDS = {
 
   // Rate limit abuse
   RATE_LIMIT_ABUSE_WARN_PERCENT: 5,   // 5% - ALERT-006 warning
-  RATE_LIMIT_ABUSE_CRITICAL_PERCENT: 20 // 20% - ALERT-006 critical
+  RATE_LIMIT_ABUSE_CRITICAL_PERCENT: 20, // 20% - ALERT-006 critical
+
+  // Backup agendado (Inc 45), em intervalos do agendador
+  BACKUP_STALE_WARN_INTERVALS: 2,     // 2 intervalos sem backup/execucao - ALERT-009 warning
+  BACKUP_STALE_CRITICAL_INTERVALS: 4  // 4 intervalos - ALERT-009 critical
 };
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -325,6 +329,97 @@ function checkRateLimitAbuse(): HealthCheck {
   };
 }
 
+/**
+ * Intervalo do agendador de backups em segundos (0 = desativado)
+ */
+function backupSchedulerIntervalSeconds(): number {
+  const gauge = getTelemetryRegistry().getGauge(METRIC_NAMES.BACKUP_SCHEDULER_INTERVAL_SECONDS);
+  return gauge?.getValues()[0]?.value || 0;
+}
+
+/**
+ * Severidade de uma idade medida em intervalos do agendador
+ */
+function backupStaleness(ageSeconds: number, intervalSeconds: number): CheckSeverity {
+  const intervals = ageSeconds / intervalSeconds;
+  if (intervals >= THRESHOLDS.BACKUP_STALE_CRITICAL_INTERVALS) return 'CRITICAL';
+  if (intervals >= THRESHOLDS.BACKUP_STALE_WARN_INTERVALS) return 'WARN';
+  return 'OK';
+}
+
+/**
+ * Check do agendador de backups (Inc 45): execucoes em dia e tenants sem falha
+ */
+function checkBackupScheduler(): HealthCheck {
+  const registry = getTelemetryRegistry();
+  const intervalSeconds = backupSchedulerIntervalSeconds();
+  const base = { name: 'backup_scheduler', sloRef: 'SLO-009', alertRef: 'ALERT-009' };
+
+  if (intervalSeconds <= 0) {
+    return { ...base, status: 'OK', value: 'disabled', message: 'Backup scheduler disabled' };
+  }
+
+  const lastRun = registry.getGauge(METRIC_NAMES.BACKUP_SCHEDULER_LAST_RUN_TIMESTAMP)?.getValues()[0]?.value;
+  if (lastRun === undefined) {
+    return { ...base, status: 'OK', value: 'starting', message: 'Backup scheduler has not completed a run yet' };
+  }
+
+  const ageSeconds = Math.max(0, Date.now() / 1000 - lastRun);
+  const failing = registry.getGauge(METRIC_NAMES.BACKUP_SCHEDULER_FAILING_TENANTS)?.getValues()[0]?.value || 0;
+  const status = backupStaleness(ageSeconds, intervalSeconds);
+
+  if (status === 'OK' && failing > 0) {
+    return { ...base, status: 'WARN', value: failing, threshold: 0, message: `Scheduled backup failing for ${failing} tenant(s)` };
+  }
+
+  return {
+    ...base,
+    status,
+    value: Math.round(ageSeconds),
+    threshold: status === 'CRITICAL'
+      ? intervalSeconds * THRESHOLDS.BACKUP_STALE_CRITICAL_INTERVALS
+      : status === 'WARN' ? intervalSeconds * THRESHOLDS.BACKUP_STALE_WARN_INTERVALS : undefined,
+    message: status === 'OK'
+      ? `Backup scheduler last run ${formatUptime(ageSeconds)} ago`
+      : `Backup scheduler stalled: last run ${formatUptime(ageSeconds)} ago`
+  };
+}
+
+/**
+ * Check do backup agendado mais antigo entre os tenants (Inc 45)
+ */
+function checkBackupLastSuccess(): HealthCheck {
+  const registry = getTelemetryRegistry();
+  const intervalSeconds = backupSchedulerIntervalSeconds();
+  const base = { name: 'backup_last_success', sloRef: 'SLO-009', alertRef: 'ALERT-009' };
+
+  if (intervalSeconds <= 0) {
+    return { ...base, status: 'OK', value: 'disabled', message: 'Backup scheduler disabled' };
+  }
+
+  const values = registry.getGauge(METRIC_NAMES.BACKUP_LAST_SUCCESS_TIMESTAMP)?.getValues() || [];
+  if (values.length === 0) {
+    return { ...base, status: 'OK', value: 'none', message: 'No scheduled backups recorded yet' };
+  }
+
+  const oldest = values.reduce((a, b) => (b.value < a.value ? b : a));
+  const ageSeconds = Math.max(0, Date.now() / 1000 - oldest.value);
+  const status = backupStaleness(ageSeconds, intervalSeconds);
+  const message = status === 'OK'
+    ? `Oldest latest backup: ${formatUptime(ageSeconds)} (tenant ${oldest.labels.tenant_id})`
+    : `Scheduled backup overdue for tenant ${oldest.labels.tenant_id}: ${formatUptime(ageSeconds)}`;
+
+  return {
+    ...base,
+    status,
+    value: Math.round(ageSeconds),
+    threshold: status === 'CRITICAL'
+      ? intervalSeconds * THRESHOLDS.BACKUP_STALE_CRITICAL_INTERVALS
+      : status === 'WARN' ? intervalSeconds * THRESHOLDS.BACKUP_STALE_WARN_INTERVALS : undefined,
+    message
+  };
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // UTILITY FUNCTIONS
 // ════════════════════════════════════════════════════════════════════════════
@@ -389,7 +484,9 @@ export function assessOperationalHealth(): OperationalHealthResponse {
     checkErrorRate(),
     checkAuthFailures(),
     checkTenantConflicts(),
-    checkRateLimitAbuse()
+    checkRateLimitAbuse(),
+    checkBackupScheduler(),
+    checkBackupLastSuccess()
   ];
 
   // Calcular summary
@@ -7,7 +7,10 @@
  */
 
 // Config
-export { GatewayConfig, loadConfig, validateConfig, DEFAULT_CONFIG } from './GatewayConfig';
+export { GatewayConfig, BackupScheduleConfig, loadConfig, validateConfig, DEFAULT_CONFIG } from './GatewayConfig';
+
+// Backup agendado (Inc 45)
+export { BackupScheduler, BackupSchedulerRun, ScheduledBackupResult } from './backup/BackupScheduler';
 
 // App factory
 export { buildApp, getAppContext, AppContext, BuildAppOptions } from './app';
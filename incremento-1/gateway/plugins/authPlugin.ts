@@ -11,6 +11,10 @@
  * REGRAS:
  * - /admin/tenants (CRUD global): requer global_admin
  * - /admin/tenants/:id/* (audit, metrics, keys): requer tenant_admin OU global_admin
+ * - restore efetivo e confirmacao de DR do tenant (Inc 44): requer global_admin
+ * - rewrap dos backups cifrados do tenant (Inc 47): requer global_admin
+ * - instalar/remover regras da Camada Fechada do tenant (Inc 48): requer global_admin
+ *   (rotas destrutivas conferidas pelo padrao da rota, nao pelo path bruto)
  * - /api/v1/*: requer public (ou superior) do tenant identificado
  */
 
@@ -105,10 +109,30 @@ function extractTenantIdFromAdminPath(url: string): string | null {
   return null;
 }
 
+/**
+ * Rotas por-tenant que exigem global_admin, pelo padrao registrado
+ * (request.routeOptions.url) e metodo. O padrao nao depende da forma do
+ * path recebido: request.url chega sem decodificar (ex.: .../%72estore) e o
+ * roteamento do Fastify decodifica antes de escolher o handler.
+ *
+ * Inc 44: restore efetivo e confirmacao de procedimento DR
+ * Inc 47: rewrap dos backups cifrados (chave mestra e global)
+ * Inc 48: instalar/remover regras da Camada Fechada (regras de bloqueio de
+ *         tenants regulados nao sao alteradas pelo proprio tenant)
+ */
+const GLOBAL_ADMIN_TENANT_ROUTES: Record<string, string[]> = {
+  '/admin/tenants/:id/backups/:backupId/restore': ['POST'],
+  '/admin/tenants/:id/dr/procedures/:procedureId/confirm': ['POST'],
+  '/admin/tenants/:id/backups/rewrap': ['POST'],
+  '/admin/tenants/:id/closed-layer/rule-set': ['PUT', 'DELETE']
+};
+
 /**
  * Verifica se a rota e uma operacao global (CRUD de tenants)
+ *
+ * @param routeUrl - Padrao da rota encontrada (undefined se nenhuma)
  */
-function isGlobalAdminRoute(url: string, method: string): boolean {
+function isGlobalAdminRoute(url: string, method: string, routeUrl?: string): boolean {
   // POST /admin/tenants (criar tenant) - global
   if (url === '/admin/tenants' && method === 'POST') {
     return true;
@@ -135,6 +159,14 @@ function isGlobalAdminRoute(url: string, method: string): boolean {
     return true;
   }
 
+  // Inc 44: passos destrutivos de backup/DR do tenant (restore efetivo e
+  // confirmacao de procedimento DR) - global
+  // Inc 47: rewrap dos backups cifrados - global
+  // Inc 48: instalar ou remover regras da Camada Fechada do tenant - global
+  if (routeUrl !== undefined && GLOBAL_ADMIN_TENANT_ROUTES[routeUrl]?.includes(method)) {
+    return true;
+  }
+
   return false;
 }
 
@@ -284,7 +316,7 @@ const authPluginImpl: FastifyPluginAsync<AuthPluginOptions> = async (app, opts)
       }
 
       // 2. Se e rota global, requer global_admin (e nao encontrou)
-      if (isGlobalAdminRoute(url, method)) {
+      if (isGlobalAdminRoute(url, method, request.routeOptions.url)) {
         request.log.warn({ ip: request.ip }, 'Invalid global admin token attempt');
         return reply.code(403).send({
           error: 'Forbidden',
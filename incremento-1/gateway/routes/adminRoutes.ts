@@ -5,9 +5,28 @@
  * Todas as rotas requerem autenticacao via adminToken.
  */
 
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
 import { TenantAdminAPI } from '../../tenant/TenantAdminAPI';
-import { TenantRegistrationInput, TenantUpdateInput, TenantRole } from '../../tenant/TenantConfig';
+import {
+  TenantRegistrationInput,
+  TenantUpdateInput,
+  TenantRole,
+  WebhookCreateInput,
+  WebhookUpdateInput
+} from '../../tenant/TenantConfig';
+import { WebhookDeliveryStatus } from '../../camada-3/webhooks/WebhookTypes';
+import { AutonomyMandate, AutonomyMode } from '../../camada-3/autonomy/AutonomyTypes';
+import { validateMandateConditions } from '../../camada-3/autonomy/MandateConditions';
+import {
+  isValidMandateTemplateId,
+  validateMandateTemplateSpec,
+  MAX_MANDATE_TEMPLATE_AGENTS
+} from '../../camada-3/autonomy/MandateTemplate';
+import { AggregationPolicy } from '../../camada-3/multiagente/MultiAgentTypes';
+import { PerfilRisco } from '../../camada-3/entidades/tipos';
+import { ReviewResolution, ReviewEffect, REVIEW_RULE } from '../../camada-3/review';
+import { ALL_BACKUP_ENTITIES, BackupEntityType, DRProcedureType } from '../../camada-3/backup';
+import { validateClosedLayerRuleSet } from '../../camada-3/camada-fechada';
 import crypto from 'crypto';
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -57,6 +76,124 @@ interface RotateKeyBody {
   role: 'public' | 'tenant_admin';
 }
 
+interface WebhookIdParams {
+  id: string;
+  webhookId: string;
+}
+
+interface WebhookDeliveriesQuery {
+  status?: string;
+  limit?: string;
+}
+
+const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+/**
+ * INCREMENTO 41: mandatos de autonomia
+ */
+interface MandateIdParams {
+  id: string;
+  mandateId: string;
+}
+
+interface ActiveMandatesQuery {
+  agentId?: string;
+}
+
+interface RevokeMandateBody {
+  motivo?: string;
+}
+
+interface ResumeMandateBody {
+  motivo?: string;
+}
+
+/**
+ * INCREMENTO 52: modelos de mandato
+ */
+interface MandateTemplateParams {
+  id: string;
+  templateId: string;
+}
+
+interface MandateTemplateQuery {
+  version?: string;
+}
+
+/**
+ * INCREMENTO 42: revisao humana
+ */
+interface ReviewIdParams {
+  id: string;
+  reviewId: string;
+}
+
+interface ReviewVersionBody {
+  expectedVersion?: number;
+}
+
+interface ReviewNotesBody extends ReviewVersionBody {
+  notes?: string;
+}
+
+interface ResolveReviewBody extends ReviewVersionBody {
+  resolution?: ReviewResolution;
+  notes?: string;
+  effects?: ReviewEffect[];
+}
+
+const REVIEW_RESOLUTIONS: ReviewResolution[] = ['APPROVE', 'REJECT', 'NEEDS_MORE_INFO', 'NO_ACTION'];
+const REVIEW_EFFECTS: ReviewEffect[] = ['RESUME_MANDATE', 'REVOKE_MANDATE', 'KEEP_SUSPENDED', 'DEGRADE_MODE'];
+
+/**
+ * INCREMENTO 44: backup e disaster recovery
+ */
+interface BackupIdParams {
+  id: string;
+  backupId: string;
+}
+
+interface BackupJobIdParams {
+  id: string;
+  jobId: string;
+}
+
+interface ProcedureIdParams {
+  id: string;
+  procedureId: string;
+}
+
+interface CreateBackupBody {
+  includeEntities?: BackupEntityType[];
+  description?: string;
+  baseBackupId?: string;
+}
+
+interface RestoreBackupBody {
+  includeEntities?: BackupEntityType[];
+  verifyEventLogContinuity?: boolean;
+}
+
+interface StartProcedureBody {
+  type?: DRProcedureType;
+  backupId?: string;
+}
+
+const DR_PROCEDURE_TYPES: DRProcedureType[] = [
+  'total_node_loss',
+  'corruption_detection',
+  'old_snapshot_restore',
+  'controlled_rollback'
+];
+
+const AGGREGATION_POLICIES: AggregationPolicy[] = [
+  'FIRST_VALID',
+  'MAJORITY_BY_ALTERNATIVE',
+  'WEIGHTED_MAJORITY',
+  'REQUIRE_CONSENSUS',
+  'HUMAN_OVERRIDE_REQUIRED'
+];
+
 // ════════════════════════════════════════════════════════════════════════════
 // HELPERS
 // ════════════════════════════════════════════════════════════════════════════
@@ -68,6 +205,233 @@ function generateApiToken(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
+/**
+ * Ator registrado nas mutacoes administrativas.
+ * Em dev sem adminToken o authPlugin deixa passar sem authContext;
+ * nesse caso a acao fica atribuida a DEV_ADMIN_ACTOR.
+ */
+const DEV_ADMIN_ACTOR = 'dev-admin';
+
+function atorAdmin(request: FastifyRequest): string {
+  return request.authContext?.keyId ?? DEV_ADMIN_ACTOR;
+}
+
+/**
+ * INCREMENTO 41: Valida corpo de concessao de mandato
+ * concedido_por nao e aceito do corpo: vem da chave autenticada.
+ * INCREMENTO 51: limites podem ter condicao; requer_humano_se aceita
+ * textos e gatilhos { descricao, condicao }.
+ * @returns Lista de erros (vazia se valido)
+ */
+function validarMandato(body: unknown): string[] {
+  const erros: string[] = [];
+  const isObject = (v: unknown): v is Record<string, any> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+  const isText = (v: unknown): boolean => typeof v === 'string' && v.trim().length > 0;
+  const isTextList = (v: unknown): boolean => Array.isArray(v) && v.every(isText);
+  const isIsoDate = (v: unknown): boolean => typeof v === 'string' && !isNaN(Date.parse(v));
+
+  if (!isObject(body)) {
+    return ['body deve ser um objeto'];
+  }
+
+  if (!isText(body.agentId)) {
+    erros.push('agentId e obrigatorio');
+  }
+
+  if (!Object.values(AutonomyMode).includes(body.modo)) {
+    erros.push(`modo deve ser um de: ${Object.values(AutonomyMode).join(', ')}`);
+  }
+
+  const politicas = body.politicas_permitidas;
+  if (!Array.isArray(politicas) || politicas.length === 0) {
+    erros.push('politicas_permitidas deve ser lista nao vazia');
+  } else {
+    politicas.forEach((p: unknown, i: number) => {
+      if (!AGGREGATION_POLICIES.includes(p as AggregationPolicy)) {
+        erros.push(`politicas_permitidas[${i}] deve ser um de: ${AGGREGATION_POLICIES.join(', ')}`);
+      } else if (politicas.indexOf(p) !== i) {
+        erros.push(`politicas_permitidas[${i}] duplicada: ${p}`);
+      }
+    });
+  }
+
+  if (!Object.values(PerfilRisco).includes(body.perfil_risco_maximo)) {
+    erros.push(`perfil_risco_maximo deve ser um de: ${Object.values(PerfilRisco).join(', ')}`);
+  }
+
+  if (body.limites !== undefined && !(Array.isArray(body.limites) && body.limites.every(
+    (l: unknown) => isObject(l) && isText(l.tipo) && typeof l.descricao === 'string' && typeof l.valor === 'string'
+  ))) {
+    erros.push('limites deve ser lista de { tipo, descricao, valor }');
+  }
+  // Gatilhos estruturados sao verificados por validateMandateConditions
+  if (body.requer_humano_se !== undefined && !(Array.isArray(body.requer_humano_se) &&
+    body.requer_humano_se.every((g: unknown) => typeof g !== 'string' || isText(g)))) {
+    erros.push('requer_humano_se deve ser lista de textos ou { descricao, condicao }');
+  }
+  if (body.dominios_permitidos !== undefined && !isTextList(body.dominios_permitidos)) {
+    erros.push('dominios_permitidos deve ser lista de textos');
+  }
+  erros.push(...validateMandateConditions(body));
+  if (body.casos_uso_permitidos !== undefined && !(Array.isArray(body.casos_uso_permitidos) &&
+    body.casos_uso_permitidos.every((c: unknown) => Number.isInteger(c) && (c as number) > 0))) {
+    erros.push('casos_uso_permitidos deve ser lista de inteiros positivos');
+  }
+
+  if (body.validFrom !== undefined && !isIsoDate(body.validFrom)) {
+    erros.push('validFrom deve ser data ISO 8601');
+  }
+  if (body.validUntil !== undefined && !isIsoDate(body.validUntil)) {
+    erros.push('validUntil deve ser data ISO 8601');
+  }
+  if (isIsoDate(body.validFrom) && isIsoDate(body.validUntil) &&
+    Date.parse(body.validUntil) <= Date.parse(body.validFrom)) {
+    erros.push('validUntil deve ser posterior a validFrom');
+  }
+  if (body.maxUses !== undefined && !(Number.isInteger(body.maxUses) && body.maxUses > 0)) {
+    erros.push('maxUses deve ser inteiro positivo');
+  }
+
+  return erros;
+}
+
+/**
+ * INCREMENTO 42: Valida expectedVersion (inteiro >= 1)
+ * @returns Lista de erros (vazia se valido)
+ */
+function validarVersao(expectedVersion: unknown, obrigatoria: boolean): string[] {
+  if (expectedVersion === undefined) {
+    return obrigatoria ? ['expectedVersion e obrigatorio'] : [];
+  }
+  return Number.isInteger(expectedVersion) && (expectedVersion as number) >= 1
+    ? []
+    : ['expectedVersion deve ser inteiro positivo'];
+}
+
+/**
+ * INCREMENTO 42: Status HTTP para erro de revisao vindo do Core
+ */
+function reviewErrorStatus(code: string | undefined, message: string): number {
+  switch (code) {
+    case REVIEW_RULE.CASE_NOT_FOUND:
+      return 404;
+    case REVIEW_RULE.VERSION_CONFLICT:
+    case REVIEW_RULE.CLAIMED:
+    case REVIEW_RULE.INVALID_TRANSITION:
+      return 409;
+    default:
+      return /nao encontrado/.test(message) ? 404 : 400;
+  }
+}
+
+/**
+ * INCREMENTO 44: Valida lista de entidades de backup (opcional, sem repeticao)
+ * @returns Lista de erros (vazia se valido)
+ */
+function validarEntidadesBackup(includeEntities: unknown): string[] {
+  if (includeEntities === undefined) {
+    return [];
+  }
+  if (!Array.isArray(includeEntities) || includeEntities.length === 0) {
+    return ['includeEntities deve ser lista nao vazia'];
+  }
+
+  const erros: string[] = [];
+  includeEntities.forEach((entity: unknown, i: number) => {
+    if (!ALL_BACKUP_ENTITIES.includes(entity as BackupEntityType)) {
+      erros.push(`includeEntities[${i}] deve ser um de: ${ALL_BACKUP_ENTITIES.join(', ')}`);
+    } else if (includeEntities.indexOf(entity) !== i) {
+      erros.push(`includeEntities[${i}] duplicada: ${entity}`);
+    }
+  });
+  return erros;
+}
+
+/**
+ * INCREMENTO 44: Status HTTP para erro de backup/DR vindo do Core
+ */
+function backupErrorStatus(code: string | undefined, message: string): number {
+  switch (code) {
+    case 'BACKUP_NOT_FOUND':
+    case 'DR_PROCEDURE_NOT_FOUND':
+      return 404;
+    case 'DR_PROCEDURE_INVALID_STATE':
+      return 409;
+    case 'BACKUP_CONFIG_MISSING':
+    case 'BACKUP_ENCRYPTION_ERROR':
+      return 503;
+    default:
+      return /nao encontrado/.test(message) ? 404 : 400;
+  }
+}
+
+/**
+ * INCREMENTO 52: Valida corpo de concessao de mandatos por modelo
+ * @returns Lista de erros (vazia se valido)
+ */
+function validarConcessaoPorModelo(body: unknown): string[] {
+  const isText = (v: unknown): boolean => typeof v === 'string' && v.trim().length > 0;
+  const isIsoDate = (v: unknown): boolean => typeof v === 'string' && !isNaN(Date.parse(v));
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return ['body deve ser um objeto'];
+  }
+
+  const erros: string[] = [];
+  const { agentIds, version, validFrom, validUntil, maxUses } = body as Record<string, any>;
+
+  if (!Array.isArray(agentIds) || agentIds.length === 0) {
+    erros.push('agentIds deve ser lista nao vazia');
+  } else if (agentIds.length > MAX_MANDATE_TEMPLATE_AGENTS) {
+    erros.push(`agentIds: maximo de ${MAX_MANDATE_TEMPLATE_AGENTS} agentes por concessao`);
+  } else {
+    agentIds.forEach((agentId: unknown, i: number) => {
+      if (!isText(agentId)) {
+        erros.push(`agentIds[${i}] deve ser texto nao vazio`);
+      } else if (agentIds.indexOf(agentId) !== i) {
+        erros.push(`agentIds[${i}] duplicado: ${agentId}`);
+      }
+    });
+  }
+
+  if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+    erros.push('version deve ser inteiro positivo');
+  }
+  if (validFrom !== undefined && !isIsoDate(validFrom)) {
+    erros.push('validFrom deve ser data ISO 8601');
+  }
+  if (validUntil !== undefined && !isIsoDate(validUntil)) {
+    erros.push('validUntil deve ser data ISO 8601');
+  }
+  if (isIsoDate(validFrom) && isIsoDate(validUntil) && Date.parse(validUntil) <= Date.parse(validFrom)) {
+    erros.push('validUntil deve ser posterior a validFrom');
+  }
+  if (maxUses !== undefined && !(Number.isInteger(maxUses) && maxUses > 0)) {
+    erros.push('maxUses deve ser inteiro positivo');
+  }
+
+  return erros;
+}
+
+/**
+ * INCREMENTO 52: Status HTTP para erro de modelo de mandato vindo do Core
+ */
+function templateErrorStatus(message: string): number {
+  if (/n[aã]o encontrad/.test(message)) return 404;
+  if (/j[aá] existe|Vers[aã]o esperada/.test(message)) return 409;
+  return 400;
+}
+
+/**
+ * INCREMENTO 41: Status HTTP para erro de mandato vindo do Core
+ */
+function mandateErrorStatus(message: string): number {
+  if (/n[aã]o encontrad/.test(message)) return 404;
+  if (/revogado|expirado/.test(message)) return 409;
+  return 400;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // PLUGIN
 // ════════════════════════════════════════════════════════════════════════════
@@ -328,6 +692,78 @@ export const adminRoutes: FastifyPluginAsync = async (app) => {
     }
   );
 
+  /**
+   * GET /admin/tenants/:id/audit/witness
+   * INCREMENTO 32: Checkpoints assinados + chaves publicas
+   */
+  app.get<{ Params: TenantIdParams }>(
+    '/tenants/:id/audit/witness',
+    async (request, reply) => {
+      const { id } = request.params;
+      const result = await app.adminApi.exportWitnessBundle(id);
+
+      if (!result.success) {
+        return reply.code(404).send({ error: result.error });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/audit/merkle-roots
+   * INCREMENTO 33: Raizes de Merkle dos segmentos fechados
+   */
+  app.get<{ Params: TenantIdParams }>(
+    '/tenants/:id/audit/merkle-roots',
+    async (request, reply) => {
+      const { id } = request.params;
+      const result = await app.adminApi.listSegmentRoots(id);
+
+      if (!result.success) {
+        return reply.code(404).send({ error: result.error });
+      }
+
+      return { roots: result.data, count: result.data?.length ?? 0 };
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/audit/proof/:eventId
+   * INCREMENTO 33: Prova de inclusao de um evento
+   */
+  app.get<{ Params: TenantIdParams & { eventId: string } }>(
+    '/tenants/:id/audit/proof/:eventId',
+    async (request, reply) => {
+      const { id, eventId } = request.params;
+      const result = await app.adminApi.getInclusionProof(id, eventId);
+
+      if (!result.success) {
+        return reply.code(404).send({ error: result.error });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/audit/projection
+   * INCREMENTO 35: Estado reconstruido do EventLog vs. repositorios
+   */
+  app.get<{ Params: TenantIdParams }>(
+    '/tenants/:id/audit/projection',
+    async (request, reply) => {
+      const { id } = request.params;
+      const result = await app.adminApi.verifyProjection(id);
+
+      if (!result.success) {
+        return reply.code(404).send({ error: result.error });
+      }
+
+      return result.data;
+    }
+  );
+
   /**
    * GET /admin/tenants/:id/events
    * Lista eventos do tenant
@@ -474,6 +910,1011 @@ export const adminRoutes: FastifyPluginAsync = async (app) => {
     }
   );
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // WEBHOOKS (INCREMENTO 37)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * POST /admin/tenants/:id/webhooks
+   * INCREMENTO 37: Cria assinatura de webhook (segredo HMAC retornado uma vez)
+   * Requer: global_admin OU tenant_admin do mesmo tenant
+   */
+  app.post<{ Params: TenantIdParams; Body: WebhookCreateInput }>(
+    '/tenants/:id/webhooks',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      try {
+        const result = await app.registry.createTenantWebhook(id, request.body ?? {});
+
+        return reply.code(201).send({
+          webhook: result.webhook,
+          secret: result.secret, // Retornado APENAS UMA VEZ
+          warning: 'Save this secret now. It will not be shown again.'
+        });
+      } catch (err: any) {
+        if (err.message?.includes('nao encontrado')) {
+          return reply.code(404).send({ error: 'Tenant not found' });
+        }
+        return reply.code(400).send({ error: err.message });
+      }
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/webhooks
+   * INCREMENTO 37: Lista assinaturas de webhook (sem segredos)
+   */
+  app.get<{ Params: TenantIdParams }>(
+    '/tenants/:id/webhooks',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      try {
+        const webhooks = app.registry.listTenantWebhooks(id);
+        return { webhooks, count: webhooks.length };
+      } catch (err: any) {
+        if (err.message?.includes('nao encontrado')) {
+          return reply.code(404).send({ error: 'Tenant not found' });
+        }
+        return reply.code(400).send({ error: err.message });
+      }
+    }
+  );
+
+  /**
+   * PATCH /admin/tenants/:id/webhooks/:webhookId
+   * INCREMENTO 37: Atualiza URL, eventos, status ou descricao
+   */
+  app.patch<{ Params: WebhookIdParams; Body: WebhookUpdateInput }>(
+    '/tenants/:id/webhooks/:webhookId',
+    async (request, reply) => {
+      const { id, webhookId } = request.params;
+
+      try {
+        return await app.registry.updateTenantWebhook(id, webhookId, request.body ?? {});
+      } catch (err: any) {
+        if (err.message?.includes('nao encontrado')) {
+          return reply.code(404).send({ error: err.message });
+        }
+        return reply.code(400).send({ error: err.message });
+      }
+    }
+  );
+
+  /**
+   * DELETE /admin/tenants/:id/webhooks/:webhookId
+   * INCREMENTO 37: Remove assinatura (entregas pendentes passam a failed)
+   */
+  app.delete<{ Params: WebhookIdParams }>(
+    '/tenants/:id/webhooks/:webhookId',
+    async (request, reply) => {
+      const { id, webhookId } = request.params;
+
+      try {
+        await app.registry.removeTenantWebhook(id, webhookId);
+        return { success: true, message: `Webhook ${webhookId} removed` };
+      } catch (err: any) {
+        if (err.message?.includes('nao encontrado')) {
+          return reply.code(404).send({ error: err.message });
+        }
+        return reply.code(400).send({ error: err.message });
+      }
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/webhooks/:webhookId/rotate-secret
+   * INCREMENTO 37: Gera novo segredo HMAC (o anterior deixa de valer)
+   */
+  app.post<{ Params: WebhookIdParams }>(
+    '/tenants/:id/webhooks/:webhookId/rotate-secret',
+    async (request, reply) => {
+      const { id, webhookId } = request.params;
+
+      try {
+        const result = await app.registry.rotateTenantWebhookSecret(id, webhookId);
+
+        return {
+          webhook: result.webhook,
+          secret: result.secret, // Retornado APENAS UMA VEZ
+          warning: 'Save this secret now. It will not be shown again.'
+        };
+      } catch (err: any) {
+        if (err.message?.includes('nao encontrado')) {
+          return reply.code(404).send({ error: err.message });
+        }
+        return reply.code(400).send({ error: err.message });
+      }
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/webhooks/:webhookId/deliveries
+   * INCREMENTO 37: Entregas do outbox (mais recentes primeiro)
+   */
+  app.get<{ Params: WebhookIdParams; Querystring: WebhookDeliveriesQuery }>(
+    '/tenants/:id/webhooks/:webhookId/deliveries',
+    async (request, reply) => {
+      const { id, webhookId } = request.params;
+      const { status, limit } = request.query;
+
+      if (status !== undefined && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+        return reply.code(400).send({
+          error: 'Invalid status',
+          message: `Status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`
+        });
+      }
+
+      const parsedLimit = limit !== undefined ? parseInt(limit, 10) : undefined;
+      if (parsedLimit !== undefined && (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 500)) {
+        return reply.code(400).send({ error: 'Invalid limit', message: 'Limit must be between 1 and 500' });
+      }
+
+      try {
+        if (!app.registry.listTenantWebhooks(id).some(w => w.webhookId === webhookId)) {
+          return reply.code(404).send({ error: `Webhook nao encontrado: ${webhookId}` });
+        }
+      } catch (err: any) {
+        return reply.code(404).send({ error: err.message });
+      }
+
+      const result = await app.adminApi.listWebhookDeliveries(id, {
+        webhookId,
+        status: status as WebhookDeliveryStatus | undefined,
+        limit: parsedLimit
+      });
+
+      if (!result.success) {
+        return reply.code(404).send({ error: result.error });
+      }
+
+      return { deliveries: result.data, count: result.data?.length ?? 0 };
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // REGRAS DA CAMADA FECHADA (INCREMENTO 48)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * GET /admin/tenants/:id/closed-layer/rule-set
+   * INCREMENTO 48: Conjunto de regras do tenant (null = apenas embutidas)
+   */
+  app.get<{ Params: TenantIdParams }>(
+    '/tenants/:id/closed-layer/rule-set',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      try {
+        return { ruleSet: app.registry.getClosedLayerRuleSet(id) };
+      } catch (err: any) {
+        if (err.message?.includes('nao encontrado')) {
+          return reply.code(404).send({ error: 'Tenant not found' });
+        }
+        return reply.code(400).send({ error: err.message });
+      }
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/closed-layer/rule-set/validate
+   * INCREMENTO 48: Valida um conjunto de regras sem instalar
+   */
+  app.post<{ Params: TenantIdParams; Body: unknown }>(
+    '/tenants/:id/closed-layer/rule-set/validate',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      if (!app.registry.get(id)) {
+        return reply.code(404).send({ error: 'Tenant not found' });
+      }
+
+      const validation = validateClosedLayerRuleSet(request.body);
+      return { valid: validation.valid, errors: validation.errors };
+    }
+  );
+
+  /**
+   * PUT /admin/tenants/:id/closed-layer/rule-set
+   * INCREMENTO 48: Instala ou substitui o conjunto (versao deve avancar)
+   * Requer: global_admin
+   */
+  app.put<{ Params: TenantIdParams; Body: unknown }>(
+    '/tenants/:id/closed-layer/rule-set',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const validation = validateClosedLayerRuleSet(request.body);
+      if (!validation.valid) {
+        return reply.code(400).send({
+          error: 'Invalid rule set',
+          code: 'INVALID_RULE_SET',
+          errors: validation.errors
+        });
+      }
+
+      try {
+        const ruleSet = await app.registry.setClosedLayerRuleSet(id, request.body);
+        return { ruleSet };
+      } catch (err: any) {
+        if (err.message?.includes('nao encontrado')) {
+          return reply.code(404).send({ error: 'Tenant not found' });
+        }
+        if (err.message?.includes('deve ser maior')) {
+          return reply.code(409).send({ error: err.message, code: 'RULE_SET_VERSION_CONFLICT' });
+        }
+        return reply.code(400).send({ error: err.message });
+      }
+    }
+  );
+
+  /**
+   * DELETE /admin/tenants/:id/closed-layer/rule-set
+   * INCREMENTO 48: Remove o conjunto; tenant volta a usar apenas as embutidas
+   * Requer: global_admin
+   */
+  app.delete<{ Params: TenantIdParams }>(
+    '/tenants/:id/closed-layer/rule-set',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      try {
+        await app.registry.removeClosedLayerRuleSet(id);
+        return { success: true, message: `Closed Layer rule set removed from ${id}` };
+      } catch (err: any) {
+        if (err.message?.includes('nao encontrado')) {
+          return reply.code(404).send({ error: err.message });
+        }
+        return reply.code(400).send({ error: err.message });
+      }
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // MANDATOS DE AUTONOMIA (INCREMENTO 41)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * POST /admin/tenants/:id/mandates
+   * INCREMENTO 41: Concede mandato; concedido_por = keyId da chave autenticada
+   * Requer: global_admin OU tenant_admin do mesmo tenant
+   */
+  app.post<{ Params: TenantIdParams; Body: Record<string, any> }>(
+    '/tenants/:id/mandates',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const erros = validarMandato(request.body);
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid mandate', details: erros });
+      }
+
+      const body = request.body;
+      const mandate: AutonomyMandate = {
+        id: `mandate-${crypto.randomUUID()}`,
+        agentId: body.agentId,
+        modo: body.modo,
+        politicas_permitidas: body.politicas_permitidas,
+        perfil_risco_maximo: body.perfil_risco_maximo,
+        limites: body.limites ?? [],
+        requer_humano_se: body.requer_humano_se ?? [],
+        dominios_permitidos: body.dominios_permitidos,
+        casos_uso_permitidos: body.casos_uso_permitidos,
+        concedido_por: atorAdmin(request),
+        concedido_em: new Date(),
+        revogado: false,
+        validFrom: body.validFrom,
+        validUntil: body.validUntil,
+        maxUses: body.maxUses,
+        uses: 0,
+        status: 'active'
+      };
+
+      const result = await app.adminApi.grantMandate(id, mandate);
+      if (!result.success) {
+        return reply.code(mandateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return reply.code(201).send(result.data);
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/mandates/active
+   * INCREMENTO 41: Mandato ativo de cada agente (?agentId= filtra um agente)
+   */
+  app.get<{ Params: TenantIdParams; Querystring: ActiveMandatesQuery }>(
+    '/tenants/:id/mandates/active',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const result = await app.adminApi.listActiveMandates(id, request.query.agentId);
+      if (!result.success) {
+        return reply.code(mandateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return { mandates: result.data, count: result.data?.length ?? 0 };
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/mandates/:mandateId/revoke
+   * INCREMENTO 41: Revoga mandato; revogado_por = keyId, motivo obrigatorio
+   */
+  app.post<{ Params: MandateIdParams; Body: RevokeMandateBody }>(
+    '/tenants/:id/mandates/:mandateId/revoke',
+    async (request, reply) => {
+      const { id, mandateId } = request.params;
+      const motivo = request.body?.motivo;
+
+      if (typeof motivo !== 'string' || motivo.trim().length === 0) {
+        return reply.code(400).send({ error: 'Invalid revocation', details: ['motivo e obrigatorio'] });
+      }
+
+      const result = await app.adminApi.revokeMandate(id, mandateId, atorAdmin(request), motivo);
+      if (!result.success) {
+        return reply.code(mandateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/mandates/:mandateId/resume
+   * INCREMENTO 41: Retoma mandato suspenso por consequencia (Inc 19)
+   */
+  app.post<{ Params: MandateIdParams; Body: ResumeMandateBody }>(
+    '/tenants/:id/mandates/:mandateId/resume',
+    async (request, reply) => {
+      const { id, mandateId } = request.params;
+      const motivo = request.body?.motivo;
+
+      if (motivo !== undefined && typeof motivo !== 'string') {
+        return reply.code(400).send({ error: 'Invalid resume', details: ['motivo deve ser texto'] });
+      }
+
+      const result = await app.adminApi.resumeMandate(id, mandateId, atorAdmin(request), motivo);
+      if (!result.success) {
+        return reply.code(mandateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return result.data;
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // MODELOS DE MANDATO (INCREMENTO 52)
+  // ══════════════════════════════════════════════════════════════════════════
+  // Alterar um modelo cria nova versao e nunca altera mandatos vigentes:
+  // a passagem para a nova versao e a reconcessao explicita (/regrant).
+
+  /**
+   * POST /admin/tenants/:id/mandate-templates
+   * INCREMENTO 52: Cria modelo (versao 1); criado_por = keyId
+   */
+  app.post<{ Params: TenantIdParams; Body: Record<string, any> }>(
+    '/tenants/:id/mandate-templates',
+    async (request, reply) => {
+      const { id } = request.params;
+      const { templateId, ...spec } = request.body ?? {};
+
+      const erros: string[] = [];
+      if (!isValidMandateTemplateId(templateId)) {
+        erros.push('templateId: use minusculas, digitos, ".", "_" e "-" (ate 64 caracteres)');
+      }
+      erros.push(...validateMandateTemplateSpec(spec).errors);
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid mandate template', details: erros });
+      }
+
+      const result = await app.adminApi.createMandateTemplate(id, templateId, spec, atorAdmin(request));
+      if (!result.success) {
+        return reply.code(templateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return reply.code(201).send(result.data);
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/mandate-templates
+   * INCREMENTO 52: Versao mais recente de cada modelo
+   */
+  app.get<{ Params: TenantIdParams }>(
+    '/tenants/:id/mandate-templates',
+    async (request, reply) => {
+      const result = await app.adminApi.listMandateTemplates(request.params.id);
+      if (!result.success) {
+        return reply.code(templateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return { templates: result.data, count: result.data?.length ?? 0 };
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/mandate-templates/:templateId
+   * INCREMENTO 52: Versao do modelo (?version=, default a mais recente)
+   */
+  app.get<{ Params: MandateTemplateParams; Querystring: MandateTemplateQuery }>(
+    '/tenants/:id/mandate-templates/:templateId',
+    async (request, reply) => {
+      const { id, templateId } = request.params;
+
+      let version: number | undefined;
+      if (request.query.version !== undefined) {
+        version = Number(request.query.version);
+        if (!Number.isInteger(version) || version < 1) {
+          return reply.code(400).send({ error: 'Invalid query', details: ['version deve ser inteiro positivo'] });
+        }
+      }
+
+      const result = await app.adminApi.getMandateTemplate(id, templateId, version);
+      if (!result.success) {
+        return reply.code(templateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * PUT /admin/tenants/:id/mandate-templates/:templateId
+   * INCREMENTO 52: Nova versao do modelo; devolve diff e mandatos desatualizados
+   */
+  app.put<{ Params: MandateTemplateParams; Body: Record<string, any> }>(
+    '/tenants/:id/mandate-templates/:templateId',
+    async (request, reply) => {
+      const { id, templateId } = request.params;
+      const { expectedVersion, ...spec } = request.body ?? {};
+
+      const erros = [...validarVersao(expectedVersion, true), ...validateMandateTemplateSpec(spec).errors];
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid mandate template', details: erros });
+      }
+
+      const result = await app.adminApi.updateMandateTemplate(
+        id, templateId, spec, expectedVersion, atorAdmin(request)
+      );
+      if (!result.success) {
+        return reply.code(templateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/mandate-templates/:templateId/grants
+   * INCREMENTO 52: Concede mandatos a varios agentes; concedido_por = keyId
+   */
+  app.post<{ Params: MandateTemplateParams; Body: Record<string, any> }>(
+    '/tenants/:id/mandate-templates/:templateId/grants',
+    async (request, reply) => {
+      const { id, templateId } = request.params;
+
+      const erros = validarConcessaoPorModelo(request.body);
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid mandate grant', details: erros });
+      }
+
+      const { agentIds, version, validFrom, validUntil, maxUses } = request.body;
+      const result = await app.adminApi.grantMandatesFromTemplate(
+        id,
+        templateId,
+        { agentIds, version, validFrom, validUntil, maxUses },
+        atorAdmin(request)
+      );
+      if (!result.success) {
+        return reply.code(templateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return reply.code(201).send({ ...result.data, count: result.data!.mandates.length });
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/mandate-templates/:templateId/regrant
+   * INCREMENTO 52: Plano de reconcessao (mandatos desatualizados e diff); nao altera nada
+   */
+  app.get<{ Params: MandateTemplateParams }>(
+    '/tenants/:id/mandate-templates/:templateId/regrant',
+    async (request, reply) => {
+      const { id, templateId } = request.params;
+
+      const result = await app.adminApi.planMandateTemplateRegrant(id, templateId);
+      if (!result.success) {
+        return reply.code(templateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/mandate-templates/:templateId/regrant
+   * INCREMENTO 52: Reconcede a versao atual (expectedVersion obrigatorio)
+   */
+  app.post<{ Params: MandateTemplateParams; Body: Record<string, any> }>(
+    '/tenants/:id/mandate-templates/:templateId/regrant',
+    async (request, reply) => {
+      const { id, templateId } = request.params;
+      const { expectedVersion, mandateIds } = request.body ?? {};
+
+      const erros = validarVersao(expectedVersion, true);
+      if (mandateIds !== undefined && !(Array.isArray(mandateIds) && mandateIds.length > 0 &&
+        mandateIds.every((m: unknown) => typeof m === 'string' && m.length > 0))) {
+        erros.push('mandateIds deve ser lista nao vazia de textos');
+      }
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid regrant', details: erros });
+      }
+
+      const result = await app.adminApi.regrantMandateTemplate(
+        id, templateId, { expectedVersion, mandateIds }, atorAdmin(request)
+      );
+      if (!result.success) {
+        return reply.code(templateErrorStatus(result.error!)).send({ error: result.error });
+      }
+
+      return result.data;
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // REVISAO HUMANA (INCREMENTO 42)
+  // ══════════════════════════════════════════════════════════════════════════
+  // O revisor e o keyId da chave autenticada (decidedBy/dismissedBy/claimedBy).
+  // expectedVersion e a versao lida em /admin/query/:tenantId/reviews/:reviewId.
+
+  /**
+   * POST /admin/tenants/:id/reviews/:reviewId/claim
+   * INCREMENTO 42: Revisor assume o caso
+   */
+  app.post<{ Params: ReviewIdParams; Body: ReviewVersionBody }>(
+    '/tenants/:id/reviews/:reviewId/claim',
+    async (request, reply) => {
+      const { id, reviewId } = request.params;
+      const expectedVersion = request.body?.expectedVersion;
+
+      const erros = validarVersao(expectedVersion, false);
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid claim', details: erros });
+      }
+
+      const result = await app.adminApi.claimReviewCase(id, reviewId, atorAdmin(request), expectedVersion);
+      if (!result.success) {
+        return reply.code(reviewErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return { reviewCase: result.data };
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/reviews/:reviewId/release
+   * INCREMENTO 42: Revisor devolve o caso a fila
+   */
+  app.post<{ Params: ReviewIdParams; Body: ReviewVersionBody }>(
+    '/tenants/:id/reviews/:reviewId/release',
+    async (request, reply) => {
+      const { id, reviewId } = request.params;
+      const expectedVersion = request.body?.expectedVersion;
+
+      const erros = validarVersao(expectedVersion, false);
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid release', details: erros });
+      }
+
+      const result = await app.adminApi.releaseReviewCase(id, reviewId, atorAdmin(request), expectedVersion);
+      if (!result.success) {
+        return reply.code(reviewErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return { reviewCase: result.data };
+    }
+  );
+
+  /**
+   * PUT /admin/tenants/:id/reviews/:reviewId/notes
+   * INCREMENTO 42: Substitui as notas do caso
+   */
+  app.put<{ Params: ReviewIdParams; Body: ReviewNotesBody }>(
+    '/tenants/:id/reviews/:reviewId/notes',
+    async (request, reply) => {
+      const { id, reviewId } = request.params;
+      const { notes, expectedVersion } = request.body ?? {};
+
+      const erros = validarVersao(expectedVersion, false);
+      if (typeof notes !== 'string' || notes.trim().length === 0) {
+        erros.push('notes e obrigatorio');
+      }
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid notes', details: erros });
+      }
+
+      const result = await app.adminApi.updateReviewNotes(
+        id, reviewId, notes!, atorAdmin(request), expectedVersion
+      );
+      if (!result.success) {
+        return reply.code(reviewErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return { reviewCase: result.data };
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/reviews/:reviewId/resolve
+   * INCREMENTO 42: Resolve o caso e aplica os efeitos (expectedVersion obrigatorio)
+   */
+  app.post<{ Params: ReviewIdParams; Body: ResolveReviewBody }>(
+    '/tenants/:id/reviews/:reviewId/resolve',
+    async (request, reply) => {
+      const { id, reviewId } = request.params;
+      const { resolution, notes, effects, expectedVersion } = request.body ?? {};
+
+      const erros = validarVersao(expectedVersion, true);
+      if (!REVIEW_RESOLUTIONS.includes(resolution as ReviewResolution)) {
+        erros.push(`resolution deve ser um de: ${REVIEW_RESOLUTIONS.join(', ')}`);
+      }
+      if (notes !== undefined && typeof notes !== 'string') {
+        erros.push('notes deve ser texto');
+      }
+      if (effects !== undefined) {
+        if (!Array.isArray(effects)) {
+          erros.push('effects deve ser lista');
+        } else {
+          effects.forEach((effect: unknown, i: number) => {
+            if (!REVIEW_EFFECTS.includes(effect as ReviewEffect)) {
+              erros.push(`effects[${i}] deve ser um de: ${REVIEW_EFFECTS.join(', ')}`);
+            } else if (effects.indexOf(effect as ReviewEffect) !== i) {
+              erros.push(`effects[${i}] duplicado: ${effect}`);
+            }
+          });
+        }
+      }
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid resolution', details: erros });
+      }
+
+      const result = await app.adminApi.resolveReviewCase(id, reviewId, {
+        decidedBy: atorAdmin(request),
+        resolution: resolution!,
+        notes,
+        applyEffects: (effects ?? []).length > 0,
+        effects,
+        expectedVersion
+      });
+      if (!result.success) {
+        return reply.code(reviewErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/reviews/:reviewId/dismiss
+   * INCREMENTO 42: Dispensa o caso (notes e expectedVersion obrigatorios)
+   */
+  app.post<{ Params: ReviewIdParams; Body: ReviewNotesBody }>(
+    '/tenants/:id/reviews/:reviewId/dismiss',
+    async (request, reply) => {
+      const { id, reviewId } = request.params;
+      const { notes, expectedVersion } = request.body ?? {};
+
+      const erros = validarVersao(expectedVersion, true);
+      if (typeof notes !== 'string' || notes.trim().length === 0) {
+        erros.push('notes e obrigatorio');
+      }
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid dismissal', details: erros });
+      }
+
+      const result = await app.adminApi.dismissReviewCase(id, reviewId, {
+        dismissedBy: atorAdmin(request),
+        notes: notes!,
+        expectedVersion
+      });
+      if (!result.success) {
+        return reply.code(reviewErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return { reviewCase: result.data };
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // BACKUP E DISASTER RECOVERY (INCREMENTO 44)
+  // ══════════════════════════════════════════════════════════════════════════
+  // Operacoes longas respondem 202 com o job; o andamento fica em
+  // /admin/tenants/:id/backups/jobs/:jobId. Restore efetivo e confirmacao
+  // de procedimento DR exigem global_admin (authPlugin).
+
+  /**
+   * POST /admin/tenants/:id/backups
+   * INCREMENTO 44: Enfileira backup do tenant
+   * INCREMENTO 46: com baseBackupId, backup incremental sobre a base
+   */
+  app.post<{ Params: TenantIdParams; Body: CreateBackupBody }>(
+    '/tenants/:id/backups',
+    async (request, reply) => {
+      const { id } = request.params;
+      const { includeEntities, description, baseBackupId } = request.body ?? {};
+
+      const erros = validarEntidadesBackup(includeEntities);
+      if (description !== undefined && typeof description !== 'string') {
+        erros.push('description deve ser texto');
+      }
+      if (baseBackupId !== undefined) {
+        if (typeof baseBackupId !== 'string' || baseBackupId.length === 0) {
+          erros.push('baseBackupId deve ser texto nao vazio');
+        } else if (includeEntities !== undefined) {
+          erros.push('includeEntities nao se aplica a backup incremental (usa as entidades da base)');
+        }
+      }
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid backup', details: erros });
+      }
+
+      const result = await app.adminApi.createBackup(id, atorAdmin(request), { includeEntities, description, baseBackupId });
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return reply.code(202).send(result.data);
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/backups
+   * INCREMENTO 44: Lista backups do tenant (mais recentes primeiro)
+   */
+  app.get<{ Params: TenantIdParams }>(
+    '/tenants/:id/backups',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const result = await app.adminApi.listBackups(id);
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return { backups: result.data, count: result.data?.length ?? 0 };
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/backups/rewrap
+   * INCREMENTO 47: Re-embrulha os backups cifrados com a chave ativa do
+   * key-ring (rotacao), sem decifrar o conteudo
+   * Requer: global_admin
+   */
+  app.post<{ Params: TenantIdParams }>(
+    '/tenants/:id/backups/rewrap',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const result = await app.adminApi.rewrapBackups(id);
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/backups/jobs
+   * INCREMENTO 44: Jobs de backup/DR do tenant (mais recentes primeiro)
+   */
+  app.get<{ Params: TenantIdParams }>(
+    '/tenants/:id/backups/jobs',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const result = await app.adminApi.listBackupJobs(id);
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return { jobs: result.data, count: result.data?.length ?? 0 };
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/backups/jobs/:jobId
+   * INCREMENTO 44: Estado e progresso de um job
+   */
+  app.get<{ Params: BackupJobIdParams }>(
+    '/tenants/:id/backups/jobs/:jobId',
+    async (request, reply) => {
+      const { id, jobId } = request.params;
+
+      const result = await app.adminApi.getBackupJob(id, jobId);
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/backups/:backupId/validate
+   * INCREMENTO 44: Verifica hash e assinatura do backup
+   */
+  app.post<{ Params: BackupIdParams }>(
+    '/tenants/:id/backups/:backupId/validate',
+    async (request, reply) => {
+      const { id, backupId } = request.params;
+
+      const result = await app.adminApi.validateBackup(id, backupId);
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/backups/:backupId/restore/dry-run
+   * INCREMENTO 44: Enfileira restauracao simulada
+   */
+  app.post<{ Params: BackupIdParams; Body: RestoreBackupBody }>(
+    '/tenants/:id/backups/:backupId/restore/dry-run',
+    async (request, reply) => enfileirarRestauracao(request.params, request.body, 'dry-run', atorAdmin(request), reply)
+  );
+
+  /**
+   * POST /admin/tenants/:id/backups/:backupId/restore
+   * INCREMENTO 44: Enfileira restauracao efetiva (append-only)
+   * Requer: global_admin
+   */
+  app.post<{ Params: BackupIdParams; Body: RestoreBackupBody }>(
+    '/tenants/:id/backups/:backupId/restore',
+    async (request, reply) => enfileirarRestauracao(request.params, request.body, 'effective', atorAdmin(request), reply)
+  );
+
+  async function enfileirarRestauracao(
+    params: BackupIdParams,
+    body: RestoreBackupBody | undefined,
+    mode: 'dry-run' | 'effective',
+    requestedBy: string,
+    reply: FastifyReply
+  ) {
+    const { includeEntities, verifyEventLogContinuity } = body ?? {};
+
+    const erros = validarEntidadesBackup(includeEntities);
+    if (verifyEventLogContinuity !== undefined && typeof verifyEventLogContinuity !== 'boolean') {
+      erros.push('verifyEventLogContinuity deve ser booleano');
+    }
+    if (erros.length > 0) {
+      return reply.code(400).send({ error: 'Invalid restore', details: erros });
+    }
+
+    const result = await app.adminApi.restoreBackup(params.id, params.backupId, requestedBy, {
+      mode,
+      includeEntities,
+      verifyEventLogContinuity
+    });
+    if (!result.success) {
+      return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+    }
+
+    return reply.code(202).send(result.data);
+  }
+
+  /**
+   * POST /admin/tenants/:id/dr/procedures
+   * INCREMENTO 44: Enfileira a primeira fase de um procedimento DR
+   */
+  app.post<{ Params: TenantIdParams; Body: StartProcedureBody }>(
+    '/tenants/:id/dr/procedures',
+    async (request, reply) => {
+      const { id } = request.params;
+      const { type, backupId } = request.body ?? {};
+
+      const erros: string[] = [];
+      if (!DR_PROCEDURE_TYPES.includes(type as DRProcedureType)) {
+        erros.push(`type deve ser um de: ${DR_PROCEDURE_TYPES.join(', ')}`);
+      }
+      if (backupId !== undefined && (typeof backupId !== 'string' || backupId.trim().length === 0)) {
+        erros.push('backupId deve ser texto');
+      }
+      if ((type === 'old_snapshot_restore' || type === 'controlled_rollback') && backupId === undefined) {
+        erros.push(`backupId e obrigatorio para ${type}`);
+      }
+      if (erros.length > 0) {
+        return reply.code(400).send({ error: 'Invalid procedure', details: erros });
+      }
+
+      const result = await app.adminApi.startDRProcedure(id, atorAdmin(request), type!, backupId);
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return reply.code(202).send(result.data);
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/dr/procedures
+   * INCREMENTO 44: Procedimentos DR da instancia do tenant
+   */
+  app.get<{ Params: TenantIdParams }>(
+    '/tenants/:id/dr/procedures',
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const result = await app.adminApi.listDRProcedures(id);
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return { procedures: result.data, count: result.data?.length ?? 0 };
+    }
+  );
+
+  /**
+   * GET /admin/tenants/:id/dr/procedures/:procedureId
+   * INCREMENTO 44: Passos e notas do procedimento
+   */
+  app.get<{ Params: ProcedureIdParams }>(
+    '/tenants/:id/dr/procedures/:procedureId',
+    async (request, reply) => {
+      const { id, procedureId } = request.params;
+
+      const result = await app.adminApi.getDRProcedure(id, procedureId);
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return result.data;
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/dr/procedures/:procedureId/confirm
+   * INCREMENTO 44: Enfileira a segunda fase (restauracao) do procedimento
+   * Requer: global_admin
+   */
+  app.post<{ Params: ProcedureIdParams }>(
+    '/tenants/:id/dr/procedures/:procedureId/confirm',
+    async (request, reply) => {
+      const { id, procedureId } = request.params;
+
+      const result = await app.adminApi.confirmDRProcedure(id, procedureId, atorAdmin(request));
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return reply.code(202).send(result.data);
+    }
+  );
+
+  /**
+   * POST /admin/tenants/:id/dr/procedures/:procedureId/cancel
+   * INCREMENTO 44: Cancela procedimento nao concluido
+   */
+  app.post<{ Params: ProcedureIdParams }>(
+    '/tenants/:id/dr/procedures/:procedureId/cancel',
+    async (request, reply) => {
+      const { id, procedureId } = request.params;
+
+      const result = await app.adminApi.cancelDRProcedure(id, procedureId);
+      if (!result.success) {
+        return reply.code(backupErrorStatus(result.code, result.error!)).send({ error: result.error, code: result.code });
+      }
+
+      return result.data;
+    }
+  );
+
   // ══════════════════════════════════════════════════════════════════════════
   // METRICS & HEALTH
   // ══════════════════════════════════════════════════════════════════════════
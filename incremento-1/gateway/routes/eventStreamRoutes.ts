@@ -0,0 +1,296 @@
+/**
+ * INCREMENTO 36 — ASSINATURA DE EVENTOS EM TEMPO REAL (SSE)
+ *
+ * GET /api/v1/eventos/stream
+ *
+ * Entrega cada EventLogEntry gravado no EventLog do tenant como
+ * Server-Sent Event, sem polling de /api/v1/eventos.
+ *
+ * - Filtros: `tipo` (TipoEvento) e `entidade` (TipoEntidade), separados por virgula
+ * - Retomada: header `Last-Event-ID` (ou `last_event_id`) reenvia os eventos
+ *   gravados depois dele antes dos novos
+ * - Autenticacao: a mesma das rotas /api/v1 (authPlugin, qualquer papel do tenant)
+ * - Cliente lento: a retomada espera o 'drain' do socket; ao vivo, o stream e
+ *   encerrado quando o buffer de saida passa de `maxBufferedBytes` (o cliente
+ *   reconecta com Last-Event-ID)
+ *
+ * Formato de cada evento:
+ *   id: <id do evento>
+ *   event: <TipoEvento>
+ *   data: <EventLogEntry em JSON>
+ */
+
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { EventLogEntry, TipoEvento, TipoEntidade } from '../../camada-3/event-log/EventLogEntry';
+import { EventLogQuery } from '../../camada-3/event-log/EventLogRepository';
+import { CoreInstance } from '../../tenant/TenantRuntime';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface EventStreamRoutesOptions {
+  /**
+   * Intervalo do comentario de keep-alive em ms (default: 15000)
+   */
+  heartbeatMs?: number;
+
+  /**
+   * Maximo de assinaturas simultaneas por tenant (default: 20)
+   */
+  maxStreamsPerTenant?: number;
+
+  /**
+   * Maximo de bytes pendentes no buffer de saida de uma conexao antes de
+   * encerra-la (default: 1 MiB)
+   */
+  maxBufferedBytes?: number;
+}
+
+interface EventStreamQuery {
+  tipo?: string;
+  entidade?: string;
+  last_event_id?: string;
+}
+
+interface EventStreamFilter {
+  tipos: Set<string> | null;
+  entidades: Set<string> | null;
+}
+
+/**
+ * Assinatura aberta (uma por conexao)
+ */
+interface ActiveStream {
+  tenantId: string;
+  close: () => void;
+}
+
+const DEFAULT_HEARTBEAT_MS = 15000;
+const DEFAULT_MAX_STREAMS_PER_TENANT = 20;
+const DEFAULT_MAX_BUFFERED_BYTES = 1024 * 1024;
+
+const TIPOS_EVENTO = new Set<string>(Object.values(TipoEvento));
+const TIPOS_ENTIDADE = new Set<string>(Object.values(TipoEntidade));
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Lista separada por virgula; null se ausente
+ */
+function parseList(value: string | undefined): string[] | null {
+  if (value === undefined) return null;
+  const items = value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+  return items.length > 0 ? items : null;
+}
+
+function matchesFilter(entry: EventLogEntry, filter: EventStreamFilter): boolean {
+  if (filter.tipos && !filter.tipos.has(entry.evento)) return false;
+  if (filter.entidades && !filter.entidades.has(entry.entidade)) return false;
+  return true;
+}
+
+/**
+ * Filtro unico vai para o indice do EventLog na retomada
+ */
+function backlogQuery(filter: EventStreamFilter): EventLogQuery {
+  const query: EventLogQuery = {};
+  if (filter.tipos?.size === 1) query.evento = [...filter.tipos][0];
+  if (filter.entidades?.size === 1) query.entidade = [...filter.entidades][0];
+  return query;
+}
+
+function formatEvent(entry: EventLogEntry): string {
+  return `id: ${entry.id}\nevent: ${entry.evento}\ndata: ${JSON.stringify(entry)}\n\n`;
+}
+
+function getInstance(request: FastifyRequest): CoreInstance {
+  const instance = request.tenantInstance;
+  if (!instance) {
+    throw new Error('Tenant instance not available');
+  }
+  return instance;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PLUGIN
+// ════════════════════════════════════════════════════════════════════════════
+
+export const eventStreamRoutes: FastifyPluginAsync<EventStreamRoutesOptions> = async (app, opts) => {
+  const heartbeatMs = opts.heartbeatMs ?? DEFAULT_HEARTBEAT_MS;
+  const maxStreamsPerTenant = opts.maxStreamsPerTenant ?? DEFAULT_MAX_STREAMS_PER_TENANT;
+  const maxBufferedBytes = opts.maxBufferedBytes ?? DEFAULT_MAX_BUFFERED_BYTES;
+  const streams = new Set<ActiveStream>();
+
+  function countStreams(tenantId: string): number {
+    let total = 0;
+    for (const stream of streams) {
+      if (stream.tenantId === tenantId) total++;
+    }
+    return total;
+  }
+
+  // Conexoes abertas impediriam o fechamento do servidor
+  app.addHook('preClose', async () => {
+    for (const stream of [...streams]) {
+      stream.close();
+    }
+  });
+
+  /**
+   * GET /api/v1/eventos/stream
+   * Eventos do tenant em tempo real (text/event-stream)
+   */
+  app.get<{ Querystring: EventStreamQuery }>(
+    '/eventos/stream',
+    async (request: FastifyRequest<{ Querystring: EventStreamQuery }>, reply: FastifyReply) => {
+      const instance = getInstance(request);
+      const tenantId = request.tenantId!;
+
+      // 1. Validar filtros
+      const tipos = parseList(request.query.tipo);
+      const entidades = parseList(request.query.entidade);
+
+      const tipoInvalido = tipos?.find(t => !TIPOS_EVENTO.has(t));
+      if (tipoInvalido) {
+        return reply.code(400).send({ error: 'Invalid event type', tipo: tipoInvalido });
+      }
+      const entidadeInvalida = entidades?.find(e => !TIPOS_ENTIDADE.has(e));
+      if (entidadeInvalida) {
+        return reply.code(400).send({ error: 'Invalid entity type', entidade: entidadeInvalida });
+      }
+
+      const filter: EventStreamFilter = {
+        tipos: tipos ? new Set(tipos) : null,
+        entidades: entidades ? new Set(entidades) : null
+      };
+
+      // 2. Posicao de retomada (header do EventSource tem precedencia)
+      const headerLastId = request.headers['last-event-id'];
+      const lastEventId = (Array.isArray(headerLastId) ? headerLastId[0] : headerLastId)
+        ?? request.query.last_event_id;
+
+      let after: string | null = null;
+      if (lastEventId) {
+        after = await instance.eventLog.cursorFor(lastEventId);
+        if (!after) {
+          return reply.code(400).send({ error: 'Unknown last event id', last_event_id: lastEventId });
+        }
+      }
+
+      // 3. Limite de assinaturas do tenant
+      if (countStreams(tenantId) >= maxStreamsPerTenant) {
+        return reply.code(429).send({
+          error: 'Too many event streams',
+          message: `Maximum of ${maxStreamsPerTenant} concurrent streams per tenant`
+        });
+      }
+
+      // 4. Abrir o stream (headers dos plugins, ex: X-Request-Id, sao mantidos)
+      reply.hijack();
+      const raw = reply.raw;
+      for (const [name, value] of Object.entries(reply.getHeaders())) {
+        if (value !== undefined) raw.setHeader(name, value);
+      }
+      raw.writeHead(200, {
+        'content-type': 'text/event-stream; charset=utf-8',
+        'cache-control': 'no-cache',
+        connection: 'keep-alive',
+        'x-accel-buffering': 'no'
+      });
+      raw.write(': connected\n\n');
+
+      // Eventos gravados durante a retomada ficam retidos ate o fim dela
+      let pending: EventLogEntry[] | null = [];
+      let closed = false;
+
+      /**
+       * false quando o buffer de saida esta cheio; acima de maxBufferedBytes
+       * o cliente nao acompanha e a conexao e descartada
+       */
+      const write = (chunk: string): boolean => {
+        if (closed) return true;
+        const flushed = raw.write(chunk);
+        if (raw.writableLength > maxBufferedBytes) {
+          request.log.warn({ tenantId, buffered: raw.writableLength }, 'Event stream client too slow, closing');
+          stream.close();
+          raw.destroy();
+          return true;
+        }
+        return flushed;
+      };
+
+      const send = (entry: EventLogEntry): boolean => {
+        return matchesFilter(entry, filter) ? write(formatEvent(entry)) : true;
+      };
+
+      const drained = (): Promise<void> => new Promise(resolve => {
+        if (raw.destroyed) return resolve();
+        const done = (): void => {
+          raw.off('drain', done);
+          raw.off('close', done);
+          resolve();
+        };
+        raw.on('drain', done);
+        raw.on('close', done);
+      });
+
+      const unsubscribe = instance.eventLog.subscribe(entry => {
+        if (pending) {
+          pending.push(entry);
+        } else {
+          send(entry);
+        }
+      });
+
+      const heartbeat = setInterval(() => {
+        // Instancia encerrada (shutdown/suspensao): o cliente reconecta e retoma
+        if (app.runtime.get(tenantId) !== instance) {
+          stream.close();
+          return;
+        }
+        write(': ping\n\n');
+      }, heartbeatMs);
+
+      const stream: ActiveStream = {
+        tenantId,
+        close: () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          streams.delete(stream);
+          raw.end();
+        }
+      };
+      streams.add(stream);
+      request.raw.on('close', stream.close);
+
+      // 5. Retomada: eventos depois de Last-Event-ID, depois os retidos
+      if (after) {
+        const sent = new Set<string>();
+        try {
+          for await (const entry of instance.eventLog.iterate({ ...backlogQuery(filter), after })) {
+            if (closed) break;
+            sent.add(entry.id);
+            if (!send(entry)) await drained();
+          }
+        } catch (error: any) {
+          request.log.error({ err: error, tenantId }, 'Event stream replay failed');
+          stream.close();
+          return;
+        }
+
+        const retained = pending;
+        pending = null;
+        for (const entry of retained) {
+          if (!sent.has(entry.id)) send(entry);
+        }
+      } else {
+        pending = null;
+      }
+    }
+  );
+};
@@ -7,3 +7,4 @@
 export { healthRoutes } from './healthRoutes';
 export { adminRoutes } from './adminRoutes';
 export { publicRoutes } from './publicRoutes';
+export { eventStreamRoutes } from './eventStreamRoutes';
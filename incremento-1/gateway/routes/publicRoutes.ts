@@ -6,9 +6,32 @@
  */
 
 import { FastifyPluginAsync, FastifyRequest } from 'fastify';
-import { SituacaoDecisoria, StatusSituacao } from '../../camada-3/entidades/tipos';
-import { PerfilRisco, Limite } from '../../camada-3/entidades/tipos';
+import { DecisaoCompletaInput, PerfilRisco } from '../../camada-3/entidades/tipos';
+import {
+  RegistroConsequenciaInput,
+  SinalImpacto
+} from '../../camada-3/entidades/ObservacaoDeConsequencia';
+import { ConsequenciaQuery } from '../../camada-3/servicos/ConsequenciaQueryService';
+import {
+  IdempotencyKeyInvalidError,
+  IdempotencyKeyConflictError
+} from '../../camada-3/idempotency';
+import {
+  AggregationPolicy,
+  DecisaoMultiAgenteInput,
+  MultiAgentError
+} from '../../camada-3/multiagente/MultiAgentTypes';
+import {
+  ResearchInput,
+  ResearchJob,
+  ResearchJobError,
+  isValidResearchJobId
+} from '../../camada-3/pesquisa/ResearchTypes';
+import { EventLogCursorError } from '../../camada-3/event-log/EventLogIndex';
+import { EventLogQuery } from '../../camada-3/event-log/EventLogRepository';
+import { ClosedLayerExplanation } from '../../camada-3/camada-fechada';
 import { CoreInstance } from '../../tenant/TenantRuntime';
+import crypto from 'crypto';
 
 // ════════════════════════════════════════════════════════════════════════════
 // TIPOS
@@ -16,38 +39,14 @@ import { CoreInstance } from '../../tenant/TenantRuntime';
 
 /**
  * Input para criar decisao (fluxo completo)
+ * INCREMENTO 30: mesmo formato aceito por OrquestradorCognitivo.Decidir()
  */
-interface DecisaoInput {
-  situacao: {
-    dominio: string;
-    contexto: string;
-    objetivo: string;
-    incertezas: string[];
-    alternativas: Array<{
-      descricao: string;
-      riscos_associados: string[];
-    }>;
-    riscos: Array<{
-      descricao: string;
-      tipo: string;
-      reversibilidade: string;
-    }>;
-    urgencia: string;
-    capacidade_absorcao: string;
-    consequencia_relevante: string;
-    possibilidade_aprendizado: boolean;
-    caso_uso_declarado: number;
-  };
-  protocolo: {
-    criterios_minimos: string[];
-    riscos_considerados: string[];
-    limites_definidos: Limite[];
-    perfil_risco: PerfilRisco;
-    alternativas_avaliadas: string[];
-    alternativa_escolhida: string;
-    memoria_consultada_ids?: string[];
-  };
-}
+type DecisaoInput = DecisaoCompletaInput;
+
+/**
+ * INCREMENTO 30: Header com a chave de idempotencia do cliente
+ */
+const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
 
 interface EpisodioIdParams {
   id: string;
@@ -57,49 +56,70 @@ interface EventosQuery {
   tipo?: string;
   entidade?: string;
   limit?: string;
+  // INCREMENTO 31: filtros indexados e paginacao por cursor
+  entidade_id?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  cursor?: string;
 }
 
-// ════════════════════════════════════════════════════════════════════════════
-// HELPERS
-// ════════════════════════════════════════════════════════════════════════════
+/**
+ * INCREMENTO 31: Limite maximo de eventos por pagina
+ */
+const MAX_EVENTOS_LIMIT = 500;
+
+interface ContratoIdParams {
+  id: string;
+}
 
 /**
- * Gera ID unico para situacao
+ * INCREMENTO 38: filtros de consulta de consequencias
  */
-function generateSituacaoId(): string {
-  return `sit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+interface ConsequenciasQuery {
+  episodio_id?: string;
+  sinal?: string;
+  from?: string;
+  to?: string;
+  limit?: string;
 }
 
 /**
- * Converte input para SituacaoDecisoria interna
+ * INCREMENTO 38: Limite maximo de consequencias por consulta
  */
-function criarSituacaoInterna(input: DecisaoInput['situacao']): SituacaoDecisoria {
-  return {
-    id: generateSituacaoId(),
-    dominio: input.dominio,
-    contexto: input.contexto,
-    objetivo: input.objetivo,
-    incertezas: input.incertezas,
-    alternativas: input.alternativas.map(alt => ({
-      descricao: alt.descricao,
-      riscos_associados: alt.riscos_associados
-    })),
-    riscos: input.riscos.map(r => ({
-      descricao: r.descricao,
-      tipo: r.tipo,
-      reversibilidade: r.reversibilidade
-    })),
-    urgencia: input.urgencia,
-    capacidade_absorcao: input.capacidade_absorcao,
-    consequencia_relevante: input.consequencia_relevante,
-    possibilidade_aprendizado: input.possibilidade_aprendizado,
-    status: StatusSituacao.RASCUNHO,
-    data_criacao: new Date(),
-    caso_uso_declarado: input.caso_uso_declarado,
-    anexos_analise: []
-  };
+const MAX_CONSEQUENCIAS_LIMIT = 500;
+
+const SEVERIDADES = ['BAIXA', 'MEDIA', 'ALTA', 'CRITICA'];
+const CATEGORIAS = ['OPERACIONAL', 'FINANCEIRA', 'SEGURANCA', 'LEGAL', 'REPUTACAO', 'ETICA', 'OUTRA'];
+
+/**
+ * INCREMENTO 39: parametros das execucoes multiagente
+ */
+interface RunIdParams {
+  runId: string;
 }
 
+const AGGREGATION_POLICIES: AggregationPolicy[] = [
+  'FIRST_VALID',
+  'MAJORITY_BY_ALTERNATIVE',
+  'WEIGHTED_MAJORITY',
+  'REQUIRE_CONSENSUS',
+  'HUMAN_OVERRIDE_REQUIRED'
+];
+
+/**
+ * INCREMENTO 43: parametros dos jobs de pesquisa
+ */
+interface ResearchJobIdParams {
+  jobId: string;
+}
+
+const MODOS_MEMORIA = ['OFF', 'READONLY'];
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
 /**
  * Extrai instancia do Core da request
  */
@@ -111,6 +131,410 @@ function getInstance(request: FastifyRequest): CoreInstance {
   return instance;
 }
 
+/**
+ * INCREMENTO 49: Todas as regras da Camada Fechada violadas pela entrada,
+ * para diagnostico; undefined se nenhuma ou se a entrada nao e avaliavel
+ */
+function diagnosticarCamadaFechada(
+  instance: CoreInstance,
+  body: DecisaoInput
+): ClosedLayerExplanation | undefined {
+  try {
+    const explanation = instance.orquestrador.DiagnosticarCamadaFechada(body);
+    return explanation.blocked ? explanation : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * INCREMENTO 31: Converte parametro de data; undefined se ausente, null se invalido
+ */
+function parseDateParam(value: string | undefined): Date | undefined | null {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * INCREMENTO 38: Valida o corpo de POST /contratos/:id/consequencias
+ *
+ * Retorna a lista de problemas encontrados (vazia se valido).
+ * A exigencia de evidencias do contrato e verificada depois, na rota.
+ */
+function validarConsequencia(body: unknown): string[] {
+  const erros: string[] = [];
+  const isObject = (v: unknown): v is Record<string, any> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+  const isText = (v: unknown): boolean => typeof v === 'string' && v.trim().length > 0;
+
+  if (!isObject(body)) {
+    return ['body deve ser um objeto'];
+  }
+
+  const { observada, percebida, evidencias_minimas, autonomyTriggers } = body;
+
+  if (!isObject(observada)) {
+    erros.push('observada e obrigatorio');
+  } else {
+    if (!isText(observada.descricao)) erros.push('observada.descricao e obrigatorio');
+    if (typeof observada.limites_respeitados !== 'boolean') {
+      erros.push('observada.limites_respeitados deve ser boolean');
+    }
+    if (typeof observada.condicoes_cumpridas !== 'boolean') {
+      erros.push('observada.condicoes_cumpridas deve ser boolean');
+    }
+    if (observada.indicadores !== undefined && (
+      !Array.isArray(observada.indicadores) ||
+      !observada.indicadores.every((i: unknown) => isObject(i) && isText(i.nome) && typeof i.valor === 'string')
+    )) {
+      erros.push('observada.indicadores deve ser lista de { nome, valor, unidade? }');
+    }
+    if (observada.anexos !== undefined && (
+      !Array.isArray(observada.anexos) ||
+      !observada.anexos.every((a: unknown) =>
+        isObject(a) && isText(a.tipo) && typeof a.conteudo === 'string' &&
+        (a.data_anexo === undefined || parseDateParam(String(a.data_anexo)) !== null)
+      )
+    )) {
+      erros.push('observada.anexos deve ser lista de { tipo, conteudo, data_anexo? }');
+    }
+  }
+
+  if (!isObject(percebida)) {
+    erros.push('percebida e obrigatorio');
+  } else {
+    if (!isText(percebida.descricao)) erros.push('percebida.descricao e obrigatorio');
+    if (!Object.values(SinalImpacto).includes(percebida.sinal)) {
+      erros.push(`percebida.sinal deve ser um de: ${Object.values(SinalImpacto).join(', ')}`);
+    }
+  }
+
+  if (!Array.isArray(evidencias_minimas) || evidencias_minimas.length === 0 ||
+      !evidencias_minimas.every(isText)) {
+    erros.push('evidencias_minimas deve ser lista nao vazia de textos');
+  }
+
+  for (const campo of ['observacao_anterior_id', 'notas', 'agentId']) {
+    if (body[campo] !== undefined && typeof body[campo] !== 'string') {
+      erros.push(`${campo} deve ser texto`);
+    }
+  }
+
+  if (autonomyTriggers !== undefined) {
+    if (!isObject(autonomyTriggers)) {
+      erros.push('autonomyTriggers deve ser um objeto');
+    } else {
+      if (autonomyTriggers.severidade !== undefined && !SEVERIDADES.includes(autonomyTriggers.severidade)) {
+        erros.push(`autonomyTriggers.severidade deve ser um de: ${SEVERIDADES.join(', ')}`);
+      }
+      if (autonomyTriggers.categoria !== undefined && !CATEGORIAS.includes(autonomyTriggers.categoria)) {
+        erros.push(`autonomyTriggers.categoria deve ser um de: ${CATEGORIAS.join(', ')}`);
+      }
+      for (const flag of ['violou_limites', 'reversivel', 'perda_relevante']) {
+        if (autonomyTriggers[flag] !== undefined && typeof autonomyTriggers[flag] !== 'boolean') {
+          erros.push(`autonomyTriggers.${flag} deve ser boolean`);
+        }
+      }
+      // Sem agente nao ha mandato a avaliar
+      if (!isText(body.agentId)) {
+        erros.push('agentId e obrigatorio quando autonomyTriggers e informado');
+      }
+    }
+  }
+
+  return erros;
+}
+
+/**
+ * INCREMENTO 38: Converte o corpo validado no input do Core (datas dos anexos)
+ */
+function toRegistroConsequencia(body: any): RegistroConsequenciaInput {
+  return {
+    ...body,
+    observada: {
+      ...body.observada,
+      anexos: body.observada.anexos?.map((a: any) => ({
+        ...a,
+        data_anexo: a.data_anexo !== undefined ? new Date(a.data_anexo) : undefined
+      }))
+    }
+  };
+}
+
+/**
+ * INCREMENTO 39: Valida o corpo de POST /multiagente/execucoes
+ *
+ * Retorna a lista de problemas encontrados (vazia se valido).
+ * Bloqueios da Camada Fechada nao sao erro: voltam por agente no resultado.
+ */
+function validarExecucaoMultiAgente(body: unknown): string[] {
+  const erros: string[] = [];
+  const isObject = (v: unknown): v is Record<string, any> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+  const isText = (v: unknown): boolean => typeof v === 'string' && v.trim().length > 0;
+  const isTextList = (v: unknown): boolean => Array.isArray(v) && v.every(isText);
+  const isLimiteList = (v: unknown): boolean =>
+    Array.isArray(v) && v.every(l => isObject(l) && isText(l.tipo) && typeof l.valor === 'string');
+
+  if (!isObject(body)) {
+    return ['body deve ser um objeto'];
+  }
+
+  const { situacao, agents, aggregationPolicy, protocoloBase, decisaoBase } = body;
+
+  if (!isObject(situacao)) {
+    erros.push('situacao e obrigatorio');
+  }
+
+  if (!Array.isArray(agents) || agents.length === 0) {
+    erros.push('agents deve ser lista nao vazia');
+  } else {
+    const ids = new Set<string>();
+    agents.forEach((agent: unknown, i: number) => {
+      if (!isObject(agent)) {
+        erros.push(`agents[${i}] deve ser um objeto`);
+        return;
+      }
+      if (!isText(agent.agentId)) {
+        erros.push(`agents[${i}].agentId e obrigatorio`);
+      } else if (ids.has(agent.agentId)) {
+        erros.push(`agents[${i}].agentId duplicado: ${agent.agentId}`);
+      } else {
+        ids.add(agent.agentId);
+      }
+      if (!Object.values(PerfilRisco).includes(agent.perfilRisco)) {
+        erros.push(`agents[${i}].perfilRisco deve ser um de: ${Object.values(PerfilRisco).join(', ')}`);
+      }
+      if (agent.peso !== undefined && !(typeof agent.peso === 'number' && agent.peso > 0)) {
+        erros.push(`agents[${i}].peso deve ser numero positivo`);
+      }
+      if (agent.enabled !== undefined && typeof agent.enabled !== 'boolean') {
+        erros.push(`agents[${i}].enabled deve ser boolean`);
+      }
+      if (agent.mandato !== undefined && !isTextList(agent.mandato)) {
+        erros.push(`agents[${i}].mandato deve ser lista de textos`);
+      }
+    });
+  }
+
+  if (!AGGREGATION_POLICIES.includes(aggregationPolicy)) {
+    erros.push(`aggregationPolicy deve ser um de: ${AGGREGATION_POLICIES.join(', ')}`);
+  }
+
+  if (!isObject(protocoloBase)) {
+    erros.push('protocoloBase e obrigatorio');
+  } else {
+    for (const campo of ['criterios_minimos', 'riscos_considerados', 'alternativas_avaliadas']) {
+      if (!isTextList(protocoloBase[campo])) erros.push(`protocoloBase.${campo} deve ser lista de textos`);
+    }
+    if (!isLimiteList(protocoloBase.limites_definidos)) {
+      erros.push('protocoloBase.limites_definidos deve ser lista de { tipo, descricao, valor }');
+    }
+  }
+
+  if (!isObject(decisaoBase)) {
+    erros.push('decisaoBase e obrigatorio');
+  } else {
+    for (const campo of ['criterios', 'condicoes']) {
+      if (!isTextList(decisaoBase[campo])) erros.push(`decisaoBase.${campo} deve ser lista de textos`);
+    }
+    if (!isLimiteList(decisaoBase.limites)) {
+      erros.push('decisaoBase.limites deve ser lista de { tipo, descricao, valor }');
+    }
+  }
+
+  return erros;
+}
+
+/**
+ * INCREMENTO 43: Valida o corpo de POST /pesquisa/jobs
+ *
+ * Retorna a lista de problemas encontrados (vazia se valido).
+ * Bloqueios da Camada Fechada nao sao erro: aparecem no relatorio.
+ */
+function validarPesquisa(body: unknown): string[] {
+  const erros: string[] = [];
+  const isObject = (v: unknown): v is Record<string, any> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+  const isText = (v: unknown): boolean => typeof v === 'string' && v.trim().length > 0;
+  const isTextList = (v: unknown): boolean => Array.isArray(v) && v.every(isText);
+  const isObjectList = (v: unknown): boolean => Array.isArray(v) && v.every(isObject);
+  const isPositiveInt = (v: unknown): boolean => Number.isInteger(v) && (v as number) > 0;
+
+  if (!isObject(body)) {
+    return ['body deve ser um objeto'];
+  }
+
+  const { situacao, variacoes, modoMemoria, limitesPesquisa } = body;
+
+  if (!isObject(situacao)) {
+    erros.push('situacao e obrigatorio');
+  } else {
+    if (!isText(situacao.dominio)) erros.push('situacao.dominio e obrigatorio');
+    if (situacao.id !== undefined && !isText(situacao.id)) erros.push('situacao.id deve ser texto');
+    for (const campo of ['alternativas', 'riscos']) {
+      if (situacao[campo] !== undefined && !isObjectList(situacao[campo])) {
+        erros.push(`situacao.${campo} deve ser lista de objetos`);
+      }
+    }
+    if (situacao.incertezas !== undefined && !isTextList(situacao.incertezas)) {
+      erros.push('situacao.incertezas deve ser lista de textos');
+    }
+  }
+
+  if (!MODOS_MEMORIA.includes(modoMemoria)) {
+    erros.push(`modoMemoria deve ser um de: ${MODOS_MEMORIA.join(', ')}`);
+  }
+
+  if (variacoes !== undefined) {
+    if (!Array.isArray(variacoes)) {
+      erros.push('variacoes deve ser uma lista');
+    } else {
+      const ids = new Set<string>();
+      variacoes.forEach((variacao: unknown, i: number) => {
+        if (!isObject(variacao)) {
+          erros.push(`variacoes[${i}] deve ser um objeto`);
+          return;
+        }
+        if (!isText(variacao.id)) {
+          erros.push(`variacoes[${i}].id e obrigatorio`);
+        } else if (ids.has(variacao.id)) {
+          erros.push(`variacoes[${i}].id duplicado: ${variacao.id}`);
+        } else {
+          ids.add(variacao.id);
+        }
+        if (variacao.perfilRisco !== undefined && !Object.values(PerfilRisco).includes(variacao.perfilRisco)) {
+          erros.push(`variacoes[${i}].perfilRisco deve ser um de: ${Object.values(PerfilRisco).join(', ')}`);
+        }
+        for (const campo of ['alternativas', 'riscos', 'limitesDefinidos']) {
+          if (variacao[campo] !== undefined && !isObjectList(variacao[campo])) {
+            erros.push(`variacoes[${i}].${campo} deve ser lista de objetos`);
+          }
+        }
+        for (const campo of ['incertezas', 'criteriosMinimos']) {
+          if (variacao[campo] !== undefined && !isTextList(variacao[campo])) {
+            erros.push(`variacoes[${i}].${campo} deve ser lista de textos`);
+          }
+        }
+      });
+    }
+  }
+
+  if (limitesPesquisa !== undefined) {
+    if (!isObject(limitesPesquisa)) {
+      erros.push('limitesPesquisa deve ser um objeto');
+    } else {
+      for (const campo of ['maxVariacoes', 'maxTempoMs']) {
+        if (limitesPesquisa[campo] !== undefined && !isPositiveInt(limitesPesquisa[campo])) {
+          erros.push(`limitesPesquisa.${campo} deve ser inteiro positivo`);
+        }
+      }
+    }
+  }
+
+  return erros;
+}
+
+/**
+ * INCREMENTO 43: Job de pesquisa sem o input submetido
+ */
+function resumoJob(job: ResearchJob) {
+  const { input, ...resumo } = job;
+  return {
+    ...resumo,
+    situacaoId: input.situacao.id,
+    modoMemoria: input.modoMemoria,
+    variacoes: input.variacoes?.length ?? 0
+  };
+}
+
+/**
+ * INCREMENTO 38: Converte parametro de limite; undefined se ausente, null se invalido
+ */
+function parseLimitParam(value: string | undefined, max: number): number | undefined | null {
+  if (value === undefined) return undefined;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 && limit <= max ? limit : null;
+}
+
+/**
+ * INCREMENTO 50: Valida os tipos do corpo de /decisoes/validar (formato de /decisoes)
+ *
+ * Retorna a lista de problemas encontrados (vazia se valido).
+ * Campos ausentes nao sao erro aqui: as regras da situacao e do protocolo
+ * (ValidarDecisao) apontam o que e obrigatorio.
+ */
+function validarEntradaDecisao(body: unknown): string[] {
+  const erros: string[] = [];
+  const isObject = (v: unknown): v is Record<string, any> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+  const isString = (v: unknown): boolean => typeof v === 'string';
+  const isStringList = (v: unknown): boolean => Array.isArray(v) && v.every(isString);
+  const isObjectListWith = (v: unknown, campos: string[]): boolean =>
+    Array.isArray(v) && v.every(item => isObject(item) && campos.every(c => isString(item[c])));
+
+  if (!isObject(body)) {
+    return ['body deve ser um objeto'];
+  }
+
+  const { situacao, protocolo, condicoes } = body;
+
+  if (!isObject(situacao)) {
+    erros.push('situacao e obrigatorio');
+  } else {
+    for (const campo of ['dominio', 'contexto', 'objetivo', 'urgencia', 'capacidade_absorcao', 'consequencia_relevante']) {
+      if (situacao[campo] !== undefined && !isString(situacao[campo])) {
+        erros.push(`situacao.${campo} deve ser texto`);
+      }
+    }
+    if (situacao.incertezas !== undefined && !isStringList(situacao.incertezas)) {
+      erros.push('situacao.incertezas deve ser lista de textos');
+    }
+    if (situacao.alternativas !== undefined && !(
+      isObjectListWith(situacao.alternativas, ['descricao']) &&
+      situacao.alternativas.every((a: any) => isStringList(a.riscos_associados))
+    )) {
+      erros.push('situacao.alternativas deve ser lista de { descricao, riscos_associados }');
+    }
+    if (situacao.riscos !== undefined && !isObjectListWith(situacao.riscos, ['descricao', 'tipo', 'reversibilidade'])) {
+      erros.push('situacao.riscos deve ser lista de { descricao, tipo, reversibilidade }');
+    }
+    if (situacao.possibilidade_aprendizado !== undefined && typeof situacao.possibilidade_aprendizado !== 'boolean') {
+      erros.push('situacao.possibilidade_aprendizado deve ser boolean');
+    }
+    if (situacao.caso_uso_declarado !== undefined && !Number.isInteger(situacao.caso_uso_declarado)) {
+      erros.push('situacao.caso_uso_declarado deve ser inteiro');
+    }
+  }
+
+  if (!isObject(protocolo)) {
+    erros.push('protocolo e obrigatorio');
+  } else {
+    for (const campo of ['criterios_minimos', 'riscos_considerados', 'alternativas_avaliadas', 'memoria_consultada_ids']) {
+      if (protocolo[campo] !== undefined && !isStringList(protocolo[campo])) {
+        erros.push(`protocolo.${campo} deve ser lista de textos`);
+      }
+    }
+    if (protocolo.limites_definidos !== undefined &&
+        !isObjectListWith(protocolo.limites_definidos, ['tipo', 'descricao', 'valor'])) {
+      erros.push('protocolo.limites_definidos deve ser lista de { tipo, descricao, valor }');
+    }
+    if (protocolo.perfil_risco !== undefined && !Object.values(PerfilRisco).includes(protocolo.perfil_risco)) {
+      erros.push(`protocolo.perfil_risco deve ser um de: ${Object.values(PerfilRisco).join(', ')}`);
+    }
+    if (protocolo.alternativa_escolhida !== undefined && !isString(protocolo.alternativa_escolhida)) {
+      erros.push('protocolo.alternativa_escolhida deve ser texto');
+    }
+  }
+
+  if (condicoes !== undefined && !isStringList(condicoes)) {
+    erros.push('condicoes deve ser lista de textos');
+  }
+
+  return erros;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // PLUGIN
 // ════════════════════════════════════════════════════════════════════════════
@@ -129,67 +553,113 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
     async (request, reply) => {
       const instance = getInstance(request);
       const tenantId = request.tenantId!;
-      const { situacao: situacaoInput, protocolo: protocoloInput } = request.body;
+      const idempotencyKey = request.headers[IDEMPOTENCY_KEY_HEADER];
 
-      try {
-        // 1. Criar situacao interna
-        const situacao = criarSituacaoInterna(situacaoInput);
+      if (Array.isArray(idempotencyKey)) {
+        return reply.code(400).send({
+          error: 'Invalid idempotency key',
+          message: 'Only one Idempotency-Key header is allowed'
+        });
+      }
 
-        // 2. Processar solicitacao (cria episodio)
-        // Passa tenantId como actor para rastreabilidade
-        const episodio = await instance.orquestrador.ProcessarSolicitacao(
-          situacao,
-          { actor: tenantId }
-        );
+      try {
+        // INCREMENTO 30: fluxo completo em uma unica operacao do Core
+        // Passa tenantId como actor e destinatario para rastreabilidade
+        const resultado = await instance.orquestrador.Decidir(request.body, {
+          idempotencyKey,
+          actor: tenantId,
+          emitidoPara: tenantId
+        });
 
-        // 3. Construir e validar protocolo
-        const protocolo = await instance.orquestrador.ConstruirProtocoloDeDecisao(
-          episodio.id,
-          {
-            criterios_minimos: protocoloInput.criterios_minimos,
-            riscos_considerados: protocoloInput.riscos_considerados,
-            limites_definidos: protocoloInput.limites_definidos,
-            perfil_risco: protocoloInput.perfil_risco,
-            alternativas_avaliadas: protocoloInput.alternativas_avaliadas,
-            alternativa_escolhida: protocoloInput.alternativa_escolhida,
-            memoria_consultada_ids: protocoloInput.memoria_consultada_ids
-          }
-        );
+        if (resultado.replay) {
+          reply.header('idempotent-replayed', 'true');
+        }
 
-        // 4. Verificar se protocolo foi validado
-        if (protocolo.estado !== 'VALIDADO') {
+        // Protocolo rejeitado (tambem reproduzido em replays)
+        if (!resultado.contrato) {
+          const camadaFechada = diagnosticarCamadaFechada(instance, request.body);
           return reply.code(400).send({
             error: 'Protocol rejected',
-            reason: protocolo.motivo_rejeicao || 'Protocol validation failed'
+            reason: resultado.protocolo.motivo_rejeicao || 'Protocol validation failed',
+            episodio_id: resultado.episodio_id,
+            // Inc 48: versao das regras do tenant avaliadas no protocolo
+            ...(resultado.protocolo.regras_camada_fechada && {
+              regras_camada_fechada: resultado.protocolo.regras_camada_fechada
+            }),
+            // Inc 49: todas as regras violadas, com os campos
+            ...(camadaFechada && { camada_fechada: camadaFechada })
           });
         }
 
-        // 5. Registrar decisao e emitir contrato
-        const contrato = await instance.orquestrador.RegistrarDecisao(
-          episodio.id,
-          {
-            alternativa_escolhida: protocoloInput.alternativa_escolhida,
-            criterios: protocoloInput.criterios_minimos,
-            perfil_risco: protocoloInput.perfil_risco,
-            limites: protocoloInput.limites_definidos,
-            condicoes: []
-          },
-          { emitidoPara: tenantId }
-        );
-
-        // 6. Retornar contrato
         return reply.code(201).send({
-          contrato,
-          episodio_id: episodio.id,
+          contrato: resultado.contrato,
+          episodio_id: resultado.episodio_id,
           metadados: {
             tenant_id: tenantId,
-            timestamp: new Date().toISOString()
+            timestamp: new Date().toISOString(),
+            idempotent_replay: resultado.replay
           }
         });
       } catch (error: any) {
+        if (error instanceof IdempotencyKeyInvalidError) {
+          return reply.code(400).send({
+            error: 'Invalid idempotency key',
+            message: error.message
+          });
+        }
+        if (error instanceof IdempotencyKeyConflictError) {
+          return reply.code(409).send({
+            error: 'Idempotency key conflict',
+            message: error.message
+          });
+        }
+
+        // INCREMENTO 49: bloqueio da Camada Fechada em RegistrarDecisao
+        // (nada foi gravado) vira 422; demais falhas tambem levam as
+        // violacoes da entrada, se houver
+        const camadaFechada = diagnosticarCamadaFechada(instance, request.body);
+        if (camadaFechada && error.message?.includes('Camada Fechada')) {
+          return reply.code(422).send({
+            error: 'Blocked by Closed Layer',
+            message: error.message,
+            camada_fechada: camadaFechada
+          });
+        }
+
         request.log.error({ err: error }, 'Decision request failed');
         return reply.code(500).send({
           error: 'Decision processing failed',
+          message: error.message,
+          ...(camadaFechada && { camada_fechada: camadaFechada })
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/decisoes/validar
+   * INCREMENTO 50: Validacao previa (dry run) do mesmo corpo de /decisoes
+   * Reporta todos os problemas sem criar entidades nem registrar eventos
+   */
+  app.post<{ Body: DecisaoInput }>(
+    '/decisoes/validar',
+    async (request, reply) => {
+      const instance = getInstance(request);
+
+      const erros = validarEntradaDecisao(request.body);
+      if (erros.length > 0) {
+        return reply.code(400).send({
+          error: 'Invalid decision input',
+          details: erros
+        });
+      }
+
+      try {
+        return await instance.orquestrador.ValidarDecisao(request.body);
+      } catch (error: any) {
+        request.log.error({ err: error }, 'Decision validation failed');
+        return reply.code(500).send({
+          error: 'Decision validation failed',
           message: error.message
         });
       }
@@ -251,45 +721,64 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * GET /api/v1/eventos
-   * Lista eventos recentes do tenant
+   * Lista eventos do tenant, do mais recente para o mais antigo
+   *
+   * INCREMENTO 31: leitura pelos indices do EventLog, sem carregar o log
+   * inteiro. Paginas seguintes via `cursor` (next_cursor da resposta).
    */
-  app.get<{ Querystring: { tipo?: string; entidade?: string; limit?: string } }>(
+  app.get<{ Querystring: EventosQuery }>(
     '/eventos',
     async (request, reply) => {
       const instance = getInstance(request);
-      const { tipo, entidade, limit: limitStr } = request.query;
-      const limit = limitStr ? parseInt(limitStr, 10) : 50;
+      const { tipo, entidade, entidade_id, actor, from, to, cursor, limit: limitStr } = request.query;
+      const parsedLimit = limitStr ? parseInt(limitStr, 10) : 50;
+      const limit = isNaN(parsedLimit) || parsedLimit < 1
+        ? 50
+        : Math.min(parsedLimit, MAX_EVENTOS_LIMIT);
 
-      try {
-        let eventos;
+      const fromTs = parseDateParam(from);
+      const toTs = parseDateParam(to);
+      if (fromTs === null || toTs === null) {
+        return reply.code(400).send({ error: 'Invalid date range' });
+      }
 
-        if (tipo) {
-          eventos = await instance.eventLog.getByEvento(tipo);
-        } else if (entidade) {
-          eventos = await instance.eventLog.getByEntidade(entidade);
-        } else {
-          eventos = await instance.eventLog.getAll();
-        }
+      const filtro: EventLogQuery = {
+        evento: tipo,
+        entidade,
+        entidadeId: entidade_id,
+        actor,
+        fromTs,
+        toTs
+      };
 
-        // Limitar e ordenar por timestamp desc
-        const resultado = eventos
-          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-          .slice(0, limit)
-          .map(e => ({
-            id: e.id,
-            evento: e.evento,
-            entidade: e.entidade,
-            entidade_id: e.entidade_id,
-            timestamp: e.timestamp,
-            actor: e.actor
-          }));
+      try {
+        const page = await instance.eventLog.query({
+          ...filtro,
+          direction: 'desc',
+          after: cursor,
+          limit
+        });
+        const total = await instance.eventLog.countWhere(filtro);
+
+        const resultado = page.entries.map(e => ({
+          id: e.id,
+          evento: e.evento,
+          entidade: e.entidade,
+          entidade_id: e.entidade_id,
+          timestamp: e.timestamp,
+          actor: e.actor
+        }));
 
         return {
           eventos: resultado,
-          total: eventos.length,
-          limit
+          total,
+          limit,
+          next_cursor: page.nextCursor
         };
       } catch (error: any) {
+        if (error instanceof EventLogCursorError) {
+          return reply.code(400).send({ error: 'Invalid cursor' });
+        }
         request.log.error({ err: error }, 'Events query failed');
         return reply.code(500).send({
           error: 'Query failed',
@@ -357,6 +846,440 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
     }
   );
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // CONSEQUENCIAS (INCREMENTO 38)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * POST /api/v1/contratos/:id/consequencias
+   * Registra o que aconteceu apos a execucao de um contrato
+   *
+   * As evidencias_minimas devem cobrir observacao_minima_requerida do
+   * contrato. Com autonomyTriggers + agentId, a policy de consequencia
+   * (Inc 19) e avaliada e o resultado volta em `autonomia`.
+   */
+  app.post<{ Params: ContratoIdParams; Body: RegistroConsequenciaInput }>(
+    '/contratos/:id/consequencias',
+    async (request, reply) => {
+      const instance = getInstance(request);
+      const tenantId = request.tenantId!;
+      const { id } = request.params;
+
+      const erros = validarConsequencia(request.body);
+      if (erros.length > 0) {
+        return reply.code(400).send({
+          error: 'Invalid consequence',
+          details: erros
+        });
+      }
+
+      try {
+        const requerida = await instance.consequencias.getObservacaoMinimaRequerida(id);
+        if (requerida === null) {
+          return reply.code(404).send({ error: 'Contract not found' });
+        }
+
+        const faltantes = (requerida ?? []).filter(
+          item => !request.body.evidencias_minimas.includes(item)
+        );
+        if (faltantes.length > 0) {
+          return reply.code(422).send({
+            error: 'Minimum observation not met',
+            message: `Missing evidence: ${faltantes.join(', ')}`,
+            observacao_minima_requerida: requerida,
+            faltantes
+          });
+        }
+
+        const registrada = await instance.orquestrador.RegistrarConsequencia(
+          id,
+          toRegistroConsequencia(request.body),
+          { actor: tenantId }
+        );
+        const { _consequenceResult, ...observacao } = registrada as typeof registrada & {
+          _consequenceResult?: unknown;
+        };
+
+        return reply.code(201).send({
+          observacao,
+          autonomia: _consequenceResult ?? null
+        });
+      } catch (error: any) {
+        request.log.error({ err: error }, 'Register consequence failed');
+        return reply.code(400).send({
+          error: 'Failed to register consequence',
+          message: error.message
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/contratos/:id/consequencias
+   * Lista consequencias de um contrato (da mais antiga para a mais recente)
+   */
+  app.get<{ Params: ContratoIdParams; Querystring: ConsequenciasQuery }>(
+    '/contratos/:id/consequencias',
+    async (request, reply) => {
+      const instance = getInstance(request);
+      const { id } = request.params;
+      const { sinal } = request.query;
+
+      const limit = parseLimitParam(request.query.limit, MAX_CONSEQUENCIAS_LIMIT);
+      if (limit === null) {
+        return reply.code(400).send({ error: 'Invalid limit' });
+      }
+      if (sinal !== undefined && !Object.values(SinalImpacto).includes(sinal as SinalImpacto)) {
+        return reply.code(400).send({ error: 'Invalid sinal' });
+      }
+
+      try {
+        if (!(await instance.consequencias.contratoExists(id))) {
+          return reply.code(404).send({ error: 'Contract not found' });
+        }
+
+        const resultado = await instance.consequencias.find({
+          contrato_id: id,
+          sinal: sinal as SinalImpacto | undefined,
+          limit
+        });
+
+        return {
+          contrato_id: id,
+          observacoes: resultado.observacoes,
+          total: resultado.total
+        };
+      } catch (error: any) {
+        request.log.error({ err: error }, 'Consequence query failed');
+        return reply.code(500).send({
+          error: 'Query failed',
+          message: error.message
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/contratos/:id/consequencias/stats
+   * Contagem por sinal e cumprimento de limites/condicoes do contrato
+   */
+  app.get<{ Params: ContratoIdParams }>(
+    '/contratos/:id/consequencias/stats',
+    async (request, reply) => {
+      const instance = getInstance(request);
+      const { id } = request.params;
+
+      try {
+        const requerida = await instance.consequencias.getObservacaoMinimaRequerida(id);
+        if (requerida === null) {
+          return reply.code(404).send({ error: 'Contract not found' });
+        }
+
+        const stats = await instance.consequencias.getStats(id);
+
+        return {
+          contrato_id: id,
+          observacao_minima_requerida: requerida ?? [],
+          ...stats
+        };
+      } catch (error: any) {
+        request.log.error({ err: error }, 'Consequence stats failed');
+        return reply.code(500).send({
+          error: 'Query failed',
+          message: error.message
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/consequencias
+   * Busca consequencias do tenant por episodio, sinal e periodo
+   *
+   * Sem episodio_id nem periodo completo, considera os ultimos 30 dias.
+   */
+  app.get<{ Querystring: ConsequenciasQuery }>(
+    '/consequencias',
+    async (request, reply) => {
+      const instance = getInstance(request);
+      const { episodio_id, sinal, from, to } = request.query;
+
+      const limit = parseLimitParam(request.query.limit, MAX_CONSEQUENCIAS_LIMIT);
+      if (limit === null) {
+        return reply.code(400).send({ error: 'Invalid limit' });
+      }
+      if (sinal !== undefined && !Object.values(SinalImpacto).includes(sinal as SinalImpacto)) {
+        return reply.code(400).send({ error: 'Invalid sinal' });
+      }
+
+      const fromTs = parseDateParam(from);
+      const toTs = parseDateParam(to);
+      if (fromTs === null || toTs === null) {
+        return reply.code(400).send({ error: 'Invalid date range' });
+      }
+
+      const filtro: ConsequenciaQuery = {
+        episodio_id,
+        sinal: sinal as SinalImpacto | undefined,
+        data_inicio: fromTs,
+        data_fim: toTs,
+        limit
+      };
+
+      try {
+        const resultado = await instance.consequencias.find(filtro);
+
+        return {
+          observacoes: resultado.observacoes,
+          total: resultado.total
+        };
+      } catch (error: any) {
+        request.log.error({ err: error }, 'Consequence query failed');
+        return reply.code(500).send({
+          error: 'Query failed',
+          message: error.message
+        });
+      }
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // MULTIAGENTE (INCREMENTO 39)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * POST /api/v1/multiagente/execucoes
+   * Executa a mesma situacao com varios agentes e agrega as propostas
+   *
+   * Resposta: a execucao completa (propostas por agente com o resultado
+   * da Camada Fechada, votos e tie-break da agregacao, contrato final).
+   * Nao decidir (ex: sem consenso) nao e erro: `contratoFinal` = null.
+   */
+  app.post<{ Body: DecisaoMultiAgenteInput }>(
+    '/multiagente/execucoes',
+    async (request, reply) => {
+      const instance = getInstance(request);
+      const tenantId = request.tenantId!;
+
+      const erros = validarExecucaoMultiAgente(request.body);
+      if (erros.length > 0) {
+        return reply.code(400).send({
+          error: 'Invalid multi-agent run',
+          details: erros
+        });
+      }
+
+      try {
+        const execucao = await instance.orquestrador.DecidirMultiAgente(request.body, {
+          actor: tenantId,
+          emitidoPara: tenantId
+        });
+
+        return reply.code(201).send(execucao);
+      } catch (error: any) {
+        if (error instanceof MultiAgentError) {
+          return reply.code(400).send({
+            error: 'Multi-agent run failed',
+            code: error.code,
+            message: error.message
+          });
+        }
+
+        request.log.error({ err: error }, 'Multi-agent run failed');
+        return reply.code(500).send({
+          error: 'Multi-agent run failed',
+          message: error.message
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/multiagente/execucoes/:runId
+   * Consulta uma execucao multiagente com todas as propostas dos agentes
+   */
+  app.get<{ Params: RunIdParams }>(
+    '/multiagente/execucoes/:runId',
+    async (request, reply) => {
+      const instance = getInstance(request);
+      const { runId } = request.params;
+
+      try {
+        const execucao = await instance.orquestrador.GetExecucaoMultiAgente(runId);
+        if (!execucao) {
+          return reply.code(404).send({ error: 'Multi-agent run not found' });
+        }
+
+        return execucao;
+      } catch (error: any) {
+        request.log.error({ err: error }, 'Multi-agent run query failed');
+        return reply.code(500).send({
+          error: 'Query failed',
+          message: error.message
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/episodios/:id/multiagente
+   * Lista execucoes multiagente de um episodio (da mais antiga para a mais recente)
+   */
+  app.get<{ Params: EpisodioIdParams }>(
+    '/episodios/:id/multiagente',
+    async (request, reply) => {
+      const instance = getInstance(request);
+      const { id } = request.params;
+
+      try {
+        const execucoes = await instance.orquestrador.ListarExecucoesMultiAgente(id);
+
+        return {
+          episodio_id: id,
+          execucoes,
+          total: execucoes.length
+        };
+      } catch (error: any) {
+        request.log.error({ err: error }, 'Multi-agent run query failed');
+        return reply.code(500).send({
+          error: 'Query failed',
+          message: error.message
+        });
+      }
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PESQUISA (INCREMENTO 43)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * POST /api/v1/pesquisa/jobs
+   * Submete um ResearchInput para execucao em segundo plano
+   *
+   * Resposta 202 com o job (status queued). A pesquisa nao grava no Core
+   * nem no EventLog; o relatorio fica em GET /pesquisa/jobs/:jobId/relatorio.
+   */
+  app.post<{ Body: ResearchInput }>(
+    '/pesquisa/jobs',
+    async (request, reply) => {
+      const instance = getInstance(request);
+
+      const erros = validarPesquisa(request.body);
+      if (erros.length > 0) {
+        return reply.code(400).send({
+          error: 'Invalid research input',
+          details: erros
+        });
+      }
+
+      const input: ResearchInput = {
+        ...request.body,
+        situacao: {
+          ...request.body.situacao,
+          id: request.body.situacao.id ?? `sit-pesquisa-${crypto.randomUUID()}`
+        }
+      };
+
+      try {
+        const job = await instance.research.submit(
+          input,
+          request.authContext?.keyId ?? request.tenantId!
+        );
+
+        return reply.code(202).send(resumoJob(job));
+      } catch (error: any) {
+        if (error instanceof ResearchJobError) {
+          return reply.code(429).send({
+            error: 'Research queue full',
+            code: error.code,
+            message: error.message
+          });
+        }
+
+        request.log.error({ err: error }, 'Research job submission failed');
+        return reply.code(500).send({
+          error: 'Research job submission failed',
+          message: error.message
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/pesquisa/jobs/:jobId
+   * Estado do job (inclui a prova de somente-leitura quando encerrado)
+   */
+  app.get<{ Params: ResearchJobIdParams }>(
+    '/pesquisa/jobs/:jobId',
+    async (request, reply) => {
+      if (!isValidResearchJobId(request.params.jobId)) {
+        return reply.code(400).send({ error: 'Invalid research job id' });
+      }
+
+      const instance = getInstance(request);
+
+      try {
+        const job = await instance.research.getJob(request.params.jobId);
+        if (!job) {
+          return reply.code(404).send({ error: 'Research job not found' });
+        }
+
+        return resumoJob(job);
+      } catch (error: any) {
+        request.log.error({ err: error }, 'Research job query failed');
+        return reply.code(500).send({
+          error: 'Query failed',
+          message: error.message
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/pesquisa/jobs/:jobId/relatorio
+   * ResearchReport do job; 409 enquanto o job nao estiver completed
+   */
+  app.get<{ Params: ResearchJobIdParams }>(
+    '/pesquisa/jobs/:jobId/relatorio',
+    async (request, reply) => {
+      const { jobId } = request.params;
+      if (!isValidResearchJobId(jobId)) {
+        return reply.code(400).send({ error: 'Invalid research job id' });
+      }
+
+      const instance = getInstance(request);
+
+      try {
+        const job = await instance.research.getJob(jobId);
+        if (!job) {
+          return reply.code(404).send({ error: 'Research job not found' });
+        }
+
+        if (job.status !== 'completed') {
+          return reply.code(409).send({
+            error: 'Research report not available',
+            status: job.status,
+            message: job.error
+          });
+        }
+
+        const report = await instance.research.getReport(jobId);
+        if (!report) {
+          return reply.code(404).send({ error: 'Research report not found' });
+        }
+
+        return report;
+      } catch (error: any) {
+        request.log.error({ err: error }, 'Research report query failed');
+        return reply.code(500).send({
+          error: 'Query failed',
+          message: error.message
+        });
+      }
+    }
+  );
+
   // ══════════════════════════════════════════════════════════════════════════
   // EVENTLOG STATUS
   // ══════════════════════════════════════════════════════════════════════════
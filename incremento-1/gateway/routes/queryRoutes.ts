@@ -11,7 +11,7 @@
  * IMPORTANTE: Todas as rotas são read-only. Não modificam estado.
  */
 
-import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { FastifyInstance, FastifyPluginAsync, FastifyReply } from 'fastify';
 import { resolveTenantDataDir } from '../../tenant/TenantSecurity';
 import * as path from 'path';
 
@@ -20,6 +20,8 @@ import { AutonomyMandateRepositoryImpl } from '../../camada-3/autonomy/AutonomyM
 import { ReviewCaseRepositoryImpl } from '../../camada-3/review/ReviewCaseRepositoryImpl';
 import { ObservacaoRepositoryImpl } from '../../camada-3/repositorios/implementacao/ObservacaoRepositoryImpl';
 import { EventLogRepositoryImpl } from '../../camada-3/event-log/EventLogRepositoryImpl';
+import { EventLogCursorError } from '../../camada-3/event-log/EventLogIndex';
+import { StorageDriver } from '../../camada-3/storage/StorageTypes';
 
 // ════════════════════════════════════════════════════════════════════════════
 // TIPOS
@@ -50,6 +52,8 @@ interface EventLogFilterQuery extends PaginationQuery {
   tenantId?: string;
   entityType?: string;
   eventType?: string;
+  /** Inc 31: continua após o último evento da página anterior */
+  cursor?: string;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -88,15 +92,31 @@ function parseOffset(offset?: string): number {
   return parsed;
 }
 
+/**
+ * Obtém o driver de armazenamento do tenant (Inc 28).
+ * Tenants no driver JSON leem os arquivos diretamente (undefined);
+ * tenants em SQLite usam a conexão da instância ativa.
+ */
+async function getTenantStorage(app: FastifyInstance, tenantId: string): Promise<StorageDriver | undefined> {
+  const active = app.runtime.get(tenantId);
+  if (active) return active.storage;
+
+  const config = app.registry.get(tenantId);
+  if ((config?.features.storageDriver ?? 'json') === 'json') return undefined;
+
+  const instance = await app.runtime.getOrCreate(tenantId);
+  return instance.storage;
+}
+
 /**
  * Obtém repositórios do tenant
  */
-async function getTenantRepositories(baseDir: string, tenantId: string) {
+async function getTenantRepositories(baseDir: string, tenantId: string, storage?: StorageDriver) {
   const dataDir = await resolveTenantDataDir(baseDir, tenantId);
   return {
-    mandateRepo: new AutonomyMandateRepositoryImpl(path.join(dataDir, 'autonomy_mandates.json')),
-    reviewRepo: new ReviewCaseRepositoryImpl(path.join(dataDir, 'review_cases.json')),
-    observacaoRepo: await ObservacaoRepositoryImpl.create(dataDir),
+    mandateRepo: new AutonomyMandateRepositoryImpl(path.join(dataDir, 'autonomy_mandates.json'), storage),
+    reviewRepo: new ReviewCaseRepositoryImpl(path.join(dataDir, 'review_cases.json'), storage),
+    observacaoRepo: await ObservacaoRepositoryImpl.create(dataDir, storage),
     eventLogRepo: new EventLogRepositoryImpl(dataDir)
   };
 }
@@ -184,7 +204,7 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
         return forbidden(reply, 'Requires global_admin role');
       }
 
-      const { tenantId, limit, offset } = request.query;
+      const { tenantId, limit, offset, entityType, eventType, cursor } = request.query;
       const parsedLimit = parseLimit(limit, 100);
       const parsedOffset = parseOffset(offset);
 
@@ -195,24 +215,35 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
         }
 
         try {
-          const repos = await getTenantRepositories(baseDir, tenantId);
+          const repos = await getTenantRepositories(baseDir, tenantId, await getTenantStorage(app, tenantId));
           await repos.eventLogRepo.init();
-          const allEvents = await repos.eventLogRepo.getAll();
-          const paginated = allEvents.slice(parsedOffset, parsedOffset + parsedLimit);
+
+          // Inc 31: leitura pelos índices, sem carregar o log inteiro.
+          // Com cursor, o offset é relativo ao cursor.
+          const filter = { entidade: entityType, evento: eventType };
+          const page = await repos.eventLogRepo.query({
+            ...filter,
+            after: cursor,
+            limit: parsedOffset + parsedLimit
+          });
 
           return {
-            events: paginated,
-            total: allEvents.length,
+            events: page.entries.slice(parsedOffset),
+            total: await repos.eventLogRepo.countWhere(filter),
             limit: parsedLimit,
-            offset: parsedOffset
+            offset: parsedOffset,
+            nextCursor: page.nextCursor
           };
         } catch (err: any) {
-          return { events: [], total: 0, limit: parsedLimit, offset: parsedOffset };
+          if (err instanceof EventLogCursorError) {
+            return reply.code(400).send({ error: 'BAD_REQUEST', message: 'Invalid cursor' });
+          }
+          return { events: [], total: 0, limit: parsedLimit, offset: parsedOffset, nextCursor: null };
         }
       }
 
       // Sem tenantId: retornar vazio (agregar todos seria muito pesado)
-      return { events: [], total: 0, limit: parsedLimit, offset: parsedOffset };
+      return { events: [], total: 0, limit: parsedLimit, offset: parsedOffset, nextCursor: null };
     }
   );
 
@@ -239,7 +270,7 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
       }
 
       try {
-        const repos = await getTenantRepositories(baseDir, tenantId);
+        const repos = await getTenantRepositories(baseDir, tenantId, await getTenantStorage(app, tenantId));
         const allMandates = await repos.mandateRepo.getAll();
         const parsedLimit = parseLimit(limit);
         const parsedOffset = parseOffset(offset);
@@ -275,7 +306,7 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
       }
 
       try {
-        const repos = await getTenantRepositories(baseDir, tenantId);
+        const repos = await getTenantRepositories(baseDir, tenantId, await getTenantStorage(app, tenantId));
         const mandate = await repos.mandateRepo.getById(mandateId);
 
         if (!mandate) {
@@ -308,7 +339,7 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
       }
 
       try {
-        const repos = await getTenantRepositories(baseDir, tenantId);
+        const repos = await getTenantRepositories(baseDir, tenantId, await getTenantStorage(app, tenantId));
         const allCases = await repos.reviewRepo.list(tenantId, {});
         const parsedLimit = parseLimit(limit);
         const parsedOffset = parseOffset(offset);
@@ -344,7 +375,7 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
       }
 
       try {
-        const repos = await getTenantRepositories(baseDir, tenantId);
+        const repos = await getTenantRepositories(baseDir, tenantId, await getTenantStorage(app, tenantId));
         const reviewCase = await repos.reviewRepo.getById(tenantId, reviewId);
 
         if (!reviewCase) {
@@ -377,7 +408,7 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
       }
 
       try {
-        const repos = await getTenantRepositories(baseDir, tenantId);
+        const repos = await getTenantRepositories(baseDir, tenantId, await getTenantStorage(app, tenantId));
         // Usar getByDateRange com intervalo amplo como workaround para listar todos
         const allObs = await repos.observacaoRepo.getByDateRange(
           new Date('2000-01-01'),
@@ -417,7 +448,7 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
       }
 
       try {
-        const repos = await getTenantRepositories(baseDir, tenantId);
+        const repos = await getTenantRepositories(baseDir, tenantId, await getTenantStorage(app, tenantId));
         const observacao = await repos.observacaoRepo.getById(observacaoId);
 
         if (!observacao) {
@@ -449,7 +480,7 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
       }
 
       try {
-        const repos = await getTenantRepositories(baseDir, tenantId);
+        const repos = await getTenantRepositories(baseDir, tenantId, await getTenantStorage(app, tenantId));
 
         // Contagem de mandatos
         const allMandates = await repos.mandateRepo.getAll();
@@ -467,8 +498,7 @@ export const queryRoutes: FastifyPluginAsync = async (app) => {
 
         // Eventos recentes
         await repos.eventLogRepo.init();
-        const allEvents = await repos.eventLogRepo.getAll();
-        const lastEvents = allEvents.slice(-10).reverse();
+        const { entries: lastEvents } = await repos.eventLogRepo.query({ direction: 'desc', limit: 10 });
 
         return {
           tenantId,
@@ -14,6 +14,8 @@
  *   GATEWAY_ADMIN_TOKEN   - Token para API admin (obrigatorio em prod)
  *   GATEWAY_CORS_ORIGINS  - Origens CORS (comma-separated, default: *)
  *   GATEWAY_LOG_LEVEL     - Nivel de log (default: info)
+ *   GATEWAY_BACKUP_INTERVAL_MINUTES - Backup agendado por tenant (default: 0 = desativado)
+ *   GATEWAY_BACKUP_KEEP_DAILY/_WEEKLY/_MONTHLY - Retencao (default: 7/4/12)
  *   NODE_ENV              - Ambiente (development/production/test)
  */
 
@@ -40,6 +42,7 @@ async function main(): Promise<void> {
   console.log(`   Env:      ${config.nodeEnv}`);
   console.log(`   Log:      ${config.logLevel}`);
   console.log(`   Admin:    ${config.adminToken ? '✓ configured' : '✗ not set'}`);
+  console.log(`   Backup:   ${config.backupSchedule?.intervalMs ? `every ${config.backupSchedule.intervalMs / 60000} min` : 'manual only'}`);
 
   // Construir app
   const app = await buildApp({ config });
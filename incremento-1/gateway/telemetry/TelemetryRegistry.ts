@@ -88,6 +88,10 @@ class Gauge {
     this.inc(labels, -value);
   }
 
+  remove(labels: MetricLabels): void {
+    this.values.delete(labelsToKey(labels));
+  }
+
   getValues(): Array<{ value: number; labels: MetricLabels }> {
     return Array.from(this.values.values());
   }
@@ -196,6 +200,14 @@ class TelemetryRegistry {
       METRIC_NAMES.RATE_LIMITED_TOTAL,
       new Counter(METRIC_DEFINITIONS[METRIC_NAMES.RATE_LIMITED_TOTAL])
     );
+    this.counters.set(
+      METRIC_NAMES.BACKUP_SCHEDULED_TOTAL,
+      new Counter(METRIC_DEFINITIONS[METRIC_NAMES.BACKUP_SCHEDULED_TOTAL])
+    );
+    this.counters.set(
+      METRIC_NAMES.BACKUP_PRUNED_TOTAL,
+      new Counter(METRIC_DEFINITIONS[METRIC_NAMES.BACKUP_PRUNED_TOTAL])
+    );
 
     // Gauges
     this.gauges.set(
@@ -214,6 +226,22 @@ class TelemetryRegistry {
       METRIC_NAMES.PROCESS_MEMORY_BYTES,
       new Gauge(METRIC_DEFINITIONS[METRIC_NAMES.PROCESS_MEMORY_BYTES])
     );
+    this.gauges.set(
+      METRIC_NAMES.BACKUP_LAST_SUCCESS_TIMESTAMP,
+      new Gauge(METRIC_DEFINITIONS[METRIC_NAMES.BACKUP_LAST_SUCCESS_TIMESTAMP])
+    );
+    this.gauges.set(
+      METRIC_NAMES.BACKUP_SCHEDULER_INTERVAL_SECONDS,
+      new Gauge(METRIC_DEFINITIONS[METRIC_NAMES.BACKUP_SCHEDULER_INTERVAL_SECONDS])
+    );
+    this.gauges.set(
+      METRIC_NAMES.BACKUP_SCHEDULER_LAST_RUN_TIMESTAMP,
+      new Gauge(METRIC_DEFINITIONS[METRIC_NAMES.BACKUP_SCHEDULER_LAST_RUN_TIMESTAMP])
+    );
+    this.gauges.set(
+      METRIC_NAMES.BACKUP_SCHEDULER_FAILING_TENANTS,
+      new Gauge(METRIC_DEFINITIONS[METRIC_NAMES.BACKUP_SCHEDULER_FAILING_TENANTS])
+    );
 
     // Histograms
     this.histograms.set(
@@ -378,6 +406,53 @@ class TelemetryRegistry {
     this.setGauge(METRIC_NAMES.ACTIVE_INSTANCES, { tenant_id: tenantId }, count);
   }
 
+  // ──────────────────────────────────────────────────────────────────────────
+  // BACKUP AGENDADO (Inc 45)
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Registra o intervalo do agendador de backups (0 = parado)
+   */
+  setBackupSchedulerInterval(intervalSeconds: number): void {
+    this.setGauge(METRIC_NAMES.BACKUP_SCHEDULER_INTERVAL_SECONDS, {}, intervalSeconds);
+  }
+
+  /**
+   * Registra uma execução do agendador de backups
+   */
+  recordBackupSchedulerRun(failingTenants: number): void {
+    this.setGauge(METRIC_NAMES.BACKUP_SCHEDULER_LAST_RUN_TIMESTAMP, {}, Date.now() / 1000);
+    this.setGauge(METRIC_NAMES.BACKUP_SCHEDULER_FAILING_TENANTS, {}, failingTenants);
+  }
+
+  /**
+   * Registra uma tentativa de backup agendado
+   */
+  incScheduledBackup(tenantId: string, result: 'success' | 'failure'): void {
+    this.incCounter(METRIC_NAMES.BACKUP_SCHEDULED_TOTAL, { tenant_id: tenantId, result });
+  }
+
+  /**
+   * Registra o backup agendado mais recente do tenant
+   */
+  setBackupLastSuccess(tenantId: string, createdAt: Date): void {
+    this.setGauge(METRIC_NAMES.BACKUP_LAST_SUCCESS_TIMESTAMP, { tenant_id: tenantId }, createdAt.getTime() / 1000);
+  }
+
+  /**
+   * Remove a série do tenant que deixou de ter backup agendado
+   */
+  removeBackupLastSuccess(tenantId: string): void {
+    this.gauges.get(METRIC_NAMES.BACKUP_LAST_SUCCESS_TIMESTAMP)?.remove({ tenant_id: tenantId });
+  }
+
+  /**
+   * Incrementa contador de backups removidos pela retenção
+   */
+  incBackupsPruned(tenantId: string, count: number): void {
+    this.incCounter(METRIC_NAMES.BACKUP_PRUNED_TOTAL, { tenant_id: tenantId }, count);
+  }
+
   // ──────────────────────────────────────────────────────────────────────────
   // EXPORT
   // ──────────────────────────────────────────────────────────────────────────
@@ -170,7 +170,15 @@ export const METRIC_NAMES = {
 
   // Process
   PROCESS_UPTIME_SECONDS: 'libervia_process_uptime_seconds',
-  PROCESS_MEMORY_BYTES: 'libervia_process_memory_bytes'
+  PROCESS_MEMORY_BYTES: 'libervia_process_memory_bytes',
+
+  // Backup agendado (Inc 45)
+  BACKUP_SCHEDULED_TOTAL: 'libervia_backup_scheduled_total',
+  BACKUP_PRUNED_TOTAL: 'libervia_backup_pruned_total',
+  BACKUP_LAST_SUCCESS_TIMESTAMP: 'libervia_backup_last_success_timestamp_seconds',
+  BACKUP_SCHEDULER_INTERVAL_SECONDS: 'libervia_backup_scheduler_interval_seconds',
+  BACKUP_SCHEDULER_LAST_RUN_TIMESTAMP: 'libervia_backup_scheduler_last_run_timestamp_seconds',
+  BACKUP_SCHEDULER_FAILING_TENANTS: 'libervia_backup_scheduler_failing_tenants'
 } as const;
 
 /**
@@ -236,5 +244,41 @@ export const METRIC_DEFINITIONS: Record<string, MetricDefinition> = {
     help: 'Process memory usage in bytes',
     type: 'gauge',
     labels: ['type']
+  },
+  [METRIC_NAMES.BACKUP_SCHEDULED_TOTAL]: {
+    name: METRIC_NAMES.BACKUP_SCHEDULED_TOTAL,
+    help: 'Total number of scheduled backup attempts',
+    type: 'counter',
+    labels: ['tenant_id', 'result']
+  },
+  [METRIC_NAMES.BACKUP_PRUNED_TOTAL]: {
+    name: METRIC_NAMES.BACKUP_PRUNED_TOTAL,
+    help: 'Total number of backups removed by the retention policy',
+    type: 'counter',
+    labels: ['tenant_id']
+  },
+  [METRIC_NAMES.BACKUP_LAST_SUCCESS_TIMESTAMP]: {
+    name: METRIC_NAMES.BACKUP_LAST_SUCCESS_TIMESTAMP,
+    help: 'Unix timestamp of the latest scheduled backup',
+    type: 'gauge',
+    labels: ['tenant_id']
+  },
+  [METRIC_NAMES.BACKUP_SCHEDULER_INTERVAL_SECONDS]: {
+    name: METRIC_NAMES.BACKUP_SCHEDULER_INTERVAL_SECONDS,
+    help: 'Configured interval between scheduled backups (0 = scheduler stopped)',
+    type: 'gauge',
+    labels: []
+  },
+  [METRIC_NAMES.BACKUP_SCHEDULER_LAST_RUN_TIMESTAMP]: {
+    name: METRIC_NAMES.BACKUP_SCHEDULER_LAST_RUN_TIMESTAMP,
+    help: 'Unix timestamp of the latest backup scheduler run',
+    type: 'gauge',
+    labels: []
+  },
+  [METRIC_NAMES.BACKUP_SCHEDULER_FAILING_TENANTS]: {
+    name: METRIC_NAMES.BACKUP_SCHEDULER_FAILING_TENANTS,
+    help: 'Tenants whose latest scheduled backup attempt failed',
+    type: 'gauge',
+    labels: []
   }
 };
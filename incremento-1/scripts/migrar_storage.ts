@@ -0,0 +1,150 @@
+#!/usr/bin/env ts-node
+/**
+ * MIGRAÇÃO DE STORAGE (INCREMENTO 28)
+ *
+ * Migra as coleções da Camada 3 de um dataDir entre drivers
+ * (JSON → SQLite por padrão) e verifica o resultado:
+ * - Contagem e hash de cada coleção (origem x destino)
+ * - Cadeia do EventLog íntegra
+ * - Toda entidade criada no EventLog presente no destino
+ *
+ * Os arquivos de origem não são removidos (rollback = voltar o driver).
+ *
+ * Uso:
+ *   ts-node scripts/migrar_storage.ts <DATA_DIR> [--to=sqlite] [--from=json] [--no-eventlog]
+ *   ts-node scripts/migrar_storage.ts --tenant=<ID> --base-dir=<DIR> [--to=sqlite] [--activate]
+ *
+ * --activate: após migração bem-sucedida, grava features.storageDriver
+ *             no registry do tenant (efetivo na próxima instância do Core).
+ *
+ * Exemplo:
+ *   npm run storage:migrate -- --tenant=acme-corp --base-dir=./tenants --activate
+ */
+
+import { migrateTenantStorage, StorageMigrationReport } from '../camada-3/storage/StorageMigration';
+import { isStorageDriverKind } from '../camada-3/storage/StorageFactory';
+import { StorageDriverKind } from '../camada-3/storage/StorageTypes';
+import { TenantRegistry } from '../tenant/TenantRegistry';
+import { resolveTenantDataDir } from '../tenant/TenantSecurity';
+
+// ════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════
+
+function log(msg: string): void {
+  console.log(msg);
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const found = args.find(a => a.startsWith(prefix));
+  return found ? found.slice(prefix.length) : undefined;
+}
+
+function parseDriver(value: string | undefined, fallback: StorageDriverKind): StorageDriverKind {
+  if (value === undefined) return fallback;
+  if (!isStorageDriverKind(value)) {
+    throw new Error(`Driver inválido: ${value} (use json ou sqlite)`);
+  }
+  return value;
+}
+
+function printReport(report: StorageMigrationReport): void {
+  log('Coleções:');
+  for (const c of report.collections) {
+    log(`  ${c.ok ? 'OK  ' : 'FALHA'} ${c.collection}: ${c.sourceCount} → ${c.targetCount}`);
+  }
+
+  if (report.eventLog) {
+    log('');
+    log(`EventLog: ${report.eventLog.totalEvents} eventos, cadeia ${report.eventLog.chainValid ? 'válida' : 'INVÁLIDA'}`);
+    log(`  Entidades ausentes: ${report.eventLog.missingEntities.length}`);
+    log(`  payload_hash divergente: ${report.eventLog.payloadMismatches.length}`);
+  }
+
+  if (report.problems.length > 0) {
+    log('');
+    log('Problemas:');
+    for (const problem of report.problems) {
+      log(`  - ${problem}`);
+    }
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// MAIN
+// ════════════════════════════════════════════════════════════════════════
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const tenantId = getOption(args, 'tenant');
+  const baseDir = getOption(args, 'base-dir');
+  const target = parseDriver(getOption(args, 'to'), 'sqlite');
+  const source = parseDriver(getOption(args, 'from'), 'json');
+  const activate = args.includes('--activate');
+
+  log('════════════════════════════════════════════════════════════════════════');
+  log('MIGRAÇÃO DE STORAGE');
+  log('════════════════════════════════════════════════════════════════════════');
+
+  let dataDir: string;
+  let registry: TenantRegistry | null = null;
+
+  if (tenantId) {
+    if (!baseDir) {
+      log('Uso: npm run storage:migrate -- --tenant=<ID> --base-dir=<DIR> [--activate]');
+      process.exit(1);
+    }
+    registry = await TenantRegistry.create(baseDir);
+    if (!registry.get(tenantId)) {
+      throw new Error(`Tenant nao encontrado: ${tenantId}`);
+    }
+    dataDir = await resolveTenantDataDir(baseDir, tenantId);
+  } else {
+    const positional = args.filter(a => !a.startsWith('--'));
+    if (positional.length === 0) {
+      log('Uso: npm run storage:migrate -- <DATA_DIR> [--to=sqlite] [--from=json] [--no-eventlog]');
+      process.exit(1);
+    }
+    if (activate) {
+      log('--activate exige --tenant e --base-dir');
+      process.exit(1);
+    }
+    dataDir = positional[0];
+  }
+
+  log(`DataDir: ${dataDir}`);
+  log(`Origem: ${source}  Destino: ${target}`);
+  log('');
+
+  const report = await migrateTenantStorage({
+    dataDir,
+    source,
+    target,
+    verifyEventLog: !args.includes('--no-eventlog')
+  });
+
+  printReport(report);
+  log('');
+  log('════════════════════════════════════════════════════════════════════════');
+
+  if (!report.ok) {
+    log('MIGRAÇÃO FALHOU (driver do tenant não foi alterado)');
+    process.exit(1);
+  }
+
+  log('MIGRAÇÃO COMPLETA');
+
+  if (registry && tenantId && activate) {
+    await registry.update(tenantId, { features: { storageDriver: target } });
+    log(`Tenant ${tenantId} agora usa o driver ${target}`);
+  }
+}
+
+// Executar apenas se chamado diretamente
+if (require.main === module) {
+  main().catch(err => {
+    console.error('ERRO:', err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,167 @@
+#!/usr/bin/env ts-node
+/**
+ * RECONSTRUÇÃO DOS REPOSITÓRIOS A PARTIR DO EVENTLOG (INCREMENTO 35)
+ *
+ * Projeta episódios, decisões, contratos, mandatos e casos de revisão
+ * a partir dos envelopes do EventLog e:
+ * - --verify: apenas lista as divergências com os repositórios
+ * - padrão: grava registros ausentes, corrige campos divergentes e
+ *   regrava coleções ilegíveis (ex: JSON corrompido)
+ *
+ * Deve rodar com o tenant parado (sem instância do Core ativa).
+ *
+ * Uso:
+ *   ts-node scripts/reconstruir_repositorios.ts <DATA_DIR> [--driver=json] [--verify] [--dry-run]
+ *   ts-node scripts/reconstruir_repositorios.ts --tenant=<ID> --base-dir=<DIR> [--verify] [--dry-run]
+ *
+ * Exemplo:
+ *   npm run eventlog:rebuild -- --tenant=acme-corp --base-dir=./tenants --dry-run
+ */
+
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { verifyProjection, rebuildFromEventLog } from '../camada-3/projection/ProjectionService';
+import { ProjectionReport, ProjectionRebuildReport } from '../camada-3/projection/ProjectionTypes';
+import { createStorageDriver, isStorageDriverKind } from '../camada-3/storage/StorageFactory';
+import { StorageDriverKind } from '../camada-3/storage/StorageTypes';
+import { TenantRegistry } from '../tenant/TenantRegistry';
+import { resolveTenantDataDir } from '../tenant/TenantSecurity';
+
+// ════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════
+
+function log(msg: string): void {
+  console.log(msg);
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const found = args.find(a => a.startsWith(prefix));
+  return found ? found.slice(prefix.length) : undefined;
+}
+
+function parseDriver(value: string | undefined, fallback: StorageDriverKind): StorageDriverKind {
+  if (value === undefined) return fallback;
+  if (!isStorageDriverKind(value)) {
+    throw new Error(`Driver inválido: ${value} (use json ou sqlite)`);
+  }
+  return value;
+}
+
+function printSkipped(skipped: ProjectionReport['skipped']): void {
+  if (skipped.length === 0) return;
+  log('');
+  log(`Eventos não aplicados: ${skipped.length}`);
+  for (const s of skipped.slice(0, 20)) {
+    log(`  - ${s.evento} ${s.entidadeId}: ${s.reason}`);
+  }
+  if (skipped.length > 20) log(`  ... e mais ${skipped.length - 20}`);
+}
+
+function printVerification(report: ProjectionReport): void {
+  log(`Eventos: ${report.eventsRead} lidos, ${report.eventsApplied} aplicados`);
+  log('');
+  log('Coleções:');
+  for (const c of report.collections) {
+    const status = !c.storeReadable ? 'ILEGÍVEL' : c.divergent === 0 ? 'OK  ' : 'DIVERGE';
+    log(`  ${status} ${c.collection}: ${c.projected} projetados, ${c.stored} gravados, ${c.divergent} divergentes`);
+    if (c.storeError) log(`         ${c.storeError}`);
+  }
+
+  if (report.divergences.length > 0) {
+    log('');
+    log('Divergências:');
+    for (const d of report.divergences) {
+      log(`  - ${d.collection}/${d.id}: ${d.kind}${d.field ? ` (${d.field})` : ''}`);
+    }
+  }
+
+  printSkipped(report.skipped);
+}
+
+function printRebuild(report: ProjectionRebuildReport): void {
+  log('Coleções:');
+  for (const c of report.collections) {
+    log(
+      `  ${c.storeReadable ? '' : '[ilegível] '}${c.collection}: ` +
+      `${c.restored} restaurados, ${c.repaired} corrigidos, ${c.kept} mantidos (${c.written} no total)`
+    );
+  }
+  printSkipped(report.skipped);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// MAIN
+// ════════════════════════════════════════════════════════════════════════
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const tenantId = getOption(args, 'tenant');
+  const baseDir = getOption(args, 'base-dir');
+  const verifyOnly = args.includes('--verify');
+  const dryRun = args.includes('--dry-run');
+
+  log('════════════════════════════════════════════════════════════════════════');
+  log('RECONSTRUÇÃO DOS REPOSITÓRIOS A PARTIR DO EVENTLOG');
+  log('════════════════════════════════════════════════════════════════════════');
+
+  let dataDir: string;
+  let driverKind: StorageDriverKind;
+
+  if (tenantId) {
+    if (!baseDir) {
+      log('Uso: npm run eventlog:rebuild -- --tenant=<ID> --base-dir=<DIR> [--verify] [--dry-run]');
+      process.exit(1);
+    }
+    const registry = await TenantRegistry.create(baseDir);
+    const tenant = registry.get(tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant nao encontrado: ${tenantId}`);
+    }
+    dataDir = await resolveTenantDataDir(baseDir, tenantId);
+    driverKind = parseDriver(getOption(args, 'driver'), tenant.features.storageDriver ?? 'json');
+  } else {
+    const positional = args.filter(a => !a.startsWith('--'));
+    if (positional.length === 0) {
+      log('Uso: npm run eventlog:rebuild -- <DATA_DIR> [--driver=json] [--verify] [--dry-run]');
+      process.exit(1);
+    }
+    dataDir = positional[0];
+    driverKind = parseDriver(getOption(args, 'driver'), 'json');
+  }
+
+  log(`DataDir: ${dataDir}`);
+  log(`Driver: ${driverKind}`);
+  log('');
+
+  const eventLog = await EventLogRepositoryImpl.create(dataDir);
+  const storage = await createStorageDriver(driverKind, dataDir);
+
+  try {
+    if (verifyOnly) {
+      const report = await verifyProjection(eventLog, storage);
+      printVerification(report);
+      log('');
+      log('════════════════════════════════════════════════════════════════════════');
+      log(report.consistent ? 'REPOSITÓRIOS CONSISTENTES COM O EVENTLOG' : 'DIVERGÊNCIAS ENCONTRADAS');
+      if (!report.consistent) process.exitCode = 1;
+      return;
+    }
+
+    const report = await rebuildFromEventLog(eventLog, storage, { dryRun });
+    printRebuild(report);
+    log('');
+    log('════════════════════════════════════════════════════════════════════════');
+    log(dryRun ? 'SIMULAÇÃO COMPLETA (nada foi gravado)' : 'RECONSTRUÇÃO COMPLETA');
+  } finally {
+    await storage.close();
+  }
+}
+
+// Executar apenas se chamado diretamente
+if (require.main === module) {
+  main().catch(err => {
+    console.error('ERRO:', err);
+    process.exit(1);
+  });
+}
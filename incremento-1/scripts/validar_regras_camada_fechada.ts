@@ -0,0 +1,82 @@
+#!/usr/bin/env ts-node
+/**
+ * VALIDAÇÃO DE REGRAS DA CAMADA FECHADA (INCREMENTO 48)
+ *
+ * Valida arquivos JSON de conjunto de regras do tenant antes da instalação
+ * (PUT /admin/tenants/:id/closed-layer/rule-set). Usa o mesmo validador
+ * do gateway, então um arquivo aceito aqui é aceito na instalação.
+ *
+ * Uso:
+ *   ts-node scripts/validar_regras_camada_fechada.ts <ARQUIVO.json> [ARQUIVO.json ...]
+ *
+ * Exemplo:
+ *   npm run closed-layer:validate -- regras/bancos-br.json
+ *
+ * Código de saída: 0 se todos os arquivos são válidos, 1 caso contrário.
+ */
+
+import * as fs from 'fs/promises';
+
+import { validateClosedLayerRuleSet } from '../camada-3/camada-fechada';
+
+// ════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════
+
+function log(msg: string): void {
+  console.log(msg);
+}
+
+async function validarArquivo(arquivo: string): Promise<boolean> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(arquivo, 'utf-8'));
+  } catch (err: any) {
+    log(`FALHA ${arquivo}: JSON ilegível (${err.message})`);
+    return false;
+  }
+
+  const validation = validateClosedLayerRuleSet(raw);
+  if (!validation.valid || !validation.ruleSet) {
+    log(`FALHA ${arquivo}:`);
+    for (const error of validation.errors) {
+      log(`  - ${error}`);
+    }
+    return false;
+  }
+
+  const { ruleSetId, version, rules } = validation.ruleSet;
+  log(`OK    ${arquivo}: ${ruleSetId} v${version} (${rules.length} regra(s))`);
+  for (const rule of rules) {
+    log(`  - ${rule.id} [${rule.type}]`);
+  }
+  return true;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// MAIN
+// ════════════════════════════════════════════════════════════════════════
+
+async function main(): Promise<void> {
+  const arquivos = process.argv.slice(2).filter(a => !a.startsWith('--'));
+
+  if (arquivos.length === 0) {
+    log('Uso: npm run closed-layer:validate -- <ARQUIVO.json> [ARQUIVO.json ...]');
+    process.exit(1);
+  }
+
+  let ok = true;
+  for (const arquivo of arquivos) {
+    if (!(await validarArquivo(arquivo))) ok = false;
+  }
+
+  process.exit(ok ? 0 : 1);
+}
+
+// Executar apenas se chamado diretamente
+if (require.main === module) {
+  main().catch(err => {
+    console.error('ERRO:', err);
+    process.exit(1);
+  });
+}
@@ -19,16 +19,63 @@ import {
   CreateKeyInput,
   KeyCreatedResponse,
   KeyListResponse,
+  // Webhooks
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  WebhookCreatedResponse,
+  WebhookListResponse,
+  WebhookInfo,
+  WebhookDeliveriesQuery,
+  WebhookDeliveriesResponse,
+  // Regras da Camada Fechada
+  ClosedLayerRuleSet,
+  ClosedLayerRuleSetResponse,
+  ClosedLayerRuleSetValidation,
+  // Mandatos
+  GrantMandateInput,
+  AutonomyMandateInfo,
+  ActiveMandatesResponse,
+  // Modelos de mandato
+  MandateTemplateSpec,
+  MandateTemplateInfo,
+  MandateTemplatesResponse,
+  MandateTemplateResponse,
+  MandateTemplateUpdateResponse,
+  GrantMandatesFromTemplateInput,
+  GrantMandatesFromTemplateResponse,
+  MandateRegrantPlan,
+  RegrantMandatesInput,
+  RegrantMandatesResponse,
+  // Revisão
+  ReviewCaseResponse,
+  ResolveReviewInput,
+  ResolveReviewResponse,
+  // Backup e DR
+  BackupsResponse,
+  CreateBackupInput,
+  BackupValidationResult,
+  BackupRewrapResult,
+  RestoreBackupInput,
+  BackupJob,
+  BackupJobsResponse,
+  DRProcedure,
+  DRProceduresResponse,
+  StartDRProcedureInput,
   // Audit
   AuditVerifyResponse,
   EventListResponse,
   ExportQuery,
   ReplayQuery,
+  WitnessBundleResponse,
+  MerkleRootsResponse,
+  InclusionProof,
+  ProjectionReport,
   // Query
   QueryTenantsResponse,
   QueryInstancesResponse,
   QueryMetricsResponse,
   QueryEventLogResponse,
+  QueryEventLogFilter,
   QueryMandatesResponse,
   QueryReviewsResponse,
   QueryConsequencesResponse,
@@ -39,9 +86,28 @@ import {
   // Public
   DecisaoInput,
   DecisaoResponse,
+  ValidacaoDecisao,
+  CriarDecisaoOptions,
   EpisodioStatusResponse,
   EventosQueryResponse,
+  EventosQuery,
   EventLogStatusResponse,
+  EventLogEntry,
+  EventStreamOptions,
+  EventSubscription,
+  RegistrarConsequenciaInput,
+  ConsequenciaRegistradaResponse,
+  ConsequenciasContratoQuery,
+  ConsequenciasContratoResponse,
+  ConsequenciaStatsResponse,
+  ConsequenciasQuery,
+  ConsequenciasResponse,
+  ExecucaoMultiAgenteInput,
+  ExecucaoMultiAgente,
+  ExecucoesMultiAgenteResponse,
+  PesquisaInput,
+  JobPesquisa,
+  RelatorioPesquisa,
   SuccessResponse,
   LiberviaErrorResponse
 } from './types';
@@ -53,6 +119,8 @@ import {
   ResponseMetadata
 } from './errors';
 
+import { subscribeEvents } from './events';
+
 // ════════════════════════════════════════════════════════════════════════════
 // CONFIGURAÇÃO
 // ════════════════════════════════════════════════════════════════════════════
@@ -156,40 +224,8 @@ export class LiberviaClient {
   ): Promise<RequestResult<T>> {
     const { body, query, headers = {}, requireTenantId = false } = options;
 
-    // Construir URL com query params
-    let url = `${this.baseUrl}${path}`;
-    if (query) {
-      const params = new URLSearchParams();
-      for (const [key, value] of Object.entries(query)) {
-        if (value !== undefined) {
-          params.append(key, String(value));
-        }
-      }
-      const queryString = params.toString();
-      if (queryString) {
-        url += `?${queryString}`;
-      }
-    }
-
-    // Construir headers
-    const requestHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-      Authorization: `Bearer ${this.token}`,
-      ...this.customHeaders,
-      ...headers
-    };
-
-    // Adicionar X-Tenant-Id se configurado ou requerido
-    if (this.tenantId) {
-      requestHeaders['X-Tenant-Id'] = this.tenantId;
-    } else if (requireTenantId) {
-      throw new LiberviaError(
-        'tenantId is required for this operation',
-        400,
-        'TENANT_ID_REQUIRED'
-      );
-    }
+    const url = this.buildUrl(path, query);
+    const requestHeaders = this.buildHeaders(headers, requireTenantId);
 
     // Executar request
     let response: Response;
@@ -247,6 +283,54 @@ export class LiberviaClient {
     };
   }
 
+  /**
+   * Abre uma resposta em streaming (text/event-stream), sem timeout.
+   * Inc 36: usada por public.assinarEventos(); o chamador lê `response.body`.
+   */
+  async openStream(
+    path: string,
+    options: {
+      query?: Record<string, string | number | boolean | undefined>;
+      headers?: Record<string, string>;
+      requireTenantId?: boolean;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<Response> {
+    const { query, headers = {}, requireTenantId = false, signal } = options;
+
+    const url = this.buildUrl(path, query);
+    const requestHeaders = this.buildHeaders(
+      { Accept: 'text/event-stream', ...headers },
+      requireTenantId
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'GET', headers: requestHeaders, signal });
+    } catch (error: unknown) {
+      throw new NetworkError(
+        `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (!response.ok) {
+      let responseBody: LiberviaErrorResponse;
+      try {
+        responseBody = await response.json() as LiberviaErrorResponse;
+      } catch {
+        responseBody = {} as LiberviaErrorResponse;
+      }
+      throw createErrorFromResponse(
+        response.status,
+        responseBody,
+        response.headers.get('x-request-id') || undefined
+      );
+    }
+
+    return response;
+  }
+
   /**
    * Executa requisição e retorna apenas os dados (sem metadados)
    */
@@ -263,6 +347,58 @@ export class LiberviaClient {
     const result = await this.request<T>(method, path, options);
     return result.data;
   }
+
+  /**
+   * Constrói URL com query params
+   */
+  private buildUrl(
+    path: string,
+    query?: Record<string, string | number | boolean | undefined>
+  ): string {
+    let url = `${this.baseUrl}${path}`;
+    if (query) {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined) {
+          params.append(key, String(value));
+        }
+      }
+      const queryString = params.toString();
+      if (queryString) {
+        url += `?${queryString}`;
+      }
+    }
+    return url;
+  }
+
+  /**
+   * Constrói headers (autenticação, X-Tenant-Id, customizados)
+   */
+  private buildHeaders(
+    headers: Record<string, string>,
+    requireTenantId: boolean
+  ): Record<string, string> {
+    const requestHeaders: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      Authorization: `Bearer ${this.token}`,
+      ...this.customHeaders,
+      ...headers
+    };
+
+    // Adicionar X-Tenant-Id se configurado ou requerido
+    if (this.tenantId) {
+      requestHeaders['X-Tenant-Id'] = this.tenantId;
+    } else if (requireTenantId) {
+      throw new LiberviaError(
+        'tenantId is required for this operation',
+        400,
+        'TENANT_ID_REQUIRED'
+      );
+    }
+
+    return requestHeaders;
+  }
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -364,6 +500,299 @@ class AdminAPI {
     });
   }
 
+  // ════════════════════════════════════════════════════════════════════════
+  // WEBHOOKS (Inc 37)
+  // ════════════════════════════════════════════════════════════════════════
+
+  /** Lista assinaturas de webhook */
+  async listWebhooks(tenantId: string): Promise<WebhookListResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/webhooks`);
+  }
+
+  /** Cria assinatura de webhook (segredo retornado uma única vez) */
+  async createWebhook(tenantId: string, input: CreateWebhookInput): Promise<WebhookCreatedResponse> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/webhooks`, { body: input });
+  }
+
+  /** Atualiza assinatura (URL, eventos, status) */
+  async updateWebhook(tenantId: string, webhookId: string, input: UpdateWebhookInput): Promise<WebhookInfo> {
+    return this.client.requestData('PATCH', `/admin/tenants/${tenantId}/webhooks/${webhookId}`, {
+      body: input
+    });
+  }
+
+  /** Remove assinatura */
+  async deleteWebhook(tenantId: string, webhookId: string): Promise<SuccessResponse> {
+    return this.client.requestData('DELETE', `/admin/tenants/${tenantId}/webhooks/${webhookId}`);
+  }
+
+  /** Gera novo segredo (o anterior deixa de valer) */
+  async rotateWebhookSecret(tenantId: string, webhookId: string): Promise<WebhookCreatedResponse> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/webhooks/${webhookId}/rotate-secret`);
+  }
+
+  /** Entregas da assinatura (mais recentes primeiro) */
+  async listWebhookDeliveries(
+    tenantId: string,
+    webhookId: string,
+    query?: WebhookDeliveriesQuery
+  ): Promise<WebhookDeliveriesResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/webhooks/${webhookId}/deliveries`, {
+      query: query as Record<string, string | number | boolean | undefined>
+    });
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // REGRAS DA CAMADA FECHADA (Inc 48)
+  // ════════════════════════════════════════════════════════════════════════
+
+  /** Conjunto de regras do tenant (null = apenas embutidas) */
+  async getClosedLayerRuleSet(tenantId: string): Promise<ClosedLayerRuleSetResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/closed-layer/rule-set`);
+  }
+
+  /** Valida um conjunto de regras sem instalar */
+  async validateClosedLayerRuleSet(
+    tenantId: string,
+    ruleSet: ClosedLayerRuleSet
+  ): Promise<ClosedLayerRuleSetValidation> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/closed-layer/rule-set/validate`, {
+      body: ruleSet
+    });
+  }
+
+  /** Instala ou substitui o conjunto (requer global_admin; versão deve avançar) */
+  async setClosedLayerRuleSet(tenantId: string, ruleSet: ClosedLayerRuleSet): Promise<ClosedLayerRuleSetResponse> {
+    return this.client.requestData('PUT', `/admin/tenants/${tenantId}/closed-layer/rule-set`, { body: ruleSet });
+  }
+
+  /** Remove o conjunto (requer global_admin) */
+  async deleteClosedLayerRuleSet(tenantId: string): Promise<SuccessResponse> {
+    return this.client.requestData('DELETE', `/admin/tenants/${tenantId}/closed-layer/rule-set`);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // MANDATOS DE AUTONOMIA (Inc 41)
+  // ════════════════════════════════════════════════════════════════════════
+
+  /** Concede mandato (concedido_por = keyId do token do cliente) */
+  async grantMandate(tenantId: string, input: GrantMandateInput): Promise<AutonomyMandateInfo> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/mandates`, { body: input });
+  }
+
+  /** Mandato ativo de cada agente (ou só do agentId informado) */
+  async listActiveMandates(tenantId: string, agentId?: string): Promise<ActiveMandatesResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/mandates/active`, {
+      query: { agentId }
+    });
+  }
+
+  /** Revoga mandato (motivo obrigatório) */
+  async revokeMandate(tenantId: string, mandateId: string, motivo: string): Promise<AutonomyMandateInfo> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/mandates/${mandateId}/revoke`, {
+      body: { motivo }
+    });
+  }
+
+  /** Retoma mandato suspenso por consequência */
+  async resumeMandate(tenantId: string, mandateId: string, motivo?: string): Promise<AutonomyMandateInfo> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/mandates/${mandateId}/resume`, {
+      body: motivo !== undefined ? { motivo } : {}
+    });
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // MODELOS DE MANDATO (Inc 52)
+  // ════════════════════════════════════════════════════════════════════════
+
+  /** Cria modelo na versão 1 (criado_por = keyId do token do cliente) */
+  async createMandateTemplate(
+    tenantId: string,
+    templateId: string,
+    spec: MandateTemplateSpec
+  ): Promise<MandateTemplateInfo> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/mandate-templates`, {
+      body: { templateId, ...spec }
+    });
+  }
+
+  /** Versão mais recente de cada modelo */
+  async listMandateTemplates(tenantId: string): Promise<MandateTemplatesResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/mandate-templates`);
+  }
+
+  /** Versão do modelo (default: a mais recente) e versões existentes */
+  async getMandateTemplate(tenantId: string, templateId: string, version?: number): Promise<MandateTemplateResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/mandate-templates/${templateId}`, {
+      query: { version }
+    });
+  }
+
+  /** Cria nova versão; mandatos vigentes não mudam (ver planMandateTemplateRegrant) */
+  async updateMandateTemplate(
+    tenantId: string,
+    templateId: string,
+    spec: MandateTemplateSpec,
+    expectedVersion: number
+  ): Promise<MandateTemplateUpdateResponse> {
+    return this.client.requestData('PUT', `/admin/tenants/${tenantId}/mandate-templates/${templateId}`, {
+      body: { expectedVersion, ...spec }
+    });
+  }
+
+  /** Concede um mandato do modelo a cada agente (até 100) */
+  async grantMandatesFromTemplate(
+    tenantId: string,
+    templateId: string,
+    input: GrantMandatesFromTemplateInput
+  ): Promise<GrantMandatesFromTemplateResponse> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/mandate-templates/${templateId}/grants`, {
+      body: input
+    });
+  }
+
+  /** Mandatos vigentes de versões anteriores, com diff (não altera nada) */
+  async planMandateTemplateRegrant(tenantId: string, templateId: string): Promise<MandateRegrantPlan> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/mandate-templates/${templateId}/regrant`);
+  }
+
+  /** Reconcede na versão atual: concede o novo mandato e revoga o anterior */
+  async regrantMandateTemplate(
+    tenantId: string,
+    templateId: string,
+    input: RegrantMandatesInput
+  ): Promise<RegrantMandatesResponse> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/mandate-templates/${templateId}/regrant`, {
+      body: input
+    });
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // REVISÃO HUMANA (Inc 42)
+  // ════════════════════════════════════════════════════════════════════════
+
+  /** Assume o caso (revisor = keyId do token do cliente) */
+  async claimReview(tenantId: string, reviewId: string, expectedVersion?: number): Promise<ReviewCaseResponse> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/reviews/${reviewId}/claim`, {
+      body: { expectedVersion }
+    });
+  }
+
+  /** Devolve o caso à fila */
+  async releaseReview(tenantId: string, reviewId: string, expectedVersion?: number): Promise<ReviewCaseResponse> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/reviews/${reviewId}/release`, {
+      body: { expectedVersion }
+    });
+  }
+
+  /** Substitui as notas do caso */
+  async updateReviewNotes(
+    tenantId: string,
+    reviewId: string,
+    notes: string,
+    expectedVersion?: number
+  ): Promise<ReviewCaseResponse> {
+    return this.client.requestData('PUT', `/admin/tenants/${tenantId}/reviews/${reviewId}/notes`, {
+      body: { notes, expectedVersion }
+    });
+  }
+
+  /** Resolve o caso; 409 se a versão mudou ou outro revisor assumiu */
+  async resolveReview(tenantId: string, reviewId: string, input: ResolveReviewInput): Promise<ResolveReviewResponse> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/reviews/${reviewId}/resolve`, {
+      body: input
+    });
+  }
+
+  /** Dispensa o caso */
+  async dismissReview(
+    tenantId: string,
+    reviewId: string,
+    notes: string,
+    expectedVersion: number
+  ): Promise<ReviewCaseResponse> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/reviews/${reviewId}/dismiss`, {
+      body: { notes, expectedVersion }
+    });
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // BACKUP E DISASTER RECOVERY (Inc 44)
+  // ════════════════════════════════════════════════════════════════════════
+
+  /** Enfileira backup do tenant (202; acompanhe com getBackupJob) */
+  async createBackup(tenantId: string, input: CreateBackupInput = {}): Promise<BackupJob> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/backups`, { body: input });
+  }
+
+  /** Lista backups do tenant (mais recentes primeiro) */
+  async listBackups(tenantId: string): Promise<BackupsResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/backups`);
+  }
+
+  /** Verifica hash e assinatura do backup */
+  async validateBackup(tenantId: string, backupId: string): Promise<BackupValidationResult> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/backups/${backupId}/validate`, { body: {} });
+  }
+
+  /** Enfileira restauração simulada */
+  async dryRunRestore(tenantId: string, backupId: string, input: RestoreBackupInput = {}): Promise<BackupJob> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/backups/${backupId}/restore/dry-run`, {
+      body: input
+    });
+  }
+
+  /** Enfileira restauração efetiva (requer global_admin) */
+  async restoreBackup(tenantId: string, backupId: string, input: RestoreBackupInput = {}): Promise<BackupJob> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/backups/${backupId}/restore`, {
+      body: input
+    });
+  }
+
+  /** Re-embrulha os backups cifrados com a chave ativa do key-ring (requer global_admin) */
+  async rewrapBackups(tenantId: string): Promise<BackupRewrapResult> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/backups/rewrap`, { body: {} });
+  }
+
+  /** Jobs de backup/DR do tenant (mais recentes primeiro) */
+  async listBackupJobs(tenantId: string): Promise<BackupJobsResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/backups/jobs`);
+  }
+
+  /** Estado e progresso de um job de backup/DR */
+  async getBackupJob(tenantId: string, jobId: string): Promise<BackupJob> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/backups/jobs/${jobId}`);
+  }
+
+  /** Enfileira a primeira fase de um procedimento DR */
+  async startDRProcedure(tenantId: string, input: StartDRProcedureInput): Promise<BackupJob> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/dr/procedures`, { body: input });
+  }
+
+  /** Procedimentos DR da instância do tenant */
+  async listDRProcedures(tenantId: string): Promise<DRProceduresResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/dr/procedures`);
+  }
+
+  /** Passos e notas de um procedimento DR */
+  async getDRProcedure(tenantId: string, procedureId: string): Promise<DRProcedure> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/dr/procedures/${procedureId}`);
+  }
+
+  /** Enfileira a confirmação do procedimento (requer global_admin) */
+  async confirmDRProcedure(tenantId: string, procedureId: string): Promise<BackupJob> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/dr/procedures/${procedureId}/confirm`, {
+      body: {}
+    });
+  }
+
+  /** Cancela procedimento DR não concluído */
+  async cancelDRProcedure(tenantId: string, procedureId: string): Promise<DRProcedure> {
+    return this.client.requestData('POST', `/admin/tenants/${tenantId}/dr/procedures/${procedureId}/cancel`, {
+      body: {}
+    });
+  }
+
   // ════════════════════════════════════════════════════════════════════════
   // AUDIT
   // ════════════════════════════════════════════════════════════════════════
@@ -392,6 +821,32 @@ class AdminAPI {
     });
   }
 
+  /** Checkpoints assinados + chaves públicas para testemunhas externas (Inc 32) */
+  async getWitnessBundle(tenantId: string): Promise<WitnessBundleResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/audit/witness`);
+  }
+
+  /** Raízes de Merkle dos segmentos fechados (Inc 33) */
+  async listMerkleRoots(tenantId: string): Promise<MerkleRootsResponse> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/audit/merkle-roots`);
+  }
+
+  /**
+   * Prova de inclusão de um evento (Inc 33).
+   * Verificar com verifyInclusionProof() contra a raiz publicada.
+   */
+  async getInclusionProof(tenantId: string, eventId: string): Promise<InclusionProof> {
+    return this.client.requestData(
+      'GET',
+      `/admin/tenants/${tenantId}/audit/proof/${encodeURIComponent(eventId)}`
+    );
+  }
+
+  /** Estado reconstruído do EventLog comparado aos repositórios (Inc 35) */
+  async verifyProjection(tenantId: string): Promise<ProjectionReport> {
+    return this.client.requestData('GET', `/admin/tenants/${tenantId}/audit/projection`);
+  }
+
   /** Lista eventos do tenant */
   async listEvents(tenantId: string): Promise<EventListResponse> {
     return this.client.requestData('GET', `/admin/tenants/${tenantId}/events`);
@@ -457,8 +912,8 @@ class QueryAPI {
     return this.client.requestData('GET', '/admin/query/metrics');
   }
 
-  /** Consulta EventLog global */
-  async getEventLog(query?: PaginationQuery & { tenantId?: string }): Promise<QueryEventLogResponse> {
+  /** Consulta EventLog global (paginação por offset ou cursor) */
+  async getEventLog(query?: QueryEventLogFilter): Promise<QueryEventLogResponse> {
     return this.client.requestData('GET', '/admin/query/eventlog', {
       query: query as Record<string, string | number | boolean | undefined>
     });
@@ -514,9 +969,24 @@ class PublicAPI {
   /**
    * Cria decisão (fluxo completo)
    * Requer tenantId configurado no cliente
+   *
+   * Com `idempotencyKey`, retentativas (ex: após timeout) devolvem o
+   * contrato original em vez de criar outro episódio.
    */
-  async criarDecisao(input: DecisaoInput): Promise<DecisaoResponse> {
+  async criarDecisao(input: DecisaoInput, options: CriarDecisaoOptions = {}): Promise<DecisaoResponse> {
     return this.client.requestData('POST', '/api/v1/decisoes', {
+      body: input,
+      headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {},
+      requireTenantId: true
+    });
+  }
+
+  /**
+   * Valida a entrada de criarDecisao sem executá-la (Inc 50).
+   * Não cria episódio nem registra eventos.
+   */
+  async validarDecisao(input: DecisaoInput): Promise<ValidacaoDecisao> {
+    return this.client.requestData('POST', '/api/v1/decisoes/validar', {
       body: input,
       requireTenantId: true
     });
@@ -536,14 +1006,37 @@ class PublicAPI {
     });
   }
 
-  /** Lista eventos recentes */
-  async listarEventos(query?: { tipo?: string; entidade?: string; limit?: number }): Promise<EventosQueryResponse> {
+  /**
+   * Lista eventos, do mais recente para o mais antigo.
+   * Para a próxima página, passe `cursor: resposta.next_cursor`.
+   */
+  async listarEventos(query?: EventosQuery): Promise<EventosQueryResponse> {
     return this.client.requestData('GET', '/api/v1/eventos', {
       query: query as Record<string, string | number | boolean | undefined>,
       requireTenantId: true
     });
   }
 
+  /**
+   * Inc 36: assina eventos do tenant em tempo real (SSE).
+   * Reconecta quando a conexão cai, retomando do último evento recebido.
+   *
+   * @example
+   * ```typescript
+   * const sub = client.public.assinarEventos(e => console.log(e.evento), {
+   *   tipo: ['DECISAO_REGISTRADA', 'CONTRATO_EMITIDO']
+   * });
+   * // ...
+   * sub.close();
+   * ```
+   */
+  assinarEventos(
+    onEvent: (entry: EventLogEntry) => void,
+    options?: EventStreamOptions
+  ): EventSubscription {
+    return subscribeEvents(this.client, onEvent, options);
+  }
+
   /** Inicia observação de um episódio */
   async iniciarObservacao(episodioId: string): Promise<SuccessResponse> {
     return this.client.requestData('POST', '/api/v1/observacoes', {
@@ -552,6 +1045,97 @@ class PublicAPI {
     });
   }
 
+  /**
+   * Inc 38: registra a consequência observada de um contrato executado.
+   * `evidencias_minimas` deve cobrir `observacao_minima_requerida` do
+   * contrato (senão: 422).
+   */
+  async registrarConsequencia(
+    contratoId: string,
+    input: RegistrarConsequenciaInput
+  ): Promise<ConsequenciaRegistradaResponse> {
+    return this.client.requestData('POST', `/api/v1/contratos/${contratoId}/consequencias`, {
+      body: input,
+      requireTenantId: true
+    });
+  }
+
+  /** Inc 38: consequências de um contrato (da mais antiga para a mais recente) */
+  async listarConsequencias(
+    contratoId: string,
+    query?: ConsequenciasContratoQuery
+  ): Promise<ConsequenciasContratoResponse> {
+    return this.client.requestData('GET', `/api/v1/contratos/${contratoId}/consequencias`, {
+      query: query as Record<string, string | number | boolean | undefined>,
+      requireTenantId: true
+    });
+  }
+
+  /** Inc 38: estatísticas das consequências de um contrato */
+  async getEstatisticasConsequencias(contratoId: string): Promise<ConsequenciaStatsResponse> {
+    return this.client.requestData('GET', `/api/v1/contratos/${contratoId}/consequencias/stats`, {
+      requireTenantId: true
+    });
+  }
+
+  /** Inc 38: busca consequências do tenant por episódio, sinal e período */
+  async buscarConsequencias(query?: ConsequenciasQuery): Promise<ConsequenciasResponse> {
+    return this.client.requestData('GET', '/api/v1/consequencias', {
+      query: query as Record<string, string | number | boolean | undefined>,
+      requireTenantId: true
+    });
+  }
+
+  /**
+   * Inc 39: executa a mesma situação com vários agentes e agrega as propostas.
+   * Sem decisão na agregação, `contratoFinal` volta null (não é erro).
+   */
+  async executarMultiAgente(input: ExecucaoMultiAgenteInput): Promise<ExecucaoMultiAgente> {
+    return this.client.requestData('POST', '/api/v1/multiagente/execucoes', {
+      body: input,
+      requireTenantId: true
+    });
+  }
+
+  /** Inc 39: execução multiagente com todas as propostas dos agentes */
+  async getExecucaoMultiAgente(runId: string): Promise<ExecucaoMultiAgente> {
+    return this.client.requestData('GET', `/api/v1/multiagente/execucoes/${runId}`, {
+      requireTenantId: true
+    });
+  }
+
+  /** Inc 39: execuções multiagente de um episódio */
+  async listarExecucoesMultiAgente(episodioId: string): Promise<ExecucoesMultiAgenteResponse> {
+    return this.client.requestData('GET', `/api/v1/episodios/${episodioId}/multiagente`, {
+      requireTenantId: true
+    });
+  }
+
+  /**
+   * Inc 43: submete pesquisa para execução em segundo plano (job queued).
+   * 429 se a fila do tenant estiver cheia.
+   */
+  async submeterPesquisa(input: PesquisaInput): Promise<JobPesquisa> {
+    return this.client.requestData('POST', '/api/v1/pesquisa/jobs', {
+      body: input,
+      requireTenantId: true
+    });
+  }
+
+  /** Inc 43: estado do job de pesquisa */
+  async getJobPesquisa(jobId: string): Promise<JobPesquisa> {
+    return this.client.requestData('GET', `/api/v1/pesquisa/jobs/${jobId}`, {
+      requireTenantId: true
+    });
+  }
+
+  /** Inc 43: relatório do job; 409 enquanto não estiver completed */
+  async getRelatorioPesquisa(jobId: string): Promise<RelatorioPesquisa> {
+    return this.client.requestData('GET', `/api/v1/pesquisa/jobs/${jobId}/relatorio`, {
+      requireTenantId: true
+    });
+  }
+
   /** Status do EventLog */
   async getEventLogStatus(): Promise<EventLogStatusResponse> {
     return this.client.requestData('GET', '/api/v1/eventlog/status', {
@@ -0,0 +1,167 @@
+/**
+ * LIBERVIA SDK - Assinatura de Eventos
+ *
+ * Cliente de GET /api/v1/eventos/stream (Inc 36, Server-Sent Events).
+ * Lê o stream com fetch, reconecta quando a conexão cai e retoma a partir
+ * do último evento recebido (Last-Event-ID).
+ */
+
+import type { LiberviaClient } from './client';
+import { EventLogEntry, EventStreamOptions, EventSubscription } from './types';
+import { LiberviaError, NetworkError } from './errors';
+
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Frame SSE já separado em campos
+ */
+interface SseFrame {
+  id?: string;
+  event?: string;
+  data: string;
+}
+
+/**
+ * Interpreta um bloco SSE (linhas até a linha vazia).
+ * Comentários (`: ping`) produzem null.
+ */
+function parseFrame(block: string): SseFrame | null {
+  const frame: SseFrame = { data: '' };
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line === '' || line.startsWith(':')) continue;
+    const sep = line.indexOf(':');
+    const field = sep === -1 ? line : line.slice(0, sep);
+    const value = sep === -1 ? '' : line.slice(sep + 1).replace(/^ /, '');
+
+    if (field === 'id') frame.id = value;
+    else if (field === 'event') frame.event = value;
+    else if (field === 'data') data.push(value);
+  }
+
+  if (data.length === 0) return null;
+  frame.data = data.join('\n');
+  return frame;
+}
+
+function toParam(value: string | string[] | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value.join(',') : value;
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Abre a assinatura. Usado por public.assinarEventos().
+ */
+export function subscribeEvents(
+  client: LiberviaClient,
+  onEvent: (entry: EventLogEntry) => void,
+  options: EventStreamOptions = {}
+): EventSubscription {
+  const reconnect = options.reconnect ?? true;
+  const reconnectDelayMs = options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
+  const controller = new AbortController();
+  let lastEventId = options.lastEventId;
+
+  const reportError = (error: Error): void => {
+    if (options.onError) {
+      try {
+        options.onError(error);
+      } catch {
+        // Erro no handler não encerra a assinatura
+      }
+    }
+  };
+
+  async function readStream(): Promise<void> {
+    const response = await client.openStream('/api/v1/eventos/stream', {
+      query: {
+        tipo: toParam(options.tipo),
+        entidade: toParam(options.entidade)
+      },
+      headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+      requireTenantId: true,
+      signal: controller.signal
+    });
+
+    if (!response.body) {
+      throw new NetworkError('Event stream without body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) !== -1) {
+          const frame = parseFrame(buffer.slice(0, end));
+          buffer = buffer.slice(end + 2);
+          if (!frame) continue;
+
+          let entry: EventLogEntry;
+          try {
+            entry = JSON.parse(frame.data) as EventLogEntry;
+          } catch {
+            reportError(new LiberviaError('Invalid event data', 0, 'INVALID_EVENT'));
+            continue;
+          }
+
+          if (frame.id) lastEventId = frame.id;
+          try {
+            onEvent(entry);
+          } catch (error: unknown) {
+            reportError(error instanceof Error ? error : new Error(String(error)));
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async function run(): Promise<void> {
+    while (!controller.signal.aborted) {
+      try {
+        await readStream();
+      } catch (error: unknown) {
+        if (controller.signal.aborted) return;
+        const err = error instanceof Error ? error : new Error(String(error));
+        reportError(err);
+        // Resposta HTTP de erro (ex: 400, 401, 429): reconectar não resolve
+        if (err instanceof LiberviaError && err.status > 0) return;
+      }
+
+      if (!reconnect || controller.signal.aborted) return;
+      await delay(reconnectDelayMs, controller.signal);
+    }
+  }
+
+  const closed = run().finally(() => controller.abort());
+
+  return {
+    get lastEventId() {
+      return lastEventId;
+    },
+    close() {
+      controller.abort();
+    },
+    closed
+  };
+}
@@ -34,6 +34,20 @@ export {
 // Types
 export * from './types';
 
+// Verificação offline (Inc 33)
+export { verifyInclusionProof, InclusionProofVerification } from './merkle';
+
+// Assinatura de eventos (Inc 36)
+export { subscribeEvents } from './events';
+
+// Verificação de webhooks no receptor (Inc 37)
+export {
+  verifyWebhookSignature,
+  WebhookVerificationOptions,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER
+} from './webhooks';
+
 // Errors
 export {
   LiberviaError,
@@ -0,0 +1,80 @@
+/**
+ * LIBERVIA SDK - Provas de Inclusão
+ *
+ * Verificação offline de provas de inclusão do EventLog (Inc 33).
+ * Não depende do servidor: recalcula o hash do evento, a folha e a raiz
+ * de Merkle a partir da prova. Deve produzir os mesmos hashes que
+ * camada-3/event-log/EventLogMerkle.ts.
+ */
+
+import { createHash } from 'crypto';
+import { InclusionProof } from './types';
+
+export interface InclusionProofVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+function eventHash(event: InclusionProof['event']): string {
+  return sha256([
+    event.previous_hash ?? '',
+    new Date(event.timestamp).toISOString(),
+    event.actor,
+    event.evento,
+    event.entidade,
+    event.entidade_id,
+    event.payload_hash
+  ].join('|'));
+}
+
+function leafHash(currentHash: string): string {
+  return sha256(`0|${currentHash}`);
+}
+
+function nodeHash(left: string, right: string): string {
+  return sha256(`1|${left}|${right}`);
+}
+
+/**
+ * Verifica uma prova de inclusão.
+ *
+ * @param proof Prova obtida de `admin.getInclusionProof()`
+ * @param expectedRoot Raiz publicada do segmento, obtida por outro canal.
+ *   Sem ela, a prova só mostra consistência interna.
+ *
+ * @example
+ * ```typescript
+ * const proof = await client.admin.getInclusionProof('acme', 'evt-...');
+ * const result = verifyInclusionProof(proof, publishedRoot);
+ * ```
+ */
+export function verifyInclusionProof(
+  proof: InclusionProof,
+  expectedRoot?: string
+): InclusionProofVerification {
+  if (eventHash(proof.event) !== proof.event.current_hash) {
+    return { valid: false, reason: 'Event hash mismatch' };
+  }
+
+  if (leafHash(proof.event.current_hash) !== proof.leaf_hash) {
+    return { valid: false, reason: 'Leaf hash mismatch' };
+  }
+
+  const root = proof.path.reduce(
+    (acc, step) => step.side === 'left' ? nodeHash(step.hash, acc) : nodeHash(acc, step.hash),
+    proof.leaf_hash
+  );
+  if (root !== proof.root) {
+    return { valid: false, reason: 'Path does not lead to root' };
+  }
+
+  if (expectedRoot !== undefined && proof.root !== expectedRoot) {
+    return { valid: false, reason: 'Root does not match published root' };
+  }
+
+  return { valid: true };
+}
@@ -15,7 +15,7 @@ export type KeyStatus = 'active' | 'revoked';
 export type HealthStatus = 'ok' | 'degraded' | 'error';
 export type PerfilRisco = 'conservador' | 'moderado' | 'arrojado';
 export type ReviewStatus = 'OPEN' | 'RESOLVED' | 'DISMISSED';
-export type MandateStatus = 'active' | 'suspended' | 'revoked';
+export type MandateStatus = 'active' | 'suspended' | 'revoked' | 'expired';
 
 // ════════════════════════════════════════════════════════════════════════════
 // ERROR TYPES
@@ -25,6 +25,8 @@ export interface LiberviaErrorResponse {
   error: string;
   code?: string;
   message?: string;
+  /** Regras da Camada Fechada violadas (criarDecisao, Inc 49) */
+  camada_fechada?: ClosedLayerExplanation;
 }
 
 export type ErrorCode =
@@ -132,6 +134,564 @@ export interface KeyListResponse {
   count: number;
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// WEBHOOKS (Inc 37)
+// ════════════════════════════════════════════════════════════════════════════
+
+export type WebhookStatus = 'active' | 'disabled';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookInfo {
+  webhookId: string;
+  url: string;
+  /** CONTRATO_EMITIDO, CONSEQUENCIA_REGISTRADA, AUTONOMY_SUSPENDED, HUMAN_REVIEW_CASE_OPENED */
+  events: string[];
+  status: WebhookStatus;
+  createdAt: string;
+  updatedAt?: string;
+  description?: string;
+}
+
+export interface CreateWebhookInput {
+  url: string;
+  events: string[];
+  description?: string;
+}
+
+export interface UpdateWebhookInput {
+  url?: string;
+  events?: string[];
+  status?: WebhookStatus;
+  description?: string;
+}
+
+export interface WebhookCreatedResponse {
+  webhook: WebhookInfo;
+  /** Segredo HMAC (retornado apenas na criação/rotação) */
+  secret: string;
+  warning: string;
+}
+
+export interface WebhookListResponse {
+  webhooks: WebhookInfo[];
+  count: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  evento: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: string;
+  payload: WebhookPayload;
+}
+
+/** Corpo JSON recebido pelo destino */
+export interface WebhookPayload {
+  deliveryId: string;
+  webhookId: string;
+  tenantId: string;
+  evento: string;
+  event: EventLogEntry;
+}
+
+export interface WebhookDeliveriesQuery {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+export interface WebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+  count: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// REGRAS DA CAMADA FECHADA (Inc 48)
+// ════════════════════════════════════════════════════════════════════════════
+
+export type ClosedLayerCustomRule =
+  | {
+      id: string;
+      type: 'MINIMO_RISCOS_IRREVERSIVEIS';
+      minimo: number;
+      /** Ausente = todos os domínios */
+      dominios?: string[];
+      /** Ausente = ['irreversivel'] (sem acento e sem caixa) */
+      valoresIrreversiveis?: string[];
+      motivo?: string;
+    }
+  | {
+      id: string;
+      type: 'LIMITES_OBRIGATORIOS_POR_DOMINIO';
+      dominio: string;
+      tiposLimite: string[];
+      motivo?: string;
+    }
+  | {
+      id: string;
+      type: 'PERFIL_PROIBIDO_POR_CASO_USO';
+      perfis: PerfilRiscoAgente[];
+      casosUso: number[];
+      motivo?: string;
+    };
+
+/** Regras do tenant; rodam depois das 5 embutidas */
+export interface ClosedLayerRuleSet {
+  ruleSetId: string;
+  /** Substituir exige versão maior que a instalada */
+  version: number;
+  description?: string;
+  rules: ClosedLayerCustomRule[];
+}
+
+export interface ClosedLayerRuleSetResponse {
+  /** null = apenas regras embutidas */
+  ruleSet: ClosedLayerRuleSet | null;
+}
+
+export interface ClosedLayerRuleSetValidation {
+  valid: boolean;
+  /** Erros com caminho do campo (ex.: "rules[1].minimo: ...") */
+  errors: string[];
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// MANDATOS DE AUTONOMIA (Inc 41)
+// ════════════════════════════════════════════════════════════════════════════
+
+export type AutonomyMode = 'ENSINO' | 'VIVENCIA_ASSISTIDA' | 'VIVENCIA_AUTONOMA';
+
+/**
+ * Condição tipada de limites e gatilhos (Inc 51).
+ * Textos comparados sem acento e sem caixa.
+ */
+export type MandateCondition =
+  | { type: 'VALOR'; nome: string; op: '>' | '>=' | '<' | '<=' | '='; valor: number }
+  | { type: 'DOMINIO'; em: string[] }
+  | { type: 'URGENCIA'; em: string[] }
+  | { type: 'TIPO_RISCO'; em: string[] }
+  | { type: 'E'; condicoes: MandateCondition[] }
+  | { type: 'OU'; condicoes: MandateCondition[] }
+  | { type: 'NAO'; condicao: MandateCondition };
+
+export interface MandateLimite {
+  tipo: string;
+  descricao: string;
+  valor: string;
+  /** Precisa valer para a autonomia ser permitida; não verificável bloqueia (Inc 51) */
+  condicao?: MandateCondition;
+}
+
+/** Gatilho estruturado: aciona se a condição vale ou não pode ser verificada (Inc 51) */
+export interface MandateHumanTrigger {
+  descricao: string;
+  condicao: MandateCondition;
+}
+
+/** Texto (busca no contexto) ou gatilho estruturado */
+export type MandateTrigger = string | MandateHumanTrigger;
+
+/** Corpo da concessão; concedido_por vem da chave autenticada */
+export interface GrantMandateInput {
+  agentId: string;
+  modo: AutonomyMode;
+  politicas_permitidas: AggregationPolicy[];
+  perfil_risco_maximo: PerfilRiscoAgente;
+  limites?: MandateLimite[];
+  requer_humano_se?: MandateTrigger[];
+  dominios_permitidos?: string[];
+  casos_uso_permitidos?: number[];
+  /** ISO 8601 */
+  validFrom?: string;
+  /** ISO 8601 */
+  validUntil?: string;
+  maxUses?: number;
+}
+
+export interface AutonomyMandateInfo {
+  id: string;
+  agentId: string;
+  modo: AutonomyMode;
+  politicas_permitidas: AggregationPolicy[];
+  perfil_risco_maximo: PerfilRiscoAgente;
+  limites: MandateLimite[];
+  requer_humano_se: MandateTrigger[];
+  dominios_permitidos?: string[];
+  casos_uso_permitidos?: number[];
+  /** keyId da chave que concedeu */
+  concedido_por: string;
+  concedido_em: string;
+  revogado: boolean;
+  revogado_em?: string;
+  /** keyId da chave que revogou */
+  revogado_por?: string;
+  motivo_revogacao?: string;
+  validFrom?: string;
+  validUntil?: string;
+  maxUses?: number;
+  uses?: number;
+  lastUsedAt?: string;
+  status?: MandateStatus;
+  expiredAt?: string;
+  expireReason?: 'TIME' | 'USES';
+  suspendedAt?: string;
+  suspendReason?: string;
+  /** Modelo e versão que concederam o mandato (Inc 52) */
+  templateId?: string;
+  templateVersion?: number;
+  /** Mandato substituído na reconcessão (Inc 52) */
+  substitui_mandato_id?: string;
+}
+
+export interface ActiveMandatesResponse {
+  mandates: AutonomyMandateInfo[];
+  count: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// MODELOS DE MANDATO (Inc 52)
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Campos do mandato definidos pelo modelo */
+export interface MandateTemplateSpec {
+  descricao?: string;
+  modo: AutonomyMode;
+  politicas_permitidas: AggregationPolicy[];
+  perfil_risco_maximo: PerfilRiscoAgente;
+  limites?: MandateLimite[];
+  requer_humano_se?: MandateTrigger[];
+  dominios_permitidos?: string[];
+  casos_uso_permitidos?: number[];
+  /** Validade padrão em dias a partir do início do mandato */
+  validadeDias?: number;
+  /** Limite de usos padrão */
+  maxUses?: number;
+}
+
+/** Versão de um modelo (imutável) */
+export interface MandateTemplateInfo extends MandateTemplateSpec {
+  templateId: string;
+  version: number;
+  limites: MandateLimite[];
+  requer_humano_se: MandateTrigger[];
+  /** keyId da chave que criou a versão */
+  criado_por: string;
+  criado_em: string;
+}
+
+export interface MandateTemplatesResponse {
+  templates: MandateTemplateInfo[];
+  count: number;
+}
+
+export interface MandateTemplateResponse {
+  template: MandateTemplateInfo;
+  versions: number[];
+}
+
+export interface MandateTemplateDiffEntry {
+  campo: keyof MandateTemplateSpec;
+  antes: unknown;
+  depois: unknown;
+}
+
+export interface MandateTemplateUpdateResponse {
+  template: MandateTemplateInfo;
+  versaoAnterior: number;
+  diff: MandateTemplateDiffEntry[];
+  /** Mandatos vigentes de versões anteriores (não foram alterados) */
+  mandatosDesatualizados: string[];
+}
+
+/** validFrom/validUntil/maxUses sobrepõem os padrões do modelo */
+export interface GrantMandatesFromTemplateInput {
+  agentIds: string[];
+  /** Versão do modelo (default: a mais recente) */
+  version?: number;
+  /** ISO 8601 */
+  validFrom?: string;
+  /** ISO 8601 */
+  validUntil?: string;
+  maxUses?: number;
+}
+
+export interface GrantMandatesFromTemplateResponse {
+  templateId: string;
+  version: number;
+  mandates: AutonomyMandateInfo[];
+  count: number;
+}
+
+export interface MandateRegrantPlan {
+  templateId: string;
+  version: number;
+  itens: Array<{
+    mandateId: string;
+    agentId: string;
+    templateVersion: number;
+    /** false para mandato suspenso: a retomada exige revisão humana */
+    reconcedivel: boolean;
+    motivo?: string;
+    /** Substituto já concedido: a reconcessão apenas revoga o mandato */
+    substitutoId?: string;
+    diff: MandateTemplateDiffEntry[];
+  }>;
+}
+
+export interface RegrantMandatesInput {
+  /** Versão atual do modelo, confirmada por quem reconcede */
+  expectedVersion: number;
+  /** Restringe a estes mandatos (default: todos os reconcedíveis) */
+  mandateIds?: string[];
+}
+
+export interface RegrantMandatesResponse {
+  templateId: string;
+  version: number;
+  reconcedidos: Array<{ anterior: string; mandate: AutonomyMandateInfo }>;
+  ignorados: Array<{ mandateId: string; motivo: string }>;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// REVISÃO HUMANA (Inc 42)
+// ════════════════════════════════════════════════════════════════════════════
+
+export type ReviewResolution = 'APPROVE' | 'REJECT' | 'NEEDS_MORE_INFO' | 'NO_ACTION';
+
+export type ReviewEffect = 'RESUME_MANDATE' | 'REVOKE_MANDATE' | 'KEEP_SUSPENDED' | 'DEGRADE_MODE';
+
+/** Caso de revisão completo, como gravado no Core */
+export interface ReviewCaseRecord {
+  id: string;
+  tenantId: string;
+  status: ReviewStatus;
+  createdAt: string;
+  updatedAt: string;
+  triggeredBy: {
+    observacaoId: string;
+    mandateId?: string;
+    ruleId: string;
+    severity?: string;
+    category?: string;
+    actionSuggested: string;
+  };
+  contextSnapshot: Record<string, unknown>;
+  decision?: {
+    /** keyId do revisor */
+    decidedBy: string;
+    decisionAt: string;
+    resolution: ReviewResolution;
+    notes: string;
+    effectsApplied: ReviewEffect[];
+  };
+  /** Ausente em casos anteriores ao Inc 42 (vale 1) */
+  version?: number;
+  /** keyId do revisor que assumiu */
+  claimedBy?: string;
+  claimedAt?: string;
+}
+
+export interface ReviewCaseResponse {
+  reviewCase: ReviewCaseRecord;
+}
+
+export interface ResolveReviewInput {
+  resolution: ReviewResolution;
+  /** Obrigatório exceto para NO_ACTION */
+  notes?: string;
+  effects?: ReviewEffect[];
+  /** Versão lida do caso */
+  expectedVersion: number;
+}
+
+export interface ResolveReviewResponse {
+  reviewCase: ReviewCaseRecord;
+  effectsApplied: ReviewEffect[];
+  effectErrors: string[];
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// BACKUP E DISASTER RECOVERY (Inc 44)
+// ════════════════════════════════════════════════════════════════════════════
+
+export type BackupEntityType =
+  | 'EventLog'
+  | 'ObservacoesDeConsequencia'
+  | 'AutonomyMandates'
+  | 'ReviewCases'
+  | 'TenantRegistry';
+
+export interface BackupMetadata {
+  backupId: string;
+  createdAt: string;
+  tenantId: string;
+  formatVersion: string;
+  includedEntities: BackupEntityType[];
+  entityCounts: Record<BackupEntityType, number>;
+  lastEventHash?: string;
+  lastEventId?: string;
+  /** Criado pelo agendador do gateway (Inc 45) */
+  scheduled?: boolean;
+  /** Assinado com Ed25519 (TenantFeatures.signedBackup) */
+  signed?: boolean;
+  /** Sempre preenchido na listagem (Inc 46) */
+  kind?: 'full' | 'incremental';
+  /** Base imediata do incremental */
+  baseBackupId?: string;
+  baseContentHash?: string;
+  baseLastEventId?: string;
+  baseLastEventHash?: string;
+  /** Backup completo na raiz da cadeia */
+  chainRootId?: string;
+  /** 1 = primeiro incremental sobre o completo */
+  chainDepth?: number;
+  /** Cifrado em repouso (TenantFeatures.encryptedBackup, Inc 47) */
+  encrypted?: boolean;
+}
+
+export interface BackupsResponse {
+  backups: BackupMetadata[];
+  count: number;
+}
+
+export interface CreateBackupInput {
+  /** Default: todas as entidades */
+  includeEntities?: BackupEntityType[];
+  description?: string;
+  /** Backup incremental sobre esta base (Inc 46); exclui includeEntities */
+  baseBackupId?: string;
+}
+
+export interface BackupValidationResult {
+  valid: boolean;
+  metadata?: BackupMetadata;
+  errors: string[];
+  warnings: string[];
+  /** Chave do key-ring exigida pelo backup cifrado (Inc 47) */
+  encryptionKeyId?: string;
+}
+
+/** Rotação de chave dos backups cifrados (Inc 47) */
+export interface BackupRewrapResult {
+  activeKeyId: string;
+  rewrapped: Array<{ backupId: string; fromKeyId: string }>;
+  /** Backups cifrados já na chave ativa */
+  unchanged: number;
+  failed: Array<{ backupId: string; keyId: string; error: string }>;
+}
+
+export interface RestoreBackupInput {
+  includeEntities?: BackupEntityType[];
+  /** Default: true */
+  verifyEventLogContinuity?: boolean;
+}
+
+export interface RestoreEntityStats {
+  entityType: BackupEntityType;
+  totalInBackup: number;
+  toAdd: number;
+  alreadyExists: number;
+  conflicts: number;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  mode: 'dry-run' | 'effective';
+  backupId: string;
+  entityStats: RestoreEntityStats[];
+  totalAdded: number;
+  totalSkipped: number;
+  errors: string[];
+  warnings: string[];
+  restoredAt: string;
+  /** Verificação da projeção após restore efetivo (Inc 35) */
+  projection?: ProjectionReport;
+  /** Backups aplicados, do completo ao restaurado (incremental, Inc 46) */
+  chain?: string[];
+  /** Chave do key-ring usada para decifrar (Inc 47) */
+  encryptionKeyId?: string;
+}
+
+export type DRProcedureType =
+  | 'total_node_loss'
+  | 'corruption_detection'
+  | 'old_snapshot_restore'
+  | 'controlled_rollback';
+
+export type DRProcedureStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'rolled_back';
+
+export interface DRStep {
+  order: number;
+  description: string;
+  status: DRProcedureStatus;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface DRProcedure {
+  procedureId: string;
+  type: DRProcedureType;
+  status: DRProcedureStatus;
+  steps: DRStep[];
+  startedAt: string;
+  completedAt?: string;
+  backupId?: string;
+  notes: string[];
+}
+
+export interface DRProceduresResponse {
+  procedures: DRProcedure[];
+  count: number;
+}
+
+export interface StartDRProcedureInput {
+  type: DRProcedureType;
+  /** Obrigatório para old_snapshot_restore e controlled_rollback */
+  backupId?: string;
+}
+
+export type BackupJobOperation = 'create' | 'restore_dry_run' | 'restore' | 'dr_start' | 'dr_confirm';
+
+export type BackupJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface BackupJob {
+  jobId: string;
+  tenantId: string;
+  operation: BackupJobOperation;
+  status: BackupJobStatus;
+  /** keyId de quem pediu */
+  requestedBy: string;
+  requestedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  backupId?: string;
+  procedureId?: string;
+  /** Último passo reportado do procedimento DR */
+  progress?: {
+    step: DRStep;
+    completedSteps: number;
+    totalSteps: number;
+  };
+  backup?: BackupMetadata;
+  restore?: RestoreResult;
+  procedureStatus?: DRProcedureStatus;
+  error?: string;
+}
+
+export interface BackupJobsResponse {
+  jobs: BackupJob[];
+  count: number;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // AUDIT
 // ════════════════════════════════════════════════════════════════════════════
@@ -141,6 +701,7 @@ export interface AuditVerifyResponse {
   totalEvents: number;
   verifiedAt: string;
   errors?: string[];
+  checkpoints?: CheckpointVerification;
 }
 
 export interface EventLogEntry {
@@ -151,6 +712,23 @@ export interface EventLogEntry {
   timestamp: string;
   actor?: string;
   payload?: Record<string, unknown>;
+  /** Inc 34: envelope versionado do payload (apenas tipos com esquema) */
+  envelope?: PayloadEnvelope;
+}
+
+// Inc 34: envelopes de payload versionados
+export interface PayloadEnvelope {
+  v: number;
+  data: Record<string, unknown>;
+}
+
+/** Inc 34: envelope decodificado (audit/export: payloads por id de evento) */
+export interface DecodedEventPayload {
+  evento: string;
+  version: number;
+  /** Dados na versão atual do esquema; null se a versão é desconhecida */
+  data: Record<string, unknown> | null;
+  verified: boolean;
 }
 
 export interface EventListResponse {
@@ -173,6 +751,132 @@ export interface ReplayQuery {
   toTs?: string;
 }
 
+// Inc 32: checkpoints assinados
+export interface CheckpointVerification {
+  valid: boolean;
+  total: number;
+  matched: number;
+  pruned: number;
+  signaturesVerified: boolean;
+  failures: Array<{ sequence: number; reason: string }>;
+}
+
+export interface SignedEventLogCheckpoint {
+  data: {
+    version: 1;
+    sequence: number;
+    segment: number;
+    index_in_segment: number;
+    last_event_id: string;
+    last_hash: string;
+    count: number;
+    created_at: string;
+  };
+  signature: {
+    algorithm: 'ed25519';
+    public_key_id: string;
+    signature: string;
+    signed_at: string;
+  };
+}
+
+export interface WitnessBundleResponse {
+  version: 1;
+  generated_at: string;
+  public_keys: Array<{ keyId: string; publicKey: string }>;
+  head: {
+    count: number;
+    last_event_id: string | null;
+    last_hash: string | null;
+  };
+  checkpoints: SignedEventLogCheckpoint[];
+}
+
+// Inc 33: provas de inclusão (Merkle)
+export interface SegmentMerkleRoot {
+  version: 1;
+  segment: number;
+  count: number;
+  root: string;
+  first_event_id: string | null;
+  last_event_id: string | null;
+  created_at: string;
+}
+
+export interface MerkleRootsResponse {
+  roots: SegmentMerkleRoot[];
+  count: number;
+}
+
+export interface InclusionProof {
+  version: 1;
+  segment: number;
+  index: number;
+  leaf_count: number;
+  /** false: segmento ainda aberto, a raiz muda com novos eventos */
+  sealed: boolean;
+  event: {
+    id: string;
+    timestamp: string;
+    actor: string;
+    evento: string;
+    entidade: string;
+    entidade_id: string;
+    payload_hash: string;
+    previous_hash: string | null;
+    current_hash: string;
+  };
+  leaf_hash: string;
+  root: string;
+  path: Array<{ side: 'left' | 'right'; hash: string }>;
+}
+
+// Inc 35: projeção de estado a partir do EventLog
+export type ProjectedCollectionName =
+  | 'episodios'
+  | 'decisoes'
+  | 'contratos'
+  | 'autonomyMandates'
+  | 'reviewCases';
+
+export interface ProjectionSkip {
+  eventId: string;
+  evento: string;
+  entidadeId: string;
+  reason: string;
+}
+
+export interface ProjectionDivergence {
+  collection: ProjectedCollectionName;
+  id: string;
+  kind: 'MISSING_IN_STORE' | 'MISSING_IN_EVENTLOG' | 'FIELD_MISMATCH';
+  field?: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+export interface ProjectionCollectionReport {
+  collection: ProjectedCollectionName;
+  /** false: o arquivo/tabela da coleção não pôde ser lido */
+  storeReadable: boolean;
+  storeError?: string;
+  projected: number;
+  stored: number;
+  matched: number;
+  divergent: number;
+}
+
+export interface ProjectionReport {
+  generatedAt: string;
+  eventsRead: number;
+  eventsApplied: number;
+  consistent: boolean;
+  collections: ProjectionCollectionReport[];
+  divergences: ProjectionDivergence[];
+  /** Eventos não aplicados (ex: anteriores ao Inc 34, sem envelope) */
+  skipped: ProjectionSkip[];
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // QUERY (Inc 21)
 // ════════════════════════════════════════════════════════════════════════════
@@ -210,6 +914,16 @@ export interface QueryEventLogResponse {
   total: number;
   limit: number;
   offset: number;
+  /** Inc 31: cursor da próxima página (null se não houver) */
+  nextCursor?: string | null;
+}
+
+/** Inc 31: filtros de /admin/query/eventlog */
+export interface QueryEventLogFilter extends PaginationQuery {
+  tenantId?: string;
+  entityType?: string;
+  eventType?: string;
+  cursor?: string;
 }
 
 export interface PaginationQuery {
@@ -339,6 +1053,16 @@ export interface ProtocoloInput {
 export interface DecisaoInput {
   situacao: SituacaoInput;
   protocolo: ProtocoloInput;
+  /** Condições obrigatórias do contrato (Inc 30) */
+  condicoes?: string[];
+}
+
+/**
+ * Opções de criarDecisao (Inc 30)
+ */
+export interface CriarDecisaoOptions {
+  /** Chave de idempotência: repetir com a mesma chave devolve o contrato original */
+  idempotencyKey?: string;
 }
 
 export interface ContratoDeDecisao {
@@ -350,6 +1074,8 @@ export interface ContratoDeDecisao {
   limites: Limite[];
   emitido_em: string;
   emitido_para: string;
+  /** Evidências exigidas ao registrar consequências (Inc 38) */
+  observacao_minima_requerida?: string[];
 }
 
 export interface DecisaoResponse {
@@ -358,9 +1084,25 @@ export interface DecisaoResponse {
   metadados: {
     tenant_id: string;
     timestamp: string;
+    /** true quando reproduzido a partir de uma chave de idempotência (Inc 30) */
+    idempotent_replay?: boolean;
   };
 }
 
+/**
+ * Relatório da validação prévia (Inc 50): tudo que criarDecisao
+ * encontraria para a mesma entrada, sem criar nada
+ */
+export interface ValidacaoDecisao {
+  /** true quando criarDecisao emitiria contrato */
+  valida: boolean;
+  erros_situacao: string[];
+  /** Mesmas mensagens de motivo_rejeicao do protocolo */
+  erros_protocolo: string[];
+  camada_fechada: ClosedLayerExplanation;
+  regras_camada_fechada?: { ruleSetId: string; version: number };
+}
+
 export interface EpisodioStatusResponse {
   episodio_id: string;
   ultimo_evento: string;
@@ -380,6 +1122,381 @@ export interface EventosQueryResponse {
   }>;
   total: number;
   limit: number;
+  /** Inc 31: cursor da próxima página (null se não houver) */
+  next_cursor?: string | null;
+}
+
+/** Inc 31: filtros de GET /api/v1/eventos */
+export interface EventosQuery {
+  tipo?: string;
+  entidade?: string;
+  entidade_id?: string;
+  actor?: string;
+  /** ISO 8601 (inclusivo) */
+  from?: string;
+  /** ISO 8601 (inclusivo) */
+  to?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+/** Inc 36: opções de GET /api/v1/eventos/stream (SSE) */
+export interface EventStreamOptions {
+  /** TipoEvento (um ou vários) */
+  tipo?: string | string[];
+  /** TipoEntidade (um ou vários) */
+  entidade?: string | string[];
+  /** Retoma depois deste evento (reenvia os gravados desde então) */
+  lastEventId?: string;
+  /** Reconectar quando a conexão cai, retomando do último evento (default: true) */
+  reconnect?: boolean;
+  /** Espera antes de reconectar em ms (default: 1000) */
+  reconnectDelayMs?: number;
+  /** Erros da assinatura; erros HTTP (4xx/5xx) encerram a assinatura */
+  onError?: (error: Error) => void;
+}
+
+/** Inc 36: assinatura aberta por public.assinarEventos() */
+export interface EventSubscription {
+  /** Id do último evento recebido */
+  readonly lastEventId: string | undefined;
+  /** Encerra a assinatura */
+  close(): void;
+  /** Resolve quando a assinatura termina */
+  readonly closed: Promise<void>;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PUBLIC API - CONSEQUÊNCIAS (Inc 38)
+// ════════════════════════════════════════════════════════════════════════════
+
+export type SinalImpacto = 'POSITIVO' | 'NEUTRO' | 'NEGATIVO' | 'INDETERMINADO';
+
+export interface IndicadorObservado {
+  nome: string;
+  valor: string;
+  unidade?: string;
+}
+
+export interface AnexoEvidencia {
+  tipo: string;
+  conteudo: string;
+  /** ISO 8601 (default: momento do registro) */
+  data_anexo?: string;
+}
+
+/** Gatilhos de autonomia (Inc 19); exigem agentId */
+export interface ConsequenceAutonomyTriggers {
+  severidade?: 'BAIXA' | 'MEDIA' | 'ALTA' | 'CRITICA';
+  categoria?: 'OPERACIONAL' | 'FINANCEIRA' | 'SEGURANCA' | 'LEGAL' | 'REPUTACAO' | 'ETICA' | 'OUTRA';
+  violou_limites?: boolean;
+  reversivel?: boolean;
+  perda_relevante?: boolean;
+}
+
+export interface RegistrarConsequenciaInput {
+  /** Fatos observados */
+  observada: {
+    descricao: string;
+    indicadores?: IndicadorObservado[];
+    anexos?: AnexoEvidencia[];
+    limites_respeitados: boolean;
+    condicoes_cumpridas: boolean;
+  };
+  /** Avaliação do impacto */
+  percebida: {
+    descricao: string;
+    sinal: SinalImpacto;
+    risco_percebido?: string;
+    licoes?: string;
+    contexto_adicional?: string;
+  };
+  /** Deve cobrir observacao_minima_requerida do contrato */
+  evidencias_minimas: string[];
+  /** Follow-up de uma observação anterior do mesmo contrato */
+  observacao_anterior_id?: string;
+  notas?: string;
+  autonomyTriggers?: ConsequenceAutonomyTriggers;
+  agentId?: string;
+}
+
+export interface ObservacaoDeConsequencia extends Omit<RegistrarConsequenciaInput, 'autonomyTriggers' | 'agentId'> {
+  id: string;
+  contrato_id: string;
+  episodio_id: string;
+  registrado_por: string;
+  data_registro: string;
+}
+
+/** Resultado da policy de consequência (Inc 19) */
+export interface ConsequenceAutonomyResult {
+  action: string;
+  reason: string;
+  ruleId: string;
+  effects: Record<string, unknown>;
+  alreadyApplied?: boolean;
+}
+
+export interface ConsequenciaRegistradaResponse {
+  observacao: ObservacaoDeConsequencia;
+  /** Presente quando autonomyTriggers foi informado */
+  autonomia: ConsequenceAutonomyResult | null;
+}
+
+export interface ConsequenciasResponse {
+  observacoes: ObservacaoDeConsequencia[];
+  total: number;
+}
+
+export interface ConsequenciasContratoResponse extends ConsequenciasResponse {
+  contrato_id: string;
+}
+
+export interface ConsequenciaStatsResponse {
+  contrato_id: string;
+  observacao_minima_requerida: string[];
+  total: number;
+  por_sinal: Record<SinalImpacto, number>;
+  primeira?: string;
+  ultima?: string;
+  limites_sempre_respeitados: boolean;
+  condicoes_sempre_cumpridas: boolean;
+}
+
+/** Filtros de GET /api/v1/contratos/:id/consequencias */
+export interface ConsequenciasContratoQuery {
+  sinal?: SinalImpacto;
+  limit?: number;
+}
+
+/** Filtros de GET /api/v1/consequencias (sem episodio_id nem período: últimos 30 dias) */
+export interface ConsequenciasQuery extends ConsequenciasContratoQuery {
+  episodio_id?: string;
+  /** ISO 8601 (inclusivo) */
+  from?: string;
+  /** ISO 8601 (inclusivo) */
+  to?: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PUBLIC API - MULTIAGENTE (Inc 39)
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Perfis de risco dos agentes (valores do Core) */
+export type PerfilRiscoAgente = 'CONSERVADOR' | 'MODERADO' | 'AGRESSIVO';
+
+export type AggregationPolicy =
+  | 'FIRST_VALID'
+  | 'MAJORITY_BY_ALTERNATIVE'
+  | 'WEIGHTED_MAJORITY'
+  | 'REQUIRE_CONSENSUS'
+  | 'HUMAN_OVERRIDE_REQUIRED';
+
+export type NoDecisionReason =
+  | 'ALL_AGENTS_BLOCKED'
+  | 'NO_CONSENSUS'
+  | 'HUMAN_OVERRIDE_PENDING'
+  | 'NO_VALID_AGENTS'
+  | 'AGGREGATION_FAILED';
+
+export interface AgentProfile {
+  agentId: string;
+  perfilRisco: PerfilRiscoAgente;
+  mandato?: string[];
+  /** Peso em WEIGHTED_MAJORITY (default: 1) */
+  peso?: number;
+  /** default: true */
+  enabled?: boolean;
+}
+
+export interface ExecucaoMultiAgenteInput {
+  situacao: SituacaoInput;
+  agents: AgentProfile[];
+  aggregationPolicy: AggregationPolicy;
+  protocoloBase: {
+    criterios_minimos: string[];
+    riscos_considerados: string[];
+    limites_definidos: Limite[];
+    alternativas_avaliadas: string[];
+  };
+  decisaoBase: {
+    criterios: string[];
+    limites: Limite[];
+    condicoes: string[];
+  };
+}
+
+/** Resultado da Camada Fechada para a proposta de um agente */
+export interface ClosedLayerResult {
+  blocked: boolean;
+  /** Regra que bloqueou (vazio quando não bloqueado) */
+  rule: string;
+  reason: string;
+  /** Presentes quando o bloqueio veio das regras do tenant (Inc 48) */
+  ruleSetId?: string;
+  ruleSetVersion?: number;
+  /** Campos que causaram o bloqueio, ex.: "protocolo.limites_definidos" (Inc 49) */
+  fields?: string[];
+}
+
+/**
+ * Todas as regras da Camada Fechada violadas, em ordem (Inc 49).
+ * Vem em `camada_fechada` nas respostas 400/422 de criarDecisao;
+ * violations[0] é o bloqueio efetivo.
+ */
+export interface ClosedLayerExplanation {
+  blocked: boolean;
+  violations: ClosedLayerResult[];
+}
+
+export interface AgentProposalResult {
+  agentId: string;
+  perfilRisco: PerfilRiscoAgente;
+  closedLayerResult: ClosedLayerResult;
+  blocked: boolean;
+  protocolo: Record<string, unknown> | null;
+  alternativaEscolhida: string | null;
+  decisaoId: string | null;
+  decisaoCandidato?: {
+    id: string;
+    alternativa_escolhida: string;
+    criterios: string[];
+    limites: Limite[];
+    condicoes: string[];
+    perfil_risco: PerfilRiscoAgente;
+  };
+  contratoCandidato: ContratoDeDecisao | null;
+}
+
+export interface AggregationDecision {
+  decided: boolean;
+  selectedAgentId: string | null;
+  alternativaFinal: string | null;
+  noDecisionReason: NoDecisionReason | null;
+  tieBreakDetails?: string;
+  /** Votos por alternativa (políticas de votação) */
+  votesByAlternative?: Record<string, number>;
+}
+
+export interface ExecucaoMultiAgente {
+  runId: string;
+  episodioId: string;
+  aggregationPolicy: AggregationPolicy;
+  agentResults: AgentProposalResult[];
+  aggregation: AggregationDecision;
+  /** null quando a agregação não decidiu */
+  contratoFinal: ContratoDeDecisao | null;
+  startedAt: string;
+  finishedAt: string;
+  /** Conclusão por override humano de uma execução HUMAN_OVERRIDE_PENDING (Inc 40) */
+  humanOverride?: {
+    actor: string;
+    agentId: string;
+    justificativa: string;
+    alternativaFinal: string;
+    decisaoId: string;
+    contratoId: string;
+    selectedAt: string;
+  };
+}
+
+export interface ExecucoesMultiAgenteResponse {
+  episodio_id: string;
+  execucoes: ExecucaoMultiAgente[];
+  total: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PUBLIC API - PESQUISA (Inc 43)
+// ════════════════════════════════════════════════════════════════════════════
+
+export type ResearchMemoryMode = 'OFF' | 'READONLY';
+
+export interface ResearchLimits {
+  /** Limitado pelo teto do servidor (default 10) */
+  maxVariacoes?: number;
+  /** Limitado pelo teto do servidor (default 30000) */
+  maxTempoMs?: number;
+}
+
+export interface ResearchVariation {
+  id: string;
+  descricao?: string;
+  alternativas?: Alternativa[];
+  incertezas?: string[];
+  riscos?: Risco[];
+  perfilRisco?: PerfilRiscoAgente;
+  criteriosMinimos?: string[];
+  limitesDefinidos?: Limite[];
+  consequenciaRelevante?: string;
+}
+
+export interface PesquisaInput {
+  /** `id` opcional: gerado pelo servidor se ausente */
+  situacao: Partial<SituacaoInput> & { dominio: string; id?: string };
+  variacoes?: ResearchVariation[];
+  modoMemoria: ResearchMemoryMode;
+  limitesPesquisa?: ResearchLimits;
+}
+
+export type ResearchJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobPesquisa {
+  jobId: string;
+  tenantId: string;
+  status: ResearchJobStatus;
+  /** keyId da chave que submeteu */
+  submittedBy: string;
+  submittedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  situacaoId: string;
+  modoMemoria: ResearchMemoryMode;
+  variacoes: number;
+  limitsApplied: Required<ResearchLimits>;
+  reportId?: string;
+  error?: string;
+  /** Escritas recusadas pelos repositórios somente-leitura do job */
+  readOnlyProof?: {
+    eventLogWriteAttempts: number;
+    blockedWrites: string[];
+  };
+}
+
+export interface RelatorioPesquisa {
+  reportId: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  baselineSummary: {
+    situacaoId: string;
+    dominio: string;
+    numAlternativas: number;
+    numRiscos: number;
+    numIncertezas: number;
+    temConsequencia: boolean;
+    closedLayerBlocks: ClosedLayerResult[];
+  };
+  variations: Array<{
+    variationId: string;
+    descricao: string;
+    inputApplied: Partial<ResearchVariation>;
+    analysis: string;
+    riskPosture: PerfilRiscoAgente;
+    closedLayerBlocks: ClosedLayerResult[];
+    processingTimeMs: number;
+  }>;
+  memorySignals?: {
+    episodiosRelevantes: string[];
+    decisoesRelevantes: string[];
+    totalConsultado: number;
+    modo: ResearchMemoryMode;
+  };
+  warnings: string[];
+  notes: string[];
+  limitsApplied: Required<ResearchLimits>;
+  truncated: boolean;
+  truncationReason?: string;
 }
 
 export interface EventLogStatusResponse {
@@ -0,0 +1,49 @@
+/**
+ * LIBERVIA SDK - Verificação de Webhooks
+ *
+ * Verifica a assinatura HMAC de uma entrega de webhook (Inc 37), no
+ * receptor. Deve aceitar exatamente o que camada-3/webhooks/WebhookSignature.ts
+ * produz: `sha256=<hex>` de HMAC-SHA256(segredo, `<timestamp>.<corpo>`).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** Headers de cada entrega (nomes em minúsculas) */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-libervia-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-libervia-timestamp';
+
+export interface WebhookVerificationOptions {
+  /** Diferença máxima entre o timestamp e o relógio local em segundos (default: 300) */
+  toleranceSec?: number;
+  /** Relógio em ms (para testes) */
+  now?: number;
+}
+
+/**
+ * Verifica uma entrega.
+ *
+ * @param secret - Segredo retornado na criação do webhook (`whsec_...`)
+ * @param body - Corpo bruto recebido (antes de JSON.parse)
+ * @param signature - Header X-Libervia-Signature
+ * @param timestamp - Header X-Libervia-Timestamp
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  options: WebhookVerificationOptions = {}
+): boolean {
+  if (!signature || !timestamp) return false;
+
+  const ts = Number(timestamp);
+  const now = options.now ?? Date.now();
+  if (!Number.isFinite(ts) || Math.abs(now / 1000 - ts) > (options.toleranceSec ?? 300)) {
+    return false;
+  }
+
+  const digest = createHmac('sha256', secret).update(`${ts}.${body}`, 'utf8').digest('hex');
+  const expected = Buffer.from(`sha256=${digest}`, 'utf8');
+  const actual = Buffer.from(signature, 'utf8');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -13,7 +13,7 @@
  */
 
 import { TenantRegistry } from './TenantRegistry';
-import { TenantRuntime, RuntimeMetrics } from './TenantRuntime';
+import { TenantRuntime, RuntimeMetrics, CoreInstance } from './TenantRuntime';
 import { TenantConfig, TenantRegistrationInput } from './TenantConfig';
 import {
   ChainVerificationResult,
@@ -25,6 +25,41 @@ import {
   ReplayOptions,
   ReplayResult
 } from '../camada-3/event-log/EventLogRepository';
+import { EventLogWitnessBundle } from '../camada-3/event-log/EventLogCheckpoint';
+import { SegmentMerkleRoot, EventInclusionProof } from '../camada-3/event-log/EventLogMerkle';
+import { ProjectionReport } from '../camada-3/projection/ProjectionTypes';
+import { WebhookDelivery, WebhookDeliveryQuery } from '../camada-3/webhooks/WebhookTypes';
+import { AutonomyMandate } from '../camada-3/autonomy/AutonomyTypes';
+import {
+  MandateTemplate,
+  MandateTemplateGrantInput,
+  MandateTemplateGrantResult,
+  MandateTemplateUpdateResult,
+  MandateRegrantPlan,
+  MandateRegrantInput,
+  MandateRegrantResult
+} from '../camada-3/autonomy/MandateTemplateTypes';
+import {
+  ReviewCase,
+  ReviewError,
+  ResolveReviewCaseInput,
+  DismissReviewCaseInput,
+  ResolveReviewResult
+} from '../camada-3/review';
+import {
+  BackupError,
+  BackupJob,
+  BackupMetadata,
+  BackupNotFoundError,
+  BackupOptions,
+  BackupRewrapResult,
+  BackupValidationResult,
+  DRProcedure,
+  DRProcedureNotFoundError,
+  DRProcedureStateError,
+  DRProcedureType,
+  RestoreOptions
+} from '../camada-3/backup';
 
 // ════════════════════════════════════════════════════════════════════════════
 // TIPOS
@@ -37,6 +72,8 @@ export interface AdminResult<T = void> {
   success: boolean;
   data?: T;
   error?: string;
+  /** INCREMENTO 42: codigo estruturado do erro do Core (ex: REVIEW_VERSION_CONFLICT) */
+  code?: string;
 }
 
 /**
@@ -286,6 +323,82 @@ export class TenantAdminAPI {
     }
   }
 
+  /**
+   * INCREMENTO 32: Pacote de checkpoints assinados para testemunhas externas
+   */
+  async exportWitnessBundle(
+    tenantId: string
+  ): Promise<AdminResult<EventLogWitnessBundle>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const bundle = await instance.eventLog.exportWitnessBundle();
+      return { success: true, data: bundle };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * INCREMENTO 33: Raizes de Merkle dos segmentos fechados
+   */
+  async listSegmentRoots(
+    tenantId: string
+  ): Promise<AdminResult<SegmentMerkleRoot[]>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const roots = await instance.eventLog.listSegmentRoots();
+      return { success: true, data: roots };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * INCREMENTO 33: Prova de inclusao de um evento
+   */
+  async getInclusionProof(
+    tenantId: string,
+    eventId: string
+  ): Promise<AdminResult<EventInclusionProof>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const proof = await instance.eventLog.getInclusionProof(eventId);
+      if (!proof) {
+        return { success: false, error: `Evento nao encontrado: ${eventId}` };
+      }
+      return { success: true, data: proof };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * INCREMENTO 35: Estado reconstruido do EventLog comparado aos repositorios
+   */
+  async verifyProjection(
+    tenantId: string
+  ): Promise<AdminResult<ProjectionReport>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const report = await instance.orquestrador.VerificarProjecao();
+      return { success: true, data: report };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
   /**
    * Lista todos os eventos de um tenant
    */
@@ -318,6 +431,565 @@ export class TenantAdminAPI {
     }
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // WEBHOOKS (INCREMENTO 37)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Lista entregas de webhook do outbox do tenant (mais recentes primeiro)
+   */
+  async listWebhookDeliveries(
+    tenantId: string,
+    query?: WebhookDeliveryQuery
+  ): Promise<AdminResult<WebhookDelivery[]>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const deliveries = await instance.webhooks.listDeliveries(query);
+      return { success: true, data: deliveries };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // MANDATOS DE AUTONOMIA (INCREMENTO 41)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Concede mandato (concedido_por ja preenchido pelo chamador)
+   */
+  async grantMandate(
+    tenantId: string,
+    mandate: AutonomyMandate
+  ): Promise<AdminResult<AutonomyMandate>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const granted = await instance.orquestrador.ConcederMandato(mandate);
+      return { success: true, data: granted };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Revoga mandato e devolve o registro atualizado
+   */
+  async revokeMandate(
+    tenantId: string,
+    mandateId: string,
+    revokedBy: string,
+    motivo: string
+  ): Promise<AdminResult<AutonomyMandate>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      await instance.orquestrador.RevogarMandato(mandateId, revokedBy, motivo);
+      const mandate = await instance.orquestrador.GetMandato(mandateId);
+      return { success: true, data: mandate! };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Retoma mandato suspenso por consequencia
+   */
+  async resumeMandate(
+    tenantId: string,
+    mandateId: string,
+    resumedBy: string,
+    motivo?: string
+  ): Promise<AdminResult<AutonomyMandate>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const mandate = await instance.orquestrador.RetomarMandato(mandateId, resumedBy, motivo);
+      return { success: true, data: mandate };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Mandato ativo de cada agente (ou so do agente informado)
+   */
+  async listActiveMandates(
+    tenantId: string,
+    agentId?: string
+  ): Promise<AdminResult<AutonomyMandate[]>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      if (agentId !== undefined) {
+        const mandate = await instance.orquestrador.GetMandatoAtivo(agentId);
+        return { success: true, data: mandate ? [mandate] : [] };
+      }
+      const mandates = await instance.orquestrador.ListarMandatosAtivos();
+      return { success: true, data: mandates };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // MODELOS DE MANDATO (INCREMENTO 52)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Cria modelo de mandato (versao 1)
+   */
+  async createMandateTemplate(
+    tenantId: string,
+    templateId: string,
+    spec: unknown,
+    actor: string
+  ): Promise<AdminResult<MandateTemplate>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const template = await instance.orquestrador.CriarModeloMandato(templateId, spec, actor);
+      return { success: true, data: template };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Nova versao do modelo; mandatos vigentes nao mudam
+   */
+  async updateMandateTemplate(
+    tenantId: string,
+    templateId: string,
+    spec: unknown,
+    expectedVersion: number,
+    actor: string
+  ): Promise<AdminResult<MandateTemplateUpdateResult>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const result = await instance.orquestrador.AtualizarModeloMandato(templateId, spec, expectedVersion, actor);
+      return { success: true, data: result };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Versao mais recente de cada modelo
+   */
+  async listMandateTemplates(tenantId: string): Promise<AdminResult<MandateTemplate[]>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const templates = await instance.orquestrador.ListarModelosMandato();
+      return { success: true, data: templates };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Versao de um modelo (default: a mais recente) e numeros de todas as versoes
+   */
+  async getMandateTemplate(
+    tenantId: string,
+    templateId: string,
+    version?: number
+  ): Promise<AdminResult<{ template: MandateTemplate; versions: number[] }>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const template = await instance.orquestrador.ObterModeloMandato(templateId, version);
+      if (!template) {
+        return {
+          success: false,
+          error: `Modelo de mandato ${templateId}${version !== undefined ? ` v${version}` : ''} nao encontrado`
+        };
+      }
+      const versions = (await instance.orquestrador.ListarVersoesModeloMandato(templateId)).map(t => t.version);
+      return { success: true, data: { template, versions } };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Concede mandatos a varios agentes a partir do modelo
+   */
+  async grantMandatesFromTemplate(
+    tenantId: string,
+    templateId: string,
+    input: MandateTemplateGrantInput,
+    actor: string
+  ): Promise<AdminResult<MandateTemplateGrantResult>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const result = await instance.orquestrador.ConcederMandatosPorModelo(templateId, input, actor);
+      return { success: true, data: result };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Mandatos vigentes de versoes anteriores do modelo, com diff (nao altera nada)
+   */
+  async planMandateTemplateRegrant(
+    tenantId: string,
+    templateId: string
+  ): Promise<AdminResult<MandateRegrantPlan>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const plan = await instance.orquestrador.PlanejarReconcessaoModelo(templateId);
+      return { success: true, data: plan };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Reconcede mandatos a versao atual do modelo
+   */
+  async regrantMandateTemplate(
+    tenantId: string,
+    templateId: string,
+    input: MandateRegrantInput,
+    actor: string
+  ): Promise<AdminResult<MandateRegrantResult>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const result = await instance.orquestrador.ReconcederMandatosPorModelo(templateId, input, actor);
+      return { success: true, data: result };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // REVISAO HUMANA (INCREMENTO 42)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Revisor assume o caso
+   */
+  async claimReviewCase(
+    tenantId: string,
+    reviewId: string,
+    reviewer: string,
+    expectedVersion?: number
+  ): Promise<AdminResult<ReviewCase>> {
+    return this.reviewOperation(tenantId, instance =>
+      instance.orquestrador.AssumirCasoRevisao(reviewId, reviewer, expectedVersion)
+    );
+  }
+
+  /**
+   * Revisor devolve o caso a fila
+   */
+  async releaseReviewCase(
+    tenantId: string,
+    reviewId: string,
+    reviewer: string,
+    expectedVersion?: number
+  ): Promise<AdminResult<ReviewCase>> {
+    return this.reviewOperation(tenantId, instance =>
+      instance.orquestrador.DevolverCasoRevisao(reviewId, reviewer, expectedVersion)
+    );
+  }
+
+  /**
+   * Atualiza notas do caso
+   */
+  async updateReviewNotes(
+    tenantId: string,
+    reviewId: string,
+    notes: string,
+    reviewer: string,
+    expectedVersion?: number
+  ): Promise<AdminResult<ReviewCase>> {
+    return this.reviewOperation(tenantId, instance =>
+      instance.orquestrador.AtualizarNotasCasoRevisao(reviewId, notes, reviewer, expectedVersion)
+    );
+  }
+
+  /**
+   * Resolve o caso (decidedBy ja preenchido pelo chamador)
+   */
+  async resolveReviewCase(
+    tenantId: string,
+    reviewId: string,
+    input: ResolveReviewCaseInput
+  ): Promise<AdminResult<ResolveReviewResult>> {
+    return this.reviewOperation(tenantId, instance =>
+      instance.orquestrador.ResolverCasoRevisao(reviewId, input)
+    );
+  }
+
+  /**
+   * Dispensa o caso (dismissedBy ja preenchido pelo chamador)
+   */
+  async dismissReviewCase(
+    tenantId: string,
+    reviewId: string,
+    input: DismissReviewCaseInput
+  ): Promise<AdminResult<ReviewCase>> {
+    return this.reviewOperation(tenantId, instance =>
+      instance.orquestrador.DispensarCasoRevisao(reviewId, input)
+    );
+  }
+
+  /**
+   * Executa operacao de revisao preservando o codigo do ReviewError
+   */
+  private async reviewOperation<T>(
+    tenantId: string,
+    operation: (instance: CoreInstance) => Promise<T>
+  ): Promise<AdminResult<T>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const data = await operation(instance);
+      return { success: true, data };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido',
+        code: err instanceof ReviewError ? err.code : undefined
+      };
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // BACKUP E DISASTER RECOVERY (INCREMENTO 44)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Enfileira backup do tenant (requestedBy ja preenchido pelo chamador)
+   */
+  async createBackup(
+    tenantId: string,
+    requestedBy: string,
+    options: Pick<BackupOptions, 'includeEntities' | 'description' | 'baseBackupId'> = {}
+  ): Promise<AdminResult<BackupJob>> {
+    return this.backupOperation(tenantId, async instance => {
+      // Inc 46: incremental exige base existente antes de enfileirar
+      if (options.baseBackupId) {
+        await this.exigirBackup(instance, options.baseBackupId);
+      }
+      // Inc 47: tenant com encryptedBackup cifra tambem os backups manuais
+      const encrypted = this.registry.get(tenantId)?.features.encryptedBackup === true;
+      return instance.backups.submitBackup(requestedBy, () =>
+        instance.orquestrador.CriarBackup({ ...options, tenantId, encrypted })
+      );
+    });
+  }
+
+  /**
+   * Re-embrulha os backups cifrados do tenant com a chave ativa (Inc 47)
+   */
+  async rewrapBackups(tenantId: string): Promise<AdminResult<BackupRewrapResult>> {
+    return this.backupOperation(tenantId, instance =>
+      instance.orquestrador.RotacionarChaveBackups(tenantId)
+    );
+  }
+
+  /**
+   * Lista backups do tenant (mais recentes primeiro)
+   */
+  async listBackups(tenantId: string): Promise<AdminResult<BackupMetadata[]>> {
+    return this.backupOperation(tenantId, instance =>
+      instance.orquestrador.ListarBackups()
+    );
+  }
+
+  /**
+   * Valida hash e assinatura de um backup
+   */
+  async validateBackup(
+    tenantId: string,
+    backupId: string
+  ): Promise<AdminResult<BackupValidationResult>> {
+    return this.backupOperation(tenantId, async instance => {
+      await this.exigirBackup(instance, backupId);
+      return instance.orquestrador.ValidarBackup(backupId);
+    });
+  }
+
+  /**
+   * Enfileira restauracao (dry-run ou efetiva) de um backup
+   */
+  async restoreBackup(
+    tenantId: string,
+    backupId: string,
+    requestedBy: string,
+    options: RestoreOptions
+  ): Promise<AdminResult<BackupJob>> {
+    return this.backupOperation(tenantId, async instance => {
+      await this.exigirBackup(instance, backupId);
+      const operation = options.mode === 'effective' ? 'restore' : 'restore_dry_run';
+      return instance.backups.submitRestore(operation, backupId, requestedBy, () =>
+        instance.orquestrador.RestaurarBackup(backupId, options)
+      );
+    });
+  }
+
+  /**
+   * Jobs de backup/DR do tenant (mais recentes primeiro)
+   */
+  async listBackupJobs(tenantId: string): Promise<AdminResult<BackupJob[]>> {
+    return this.backupOperation(tenantId, async instance => instance.backups.listJobs());
+  }
+
+  /**
+   * Job de backup/DR por ID
+   */
+  async getBackupJob(tenantId: string, jobId: string): Promise<AdminResult<BackupJob>> {
+    return this.backupOperation(tenantId, async instance => {
+      const job = instance.backups.getJob(jobId);
+      if (!job) {
+        throw new Error(`Job de backup nao encontrado: ${jobId}`);
+      }
+      return job;
+    });
+  }
+
+  /**
+   * Enfileira a primeira fase de um procedimento DR
+   */
+  async startDRProcedure(
+    tenantId: string,
+    requestedBy: string,
+    type: DRProcedureType,
+    backupId?: string
+  ): Promise<AdminResult<BackupJob>> {
+    return this.backupOperation(tenantId, async instance => {
+      if (backupId !== undefined) {
+        await this.exigirBackup(instance, backupId);
+      }
+      return instance.backups.submitProcedure('dr_start', requestedBy, () =>
+        instance.orquestrador.IniciarProcedimentoDR(type, backupId)
+      );
+    });
+  }
+
+  /**
+   * Enfileira a confirmacao (segunda fase) de um procedimento DR
+   */
+  async confirmDRProcedure(
+    tenantId: string,
+    procedureId: string,
+    requestedBy: string
+  ): Promise<AdminResult<BackupJob>> {
+    return this.backupOperation(tenantId, async instance => {
+      this.exigirProcedimentoLivre(instance, procedureId);
+      if (!instance.orquestrador.ProcedimentoDRAguardaConfirmacao(procedureId)) {
+        throw new DRProcedureStateError(`Procedimento nao aguarda confirmacao: ${procedureId}`, procedureId);
+      }
+      return instance.backups.submitProcedure('dr_confirm', requestedBy, () =>
+        instance.orquestrador.ConfirmarProcedimentoDR(procedureId),
+        procedureId
+      );
+    });
+  }
+
+  /**
+   * Cancela procedimento DR nao concluido
+   */
+  async cancelDRProcedure(tenantId: string, procedureId: string): Promise<AdminResult<DRProcedure>> {
+    return this.backupOperation(tenantId, async instance => {
+      this.exigirProcedimentoLivre(instance, procedureId);
+      return instance.orquestrador.CancelarProcedimentoDR(procedureId);
+    });
+  }
+
+  /**
+   * Procedimentos DR da instancia do tenant
+   */
+  async listDRProcedures(tenantId: string): Promise<AdminResult<DRProcedure[]>> {
+    return this.backupOperation(tenantId, async instance =>
+      instance.orquestrador.ListarProcedimentosDR()
+    );
+  }
+
+  /**
+   * Procedimento DR por ID
+   */
+  async getDRProcedure(tenantId: string, procedureId: string): Promise<AdminResult<DRProcedure>> {
+    return this.backupOperation(tenantId, async instance => {
+      const procedure = instance.orquestrador.GetProcedimentoDR(procedureId);
+      if (!procedure) {
+        throw new DRProcedureNotFoundError(procedureId);
+      }
+      return procedure;
+    });
+  }
+
+  private async exigirBackup(instance: CoreInstance, backupId: string): Promise<void> {
+    if (!(await instance.orquestrador.ExisteBackup(backupId))) {
+      throw new BackupNotFoundError(backupId);
+    }
+  }
+
+  /**
+   * Procedimento existe e nao tem job aguardando ou executando
+   */
+  private exigirProcedimentoLivre(instance: CoreInstance, procedureId: string): void {
+    if (!instance.orquestrador.GetProcedimentoDR(procedureId)) {
+      throw new DRProcedureNotFoundError(procedureId);
+    }
+    if (instance.backups.hasPendingJob(procedureId)) {
+      throw new DRProcedureStateError(`Procedimento com job pendente: ${procedureId}`, procedureId);
+    }
+  }
+
+  /**
+   * Executa operacao de backup preservando o codigo do BackupError
+   */
+  private async backupOperation<T>(
+    tenantId: string,
+    operation: (instance: CoreInstance) => Promise<T>
+  ): Promise<AdminResult<T>> {
+    try {
+      const instance = await this.runtime.getOrCreate(tenantId);
+      const data = await operation(instance);
+      return { success: true, data };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Erro desconhecido',
+        code: err instanceof BackupError ? err.code : undefined
+      };
+    }
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // METRICAS
   // ══════════════════════════════════════════════════════════════════════════
@@ -9,6 +9,9 @@
  * - Quotas e features configuraveis por tenant
  */
 
+import { StorageDriverKind } from '../camada-3/storage/StorageTypes';
+import { ClosedLayerRuleSet } from '../camada-3/camada-fechada/ClosedLayerTypes';
+
 // ════════════════════════════════════════════════════════════════════════════
 // ROLES (RBAC)
 // ════════════════════════════════════════════════════════════════════════════
@@ -70,6 +73,83 @@ export interface TenantAuthKey {
   description?: string;
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// WEBHOOKS (INCREMENTO 37)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Status de uma assinatura de webhook
+ */
+export type WebhookStatus = 'active' | 'disabled';
+
+/**
+ * Assinatura de webhook de um tenant
+ *
+ * O segredo HMAC NAO e armazenado: e derivado do pepper do servidor e de
+ * secretSalt (ver deriveWebhookSecret). Trocar o salt rotaciona o segredo.
+ */
+export interface TenantWebhook {
+  /**
+   * ID unico da assinatura (ex: 'wh_abc123')
+   */
+  webhookId: string;
+
+  /**
+   * URL de destino (http ou https)
+   */
+  url: string;
+
+  /**
+   * Eventos entregues (subconjunto de WEBHOOK_EVENT_TYPES)
+   */
+  events: string[];
+
+  /**
+   * Status da assinatura
+   */
+  status: WebhookStatus;
+
+  /**
+   * Salt usado na derivacao do segredo
+   */
+  secretSalt: string;
+
+  /**
+   * Data de criacao (ISO 8601)
+   * Eventos anteriores nao sao entregues
+   */
+  createdAt: string;
+
+  /**
+   * Data de ultima atualizacao (ISO 8601)
+   */
+  updatedAt?: string;
+
+  /**
+   * Descricao opcional
+   */
+  description?: string;
+}
+
+/**
+ * Input de criacao de assinatura
+ */
+export interface WebhookCreateInput {
+  url: string;
+  events: string[];
+  description?: string;
+}
+
+/**
+ * Input de atualizacao de assinatura (parcial)
+ */
+export interface WebhookUpdateInput {
+  url?: string;
+  events?: string[];
+  status?: WebhookStatus;
+  description?: string;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // STATUS
 // ════════════════════════════════════════════════════════════════════════════
@@ -101,6 +181,12 @@ export interface TenantQuotas {
    * Rate limit: requisicoes por minuto (0 = ilimitado)
    */
   rateLimitRpm: number;
+
+  /**
+   * Jobs de pesquisa encerrados mantidos, com seus relatorios (0 = ilimitado).
+   * Ausente em tenants anteriores ao Inc 43: usa DEFAULT_RESEARCH_JOB_CONFIG.maxReports
+   */
+  maxResearchReports?: number;
 }
 
 /**
@@ -109,7 +195,8 @@ export interface TenantQuotas {
 export const DEFAULT_QUOTAS: TenantQuotas = {
   maxEvents: 10_000_000,    // 10M eventos
   maxStorageMB: 10_240,     // 10 GB
-  rateLimitRpm: 1000        // 1000 req/min
+  rateLimitRpm: 1000,       // 1000 req/min
+  maxResearchReports: 100   // 100 relatorios de pesquisa
 };
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -129,6 +216,17 @@ export interface TenantFeatures {
    * Usar backup assinado (Ed25519)
    */
   signedBackup: boolean;
+
+  /**
+   * Backup cifrado em repouso (AES-256-GCM, key-ring LIBERVIA_BACKUP_KEYS) (Inc 47)
+   */
+  encryptedBackup: boolean;
+
+  /**
+   * Driver de armazenamento dos repositorios (Inc 28).
+   * Ausente = 'json'. Troca para 'sqlite' exige migracao (storage:migrate).
+   */
+  storageDriver?: StorageDriverKind;
 }
 
 /**
@@ -136,7 +234,8 @@ export interface TenantFeatures {
  */
 export const DEFAULT_FEATURES: TenantFeatures = {
   backupEnabled: true,
-  signedBackup: false
+  signedBackup: false,
+  encryptedBackup: false
 };
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -201,6 +300,16 @@ export interface TenantConfig {
    * Cada chave tem um papel (role) e um hash do token.
    */
   keys?: TenantAuthKey[];
+
+  /**
+   * Assinaturas de webhook do tenant (Inc 37)
+   */
+  webhooks?: TenantWebhook[];
+
+  /**
+   * Regras da Camada Fechada do tenant, somadas as embutidas (Inc 48)
+   */
+  closedLayerRuleSet?: ClosedLayerRuleSet;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -18,6 +18,9 @@ import {
   TenantUpdateInput,
   TenantAuthKey,
   TenantRole,
+  TenantWebhook,
+  WebhookCreateInput,
+  WebhookUpdateInput,
   createTenantConfig
 } from './TenantConfig';
 import {
@@ -26,11 +29,17 @@ import {
   resolveTenantDataDir,
   generateSecureToken,
   generateKeyId,
+  generateWebhookId,
+  deriveWebhookSecret,
   hmacToken,
   sha256Token,
   validateToken,
   secureCompare
 } from './TenantSecurity';
+import { WEBHOOK_EVENT_TYPES, WebhookEndpoint } from '../camada-3/webhooks/WebhookTypes';
+import { blockedWebhookHost } from '../camada-3/webhooks/WebhookTarget';
+import { validateClosedLayerRuleSet } from '../camada-3/camada-fechada/ClosedLayerRuleSet';
+import { ClosedLayerRuleSet } from '../camada-3/camada-fechada/ClosedLayerTypes';
 
 // ════════════════════════════════════════════════════════════════════════════
 // TIPOS ADICIONAIS
@@ -47,6 +56,20 @@ export interface CreateKeyResult {
   createdAt: string;
 }
 
+/**
+ * Assinatura de webhook sem o salt do segredo (Inc 37)
+ */
+export type WebhookInfo = Omit<TenantWebhook, 'secretSalt'>;
+
+/**
+ * Resultado da criacao (ou rotacao de segredo) de um webhook
+ * Inclui o segredo HMAC (retornado APENAS UMA VEZ)
+ */
+export interface CreateWebhookResult {
+  webhook: WebhookInfo;
+  secret: string;
+}
+
 /**
  * Contexto de autenticacao apos validacao de token
  */
@@ -66,6 +89,47 @@ interface RegistryData {
   updatedAt: string;
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS (WEBHOOKS)
+// ════════════════════════════════════════════════════════════════════════════
+
+function validateWebhookUrl(url: unknown): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(String(url));
+  } catch {
+    throw new Error(`URL de webhook invalida: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`URL de webhook invalida (use http ou https): ${url}`);
+  }
+  // SSRF: destinos internos sao recusados (e verificados de novo na entrega)
+  const blocked = blockedWebhookHost(parsed);
+  if (blocked) {
+    throw new Error(`URL de webhook invalida (${blocked}): ${url}`);
+  }
+  return parsed.toString();
+}
+
+function validateWebhookEvents(events: unknown): string[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new Error('Eventos de webhook invalidos: informe ao menos um evento');
+  }
+  for (const evento of events) {
+    if (!WEBHOOK_EVENT_TYPES.includes(evento)) {
+      throw new Error(
+        `Evento de webhook invalido: ${evento} (permitidos: ${WEBHOOK_EVENT_TYPES.join(', ')})`
+      );
+    }
+  }
+  return [...new Set(events as string[])];
+}
+
+function toWebhookInfo(webhook: TenantWebhook): WebhookInfo {
+  const { secretSalt: _secretSalt, ...info } = webhook;
+  return { ...info, events: [...info.events] };
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // IMPLEMENTACAO
 // ════════════════════════════════════════════════════════════════════════════
@@ -638,4 +702,263 @@ export class TenantRegistry {
 
     return null;
   }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // WEBHOOKS (INCREMENTO 37)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Cria uma assinatura de webhook.
+   *
+   * @returns Assinatura e segredo HMAC (segredo retornado APENAS UMA VEZ)
+   */
+  async createTenantWebhook(
+    tenantId: string,
+    input: WebhookCreateInput
+  ): Promise<CreateWebhookResult> {
+    this.checkInitialized();
+
+    const normalizedId = normalizeTenantId(tenantId);
+    const tenant = this.tenants.get(normalizedId);
+
+    if (!tenant) {
+      throw new Error(`Tenant nao encontrado: ${normalizedId}`);
+    }
+
+    const webhook: TenantWebhook = {
+      webhookId: generateWebhookId(),
+      url: validateWebhookUrl(input.url),
+      events: validateWebhookEvents(input.events),
+      status: 'active',
+      secretSalt: generateSecureToken(),
+      createdAt: new Date().toISOString(),
+      description: input.description
+    };
+
+    tenant.webhooks = tenant.webhooks || [];
+    tenant.webhooks.push(webhook);
+    tenant.updatedAt = webhook.createdAt;
+
+    this.tenants.set(normalizedId, tenant);
+    await this.persist();
+
+    return {
+      webhook: toWebhookInfo(webhook),
+      secret: deriveWebhookSecret(normalizedId, webhook.webhookId, webhook.secretSalt)
+    };
+  }
+
+  /**
+   * Lista assinaturas de webhook (sem segredos).
+   */
+  listTenantWebhooks(tenantId: string): WebhookInfo[] {
+    this.checkInitialized();
+
+    const normalizedId = normalizeTenantId(tenantId);
+    const tenant = this.tenants.get(normalizedId);
+
+    if (!tenant) {
+      throw new Error(`Tenant nao encontrado: ${normalizedId}`);
+    }
+
+    return (tenant.webhooks || []).map(toWebhookInfo);
+  }
+
+  /**
+   * Atualiza URL, eventos, status ou descricao de uma assinatura.
+   */
+  async updateTenantWebhook(
+    tenantId: string,
+    webhookId: string,
+    input: WebhookUpdateInput
+  ): Promise<WebhookInfo> {
+    this.checkInitialized();
+
+    const normalizedId = normalizeTenantId(tenantId);
+    const tenant = this.tenants.get(normalizedId);
+
+    if (!tenant) {
+      throw new Error(`Tenant nao encontrado: ${normalizedId}`);
+    }
+
+    const webhook = tenant.webhooks?.find(w => w.webhookId === webhookId);
+    if (!webhook) {
+      throw new Error(`Webhook nao encontrado: ${webhookId}`);
+    }
+
+    if (input.status !== undefined && input.status !== 'active' && input.status !== 'disabled') {
+      throw new Error(`Status de webhook invalido: ${input.status}`);
+    }
+
+    if (input.url !== undefined) webhook.url = validateWebhookUrl(input.url);
+    if (input.events !== undefined) webhook.events = validateWebhookEvents(input.events);
+    if (input.status !== undefined) webhook.status = input.status;
+    if (input.description !== undefined) webhook.description = input.description;
+    webhook.updatedAt = new Date().toISOString();
+    tenant.updatedAt = webhook.updatedAt;
+
+    this.tenants.set(normalizedId, tenant);
+    await this.persist();
+
+    return toWebhookInfo(webhook);
+  }
+
+  /**
+   * Gera novo segredo para uma assinatura (o anterior deixa de valer).
+   */
+  async rotateTenantWebhookSecret(tenantId: string, webhookId: string): Promise<CreateWebhookResult> {
+    this.checkInitialized();
+
+    const normalizedId = normalizeTenantId(tenantId);
+    const tenant = this.tenants.get(normalizedId);
+
+    if (!tenant) {
+      throw new Error(`Tenant nao encontrado: ${normalizedId}`);
+    }
+
+    const webhook = tenant.webhooks?.find(w => w.webhookId === webhookId);
+    if (!webhook) {
+      throw new Error(`Webhook nao encontrado: ${webhookId}`);
+    }
+
+    webhook.secretSalt = generateSecureToken();
+    webhook.updatedAt = new Date().toISOString();
+    tenant.updatedAt = webhook.updatedAt;
+
+    this.tenants.set(normalizedId, tenant);
+    await this.persist();
+
+    return {
+      webhook: toWebhookInfo(webhook),
+      secret: deriveWebhookSecret(normalizedId, webhook.webhookId, webhook.secretSalt)
+    };
+  }
+
+  /**
+   * Remove uma assinatura. Entregas pendentes passam a failed.
+   */
+  async removeTenantWebhook(tenantId: string, webhookId: string): Promise<void> {
+    this.checkInitialized();
+
+    const normalizedId = normalizeTenantId(tenantId);
+    const tenant = this.tenants.get(normalizedId);
+
+    if (!tenant) {
+      throw new Error(`Tenant nao encontrado: ${normalizedId}`);
+    }
+
+    const index = tenant.webhooks?.findIndex(w => w.webhookId === webhookId) ?? -1;
+    if (index === -1) {
+      throw new Error(`Webhook nao encontrado: ${webhookId}`);
+    }
+
+    tenant.webhooks!.splice(index, 1);
+    tenant.updatedAt = new Date().toISOString();
+
+    this.tenants.set(normalizedId, tenant);
+    await this.persist();
+  }
+
+  /**
+   * Destinos de entrega com segredo derivado, usados pelo despachante.
+   * Tenant inexistente = nenhum destino.
+   */
+  getWebhookEndpoints(tenantId: string): WebhookEndpoint[] {
+    this.checkInitialized();
+
+    const normalizedId = normalizeTenantId(tenantId);
+    const tenant = this.tenants.get(normalizedId);
+
+    return (tenant?.webhooks || []).map(w => ({
+      webhookId: w.webhookId,
+      url: w.url,
+      events: [...w.events],
+      active: w.status === 'active',
+      secret: deriveWebhookSecret(normalizedId, w.webhookId, w.secretSalt),
+      createdAt: w.createdAt
+    }));
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // REGRAS DA CAMADA FECHADA (INCREMENTO 48)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Instala ou substitui o conjunto de regras da Camada Fechada do tenant.
+   * Substituir exige versao maior que a atual, para que cada versao
+   * registrada nos protocolos corresponda a um unico conteudo.
+   *
+   * @throws Error se o conjunto for invalido ou a versao nao avancar
+   */
+  async setClosedLayerRuleSet(tenantId: string, raw: unknown): Promise<ClosedLayerRuleSet> {
+    this.checkInitialized();
+
+    const normalizedId = normalizeTenantId(tenantId);
+    const tenant = this.tenants.get(normalizedId);
+
+    if (!tenant) {
+      throw new Error(`Tenant nao encontrado: ${normalizedId}`);
+    }
+
+    const validation = validateClosedLayerRuleSet(raw);
+    if (!validation.valid || !validation.ruleSet) {
+      throw new Error(`Conjunto de regras invalido: ${validation.errors.join('; ')}`);
+    }
+
+    const current = tenant.closedLayerRuleSet;
+    if (current && validation.ruleSet.version <= current.version) {
+      throw new Error(
+        `Versao do conjunto de regras deve ser maior que ${current.version} ` +
+        `(recebida: ${validation.ruleSet.version})`
+      );
+    }
+
+    tenant.closedLayerRuleSet = validation.ruleSet;
+    tenant.updatedAt = new Date().toISOString();
+
+    this.tenants.set(normalizedId, tenant);
+    await this.persist();
+
+    return validation.ruleSet;
+  }
+
+  /**
+   * Conjunto de regras do tenant (null = apenas regras embutidas).
+   */
+  getClosedLayerRuleSet(tenantId: string): ClosedLayerRuleSet | null {
+    this.checkInitialized();
+
+    const normalizedId = normalizeTenantId(tenantId);
+    const tenant = this.tenants.get(normalizedId);
+
+    if (!tenant) {
+      throw new Error(`Tenant nao encontrado: ${normalizedId}`);
+    }
+
+    return tenant.closedLayerRuleSet ?? null;
+  }
+
+  /**
+   * Remove o conjunto de regras; o tenant volta a usar apenas as embutidas.
+   */
+  async removeClosedLayerRuleSet(tenantId: string): Promise<void> {
+    this.checkInitialized();
+
+    const normalizedId = normalizeTenantId(tenantId);
+    const tenant = this.tenants.get(normalizedId);
+
+    if (!tenant) {
+      throw new Error(`Tenant nao encontrado: ${normalizedId}`);
+    }
+
+    if (!tenant.closedLayerRuleSet) {
+      throw new Error(`Conjunto de regras nao encontrado para o tenant: ${normalizedId}`);
+    }
+
+    delete tenant.closedLayerRuleSet;
+    tenant.updatedAt = new Date().toISOString();
+
+    this.tenants.set(normalizedId, tenant);
+    await this.persist();
+  }
 }
@@ -10,6 +10,8 @@
  * - Integrar com adapters opcionais
  */
 
+import * as path from 'path';
+
 import { OrquestradorCognitivo } from '../camada-3/orquestrador/OrquestradorCognitivo';
 import { EventLogRepository } from '../camada-3/event-log/EventLogRepository';
 import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
@@ -18,7 +20,23 @@ import { EpisodioRepositoryImpl } from '../camada-3/repositorios/implementacao/E
 import { DecisaoRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisaoRepositoryImpl';
 import { ContratoRepositoryImpl } from '../camada-3/repositorios/implementacao/ContratoRepositoryImpl';
 import { DecisionProtocolRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisionProtocolRepositoryImpl';
+import { ObservacaoRepositoryImpl } from '../camada-3/repositorios/implementacao/ObservacaoRepositoryImpl';
+import { AutonomyMandateRepositoryImpl } from '../camada-3/autonomy/AutonomyMandateRepositoryImpl';
+import { MandateTemplateRepositoryImpl } from '../camada-3/autonomy/MandateTemplateRepositoryImpl';
+import { ReviewCaseRepositoryImpl } from '../camada-3/review/ReviewCaseRepositoryImpl';
 import { MemoryQueryService } from '../camada-3/servicos/MemoryQueryService';
+import { ConsequenciaQueryService } from '../camada-3/servicos/ConsequenciaQueryService';
+import { StorageDriver, StorageDriverKind } from '../camada-3/storage/StorageTypes';
+import { createStorageDriver } from '../camada-3/storage/StorageFactory';
+import { UnitOfWork } from '../camada-3/unit-of-work/UnitOfWork';
+import { IdempotencyKeyRepositoryImpl } from '../camada-3/idempotency/IdempotencyKeyRepositoryImpl';
+import { MultiAgentRunRepositoryImpl } from '../camada-3/multiagente/MultiAgentRunRepositoryImpl';
+import { WebhookOutbox } from '../camada-3/webhooks/WebhookOutbox';
+import { WebhookDispatcher } from '../camada-3/webhooks/WebhookDispatcher';
+import { ResearchStore } from '../camada-3/pesquisa/ResearchStore';
+import { ResearchJobRunner } from '../camada-3/pesquisa/ResearchJobRunner';
+import { createReadOnlyContext } from '../camada-3/pesquisa/ReadOnlyRepositories';
+import { BackupJobRunner } from '../camada-3/backup/BackupJobRunner';
 
 import { TenantRegistry } from './TenantRegistry';
 import { IntegrationAdapter, IntegrationFactory, noAdapterFactory } from './IntegrationAdapter';
@@ -52,6 +70,31 @@ export interface CoreInstance {
    */
   eventLog: EventLogRepository;
 
+  /**
+   * Driver de armazenamento dos repositorios (Inc 28)
+   */
+  storage: StorageDriver;
+
+  /**
+   * Consultas de consequencias registradas (Inc 38)
+   */
+  consequencias: ConsequenciaQueryService;
+
+  /**
+   * Despachante de webhooks do tenant (Inc 37)
+   */
+  webhooks: WebhookDispatcher;
+
+  /**
+   * Jobs de pesquisa em segundo plano (Inc 43)
+   */
+  research: ResearchJobRunner;
+
+  /**
+   * Jobs de backup, restore e DR (Inc 44)
+   */
+  backups: BackupJobRunner;
+
   /**
    * Adapter de integracao (opcional)
    */
@@ -149,7 +192,11 @@ export class TenantRuntime {
     const dataDir = await resolveTenantDataDir(this.baseDir, tenantId);
 
     // Criar instancia do Core
-    const instance = await this.createCoreInstance(tenantId, dataDir);
+    const instance = await this.createCoreInstance(
+      tenantId,
+      dataDir,
+      tenantConfig.features.storageDriver ?? 'json'
+    );
 
     // Cachear
     this.instances.set(tenantId, instance);
@@ -187,16 +234,21 @@ export class TenantRuntime {
    */
   private async createCoreInstance(
     tenantId: string,
-    dataDir: string
+    dataDir: string,
+    storageKind: StorageDriverKind
   ): Promise<CoreInstance> {
     const now = new Date().toISOString();
 
-    // 1. Criar repositorios
-    const situacaoRepo = await SituacaoRepositoryImpl.create(dataDir);
-    const episodioRepo = await EpisodioRepositoryImpl.create(dataDir);
-    const decisaoRepo = await DecisaoRepositoryImpl.create(dataDir);
-    const contratoRepo = await ContratoRepositoryImpl.create(dataDir);
-    const protocoloRepo = await DecisionProtocolRepositoryImpl.create(dataDir);
+    // 1. Abrir driver de armazenamento e criar repositorios
+    const storage = await createStorageDriver(storageKind, dataDir);
+    const situacaoRepo = await SituacaoRepositoryImpl.create(dataDir, storage);
+    const episodioRepo = await EpisodioRepositoryImpl.create(dataDir, storage);
+    const decisaoRepo = await DecisaoRepositoryImpl.create(dataDir, storage);
+    const contratoRepo = await ContratoRepositoryImpl.create(dataDir, storage);
+    const protocoloRepo = await DecisionProtocolRepositoryImpl.create(dataDir, storage);
+    const observacaoRepo = await ObservacaoRepositoryImpl.create(dataDir, storage);
+    const mandateRepo = new AutonomyMandateRepositoryImpl(path.join(dataDir, 'autonomy_mandates.json'), storage);
+    const reviewRepo = new ReviewCaseRepositoryImpl(path.join(dataDir, 'review_cases.json'), storage);
     const eventLog = await EventLogRepositoryImpl.create(dataDir);
 
     // 2. Criar servico de memoria
@@ -206,7 +258,7 @@ export class TenantRuntime {
       contratoRepo
     );
 
-    // 3. Criar orquestrador
+    // 3. Criar orquestrador (Inc 38: consequencias com gatilhos de autonomia)
     const orquestrador = new OrquestradorCognitivo(
       situacaoRepo,
       episodioRepo,
@@ -214,13 +266,79 @@ export class TenantRuntime {
       contratoRepo,
       memoryService,
       protocoloRepo,
-      eventLog
+      eventLog,
+      observacaoRepo,
+      mandateRepo,
+      reviewRepo
     );
+    orquestrador.setTenantId(tenantId);
 
-    // 4. Inicializar orquestrador
-    await orquestrador.init();
+    // 4. Unidade de trabalho: repositorios compartilham o driver, entao
+    //    cada passo grava repositorios + EventLog atomicamente
+    orquestrador.ConfigurarUnidadeDeTrabalho(
+      UnitOfWork.forDataDir(dataDir, storage, eventLog)
+    );
 
-    // 5. Criar adapter de integracao (opcional)
+    // 5. Chaves de idempotencia do tenant (mesmo driver: gravadas no
+    //    mesmo passo do contrato)
+    orquestrador.ConfigurarIdempotencia(
+      new IdempotencyKeyRepositoryImpl(path.join(dataDir, 'idempotency_keys.json'), storage)
+    );
+
+    // 6. Execucoes multiagente consultaveis pela API (Inc 39)
+    orquestrador.ConfigurarExecucoesMultiAgente(
+      new MultiAgentRunRepositoryImpl(path.join(dataDir, 'multiagent_runs.json'), storage)
+    );
+
+    // 6.1 Modelos de mandato versionados (Inc 52)
+    orquestrador.ConfigurarModelosMandato(
+      new MandateTemplateRepositoryImpl(path.join(dataDir, 'mandate_templates.json'), storage)
+    );
+
+    // 7. Projecao do EventLog verificada contra os repositorios do driver
+    orquestrador.ConfigurarProjecao(storage);
+
+    // 7.1 Regras da Camada Fechada do tenant, lidas do registry a cada
+    //     protocolo: nova versao vale sem recriar a instancia (Inc 48)
+    orquestrador.ConfigurarRegrasCamadaFechada(
+      () => this.registry.get(tenantId)?.closedLayerRuleSet
+    );
+
+    // 8. Webhooks de saida: assinar o EventLog antes do init para que
+    //    eventos regravados pela recuperacao tambem sejam entregues
+    const webhooks = new WebhookDispatcher(
+      tenantId,
+      eventLog,
+      new WebhookOutbox(path.join(dataDir, 'webhook_deliveries.json'), storage),
+      () => this.registry.getWebhookEndpoints(tenantId)
+    );
+    webhooks.start();
+
+    // 9. Inicializar orquestrador (inclui recuperacao de passos interrompidos)
+    try {
+      await orquestrador.init();
+    } catch (err) {
+      await webhooks.stop();
+      throw err;
+    }
+
+    // 10. Jobs de pesquisa: store fora do dataDir do Core e contexto
+    //     somente-leitura novo por job (Inc 43)
+    const research = new ResearchJobRunner(
+      tenantId,
+      new ResearchStore(this.baseDir, tenantId),
+      () => createReadOnlyContext(situacaoRepo, episodioRepo, decisaoRepo, contratoRepo, protocoloRepo, eventLog),
+      {},
+      () => this.registry.get(tenantId)?.quotas.maxResearchReports
+    );
+    await research.start();
+
+    // 11. Backups fora do dataDir do tenant (sobrevivem a perda do no);
+    //     operacoes longas e procedimentos DR executam como jobs (Inc 44)
+    const backups = new BackupJobRunner(tenantId);
+    await orquestrador.ConfigurarBackup(path.join(this.baseDir, 'backups', tenantId), backups.onProgress);
+
+    // 12. Criar adapter de integracao (opcional)
     const integration = await this.integrationFactory(
       tenantId,
       dataDir,
@@ -232,6 +350,11 @@ export class TenantRuntime {
       dataDir,
       orquestrador,
       eventLog,
+      storage,
+      consequencias: new ConsequenciaQueryService(observacaoRepo, contratoRepo),
+      webhooks,
+      research,
+      backups,
       integration,
       startedAt: now,
       lastActivity: now
@@ -256,6 +379,18 @@ export class TenantRuntime {
       await instance.integration.shutdown(tenantId);
     }
 
+    // Parar webhooks (eventos recebidos ficam no outbox)
+    await instance.webhooks.stop();
+
+    // Aguardar jobs de pesquisa em execucao (os da fila ficam gravados)
+    await instance.research.stop();
+
+    // Aguardar jobs de backup/DR submetidos
+    await instance.backups.stop();
+
+    // Fechar driver de armazenamento
+    await instance.storage.close();
+
     // Remover do cache
     this.instances.delete(tenantId);
   }
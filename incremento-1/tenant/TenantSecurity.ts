@@ -307,6 +307,32 @@ export function generateKeyId(): string {
   return `key_${suffix}`;
 }
 
+/**
+ * Gera um webhookId unico (Inc 37)
+ * Formato: wh_<12 caracteres alfanumericos>
+ */
+export function generateWebhookId(): string {
+  const suffix = crypto.randomBytes(9).toString('base64url').slice(0, 12);
+  return `wh_${suffix}`;
+}
+
+/**
+ * Deriva o segredo HMAC de uma assinatura de webhook (Inc 37).
+ *
+ * O segredo nao e persistido: e recalculado a partir do pepper do servidor,
+ * do tenant, da assinatura e do salt. Trocar o pepper invalida os segredos.
+ *
+ * Formato: whsec_<64 hex>
+ */
+export function deriveWebhookSecret(tenantId: string, webhookId: string, salt: string): string {
+  const pepper = getAuthPepper();
+  const digest = crypto
+    .createHmac('sha256', pepper)
+    .update(`webhook:${tenantId}:${webhookId}:${salt}`, 'utf8')
+    .digest('hex');
+  return `whsec_${digest}`;
+}
+
 /**
  * Calcula HMAC-SHA-256 de um token usando o pepper do servidor.
  * Retorna hash em formato hex (64 caracteres).
@@ -46,6 +46,10 @@ export {
   TenantConfig,
   TenantRegistrationInput,
   TenantUpdateInput,
+  WebhookStatus,
+  TenantWebhook,
+  WebhookCreateInput,
+  WebhookUpdateInput,
   DEFAULT_QUOTAS,
   DEFAULT_FEATURES,
   createTenantConfig
@@ -61,6 +65,7 @@ export {
   ValidationResult,
   normalizeTenantId,
   validateTenantId,
+  deriveWebhookSecret,
   resolveTenantDataDir,
   resolveTenantDataDirSync
 } from './TenantSecurity';
@@ -69,7 +74,7 @@ export {
 // REGISTRY
 // ════════════════════════════════════════════════════════════════════════════
 
-export { TenantRegistry } from './TenantRegistry';
+export { TenantRegistry, CreateWebhookResult, WebhookInfo } from './TenantRegistry';
 
 // ════════════════════════════════════════════════════════════════════════════
 // RUNTIME
@@ -0,0 +1,509 @@
+/**
+ * TESTES - Incremento 28: Storage Driver plugável (JSON + SQLite)
+ *
+ * Testa:
+ * - Contrato de StorageCollection nos drivers JSON e SQLite
+ * - Transações (commit, rollback, leitura das escritas pendentes)
+ * - Repositórios da Camada 3 sobre o driver SQLite
+ * - Migração JSON → SQLite com verificação contra o EventLog
+ * - Seleção do driver por tenant no TenantRuntime
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import {
+  StorageDriver,
+  StorageDriverKind,
+  StorageError,
+  StorageKeyMissingError,
+  StorageMigrationError,
+  JsonFileDriver,
+  SqliteDriver,
+  SQLITE_FILE_NAME,
+  STORAGE_COLLECTIONS,
+  createStorageDriver,
+  migrateTenantStorage
+} from '../camada-3/storage';
+
+import { JsonFileStore } from '../camada-3/utilitarios/JsonFileStore';
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { OrquestradorCognitivo } from '../camada-3/orquestrador/OrquestradorCognitivo';
+import { MemoryQueryService } from '../camada-3/servicos/MemoryQueryService';
+import { SituacaoRepositoryImpl } from '../camada-3/repositorios/implementacao/SituacaoRepositoryImpl';
+import { EpisodioRepositoryImpl } from '../camada-3/repositorios/implementacao/EpisodioRepositoryImpl';
+import { DecisaoRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisaoRepositoryImpl';
+import { ContratoRepositoryImpl } from '../camada-3/repositorios/implementacao/ContratoRepositoryImpl';
+import { DecisionProtocolRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisionProtocolRepositoryImpl';
+import { ObservacaoRepositoryImpl } from '../camada-3/repositorios/implementacao/ObservacaoRepositoryImpl';
+import { AutonomyMandateRepositoryImpl } from '../camada-3/autonomy/AutonomyMandateRepositoryImpl';
+import { ReviewCaseRepositoryImpl } from '../camada-3/review/ReviewCaseRepositoryImpl';
+import { SinalImpacto } from '../camada-3/entidades/ObservacaoDeConsequencia';
+import {
+  StatusSituacao,
+  PerfilRisco,
+  SituacaoDecisoria,
+  Limite
+} from '../camada-3/entidades/tipos';
+import { TenantRegistry } from '../tenant/TenantRegistry';
+import { TenantRuntime } from '../tenant/TenantRuntime';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// SETUP
+// ════════════════════════════════════════════════════════════════════════════
+
+let testDir: TestDataDir;
+const openDrivers: StorageDriver[] = [];
+
+beforeEach(async () => {
+  testDir = await createTestDataDir('inc28');
+});
+
+afterEach(async () => {
+  while (openDrivers.length > 0) {
+    await openDrivers.pop()!.close();
+  }
+  await testDir.cleanup();
+});
+
+async function openDriver(kind: StorageDriverKind, dataDir: string = testDir.dir): Promise<StorageDriver> {
+  const driver = await createStorageDriver(kind, dataDir);
+  openDrivers.push(driver);
+  return driver;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+const ITEMS = { name: 'itens', indexes: ['grupo'] };
+const OUTROS = { name: 'outros' };
+
+function createValidSituacao(id: string): SituacaoDecisoria {
+  return {
+    id,
+    dominio: 'teste',
+    contexto: 'Contexto de teste',
+    objetivo: 'Objetivo de teste',
+    incertezas: ['Incerteza 1'],
+    alternativas: [
+      { descricao: 'Alternativa A', riscos_associados: ['risco-1'] },
+      { descricao: 'Alternativa B', riscos_associados: ['risco-2'] }
+    ],
+    riscos: [{ descricao: 'Risco identificado', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Consequência significativa',
+    possibilidade_aprendizado: true,
+    caso_uso_declarado: 1,
+    status: StatusSituacao.RASCUNHO,
+    data_criacao: new Date(),
+    anexos_analise: []
+  };
+}
+
+function createValidLimite(): Limite {
+  return { tipo: 'Financeiro', descricao: 'Max 10k', valor: '10000' };
+}
+
+async function setupOrquestrador(dataDir: string, driver?: StorageDriver) {
+  const situacaoRepo = await SituacaoRepositoryImpl.create(dataDir, driver);
+  const episodioRepo = await EpisodioRepositoryImpl.create(dataDir, driver);
+  const decisaoRepo = await DecisaoRepositoryImpl.create(dataDir, driver);
+  const contratoRepo = await ContratoRepositoryImpl.create(dataDir, driver);
+  const protocoloRepo = await DecisionProtocolRepositoryImpl.create(dataDir, driver);
+  const observacaoRepo = await ObservacaoRepositoryImpl.create(dataDir, driver);
+  const eventLog = await EventLogRepositoryImpl.create(dataDir);
+
+  const orquestrador = new OrquestradorCognitivo(
+    situacaoRepo,
+    episodioRepo,
+    decisaoRepo,
+    contratoRepo,
+    new MemoryQueryService(episodioRepo, decisaoRepo, contratoRepo),
+    protocoloRepo,
+    eventLog,
+    observacaoRepo
+  );
+  await orquestrador.init();
+
+  return { orquestrador, situacaoRepo, episodioRepo, decisaoRepo, contratoRepo, observacaoRepo, eventLog };
+}
+
+async function executarFluxoCompleto(
+  orquestrador: OrquestradorCognitivo,
+  situacaoId: string
+) {
+  const episodio = await orquestrador.ProcessarSolicitacao(createValidSituacao(situacaoId));
+
+  await orquestrador.ConstruirProtocoloDeDecisao(episodio.id, {
+    criterios_minimos: ['Critério 1'],
+    riscos_considerados: ['Risco 1'],
+    limites_definidos: [createValidLimite()],
+    perfil_risco: PerfilRisco.MODERADO,
+    alternativas_avaliadas: ['Alternativa A', 'Alternativa B'],
+    alternativa_escolhida: 'Alternativa A'
+  });
+
+  const contrato = await orquestrador.RegistrarDecisao(episodio.id, {
+    alternativa_escolhida: 'Alternativa A',
+    criterios: ['Critério 1'],
+    limites: [createValidLimite()],
+    condicoes: ['Condição 1'],
+    perfil_risco: PerfilRisco.MODERADO
+  });
+
+  const observacao = await orquestrador.RegistrarConsequencia(contrato.id, {
+    observada: {
+      descricao: 'Fatos observados',
+      limites_respeitados: true,
+      condicoes_cumpridas: true
+    },
+    percebida: {
+      descricao: 'Impacto positivo',
+      sinal: SinalImpacto.POSITIVO
+    },
+    evidencias_minimas: [
+      'Impacto Técnico observado',
+      'Impacto Operacional observado',
+      'Evidências coletadas',
+      'Persistência avaliada'
+    ]
+  });
+
+  return { episodio, contrato, observacao };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: CONTRATO DA COLEÇÃO (AMBOS OS DRIVERS)
+// ════════════════════════════════════════════════════════════════════════════
+
+describe.each<StorageDriverKind>(['json', 'sqlite'])('Incremento 28 - StorageCollection (%s)', (kind) => {
+  test('put/get/readAll preservam ordem de inserção em upsert', async () => {
+    const driver = await openDriver(kind);
+    const col = driver.collection(ITEMS);
+
+    await col.put([{ id: 'a', grupo: 'g1', v: 1 }, { id: 'b', grupo: 'g2', v: 1 }]);
+    await col.put([{ id: 'a', grupo: 'g1', v: 2 }]);
+    await col.put([{ id: 'c', grupo: 'g1', v: 1 }]);
+
+    expect((await col.readAll()).map(r => r.id)).toEqual(['a', 'b', 'c']);
+    expect(await col.get('a')).toEqual({ id: 'a', grupo: 'g1', v: 2 });
+    expect(await col.get('inexistente')).toBeNull();
+    expect(await col.count()).toBe(3);
+  });
+
+  test('findBy filtra por campo indexado e não indexado', async () => {
+    const driver = await openDriver(kind);
+    const col = driver.collection(ITEMS);
+
+    await col.put([
+      { id: 'a', grupo: 'g1', cor: 'azul' },
+      { id: 'b', grupo: 'g2', cor: 'azul' },
+      { id: 'c', grupo: 'g1', cor: 'verde' }
+    ]);
+
+    expect((await col.findBy('grupo', 'g1')).map(r => r.id)).toEqual(['a', 'c']);
+    expect((await col.findBy('cor', 'azul')).map(r => r.id)).toEqual(['a', 'b']);
+    expect(await col.findBy('grupo', 'g9')).toEqual([]);
+  });
+
+  test('put rejeita registro sem chave', async () => {
+    const driver = await openDriver(kind);
+    await expect(driver.collection(ITEMS).put([{ grupo: 'g1' }])).rejects.toThrow(StorageKeyMissingError);
+  });
+
+  test('writeAll substitui a coleção inteira', async () => {
+    const driver = await openDriver(kind);
+    const col = driver.collection(ITEMS);
+
+    await col.put([{ id: 'a' }, { id: 'b' }]);
+    await col.writeAll([{ id: 'z' }]);
+
+    expect(await col.readAll()).toEqual([{ id: 'z' }]);
+  });
+
+  test('transaction aplica escritas de várias coleções no commit', async () => {
+    const driver = await openDriver(kind);
+    const itens = driver.collection(ITEMS);
+    const outros = driver.collection(OUTROS);
+
+    await driver.transaction(async () => {
+      await itens.put([{ id: 'a', grupo: 'g1' }]);
+      await outros.put([{ id: 'x' }]);
+
+      // Leituras dentro da transação enxergam escritas pendentes
+      expect(await itens.get('a')).toEqual({ id: 'a', grupo: 'g1' });
+      expect((await itens.findBy('grupo', 'g1')).map(r => r.id)).toEqual(['a']);
+      expect(await outros.count()).toBe(1);
+    });
+
+    expect(await itens.get('a')).not.toBeNull();
+    expect(await outros.get('x')).not.toBeNull();
+  });
+
+  test('transaction descarta escritas se o trabalho falhar', async () => {
+    const driver = await openDriver(kind);
+    const itens = driver.collection(ITEMS);
+    const outros = driver.collection(OUTROS);
+    await itens.put([{ id: 'existente' }]);
+
+    await expect(driver.transaction(async () => {
+      await itens.put([{ id: 'a' }]);
+      await outros.put([{ id: 'x' }]);
+      throw new Error('falha no meio');
+    })).rejects.toThrow('falha no meio');
+
+    expect((await itens.readAll()).map(r => r.id)).toEqual(['existente']);
+    expect(await outros.count()).toBe(0);
+  });
+
+  test('writeAll é proibido dentro de transação', async () => {
+    const driver = await openDriver(kind);
+    await expect(driver.transaction(async () => {
+      await driver.collection(ITEMS).writeAll([]);
+    })).rejects.toThrow(StorageError);
+  });
+
+  test('dados sobrevivem à reabertura do driver', async () => {
+    const first = await openDriver(kind);
+    await first.collection(ITEMS).put([{ id: 'a', grupo: 'g1' }]);
+    await first.close();
+
+    const second = await openDriver(kind);
+    expect(await second.collection(ITEMS).readAll()).toEqual([{ id: 'a', grupo: 'g1' }]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: DRIVERS ESPECÍFICOS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 28 - JsonFileDriver', () => {
+  test('mantém o formato histórico <colecao>.json', async () => {
+    const driver = new JsonFileDriver(testDir.dir);
+    await driver.collection(STORAGE_COLLECTIONS.situacoes).put([{ id: 's1', status: 'ABERTA' }]);
+
+    const raw = await new JsonFileStore(path.join(testDir.dir, 'situacoes.json')).readAll();
+    expect(raw).toEqual([{ id: 's1', status: 'ABERTA' }]);
+  });
+});
+
+describe('Incremento 28 - SqliteDriver', () => {
+  test('cria arquivo único no dataDir', async () => {
+    await openDriver('sqlite');
+    await expect(fs.stat(path.join(testDir.dir, SQLITE_FILE_NAME))).resolves.toBeDefined();
+  });
+
+  test('uso antes de open() lança StorageError', async () => {
+    const driver = SqliteDriver.forDataDir(testDir.dir);
+    await expect(driver.collection(ITEMS).readAll()).rejects.toThrow(StorageError);
+  });
+
+  test('índice novo em tabela existente é preenchido a partir dos dados', async () => {
+    const first = await openDriver('sqlite');
+    await first.collection({ name: 'itens' }).put([{ id: 'a', grupo: 'g1' }, { id: 'b', grupo: 'g2' }]);
+    await first.close();
+
+    const second = await openDriver('sqlite');
+    const found = await second.collection(ITEMS).findBy('grupo', 'g2');
+    expect(found.map(r => r.id)).toEqual(['b']);
+  });
+
+  test('rejeita nomes de coleção inválidos', async () => {
+    const driver = await openDriver('sqlite');
+    expect(() => driver.collection({ name: 'itens; DROP TABLE x' })).toThrow(StorageError);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: REPOSITÓRIOS SOBRE SQLITE
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 28 - Repositórios sobre SQLite', () => {
+  test('fluxo completo do orquestrador persiste e recarrega do SQLite', async () => {
+    const driver = await openDriver('sqlite');
+    const ctx = await setupOrquestrador(testDir.dir, driver);
+    const { episodio, contrato, observacao } = await executarFluxoCompleto(ctx.orquestrador, 'sit-sqlite-1');
+
+    // Nenhum arquivo JSON de repositório foi criado
+    await expect(fs.stat(path.join(testDir.dir, 'episodios.json'))).rejects.toThrow();
+
+    // Nova instância lê do mesmo arquivo
+    await driver.close();
+    const reopened = await openDriver('sqlite');
+    const again = await setupOrquestrador(testDir.dir, reopened);
+
+    expect((await again.episodioRepo.getById(episodio.id))?.id).toBe(episodio.id);
+    expect((await again.contratoRepo.getById(contrato.id))?.episodio_id).toBe(episodio.id);
+    expect(await again.observacaoRepo.getByContratoId(contrato.id)).toHaveLength(1);
+    expect((await again.observacaoRepo.getById(observacao.id))?.data_registro).toBeInstanceOf(Date);
+    expect((await again.situacaoRepo.getById('sit-sqlite-1'))?.status).toBe(StatusSituacao.DECIDIDA);
+  });
+
+  test('AutonomyMandateRepositoryImpl usa coleção do driver', async () => {
+    const driver = await openDriver('sqlite');
+    const repo = new AutonomyMandateRepositoryImpl(path.join(testDir.dir, 'ignorado.json'), driver);
+
+    await repo.create({
+      id: 'mandate-1',
+      agentId: 'agent-1',
+      modo: 'ENSINO',
+      politicas_permitidas: [],
+      perfil_risco_maximo: PerfilRisco.MODERADO,
+      limites: [],
+      requer_humano_se: [],
+      concedido_por: 'admin',
+      concedido_em: new Date(),
+      revogado: false
+    } as any);
+    await repo.incrementUses('mandate-1');
+
+    expect((await repo.getAllByAgentId('agent-1'))[0].uses).toBe(1);
+    expect(await repo.getAllByAgentId('agent-2')).toEqual([]);
+    await expect(repo.create({ id: 'mandate-1' } as any)).rejects.toThrow('já existe');
+    await expect(fs.stat(path.join(testDir.dir, 'ignorado.json'))).rejects.toThrow();
+  });
+
+  test('ReviewCaseRepositoryImpl isola tenants por índice', async () => {
+    const driver = await openDriver('sqlite');
+    const repo = new ReviewCaseRepositoryImpl(path.join(testDir.dir, 'ignorado.json'), driver);
+
+    const input = (tenantId: string) => ({
+      tenantId,
+      triggeredBy: {
+        observacaoId: 'obs-1',
+        ruleId: 'RULE_X',
+        actionSuggested: 'FLAG_HUMAN_REVIEW'
+      },
+      contextSnapshot: {}
+    } as any);
+
+    const a = await repo.createOrGetOpenByObservacaoId(input('tenant-a'));
+    const again = await repo.createOrGetOpenByObservacaoId(input('tenant-a'));
+    const b = await repo.createOrGetOpenByObservacaoId(input('tenant-b'));
+
+    expect(again.created).toBe(false);
+    expect(b.created).toBe(true);
+    expect(await repo.list('tenant-a')).toHaveLength(1);
+
+    await repo.dismiss('tenant-a', a.reviewCase.id, { dismissedBy: 'admin', notes: 'ok' });
+    expect(await repo.countByStatus('tenant-a')).toEqual({ OPEN: 0, RESOLVED: 0, DISMISSED: 1 });
+    expect(await repo.countByStatus('tenant-b')).toEqual({ OPEN: 1, RESOLVED: 0, DISMISSED: 0 });
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: MIGRAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 28 - Migração JSON → SQLite', () => {
+  test('migra tenant existente e confere contra o EventLog', async () => {
+    const ctx = await setupOrquestrador(testDir.dir);
+    await executarFluxoCompleto(ctx.orquestrador, 'sit-mig-1');
+    await executarFluxoCompleto(ctx.orquestrador, 'sit-mig-2');
+
+    const report = await migrateTenantStorage({ dataDir: testDir.dir, target: 'sqlite' });
+
+    expect(report.problems).toEqual([]);
+    expect(report.ok).toBe(true);
+    expect(report.eventLog?.chainValid).toBe(true);
+    expect(report.eventLog?.missingEntities).toEqual([]);
+    expect(report.eventLog?.payloadMismatches).toEqual([]);
+
+    const episodios = report.collections.find(c => c.collection === 'episodios')!;
+    expect(episodios.sourceCount).toBe(2);
+    expect(episodios.targetCount).toBe(2);
+    expect(episodios.sourceHash).toBe(episodios.targetHash);
+
+    // Repositórios sobre SQLite enxergam os dados migrados
+    const driver = await openDriver('sqlite');
+    const migrated = await setupOrquestrador(testDir.dir, driver);
+    expect((await migrated.situacaoRepo.getById('sit-mig-2'))?.status).toBe(StatusSituacao.DECIDIDA);
+
+    // Origem preservada (rollback)
+    await expect(fs.stat(path.join(testDir.dir, 'episodios.json'))).resolves.toBeDefined();
+  });
+
+  test('migração é reexecutável', async () => {
+    const ctx = await setupOrquestrador(testDir.dir);
+    await executarFluxoCompleto(ctx.orquestrador, 'sit-rerun');
+
+    expect((await migrateTenantStorage({ dataDir: testDir.dir, target: 'sqlite' })).ok).toBe(true);
+    const second = await migrateTenantStorage({ dataDir: testDir.dir, target: 'sqlite' });
+
+    expect(second.ok).toBe(true);
+    expect(second.collections.find(c => c.collection === 'contratos')!.targetCount).toBe(1);
+  });
+
+  test('detecta registro imutável adulterado', async () => {
+    const ctx = await setupOrquestrador(testDir.dir);
+    const { contrato } = await executarFluxoCompleto(ctx.orquestrador, 'sit-tamper');
+
+    const store = new JsonFileStore(path.join(testDir.dir, 'contratos.json'));
+    const contratos = await store.readAll();
+    contratos[0].alternativa_autorizada = 'Alternativa B';
+    await store.writeAll(contratos);
+
+    const report = await migrateTenantStorage({ dataDir: testDir.dir, target: 'sqlite' });
+
+    expect(report.ok).toBe(false);
+    expect(report.eventLog?.payloadMismatches).toEqual([`contratos/${contrato.id}`]);
+  });
+
+  test('detecta entidade do EventLog ausente nos dados', async () => {
+    const ctx = await setupOrquestrador(testDir.dir);
+    const { episodio } = await executarFluxoCompleto(ctx.orquestrador, 'sit-missing');
+
+    await new JsonFileStore(path.join(testDir.dir, 'episodios.json')).writeAll([]);
+
+    const report = await migrateTenantStorage({ dataDir: testDir.dir, target: 'sqlite' });
+
+    expect(report.ok).toBe(false);
+    expect(report.eventLog?.missingEntities).toEqual([
+      `episodios/${episodio.id} (EPISODIO_CRIADO)`
+    ]);
+  });
+
+  test('rejeita origem igual ao destino', async () => {
+    await expect(
+      migrateTenantStorage({ dataDir: testDir.dir, source: 'json', target: 'json' })
+    ).rejects.toThrow(StorageMigrationError);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: TENANT RUNTIME
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 28 - Driver por tenant', () => {
+  test('TenantRuntime abre SQLite quando features.storageDriver = sqlite', async () => {
+    const registry = await TenantRegistry.create(testDir.dir);
+    await registry.register({ id: 'tenant-json', name: 'JSON' });
+    await registry.register({ id: 'tenant-sql', name: 'SQL', features: { storageDriver: 'sqlite' } });
+
+    const runtime = TenantRuntime.create(registry);
+    try {
+      const jsonInstance = await runtime.getOrCreate('tenant-json');
+      const sqlInstance = await runtime.getOrCreate('tenant-sql');
+
+      expect(jsonInstance.storage.kind).toBe('json');
+      expect(sqlInstance.storage.kind).toBe('sqlite');
+
+      await sqlInstance.orquestrador.ProcessarSolicitacao(createValidSituacao('sit-tenant'));
+
+      const situacoes = sqlInstance.storage.collection(STORAGE_COLLECTIONS.situacoes);
+      expect(await situacoes.get('sit-tenant')).not.toBeNull();
+      await expect(
+        fs.stat(path.join(sqlInstance.dataDir, SQLITE_FILE_NAME))
+      ).resolves.toBeDefined();
+      await expect(
+        fs.stat(path.join(sqlInstance.dataDir, 'situacoes.json'))
+      ).rejects.toThrow();
+    } finally {
+      await runtime.shutdownAll();
+    }
+  });
+});
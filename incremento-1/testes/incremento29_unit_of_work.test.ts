@@ -0,0 +1,569 @@
+/**
+ * TESTES - Incremento 29: Unidade de trabalho (storage + EventLog)
+ *
+ * Testa:
+ * - Ganchos onPrepare/onRollback da transação do driver (rollback em qualquer falha)
+ * - Passos do Orquestrador atômicos entre repositórios e EventLog
+ * - Rollback de passo com falha (storage e memória)
+ * - Recuperação na inicialização: roll-forward (PREPARED) e rollback (STARTED)
+ * - Eventos parcialmente gravados não são duplicados
+ * - TenantRuntime com unidade de trabalho ativa
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import {
+  StorageDriver,
+  StorageDriverKind,
+  PreparedWrite,
+  JsonFileDriver,
+  STORAGE_COLLECTIONS,
+  createStorageDriver
+} from '../camada-3/storage';
+import {
+  UnitOfWork,
+  UnitOfWorkJournal,
+  JOURNAL_DIR_NAME
+} from '../camada-3/unit-of-work';
+
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { OrquestradorCognitivo } from '../camada-3/orquestrador/OrquestradorCognitivo';
+import { MemoryQueryService } from '../camada-3/servicos/MemoryQueryService';
+import { SituacaoRepositoryImpl } from '../camada-3/repositorios/implementacao/SituacaoRepositoryImpl';
+import { EpisodioRepositoryImpl } from '../camada-3/repositorios/implementacao/EpisodioRepositoryImpl';
+import { DecisaoRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisaoRepositoryImpl';
+import { ContratoRepositoryImpl } from '../camada-3/repositorios/implementacao/ContratoRepositoryImpl';
+import { DecisionProtocolRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisionProtocolRepositoryImpl';
+import {
+  StatusSituacao,
+  EstadoEpisodio,
+  PerfilRisco,
+  SituacaoDecisoria,
+  Limite
+} from '../camada-3/entidades/tipos';
+import { TenantRegistry } from '../tenant/TenantRegistry';
+import { TenantRuntime } from '../tenant/TenantRuntime';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// SETUP
+// ════════════════════════════════════════════════════════════════════════════
+
+let testDir: TestDataDir;
+const openDrivers: StorageDriver[] = [];
+
+beforeEach(async () => {
+  testDir = await createTestDataDir('inc29');
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  while (openDrivers.length > 0) {
+    await openDrivers.pop()!.close();
+  }
+  await testDir.cleanup();
+});
+
+async function openDriver(kind: StorageDriverKind, dataDir: string = testDir.dir): Promise<StorageDriver> {
+  const driver = await createStorageDriver(kind, dataDir);
+  openDrivers.push(driver);
+  return driver;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+function createValidSituacao(id: string): SituacaoDecisoria {
+  return {
+    id,
+    dominio: 'teste',
+    contexto: 'Contexto de teste',
+    objetivo: 'Objetivo de teste',
+    incertezas: ['Incerteza 1'],
+    alternativas: [
+      { descricao: 'Alternativa A', riscos_associados: ['risco-1'] },
+      { descricao: 'Alternativa B', riscos_associados: ['risco-2'] }
+    ],
+    riscos: [{ descricao: 'Risco identificado', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Consequência significativa',
+    possibilidade_aprendizado: true,
+    caso_uso_declarado: 1,
+    status: StatusSituacao.RASCUNHO,
+    data_criacao: new Date(),
+    anexos_analise: []
+  };
+}
+
+function createValidLimite(): Limite {
+  return { tipo: 'Financeiro', descricao: 'Max 10k', valor: '10000' };
+}
+
+/**
+ * Driver que simula queda do processo logo após a preparação:
+ * o journal fica PREPARED e nenhuma escrita é aplicada.
+ */
+function crashAfterPrepare(driver: StorageDriver): StorageDriver {
+  const crashing = Object.create(driver) as StorageDriver;
+  crashing.transaction = (work, hooks) => driver.transaction(work, {
+    ...hooks,
+    onPrepare: async (writes: PreparedWrite[]) => {
+      await hooks?.onPrepare?.(writes);
+      throw new Error('queda simulada após PREPARED');
+    }
+  });
+  return crashing;
+}
+
+async function setupOrquestrador(
+  dataDir: string,
+  driver: StorageDriver,
+  uowDriver: StorageDriver = driver
+) {
+  const situacaoRepo = await SituacaoRepositoryImpl.create(dataDir, driver);
+  const episodioRepo = await EpisodioRepositoryImpl.create(dataDir, driver);
+  const decisaoRepo = await DecisaoRepositoryImpl.create(dataDir, driver);
+  const contratoRepo = await ContratoRepositoryImpl.create(dataDir, driver);
+  const protocoloRepo = await DecisionProtocolRepositoryImpl.create(dataDir, driver);
+  const eventLog = await EventLogRepositoryImpl.create(dataDir);
+  const unitOfWork = UnitOfWork.forDataDir(dataDir, uowDriver, eventLog);
+
+  const orquestrador = new OrquestradorCognitivo(
+    situacaoRepo,
+    episodioRepo,
+    decisaoRepo,
+    contratoRepo,
+    new MemoryQueryService(episodioRepo, decisaoRepo, contratoRepo),
+    protocoloRepo,
+    eventLog
+  );
+  orquestrador.ConfigurarUnidadeDeTrabalho(unitOfWork);
+  await orquestrador.init();
+
+  return { orquestrador, situacaoRepo, episodioRepo, decisaoRepo, contratoRepo, eventLog, unitOfWork };
+}
+
+async function prepararEpisodio(orquestrador: OrquestradorCognitivo, situacaoId: string) {
+  const episodio = await orquestrador.ProcessarSolicitacao(createValidSituacao(situacaoId));
+
+  await orquestrador.ConstruirProtocoloDeDecisao(episodio.id, {
+    criterios_minimos: ['Critério 1'],
+    riscos_considerados: ['Risco 1'],
+    limites_definidos: [createValidLimite()],
+    perfil_risco: PerfilRisco.MODERADO,
+    alternativas_avaliadas: ['Alternativa A', 'Alternativa B'],
+    alternativa_escolhida: 'Alternativa A'
+  });
+
+  return episodio;
+}
+
+function registrarDecisao(orquestrador: OrquestradorCognitivo, episodioId: string) {
+  return orquestrador.RegistrarDecisao(episodioId, {
+    alternativa_escolhida: 'Alternativa A',
+    criterios: ['Critério 1'],
+    limites: [createValidLimite()],
+    condicoes: ['Condição 1'],
+    perfil_risco: PerfilRisco.MODERADO
+  });
+}
+
+async function journalFiles(dataDir: string = testDir.dir): Promise<string[]> {
+  try {
+    return await fs.readdir(path.join(dataDir, JOURNAL_DIR_NAME));
+  } catch {
+    return [];
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GANCHOS DA TRANSAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe.each<StorageDriverKind>(['json', 'sqlite'])('Incremento 29 - Ganchos da transação (%s)', (kind) => {
+  test('onPrepare recebe as escritas antes do commit', async () => {
+    const driver = await openDriver(kind);
+    const col = driver.collection({ name: 'itens' });
+    let visto: PreparedWrite[] = [];
+    let countNoPrepare = -1;
+
+    await driver.transaction(async () => {
+      await col.put([{ id: 'a', v: 1 }]);
+      await col.put([{ id: 'a', v: 2 }, { id: 'b', v: 1 }]);
+    }, {
+      onPrepare: async (writes) => {
+        visto = writes;
+        countNoPrepare = await driver.collection({ name: 'itens' }).count();
+      }
+    });
+
+    expect(countNoPrepare).toBe(0);
+    expect(visto).toEqual([{
+      collection: { name: 'itens' },
+      records: [{ id: 'a', v: 2 }, { id: 'b', v: 1 }]
+    }]);
+    expect(await col.count()).toBe(2);
+  });
+
+  test('falha no onPrepare impede o commit', async () => {
+    const driver = await openDriver(kind);
+    const col = driver.collection({ name: 'itens' });
+
+    await expect(driver.transaction(async () => {
+      await col.put([{ id: 'a' }]);
+    }, {
+      onPrepare: async () => { throw new Error('journal indisponível'); }
+    })).rejects.toThrow('journal indisponível');
+
+    expect(await col.count()).toBe(0);
+  });
+
+  test('onRollback recebe as escritas descartadas', async () => {
+    const driver = await openDriver(kind);
+    const col = driver.collection({ name: 'itens' });
+    const onRollback = jest.fn(async () => undefined);
+
+    await expect(driver.transaction(async () => {
+      await col.put([{ id: 'a' }]);
+      throw new Error('falha no trabalho');
+    }, { onRollback })).rejects.toThrow('falha no trabalho');
+
+    expect(onRollback).toHaveBeenCalledWith([{ collection: { name: 'itens' }, records: [{ id: 'a' }] }]);
+  });
+
+  test('onRollback é chamado quando o onPrepare falha', async () => {
+    const driver = await openDriver(kind);
+    const col = driver.collection({ name: 'itens' });
+    const onRollback = jest.fn(async () => undefined);
+
+    await expect(driver.transaction(async () => {
+      await col.put([{ id: 'a' }]);
+    }, {
+      onPrepare: async () => { throw new Error('journal indisponível'); },
+      onRollback
+    })).rejects.toThrow('journal indisponível');
+
+    expect(onRollback).toHaveBeenCalledWith([{ collection: { name: 'itens' }, records: [{ id: 'a' }] }]);
+    expect(await col.count()).toBe(0);
+  });
+
+  test('onRollback é chamado mesmo sem escritas pendentes', async () => {
+    const driver = await openDriver(kind);
+    const onRollback = jest.fn(async () => undefined);
+
+    await expect(driver.transaction(async () => {
+      throw new Error('falha antes de gravar');
+    }, { onRollback })).rejects.toThrow('falha antes de gravar');
+
+    expect(onRollback).toHaveBeenCalledWith([]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: PASSOS ATÔMICOS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe.each<StorageDriverKind>(['json', 'sqlite'])('Incremento 29 - Passos do Orquestrador (%s)', (kind) => {
+  test('fluxo completo grava dados e eventos e esvazia o journal', async () => {
+    const driver = await openDriver(kind);
+    const ctx = await setupOrquestrador(testDir.dir, driver);
+
+    const episodio = await prepararEpisodio(ctx.orquestrador, 'sit-1');
+    const contrato = await registrarDecisao(ctx.orquestrador, episodio.id);
+
+    expect(await driver.collection(STORAGE_COLLECTIONS.contratos).get(contrato.id)).not.toBeNull();
+    expect((await ctx.situacaoRepo.getById('sit-1'))?.status).toBe(StatusSituacao.DECIDIDA);
+
+    const eventos = (await ctx.eventLog.getAll()).map(e => e.evento);
+    expect(eventos).toEqual([
+      TipoEvento.SITUACAO_CRIADA,
+      TipoEvento.SITUACAO_STATUS_ALTERADO,
+      TipoEvento.SITUACAO_STATUS_ALTERADO,
+      TipoEvento.EPISODIO_CRIADO,
+      TipoEvento.SITUACAO_STATUS_ALTERADO,
+      TipoEvento.PROTOCOLO_VALIDADO,
+      TipoEvento.DECISAO_REGISTRADA,
+      TipoEvento.EPISODIO_ESTADO_ALTERADO,
+      TipoEvento.SITUACAO_STATUS_ALTERADO,
+      TipoEvento.CONTRATO_EMITIDO
+    ]);
+    expect((await ctx.eventLog.verifyChain()).valid).toBe(true);
+    expect(await journalFiles()).toEqual([]);
+    expect(ctx.orquestrador.GetEventLogStatus().degraded).toBe(false);
+  });
+
+  test('falha no meio do passo não deixa decisão sem contrato', async () => {
+    const driver = await openDriver(kind);
+    const ctx = await setupOrquestrador(testDir.dir, driver);
+    const episodio = await prepararEpisodio(ctx.orquestrador, 'sit-2');
+    const eventosAntes = await ctx.eventLog.count();
+
+    jest.spyOn(ctx.contratoRepo, 'create').mockRejectedValueOnce(new Error('disco cheio'));
+
+    await expect(registrarDecisao(ctx.orquestrador, episodio.id)).rejects.toThrow('disco cheio');
+
+    // Storage: nada do passo foi gravado
+    expect(await driver.collection(STORAGE_COLLECTIONS.decisoes).count()).toBe(0);
+    expect((await driver.collection(STORAGE_COLLECTIONS.episodios).get(episodio.id))?.estado)
+      .toBe(EstadoEpisodio.CRIADO);
+
+    // Memória: repositórios recarregados
+    expect(await ctx.decisaoRepo.getByEpisodioId(episodio.id)).toBeNull();
+    expect((await ctx.episodioRepo.getById(episodio.id))?.estado).toBe(EstadoEpisodio.CRIADO);
+    expect((await ctx.situacaoRepo.getById('sit-2'))?.status).toBe(StatusSituacao.EM_ANALISE);
+
+    // EventLog: nenhum evento do passo
+    expect(await ctx.eventLog.count()).toBe(eventosAntes);
+    expect(await journalFiles()).toEqual([]);
+
+    // Passo pode ser repetido
+    const contrato = await registrarDecisao(ctx.orquestrador, episodio.id);
+    expect(contrato.episodio_id).toBe(episodio.id);
+  });
+
+  test('falha ao gravar o journal PREPARED recarrega a memória', async () => {
+    const driver = await openDriver(kind);
+    const ctx = await setupOrquestrador(testDir.dir, driver);
+    const episodio = await prepararEpisodio(ctx.orquestrador, 'sit-2b');
+
+    const write = UnitOfWorkJournal.prototype.write;
+    jest.spyOn(UnitOfWorkJournal.prototype, 'write').mockImplementation(async function (this: UnitOfWorkJournal, entry) {
+      if (entry.status === 'PREPARED') throw new Error('journal indisponível');
+      return write.call(this, entry);
+    });
+
+    await expect(registrarDecisao(ctx.orquestrador, episodio.id)).rejects.toThrow('journal indisponível');
+
+    // Storage e memória sem o passo; entrada STARTED descartada
+    expect(await driver.collection(STORAGE_COLLECTIONS.decisoes).count()).toBe(0);
+    expect(await ctx.decisaoRepo.getByEpisodioId(episodio.id)).toBeNull();
+    expect((await ctx.episodioRepo.getById(episodio.id))?.estado).toBe(EstadoEpisodio.CRIADO);
+    expect((await ctx.situacaoRepo.getById('sit-2b'))?.status).toBe(StatusSituacao.EM_ANALISE);
+    expect(await journalFiles()).toEqual([]);
+
+    jest.restoreAllMocks();
+    const contrato = await registrarDecisao(ctx.orquestrador, episodio.id);
+    expect(contrato.episodio_id).toBe(episodio.id);
+  });
+
+  test('erro de validação não altera nada', async () => {
+    const driver = await openDriver(kind);
+    const ctx = await setupOrquestrador(testDir.dir, driver);
+
+    await expect(registrarDecisao(ctx.orquestrador, 'inexistente')).rejects.toThrow('não encontrado');
+    expect(await journalFiles()).toEqual([]);
+    expect(await ctx.eventLog.count()).toBe(0);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: RECUPERAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe.each<StorageDriverKind>(['json', 'sqlite'])('Incremento 29 - Recuperação (%s)', (kind) => {
+  test('passo PREPARED interrompido é concluído na inicialização', async () => {
+    const driver = await openDriver(kind);
+    const setup = await setupOrquestrador(testDir.dir, driver);
+    const episodio = await prepararEpisodio(setup.orquestrador, 'sit-3');
+
+    // Queda após PREPARED: nada aplicado no storage nem no EventLog
+    const crashed = await setupOrquestrador(testDir.dir, driver, crashAfterPrepare(driver));
+    await expect(registrarDecisao(crashed.orquestrador, episodio.id)).rejects.toThrow('queda simulada');
+    expect(await driver.collection(STORAGE_COLLECTIONS.decisoes).count()).toBe(0);
+    expect(await journalFiles()).toHaveLength(1);
+
+    // Reinício
+    const restarted = await setupOrquestrador(testDir.dir, driver);
+    const report = restarted.orquestrador.GetRecoveryReport()!;
+
+    expect(report.rolledForward).toBe(1);
+    expect(report.items[0]).toMatchObject({
+      step: 'RegistrarDecisao',
+      status: 'PREPARED',
+      action: 'ROLLED_FORWARD',
+      eventsAppended: 4,
+      eventsAlreadyPresent: 0
+    });
+    expect(report.items[0].recordsApplied).toBe(4);
+
+    const decisao = await restarted.decisaoRepo.getByEpisodioId(episodio.id);
+    expect(decisao).not.toBeNull();
+    expect(await restarted.contratoRepo.getByEpisodioId(episodio.id)).not.toBeNull();
+    expect((await restarted.episodioRepo.getById(episodio.id))?.estado).toBe(EstadoEpisodio.DECIDIDO);
+    expect((await restarted.situacaoRepo.getById('sit-3'))?.status).toBe(StatusSituacao.DECIDIDA);
+
+    const eventos = await restarted.eventLog.getAll();
+    const decisaoEvento = eventos.find(e => e.evento === TipoEvento.DECISAO_REGISTRADA);
+    expect(decisaoEvento?.entidade_id).toBe(decisao!.id);
+    expect(eventos[eventos.length - 1].evento).toBe(TipoEvento.UNIT_OF_WORK_RECOVERED);
+    expect((await restarted.eventLog.verifyChain()).valid).toBe(true);
+    expect(await journalFiles()).toEqual([]);
+  });
+
+  test('eventos já gravados não são duplicados', async () => {
+    const driver = await openDriver(kind);
+    const ctx = await setupOrquestrador(testDir.dir, driver);
+    const episodio = await prepararEpisodio(ctx.orquestrador, 'sit-4');
+
+    // EventLog falha a partir do 2º evento do passo
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const append = ctx.eventLog.append.bind(ctx.eventLog);
+    let chamadas = 0;
+    jest.spyOn(ctx.eventLog, 'append').mockImplementation(async (...args) => {
+      chamadas++;
+      if (chamadas >= 2) throw new Error('EventLog indisponível');
+      return append(...args);
+    });
+
+    // O passo conclui (o log não governa), mas fica pendente no journal
+    const contrato = await registrarDecisao(ctx.orquestrador, episodio.id);
+    expect(await driver.collection(STORAGE_COLLECTIONS.contratos).get(contrato.id)).not.toBeNull();
+    expect(ctx.orquestrador.GetEventLogStatus().degraded).toBe(true);
+    expect(await journalFiles()).toHaveLength(1);
+
+    jest.restoreAllMocks();
+
+    // A recuperação percorre o log a partir do último evento anterior ao passo
+    const iterate = jest.spyOn(EventLogRepositoryImpl.prototype, 'iterate');
+    const restarted = await setupOrquestrador(testDir.dir, driver);
+    expect(iterate).toHaveBeenCalledWith({ after: expect.any(String) });
+    iterate.mockRestore();
+
+    const item = restarted.orquestrador.GetRecoveryReport()!.items[0];
+    expect(item).toMatchObject({ action: 'ROLLED_FORWARD', eventsAlreadyPresent: 1, eventsAppended: 3 });
+
+    const eventos = await restarted.eventLog.getAll();
+    expect(eventos.filter(e => e.evento === TipoEvento.DECISAO_REGISTRADA)).toHaveLength(1);
+    expect(eventos.filter(e => e.evento === TipoEvento.CONTRATO_EMITIDO)).toHaveLength(1);
+    expect(eventos.find(e => e.evento === TipoEvento.CONTRATO_EMITIDO)?.entidade_id).toBe(contrato.id);
+    expect((await restarted.eventLog.verifyChain()).valid).toBe(true);
+  });
+
+  test('passo STARTED interrompido é descartado', async () => {
+    const driver = await openDriver(kind);
+    const journal = UnitOfWorkJournal.forDataDir(testDir.dir);
+    await journal.write({
+      id: 'uow_interrompido',
+      step: 'ProcessarSolicitacao',
+      status: 'STARTED',
+      startedAt: new Date().toISOString(),
+      writes: [],
+      events: [],
+      eventLogTailId: null
+    });
+
+    const ctx = await setupOrquestrador(testDir.dir, driver);
+    const report = ctx.orquestrador.GetRecoveryReport()!;
+
+    expect(report.rolledBack).toBe(1);
+    expect(report.items[0]).toMatchObject({ journalId: 'uow_interrompido', action: 'ROLLED_BACK' });
+    expect(await journalFiles()).toEqual([]);
+
+    const eventos = await ctx.eventLog.getAll();
+    expect(eventos.map(e => e.evento)).toEqual([TipoEvento.UNIT_OF_WORK_RECOVERED]);
+  });
+
+  test('journal vazio não registra evento de recuperação', async () => {
+    const driver = await openDriver(kind);
+    const ctx = await setupOrquestrador(testDir.dir, driver);
+
+    const report = ctx.orquestrador.GetRecoveryReport()!;
+    expect(report.items).toEqual([]);
+    expect(await ctx.eventLog.count()).toBe(0);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: UNIDADE DE TRABALHO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 29 - UnitOfWork', () => {
+  test('passos aninhados participam do passo externo', async () => {
+    const driver = await openDriver('json');
+    const uow = UnitOfWork.forDataDir(testDir.dir, driver);
+    const col = driver.collection({ name: 'itens' });
+
+    await uow.run('externo', async () => {
+      await col.put([{ id: 'a' }]);
+      await uow.run('interno', async () => {
+        expect(uow.isActive()).toBe(true);
+        await col.put([{ id: 'b' }]);
+      });
+      expect(await journalFiles()).toHaveLength(1);
+    });
+
+    expect(await col.count()).toBe(2);
+    expect(await journalFiles()).toEqual([]);
+  });
+
+  test('stageEvent fora de um passo retorna false', () => {
+    const uow = UnitOfWork.forDataDir(testDir.dir, new JsonFileDriver(testDir.dir));
+    expect(uow.stageEvent({
+      actor: 'Libervia',
+      evento: TipoEvento.SITUACAO_CRIADA,
+      entidade: 'SituacaoDecisoria',
+      entidadeId: 'x',
+      payload: {}
+    })).toBe(false);
+  });
+
+  test('passos concorrentes são serializados', async () => {
+    const driver = await openDriver('json');
+    const uow = UnitOfWork.forDataDir(testDir.dir, driver);
+    const ordem: string[] = [];
+
+    await Promise.all([
+      uow.run('a', async () => {
+        ordem.push('a:inicio');
+        await new Promise(r => setTimeout(r, 20));
+        ordem.push('a:fim');
+      }),
+      uow.run('b', async () => {
+        ordem.push('b:inicio');
+        ordem.push('b:fim');
+      })
+    ]);
+
+    expect(ordem).toEqual(['a:inicio', 'a:fim', 'b:inicio', 'b:fim']);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: TENANT RUNTIME
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 29 - TenantRuntime', () => {
+  test('instância do tenant recupera journal pendente ao iniciar', async () => {
+    const registry = await TenantRegistry.create(testDir.dir);
+    await registry.register({ id: 'tenant-uow', name: 'UoW' });
+
+    const runtime = TenantRuntime.create(registry);
+    try {
+      const first = await runtime.getOrCreate('tenant-uow');
+      await first.orquestrador.ProcessarSolicitacao(createValidSituacao('sit-tenant'));
+      expect(await journalFiles(first.dataDir)).toEqual([]);
+      await runtime.shutdown('tenant-uow');
+
+      await UnitOfWorkJournal.forDataDir(first.dataDir).write({
+        id: 'uow_pendente',
+        step: 'IniciarObservacao',
+        status: 'STARTED',
+        startedAt: new Date().toISOString(),
+        writes: [],
+        events: [],
+        eventLogTailId: null
+      });
+
+      const second = await runtime.getOrCreate('tenant-uow');
+      expect(second.orquestrador.GetRecoveryReport()?.rolledBack).toBe(1);
+      expect(await journalFiles(second.dataDir)).toEqual([]);
+    } finally {
+      await runtime.shutdownAll();
+    }
+  });
+});
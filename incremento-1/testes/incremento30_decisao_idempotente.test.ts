@@ -0,0 +1,452 @@
+/**
+ * TESTES - Incremento 30: Decisão em chamada única + chaves de idempotência
+ *
+ * Testa:
+ * - OrquestradorCognitivo.Decidir() executa o fluxo completo
+ * - Retentativa com a mesma chave devolve contrato e episódio originais
+ * - Replays registrados no EventLog (IDEMPOTENT_REPLAY)
+ * - Conflito (mesma chave, outra requisição) e chave inválida
+ * - Protocolo rejeitado também é reproduzido
+ * - Falha no meio do fluxo não registra a chave (unidade de trabalho)
+ * - Chaves isoladas por tenant
+ * - POST /api/v1/decisoes com header Idempotency-Key
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FastifyInstance } from 'fastify';
+
+import {
+  StorageDriver,
+  STORAGE_COLLECTIONS,
+  createStorageDriver
+} from '../camada-3/storage';
+import { UnitOfWork } from '../camada-3/unit-of-work';
+import {
+  IdempotencyKeyRepositoryImpl,
+  IdempotencyKeyConflictError,
+  IdempotencyKeyInvalidError
+} from '../camada-3/idempotency';
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { TipoEvento, TipoEntidade } from '../camada-3/event-log/EventLogEntry';
+import { OrquestradorCognitivo } from '../camada-3/orquestrador/OrquestradorCognitivo';
+import { MemoryQueryService } from '../camada-3/servicos/MemoryQueryService';
+import { SituacaoRepositoryImpl } from '../camada-3/repositorios/implementacao/SituacaoRepositoryImpl';
+import { EpisodioRepositoryImpl } from '../camada-3/repositorios/implementacao/EpisodioRepositoryImpl';
+import { DecisaoRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisaoRepositoryImpl';
+import { ContratoRepositoryImpl } from '../camada-3/repositorios/implementacao/ContratoRepositoryImpl';
+import { DecisionProtocolRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisionProtocolRepositoryImpl';
+import {
+  EstadoProtocolo,
+  PerfilRisco,
+  DecisaoCompletaInput
+} from '../camada-3/entidades/tipos';
+import { TenantRegistry } from '../tenant/TenantRegistry';
+import { TenantRuntime } from '../tenant/TenantRuntime';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// SETUP
+// ════════════════════════════════════════════════════════════════════════════
+
+let testDir: TestDataDir;
+const openDrivers: StorageDriver[] = [];
+
+beforeEach(async () => {
+  testDir = await createTestDataDir('inc30');
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  while (openDrivers.length > 0) {
+    await openDrivers.pop()!.close();
+  }
+  await testDir.cleanup();
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+function createDecisaoInput(overrides: Partial<DecisaoCompletaInput['protocolo']> = {}): DecisaoCompletaInput {
+  return {
+    situacao: {
+      dominio: 'financeiro',
+      contexto: 'Contexto de teste',
+      objetivo: 'Objetivo de teste',
+      incertezas: ['Incerteza 1'],
+      alternativas: [
+        { descricao: 'Alternativa A', riscos_associados: ['risco-1'] },
+        { descricao: 'Alternativa B', riscos_associados: ['risco-2'] }
+      ],
+      riscos: [{ descricao: 'Risco identificado', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+      urgencia: 'Média',
+      capacidade_absorcao: 'Alta',
+      consequencia_relevante: 'Consequência significativa',
+      possibilidade_aprendizado: true,
+      caso_uso_declarado: 1
+    },
+    protocolo: {
+      criterios_minimos: ['Critério 1'],
+      riscos_considerados: ['Risco 1'],
+      limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max 10k', valor: '10000' }],
+      perfil_risco: PerfilRisco.MODERADO,
+      alternativas_avaliadas: ['Alternativa A', 'Alternativa B'],
+      alternativa_escolhida: 'Alternativa A',
+      ...overrides
+    },
+    condicoes: ['Condição 1']
+  };
+}
+
+async function setupOrquestrador(
+  dataDir: string = testDir.dir,
+  options: { idempotencia?: boolean } = {}
+) {
+  const driver = await createStorageDriver('json', dataDir);
+  openDrivers.push(driver);
+
+  const situacaoRepo = await SituacaoRepositoryImpl.create(dataDir, driver);
+  const episodioRepo = await EpisodioRepositoryImpl.create(dataDir, driver);
+  const decisaoRepo = await DecisaoRepositoryImpl.create(dataDir, driver);
+  const contratoRepo = await ContratoRepositoryImpl.create(dataDir, driver);
+  const protocoloRepo = await DecisionProtocolRepositoryImpl.create(dataDir, driver);
+  const eventLog = await EventLogRepositoryImpl.create(dataDir);
+
+  const orquestrador = new OrquestradorCognitivo(
+    situacaoRepo,
+    episodioRepo,
+    decisaoRepo,
+    contratoRepo,
+    new MemoryQueryService(episodioRepo, decisaoRepo, contratoRepo),
+    protocoloRepo,
+    eventLog
+  );
+  orquestrador.ConfigurarUnidadeDeTrabalho(UnitOfWork.forDataDir(dataDir, driver, eventLog));
+  if (options.idempotencia !== false) {
+    orquestrador.ConfigurarIdempotencia(
+      new IdempotencyKeyRepositoryImpl(path.join(dataDir, 'idempotency_keys.json'), driver)
+    );
+  }
+  await orquestrador.init();
+
+  return { orquestrador, driver, eventLog, contratoRepo };
+}
+
+async function contar(driver: StorageDriver) {
+  return {
+    situacoes: await driver.collection(STORAGE_COLLECTIONS.situacoes).count(),
+    episodios: await driver.collection(STORAGE_COLLECTIONS.episodios).count(),
+    protocolos: await driver.collection(STORAGE_COLLECTIONS.protocolos).count(),
+    contratos: await driver.collection(STORAGE_COLLECTIONS.contratos).count(),
+    chaves: await driver.collection(STORAGE_COLLECTIONS.idempotencyKeys).count()
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: DECIDIR
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 30 - Decidir', () => {
+  test('executa o fluxo completo em uma chamada', async () => {
+    const { orquestrador, driver } = await setupOrquestrador();
+
+    const resultado = await orquestrador.Decidir(createDecisaoInput(), { emitidoPara: 'sistema-x' });
+
+    expect(resultado.replay).toBe(false);
+    expect(resultado.protocolo.estado).toBe(EstadoProtocolo.VALIDADO);
+    expect(resultado.contrato?.episodio_id).toBe(resultado.episodio_id);
+    expect(resultado.contrato?.emitido_para).toBe('sistema-x');
+    expect(resultado.contrato?.condicoes_obrigatorias).toEqual(['Condição 1']);
+    expect(await contar(driver)).toEqual({
+      situacoes: 1, episodios: 1, protocolos: 1, contratos: 1, chaves: 0
+    });
+  });
+
+  test('protocolo rejeitado retorna contrato null', async () => {
+    const { orquestrador, driver } = await setupOrquestrador();
+
+    const resultado = await orquestrador.Decidir(createDecisaoInput({ alternativa_escolhida: 'Alternativa Z' }));
+
+    expect(resultado.contrato).toBeNull();
+    expect(resultado.protocolo.estado).toBe(EstadoProtocolo.REJEITADO);
+    expect((await contar(driver)).contratos).toBe(0);
+  });
+
+  test('campos fora da situação não são persistidos', async () => {
+    const { orquestrador, driver } = await setupOrquestrador();
+    const input = createDecisaoInput();
+    Object.assign(input.situacao, { tenant_id: 'outro', anexos_analise: [{ tipo: 'forjado' }] });
+    Object.assign(input.situacao.alternativas[0], { peso: 99 });
+
+    const resultado = await orquestrador.Decidir(input);
+
+    const gravada = await driver.collection(STORAGE_COLLECTIONS.situacoes).get(resultado.situacao_id);
+    expect(gravada).not.toHaveProperty('tenant_id');
+    expect(gravada!.anexos_analise).toEqual([]);
+    expect(gravada!.alternativas[0]).toEqual({ descricao: 'Alternativa A', riscos_associados: ['risco-1'] });
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: IDEMPOTÊNCIA
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 30 - Chaves de idempotência', () => {
+  test('retentativa devolve contrato e episódio originais', async () => {
+    const { orquestrador, driver, eventLog } = await setupOrquestrador();
+
+    const original = await orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-1', actor: 'acme' });
+    const eventosOriginais = await eventLog.count();
+    const retry = await orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-1', actor: 'acme' });
+
+    expect(retry.replay).toBe(true);
+    expect(retry.episodio_id).toBe(original.episodio_id);
+    expect(retry.situacao_id).toBe(original.situacao_id);
+    expect(retry.contrato).toEqual(original.contrato);
+    expect(await contar(driver)).toEqual({
+      situacoes: 1, episodios: 1, protocolos: 1, contratos: 1, chaves: 1
+    });
+
+    // Replay visível no EventLog
+    const eventos = await eventLog.getAll();
+    expect(eventos).toHaveLength(eventosOriginais + 1);
+    const replay = eventos[eventos.length - 1];
+    expect(replay.evento).toBe(TipoEvento.IDEMPOTENT_REPLAY);
+    expect(replay.entidade).toBe(TipoEntidade.IDEMPOTENCY_KEY);
+    expect(replay.entidade_id).toBe('req-1');
+    expect(replay.actor).toBe('acme');
+  });
+
+  test('ordem das chaves do corpo não afeta a identificação da requisição', async () => {
+    const { orquestrador } = await setupOrquestrador();
+    const input = createDecisaoInput();
+    const reordenado: DecisaoCompletaInput = {
+      condicoes: input.condicoes,
+      protocolo: input.protocolo,
+      situacao: input.situacao
+    };
+
+    const original = await orquestrador.Decidir(input, { idempotencyKey: 'req-ordem' });
+    const retry = await orquestrador.Decidir(reordenado, { idempotencyKey: 'req-ordem' });
+
+    expect(retry.contrato?.id).toBe(original.contrato?.id);
+  });
+
+  test('mesma chave com outra requisição é conflito', async () => {
+    const { orquestrador, driver } = await setupOrquestrador();
+
+    await orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-2' });
+    const antes = await contar(driver);
+
+    await expect(
+      orquestrador.Decidir(createDecisaoInput({ criterios_minimos: ['Outro'] }), { idempotencyKey: 'req-2' })
+    ).rejects.toThrow(IdempotencyKeyConflictError);
+    expect(await contar(driver)).toEqual(antes);
+  });
+
+  test('rejeição do protocolo também é reproduzida', async () => {
+    const { orquestrador, driver } = await setupOrquestrador();
+    const input = createDecisaoInput({ alternativa_escolhida: 'Alternativa Z' });
+
+    const original = await orquestrador.Decidir(input, { idempotencyKey: 'req-rej' });
+    const retry = await orquestrador.Decidir(input, { idempotencyKey: 'req-rej' });
+
+    expect(retry.replay).toBe(true);
+    expect(retry.contrato).toBeNull();
+    expect(retry.episodio_id).toBe(original.episodio_id);
+    expect(retry.protocolo.id).toBe(original.protocolo.id);
+    expect((await contar(driver)).episodios).toBe(1);
+  });
+
+  test.each([
+    ['', 'vazia'],
+    ['a'.repeat(129), 'caracteres'],
+    ['chave com espaço', 'letras']
+  ])('chave inválida %#', async (key, motivo) => {
+    const { orquestrador, driver } = await setupOrquestrador();
+
+    await expect(orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: key }))
+      .rejects.toThrow(IdempotencyKeyInvalidError);
+    await expect(orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: key }))
+      .rejects.toThrow(motivo);
+    expect((await contar(driver)).episodios).toBe(0);
+  });
+
+  test('chave sem repositório configurado é rejeitada', async () => {
+    const { orquestrador } = await setupOrquestrador(testDir.dir, { idempotencia: false });
+
+    await expect(orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-3' }))
+      .rejects.toThrow('IdempotencyKeyRepository não configurado');
+  });
+
+  test('falha no meio do fluxo não cria entidades nem registra a chave', async () => {
+    const { orquestrador, driver, contratoRepo } = await setupOrquestrador();
+
+    jest.spyOn(contratoRepo, 'create').mockRejectedValueOnce(new Error('timeout de disco'));
+    await expect(orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-4' }))
+      .rejects.toThrow('timeout de disco');
+
+    expect(await contar(driver)).toEqual({
+      situacoes: 0, episodios: 0, protocolos: 0, contratos: 0, chaves: 0
+    });
+
+    // Retentativa executa o fluxo normalmente
+    const retry = await orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-4' });
+    expect(retry.replay).toBe(false);
+    expect(retry.contrato).not.toBeNull();
+  });
+
+  test('chave sobrevive ao reinício', async () => {
+    const first = await setupOrquestrador();
+    const original = await first.orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-5' });
+
+    const second = await setupOrquestrador();
+    const retry = await second.orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-5' });
+
+    expect(retry.replay).toBe(true);
+    expect(retry.contrato?.id).toBe(original.contrato?.id);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: POR TENANT
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 30 - Chaves por tenant', () => {
+  test('mesma chave em tenants diferentes gera decisões independentes', async () => {
+    const registry = await TenantRegistry.create(testDir.dir);
+    await registry.register({ id: 'tenant-a', name: 'A' });
+    await registry.register({ id: 'tenant-b', name: 'B', features: { storageDriver: 'sqlite' } });
+
+    const runtime = TenantRuntime.create(registry);
+    try {
+      const a = await runtime.getOrCreate('tenant-a');
+      const b = await runtime.getOrCreate('tenant-b');
+
+      const ra = await a.orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-shared' });
+      const rb = await b.orquestrador.Decidir(createDecisaoInput(), { idempotencyKey: 'req-shared' });
+
+      expect(ra.replay).toBe(false);
+      expect(rb.replay).toBe(false);
+      expect(rb.contrato?.id).not.toBe(ra.contrato?.id);
+
+      const keys = b.storage.collection(STORAGE_COLLECTIONS.idempotencyKeys);
+      expect((await keys.get('req-shared'))?.contratoId).toBe(rb.contrato?.id);
+    } finally {
+      await runtime.shutdownAll();
+    }
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 30 - POST /api/v1/decisoes', () => {
+  const TEST_PEPPER = 'test-pepper-inc30-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc30-' + Date.now();
+  let app: FastifyInstance;
+  let baseDir: string;
+  let publicToken: string;
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    baseDir = await fs.mkdtemp(path.join(require('os').tmpdir(), 'libervia-inc30-gw-'));
+
+    const config: GatewayConfig = {
+      baseDir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({
+      method: 'POST',
+      url: '/admin/tenants',
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      payload: { id: 'acme', name: 'Acme' }
+    });
+    const keyResponse = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      payload: { role: 'public' }
+    });
+    publicToken = JSON.parse(keyResponse.body).token;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  function postDecisao(payload: DecisaoCompletaInput, idempotencyKey?: string) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes',
+      headers: {
+        'x-tenant-id': 'acme',
+        authorization: `Bearer ${publicToken}`,
+        ...(idempotencyKey ? { 'idempotency-key': idempotencyKey } : {})
+      },
+      payload
+    });
+  }
+
+  test('retentativa com Idempotency-Key devolve o contrato original', async () => {
+    const first = await postDecisao(createDecisaoInput(), 'gw-1');
+    const second = await postDecisao(createDecisaoInput(), 'gw-1');
+
+    expect(first.statusCode).toBe(201);
+    expect(second.statusCode).toBe(201);
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(second.headers['idempotent-replayed']).toBe('true');
+
+    const a = JSON.parse(first.body);
+    const b = JSON.parse(second.body);
+    expect(b.contrato.id).toBe(a.contrato.id);
+    expect(b.episodio_id).toBe(a.episodio_id);
+    expect(b.metadados.idempotent_replay).toBe(true);
+  });
+
+  test('sem Idempotency-Key cada requisição cria nova decisão', async () => {
+    const first = JSON.parse((await postDecisao(createDecisaoInput())).body);
+    const second = JSON.parse((await postDecisao(createDecisaoInput())).body);
+
+    expect(second.episodio_id).not.toBe(first.episodio_id);
+  });
+
+  test('conflito retorna 409 e chave inválida retorna 400', async () => {
+    await postDecisao(createDecisaoInput(), 'gw-2');
+
+    const conflito = await postDecisao(createDecisaoInput({ criterios_minimos: ['Outro'] }), 'gw-2');
+    expect(conflito.statusCode).toBe(409);
+
+    const invalida = await postDecisao(createDecisaoInput(), 'chave inválida!');
+    expect(invalida.statusCode).toBe(400);
+    expect(JSON.parse(invalida.body).error).toBe('Invalid idempotency key');
+  });
+
+  test('protocolo rejeitado retorna 400 também no replay', async () => {
+    const input = createDecisaoInput({ alternativa_escolhida: 'Alternativa Z' });
+    const first = await postDecisao(input, 'gw-3');
+    const second = await postDecisao(input, 'gw-3');
+
+    expect(first.statusCode).toBe(400);
+    expect(second.statusCode).toBe(400);
+    expect(JSON.parse(second.body).episodio_id).toBe(JSON.parse(first.body).episodio_id);
+    expect(second.headers['idempotent-replayed']).toBe('true');
+  });
+});
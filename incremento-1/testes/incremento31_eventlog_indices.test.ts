@@ -0,0 +1,468 @@
+/**
+ * TESTES - Incremento 31: Leitura indexada e streaming do EventLog
+ *
+ * Testa:
+ * - Índices por segmento mantidos na rotação e reconstruídos sob demanda
+ * - iterate() com filtros (evento, entidade/id, actor, timestamp) e direção
+ * - query() paginada por cursor
+ * - countWhere() sem ler segmentos
+ * - getById/getByEvento/getByEntidade sem getAll()
+ * - prune() remove índices
+ * - GET /api/v1/eventos e /admin/query/eventlog com cursor
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FastifyInstance } from 'fastify';
+
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { EventLogEntry, TipoEvento, TipoEntidade } from '../camada-3/event-log/EventLogEntry';
+import { EventLogCursorError } from '../camada-3/event-log/EventLogIndex';
+import { PerfilRisco } from '../camada-3/entidades/tipos';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// SETUP
+// ════════════════════════════════════════════════════════════════════════════
+
+let testDir: TestDataDir;
+
+beforeEach(async () => {
+  testDir = await createTestDataDir('inc31');
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await testDir.cleanup();
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+const SEGMENT_SIZE = 5;
+
+/**
+ * 12 eventos em 3 segmentos (5 + 5 + 2).
+ * Posição i: evento alterna entre 3 tipos, actor entre 2.
+ */
+async function criarLog(dataDir: string = testDir.dir): Promise<EventLogRepositoryImpl> {
+  const eventLog = await EventLogRepositoryImpl.create(dataDir, { segmentSize: SEGMENT_SIZE });
+  const eventos = [TipoEvento.SITUACAO_CRIADA, TipoEvento.EPISODIO_CRIADO, TipoEvento.DECISAO_REGISTRADA];
+
+  for (let i = 0; i < 12; i++) {
+    await eventLog.append(
+      i % 2 === 0 ? 'Libervia' : 'Bazari',
+      eventos[i % 3],
+      TipoEntidade.EPISODIO,
+      `ep-${i % 4}`,
+      { i }
+    );
+  }
+  return eventLog;
+}
+
+/**
+ * Evento com timestamp explícito (via appendRaw).
+ */
+function eventoEm(id: string, iso: string, evento: string = TipoEvento.SITUACAO_CRIADA): EventLogEntry {
+  return {
+    id,
+    timestamp: new Date(iso),
+    actor: 'Libervia',
+    evento,
+    entidade: TipoEntidade.SITUACAO,
+    entidade_id: id,
+    payload_hash: 'h',
+    previous_hash: null,
+    current_hash: `hash-${id}`
+  };
+}
+
+async function coletar(iter: AsyncIterableIterator<EventLogEntry>): Promise<EventLogEntry[]> {
+  const result: EventLogEntry[] = [];
+  for await (const entry of iter) {
+    result.push(entry);
+  }
+  return result;
+}
+
+function indexDir(dataDir: string = testDir.dir): string {
+  return path.join(dataDir, 'event-log-index');
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: ÍNDICES POR SEGMENTO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 31 - Índices por segmento', () => {
+  test('índice é gravado quando o segmento é fechado', async () => {
+    await criarLog();
+
+    const files = (await fs.readdir(indexDir())).sort();
+    expect(files).toEqual(['segment-000001.index.json', 'segment-000002.index.json']);
+
+    const index = JSON.parse(await fs.readFile(path.join(indexDir(), files[0]), 'utf-8'));
+    expect(index.count).toBe(SEGMENT_SIZE);
+    expect(index.byEvento[TipoEvento.SITUACAO_CRIADA]).toEqual([0, 3]);
+    expect(index.byEntidadeId[TipoEntidade.EPISODIO]['ep-1']).toEqual([1]);
+  });
+
+  test('índice ausente é reconstruído a partir do segmento', async () => {
+    const original = await criarLog();
+    const esperado = await original.getByEvento(TipoEvento.EPISODIO_CRIADO);
+    await fs.rm(indexDir(), { recursive: true, force: true });
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: SEGMENT_SIZE });
+    const eventos = await reaberto.getByEvento(TipoEvento.EPISODIO_CRIADO);
+
+    expect(eventos.map(e => e.id)).toEqual(esperado.map(e => e.id));
+    // Segmentos fechados: índice regravado
+    expect((await fs.readdir(indexDir())).sort()).toEqual([
+      'segment-000001.index.json',
+      'segment-000002.index.json'
+    ]);
+  });
+
+  test('índice corrompido é ignorado', async () => {
+    await criarLog();
+    await fs.writeFile(path.join(indexDir(), 'segment-000001.index.json'), '{ corrompido');
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: SEGMENT_SIZE });
+    expect(await reaberto.countWhere({ evento: TipoEvento.SITUACAO_CRIADA })).toBe(4);
+  });
+
+  test('consulta lê apenas segmentos com candidatos', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: SEGMENT_SIZE });
+    for (let i = 0; i < 10; i++) {
+      await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, `sit-${i}`, {});
+    }
+    const raro = await eventLog.append('Libervia', TipoEvento.CONTRATO_EMITIDO, TipoEntidade.CONTRATO, 'c-1', {});
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: SEGMENT_SIZE });
+    const loadSegment = jest.spyOn(reaberto as any, 'loadSegment');
+    const getAll = jest.spyOn(reaberto, 'getAll');
+
+    const eventos = await reaberto.getByEvento(TipoEvento.CONTRATO_EMITIDO);
+    expect(eventos.map(e => e.id)).toEqual([raro.id]);
+    expect(loadSegment).toHaveBeenCalledTimes(1);
+    expect(loadSegment).toHaveBeenCalledWith(3);
+
+    loadSegment.mockClear();
+    const porId = await reaberto.getById((await reaberto.getByEntidade(TipoEntidade.SITUACAO, 'sit-7'))[0].id);
+    expect(porId?.entidade_id).toBe('sit-7');
+    expect(loadSegment).toHaveBeenCalledTimes(2); // getByEntidade + getById, mesmo segmento
+    expect(getAll).not.toHaveBeenCalled();
+  });
+
+  test('chaves com nomes de propriedades de Object são seguras', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    await eventLog.append('constructor', 'toString', '__proto__', 'hasOwnProperty', {});
+
+    expect(await eventLog.countWhere({ actor: 'constructor' })).toBe(1);
+    expect(await eventLog.countWhere({ evento: 'valueOf' })).toBe(0);
+    expect(await eventLog.getByEntidade('__proto__', 'hasOwnProperty')).toHaveLength(1);
+  });
+
+  test('prune remove os índices dos segmentos removidos', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir, {
+      segmentSize: SEGMENT_SIZE,
+      retentionSegments: 2
+    });
+    for (let i = 0; i < 12; i++) {
+      await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, `sit-${i}`, {});
+    }
+
+    await eventLog.prune();
+
+    expect(await fs.readdir(indexDir())).toEqual(['segment-000002.index.json']);
+    expect(await eventLog.countWhere()).toBe(7);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: ITERAÇÃO E FILTROS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 31 - iterate()', () => {
+  test('percorre todos os eventos em ordem, nos dois sentidos', async () => {
+    const eventLog = await criarLog();
+    const todos = await eventLog.getAll();
+
+    const asc = await coletar(eventLog.iterate());
+    const desc = await coletar(eventLog.iterate({ direction: 'desc' }));
+
+    expect(asc.map(e => e.id)).toEqual(todos.map(e => e.id));
+    expect(desc.map(e => e.id)).toEqual(todos.map(e => e.id).reverse());
+  });
+
+  test('filtros equivalem a filtrar getAll()', async () => {
+    const eventLog = await criarLog();
+    const todos = await eventLog.getAll();
+
+    const casos = [
+      { evento: TipoEvento.EPISODIO_CRIADO },
+      { actor: 'Bazari' },
+      { entidade: TipoEntidade.EPISODIO, entidadeId: 'ep-2' },
+      { entidadeId: 'ep-3' },
+      { evento: TipoEvento.SITUACAO_CRIADA, actor: 'Libervia' },
+      { entidade: TipoEntidade.SITUACAO }
+    ];
+
+    for (const filtro of casos) {
+      const esperado = todos.filter(e =>
+        (filtro.evento === undefined || e.evento === filtro.evento) &&
+        (filtro.actor === undefined || e.actor === filtro.actor) &&
+        (filtro.entidade === undefined || e.entidade === filtro.entidade) &&
+        (filtro.entidadeId === undefined || e.entidade_id === filtro.entidadeId)
+      );
+      const obtido = await coletar(eventLog.iterate(filtro));
+
+      expect(obtido.map(e => e.id)).toEqual(esperado.map(e => e.id));
+      expect(await eventLog.countWhere(filtro)).toBe(esperado.length);
+    }
+  });
+
+  test('intervalo de timestamps pula segmentos fora do intervalo', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 2 });
+    const dias = ['2026-01-01', '2026-01-02', '2026-01-03', '2026-01-04', '2026-01-05', '2026-01-06'];
+    for (const [i, dia] of dias.entries()) {
+      await eventLog.appendRaw(eventoEm(`e${i}`, `${dia}T12:00:00Z`));
+    }
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 2 });
+    const loadSegment = jest.spyOn(reaberto as any, 'loadSegment');
+
+    const filtro = { fromTs: new Date('2026-01-04T00:00:00Z'), toTs: new Date('2026-01-05T23:59:59Z') };
+    const eventos = await coletar(reaberto.iterate(filtro));
+
+    expect(eventos.map(e => e.id)).toEqual(['e3', 'e4']);
+    expect(loadSegment.mock.calls.map(c => c[0])).toEqual([2, 3]);
+
+    // Segmento inteiro dentro do intervalo: contado só pelo índice
+    loadSegment.mockClear();
+    expect(await reaberto.countWhere({ fromTs: new Date('2026-01-03T00:00:00Z') })).toBe(4);
+    expect(loadSegment).not.toHaveBeenCalled();
+
+    expect(await reaberto.countWhere({ fromTs: new Date('2026-01-04T00:00:00Z') })).toBe(3);
+  });
+
+  test('exportRange usa o índice para segmentos fora do intervalo', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 2 });
+    for (let i = 0; i < 6; i++) {
+      await eventLog.appendRaw(eventoEm(`e${i}`, `2026-01-0${i + 1}T12:00:00Z`));
+    }
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 2 });
+    const loadSegment = jest.spyOn(reaberto as any, 'loadSegment');
+
+    const result = await reaberto.exportRange({ fromTs: new Date('2026-01-05T00:00:00Z') });
+
+    expect(result.entries.map(e => e.id)).toEqual(['e4', 'e5']);
+    expect(loadSegment.mock.calls.map(c => c[0])).toEqual([3]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: PAGINAÇÃO POR CURSOR
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 31 - query() com cursor', () => {
+  test.each(['asc', 'desc'] as const)('páginas cobrem todos os eventos sem repetição (%s)', async (direction) => {
+    const eventLog = await criarLog();
+    const esperado = (await coletar(eventLog.iterate({ direction, actor: 'Libervia' }))).map(e => e.id);
+
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    let paginas = 0;
+    do {
+      const page = await eventLog.query({ direction, actor: 'Libervia', after: cursor, limit: 4 });
+      ids.push(...page.entries.map(e => e.id));
+      cursor = page.nextCursor ?? undefined;
+      paginas++;
+    } while (cursor);
+
+    expect(ids).toEqual(esperado);
+    expect(paginas).toBe(2);
+  });
+
+  test('última página retorna nextCursor null', async () => {
+    const eventLog = await criarLog();
+
+    const page = await eventLog.query({ limit: 12 });
+    expect(page.entries).toHaveLength(12);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  test('cursor continua válido após novos eventos', async () => {
+    const eventLog = await criarLog();
+    const first = await eventLog.query({ limit: 10 });
+
+    const novo = await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, 'sit-n', {});
+    const second = await eventLog.query({ after: first.nextCursor!, limit: 10 });
+
+    expect(second.entries).toHaveLength(3);
+    expect(second.entries[2].id).toBe(novo.id);
+  });
+
+  test('cursor inválido', async () => {
+    const eventLog = await criarLog();
+
+    await expect(eventLog.query({ after: 'nao-e-cursor', limit: 5 })).rejects.toThrow(EventLogCursorError);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 31 - Rotas com cursor', () => {
+  const TEST_PEPPER = 'test-pepper-inc31-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc31-' + Date.now();
+  let app: FastifyInstance;
+  let baseDir: string;
+  let publicToken: string;
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    baseDir = await fs.mkdtemp(path.join(require('os').tmpdir(), 'libervia-inc31-gw-'));
+
+    const config: GatewayConfig = {
+      baseDir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({
+      method: 'POST',
+      url: '/admin/tenants',
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      payload: { id: 'acme', name: 'Acme' }
+    });
+    const keyResponse = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      payload: { role: 'public' }
+    });
+    publicToken = JSON.parse(keyResponse.body).token;
+
+    // Duas decisões completas geram os eventos consultados
+    for (let i = 0; i < 2; i++) {
+      await app.inject({
+        method: 'POST',
+        url: '/api/v1/decisoes',
+        headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` },
+        payload: {
+          situacao: {
+            dominio: 'financeiro',
+            contexto: `Contexto ${i}`,
+            objetivo: 'Objetivo',
+            incertezas: ['Incerteza'],
+            alternativas: [
+              { descricao: 'A', riscos_associados: ['r1'] },
+              { descricao: 'B', riscos_associados: ['r2'] }
+            ],
+            riscos: [{ descricao: 'Risco', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+            urgencia: 'Média',
+            capacidade_absorcao: 'Alta',
+            consequencia_relevante: 'Consequência',
+            possibilidade_aprendizado: true,
+            caso_uso_declarado: 1
+          },
+          protocolo: {
+            criterios_minimos: ['Critério'],
+            riscos_considerados: ['Risco'],
+            limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10' }],
+            perfil_risco: PerfilRisco.MODERADO,
+            alternativas_avaliadas: ['A', 'B'],
+            alternativa_escolhida: 'A'
+          }
+        }
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  function getEventos(query: string) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/v1/eventos?${query}`,
+      headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` }
+    });
+  }
+
+  test('GET /api/v1/eventos pagina do mais recente para o mais antigo', async () => {
+    const ids: string[] = [];
+    let total = 0;
+    let cursor: string | null = null;
+
+    do {
+      const response = await getEventos(`limit=4${cursor ? `&cursor=${cursor}` : ''}`);
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      ids.push(...body.eventos.map((e: any) => e.id));
+      total = body.total;
+      cursor = body.next_cursor;
+    } while (cursor);
+
+    expect(total).toBeGreaterThan(4);
+    expect(ids).toHaveLength(total);
+    expect(new Set(ids).size).toBe(total);
+
+    const primeira = JSON.parse((await getEventos('limit=1')).body);
+    expect(primeira.eventos[0].evento).toBe(TipoEvento.CONTRATO_EMITIDO);
+  });
+
+  test('GET /api/v1/eventos filtra por tipo e entidade_id', async () => {
+    const contratos = JSON.parse((await getEventos(`tipo=${TipoEvento.CONTRATO_EMITIDO}`)).body);
+    expect(contratos.total).toBe(2);
+    expect(contratos.next_cursor).toBeNull();
+
+    const episodio = contratos.eventos[0].entidade_id;
+    const porEntidade = JSON.parse(
+      (await getEventos(`entidade=${TipoEntidade.CONTRATO}&entidade_id=${episodio}`)).body
+    );
+    expect(porEntidade.eventos.map((e: any) => e.id)).toEqual([contratos.eventos[0].id]);
+  });
+
+  test('GET /api/v1/eventos rejeita cursor e datas inválidos', async () => {
+    expect((await getEventos('cursor=invalido')).statusCode).toBe(400);
+    expect((await getEventos('from=ontem')).statusCode).toBe(400);
+  });
+
+  test('GET /admin/query/eventlog aceita cursor', async () => {
+    const get = (query: string) => app.inject({
+      method: 'GET',
+      url: `/admin/query/eventlog?tenantId=acme&${query}`,
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` }
+    });
+
+    const first = JSON.parse((await get('limit=3')).body);
+    const second = JSON.parse((await get(`limit=3&cursor=${first.nextCursor}`)).body);
+    const all = JSON.parse((await get('limit=6')).body);
+
+    expect(first.events).toHaveLength(3);
+    expect([...first.events, ...second.events].map((e: any) => e.id))
+      .toEqual(all.events.map((e: any) => e.id));
+    expect(first.total).toBe(all.total);
+
+    expect((await get('cursor=invalido')).statusCode).toBe(400);
+  });
+});
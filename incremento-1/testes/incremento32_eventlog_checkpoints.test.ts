@@ -0,0 +1,466 @@
+/**
+ * TESTES - Incremento 32: Checkpoints assinados do EventLog
+ *
+ * Testa:
+ * - Checkpoints gravados junto com o snapshot e na rotação
+ * - Arquivo append-only (JSONL), tolerante a linha incompleta
+ * - verifyChain/verifyFromSnapshot comparam a cadeia com os checkpoints
+ * - Cadeia reescrita com hashes recalculados é detectada
+ * - Truncamento, assinatura adulterada e chave desconhecida
+ * - Retenção (prune) e pacote de testemunha
+ * - GET /admin/tenants/:id/audit/witness
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FastifyInstance } from 'fastify';
+
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { TipoEvento, TipoEntidade } from '../camada-3/event-log/EventLogEntry';
+import {
+  CHECKPOINT_FILE_NAME,
+  CheckpointSigningKey,
+  EventLogCheckpointStore,
+  importPublicKey,
+  verifyWitnessBundleSignatures
+} from '../camada-3/event-log/EventLogCheckpoint';
+import { computeEventHash } from '../camada-3/utilitarios/HashUtil';
+import { generateKeyPair, ENV_PRIVATE_KEY, ENV_KEY_ID } from '../scripts/crypto_utils';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// SETUP
+// ════════════════════════════════════════════════════════════════════════════
+
+let testDir: TestDataDir;
+
+beforeEach(async () => {
+  testDir = await createTestDataDir('inc32');
+});
+
+afterEach(async () => {
+  await testDir.cleanup();
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+function novaChave(): CheckpointSigningKey {
+  const pair = generateKeyPair();
+  return {
+    privateKey: crypto.createPrivateKey({
+      key: Buffer.from(pair.privateKey, 'base64'),
+      format: 'der',
+      type: 'pkcs8'
+    }),
+    keyId: pair.keyId
+  };
+}
+
+/**
+ * 12 eventos, segmentos de 5, snapshot a cada 3 eventos.
+ * Checkpoints: eventos 3, 5 (rotação), 8, 10 (rotação).
+ */
+async function criarLog(
+  key: CheckpointSigningKey | null,
+  extra: { retentionSegments?: number } = {}
+): Promise<EventLogRepositoryImpl> {
+  const eventLog = await EventLogRepositoryImpl.create(testDir.dir, {
+    segmentSize: 5,
+    snapshotEvery: 3,
+    checkpointKey: key,
+    ...extra
+  });
+  for (let i = 0; i < 12; i++) {
+    await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, `sit-${i}`, { i });
+  }
+  return eventLog;
+}
+
+function segmentPath(segNum: number): string {
+  return path.join(testDir.dir, 'event-log', `segment-${String(segNum).padStart(6, '0')}.json`);
+}
+
+async function lerSegmento(segNum: number): Promise<any[]> {
+  return JSON.parse(await fs.readFile(segmentPath(segNum), 'utf-8'));
+}
+
+/**
+ * Reescreve toda a cadeia a partir do evento `alterado`, recalculando
+ * os hashes (adulteração que a verificação da cadeia sozinha não detecta).
+ */
+async function reescreverCadeia(alterado: number): Promise<void> {
+  const segmentos = [await lerSegmento(1), await lerSegmento(2), await lerSegmento(3)];
+  let previousHash: string | null = null;
+  let posicao = 0;
+
+  for (const segmento of segmentos) {
+    for (const evento of segmento) {
+      if (posicao === alterado) evento.payload_hash = 'adulterado';
+      evento.previous_hash = previousHash;
+      evento.current_hash = computeEventHash(
+        previousHash,
+        new Date(evento.timestamp),
+        evento.actor,
+        evento.evento,
+        evento.entidade,
+        evento.entidade_id,
+        evento.payload_hash
+      );
+      previousHash = evento.current_hash;
+      posicao++;
+    }
+  }
+
+  for (let i = 0; i < segmentos.length; i++) {
+    await fs.writeFile(segmentPath(i + 1), JSON.stringify(segmentos[i], null, 2), 'utf-8');
+  }
+  await fs.rm(path.join(testDir.dir, 'event-log-snapshot.json'), { force: true });
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GRAVAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 32 - Gravação de checkpoints', () => {
+  test('checkpoints acompanham snapshot e rotação', async () => {
+    const eventLog = await criarLog(novaChave());
+    const checkpoints = await eventLog.getCheckpoints();
+
+    expect(checkpoints.map(c => c.data.sequence)).toEqual([1, 2, 3, 4]);
+    expect(checkpoints.map(c => c.data.count)).toEqual([3, 5, 8, 10]);
+    expect(checkpoints.map(c => [c.data.segment, c.data.index_in_segment])).toEqual([
+      [1, 2], [1, 4], [2, 2], [2, 4]
+    ]);
+
+    const segmento2 = await lerSegmento(2);
+    expect(checkpoints[3].data.last_event_id).toBe(segmento2[4].id);
+    expect(checkpoints[3].data.last_hash).toBe(segmento2[4].current_hash);
+  });
+
+  test('arquivo é JSONL append-only', async () => {
+    const eventLog = await criarLog(novaChave());
+    const raw = await fs.readFile(path.join(testDir.dir, CHECKPOINT_FILE_NAME), 'utf-8');
+    const linhas = raw.trim().split('\n');
+
+    expect(linhas).toHaveLength(4);
+    expect(JSON.parse(linhas[0]).data.sequence).toBe(1);
+
+    await eventLog.createCheckpoint();
+    const depois = await fs.readFile(path.join(testDir.dir, CHECKPOINT_FILE_NAME), 'utf-8');
+    expect(depois.startsWith(raw)).toBe(true);
+    expect(depois.trim().split('\n')).toHaveLength(5);
+  });
+
+  test('createCheckpoint cobre o último evento e não duplica', async () => {
+    const eventLog = await criarLog(novaChave());
+    const checkpoint = await eventLog.createCheckpoint();
+    const last = await eventLog.getLastEntry();
+
+    expect(checkpoint.data.sequence).toBe(5);
+    expect(checkpoint.data.last_event_id).toBe(last!.id);
+    expect(checkpoint.data.count).toBe(12);
+
+    const again = await eventLog.createCheckpoint();
+    expect(again.data.sequence).toBe(5);
+    expect(await eventLog.getCheckpoints()).toHaveLength(5);
+  });
+
+  test('sequência continua após reabrir', async () => {
+    const key = novaChave();
+    await criarLog(key);
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, {
+      segmentSize: 5,
+      snapshotEvery: 3,
+      checkpointKey: key
+    });
+    const checkpoint = await reaberto.createCheckpoint();
+    expect(checkpoint.data.sequence).toBe(5);
+  });
+
+  test('sem chave: nenhum checkpoint e verificação inalterada', async () => {
+    const eventLog = await criarLog(null);
+
+    expect(await eventLog.getCheckpoints()).toEqual([]);
+    await expect(fs.access(path.join(testDir.dir, CHECKPOINT_FILE_NAME))).rejects.toThrow();
+    await expect(eventLog.createCheckpoint()).rejects.toThrow('não configurada');
+    expect(await eventLog.verifyChain()).toEqual({ valid: true, totalVerified: 12 });
+  });
+
+  test('createCheckpoint em log vazio lança erro', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir, { checkpointKey: novaChave() });
+    await expect(eventLog.createCheckpoint()).rejects.toThrow('vazio');
+  });
+
+  test('linha incompleta no fim do arquivo é ignorada e o próximo append começa nova linha', async () => {
+    const key = novaChave();
+    await criarLog(key);
+    const file = path.join(testDir.dir, CHECKPOINT_FILE_NAME);
+    await fs.appendFile(file, '{"data":{"sequ', 'utf-8');
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, {
+      segmentSize: 5,
+      snapshotEvery: 3,
+      checkpointKey: key
+    });
+    expect(await reaberto.getCheckpoints()).toHaveLength(4);
+
+    await reaberto.createCheckpoint();
+    const checkpoints = await new EventLogCheckpointStore(file).list();
+    expect(checkpoints.map(c => c.data.sequence)).toEqual([1, 2, 3, 4, 5]);
+    expect((await reaberto.verifyChain()).valid).toBe(true);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: VERIFICAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 32 - Verificação contra checkpoints', () => {
+  test('cadeia íntegra confere com todos os checkpoints', async () => {
+    const eventLog = await criarLog(novaChave());
+
+    const fast = await eventLog.verifyFromSnapshot();
+    expect(fast.valid).toBe(true);
+    expect(fast.checkpoints).toEqual({
+      valid: true,
+      total: 4,
+      matched: 4,
+      pruned: 0,
+      signaturesVerified: true,
+      failures: []
+    });
+
+    const full = await eventLog.verifyChainFull();
+    expect(full.valid).toBe(true);
+    expect(full.checkpoints!.matched).toBe(4);
+  });
+
+  test('cadeia reescrita com hashes recalculados é detectada', async () => {
+    const key = novaChave();
+    await criarLog(key);
+    await reescreverCadeia(1);
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, {
+      segmentSize: 5,
+      checkpointKey: key
+    });
+
+    // A cadeia em si é consistente...
+    const full = await reaberto.verifyChainFull();
+    expect(full.totalVerified).toBe(12);
+
+    // ...mas não confere com os checkpoints assinados
+    const result = await reaberto.verifyChain();
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/^Chain does not match signed checkpoint 1/);
+    expect(result.checkpoints!.matched).toBe(0);
+    expect(result.checkpoints!.failures).toHaveLength(4);
+  });
+
+  test('truncamento do log é detectado', async () => {
+    const key = novaChave();
+    await criarLog(key);
+
+    // Remove o último segmento e os dois últimos eventos do segmento 2
+    await fs.rm(segmentPath(3));
+    const segmento2 = await lerSegmento(2);
+    await fs.writeFile(segmentPath(2), JSON.stringify(segmento2.slice(0, 3), null, 2), 'utf-8');
+    await fs.rm(path.join(testDir.dir, 'event-log-snapshot.json'));
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 5, checkpointKey: key });
+    const result = await reaberto.verifyChain();
+
+    expect(result.valid).toBe(false);
+    expect(result.checkpoints!.matched).toBe(3);
+    expect(result.checkpoints!.failures).toEqual([
+      { sequence: 4, reason: expect.stringContaining('log truncated') }
+    ]);
+  });
+
+  test('log vazio com checkpoints é inválido', async () => {
+    const key = novaChave();
+    await criarLog(key);
+    await fs.rm(path.join(testDir.dir, 'event-log'), { recursive: true });
+    await fs.rm(path.join(testDir.dir, 'event-log-snapshot.json'));
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { checkpointKey: key });
+    const result = await reaberto.verifyChain();
+
+    expect(result.valid).toBe(false);
+    expect(result.totalVerified).toBe(0);
+    expect(result.checkpoints!.failures).toHaveLength(4);
+  });
+
+  test('assinatura adulterada e lacuna de sequência são falhas', async () => {
+    const key = novaChave();
+    await criarLog(key);
+    const file = path.join(testDir.dir, CHECKPOINT_FILE_NAME);
+    const linhas = (await fs.readFile(file, 'utf-8')).trim().split('\n').map(l => JSON.parse(l));
+
+    linhas[1].data.count = 999;
+    linhas.splice(2, 1);
+    await fs.writeFile(file, linhas.map(l => JSON.stringify(l)).join('\n') + '\n', 'utf-8');
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 5, checkpointKey: key });
+    const result = await reaberto.verifyCheckpoints();
+
+    expect(result.valid).toBe(false);
+    expect(result.failures).toEqual([
+      { sequence: 2, reason: 'Invalid signature' },
+      { sequence: 4, reason: 'Sequence gap: expected 3' }
+    ]);
+  });
+
+  test('chave desconhecida: posições conferidas, assinaturas não verificadas', async () => {
+    await criarLog(novaChave());
+
+    const outraInstancia = await EventLogRepositoryImpl.create(testDir.dir, {
+      segmentSize: 5,
+      checkpointKey: null
+    });
+    const result = await outraInstancia.verifyCheckpoints();
+
+    expect(result.valid).toBe(true);
+    expect(result.matched).toBe(4);
+    expect(result.signaturesVerified).toBe(false);
+  });
+
+  test('checkpoints de segmentos removidos pela retenção contam como pruned', async () => {
+    const eventLog = await criarLog(novaChave(), { retentionSegments: 2 });
+    const pruned = await eventLog.prune();
+    expect(pruned.segmentsRemoved).toBe(1);
+
+    const result = await eventLog.verifyChain();
+    expect(result.valid).toBe(true);
+    expect(result.checkpoints).toMatchObject({ total: 4, matched: 2, pruned: 2, failures: [] });
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: PACOTE DE TESTEMUNHA
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 32 - Pacote de testemunha', () => {
+  test('exporta checkpoints, chave pública e estado atual', async () => {
+    const key = novaChave();
+    const eventLog = await criarLog(key);
+    const bundle = await eventLog.exportWitnessBundle();
+    const last = await eventLog.getLastEntry();
+
+    expect(bundle.version).toBe(1);
+    expect(bundle.checkpoints).toHaveLength(4);
+    expect(bundle.head).toEqual({ count: 12, last_event_id: last!.id, last_hash: last!.current_hash });
+    expect(bundle.public_keys.map(k => k.keyId)).toContain(key.keyId);
+  });
+
+  test('testemunha confere assinaturas com a chave pública', async () => {
+    const key = novaChave();
+    const eventLog = await criarLog(key);
+    const bundle = JSON.parse(JSON.stringify(await eventLog.exportWitnessBundle()));
+    const publicKey = bundle.public_keys.find((k: any) => k.keyId === key.keyId).publicKey;
+
+    const ok = verifyWitnessBundleSignatures(bundle, { [key.keyId]: importPublicKey(publicKey) });
+    expect(ok).toMatchObject({ valid: true, matched: 4, signaturesVerified: true });
+
+    bundle.checkpoints[0].data.last_hash = 'f'.repeat(64);
+    const adulterado = verifyWitnessBundleSignatures(bundle, { [key.keyId]: importPublicKey(publicKey) });
+    expect(adulterado.valid).toBe(false);
+    expect(adulterado.failures).toEqual([{ sequence: 1, reason: 'Invalid signature' }]);
+  });
+
+  test('checkpoints guardados pela testemunha detectam checkpoints locais reescritos', async () => {
+    const key = novaChave();
+    const eventLog = await criarLog(key);
+    const bundle = await eventLog.exportWitnessBundle();
+
+    // Reescrita completa: cadeia e checkpoints locais regenerados
+    await reescreverCadeia(1);
+    await fs.rm(path.join(testDir.dir, CHECKPOINT_FILE_NAME));
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 5, checkpointKey: key });
+
+    expect((await reaberto.verifyChain()).valid).toBe(true);
+    const externo = await reaberto.verifyCheckpoints(bundle.checkpoints);
+    expect(externo.valid).toBe(false);
+    expect(externo.failures).toHaveLength(4);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 32 - GET /admin/tenants/:id/audit/witness', () => {
+  const TEST_PEPPER = 'test-pepper-inc32-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc32-' + Date.now();
+  let app: FastifyInstance;
+  let baseDir: string;
+  let keyId: string;
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+
+    const pair = generateKeyPair();
+    keyId = pair.keyId;
+    process.env[ENV_PRIVATE_KEY] = pair.privateKey;
+    process.env[ENV_KEY_ID] = pair.keyId;
+
+    baseDir = await fs.mkdtemp(path.join(require('os').tmpdir(), 'libervia-inc32-gw-'));
+    const config: GatewayConfig = {
+      baseDir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({
+      method: 'POST',
+      url: '/admin/tenants',
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      payload: { id: 'acme', name: 'Acme' }
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    delete process.env[ENV_PRIVATE_KEY];
+    delete process.env[ENV_KEY_ID];
+    clearPepperCache();
+  });
+
+  test('retorna o pacote com a chave do ambiente', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/acme/audit/witness',
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` }
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.version).toBe(1);
+    expect(body.public_keys.map((k: any) => k.keyId)).toContain(keyId);
+    expect(Array.isArray(body.checkpoints)).toBe(true);
+  });
+
+  test('exige autenticação', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/acme/audit/witness'
+    });
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * TESTES - Incremento 33: Provas de inclusão (Merkle) do EventLog
+ *
+ * Testa:
+ * - Raiz de Merkle e caminho para árvores de tamanhos variados
+ * - Raiz gravada na rotação, recalculada se ausente, removida no prune
+ * - getInclusionProof() para segmento fechado e aberto
+ * - Verificação offline (núcleo e SDK) e detecção de adulteração
+ * - GET /admin/tenants/:id/audit/merkle-roots e /audit/proof/:eventId
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FastifyInstance } from 'fastify';
+
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { TipoEvento, TipoEntidade } from '../camada-3/event-log/EventLogEntry';
+import {
+  merkleLeafHash,
+  merkleNodeHash,
+  computeMerkleRoot,
+  buildMerklePath,
+  rootFromPath,
+  verifyInclusionProof
+} from '../camada-3/event-log/EventLogMerkle';
+import { computeEventHash } from '../camada-3/utilitarios/HashUtil';
+import { PerfilRisco } from '../camada-3/entidades/tipos';
+import { verifyInclusionProof as sdkVerifyInclusionProof } from '../sdk/src/merkle';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// SETUP
+// ════════════════════════════════════════════════════════════════════════════
+
+let testDir: TestDataDir;
+
+beforeEach(async () => {
+  testDir = await createTestDataDir('inc33');
+});
+
+afterEach(async () => {
+  await testDir.cleanup();
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * 12 eventos em 3 segmentos (5 + 5 + 2); o segmento 3 fica aberto.
+ */
+async function criarLog(config: { retentionSegments?: number } = {}): Promise<EventLogRepositoryImpl> {
+  const eventLog = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 5, ...config });
+  for (let i = 0; i < 12; i++) {
+    await eventLog.append(
+      'Libervia',
+      i === 7 ? TipoEvento.CONTRATO_EMITIDO : TipoEvento.SITUACAO_CRIADA,
+      TipoEntidade.SITUACAO,
+      `sit-${i}`,
+      { i }
+    );
+  }
+  return eventLog;
+}
+
+function merklePath(segNum: number): string {
+  return path.join(testDir.dir, 'event-log-merkle', `segment-${String(segNum).padStart(6, '0')}.merkle.json`);
+}
+
+function segmentPath(segNum: number): string {
+  return path.join(testDir.dir, 'event-log', `segment-${String(segNum).padStart(6, '0')}.json`);
+}
+
+function folhas(n: number): string[] {
+  return Array.from({ length: n }, (_, i) => merkleLeafHash(`hash-${i}`));
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: ÁRVORE
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 33 - Árvore de Merkle', () => {
+  test('raiz de 1, 2 e 3 folhas', () => {
+    const [a, b, c] = folhas(3);
+
+    expect(computeMerkleRoot([a])).toBe(a);
+    expect(computeMerkleRoot([a, b])).toBe(merkleNodeHash(a, b));
+    expect(computeMerkleRoot([a, b, c])).toBe(merkleNodeHash(merkleNodeHash(a, b), c));
+  });
+
+  test('folha e nó interno têm hashes distintos', () => {
+    expect(merkleLeafHash('x')).not.toBe(merkleNodeHash('x', ''));
+  });
+
+  test('caminho leva à raiz para toda posição (1 a 17 folhas)', () => {
+    for (let n = 1; n <= 17; n++) {
+      const leaves = folhas(n);
+      const root = computeMerkleRoot(leaves);
+      for (let i = 0; i < n; i++) {
+        expect(rootFromPath(leaves[i], buildMerklePath(leaves, i))).toBe(root);
+      }
+    }
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: RAÍZES DOS SEGMENTOS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 33 - Raízes dos segmentos', () => {
+  test('rotação grava a raiz do segmento fechado fora de event-log/', async () => {
+    const eventLog = await criarLog();
+
+    const raw = JSON.parse(await fs.readFile(merklePath(1), 'utf-8'));
+    const segmento1 = JSON.parse(await fs.readFile(segmentPath(1), 'utf-8'));
+    expect(raw).toMatchObject({
+      version: 1,
+      segment: 1,
+      count: 5,
+      first_event_id: segmento1[0].id,
+      last_event_id: segmento1[4].id
+    });
+    expect(raw.root).toBe(computeMerkleRoot(segmento1.map((e: any) => merkleLeafHash(e.current_hash))));
+
+    const arquivos = await fs.readdir(path.join(testDir.dir, 'event-log'));
+    expect(arquivos.sort()).toEqual(['segment-000001.json', 'segment-000002.json', 'segment-000003.json']);
+
+    const roots = await eventLog.listSegmentRoots();
+    expect(roots.map(r => r.segment)).toEqual([1, 2]);
+  });
+
+  test('segmento aberto e inexistente não têm raiz publicada', async () => {
+    const eventLog = await criarLog();
+
+    expect(await eventLog.getSegmentRoot(3)).toBeNull();
+    expect(await eventLog.getSegmentRoot(99)).toBeNull();
+    expect((await eventLog.getSegmentRoot(2))!.count).toBe(5);
+  });
+
+  test('raiz ausente é recalculada e gravada', async () => {
+    const eventLog = await criarLog();
+    const original = await eventLog.getSegmentRoot(2);
+    await fs.rm(path.join(testDir.dir, 'event-log-merkle'), { recursive: true });
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 5 });
+    const recalculada = await reaberto.getSegmentRoot(2);
+
+    expect(recalculada!.root).toBe(original!.root);
+    await expect(fs.access(merklePath(2))).resolves.toBeUndefined();
+  });
+
+  test('prune remove as raízes dos segmentos removidos', async () => {
+    const eventLog = await criarLog({ retentionSegments: 2 });
+    await eventLog.prune();
+
+    await expect(fs.access(merklePath(1))).rejects.toThrow();
+    expect((await eventLog.listSegmentRoots()).map(r => r.segment)).toEqual([2]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: PROVAS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 33 - Provas de inclusão', () => {
+  test('evento de segmento fechado: prova contra a raiz publicada', async () => {
+    const eventLog = await criarLog();
+    const [contrato] = await eventLog.getByEvento(TipoEvento.CONTRATO_EMITIDO);
+
+    const proof = await eventLog.getInclusionProof(contrato.id);
+    const published = await eventLog.getSegmentRoot(2);
+
+    expect(proof).toMatchObject({ segment: 2, index: 2, leaf_count: 5, sealed: true });
+    expect(proof!.event.evento).toBe(TipoEvento.CONTRATO_EMITIDO);
+    expect(proof!.root).toBe(published!.root);
+    expect(verifyInclusionProof(proof!, published!.root)).toEqual({ valid: true });
+  });
+
+  test('evento do segmento aberto: sealed false, prova consistente', async () => {
+    const eventLog = await criarLog();
+    const last = await eventLog.getLastEntry();
+
+    const proof = await eventLog.getInclusionProof(last!.id);
+    expect(proof).toMatchObject({ segment: 3, index: 1, leaf_count: 2, sealed: false });
+    expect(verifyInclusionProof(proof!)).toEqual({ valid: true });
+  });
+
+  test('evento inexistente retorna null', async () => {
+    const eventLog = await criarLog();
+    expect(await eventLog.getInclusionProof('evt-inexistente')).toBeNull();
+  });
+
+  test('prova adulterada é rejeitada', async () => {
+    const eventLog = await criarLog();
+    const [contrato] = await eventLog.getByEvento(TipoEvento.CONTRATO_EMITIDO);
+    const proof = (await eventLog.getInclusionProof(contrato.id))!;
+    const root = proof.root;
+
+    const outroEvento = JSON.parse(JSON.stringify(proof));
+    outroEvento.event.evento = TipoEvento.SITUACAO_CRIADA;
+    expect(verifyInclusionProof(outroEvento).reason).toBe('Event hash mismatch');
+
+    const outroCaminho = JSON.parse(JSON.stringify(proof));
+    outroCaminho.path[0].hash = 'f'.repeat(64);
+    expect(verifyInclusionProof(outroCaminho).reason).toBe('Path does not lead to root');
+
+    expect(verifyInclusionProof(proof, 'f'.repeat(64)).reason).toBe('Root does not match published root');
+    expect(verifyInclusionProof(proof, root).valid).toBe(true);
+  });
+
+  test('segmento reescrito após a publicação não gera prova válida', async () => {
+    await criarLog();
+    const segmento = JSON.parse(await fs.readFile(segmentPath(1), 'utf-8'));
+    const alvo = segmento[3];
+    alvo.payload_hash = 'adulterado';
+    alvo.current_hash = computeEventHash(
+      alvo.previous_hash,
+      new Date(alvo.timestamp),
+      alvo.actor,
+      alvo.evento,
+      alvo.entidade,
+      alvo.entidade_id,
+      alvo.payload_hash
+    );
+    await fs.writeFile(segmentPath(1), JSON.stringify(segmento, null, 2), 'utf-8');
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 5 });
+    const proof = await reaberto.getInclusionProof(alvo.id);
+
+    expect(verifyInclusionProof(proof!)).toEqual({ valid: false, reason: 'Path does not lead to root' });
+  });
+
+  test('verificador do SDK concorda com o do núcleo', async () => {
+    const eventLog = await criarLog();
+    const all = await eventLog.getAll();
+
+    for (const entry of all) {
+      const proof = JSON.parse(JSON.stringify(await eventLog.getInclusionProof(entry.id)));
+      expect(sdkVerifyInclusionProof(proof, proof.root)).toEqual(verifyInclusionProof(proof, proof.root));
+      expect(sdkVerifyInclusionProof(proof).valid).toBe(true);
+    }
+
+    const proof = JSON.parse(JSON.stringify(await eventLog.getInclusionProof(all[0].id)));
+    proof.event.actor = 'outro';
+    expect(sdkVerifyInclusionProof(proof)).toEqual({ valid: false, reason: 'Event hash mismatch' });
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 33 - Rotas de prova', () => {
+  const TEST_PEPPER = 'test-pepper-inc33-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc33-' + Date.now();
+  let app: FastifyInstance;
+  let baseDir: string;
+  let eventId: string;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    baseDir = await fs.mkdtemp(path.join(require('os').tmpdir(), 'libervia-inc33-gw-'));
+
+    const config: GatewayConfig = {
+      baseDir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const keyResponse = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    const publicToken = JSON.parse(keyResponse.body).token;
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes',
+      headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` },
+      payload: {
+        situacao: {
+          dominio: 'financeiro',
+          contexto: 'Contexto',
+          objetivo: 'Objetivo',
+          incertezas: ['Incerteza'],
+          alternativas: [
+            { descricao: 'A', riscos_associados: ['r1'] },
+            { descricao: 'B', riscos_associados: ['r2'] }
+          ],
+          riscos: [{ descricao: 'Risco', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+          urgencia: 'Média',
+          capacidade_absorcao: 'Alta',
+          consequencia_relevante: 'Consequência',
+          possibilidade_aprendizado: true,
+          caso_uso_declarado: 1
+        },
+        protocolo: {
+          criterios_minimos: ['Critério'],
+          riscos_considerados: ['Risco'],
+          limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10' }],
+          perfil_risco: PerfilRisco.MODERADO,
+          alternativas_avaliadas: ['A', 'B'],
+          alternativa_escolhida: 'A'
+        }
+      }
+    });
+
+    const events = await app.inject({ method: 'GET', url: '/admin/tenants/acme/events', headers: admin });
+    const contrato = JSON.parse(events.body).events.find((e: any) => e.evento === TipoEvento.CONTRATO_EMITIDO);
+    eventId = contrato.id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('GET /audit/proof/:eventId retorna prova verificável', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/admin/tenants/acme/audit/proof/${eventId}`,
+      headers: admin
+    });
+
+    expect(response.statusCode).toBe(200);
+    const proof = JSON.parse(response.body);
+    expect(proof.event.id).toBe(eventId);
+    expect(proof.sealed).toBe(false);
+    expect(sdkVerifyInclusionProof(proof)).toEqual({ valid: true });
+  });
+
+  test('evento inexistente retorna 404', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/acme/audit/proof/evt-inexistente',
+      headers: admin
+    });
+    expect(response.statusCode).toBe(404);
+  });
+
+  test('GET /audit/merkle-roots lista raízes dos segmentos fechados', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/acme/audit/merkle-roots',
+      headers: admin
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ roots: [], count: 0 });
+  });
+});
@@ -0,0 +1,465 @@
+/**
+ * TESTES - Incremento 34: Envelopes de payload versionados no EventLog
+ *
+ * Testa:
+ * - Envelope gravado para tipos com esquema, ausente para os demais
+ * - current_hash inalterado e cadeia válida com envelopes
+ * - Decodificação por versão (upcast) e versão desconhecida
+ * - exportRange() com payloads e replay() com porVersao
+ * - Detecção de envelope adulterado no replay
+ * - Envelopes do orquestrador e das consequências de autonomia (ruleId)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { EventLogEntry, TipoEvento, TipoEntidade } from '../camada-3/event-log/EventLogEntry';
+import {
+  EnvelopeSchemas,
+  ENVELOPE_SCHEMAS,
+  encodeEventPayload,
+  decodeEventPayload
+} from '../camada-3/event-log/EventLogEnvelope';
+import { computeEventHash, computePayloadHash } from '../camada-3/utilitarios/HashUtil';
+import { SituacaoRepositoryImpl } from '../camada-3/repositorios/implementacao/SituacaoRepositoryImpl';
+import { EpisodioRepositoryImpl } from '../camada-3/repositorios/implementacao/EpisodioRepositoryImpl';
+import { DecisaoRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisaoRepositoryImpl';
+import { ContratoRepositoryImpl } from '../camada-3/repositorios/implementacao/ContratoRepositoryImpl';
+import { DecisionProtocolRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisionProtocolRepositoryImpl';
+import { MemoryQueryService } from '../camada-3/servicos/MemoryQueryService';
+import { OrquestradorCognitivo } from '../camada-3/orquestrador/OrquestradorCognitivo';
+import { AutonomyMandateRepositoryImpl } from '../camada-3/autonomy/AutonomyMandateRepositoryImpl';
+import {
+  AutonomyConsequenceService,
+  ConsequenceRuleId,
+  AutonomyMandate,
+  AutonomyMode,
+  AggregationPolicy
+} from '../camada-3';
+import {
+  SituacaoDecisoria,
+  StatusSituacao,
+  EstadoEpisodio,
+  PerfilRisco
+} from '../camada-3/entidades/tipos';
+import { ObservacaoDeConsequencia, SinalImpacto } from '../camada-3/entidades/ObservacaoDeConsequencia';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// SETUP
+// ════════════════════════════════════════════════════════════════════════════
+
+let testDir: TestDataDir;
+
+beforeEach(async () => {
+  testDir = await createTestDataDir('inc34');
+});
+
+afterEach(async () => {
+  await testDir.cleanup();
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+function segmentPath(segNum: number): string {
+  return path.join(testDir.dir, 'event-log', `segment-${String(segNum).padStart(6, '0')}.json`);
+}
+
+async function lerSegmento(segNum: number): Promise<any[]> {
+  return JSON.parse(await fs.readFile(segmentPath(segNum), 'utf-8'));
+}
+
+async function gravarSegmento(segNum: number, entries: any[]): Promise<void> {
+  await fs.writeFile(segmentPath(segNum), JSON.stringify(entries, null, 2), 'utf-8');
+}
+
+async function appendStatus(eventLog: EventLogRepositoryImpl, id: string, anterior: string, novo: string) {
+  return eventLog.append(
+    'Libervia',
+    TipoEvento.SITUACAO_STATUS_ALTERADO,
+    TipoEntidade.SITUACAO,
+    id,
+    { status_anterior: anterior, status_novo: novo }
+  );
+}
+
+function entradaComEnvelope(evento: string, data: Record<string, unknown>, v: number): EventLogEntry {
+  return {
+    id: 'evt-inc34',
+    timestamp: new Date(),
+    actor: 'Libervia',
+    evento,
+    entidade: TipoEntidade.SITUACAO,
+    entidade_id: 'sit-1',
+    payload_hash: computePayloadHash(data),
+    previous_hash: null,
+    current_hash: 'x',
+    envelope: { v, data }
+  };
+}
+
+/**
+ * Esquema v2 de SITUACAO_STATUS_ALTERADO: status_anterior/status_novo
+ * passam a se chamar de/para.
+ */
+const SCHEMAS_V2: EnvelopeSchemas = {
+  [TipoEvento.SITUACAO_STATUS_ALTERADO]: {
+    current: 2,
+    fields: {
+      1: ['status_anterior', 'status_novo'],
+      2: ['de', 'para']
+    },
+    upcast: {
+      1: data => ({ de: data.status_anterior, para: data.status_novo })
+    }
+  }
+};
+
+function createValidSituacao(id: string): SituacaoDecisoria {
+  return {
+    id,
+    dominio: 'teste',
+    contexto: 'Contexto de teste',
+    objetivo: 'Objetivo de teste',
+    incertezas: ['Incerteza 1'],
+    alternativas: [
+      { descricao: 'Alternativa A', riscos_associados: ['risco-1'] },
+      { descricao: 'Alternativa B', riscos_associados: ['risco-2'] }
+    ],
+    riscos: [{ descricao: 'Risco identificado', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Consequência significativa',
+    possibilidade_aprendizado: true,
+    caso_uso_declarado: 1,
+    status: StatusSituacao.RASCUNHO,
+    data_criacao: new Date(),
+    anexos_analise: []
+  };
+}
+
+function createTestMandate(): AutonomyMandate {
+  return {
+    id: 'mandate-inc34',
+    agentId: 'agent-inc34',
+    modo: AutonomyMode.VIVENCIA_ASSISTIDA,
+    politicas_permitidas: ['FIRST_VALID'] as AggregationPolicy[],
+    perfil_risco_maximo: PerfilRisco.MODERADO,
+    concedido_por: 'test-human',
+    concedido_em: new Date(),
+    limites: [{ tipo: 'limite', descricao: 'Limite de teste', valor: '100' }],
+    requer_humano_se: [],
+    revogado: false,
+    status: 'active',
+    uses: 0
+  };
+}
+
+function createTestObservacao(): ObservacaoDeConsequencia {
+  return {
+    id: 'obs-inc34',
+    contrato_id: 'contrato-1',
+    episodio_id: 'episodio-1',
+    observada: {
+      descricao: 'Limite excedido',
+      limites_respeitados: false,
+      condicoes_cumpridas: true
+    },
+    percebida: {
+      descricao: 'Impacto negativo',
+      sinal: SinalImpacto.NEGATIVO
+    },
+    evidencias_minimas: ['evidencia-1'],
+    registrado_por: 'test',
+    data_registro: new Date()
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: CODIFICAÇÃO E DECODIFICAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 34 - encodeEventPayload / decodeEventPayload', () => {
+  test('tipo com esquema e campos da versão atual recebe envelope v1', () => {
+    const envelope = encodeEventPayload(TipoEvento.EPISODIO_ESTADO_ALTERADO, {
+      estado_anterior: EstadoEpisodio.CRIADO,
+      estado_novo: EstadoEpisodio.DECIDIDO
+    });
+
+    expect(envelope).toEqual({
+      v: 1,
+      data: { estado_anterior: EstadoEpisodio.CRIADO, estado_novo: EstadoEpisodio.DECIDIDO }
+    });
+  });
+
+  test('tipo sem esquema, payload incompleto ou não-objeto não recebe envelope', () => {
+    expect(encodeEventPayload(TipoEvento.SITUACAO_CRIADA, { id: 'sit-1' })).toBeUndefined();
+    expect(encodeEventPayload(TipoEvento.EPISODIO_ESTADO_ALTERADO, { estado_novo: 'DECIDIDO' })).toBeUndefined();
+    expect(encodeEventPayload(TipoEvento.EPISODIO_ESTADO_ALTERADO, null)).toBeUndefined();
+    expect(encodeEventPayload(TipoEvento.EPISODIO_ESTADO_ALTERADO, ['a'])).toBeUndefined();
+  });
+
+  test('envelope guarda a forma serializada do payload', () => {
+    const at = new Date('2026-10-19T12:00:00.000Z');
+    const envelope = encodeEventPayload(TipoEvento.AUTONOMY_HUMAN_REVIEW_FLAGGED, {
+      observacaoId: 'obs-1',
+      reason: 'Revisão',
+      flaggedAt: at,
+      ruleId: null,
+      mandateId: undefined
+    });
+
+    expect(envelope!.data).toEqual({ observacaoId: 'obs-1', reason: 'Revisão', flaggedAt: at.toISOString(), ruleId: null });
+    expect('mandateId' in envelope!.data).toBe(false);
+  });
+
+  test('todos os esquemas declaram os campos da versão atual', () => {
+    for (const schema of Object.values(ENVELOPE_SCHEMAS)) {
+      expect(schema!.fields[schema!.current]).toBeDefined();
+    }
+  });
+
+  test('decodifica versão anterior pela cadeia de upcast', () => {
+    const entry = entradaComEnvelope(
+      TipoEvento.SITUACAO_STATUS_ALTERADO,
+      { status_anterior: 'ABERTA', status_novo: 'ACEITA' },
+      1
+    );
+
+    const decoded = decodeEventPayload(entry, SCHEMAS_V2);
+
+    expect(decoded).toEqual({
+      evento: TipoEvento.SITUACAO_STATUS_ALTERADO,
+      version: 1,
+      data: { de: 'ABERTA', para: 'ACEITA' },
+      verified: true
+    });
+  });
+
+  test('versão desconhecida ou sem upcast: data null', () => {
+    const entry = entradaComEnvelope(TipoEvento.SITUACAO_STATUS_ALTERADO, { de: 'ABERTA', para: 'ACEITA' }, 2);
+
+    // v2 gravado por uma versão mais nova do código
+    expect(decodeEventPayload(entry)!.data).toBeNull();
+
+    // v1 sem upcast declarado para a v2
+    const semUpcast: EnvelopeSchemas = {
+      [TipoEvento.SITUACAO_STATUS_ALTERADO]: { ...SCHEMAS_V2[TipoEvento.SITUACAO_STATUS_ALTERADO]!, upcast: {} }
+    };
+    expect(decodeEventPayload({ ...entry, envelope: { v: 1, data: entry.envelope!.data } }, semUpcast)!.data).toBeNull();
+  });
+
+  test('evento sem envelope decodifica como null', () => {
+    const { envelope: _envelope, ...entry } = entradaComEnvelope(TipoEvento.SITUACAO_CRIADA, { id: 'sit-1' }, 1);
+    expect(decodeEventPayload(entry)).toBeNull();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GRAVAÇÃO NO EVENTLOG
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 34 - Envelopes no EventLog', () => {
+  test('append grava envelope apenas para tipos com esquema', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+
+    const criado = await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, 'sit-1', { id: 'sit-1' });
+    const alterado = await appendStatus(eventLog, 'sit-1', 'RASCUNHO', 'ABERTA');
+
+    expect(criado.envelope).toBeUndefined();
+    expect(alterado.envelope).toEqual({ v: 1, data: { status_anterior: 'RASCUNHO', status_novo: 'ABERTA' } });
+
+    const segmento = await lerSegmento(1);
+    expect('envelope' in segmento[0]).toBe(false);
+    expect(segmento[1].envelope).toEqual(alterado.envelope);
+  });
+
+  test('current_hash não inclui o envelope e a cadeia continua válida', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    const entry = await appendStatus(eventLog, 'sit-1', 'RASCUNHO', 'ABERTA');
+
+    const esperado = computeEventHash(
+      entry.previous_hash,
+      entry.timestamp,
+      entry.actor,
+      entry.evento,
+      entry.entidade,
+      entry.entidade_id,
+      entry.payload_hash
+    );
+    expect(entry.current_hash).toBe(esperado);
+    expect(computePayloadHash(entry.envelope!.data)).toBe(entry.payload_hash);
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir);
+    expect((await reaberto.verifyChain()).valid).toBe(true);
+  });
+
+  test('eventos antigos sem envelope convivem com os novos', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    await appendStatus(eventLog, 'sit-1', 'RASCUNHO', 'ABERTA');
+    await appendStatus(eventLog, 'sit-1', 'ABERTA', 'ACEITA');
+
+    // Simula log gravado antes do Inc 34
+    const segmento = await lerSegmento(1);
+    delete segmento[0].envelope;
+    await gravarSegmento(1, segmento);
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir);
+    await appendStatus(reaberto, 'sit-1', 'ACEITA', 'EM_ANALISE');
+
+    expect((await reaberto.verifyChain()).valid).toBe(true);
+
+    const replay = await reaberto.replay();
+    expect(replay.totalEventos).toBe(3);
+    expect(replay.porVersao).toEqual({ [`${TipoEvento.SITUACAO_STATUS_ALTERADO}@v1`]: 2 });
+    expect(replay.inconsistencias).toHaveLength(0);
+  });
+
+  test('exportRange retorna payloads decodificados por id', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 2 });
+    await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, 'sit-1', { id: 'sit-1' });
+    const a = await appendStatus(eventLog, 'sit-1', 'RASCUNHO', 'ABERTA');
+    const b = await appendStatus(eventLog, 'sit-1', 'ABERTA', 'ACEITA');
+
+    const exportado = await eventLog.exportRange();
+
+    expect(exportado.entries).toHaveLength(3);
+    expect(Object.keys(exportado.payloads).sort()).toEqual([a.id, b.id].sort());
+    expect(exportado.payloads[b.id]).toEqual({
+      evento: TipoEvento.SITUACAO_STATUS_ALTERADO,
+      version: 1,
+      data: { status_anterior: 'ABERTA', status_novo: 'ACEITA' },
+      verified: true
+    });
+  });
+
+  test('replay detecta envelope adulterado e versão desconhecida', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    const a = await appendStatus(eventLog, 'sit-1', 'RASCUNHO', 'ABERTA');
+    const b = await appendStatus(eventLog, 'sit-1', 'ABERTA', 'ACEITA');
+
+    const segmento = await lerSegmento(1);
+    segmento[0].envelope.data.status_novo = 'DECIDIDA';
+    segmento[1].envelope.v = 9;
+    await gravarSegmento(1, segmento);
+
+    const reaberto = await EventLogRepositoryImpl.create(testDir.dir);
+
+    // Cadeia intacta: o envelope fica fora do hash
+    expect((await reaberto.verifyChain()).valid).toBe(true);
+
+    const replay = await reaberto.replay();
+    expect(replay.inconsistencias).toEqual([
+      { index: 0, id: a.id, reason: 'Envelope does not match payload_hash' },
+      { index: 1, id: b.id, reason: 'Unknown envelope version 9' }
+    ]);
+    expect(replay.porVersao).toEqual({
+      [`${TipoEvento.SITUACAO_STATUS_ALTERADO}@v1`]: 1,
+      [`${TipoEvento.SITUACAO_STATUS_ALTERADO}@v9`]: 1
+    });
+
+    const exportado = await reaberto.exportRange();
+    expect(exportado.payloads[a.id].verified).toBe(false);
+    expect(exportado.payloads[b.id].data).toBeNull();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: PRODUTORES DE EVENTOS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 34 - Envelopes dos produtores', () => {
+  test('fluxo do orquestrador grava o novo estado do episódio', async () => {
+    const dir = testDir.dir;
+    const situacaoRepo = await SituacaoRepositoryImpl.create(dir);
+    const episodioRepo = await EpisodioRepositoryImpl.create(dir);
+    const decisaoRepo = await DecisaoRepositoryImpl.create(dir);
+    const contratoRepo = await ContratoRepositoryImpl.create(dir);
+    const protocoloRepo = await DecisionProtocolRepositoryImpl.create(dir);
+    const eventLog = await EventLogRepositoryImpl.create(dir);
+
+    const orq = new OrquestradorCognitivo(
+      situacaoRepo,
+      episodioRepo,
+      decisaoRepo,
+      contratoRepo,
+      new MemoryQueryService(episodioRepo, decisaoRepo, contratoRepo),
+      protocoloRepo,
+      eventLog
+    );
+    await orq.init();
+
+    const limite = { tipo: 'Financeiro', descricao: 'Max 10k', valor: '10000' };
+    const episodio = await orq.ProcessarSolicitacao(createValidSituacao('sit-inc34'));
+    await orq.ConstruirProtocoloDeDecisao(episodio.id, {
+      criterios_minimos: ['Critério 1'],
+      riscos_considerados: ['Risco 1'],
+      limites_definidos: [limite],
+      perfil_risco: PerfilRisco.MODERADO,
+      alternativas_avaliadas: ['Alternativa A', 'Alternativa B'],
+      alternativa_escolhida: 'Alternativa A'
+    });
+    await orq.RegistrarDecisao(episodio.id, {
+      alternativa_escolhida: 'Alternativa A',
+      criterios: ['Critério 1'],
+      limites: [limite],
+      condicoes: ['Condição 1'],
+      perfil_risco: PerfilRisco.MODERADO
+    });
+
+    const { entries, payloads } = await orq.ExportEventLogForAudit();
+    const estado = entries.find(e => e.evento === TipoEvento.EPISODIO_ESTADO_ALTERADO)!;
+
+    expect(payloads[estado.id].data).toEqual({
+      estado_anterior: EstadoEpisodio.CRIADO,
+      estado_novo: EstadoEpisodio.DECIDIDO
+    });
+    expect(payloads[estado.id].verified).toBe(true);
+
+    const replay = await orq.ReplayEventLog();
+    expect(replay.porVersao[`${TipoEvento.SITUACAO_STATUS_ALTERADO}@v1`]).toBeGreaterThan(0);
+    expect(replay.inconsistencias).toHaveLength(0);
+  });
+
+  test('suspensão por consequência grava a regra que disparou', async () => {
+    const mandateRepo = new AutonomyMandateRepositoryImpl(path.join(testDir.dir, 'mandates.json'));
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    const service = new AutonomyConsequenceService({ mandateRepo, eventLog });
+
+    const mandate = createTestMandate();
+    await mandateRepo.create(mandate);
+
+    const result = await service.processConsequence(
+      { observacao: createTestObservacao(), triggers: { violou_limites: true } },
+      mandate.agentId
+    );
+    expect(result.applied).toBe(true);
+
+    const { entries, payloads } = await eventLog.exportRange();
+    const suspensao = entries.find(e => e.evento === TipoEvento.AUTONOMY_SUSPENDED)!;
+
+    expect(payloads[suspensao.id].data).toMatchObject({
+      mandateId: mandate.id,
+      agentId: mandate.agentId,
+      observacaoId: 'obs-inc34',
+      ruleId: ConsequenceRuleId.VIOLACAO_LIMITES_SUSPEND
+    });
+  });
+
+  test('suspensão manual grava ruleId null', async () => {
+    const mandateRepo = new AutonomyMandateRepositoryImpl(path.join(testDir.dir, 'mandates.json'));
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    const service = new AutonomyConsequenceService({ mandateRepo, eventLog });
+
+    const mandate = createTestMandate();
+    await mandateRepo.create(mandate);
+    await service.suspendMandate(mandate.id, 'Manual', 'obs-manual');
+
+    const [suspensao] = (await eventLog.exportRange()).entries;
+    expect(suspensao.envelope!.data.ruleId).toBeNull();
+  });
+});
@@ -0,0 +1,511 @@
+/**
+ * TESTES - Incremento 35: Projeção de estado a partir do EventLog
+ *
+ * Testa:
+ * - Projeção consistente após o fluxo do orquestrador
+ * - Divergências: campo alterado, registro removido, registro sem evento
+ * - Coleção ilegível (JSON corrompido) e reconstrução
+ * - Mandatos (suspensão/retomada) e casos de revisão (snapshot)
+ * - Eventos sem envelope (anteriores ao Inc 34) ficam em skipped
+ * - Reconstrução em dry-run
+ * - Verificação após RestaurarBackup() efetivo
+ * - Rota GET /admin/tenants/:id/audit/projection
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FastifyInstance } from 'fastify';
+
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { TipoEvento, TipoEntidade } from '../camada-3/event-log/EventLogEntry';
+import { JsonFileDriver } from '../camada-3/storage/JsonFileDriver';
+import { STORAGE_COLLECTIONS } from '../camada-3/storage/StorageCollections';
+import { SituacaoRepositoryImpl } from '../camada-3/repositorios/implementacao/SituacaoRepositoryImpl';
+import { EpisodioRepositoryImpl } from '../camada-3/repositorios/implementacao/EpisodioRepositoryImpl';
+import { DecisaoRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisaoRepositoryImpl';
+import { ContratoRepositoryImpl } from '../camada-3/repositorios/implementacao/ContratoRepositoryImpl';
+import { DecisionProtocolRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisionProtocolRepositoryImpl';
+import { MemoryQueryService } from '../camada-3/servicos/MemoryQueryService';
+import { OrquestradorCognitivo } from '../camada-3/orquestrador/OrquestradorCognitivo';
+import { AutonomyMandateRepositoryImpl } from '../camada-3/autonomy/AutonomyMandateRepositoryImpl';
+import { ReviewCaseRepositoryImpl } from '../camada-3/review/ReviewCaseRepositoryImpl';
+import { ReviewCaseService } from '../camada-3/review/ReviewCaseService';
+import {
+  AutonomyConsequenceService,
+  AutonomyMandate,
+  AutonomyMode,
+  AggregationPolicy,
+  ConsequenceAction,
+  verifyProjection,
+  rebuildFromEventLog,
+  projectEventLog
+} from '../camada-3';
+import { SituacaoDecisoria, StatusSituacao, EstadoEpisodio, PerfilRisco } from '../camada-3/entidades/tipos';
+import { BACKUP_PEPPER_ENV_KEY } from '../camada-3/backup';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// SETUP
+// ════════════════════════════════════════════════════════════════════════════
+
+let testDir: TestDataDir;
+
+beforeEach(async () => {
+  testDir = await createTestDataDir('inc35');
+});
+
+afterEach(async () => {
+  await testDir.cleanup();
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+interface Ambiente {
+  dir: string;
+  storage: JsonFileDriver;
+  eventLog: EventLogRepositoryImpl;
+  mandateRepo: AutonomyMandateRepositoryImpl;
+  reviewRepo: ReviewCaseRepositoryImpl;
+  orq: OrquestradorCognitivo;
+}
+
+async function criarAmbiente(dir: string): Promise<Ambiente> {
+  const storage = new JsonFileDriver(dir);
+  const situacaoRepo = await SituacaoRepositoryImpl.create(dir, storage);
+  const episodioRepo = await EpisodioRepositoryImpl.create(dir, storage);
+  const decisaoRepo = await DecisaoRepositoryImpl.create(dir, storage);
+  const contratoRepo = await ContratoRepositoryImpl.create(dir, storage);
+  const protocoloRepo = await DecisionProtocolRepositoryImpl.create(dir, storage);
+  const eventLog = await EventLogRepositoryImpl.create(dir);
+  const mandateRepo = new AutonomyMandateRepositoryImpl(path.join(dir, 'autonomy_mandates.json'), storage);
+  const reviewRepo = new ReviewCaseRepositoryImpl(path.join(dir, 'review_cases.json'), storage);
+
+  const orq = new OrquestradorCognitivo(
+    situacaoRepo,
+    episodioRepo,
+    decisaoRepo,
+    contratoRepo,
+    new MemoryQueryService(episodioRepo, decisaoRepo, contratoRepo),
+    protocoloRepo,
+    eventLog,
+    undefined,
+    mandateRepo,
+    reviewRepo
+  );
+  orq.ConfigurarProjecao(storage);
+  await orq.init();
+
+  return { dir, storage, eventLog, mandateRepo, reviewRepo, orq };
+}
+
+function createValidSituacao(id: string): SituacaoDecisoria {
+  return {
+    id,
+    dominio: 'teste',
+    contexto: 'Contexto de teste',
+    objetivo: 'Objetivo de teste',
+    incertezas: ['Incerteza 1'],
+    alternativas: [
+      { descricao: 'Alternativa A', riscos_associados: ['risco-1'] },
+      { descricao: 'Alternativa B', riscos_associados: ['risco-2'] }
+    ],
+    riscos: [{ descricao: 'Risco identificado', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Consequência significativa',
+    possibilidade_aprendizado: true,
+    caso_uso_declarado: 1,
+    status: StatusSituacao.RASCUNHO,
+    data_criacao: new Date(),
+    anexos_analise: []
+  };
+}
+
+async function executarFluxo(orq: OrquestradorCognitivo, situacaoId: string): Promise<string> {
+  const limite = { tipo: 'Financeiro', descricao: 'Max 10k', valor: '10000' };
+  const episodio = await orq.ProcessarSolicitacao(createValidSituacao(situacaoId));
+  await orq.ConstruirProtocoloDeDecisao(episodio.id, {
+    criterios_minimos: ['Critério 1'],
+    riscos_considerados: ['Risco 1'],
+    limites_definidos: [limite],
+    perfil_risco: PerfilRisco.MODERADO,
+    alternativas_avaliadas: ['Alternativa A', 'Alternativa B'],
+    alternativa_escolhida: 'Alternativa A'
+  });
+  await orq.RegistrarDecisao(episodio.id, {
+    alternativa_escolhida: 'Alternativa A',
+    criterios: ['Critério 1'],
+    limites: [limite],
+    condicoes: ['Condição 1'],
+    perfil_risco: PerfilRisco.MODERADO
+  });
+  return episodio.id;
+}
+
+function createTestMandate(id: string): AutonomyMandate {
+  return {
+    id,
+    agentId: `agent-${id}`,
+    modo: AutonomyMode.VIVENCIA_ASSISTIDA,
+    politicas_permitidas: ['FIRST_VALID'] as AggregationPolicy[],
+    perfil_risco_maximo: PerfilRisco.MODERADO,
+    concedido_por: 'test-human',
+    concedido_em: new Date(),
+    limites: [],
+    requer_humano_se: [],
+    revogado: false
+  };
+}
+
+async function lerColecao(dir: string, file: string): Promise<any[]> {
+  return JSON.parse(await fs.readFile(path.join(dir, `${file}.json`), 'utf-8'));
+}
+
+async function gravarColecao(dir: string, file: string, records: unknown[]): Promise<void> {
+  await fs.writeFile(path.join(dir, `${file}.json`), JSON.stringify(records, null, 2), 'utf-8');
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: VERIFICAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 35 - Verificação da projeção', () => {
+  test('fluxo do orquestrador projeta episódio, decisão e contrato consistentes', async () => {
+    const { orq } = await criarAmbiente(testDir.dir);
+    const episodioId = await executarFluxo(orq, 'sit-inc35');
+
+    const report = await orq.VerificarProjecao();
+
+    expect(report.consistent).toBe(true);
+    expect(report.divergences).toEqual([]);
+    expect(report.skipped).toEqual([]);
+    expect(report.eventsApplied).toBeGreaterThan(0);
+
+    const porColecao = Object.fromEntries(report.collections.map(c => [c.collection, c]));
+    expect(porColecao.episodios).toMatchObject({ projected: 1, stored: 1, matched: 1, divergent: 0 });
+    expect(porColecao.decisoes).toMatchObject({ projected: 1, stored: 1, matched: 1 });
+    expect(porColecao.contratos).toMatchObject({ projected: 1, stored: 1, matched: 1 });
+
+    const state = await projectEventLog((orq as any).eventLog);
+    expect(state.collections.episodios.get(episodioId)!.estado).toBe(EstadoEpisodio.DECIDIDO);
+  });
+
+  test('detecta campo alterado, registro removido e registro sem evento', async () => {
+    const { orq, dir } = await criarAmbiente(testDir.dir);
+    const episodioId = await executarFluxo(orq, 'sit-inc35');
+
+    const episodios = await lerColecao(dir, 'episodios');
+    episodios[0].estado = EstadoEpisodio.ENCERRADO;
+    episodios.push({ ...episodios[0], id: 'ep-fantasma' });
+    await gravarColecao(dir, 'episodios', episodios);
+    await gravarColecao(dir, 'contratos', []);
+
+    const report = await orq.VerificarProjecao();
+
+    expect(report.consistent).toBe(false);
+    expect(report.divergences).toEqual(expect.arrayContaining([
+      {
+        collection: 'episodios',
+        id: episodioId,
+        kind: 'FIELD_MISMATCH',
+        field: 'estado',
+        expected: EstadoEpisodio.DECIDIDO,
+        actual: EstadoEpisodio.ENCERRADO
+      },
+      { collection: 'episodios', id: 'ep-fantasma', kind: 'MISSING_IN_EVENTLOG' },
+      expect.objectContaining({ collection: 'contratos', kind: 'MISSING_IN_STORE' })
+    ]));
+  });
+
+  test('coleção com JSON corrompido é reportada como ilegível', async () => {
+    const { orq, dir } = await criarAmbiente(testDir.dir);
+    await executarFluxo(orq, 'sit-inc35');
+
+    await fs.writeFile(path.join(dir, 'decisoes.json'), '[{"id": "corrompido', 'utf-8');
+
+    const report = await orq.VerificarProjecao();
+    const decisoes = report.collections.find(c => c.collection === 'decisoes')!;
+
+    expect(report.consistent).toBe(false);
+    expect(decisoes.storeReadable).toBe(false);
+    expect(decisoes.storeError).toBeDefined();
+  });
+
+  test('eventos sem envelope ficam em skipped e a entidade não é comparada', async () => {
+    const { eventLog, storage } = await criarAmbiente(testDir.dir);
+
+    // Episódio gravado antes do Inc 34: evento sem envelope (payload sem os campos do esquema)
+    await eventLog.append('Libervia', TipoEvento.EPISODIO_CRIADO, TipoEntidade.EPISODIO, 'ep-legado', {
+      id: 'ep-legado'
+    });
+    await storage.collection(STORAGE_COLLECTIONS.episodios).writeAll([{ id: 'ep-legado', estado: 'CRIADO' }]);
+
+    const report = await verifyProjection(eventLog, storage);
+
+    expect(report.skipped).toEqual([
+      expect.objectContaining({ evento: TipoEvento.EPISODIO_CRIADO, entidadeId: 'ep-legado', reason: 'No payload envelope' })
+    ]);
+    expect(report.divergences).toEqual([]);
+    expect(report.consistent).toBe(true);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: MANDATOS E CASOS DE REVISÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 35 - Mandatos e casos de revisão', () => {
+  test('concessão, uso, suspensão, retomada e revogação projetam o estado do mandato', async () => {
+    const { orq, eventLog, mandateRepo } = await criarAmbiente(testDir.dir);
+    const service = new AutonomyConsequenceService({ mandateRepo, eventLog });
+
+    await orq.ConcederMandato(createTestMandate('m-1'));
+    await orq.ConcederMandato(createTestMandate('m-2'));
+    await service.suspendMandate('m-1', 'Suspensão manual', 'obs-1');
+    await service.resumeMandate('m-1', 'admin', 'Revisado');
+    await orq.RevogarMandato('m-2', 'admin', 'Encerrado');
+
+    const report = await orq.VerificarProjecao();
+    expect(report.consistent).toBe(true);
+
+    const state = await projectEventLog(eventLog);
+    expect(state.collections.autonomyMandates.get('m-1')).toMatchObject({ status: 'active', revogado: false });
+    expect(state.collections.autonomyMandates.get('m-2')).toMatchObject({ status: 'revoked', revogado: true });
+  });
+
+  test('casos de revisão são projetados pelo snapshot do evento', async () => {
+    const { orq, eventLog, reviewRepo } = await criarAmbiente(testDir.dir);
+    const reviews = new ReviewCaseService({ reviewRepo, eventLog });
+
+    const { reviewCase } = await reviews.createOrGetOpen({
+      tenantId: 'default',
+      triggeredBy: {
+        observacaoId: 'obs-inc35',
+        ruleId: 'RULE_19_4_LEGAL_ETICA',
+        actionSuggested: ConsequenceAction.FLAG_HUMAN_REVIEW
+      },
+      contextSnapshot: {}
+    });
+    await reviews.updateNotes('default', reviewCase.id, 'Nota inicial', 'admin');
+    await reviews.resolve('default', reviewCase.id, {
+      decidedBy: 'admin',
+      resolution: 'NO_ACTION'
+    });
+
+    const report = await orq.VerificarProjecao();
+    const casos = report.collections.find(c => c.collection === 'reviewCases')!;
+
+    expect(report.consistent).toBe(true);
+    expect(casos).toMatchObject({ projected: 1, stored: 1, matched: 1 });
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: RECONSTRUÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 35 - Reconstrução a partir do EventLog', () => {
+  beforeAll(() => {
+    process.env[BACKUP_PEPPER_ENV_KEY] = 'test-pepper-inc35-backup';
+  });
+
+  afterAll(() => {
+    delete process.env[BACKUP_PEPPER_ENV_KEY];
+  });
+
+  test('regrava coleção corrompida e corrige campos divergentes', async () => {
+    const { orq, dir, eventLog, storage } = await criarAmbiente(testDir.dir);
+    const episodioId = await executarFluxo(orq, 'sit-inc35');
+    const decisoesOriginais = await lerColecao(dir, 'decisoes');
+
+    await fs.writeFile(path.join(dir, 'decisoes.json'), '{corrompido', 'utf-8');
+    const episodios = await lerColecao(dir, 'episodios');
+    episodios[0].estado = EstadoEpisodio.CRIADO;
+    await gravarColecao(dir, 'episodios', episodios);
+
+    const rebuild = await rebuildFromEventLog(eventLog, storage);
+    const porColecao = Object.fromEntries(rebuild.collections.map(c => [c.collection, c]));
+
+    expect(porColecao.decisoes).toMatchObject({ storeReadable: false, restored: 1, written: 1 });
+    expect(porColecao.episodios).toMatchObject({ storeReadable: true, repaired: 1, written: 1 });
+
+    expect(await lerColecao(dir, 'decisoes')).toEqual(decisoesOriginais);
+    const [episodio] = await lerColecao(dir, 'episodios');
+    expect(episodio.id).toBe(episodioId);
+    expect(episodio.estado).toBe(EstadoEpisodio.DECIDIDO);
+
+    expect((await verifyProjection(eventLog, storage)).consistent).toBe(true);
+  });
+
+  test('dry-run calcula o resultado sem gravar', async () => {
+    const { orq, dir, eventLog, storage } = await criarAmbiente(testDir.dir);
+    await executarFluxo(orq, 'sit-inc35');
+    await gravarColecao(dir, 'contratos', []);
+
+    const rebuild = await rebuildFromEventLog(eventLog, storage, { dryRun: true, collections: ['contratos'] });
+
+    expect(rebuild.dryRun).toBe(true);
+    expect(rebuild.collections).toEqual([
+      { collection: 'contratos', storeReadable: true, restored: 1, repaired: 0, kept: 0, written: 1 }
+    ]);
+    expect(await lerColecao(dir, 'contratos')).toEqual([]);
+  });
+
+  test('registros sem projeção são mantidos', async () => {
+    const { orq, dir, eventLog, storage } = await criarAmbiente(testDir.dir);
+    await executarFluxo(orq, 'sit-inc35');
+
+    const episodios = await lerColecao(dir, 'episodios');
+    const fantasma = { ...episodios[0], id: 'ep-fantasma' };
+    await gravarColecao(dir, 'episodios', [...episodios, fantasma]);
+
+    const rebuild = await rebuildFromEventLog(eventLog, storage, { collections: ['episodios'] });
+
+    expect(rebuild.collections[0]).toMatchObject({ kept: 2, repaired: 0, restored: 0 });
+    expect((await lerColecao(dir, 'episodios')).map(e => e.id)).toContain('ep-fantasma');
+  });
+
+  test('RestaurarBackup efetivo inclui a verificação e a reconstrução completa o restore', async () => {
+    const origem = await criarAmbiente(path.join(testDir.dir, 'origem'));
+    await executarFluxo(origem.orq, 'sit-inc35');
+    await origem.orq.ConcederMandato(createTestMandate('m-1'));
+
+    const backupDir = path.join(testDir.dir, 'backups');
+    await origem.orq.ConfigurarBackup(backupDir);
+    const backup = await origem.orq.CriarBackup();
+
+    const destino = await criarAmbiente(path.join(testDir.dir, 'destino'));
+    await destino.orq.ConfigurarBackup(backupDir);
+    const result = await destino.orq.RestaurarBackup(backup.metadata.backupId, { mode: 'effective' });
+
+    // O restore traz EventLog e mandatos, mas não episódios/decisões/contratos
+    expect(result.success).toBe(true);
+    expect(result.projection).toBeDefined();
+    expect(result.projection!.consistent).toBe(false);
+    expect(result.projection!.divergences.filter(d => d.kind === 'MISSING_IN_STORE').map(d => d.collection).sort())
+      .toEqual(['contratos', 'decisoes', 'episodios']);
+
+    await rebuildFromEventLog(destino.eventLog, destino.storage);
+    expect((await verifyProjection(destino.eventLog, destino.storage)).consistent).toBe(true);
+  });
+
+  test('RestaurarBackup em dry-run não inclui verificação', async () => {
+    const { orq, dir } = await criarAmbiente(testDir.dir);
+    await executarFluxo(orq, 'sit-inc35');
+    await orq.ConfigurarBackup(path.join(dir, 'backups'));
+    const backup = await orq.CriarBackup();
+
+    const result = await orq.RestaurarBackup(backup.metadata.backupId, { mode: 'dry-run' });
+    expect(result.projection).toBeUndefined();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 35 - Rota de projeção', () => {
+  const TEST_PEPPER = 'test-pepper-inc35-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc35-' + Date.now();
+  let app: FastifyInstance;
+  let baseDir: string;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    baseDir = await fs.mkdtemp(path.join(require('os').tmpdir(), 'libervia-inc35-gw-'));
+
+    const config: GatewayConfig = {
+      baseDir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const keyResponse = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    const publicToken = JSON.parse(keyResponse.body).token;
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes',
+      headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` },
+      payload: {
+        situacao: {
+          dominio: 'financeiro',
+          contexto: 'Contexto',
+          objetivo: 'Objetivo',
+          incertezas: ['Incerteza'],
+          alternativas: [
+            { descricao: 'A', riscos_associados: ['r1'] },
+            { descricao: 'B', riscos_associados: ['r2'] }
+          ],
+          riscos: [{ descricao: 'Risco', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+          urgencia: 'Média',
+          capacidade_absorcao: 'Alta',
+          consequencia_relevante: 'Consequência',
+          possibilidade_aprendizado: true,
+          caso_uso_declarado: 1
+        },
+        protocolo: {
+          criterios_minimos: ['Critério'],
+          riscos_considerados: ['Risco'],
+          limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10' }],
+          perfil_risco: PerfilRisco.MODERADO,
+          alternativas_avaliadas: ['A', 'B'],
+          alternativa_escolhida: 'A'
+        }
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('GET /audit/projection retorna relatório consistente', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/acme/audit/projection',
+      headers: admin
+    });
+
+    expect(response.statusCode).toBe(200);
+    const report = JSON.parse(response.body);
+    expect(report.consistent).toBe(true);
+    expect(report.collections.find((c: any) => c.collection === 'contratos')).toMatchObject({
+      projected: 1,
+      stored: 1,
+      matched: 1
+    });
+  });
+
+  test('tenant inexistente retorna 404', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/inexistente/audit/projection',
+      headers: admin
+    });
+    expect(response.statusCode).toBe(404);
+  });
+});
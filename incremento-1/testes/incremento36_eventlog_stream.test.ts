@@ -0,0 +1,489 @@
+/**
+ * TESTES - Incremento 36: Assinatura de Eventos em Tempo Real (SSE)
+ *
+ * Testa:
+ * - subscribe()/cursorFor() do EventLogRepositoryImpl
+ * - GET /api/v1/eventos/stream: eventos ao vivo, filtros, retomada, auth, limite,
+ *   cliente lento
+ * - SDK: public.assinarEventos()
+ */
+
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as path from 'path';
+import Fastify, { FastifyInstance } from 'fastify';
+
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { EventLogEntry, TipoEvento, TipoEntidade } from '../camada-3/event-log/EventLogEntry';
+import { PerfilRisco } from '../camada-3/entidades/tipos';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+import { eventStreamRoutes } from '../gateway/routes/eventStreamRoutes';
+import {
+  createLiberviaClient,
+  EventLogEntry as SdkEventLogEntry,
+  BadRequestError,
+  UnauthorizedError
+} from '../sdk/src';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timeout waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+/**
+ * Lê frames SSE de uma resposta fetch ate `count` eventos (comentarios ignorados)
+ */
+async function readEvents(response: Response, count: number): Promise<Array<{ id: string; event: string; data: any }>> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ id: string; event: string; data: any }> = [];
+  let buffer = '';
+
+  while (events.length < count) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      if (block.startsWith(':')) continue;
+
+      const fields: Record<string, string> = {};
+      for (const line of block.split('\n')) {
+        const sep = line.indexOf(': ');
+        fields[line.slice(0, sep)] = line.slice(sep + 2);
+      }
+      events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+    }
+  }
+
+  reader.releaseLock();
+  return events;
+}
+
+const DECISAO_PAYLOAD = {
+  situacao: {
+    dominio: 'financeiro',
+    contexto: 'Contexto',
+    objetivo: 'Objetivo',
+    incertezas: ['Incerteza'],
+    alternativas: [
+      { descricao: 'A', riscos_associados: ['r1'] },
+      { descricao: 'B', riscos_associados: ['r2'] }
+    ],
+    riscos: [{ descricao: 'Risco', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Consequência',
+    possibilidade_aprendizado: true,
+    caso_uso_declarado: 1
+  },
+  protocolo: {
+    criterios_minimos: ['Critério'],
+    riscos_considerados: ['Risco'],
+    limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10' }],
+    perfil_risco: PerfilRisco.MODERADO,
+    alternativas_avaliadas: ['A', 'B'],
+    alternativa_escolhida: 'A'
+  }
+};
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: REPOSITÓRIO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 36 - subscribe() e cursorFor()', () => {
+  let testDir: TestDataDir;
+
+  beforeEach(async () => {
+    testDir = await createTestDataDir('inc36');
+  });
+
+  afterEach(async () => {
+    await testDir.cleanup();
+  });
+
+  test('assinante recebe eventos gravados até cancelar', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    const recebidos: EventLogEntry[] = [];
+
+    const unsubscribe = eventLog.subscribe(entry => recebidos.push(entry));
+    const primeiro = await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, 'sit-1', {});
+    unsubscribe();
+    await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, 'sit-2', {});
+
+    expect(recebidos.map(e => e.id)).toEqual([primeiro.id]);
+    expect(recebidos[0].current_hash).toBe(primeiro.current_hash);
+  });
+
+  test('erro no assinante não afeta a gravação nem os outros assinantes', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    const recebidos: string[] = [];
+
+    eventLog.subscribe(() => {
+      throw new Error('assinante com defeito');
+    });
+    eventLog.subscribe(entry => recebidos.push(entry.entidade_id));
+
+    await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, 'sit-1', {});
+
+    expect(recebidos).toEqual(['sit-1']);
+    expect(await eventLog.count()).toBe(1);
+  });
+
+  test('cursorFor() retoma a iteração depois do evento', async () => {
+    const eventLog = await EventLogRepositoryImpl.create(testDir.dir, { segmentSize: 2 });
+    const ids: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      const entry = await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, `sit-${i}`, {});
+      ids.push(entry.id);
+    }
+
+    const cursor = await eventLog.cursorFor(ids[1]);
+    expect(cursor).not.toBeNull();
+
+    const depois: string[] = [];
+    for await (const entry of eventLog.iterate({ after: cursor! })) {
+      depois.push(entry.id);
+    }
+    expect(depois).toEqual(ids.slice(2));
+
+    expect(await eventLog.cursorFor('inexistente')).toBeNull();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY E SDK
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 36 - GET /api/v1/eventos/stream', () => {
+  const TEST_PEPPER = 'test-pepper-inc36-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc36-' + Date.now();
+  let app: FastifyInstance;
+  let baseDir: string;
+  let baseUrl: string;
+  let publicToken: string;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  function streamHeaders(extra: Record<string, string> = {}): Record<string, string> {
+    return {
+      'x-tenant-id': 'acme',
+      authorization: `Bearer ${publicToken}`,
+      accept: 'text/event-stream',
+      ...extra
+    };
+  }
+
+  async function criarDecisao(): Promise<void> {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes',
+      headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` },
+      payload: DECISAO_PAYLOAD
+    });
+    expect(response.statusCode).toBe(201);
+  }
+
+  async function listarEventos(): Promise<any[]> {
+    const response = await app.inject({ method: 'GET', url: '/admin/tenants/acme/events', headers: admin });
+    return JSON.parse(response.body).events;
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    baseDir = await fs.mkdtemp(path.join(require('os').tmpdir(), 'libervia-inc36-gw-'));
+
+    const config: GatewayConfig = {
+      baseDir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+    await app.listen({ port: 0, host: '127.0.0.1' });
+
+    const address = app.server.address();
+    if (typeof address !== 'object' || address === null) {
+      throw new Error('Failed to get server address');
+    }
+    // Host por nome: um IP seria lido como subdominio (tenant "127")
+    baseUrl = `http://localhost:${address.port}`;
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const keyResponse = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    publicToken = JSON.parse(keyResponse.body).token;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('envia eventos gravados depois da conexão, com filtro de tipo', async () => {
+    const controller = new AbortController();
+    const response = await fetch(
+      `${baseUrl}/api/v1/eventos/stream?tipo=${TipoEvento.DECISAO_REGISTRADA},${TipoEvento.CONTRATO_EMITIDO}`,
+      { headers: streamHeaders(), signal: controller.signal }
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    expect(response.headers.get('x-request-id')).toBeTruthy();
+
+    try {
+      const leitura = readEvents(response, 2);
+      await criarDecisao();
+      const eventos = await leitura;
+
+      expect(eventos.map(e => e.event)).toEqual([TipoEvento.DECISAO_REGISTRADA, TipoEvento.CONTRATO_EMITIDO]);
+      expect(eventos[0].data.id).toBe(eventos[0].id);
+      expect(eventos[1].data.entidade).toBe(TipoEntidade.CONTRATO);
+    } finally {
+      controller.abort();
+    }
+  });
+
+  test('Last-Event-ID reenvia os eventos gravados depois dele', async () => {
+    await criarDecisao();
+    const todos = await listarEventos();
+    const ultimos = todos.slice(-3);
+    const anterior = todos[todos.length - 4];
+
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/api/v1/eventos/stream`, {
+      headers: streamHeaders({ 'last-event-id': anterior.id }),
+      signal: controller.signal
+    });
+    expect(response.status).toBe(200);
+
+    try {
+      const eventos = await readEvents(response, 3);
+      expect(eventos.map(e => e.id)).toEqual(ultimos.map((e: any) => e.id));
+    } finally {
+      controller.abort();
+    }
+  });
+
+  test('filtro inválido retorna 400', async () => {
+    const tipo = await fetch(`${baseUrl}/api/v1/eventos/stream?tipo=NAO_EXISTE`, { headers: streamHeaders() });
+    expect(tipo.status).toBe(400);
+    expect(await tipo.json()).toMatchObject({ error: 'Invalid event type', tipo: 'NAO_EXISTE' });
+
+    const entidade = await fetch(`${baseUrl}/api/v1/eventos/stream?entidade=Coisa`, { headers: streamHeaders() });
+    expect(entidade.status).toBe(400);
+    expect(await entidade.json()).toMatchObject({ error: 'Invalid entity type', entidade: 'Coisa' });
+  });
+
+  test('Last-Event-ID desconhecido retorna 400', async () => {
+    const response = await fetch(`${baseUrl}/api/v1/eventos/stream?last_event_id=inexistente`, {
+      headers: streamHeaders()
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Unknown last event id' });
+  });
+
+  test('sem token retorna 401', async () => {
+    const response = await fetch(`${baseUrl}/api/v1/eventos/stream`, {
+      headers: { 'x-tenant-id': 'acme', accept: 'text/event-stream' }
+    });
+    expect(response.status).toBe(401);
+  });
+
+  test('SDK: public.assinarEventos() recebe eventos filtrados', async () => {
+    const client = createLiberviaClient({ baseUrl, token: publicToken, tenantId: 'acme' });
+    const recebidos: SdkEventLogEntry[] = [];
+
+    const sub = client.public.assinarEventos(entry => recebidos.push(entry), {
+      entidade: TipoEntidade.CONTRATO
+    });
+
+    try {
+      // Conexão aberta antes de gravar
+      await new Promise(resolve => setTimeout(resolve, 200));
+      await criarDecisao();
+      await waitFor(() => recebidos.length === 1);
+
+      expect(recebidos[0].evento).toBe(TipoEvento.CONTRATO_EMITIDO);
+      expect(sub.lastEventId).toBe(recebidos[0].id);
+    } finally {
+      sub.close();
+      await sub.closed;
+    }
+  });
+
+  test('SDK: retomada com lastEventId', async () => {
+    await criarDecisao();
+    const todos = await listarEventos();
+    const anterior = todos[todos.length - 3];
+
+    const client = createLiberviaClient({ baseUrl, token: publicToken, tenantId: 'acme' });
+    const recebidos: string[] = [];
+    const sub = client.public.assinarEventos(entry => recebidos.push(entry.id), { lastEventId: anterior.id });
+
+    try {
+      await waitFor(() => recebidos.length === 2);
+      expect(recebidos).toEqual(todos.slice(-2).map((e: any) => e.id));
+    } finally {
+      sub.close();
+      await sub.closed;
+    }
+  });
+
+  test('SDK: erro HTTP encerra a assinatura', async () => {
+    const client = createLiberviaClient({ baseUrl, token: 'token-invalido', tenantId: 'acme' });
+    const erros: Error[] = [];
+
+    const sub = client.public.assinarEventos(() => undefined, { onError: e => erros.push(e) });
+    await sub.closed;
+
+    expect(erros).toHaveLength(1);
+    expect(erros[0]).toBeInstanceOf(UnauthorizedError);
+  });
+
+  test('SDK: filtro inválido retorna BadRequestError', async () => {
+    const client = createLiberviaClient({ baseUrl, token: publicToken, tenantId: 'acme' });
+    const erros: Error[] = [];
+
+    const sub = client.public.assinarEventos(() => undefined, { tipo: 'NAO_EXISTE', onError: e => erros.push(e) });
+    await sub.closed;
+
+    expect(erros[0]).toBeInstanceOf(BadRequestError);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: LIMITE E ENCERRAMENTO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 36 - Limite de assinaturas', () => {
+  let testDir: TestDataDir;
+  let app: FastifyInstance;
+  let baseUrl: string;
+  let eventLog: EventLogRepositoryImpl;
+  let instanciaAtiva: boolean;
+
+  beforeEach(async () => {
+    testDir = await createTestDataDir('inc36-limit');
+    eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    instanciaAtiva = true;
+    const instance = { eventLog };
+
+    app = Fastify({ logger: false });
+    app.decorate('runtime', { get: () => (instanciaAtiva ? instance : undefined) } as any);
+    app.addHook('preHandler', async request => {
+      request.tenantId = 'acme';
+      request.tenantInstance = instance as any;
+    });
+    await app.register(eventStreamRoutes, {
+      prefix: '/api/v1',
+      maxStreamsPerTenant: 1,
+      heartbeatMs: 50,
+      maxBufferedBytes: 64 * 1024
+    });
+    await app.listen({ port: 0, host: '127.0.0.1' });
+
+    const address = app.server.address();
+    if (typeof address !== 'object' || address === null) {
+      throw new Error('Failed to get server address');
+    }
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await testDir.cleanup();
+  });
+
+  test('excedente retorna 429 e a vaga é liberada ao desconectar', async () => {
+    const primeiro = new AbortController();
+    const aberto = await fetch(`${baseUrl}/api/v1/eventos/stream`, { signal: primeiro.signal });
+    expect(aberto.status).toBe(200);
+
+    const excedente = await fetch(`${baseUrl}/api/v1/eventos/stream`);
+    expect(excedente.status).toBe(429);
+    expect(await excedente.json()).toMatchObject({ error: 'Too many event streams' });
+
+    primeiro.abort();
+
+    // O servidor libera a vaga quando percebe o fechamento da conexão
+    let status = 429;
+    const start = Date.now();
+    while (status === 429 && Date.now() - start < 5000) {
+      const controller = new AbortController();
+      const tentativa = await fetch(`${baseUrl}/api/v1/eventos/stream`, { signal: controller.signal });
+      status = tentativa.status;
+      controller.abort();
+      if (status === 429) await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    expect(status).toBe(200);
+  });
+
+  test('stream é encerrado quando a instância do tenant é descarregada', async () => {
+    const response = await fetch(`${baseUrl}/api/v1/eventos/stream`);
+    expect(response.status).toBe(200);
+
+    instanciaAtiva = false;
+    const eventos = await readEvents(response, 1);
+    expect(eventos).toEqual([]);
+  });
+
+  test('cliente que não lê é desconectado quando o buffer passa do limite', async () => {
+    const subscribe = jest.spyOn(eventLog, 'subscribe');
+    const port = new URL(baseUrl).port;
+    const socket = net.connect(Number(port), '127.0.0.1');
+    let fechado = false;
+    socket.on('close', () => { fechado = true; });
+    socket.on('error', () => undefined);
+    await new Promise<void>(resolve => socket.once('connect', () => resolve()));
+    socket.write(`GET /api/v1/eventos/stream HTTP/1.1\r\nHost: 127.0.0.1:${port}\r\n\r\n`);
+
+    // Ler só o início da resposta e parar, como um cliente travado
+    await new Promise<void>(resolve => socket.once('data', () => resolve()));
+    socket.pause();
+
+    // Eventos grandes entregues direto ao assinante (sem gravar em disco)
+    const listener = subscribe.mock.calls[0][0];
+    const base = await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, 'sit-1', {});
+    const entidadeGrande = 'x'.repeat(100 * 1024);
+    for (let i = 0; i < 50; i++) {
+      listener({ ...base, id: `${base.id}-${i}`, entidade_id: entidadeGrande });
+    }
+
+    // A vaga do tenant foi liberada antes de o cliente voltar a ler
+    const controller = new AbortController();
+    const novo = await fetch(`${baseUrl}/api/v1/eventos/stream`, { signal: controller.signal });
+    expect(novo.status).toBe(200);
+    controller.abort();
+
+    // O que já estava no socket chega, seguido do fechamento
+    socket.resume();
+    await waitFor(() => fechado);
+  });
+});
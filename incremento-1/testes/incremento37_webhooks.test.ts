@@ -0,0 +1,699 @@
+/**
+ * TESTES - Incremento 37: Webhooks de Saída
+ *
+ * Testa:
+ * - Assinatura HMAC (servidor e verificador do SDK)
+ * - Assinaturas de webhook no TenantRegistry (segredo derivado, validação,
+ *   destinos na rede interna recusados)
+ * - WebhookDispatcher: entrega, filtro, backoff, esgotamento, outbox durável
+ * - Cursor do EventLog no outbox: retomada após queda e retenção das entregas
+ * - Rotas /admin/tenants/:id/webhooks e entrega ponta a ponta
+ */
+
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { FastifyInstance } from 'fastify';
+
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { TipoEvento, TipoEntidade } from '../camada-3/event-log/EventLogEntry';
+import {
+  WebhookDispatcher,
+  WebhookEndpoint,
+  WebhookOutbox,
+  WebhookPayload,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY
+} from '../camada-3/webhooks';
+import { PerfilRisco } from '../camada-3/entidades/tipos';
+import { TenantRegistry } from '../tenant/TenantRegistry';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+import { verifyWebhookSignature as sdkVerifyWebhookSignature } from '../sdk/src/webhooks';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// RECEPTOR LOCAL
+// ════════════════════════════════════════════════════════════════════════════
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+interface TestReceiver {
+  url: string;
+  received: ReceivedRequest[];
+  /** Status das próximas respostas (default: 200) */
+  statuses: number[];
+  close: () => Promise<void>;
+}
+
+async function startReceiver(): Promise<TestReceiver> {
+  const received: ReceivedRequest[] = [];
+  const statuses: number[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end('ok');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    statuses,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+const SECRET = 'whsec_teste';
+
+function endpoint(url: string, overrides: Partial<WebhookEndpoint> = {}): WebhookEndpoint {
+  return {
+    webhookId: 'wh_teste',
+    url,
+    events: [TipoEvento.CONTRATO_EMITIDO],
+    active: true,
+    secret: SECRET,
+    createdAt: new Date(0).toISOString(),
+    ...overrides
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: ASSINATURA
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 37 - Assinatura HMAC', () => {
+  const body = JSON.stringify({ evento: 'CONTRATO_EMITIDO' });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  test('assinatura confere no servidor e no SDK', () => {
+    const signature = signWebhookPayload(SECRET, timestamp, body);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(SECRET, body, signature, timestamp)).toBe(true);
+    expect(sdkVerifyWebhookSignature(SECRET, body, signature, String(timestamp))).toBe(true);
+  });
+
+  test('corpo, segredo ou timestamp alterados não conferem', () => {
+    const signature = signWebhookPayload(SECRET, timestamp, body);
+
+    expect(sdkVerifyWebhookSignature(SECRET, body + ' ', signature, String(timestamp))).toBe(false);
+    expect(sdkVerifyWebhookSignature('outro', body, signature, String(timestamp))).toBe(false);
+    expect(sdkVerifyWebhookSignature(SECRET, body, signature, String(timestamp + 1))).toBe(false);
+    expect(sdkVerifyWebhookSignature(SECRET, body, undefined, String(timestamp))).toBe(false);
+  });
+
+  test('timestamp fora da tolerância é rejeitado', () => {
+    const antigo = timestamp - 600;
+    const signature = signWebhookPayload(SECRET, antigo, body);
+
+    expect(verifyWebhookSignature(SECRET, body, signature, antigo)).toBe(false);
+    expect(sdkVerifyWebhookSignature(SECRET, body, signature, String(antigo))).toBe(false);
+    expect(sdkVerifyWebhookSignature(SECRET, body, signature, String(antigo), { toleranceSec: 900 })).toBe(true);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: REGISTRY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 37 - Assinaturas no TenantRegistry', () => {
+  let testDir: TestDataDir;
+  let registry: TenantRegistry;
+
+  beforeAll(() => {
+    process.env.LIBERVIA_AUTH_PEPPER = 'test-pepper-inc37-registry';
+    clearPepperCache();
+  });
+
+  afterAll(() => {
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  beforeEach(async () => {
+    testDir = await createTestDataDir('inc37-registry');
+    registry = await TenantRegistry.create(testDir.dir);
+    await registry.register({ id: 'acme', name: 'Acme' });
+  });
+
+  afterEach(async () => {
+    await testDir.cleanup();
+  });
+
+  test('segredo é derivado, não persistido', async () => {
+    const { webhook, secret } = await registry.createTenantWebhook('acme', {
+      url: 'https://hooks.example.com/libervia',
+      events: [TipoEvento.CONTRATO_EMITIDO, TipoEvento.CONTRATO_EMITIDO]
+    });
+
+    expect(secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(webhook.webhookId).toMatch(/^wh_/);
+    expect(webhook.events).toEqual([TipoEvento.CONTRATO_EMITIDO]);
+    expect(webhook).not.toHaveProperty('secretSalt');
+
+    const raw = await fs.readFile(path.join(testDir.dir, 'config', 'tenants.json'), 'utf-8');
+    expect(raw).not.toContain(secret);
+
+    // Recarregado do disco, o segredo é o mesmo
+    const recarregado = await TenantRegistry.create(testDir.dir);
+    expect(recarregado.getWebhookEndpoints('acme')[0].secret).toBe(secret);
+  });
+
+  test('rejeita URL e eventos inválidos', async () => {
+    await expect(registry.createTenantWebhook('acme', { url: 'ftp://x', events: [TipoEvento.CONTRATO_EMITIDO] }))
+      .rejects.toThrow('URL de webhook invalida');
+    await expect(registry.createTenantWebhook('acme', { url: 'nao e url', events: [TipoEvento.CONTRATO_EMITIDO] }))
+      .rejects.toThrow('URL de webhook invalida');
+    await expect(registry.createTenantWebhook('acme', { url: 'https://x.test', events: [] }))
+      .rejects.toThrow('Eventos de webhook invalidos');
+    await expect(registry.createTenantWebhook('acme', { url: 'https://x.test', events: [TipoEvento.SITUACAO_CRIADA] }))
+      .rejects.toThrow('Evento de webhook invalido');
+    await expect(registry.createTenantWebhook('outro', { url: 'https://x.test', events: [TipoEvento.CONTRATO_EMITIDO] }))
+      .rejects.toThrow('nao encontrado');
+  });
+
+  test('rejeita destinos na rede interna', async () => {
+    const internos = [
+      'http://127.0.0.1:8080/hook',
+      'http://localhost/hook',
+      'http://api.localhost/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://10.0.0.5/hook',
+      'http://172.16.0.1/hook',
+      'http://192.168.1.10/hook',
+      'http://0.0.0.0/hook',
+      'http://[::1]/hook',
+      'http://[fe80::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+      'http://2130706433/hook'
+    ];
+    for (const url of internos) {
+      await expect(registry.createTenantWebhook('acme', { url, events: [TipoEvento.CONTRATO_EMITIDO] }))
+        .rejects.toThrow('URL de webhook invalida');
+    }
+
+    const { webhook } = await registry.createTenantWebhook('acme', {
+      url: 'https://8.8.8.8/hook',
+      events: [TipoEvento.CONTRATO_EMITIDO]
+    });
+    await expect(registry.updateTenantWebhook('acme', webhook.webhookId, { url: 'http://127.0.0.1/hook' }))
+      .rejects.toThrow('URL de webhook invalida');
+  });
+
+  test('atualiza, rotaciona segredo e remove', async () => {
+    const { webhook, secret } = await registry.createTenantWebhook('acme', {
+      url: 'https://x.test/a',
+      events: [TipoEvento.CONTRATO_EMITIDO]
+    });
+
+    const atualizado = await registry.updateTenantWebhook('acme', webhook.webhookId, {
+      status: 'disabled',
+      events: [TipoEvento.AUTONOMY_SUSPENDED, TipoEvento.HUMAN_REVIEW_CASE_OPENED]
+    });
+    expect(atualizado.status).toBe('disabled');
+    expect(registry.getWebhookEndpoints('acme')[0].active).toBe(false);
+
+    const rotacionado = await registry.rotateTenantWebhookSecret('acme', webhook.webhookId);
+    expect(rotacionado.secret).not.toBe(secret);
+    expect(registry.getWebhookEndpoints('acme')[0].secret).toBe(rotacionado.secret);
+
+    await registry.removeTenantWebhook('acme', webhook.webhookId);
+    expect(registry.listTenantWebhooks('acme')).toEqual([]);
+    await expect(registry.removeTenantWebhook('acme', webhook.webhookId)).rejects.toThrow('Webhook nao encontrado');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: DESPACHANTE
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 37 - WebhookDispatcher', () => {
+  let testDir: TestDataDir;
+  let receiver: TestReceiver;
+  let eventLog: EventLogRepositoryImpl;
+  let dispatchers: WebhookDispatcher[];
+
+  function outbox(): WebhookOutbox {
+    return new WebhookOutbox(path.join(testDir.dir, 'webhook_deliveries.json'));
+  }
+
+  function criarDispatcher(endpoints: () => WebhookEndpoint[], config = {}): WebhookDispatcher {
+    const dispatcher = new WebhookDispatcher('acme', eventLog, outbox(), endpoints, {
+      pollIntervalMs: 60000,
+      baseDelayMs: 20,
+      ...config
+    });
+    dispatcher.start();
+    dispatchers.push(dispatcher);
+    return dispatcher;
+  }
+
+  async function contrato(id: string) {
+    return eventLog.append('Libervia', TipoEvento.CONTRATO_EMITIDO, TipoEntidade.CONTRATO, id, { id });
+  }
+
+  // Receptor local em 127.0.0.1
+  beforeAll(() => {
+    process.env[WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY] = 'true';
+  });
+
+  afterAll(() => {
+    delete process.env[WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY];
+  });
+
+  beforeEach(async () => {
+    testDir = await createTestDataDir('inc37-dispatcher');
+    receiver = await startReceiver();
+    eventLog = await EventLogRepositoryImpl.create(testDir.dir);
+    dispatchers = [];
+  });
+
+  afterEach(async () => {
+    for (const dispatcher of dispatchers) {
+      await dispatcher.stop();
+    }
+    await receiver.close();
+    await testDir.cleanup();
+  });
+
+  test('entrega evento assinado e ignora eventos não assinados', async () => {
+    const dispatcher = criarDispatcher(() => [endpoint(receiver.url)]);
+
+    const entry = await contrato('c-1');
+    await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, TipoEntidade.SITUACAO, 's-1', {});
+    await dispatcher.flush();
+
+    expect(receiver.received).toHaveLength(1);
+    const { headers, body } = receiver.received[0];
+    const payload = JSON.parse(body) as WebhookPayload;
+
+    expect(payload.evento).toBe(TipoEvento.CONTRATO_EMITIDO);
+    expect(payload.tenantId).toBe('acme');
+    expect(payload.event.id).toBe(entry.id);
+    expect(headers['x-libervia-event']).toBe(TipoEvento.CONTRATO_EMITIDO);
+    expect(headers['x-libervia-delivery']).toBe(`wh_teste:${entry.id}`);
+    expect(sdkVerifyWebhookSignature(
+      SECRET,
+      body,
+      headers['x-libervia-signature'] as string,
+      headers['x-libervia-timestamp'] as string
+    )).toBe(true);
+
+    const [delivery] = await dispatcher.listDeliveries();
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.lastStatusCode).toBe(200);
+  });
+
+  test('destino em faixa interna falha sem tentar a entrega', async () => {
+    delete process.env[WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY];
+    try {
+      const dispatcher = criarDispatcher(() => [endpoint(receiver.url)]);
+
+      await contrato('c-1');
+      await dispatcher.flush();
+
+      expect(receiver.received).toHaveLength(0);
+      const [delivery] = await dispatcher.listDeliveries();
+      expect(delivery.status).toBe('failed');
+      expect(delivery.attempts).toBe(1);
+      expect(delivery.nextAttemptAt).toBeUndefined();
+      expect(delivery.lastError).toMatch(/^Destino bloqueado: endereco 127\.0\.0\.1/);
+    } finally {
+      process.env[WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY] = 'true';
+    }
+  });
+
+  test('eventos anteriores à criação da assinatura não são entregues', async () => {
+    const dispatcher = criarDispatcher(() => [endpoint(receiver.url, { createdAt: new Date(Date.now() + 60000).toISOString() })]);
+
+    await contrato('c-1');
+    await dispatcher.flush();
+
+    expect(receiver.received).toHaveLength(0);
+    expect(await dispatcher.listDeliveries()).toHaveLength(0);
+  });
+
+  test('falha reagenda com backoff e entrega depois', async () => {
+    receiver.statuses.push(500, 503);
+    const dispatcher = criarDispatcher(() => [endpoint(receiver.url)]);
+
+    await contrato('c-1');
+    await dispatcher.flush();
+
+    let [delivery] = await dispatcher.listDeliveries();
+    expect(delivery.status).toBe('pending');
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.lastError).toBe('HTTP 500');
+    const primeiraEspera = Date.parse(delivery.nextAttemptAt!) - Date.parse(delivery.lastAttemptAt!);
+
+    // Antes do vencimento nada é enviado
+    await dispatcher.flush();
+    expect(receiver.received.length).toBeLessThanOrEqual(2);
+
+    await sleep(30);
+    await dispatcher.flush();
+    [delivery] = await dispatcher.listDeliveries();
+    expect(delivery.attempts).toBe(2);
+    const segundaEspera = Date.parse(delivery.nextAttemptAt!) - Date.parse(delivery.lastAttemptAt!);
+    expect(segundaEspera).toBeGreaterThan(primeiraEspera);
+
+    await sleep(60);
+    await dispatcher.flush();
+    [delivery] = await dispatcher.listDeliveries();
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts).toBe(3);
+    expect(delivery.lastError).toBeUndefined();
+  });
+
+  test('tentativas esgotadas marcam a entrega como failed', async () => {
+    receiver.statuses.push(500, 500);
+    const dispatcher = criarDispatcher(() => [endpoint(receiver.url)], { maxAttempts: 2, baseDelayMs: 1 });
+
+    await contrato('c-1');
+    await dispatcher.flush();
+    await sleep(10);
+    await dispatcher.flush();
+
+    const [delivery] = await dispatcher.listDeliveries({ status: 'failed' });
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.nextAttemptAt).toBeUndefined();
+    expect(receiver.received).toHaveLength(2);
+  });
+
+  test('destino fora do ar: entrega pendente sobrevive ao reinício', async () => {
+    const urlInativa = 'http://127.0.0.1:1/hook';
+    const primeiro = criarDispatcher(() => [endpoint(urlInativa)]);
+
+    await contrato('c-1');
+    await primeiro.flush();
+    await primeiro.stop();
+
+    const [pendente] = await primeiro.listDeliveries();
+    expect(pendente.status).toBe('pending');
+    expect(pendente.lastError).toBeDefined();
+
+    // Novo processo, destino corrigido
+    await sleep(30);
+    const segundo = criarDispatcher(() => [endpoint(receiver.url)]);
+    await segundo.flush();
+
+    expect(receiver.received).toHaveLength(1);
+    const [entregue] = await segundo.listDeliveries();
+    expect(entregue.status).toBe('delivered');
+    expect(entregue.attempts).toBe(2);
+  });
+
+  test('stop() grava no outbox eventos ainda não enfileirados', async () => {
+    const dispatcher = criarDispatcher(() => [endpoint(receiver.url)]);
+
+    await contrato('c-1');
+    await dispatcher.stop();
+
+    expect(receiver.received).toHaveLength(0);
+    const [delivery] = await outbox().list();
+    expect(delivery.status).toBe('pending');
+  });
+
+  test('queda com eventos só em memória: reinício retoma do cursor do outbox', async () => {
+    const primeiro = criarDispatcher(() => [endpoint(receiver.url)]);
+
+    await contrato('c-1');
+    await primeiro.flush();
+    expect(receiver.received).toHaveLength(1);
+
+    // c-2 fica só no buffer do primeiro processo, que cai sem stop()
+    const perdido = await contrato('c-2');
+
+    const segundo = criarDispatcher(() => [endpoint(receiver.url)]);
+    await segundo.flush();
+
+    expect(receiver.received).toHaveLength(2);
+    expect((JSON.parse(receiver.received[1].body) as WebhookPayload).event.id).toBe(perdido.id);
+    expect(await segundo.listDeliveries({ status: 'delivered' })).toHaveLength(2);
+  });
+
+  test('sem cursor gravado, a primeira varredura lê desde a criação da assinatura', async () => {
+    await eventLog.append('Libervia', TipoEvento.CONTRATO_EMITIDO, TipoEntidade.CONTRATO, 'c-antigo', {});
+    await sleep(5);
+    const criadaEm = new Date().toISOString();
+    const anterior = await contrato('c-1');
+
+    const dispatcher = criarDispatcher(() => [endpoint(receiver.url, { createdAt: criadaEm })]);
+    await dispatcher.flush();
+
+    expect(receiver.received).toHaveLength(1);
+    expect((JSON.parse(receiver.received[0].body) as WebhookPayload).event.id).toBe(anterior.id);
+  });
+
+  test('entregas delivered além da retenção saem do outbox', async () => {
+    const endpoints = () => [
+      endpoint(receiver.url),
+      endpoint('http://127.0.0.1:1/hook', { webhookId: 'wh_fora' })
+    ];
+    const primeiro = criarDispatcher(endpoints);
+
+    await contrato('c-1');
+    await primeiro.flush();
+    expect(await outbox().list()).toHaveLength(2);
+
+    await sleep(10);
+    const segundo = criarDispatcher(endpoints, { deliveredRetentionMs: 5 });
+    await segundo.flush();
+
+    const restantes = await outbox().list();
+    expect(restantes.map(d => [d.webhookId, d.status])).toEqual([['wh_fora', 'pending']]);
+  });
+
+  test('assinatura removida ou desativada encerra entregas pendentes', async () => {
+    let endpoints = [endpoint(receiver.url), endpoint(receiver.url, { webhookId: 'wh_outro' })];
+    const dispatcher = criarDispatcher(() => endpoints);
+
+    receiver.statuses.push(500, 500);
+    await contrato('c-1');
+    await dispatcher.flush();
+    expect(await dispatcher.listDeliveries({ status: 'pending' })).toHaveLength(2);
+
+    endpoints = [endpoint(receiver.url, { active: false })];
+    await sleep(30);
+    await dispatcher.flush();
+
+    const deliveries = await dispatcher.listDeliveries({ status: 'failed' });
+    expect(deliveries.map(d => d.lastError).sort()).toEqual(['Webhook desativado', 'Webhook removido']);
+    expect(receiver.received).toHaveLength(2);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 37 - Rotas de webhook', () => {
+  const TEST_PEPPER = 'test-pepper-inc37-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc37-' + Date.now();
+  let app: FastifyInstance;
+  let baseDir: string;
+  let receiver: TestReceiver;
+  let publicToken: string;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    process.env[WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY] = 'true';
+    clearPepperCache();
+    baseDir = await fs.mkdtemp(path.join(require('os').tmpdir(), 'libervia-inc37-gw-'));
+    receiver = await startReceiver();
+
+    const config: GatewayConfig = {
+      baseDir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const keyResponse = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    publicToken = JSON.parse(keyResponse.body).token;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await receiver.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    delete process.env[WEBHOOK_ALLOW_PRIVATE_TARGETS_ENV_KEY];
+    clearPepperCache();
+  });
+
+  test('CRUD de assinaturas', async () => {
+    const created = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/webhooks',
+      headers: admin,
+      payload: { url: 'https://x.test/hook', events: [TipoEvento.AUTONOMY_SUSPENDED], description: 'Ops' }
+    });
+    expect(created.statusCode).toBe(201);
+    const { webhook, secret } = JSON.parse(created.body);
+    expect(secret).toMatch(/^whsec_/);
+
+    const list = JSON.parse((await app.inject({ method: 'GET', url: '/admin/tenants/acme/webhooks', headers: admin })).body);
+    expect(list.count).toBe(1);
+    expect(JSON.stringify(list)).not.toContain(secret);
+
+    const patched = await app.inject({
+      method: 'PATCH',
+      url: `/admin/tenants/acme/webhooks/${webhook.webhookId}`,
+      headers: admin,
+      payload: { status: 'disabled' }
+    });
+    expect(patched.statusCode).toBe(200);
+    expect(JSON.parse(patched.body).status).toBe('disabled');
+
+    const rotated = await app.inject({
+      method: 'POST',
+      url: `/admin/tenants/acme/webhooks/${webhook.webhookId}/rotate-secret`,
+      headers: admin
+    });
+    expect(JSON.parse(rotated.body).secret).not.toBe(secret);
+
+    const removed = await app.inject({
+      method: 'DELETE',
+      url: `/admin/tenants/acme/webhooks/${webhook.webhookId}`,
+      headers: admin
+    });
+    expect(removed.statusCode).toBe(200);
+  });
+
+  test('erros de validação e assinatura inexistente', async () => {
+    const invalido = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/webhooks',
+      headers: admin,
+      payload: { url: 'https://x.test', events: ['NAO_EXISTE'] }
+    });
+    expect(invalido.statusCode).toBe(400);
+
+    const semTenant = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/inexistente/webhooks',
+      headers: admin,
+      payload: { url: 'https://x.test', events: [TipoEvento.CONTRATO_EMITIDO] }
+    });
+    expect(semTenant.statusCode).toBe(404);
+
+    const semWebhook = await app.inject({ method: 'GET', url: '/admin/tenants/acme/webhooks/wh_nada/deliveries', headers: admin });
+    expect(semWebhook.statusCode).toBe(404);
+
+    const patch = await app.inject({
+      method: 'PATCH',
+      url: '/admin/tenants/acme/webhooks/wh_nada',
+      headers: admin,
+      payload: { status: 'disabled' }
+    });
+    expect(patch.statusCode).toBe(404);
+  });
+
+  test('decisão gera entrega assinada de CONTRATO_EMITIDO', async () => {
+    const created = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/webhooks',
+      headers: admin,
+      payload: { url: receiver.url, events: [TipoEvento.CONTRATO_EMITIDO] }
+    });
+    const { webhook, secret } = JSON.parse(created.body);
+
+    const decisao = await app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes',
+      headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` },
+      payload: {
+        situacao: {
+          dominio: 'financeiro',
+          contexto: 'Contexto',
+          objetivo: 'Objetivo',
+          incertezas: ['Incerteza'],
+          alternativas: [
+            { descricao: 'A', riscos_associados: ['r1'] },
+            { descricao: 'B', riscos_associados: ['r2'] }
+          ],
+          riscos: [{ descricao: 'Risco', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+          urgencia: 'Média',
+          capacidade_absorcao: 'Alta',
+          consequencia_relevante: 'Consequência',
+          possibilidade_aprendizado: true,
+          caso_uso_declarado: 1
+        },
+        protocolo: {
+          criterios_minimos: ['Critério'],
+          riscos_considerados: ['Risco'],
+          limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10' }],
+          perfil_risco: PerfilRisco.MODERADO,
+          alternativas_avaliadas: ['A', 'B'],
+          alternativa_escolhida: 'A'
+        }
+      }
+    });
+    expect(decisao.statusCode).toBe(201);
+
+    await app.runtime.get('acme')!.webhooks.flush();
+
+    expect(receiver.received).toHaveLength(1);
+    const { headers, body } = receiver.received[0];
+    expect(JSON.parse(body).event.entidade).toBe(TipoEntidade.CONTRATO);
+    expect(sdkVerifyWebhookSignature(
+      secret,
+      body,
+      headers['x-libervia-signature'] as string,
+      headers['x-libervia-timestamp'] as string
+    )).toBe(true);
+
+    const deliveries = await app.inject({
+      method: 'GET',
+      url: `/admin/tenants/acme/webhooks/${webhook.webhookId}/deliveries?status=delivered`,
+      headers: admin
+    });
+    expect(deliveries.statusCode).toBe(200);
+    const result = JSON.parse(deliveries.body);
+    expect(result.count).toBe(1);
+    expect(result.deliveries[0].evento).toBe(TipoEvento.CONTRATO_EMITIDO);
+
+    const statusInvalido = await app.inject({
+      method: 'GET',
+      url: `/admin/tenants/acme/webhooks/${webhook.webhookId}/deliveries?status=sent`,
+      headers: admin
+    });
+    expect(statusInvalido.statusCode).toBe(400);
+  });
+});
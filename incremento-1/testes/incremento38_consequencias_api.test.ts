@@ -0,0 +1,361 @@
+/**
+ * TESTES - Incremento 38: API HTTP de Consequências
+ *
+ * Testa:
+ * - POST /api/v1/contratos/:id/consequencias (validação, anti-fraude, 404)
+ * - Gatilhos de autonomia (Inc 19) pelo gateway
+ * - GET /api/v1/contratos/:id/consequencias, /stats e /api/v1/consequencias
+ * - SDK: public.registrarConsequencia() e consultas
+ */
+
+import { FastifyInstance } from 'fastify';
+
+import { TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { PerfilRisco } from '../camada-3/entidades/tipos';
+import { AutonomyMode } from '../camada-3/autonomy/AutonomyTypes';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+import { createLiberviaClient, LiberviaError, NotFoundError } from '../sdk/src';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ════════════════════════════════════════════════════════════════════════════
+
+const DECISAO_PAYLOAD = {
+  situacao: {
+    dominio: 'financeiro',
+    contexto: 'Contexto',
+    objetivo: 'Objetivo',
+    incertezas: ['Incerteza'],
+    alternativas: [
+      { descricao: 'A', riscos_associados: ['r1'] },
+      { descricao: 'B', riscos_associados: ['r2'] }
+    ],
+    riscos: [{ descricao: 'Risco', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Consequência',
+    possibilidade_aprendizado: true,
+    caso_uso_declarado: 1
+  },
+  protocolo: {
+    criterios_minimos: ['Critério'],
+    riscos_considerados: ['Risco'],
+    limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10' }],
+    perfil_risco: PerfilRisco.MODERADO,
+    alternativas_avaliadas: ['A', 'B'],
+    alternativa_escolhida: 'A'
+  }
+};
+
+function consequencia(evidencias: string[], overrides: Record<string, unknown> = {}) {
+  return {
+    observada: {
+      descricao: 'Executado no prazo',
+      indicadores: [{ nome: 'custo_real', valor: '9', unidade: 'BRL' }],
+      anexos: [{ tipo: 'log', conteudo: 'ok', data_anexo: '2026-01-02T03:04:05.000Z' }],
+      limites_respeitados: true,
+      condicoes_cumpridas: true
+    },
+    percebida: {
+      descricao: 'Sem efeitos colaterais',
+      sinal: 'POSITIVO'
+    },
+    evidencias_minimas: evidencias,
+    ...overrides
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY E SDK
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 38 - Consequências via gateway', () => {
+  const TEST_PEPPER = 'test-pepper-inc38-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc38-' + Date.now();
+  let app: FastifyInstance;
+  let testDir: TestDataDir;
+  let baseUrl: string;
+  let publicToken: string;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  function publicHeaders(): Record<string, string> {
+    return { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` };
+  }
+
+  async function criarContrato(): Promise<{ id: string; observacao_minima_requerida: string[]; episodio_id: string }> {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes',
+      headers: publicHeaders(),
+      payload: DECISAO_PAYLOAD
+    });
+    expect(response.statusCode).toBe(201);
+    return JSON.parse(response.body).contrato;
+  }
+
+  async function registrar(contratoId: string, payload: unknown) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v1/contratos/${contratoId}/consequencias`,
+      headers: publicHeaders(),
+      payload: payload as Record<string, unknown>
+    });
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    testDir = await createTestDataDir('inc38-gw');
+
+    const config: GatewayConfig = {
+      baseDir: testDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+    await app.listen({ port: 0, host: '127.0.0.1' });
+
+    const address = app.server.address();
+    if (typeof address !== 'object' || address === null) {
+      throw new Error('Failed to get server address');
+    }
+    // Host por nome: um IP seria lido como subdominio (tenant "127")
+    baseUrl = `http://localhost:${address.port}`;
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const keyResponse = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    publicToken = JSON.parse(keyResponse.body).token;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await testDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('registra consequência e grava CONSEQUENCIA_REGISTRADA', async () => {
+    const contrato = await criarContrato();
+    expect(contrato.observacao_minima_requerida.length).toBeGreaterThan(0);
+
+    const response = await registrar(contrato.id, consequencia(contrato.observacao_minima_requerida, { notas: 'n' }));
+    expect(response.statusCode).toBe(201);
+
+    const { observacao, autonomia } = JSON.parse(response.body);
+    expect(observacao.contrato_id).toBe(contrato.id);
+    expect(observacao.episodio_id).toBe(contrato.episodio_id);
+    expect(observacao.registrado_por).toBe('acme');
+    expect(observacao.observada.anexos[0].data_anexo).toBe('2026-01-02T03:04:05.000Z');
+    expect(observacao).not.toHaveProperty('_consequenceResult');
+    expect(autonomia).toBeNull();
+
+    const eventos = await app.runtime.get('acme')!.eventLog.getByEntidade('ObservacaoDeConsequencia', observacao.id);
+    expect(eventos.map(e => e.evento)).toEqual([TipoEvento.CONSEQUENCIA_REGISTRADA]);
+  });
+
+  test('evidências mínimas faltantes retornam 422', async () => {
+    const contrato = await criarContrato();
+    const [primeira, ...resto] = contrato.observacao_minima_requerida;
+
+    const response = await registrar(contrato.id, consequencia(resto));
+    expect(response.statusCode).toBe(422);
+
+    const body = JSON.parse(response.body);
+    expect(body.faltantes).toEqual([primeira]);
+    expect(body.observacao_minima_requerida).toEqual(contrato.observacao_minima_requerida);
+  });
+
+  test('corpo inválido retorna 400 com detalhes', async () => {
+    const contrato = await criarContrato();
+
+    const response = await registrar(contrato.id, {
+      observada: { descricao: '' },
+      percebida: { descricao: 'x', sinal: 'OTIMO' },
+      evidencias_minimas: [],
+      autonomyTriggers: { severidade: 'EXTREMA' }
+    });
+    expect(response.statusCode).toBe(400);
+
+    const { details } = JSON.parse(response.body);
+    expect(details).toEqual(expect.arrayContaining([
+      'observada.descricao e obrigatorio',
+      'observada.limites_respeitados deve ser boolean',
+      expect.stringContaining('percebida.sinal'),
+      'evidencias_minimas deve ser lista nao vazia de textos',
+      expect.stringContaining('autonomyTriggers.severidade'),
+      'agentId e obrigatorio quando autonomyTriggers e informado'
+    ]));
+  });
+
+  test('contrato inexistente retorna 404', async () => {
+    const response = await registrar('contrato-inexistente', consequencia(['x']));
+    expect(response.statusCode).toBe(404);
+
+    const list = await app.inject({
+      method: 'GET',
+      url: '/api/v1/contratos/contrato-inexistente/consequencias',
+      headers: publicHeaders()
+    });
+    expect(list.statusCode).toBe(404);
+  });
+
+  test('follow-up de outro contrato é recusado pelo Core', async () => {
+    const a = await criarContrato();
+    const b = await criarContrato();
+    const primeira = JSON.parse((await registrar(a.id, consequencia(a.observacao_minima_requerida))).body).observacao;
+
+    const response = await registrar(b.id, consequencia(b.observacao_minima_requerida, {
+      observacao_anterior_id: primeira.id
+    }));
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).message).toContain('contrato diferente');
+  });
+
+  test('gatilhos de autonomia suspendem o mandato do agente', async () => {
+    const instance = app.runtime.get('acme')!;
+    await instance.orquestrador.ConcederMandato({
+      id: 'mandate-inc38',
+      agentId: 'agente-campo',
+      modo: AutonomyMode.VIVENCIA_AUTONOMA,
+      politicas_permitidas: ['FIRST_VALID'],
+      perfil_risco_maximo: PerfilRisco.MODERADO,
+      limites: [],
+      requer_humano_se: [],
+      concedido_por: 'admin',
+      concedido_em: new Date(),
+      revogado: false
+    });
+
+    const contrato = await criarContrato();
+    const response = await registrar(contrato.id, consequencia(contrato.observacao_minima_requerida, {
+      agentId: 'agente-campo',
+      autonomyTriggers: { severidade: 'ALTA', violou_limites: true }
+    }));
+    expect(response.statusCode).toBe(201);
+
+    const { autonomia } = JSON.parse(response.body);
+    expect(autonomia.action).toBe('SUSPEND_MANDATE');
+    expect(await instance.orquestrador.GetMandatoAtivo('agente-campo')).toBeNull();
+
+    const suspensos = await instance.eventLog.getByEntidade('AutonomyMandate', 'mandate-inc38');
+    expect(suspensos.map(e => e.evento)).toContain(TipoEvento.AUTONOMY_SUSPENDED);
+  });
+
+  test('consultas por contrato, estatísticas e busca', async () => {
+    const contrato = await criarContrato();
+    await registrar(contrato.id, consequencia(contrato.observacao_minima_requerida));
+    await registrar(contrato.id, consequencia(contrato.observacao_minima_requerida, {
+      percebida: { descricao: 'Atraso', sinal: 'NEGATIVO' },
+      observada: { descricao: 'Limite excedido', limites_respeitados: false, condicoes_cumpridas: true }
+    }));
+
+    const list = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/v1/contratos/${contrato.id}/consequencias`,
+      headers: publicHeaders()
+    })).body);
+    expect(list.total).toBe(2);
+    expect(list.observacoes.map((o: any) => o.percebida.sinal)).toEqual(['POSITIVO', 'NEGATIVO']);
+
+    const filtrada = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/v1/contratos/${contrato.id}/consequencias?sinal=NEGATIVO`,
+      headers: publicHeaders()
+    })).body);
+    expect(filtrada.total).toBe(1);
+
+    const stats = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/v1/contratos/${contrato.id}/consequencias/stats`,
+      headers: publicHeaders()
+    })).body);
+    expect(stats.total).toBe(2);
+    expect(stats.por_sinal).toEqual({ POSITIVO: 1, NEUTRO: 0, NEGATIVO: 1, INDETERMINADO: 0 });
+    expect(stats.limites_sempre_respeitados).toBe(false);
+    expect(stats.condicoes_sempre_cumpridas).toBe(true);
+    expect(stats.observacao_minima_requerida).toEqual(contrato.observacao_minima_requerida);
+
+    const porEpisodio = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/v1/consequencias?episodio_id=${contrato.episodio_id}&limit=1`,
+      headers: publicHeaders()
+    })).body);
+    expect(porEpisodio.total).toBe(2);
+    expect(porEpisodio.observacoes).toHaveLength(1);
+
+    const negativas = JSON.parse((await app.inject({
+      method: 'GET',
+      url: '/api/v1/consequencias?sinal=NEGATIVO',
+      headers: publicHeaders()
+    })).body);
+    expect(negativas.observacoes.every((o: any) => o.percebida.sinal === 'NEGATIVO')).toBe(true);
+  });
+
+  test('parâmetros de consulta inválidos retornam 400', async () => {
+    for (const url of [
+      '/api/v1/consequencias?sinal=OTIMO',
+      '/api/v1/consequencias?limit=0',
+      '/api/v1/consequencias?from=ontem',
+      '/api/v1/contratos/x/consequencias?limit=abc'
+    ]) {
+      const response = await app.inject({ method: 'GET', url, headers: publicHeaders() });
+      expect(response.statusCode).toBe(400);
+    }
+  });
+
+  test('rotas exigem token do tenant', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v1/consequencias',
+      headers: { 'x-tenant-id': 'acme' }
+    });
+    expect(response.statusCode).toBe(401);
+  });
+
+  test('SDK registra e consulta consequências', async () => {
+    const client = createLiberviaClient({ baseUrl, token: publicToken, tenantId: 'acme' });
+    const decisao = await client.public.criarDecisao(DECISAO_PAYLOAD as any);
+    const contratoId = decisao.contrato.id;
+    const requerida = decisao.contrato.observacao_minima_requerida ?? [];
+
+    const { observacao } = await client.public.registrarConsequencia(contratoId, {
+      observada: { descricao: 'Feito', limites_respeitados: true, condicoes_cumpridas: true },
+      percebida: { descricao: 'Bom', sinal: 'NEUTRO' },
+      evidencias_minimas: requerida
+    });
+    expect(observacao.contrato_id).toBe(contratoId);
+
+    const list = await client.public.listarConsequencias(contratoId, { sinal: 'NEUTRO' });
+    expect(list.observacoes.map(o => o.id)).toEqual([observacao.id]);
+
+    const stats = await client.public.getEstatisticasConsequencias(contratoId);
+    expect(stats.por_sinal.NEUTRO).toBe(1);
+
+    const busca = await client.public.buscarConsequencias({ episodio_id: decisao.episodio_id });
+    expect(busca.total).toBe(1);
+
+    const faltante = client.public.registrarConsequencia(contratoId, {
+      observada: { descricao: 'Feito', limites_respeitados: true, condicoes_cumpridas: true },
+      percebida: { descricao: 'Bom', sinal: 'NEUTRO' },
+      evidencias_minimas: ['outra']
+    });
+    await expect(faltante).rejects.toBeInstanceOf(LiberviaError);
+    await expect(faltante).rejects.toMatchObject({ status: 422 });
+
+    await expect(client.public.getEstatisticasConsequencias('inexistente')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * TESTES - Incremento 39: API HTTP de Execuções Multiagente
+ *
+ * Testa:
+ * - MultiAgentRunRepositoryImpl (registro, leitura por runId e por episódio)
+ * - POST /api/v1/multiagente/execucoes (validação, votos, tie-break, bloqueios)
+ * - GET /api/v1/multiagente/execucoes/:runId e /api/v1/episodios/:id/multiagente
+ * - SDK: public.executarMultiAgente() e consultas
+ */
+
+import { FastifyInstance } from 'fastify';
+import * as path from 'path';
+
+import { MultiAgentRunRepositoryImpl, MultiAgentRunResult } from '../camada-3/multiagente';
+import { PerfilRisco } from '../camada-3/entidades/tipos';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+import { createLiberviaClient, LiberviaError, NotFoundError } from '../sdk/src';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ════════════════════════════════════════════════════════════════════════════
+
+const LIMITE = { tipo: 'Financeiro', descricao: 'Max', valor: '10' };
+
+function execucaoPayload(overrides: Record<string, unknown> = {}) {
+  return {
+    situacao: {
+      dominio: 'financeiro',
+      contexto: 'Contexto',
+      objetivo: 'Objetivo',
+      incertezas: ['Incerteza'],
+      alternativas: [
+        { descricao: 'A', riscos_associados: ['r1'] },
+        { descricao: 'B', riscos_associados: ['r2'] }
+      ],
+      riscos: [{ descricao: 'Risco', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+      urgencia: 'Média',
+      capacidade_absorcao: 'Alta',
+      consequencia_relevante: 'Consequência',
+      possibilidade_aprendizado: true,
+      caso_uso_declarado: 1
+    },
+    agents: [
+      { agentId: 'conservador-1', perfilRisco: 'CONSERVADOR' },
+      { agentId: 'agressivo-1', perfilRisco: 'AGRESSIVO' }
+    ],
+    aggregationPolicy: 'MAJORITY_BY_ALTERNATIVE',
+    protocoloBase: {
+      criterios_minimos: ['Critério'],
+      riscos_considerados: ['Risco'],
+      limites_definidos: [LIMITE],
+      alternativas_avaliadas: ['A', 'B']
+    },
+    decisaoBase: {
+      criterios: ['Critério'],
+      limites: [LIMITE],
+      condicoes: []
+    },
+    ...overrides
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: REPOSITÓRIO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 39 - MultiAgentRunRepositoryImpl', () => {
+  let testDir: TestDataDir;
+
+  beforeAll(async () => {
+    testDir = await createTestDataDir('inc39-repo');
+  });
+
+  afterAll(async () => {
+    await testDir.cleanup();
+  });
+
+  function run(runId: string, episodioId: string): MultiAgentRunResult {
+    return {
+      runId,
+      episodioId,
+      aggregationPolicy: 'FIRST_VALID',
+      agentResults: [{
+        agentId: 'agente-1',
+        perfilRisco: PerfilRisco.CONSERVADOR,
+        closedLayerResult: { blocked: true, rule: 'BLOQUEAR_SEM_LIMITES', reason: 'Sem limites' },
+        blocked: true,
+        protocolo: null,
+        alternativaEscolhida: null,
+        decisaoId: null,
+        contratoCandidato: null
+      }],
+      aggregation: {
+        decided: false,
+        selectedAgentId: null,
+        alternativaFinal: null,
+        noDecisionReason: 'ALL_AGENTS_BLOCKED'
+      },
+      contratoFinal: null,
+      startedAt: new Date('2026-03-01T10:00:00.000Z'),
+      finishedAt: new Date('2026-03-01T10:00:01.000Z')
+    };
+  }
+
+  test('registra, lê por runId e por episódio (datas voltam como Date)', async () => {
+    const filePath = path.join(testDir.dir, 'multiagent_runs.json');
+    const repo = new MultiAgentRunRepositoryImpl(filePath);
+
+    await repo.create(run('run-1', 'ep-1'));
+    await repo.create(run('run-2', 'ep-2'));
+    await repo.create(run('run-3', 'ep-1'));
+
+    const lido = await new MultiAgentRunRepositoryImpl(filePath).getById('run-1');
+    expect(lido!.startedAt).toBeInstanceOf(Date);
+    expect(lido!.startedAt.toISOString()).toBe('2026-03-01T10:00:00.000Z');
+    expect(lido!.agentResults[0].closedLayerResult.reason).toBe('Sem limites');
+
+    const doEpisodio = await repo.getByEpisodioId('ep-1');
+    expect(doEpisodio.map(r => r.runId)).toEqual(['run-1', 'run-3']);
+
+    expect(await repo.getById('inexistente')).toBeNull();
+    await expect(repo.create(run('run-1', 'ep-1'))).rejects.toThrow('já registrada');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY E SDK
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 39 - Multiagente via gateway', () => {
+  const TEST_PEPPER = 'test-pepper-inc39-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc39-' + Date.now();
+  let app: FastifyInstance;
+  let testDir: TestDataDir;
+  let baseUrl: string;
+  let publicToken: string;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  function publicHeaders(): Record<string, string> {
+    return { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` };
+  }
+
+  async function executar(payload: unknown) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/multiagente/execucoes',
+      headers: publicHeaders(),
+      payload: payload as Record<string, unknown>
+    });
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    testDir = await createTestDataDir('inc39-gw');
+
+    const config: GatewayConfig = {
+      baseDir: testDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+    await app.listen({ port: 0, host: '127.0.0.1' });
+
+    const address = app.server.address();
+    if (typeof address !== 'object' || address === null) {
+      throw new Error('Failed to get server address');
+    }
+    // Host por nome: um IP seria lido como subdominio (tenant "127")
+    baseUrl = `http://localhost:${address.port}`;
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const keyResponse = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    publicToken = JSON.parse(keyResponse.body).token;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await testDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('execução com empate traz votos, tie-break e contrato final', async () => {
+    const response = await executar(execucaoPayload());
+    expect(response.statusCode).toBe(201);
+
+    const execucao = JSON.parse(response.body);
+    expect(execucao.runId).toBeDefined();
+    expect(execucao.episodioId).toBeDefined();
+    expect(execucao.agentResults).toHaveLength(2);
+    expect(execucao.agentResults.map((r: any) => r.alternativaEscolhida)).toEqual(['A', 'B']);
+
+    expect(execucao.aggregation.decided).toBe(true);
+    expect(execucao.aggregation.votesByAlternative).toEqual({ A: 1, B: 1 });
+    expect(execucao.aggregation.tieBreakDetails).toEqual(expect.any(String));
+    expect(execucao.contratoFinal).not.toBeNull();
+    expect(execucao.contratoFinal.emitido_para).toBe('acme');
+  });
+
+  test('bloqueio da Camada Fechada em um agente volta com regra e motivo', async () => {
+    const response = await executar(execucaoPayload({
+      aggregationPolicy: 'FIRST_VALID',
+      protocoloBase: {
+        criterios_minimos: [],
+        riscos_considerados: ['Risco'],
+        limites_definidos: [LIMITE],
+        alternativas_avaliadas: ['A', 'B']
+      }
+    }));
+    expect(response.statusCode).toBe(201);
+
+    const execucao = JSON.parse(response.body);
+    const conservador = execucao.agentResults.find((r: any) => r.agentId === 'conservador-1');
+    expect(conservador.blocked).toBe(true);
+    expect(conservador.closedLayerResult.rule).toBe('BLOQUEAR_CONSERVADOR_SEM_CRITERIOS');
+    expect(conservador.closedLayerResult.reason).toContain('CONSERVADOR');
+
+    const agressivo = execucao.agentResults.find((r: any) => r.agentId === 'agressivo-1');
+    expect(agressivo.blocked).toBe(false);
+    expect(execucao.aggregation.selectedAgentId).toBe('agressivo-1');
+  });
+
+  test('sem decisão (HUMAN_OVERRIDE_REQUIRED) não é erro', async () => {
+    const response = await executar(execucaoPayload({ aggregationPolicy: 'HUMAN_OVERRIDE_REQUIRED' }));
+    expect(response.statusCode).toBe(201);
+
+    const execucao = JSON.parse(response.body);
+    expect(execucao.aggregation.decided).toBe(false);
+    expect(execucao.aggregation.noDecisionReason).toBe('HUMAN_OVERRIDE_PENDING');
+    expect(execucao.contratoFinal).toBeNull();
+  });
+
+  test('corpo inválido retorna 400 com details', async () => {
+    const response = await executar(execucaoPayload({
+      agents: [
+        { agentId: 'a', perfilRisco: 'arrojado' },
+        { agentId: 'a', perfilRisco: 'MODERADO', peso: 0 }
+      ],
+      aggregationPolicy: 'VOTO_LIVRE',
+      decisaoBase: undefined
+    }));
+    expect(response.statusCode).toBe(400);
+
+    const body = JSON.parse(response.body);
+    expect(body.error).toBe('Invalid multi-agent run');
+    expect(body.details).toEqual(expect.arrayContaining([
+      expect.stringContaining('agents[0].perfilRisco'),
+      'agents[1].agentId duplicado: a',
+      'agents[1].peso deve ser numero positivo',
+      expect.stringContaining('aggregationPolicy'),
+      'decisaoBase e obrigatorio'
+    ]));
+  });
+
+  test('nenhum agente habilitado retorna 400 com o código do Core', async () => {
+    const response = await executar(execucaoPayload({
+      agents: [{ agentId: 'desligado', perfilRisco: 'MODERADO', enabled: false }]
+    }));
+    expect(response.statusCode).toBe(400);
+
+    const body = JSON.parse(response.body);
+    expect(body.error).toBe('Multi-agent run failed');
+    expect(body.code).toBe('NO_ENABLED_AGENTS');
+  });
+
+  test('execução é consultável por runId e por episódio', async () => {
+    const criada = JSON.parse((await executar(execucaoPayload())).body);
+
+    const porId = await app.inject({
+      method: 'GET',
+      url: `/api/v1/multiagente/execucoes/${criada.runId}`,
+      headers: publicHeaders()
+    });
+    expect(porId.statusCode).toBe(200);
+    expect(JSON.parse(porId.body)).toEqual(criada);
+
+    const porEpisodio = await app.inject({
+      method: 'GET',
+      url: `/api/v1/episodios/${criada.episodioId}/multiagente`,
+      headers: publicHeaders()
+    });
+    expect(porEpisodio.statusCode).toBe(200);
+    const lista = JSON.parse(porEpisodio.body);
+    expect(lista.episodio_id).toBe(criada.episodioId);
+    expect(lista.total).toBe(1);
+    expect(lista.execucoes[0].runId).toBe(criada.runId);
+
+    const inexistente = await app.inject({
+      method: 'GET',
+      url: '/api/v1/multiagente/execucoes/run-inexistente',
+      headers: publicHeaders()
+    });
+    expect(inexistente.statusCode).toBe(404);
+
+    const semExecucoes = await app.inject({
+      method: 'GET',
+      url: '/api/v1/episodios/ep-inexistente/multiagente',
+      headers: publicHeaders()
+    });
+    expect(JSON.parse(semExecucoes.body)).toEqual({ episodio_id: 'ep-inexistente', execucoes: [], total: 0 });
+  });
+
+  test('execução não é visível para outro tenant', async () => {
+    const criada = JSON.parse((await executar(execucaoPayload())).body);
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'outro', name: 'Outro' } });
+    const keyResponse = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/outro/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    const outroToken = JSON.parse(keyResponse.body).token;
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/multiagente/execucoes/${criada.runId}`,
+      headers: { 'x-tenant-id': 'outro', authorization: `Bearer ${outroToken}` }
+    });
+    expect(response.statusCode).toBe(404);
+  });
+
+  test('SDK: executarMultiAgente, getExecucaoMultiAgente e listarExecucoesMultiAgente', async () => {
+    const client = createLiberviaClient({ baseUrl, token: publicToken, tenantId: 'acme' });
+
+    const execucao = await client.public.executarMultiAgente({
+      ...execucaoPayload(),
+      aggregationPolicy: 'WEIGHTED_MAJORITY',
+      agents: [
+        { agentId: 'conservador-1', perfilRisco: 'CONSERVADOR', peso: 3 },
+        { agentId: 'agressivo-1', perfilRisco: 'AGRESSIVO' }
+      ]
+    });
+    expect(execucao.aggregation.alternativaFinal).toBe('A');
+    expect(execucao.aggregation.votesByAlternative).toEqual({ A: 3, B: 1 });
+
+    const lida = await client.public.getExecucaoMultiAgente(execucao.runId);
+    expect(lida.agentResults.map(r => r.agentId)).toEqual(['conservador-1', 'agressivo-1']);
+
+    const { execucoes } = await client.public.listarExecucoesMultiAgente(execucao.episodioId);
+    expect(execucoes.map(e => e.runId)).toEqual([execucao.runId]);
+
+    await expect(client.public.getExecucaoMultiAgente('run-inexistente')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(client.public.executarMultiAgente({
+      ...execucaoPayload(),
+      agents: []
+    } as any)).rejects.toBeInstanceOf(LiberviaError);
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * TESTES - Incremento 40: Override Humano de Execuções Multiagente
+ *
+ * Testa:
+ * - Execuções HUMAN_OVERRIDE_PENDING registradas e listadas como pendentes
+ * - ConcluirOverrideHumano persiste decisão e contrato do agente escolhido
+ * - MULTIAGENT_HUMAN_OVERRIDE_SELECTED no EventLog
+ * - Recusas: segunda conclusão, execução não pendente, agente bloqueado/ausente
+ * - Conclusão como passo atômico: queda, falha no meio e nova tentativa
+ */
+
+import * as path from 'path';
+
+import {
+  AgentProfile,
+  AggregationPolicy,
+  MultiAgentError,
+  MultiAgentRunInput,
+  MultiAgentRunRepositoryImpl
+} from '../camada-3/multiagente';
+import { StorageDriver, PreparedWrite, STORAGE_COLLECTIONS, createStorageDriver } from '../camada-3/storage';
+import { UnitOfWork } from '../camada-3/unit-of-work';
+import { TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { OrquestradorCognitivo } from '../camada-3/orquestrador/OrquestradorCognitivo';
+import { MemoryQueryService } from '../camada-3/servicos/MemoryQueryService';
+import { SituacaoRepositoryImpl } from '../camada-3/repositorios/implementacao/SituacaoRepositoryImpl';
+import { EpisodioRepositoryImpl } from '../camada-3/repositorios/implementacao/EpisodioRepositoryImpl';
+import { DecisaoRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisaoRepositoryImpl';
+import { ContratoRepositoryImpl } from '../camada-3/repositorios/implementacao/ContratoRepositoryImpl';
+import { DecisionProtocolRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisionProtocolRepositoryImpl';
+import {
+  EstadoEpisodio,
+  PerfilRisco,
+  SituacaoDecisoria,
+  StatusSituacao
+} from '../camada-3/entidades/tipos';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+const LIMITE = { tipo: 'Financeiro', descricao: 'Max 10k', valor: '10000' };
+
+function criarSituacao(id: string): SituacaoDecisoria {
+  return {
+    id,
+    dominio: 'teste',
+    contexto: 'Contexto de teste para override humano',
+    objetivo: 'Objetivo de teste',
+    incertezas: ['Incerteza 1'],
+    alternativas: [
+      { descricao: 'Alternativa A', riscos_associados: ['risco-1'] },
+      { descricao: 'Alternativa B', riscos_associados: ['risco-2'] }
+    ],
+    riscos: [{ descricao: 'Risco identificado', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Consequência significativa',
+    possibilidade_aprendizado: true,
+    caso_uso_declarado: 1,
+    status: StatusSituacao.RASCUNHO,
+    data_criacao: new Date(),
+    anexos_analise: []
+  };
+}
+
+function criarInput(policy: AggregationPolicy, criterios: string[] = ['Critério 1']): MultiAgentRunInput {
+  const agents: AgentProfile[] = [
+    { agentId: 'conservador-1', perfilRisco: PerfilRisco.CONSERVADOR },
+    { agentId: 'agressivo-1', perfilRisco: PerfilRisco.AGRESSIVO }
+  ];
+
+  return {
+    agents,
+    aggregationPolicy: policy,
+    protocoloBase: {
+      criterios_minimos: criterios,
+      riscos_considerados: ['Risco 1'],
+      limites_definidos: [LIMITE],
+      alternativas_avaliadas: ['Alternativa A', 'Alternativa B']
+    },
+    decisaoBase: {
+      criterios: ['Critério 1'],
+      limites: [LIMITE],
+      condicoes: ['Condição 1']
+    }
+  };
+}
+
+async function setup(dir: string) {
+  const situacaoRepo = await SituacaoRepositoryImpl.create(dir);
+  const episodioRepo = await EpisodioRepositoryImpl.create(dir);
+  const decisaoRepo = await DecisaoRepositoryImpl.create(dir);
+  const contratoRepo = await ContratoRepositoryImpl.create(dir);
+  const protocoloRepo = await DecisionProtocolRepositoryImpl.create(dir);
+  const eventLog = await EventLogRepositoryImpl.create(dir);
+  const memoryService = new MemoryQueryService(episodioRepo, decisaoRepo, contratoRepo);
+
+  const orquestrador = new OrquestradorCognitivo(
+    situacaoRepo,
+    episodioRepo,
+    decisaoRepo,
+    contratoRepo,
+    memoryService,
+    protocoloRepo,
+    eventLog
+  );
+  orquestrador.ConfigurarExecucoesMultiAgente(
+    new MultiAgentRunRepositoryImpl(path.join(dir, 'multiagent_runs.json'))
+  );
+  await orquestrador.init();
+
+  return { orquestrador, eventLog, episodioRepo, decisaoRepo, contratoRepo, situacaoRepo };
+}
+
+/**
+ * Orquestrador com storage do driver e unidade de trabalho (Inc 29).
+ * uowDriver permite simular queda durante o commit do passo.
+ */
+async function setupComUnidade(dir: string, driver: StorageDriver, uowDriver: StorageDriver = driver) {
+  const situacaoRepo = await SituacaoRepositoryImpl.create(dir, driver);
+  const episodioRepo = await EpisodioRepositoryImpl.create(dir, driver);
+  const decisaoRepo = await DecisaoRepositoryImpl.create(dir, driver);
+  const contratoRepo = await ContratoRepositoryImpl.create(dir, driver);
+  const protocoloRepo = await DecisionProtocolRepositoryImpl.create(dir, driver);
+  const eventLog = await EventLogRepositoryImpl.create(dir);
+  const runRepo = new MultiAgentRunRepositoryImpl(path.join(dir, 'multiagent_runs.json'), driver);
+
+  const orquestrador = new OrquestradorCognitivo(
+    situacaoRepo,
+    episodioRepo,
+    decisaoRepo,
+    contratoRepo,
+    new MemoryQueryService(episodioRepo, decisaoRepo, contratoRepo),
+    protocoloRepo,
+    eventLog
+  );
+  orquestrador.ConfigurarExecucoesMultiAgente(runRepo);
+  orquestrador.ConfigurarUnidadeDeTrabalho(UnitOfWork.forDataDir(dir, uowDriver, eventLog));
+  await orquestrador.init();
+
+  return { orquestrador, eventLog, episodioRepo, decisaoRepo, runRepo };
+}
+
+/**
+ * Driver que simula queda do processo logo após a preparação:
+ * o journal fica PREPARED e nenhuma escrita é aplicada.
+ */
+function crashAfterPrepare(driver: StorageDriver): StorageDriver {
+  const crashing = Object.create(driver) as StorageDriver;
+  crashing.transaction = (work, hooks) => driver.transaction(work, {
+    ...hooks,
+    onPrepare: async (writes: PreparedWrite[]) => {
+      await hooks?.onPrepare?.(writes);
+      throw new Error('queda simulada após PREPARED');
+    }
+  });
+  return crashing;
+}
+
+async function expectMultiAgentError(promise: Promise<unknown>, code: string): Promise<void> {
+  await expect(promise).rejects.toBeInstanceOf(MultiAgentError);
+  await promise.catch((error: MultiAgentError) => expect(error.code).toBe(code));
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 40 - Override humano de execuções multiagente', () => {
+  let testDir: TestDataDir;
+
+  beforeEach(async () => {
+    testDir = await createTestDataDir('inc40-override');
+  });
+
+  afterEach(async () => {
+    await testDir.cleanup();
+  });
+
+  test('execução pendente fica registrada e listada até ser concluída', async () => {
+    const { orquestrador } = await setup(testDir.dir);
+
+    const pendente = await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-pendente'),
+      criarInput('HUMAN_OVERRIDE_REQUIRED')
+    );
+    await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-decidida'),
+      criarInput('FIRST_VALID')
+    );
+
+    const pendentes = await orquestrador.ListarExecucoesPendentesDeOverride();
+    expect(pendentes.map(r => r.runId)).toEqual([pendente.runId]);
+    expect(pendentes[0].agentResults).toHaveLength(2);
+    expect(pendentes[0].agentResults.every(r => r.decisaoCandidato)).toBe(true);
+
+    // Durável: outro orquestrador no mesmo diretório enxerga a pendência
+    const { orquestrador: reaberto } = await setup(testDir.dir);
+    expect((await reaberto.ListarExecucoesPendentesDeOverride()).map(r => r.runId)).toEqual([pendente.runId]);
+
+    await reaberto.ConcluirOverrideHumano(pendente.runId, {
+      actor: 'operador@acme',
+      agentId: 'agressivo-1',
+      justificativa: 'Prazo contratual exige a alternativa B'
+    });
+
+    expect(await reaberto.ListarExecucoesPendentesDeOverride()).toEqual([]);
+  });
+
+  test('conclusão persiste decisão e contrato do agente escolhido', async () => {
+    const { orquestrador, eventLog, episodioRepo, decisaoRepo, contratoRepo, situacaoRepo } = await setup(testDir.dir);
+
+    const pendente = await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-override'),
+      criarInput('HUMAN_OVERRIDE_REQUIRED')
+    );
+    expect(pendente.contratoFinal).toBeNull();
+
+    const concluida = await orquestrador.ConcluirOverrideHumano(
+      pendente.runId,
+      { actor: 'operador@acme', agentId: 'agressivo-1', justificativa: 'Prazo contratual' },
+      { emitidoPara: 'sistema-pagamentos' }
+    );
+
+    expect(concluida.aggregation.noDecisionReason).toBe('HUMAN_OVERRIDE_PENDING');
+    expect(concluida.humanOverride).toMatchObject({
+      actor: 'operador@acme',
+      agentId: 'agressivo-1',
+      justificativa: 'Prazo contratual',
+      alternativaFinal: 'Alternativa B'
+    });
+    expect(concluida.contratoFinal!.alternativa_autorizada).toBe('Alternativa B');
+    expect(concluida.contratoFinal!.emitido_para).toBe('sistema-pagamentos');
+
+    const escolhido = pendente.agentResults.find(r => r.agentId === 'agressivo-1')!;
+    const decisao = await decisaoRepo.getByEpisodioId(pendente.episodioId);
+    expect(decisao!.id).toBe(escolhido.decisaoId);
+    expect(await contratoRepo.getByEpisodioId(pendente.episodioId)).toMatchObject({
+      id: concluida.humanOverride!.contratoId
+    });
+    expect((await episodioRepo.getById(pendente.episodioId))!.estado).toBe(EstadoEpisodio.DECIDIDO);
+    expect((await situacaoRepo.getById('sit-override'))!.status).toBe(StatusSituacao.DECIDIDA);
+
+    // Execução registrada reflete a conclusão
+    const registrada = await orquestrador.GetExecucaoMultiAgente(pendente.runId);
+    expect(registrada!.humanOverride!.selectedAt).toBeInstanceOf(Date);
+    expect(registrada!.contratoFinal!.id).toBe(concluida.contratoFinal!.id);
+
+    const eventos = await eventLog.getByEvento(TipoEvento.MULTIAGENT_HUMAN_OVERRIDE_SELECTED);
+    expect(eventos).toHaveLength(1);
+    expect(eventos[0].actor).toBe('operador@acme');
+    expect(eventos[0].entidade_id).toBe(pendente.runId);
+  });
+
+  test('segunda conclusão da mesma execução é recusada', async () => {
+    const { orquestrador, eventLog } = await setup(testDir.dir);
+
+    const pendente = await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-duas-vezes'),
+      criarInput('HUMAN_OVERRIDE_REQUIRED')
+    );
+    const escolha = { actor: 'operador@acme', agentId: 'conservador-1', justificativa: 'Menor risco' };
+
+    await orquestrador.ConcluirOverrideHumano(pendente.runId, escolha);
+    await expectMultiAgentError(
+      orquestrador.ConcluirOverrideHumano(pendente.runId, { ...escolha, agentId: 'agressivo-1' }),
+      'HUMAN_OVERRIDE_ALREADY_APPLIED'
+    );
+
+    expect(await eventLog.getByEvento(TipoEvento.MULTIAGENT_HUMAN_OVERRIDE_SELECTED)).toHaveLength(1);
+  });
+
+  test('conclusões concorrentes: só uma é aplicada, a outra recebe HUMAN_OVERRIDE_IN_PROGRESS', async () => {
+    const { orquestrador, eventLog } = await setup(testDir.dir);
+
+    const pendente = await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-concorrente'),
+      criarInput('HUMAN_OVERRIDE_REQUIRED')
+    );
+    const escolha = { actor: 'operador@acme', agentId: 'conservador-1', justificativa: 'Menor risco' };
+
+    const resultados = await Promise.allSettled([
+      orquestrador.ConcluirOverrideHumano(pendente.runId, escolha),
+      orquestrador.ConcluirOverrideHumano(pendente.runId, escolha)
+    ]);
+
+    expect(resultados.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+    const recusada = resultados.find(r => r.status === 'rejected') as PromiseRejectedResult;
+    expect(recusada.reason).toBeInstanceOf(MultiAgentError);
+    expect(recusada.reason.code).toBe('HUMAN_OVERRIDE_IN_PROGRESS');
+    expect(await eventLog.getByEvento(TipoEvento.MULTIAGENT_HUMAN_OVERRIDE_SELECTED)).toHaveLength(1);
+
+    // Depois de gravada, a conclusão é recusada como já aplicada
+    await expectMultiAgentError(
+      orquestrador.ConcluirOverrideHumano(pendente.runId, escolha),
+      'HUMAN_OVERRIDE_ALREADY_APPLIED'
+    );
+  });
+
+  test('recusa execução não pendente, inexistente, agente ausente ou bloqueado e justificativa vazia', async () => {
+    const { orquestrador } = await setup(testDir.dir);
+
+    const decidida = await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-ja-decidida'),
+      criarInput('FIRST_VALID')
+    );
+    // Sem critérios: Camada Fechada bloqueia o CONSERVADOR
+    const pendente = await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-bloqueio'),
+      criarInput('HUMAN_OVERRIDE_REQUIRED', [])
+    );
+    const escolha = { actor: 'operador@acme', agentId: 'agressivo-1', justificativa: 'Ok' };
+
+    await expectMultiAgentError(
+      orquestrador.ConcluirOverrideHumano(decidida.runId, escolha),
+      'HUMAN_OVERRIDE_NOT_PENDING'
+    );
+    await expectMultiAgentError(
+      orquestrador.ConcluirOverrideHumano('run-inexistente', escolha),
+      'RUN_NOT_FOUND'
+    );
+    await expectMultiAgentError(
+      orquestrador.ConcluirOverrideHumano(pendente.runId, { ...escolha, agentId: 'moderado-9' }),
+      'AGENT_NOT_IN_RUN'
+    );
+    await expectMultiAgentError(
+      orquestrador.ConcluirOverrideHumano(pendente.runId, { ...escolha, agentId: 'conservador-1' }),
+      'AGENT_BLOCKED'
+    );
+    await expectMultiAgentError(
+      orquestrador.ConcluirOverrideHumano(pendente.runId, { ...escolha, justificativa: '  ' }),
+      'JUSTIFICATIVA_REQUIRED'
+    );
+
+    // Recusas não consomem a pendência
+    const concluida = await orquestrador.ConcluirOverrideHumano(pendente.runId, escolha);
+    expect(concluida.humanOverride!.agentId).toBe('agressivo-1');
+  });
+});
+
+describe('Incremento 40 - Conclusão do override como passo atômico', () => {
+  let testDir: TestDataDir;
+  let driver: StorageDriver;
+
+  const escolha = { actor: 'operador@acme', agentId: 'agressivo-1', justificativa: 'Prazo contratual' };
+
+  beforeEach(async () => {
+    testDir = await createTestDataDir('inc40-override-uow');
+    driver = await createStorageDriver('json', testDir.dir);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await driver.close();
+    await testDir.cleanup();
+  });
+
+  test('queda após PREPARED: reinício conclui o override e nova tentativa é recusada', async () => {
+    const { orquestrador } = await setupComUnidade(testDir.dir, driver);
+    const pendente = await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-queda'),
+      criarInput('HUMAN_OVERRIDE_REQUIRED')
+    );
+
+    const caido = await setupComUnidade(testDir.dir, driver, crashAfterPrepare(driver));
+    await expect(caido.orquestrador.ConcluirOverrideHumano(pendente.runId, escolha))
+      .rejects.toThrow('queda simulada');
+    expect((await caido.runRepo.getById(pendente.runId))!.humanOverride).toBeUndefined();
+    expect(await driver.collection(STORAGE_COLLECTIONS.decisoes).count()).toBe(0);
+
+    // Reinício: o passo é concluído pela recuperação
+    const reiniciado = await setupComUnidade(testDir.dir, driver);
+    expect(reiniciado.orquestrador.GetRecoveryReport()!.items[0]).toMatchObject({
+      step: 'ConcluirOverrideHumano',
+      action: 'ROLLED_FORWARD'
+    });
+
+    const registrada = (await reiniciado.runRepo.getById(pendente.runId))!;
+    expect(registrada.humanOverride!.agentId).toBe('agressivo-1');
+    expect((await reiniciado.episodioRepo.getById(pendente.episodioId))!.estado)
+      .toBe(EstadoEpisodio.DECIDIDO);
+
+    // Nova tentativa após o reinício não decide o episódio de novo
+    await expectMultiAgentError(
+      reiniciado.orquestrador.ConcluirOverrideHumano(pendente.runId, { ...escolha, agentId: 'conservador-1' }),
+      'HUMAN_OVERRIDE_ALREADY_APPLIED'
+    );
+    expect(await reiniciado.eventLog.getByEvento(TipoEvento.MULTIAGENT_HUMAN_OVERRIDE_SELECTED)).toHaveLength(1);
+    expect(await reiniciado.eventLog.getByEvento(TipoEvento.DECISAO_REGISTRADA)).toHaveLength(1);
+    expect((await reiniciado.eventLog.verifyChain()).valid).toBe(true);
+  });
+
+  test('falha no meio do passo não grava nada e a nova tentativa conclui', async () => {
+    const { orquestrador, eventLog, episodioRepo, decisaoRepo, runRepo } = await setupComUnidade(testDir.dir, driver);
+    const pendente = await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-falha'),
+      criarInput('HUMAN_OVERRIDE_REQUIRED')
+    );
+
+    // Falha na última escrita, depois de decisão, contrato e episódio
+    jest.spyOn(runRepo, 'update').mockRejectedValueOnce(new Error('falha simulada'));
+    await expect(orquestrador.ConcluirOverrideHumano(pendente.runId, escolha)).rejects.toThrow('falha simulada');
+
+    expect(await decisaoRepo.getByEpisodioId(pendente.episodioId)).toBeNull();
+    expect((await episodioRepo.getById(pendente.episodioId))!.estado).toBe(EstadoEpisodio.CRIADO);
+    expect(await eventLog.getByEvento(TipoEvento.MULTIAGENT_HUMAN_OVERRIDE_SELECTED)).toHaveLength(0);
+    expect((await orquestrador.ListarExecucoesPendentesDeOverride()).map(r => r.runId)).toEqual([pendente.runId]);
+
+    const concluida = await orquestrador.ConcluirOverrideHumano(pendente.runId, escolha);
+    expect(concluida.humanOverride!.agentId).toBe('agressivo-1');
+    expect(await eventLog.getByEvento(TipoEvento.MULTIAGENT_HUMAN_OVERRIDE_SELECTED)).toHaveLength(1);
+  });
+
+  test('episódio que já saiu de CRIADO recusa o override', async () => {
+    const { orquestrador, episodioRepo, decisaoRepo } = await setupComUnidade(testDir.dir, driver);
+    const pendente = await orquestrador.ProcessarSolicitacaoMultiAgente(
+      criarSituacao('sit-decidido'),
+      criarInput('HUMAN_OVERRIDE_REQUIRED')
+    );
+    await episodioRepo.updateEstado(pendente.episodioId, EstadoEpisodio.DECIDIDO);
+
+    await expectMultiAgentError(
+      orquestrador.ConcluirOverrideHumano(pendente.runId, escolha),
+      'EPISODIO_NOT_CRIADO'
+    );
+    expect(await decisaoRepo.getByEpisodioId(pendente.episodioId)).toBeNull();
+    expect(await orquestrador.ListarExecucoesPendentesDeOverride()).toHaveLength(1);
+  });
+});
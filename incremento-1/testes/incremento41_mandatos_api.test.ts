@@ -0,0 +1,355 @@
+/**
+ * TESTES - Incremento 41: Gestão de Mandatos pelo Gateway
+ *
+ * Testa:
+ * - Concessão com validade e maxUses; concedido_por = keyId da chave
+ * - Validação de perfil_risco_maximo e politicas_permitidas
+ * - Revogação com motivo; revogado_por = keyId
+ * - Retomada de mandato suspenso por consequência
+ * - Mandato ativo por agente
+ * - RBAC: tenant_admin do tenant ou global_admin
+ */
+
+import { FastifyInstance } from 'fastify';
+
+import { TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+describe('Incremento 41 - Rotas de mandatos de autonomia', () => {
+  const TEST_PEPPER = 'test-pepper-inc41-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc41-' + Date.now();
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+  let tenantAdmin: { authorization: string };
+  let tenantAdminKeyId: string;
+  let publicAuth: { authorization: string };
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  const mandatoValido = (overrides: Record<string, unknown> = {}) => ({
+    agentId: 'agente-1',
+    modo: 'VIVENCIA_ASSISTIDA',
+    politicas_permitidas: ['FIRST_VALID', 'MAJORITY_BY_ALTERNATIVE'],
+    perfil_risco_maximo: 'MODERADO',
+    ...overrides
+  });
+
+  async function conceder(payload: Record<string, unknown>, headers = tenantAdmin) {
+    return app.inject({ method: 'POST', url: '/admin/tenants/acme/mandates', headers, payload });
+  }
+
+  async function eventosDoMandato(mandateId: string) {
+    const instance = await app.runtime.getOrCreate('acme');
+    const eventos = await instance.eventLog.getAll();
+    return eventos.filter(e => e.entidade_id === mandateId);
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc41-mandatos');
+
+    const config: GatewayConfig = {
+      baseDir: dataDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'outro', name: 'Outro' } });
+
+    const adminKey = JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'tenant_admin' }
+    })).body);
+    tenantAdmin = { authorization: `Bearer ${adminKey.token}` };
+    tenantAdminKeyId = adminKey.keyId;
+
+    const publicKey = JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    })).body);
+    publicAuth = { authorization: `Bearer ${publicKey.token}` };
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('concede mandato com validade e maxUses registrando o keyId', async () => {
+    const validFrom = new Date(Date.now() - 60_000).toISOString();
+    const validUntil = new Date(Date.now() + 3_600_000).toISOString();
+
+    const response = await conceder(mandatoValido({ validFrom, validUntil, maxUses: 3 }));
+    expect(response.statusCode).toBe(201);
+
+    const mandato = JSON.parse(response.body);
+    expect(mandato.id).toMatch(/^mandate-/);
+    expect(mandato.concedido_por).toBe(tenantAdminKeyId);
+    expect(mandato).toMatchObject({ validFrom, validUntil, maxUses: 3, uses: 0, status: 'active', revogado: false });
+
+    const eventos = await eventosDoMandato(mandato.id);
+    expect(eventos.map(e => e.evento)).toEqual([TipoEvento.AUTONOMY_GRANTED]);
+    expect(eventos[0].actor).toBe(tenantAdminKeyId);
+  });
+
+  test('concedido_por do corpo é ignorado', async () => {
+    const response = await conceder(mandatoValido({ agentId: 'agente-forjado', concedido_por: 'outra-pessoa' }));
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body).concedido_por).toBe(tenantAdminKeyId);
+  });
+
+  test('rejeita perfil_risco_maximo e politicas_permitidas malformados', async () => {
+    const casos = [
+      mandatoValido({ perfil_risco_maximo: 'TEMERARIO' }),
+      mandatoValido({ perfil_risco_maximo: undefined }),
+      mandatoValido({ politicas_permitidas: [] }),
+      mandatoValido({ politicas_permitidas: 'FIRST_VALID' }),
+      mandatoValido({ politicas_permitidas: ['FIRST_VALID', 'QUALQUER'] }),
+      mandatoValido({ politicas_permitidas: ['FIRST_VALID', 'FIRST_VALID'] })
+    ];
+
+    for (const payload of casos) {
+      const response = await conceder(payload);
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe('Invalid mandate');
+    }
+  });
+
+  test('rejeita validade e maxUses inválidos', async () => {
+    const response = await conceder(mandatoValido({
+      modo: 'LIVRE',
+      validFrom: 'amanha',
+      maxUses: 0
+    }));
+    expect(response.statusCode).toBe(400);
+    const { details } = JSON.parse(response.body);
+    expect(details).toEqual(expect.arrayContaining([
+      expect.stringContaining('modo'),
+      expect.stringContaining('validFrom'),
+      expect.stringContaining('maxUses')
+    ]));
+
+    const invertida = await conceder(mandatoValido({
+      validFrom: '2026-02-01T00:00:00.000Z',
+      validUntil: '2026-01-01T00:00:00.000Z'
+    }));
+    expect(invertida.statusCode).toBe(400);
+  });
+
+  test('lista um mandato ativo por agente', async () => {
+    await conceder(mandatoValido({ agentId: 'agente-lista' }));
+    await conceder(mandatoValido({ agentId: 'agente-lista', modo: 'VIVENCIA_AUTONOMA' }));
+    await conceder(mandatoValido({ agentId: 'agente-futuro', validFrom: new Date(Date.now() + 3_600_000).toISOString() }));
+
+    const todos = JSON.parse((await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/acme/mandates/active',
+      headers: tenantAdmin
+    })).body);
+    const agentes = todos.mandates.map((m: any) => m.agentId);
+    expect(agentes).toContain('agente-lista');
+    expect(agentes).not.toContain('agente-futuro');
+    expect(new Set(agentes).size).toBe(agentes.length);
+    expect(todos.count).toBe(todos.mandates.length);
+
+    const doAgente = JSON.parse((await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/acme/mandates/active?agentId=agente-lista',
+      headers: tenantAdmin
+    })).body);
+    expect(doAgente.count).toBe(1);
+    expect(doAgente.mandates[0].agentId).toBe('agente-lista');
+
+    const semMandato = JSON.parse((await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/acme/mandates/active?agentId=ninguem',
+      headers: tenantAdmin
+    })).body);
+    expect(semMandato).toEqual({ mandates: [], count: 0 });
+  });
+
+  test('revoga com motivo registrando o keyId', async () => {
+    const mandato = JSON.parse((await conceder(mandatoValido({ agentId: 'agente-revogado' }))).body);
+
+    const semMotivo = await app.inject({
+      method: 'POST',
+      url: `/admin/tenants/acme/mandates/${mandato.id}/revoke`,
+      headers: tenantAdmin,
+      payload: {}
+    });
+    expect(semMotivo.statusCode).toBe(400);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/admin/tenants/acme/mandates/${mandato.id}/revoke`,
+      headers: tenantAdmin,
+      payload: { motivo: 'Fim do piloto' }
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      revogado: true,
+      status: 'revoked',
+      revogado_por: tenantAdminKeyId,
+      motivo_revogacao: 'Fim do piloto'
+    });
+
+    const revogado = (await eventosDoMandato(mandato.id)).find(e => e.evento === TipoEvento.AUTONOMY_REVOKED);
+    expect(revogado?.actor).toBe(tenantAdminKeyId);
+
+    const ativos = JSON.parse((await app.inject({
+      method: 'GET',
+      url: '/admin/tenants/acme/mandates/active?agentId=agente-revogado',
+      headers: tenantAdmin
+    })).body);
+    expect(ativos.count).toBe(0);
+
+    const denovo = await app.inject({
+      method: 'POST',
+      url: `/admin/tenants/acme/mandates/${mandato.id}/revoke`,
+      headers: tenantAdmin,
+      payload: { motivo: 'De novo' }
+    });
+    expect(denovo.statusCode).toBe(409);
+
+    const inexistente = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/mandates/mandate-nada/revoke',
+      headers: tenantAdmin,
+      payload: { motivo: 'x' }
+    });
+    expect(inexistente.statusCode).toBe(404);
+  });
+
+  test('retoma mandato suspenso por consequência', async () => {
+    const mandato = JSON.parse((await conceder(mandatoValido({ agentId: 'agente-suspenso' }))).body);
+
+    const instance = await app.runtime.getOrCreate('acme');
+    await (instance.orquestrador as any).autonomyMandateRepo.suspend(mandato.id, 'Perda registrada', 'obs-1');
+
+    const semMotivo = await app.inject({
+      method: 'POST',
+      url: `/admin/tenants/acme/mandates/${mandato.id}/resume`,
+      headers: tenantAdmin,
+      payload: {}
+    });
+    expect(semMotivo.statusCode).toBe(400);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/admin/tenants/acme/mandates/${mandato.id}/resume`,
+      headers: tenantAdmin,
+      payload: { motivo: 'Causa corrigida' }
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).status).toBe('active');
+
+    const retomado = (await eventosDoMandato(mandato.id)).find(e => e.evento === TipoEvento.AUTONOMY_RESUMED);
+    expect(retomado?.actor).toBe(tenantAdminKeyId);
+
+    await app.inject({
+      method: 'POST',
+      url: `/admin/tenants/acme/mandates/${mandato.id}/revoke`,
+      headers: tenantAdmin,
+      payload: { motivo: 'Encerrado' }
+    });
+    const aposRevogar = await app.inject({
+      method: 'POST',
+      url: `/admin/tenants/acme/mandates/${mandato.id}/resume`,
+      headers: tenantAdmin,
+      payload: { motivo: 'Tentativa' }
+    });
+    expect(aposRevogar.statusCode).toBe(409);
+  });
+
+  test('global_admin registra o keyId do token administrativo', async () => {
+    const response = await conceder(mandatoValido({ agentId: 'agente-global' }), admin);
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body).concedido_por).toBe('legacy-admin');
+  });
+
+  test('chave pública e tenant_admin de outro tenant recebem 403', async () => {
+    const publica = await conceder(mandatoValido(), publicAuth);
+    expect(publica.statusCode).toBe(403);
+
+    const outroTenant = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/outro/mandates',
+      headers: tenantAdmin,
+      payload: mandatoValido()
+    });
+    expect([401, 403]).toContain(outroTenant.statusCode);
+  });
+});
+
+describe('Incremento 41 - Mandatos em dev sem adminToken', () => {
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = 'test-pepper-inc41-dev-' + Date.now();
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc41-mandatos-dev');
+    app = await buildApp({
+      config: {
+        baseDir: dataDir.dir,
+        port: 0,
+        host: '127.0.0.1',
+        adminToken: '',
+        corsOrigins: ['*'],
+        logLevel: 'warn',
+        nodeEnv: 'test'
+      }
+    });
+    await app.inject({ method: 'POST', url: '/admin/tenants', payload: { id: 'acme', name: 'Acme' } });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('concede e revoga atribuindo a ação ao ator dev-admin', async () => {
+    const concedido = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/mandates',
+      payload: {
+        agentId: 'agente-dev',
+        modo: 'VIVENCIA_ASSISTIDA',
+        politicas_permitidas: ['FIRST_VALID'],
+        perfil_risco_maximo: 'MODERADO'
+      }
+    });
+    expect(concedido.statusCode).toBe(201);
+    const mandato = JSON.parse(concedido.body);
+    expect(mandato.concedido_por).toBe('dev-admin');
+
+    const revogado = await app.inject({
+      method: 'POST',
+      url: `/admin/tenants/acme/mandates/${mandato.id}/revoke`,
+      payload: { motivo: 'Encerrado' }
+    });
+    expect(revogado.statusCode).toBe(200);
+    expect(JSON.parse(revogado.body).revogado_por).toBe('dev-admin');
+  });
+});
@@ -0,0 +1,443 @@
+/**
+ * TESTES - Incremento 42: Revisão Humana pelo Gateway
+ *
+ * Testa:
+ * - ReviewCaseRepositoryImpl: versão, claim/release, conflito de versão
+ * - Rotas /admin/tenants/:id/reviews/:reviewId/* com revisor = keyId (dev-admin em dev sem adminToken)
+ * - Dois revisores não resolvem o mesmo caso; notas só pelo revisor que assumiu
+ * - Efeito RESUME_MANDATE aplicado pela resolução
+ * - Projeção (Inc 35) consistente após claim/release
+ */
+
+import * as path from 'path';
+import { FastifyInstance } from 'fastify';
+
+import {
+  ReviewCaseRepositoryImpl,
+  ReviewCaseService,
+  ReviewCase,
+  CreateReviewCaseInput,
+  ReviewVersionConflictError,
+  ReviewCaseClaimedError,
+  InvalidReviewTransitionError
+} from '../camada-3/review';
+import { ConsequenceAction } from '../camada-3/autonomy/consequence';
+import { TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+function caseInput(observacaoId: string, tenantId = 'acme', mandateId?: string): CreateReviewCaseInput {
+  return {
+    tenantId,
+    triggeredBy: {
+      observacaoId,
+      mandateId,
+      ruleId: 'RULE_19_4_LEGAL_ETICA_ALTA_HUMAN_REVIEW',
+      actionSuggested: ConsequenceAction.FLAG_HUMAN_REVIEW
+    },
+    contextSnapshot: { agentId: 'agente-1' }
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: REPOSITÓRIO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 42 - ReviewCaseRepositoryImpl', () => {
+  let dataDir: TestDataDir;
+  let repo: ReviewCaseRepositoryImpl;
+
+  beforeEach(async () => {
+    dataDir = await createTestDataDir('inc42-repo');
+    repo = new ReviewCaseRepositoryImpl(path.join(dataDir.dir, 'review_cases.json'));
+  });
+
+  afterEach(async () => {
+    await dataDir.cleanup();
+  });
+
+  test('caso nasce na versão 1 e cada mudança incrementa', async () => {
+    const { reviewCase } = await repo.createOrGetOpenByObservacaoId(caseInput('obs-1'));
+    expect(reviewCase.version).toBe(1);
+
+    const { reviewCase: claimed, changed } = await repo.claim('acme', reviewCase.id, 'rev-a', 1);
+    expect(changed).toBe(true);
+    expect(claimed).toMatchObject({ version: 2, claimedBy: 'rev-a' });
+    expect(claimed.claimedAt).toBeDefined();
+
+    const noted = await repo.updateNotes('acme', reviewCase.id, 'Analisando', 'rev-a', 2);
+    expect(noted.version).toBe(3);
+
+    const resolved = await repo.resolve('acme', reviewCase.id, {
+      decidedBy: 'rev-a',
+      resolution: 'APPROVE',
+      notes: 'Ok',
+      expectedVersion: 3
+    });
+    expect(resolved).toMatchObject({ status: 'RESOLVED', version: 4 });
+  });
+
+  test('expectedVersion desatualizado é recusado', async () => {
+    const { reviewCase } = await repo.createOrGetOpenByObservacaoId(caseInput('obs-2'));
+    await repo.updateNotes('acme', reviewCase.id, 'Nota', 'rev-a');
+
+    await expect(repo.resolve('acme', reviewCase.id, {
+      decidedBy: 'rev-b',
+      resolution: 'REJECT',
+      notes: 'Não',
+      expectedVersion: 1
+    })).rejects.toThrow(ReviewVersionConflictError);
+
+    expect((await repo.getById('acme', reviewCase.id))!.status).toBe('OPEN');
+  });
+
+  test('caso assumido só é resolvido ou devolvido pelo revisor que assumiu', async () => {
+    const { reviewCase } = await repo.createOrGetOpenByObservacaoId(caseInput('obs-3'));
+    await repo.claim('acme', reviewCase.id, 'rev-a');
+
+    // Idempotente para o mesmo revisor
+    const repetido = await repo.claim('acme', reviewCase.id, 'rev-a');
+    expect(repetido.changed).toBe(false);
+    expect(repetido.reviewCase.version).toBe(2);
+
+    await expect(repo.claim('acme', reviewCase.id, 'rev-b')).rejects.toThrow(ReviewCaseClaimedError);
+    await expect(repo.release('acme', reviewCase.id, 'rev-b')).rejects.toThrow(ReviewCaseClaimedError);
+    await expect(repo.dismiss('acme', reviewCase.id, { dismissedBy: 'rev-b', notes: 'x' }))
+      .rejects.toThrow(ReviewCaseClaimedError);
+
+    const { reviewCase: released } = await repo.release('acme', reviewCase.id, 'rev-a');
+    expect(released.claimedBy).toBeUndefined();
+    expect(released.version).toBe(3);
+
+    const dismissed = await repo.dismiss('acme', reviewCase.id, { dismissedBy: 'rev-b', notes: 'Duplicado' });
+    expect(dismissed.status).toBe('DISMISSED');
+    await expect(repo.claim('acme', reviewCase.id, 'rev-a')).rejects.toThrow(InvalidReviewTransitionError);
+  });
+
+  test('notas só pelo revisor que assumiu e só com o caso OPEN', async () => {
+    const { reviewCase } = await repo.createOrGetOpenByObservacaoId(caseInput('obs-5'));
+    await repo.claim('acme', reviewCase.id, 'rev-a');
+
+    await expect(repo.updateNotes('acme', reviewCase.id, 'Sobrescrita', 'rev-b'))
+      .rejects.toThrow(ReviewCaseClaimedError);
+
+    await repo.updateNotes('acme', reviewCase.id, 'Analisando', 'rev-a');
+    await repo.resolve('acme', reviewCase.id, { decidedBy: 'rev-a', resolution: 'APPROVE', notes: 'Ok' });
+
+    await expect(repo.updateNotes('acme', reviewCase.id, 'Depois', 'rev-a'))
+      .rejects.toThrow(InvalidReviewTransitionError);
+    expect((await repo.getById('acme', reviewCase.id))!.decision!.notes).toBe('Ok');
+  });
+
+  test('release de caso não assumido não muda o caso', async () => {
+    const { reviewCase } = await repo.createOrGetOpenByObservacaoId(caseInput('obs-6'));
+
+    const { reviewCase: atual, changed } = await repo.release('acme', reviewCase.id, 'rev-a');
+    expect(changed).toBe(false);
+    expect(atual.version).toBe(1);
+  });
+
+  test('caso sem version (anterior ao Inc 42) vale como versão 1', async () => {
+    const { reviewCase } = await repo.createOrGetOpenByObservacaoId(caseInput('obs-4'));
+    const legado: ReviewCase = { ...reviewCase };
+    delete legado.version;
+    await (repo as any).store.put([legado]);
+
+    const { reviewCase: claimed } = await repo.claim('acme', reviewCase.id, 'rev-a', 1);
+    expect(claimed.version).toBe(2);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 42 - Rotas de revisão humana', () => {
+  const TEST_PEPPER = 'test-pepper-inc42-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc42-' + Date.now();
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+  let revisorA: { authorization: string };
+  let revisorAKeyId: string;
+  let revisorB: { authorization: string };
+  let revisorBKeyId: string;
+  let publicAuth: { authorization: string };
+  let obsSeq = 0;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  async function criarChave(role: 'public' | 'tenant_admin') {
+    return JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role }
+    })).body);
+  }
+
+  async function abrirCaso(mandateId?: string): Promise<ReviewCase> {
+    const instance = await app.runtime.getOrCreate('acme');
+    const service = new ReviewCaseService({
+      reviewRepo: (instance.orquestrador as any).reviewCaseRepo,
+      eventLog: instance.eventLog
+    });
+    const { reviewCase } = await service.createOrGetOpen(caseInput(`obs-gw-${++obsSeq}`, 'acme', mandateId));
+    return reviewCase;
+  }
+
+  function post(url: string, headers: { authorization: string }, payload: Record<string, unknown> = {}) {
+    return app.inject({ method: 'POST', url: `/admin/tenants/acme/reviews/${url}`, headers, payload });
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc42-revisao');
+
+    const config: GatewayConfig = {
+      baseDir: dataDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+
+    const keyA = await criarChave('tenant_admin');
+    revisorA = { authorization: `Bearer ${keyA.token}` };
+    revisorAKeyId = keyA.keyId;
+    const keyB = await criarChave('tenant_admin');
+    revisorB = { authorization: `Bearer ${keyB.token}` };
+    revisorBKeyId = keyB.keyId;
+    const publicKey = await criarChave('public');
+    publicAuth = { authorization: `Bearer ${publicKey.token}` };
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('claim, notas e resolução registram o keyId do revisor', async () => {
+    const caso = await abrirCaso();
+
+    const claim = await post(`${caso.id}/claim`, revisorA, { expectedVersion: 1 });
+    expect(claim.statusCode).toBe(200);
+    expect(JSON.parse(claim.body).reviewCase).toMatchObject({ claimedBy: revisorAKeyId, version: 2 });
+
+    const notas = await app.inject({
+      method: 'PUT',
+      url: `/admin/tenants/acme/reviews/${caso.id}/notes`,
+      headers: revisorA,
+      payload: { notes: 'Cliente confirmou o erro', expectedVersion: 2 }
+    });
+    expect(notas.statusCode).toBe(200);
+
+    const resolve = await post(`${caso.id}/resolve`, revisorA, {
+      resolution: 'APPROVE',
+      notes: 'Procedente',
+      decidedBy: 'nome-livre',
+      expectedVersion: 3
+    });
+    expect(resolve.statusCode).toBe(200);
+    const body = JSON.parse(resolve.body);
+    expect(body.reviewCase).toMatchObject({ status: 'RESOLVED', version: 4 });
+    expect(body.reviewCase.decision).toMatchObject({ decidedBy: revisorAKeyId, resolution: 'APPROVE' });
+    expect(body.effectsApplied).toEqual([]);
+
+    const instance = await app.runtime.getOrCreate('acme');
+    const eventos = (await instance.eventLog.getAll()).filter(e => e.entidade_id === caso.id);
+    expect(eventos.map(e => e.evento)).toEqual([
+      TipoEvento.HUMAN_REVIEW_CASE_OPENED,
+      TipoEvento.HUMAN_REVIEW_CASE_CLAIMED,
+      TipoEvento.HUMAN_REVIEW_CASE_NOTES_UPDATED,
+      TipoEvento.HUMAN_REVIEW_CASE_RESOLVED
+    ]);
+    expect(eventos.slice(1).every(e => e.actor === revisorAKeyId)).toBe(true);
+  });
+
+  test('dois revisores não resolvem o mesmo caso', async () => {
+    const caso = await abrirCaso();
+
+    const [a, b] = await Promise.all([
+      post(`${caso.id}/resolve`, revisorA, { resolution: 'APPROVE', notes: 'A', expectedVersion: 1 }),
+      post(`${caso.id}/resolve`, revisorB, { resolution: 'REJECT', notes: 'B', expectedVersion: 1 })
+    ]);
+
+    expect([a.statusCode, b.statusCode].sort()).toEqual([200, 409]);
+    const perdedor = a.statusCode === 409 ? a : b;
+    expect(JSON.parse(perdedor.body).code).toBe('REVIEW_VERSION_CONFLICT');
+
+    const vencedor = a.statusCode === 200 ? revisorAKeyId : revisorBKeyId;
+    const instance = await app.runtime.getOrCreate('acme');
+    const atual = await instance.orquestrador.GetCasoRevisao(caso.id);
+    expect(atual!.decision!.decidedBy).toBe(vencedor);
+  });
+
+  test('caso assumido por outro revisor responde 409', async () => {
+    const caso = await abrirCaso();
+    await post(`${caso.id}/claim`, revisorA);
+
+    const claimB = await post(`${caso.id}/claim`, revisorB);
+    expect(claimB.statusCode).toBe(409);
+    expect(JSON.parse(claimB.body).code).toBe('REVIEW_CASE_CLAIMED');
+
+    const resolveB = await post(`${caso.id}/resolve`, revisorB, { resolution: 'REJECT', notes: 'x', expectedVersion: 2 });
+    expect(resolveB.statusCode).toBe(409);
+    expect(JSON.parse(resolveB.body).code).toBe('REVIEW_CASE_CLAIMED');
+
+    const notasB = await app.inject({
+      method: 'PUT',
+      url: `/admin/tenants/acme/reviews/${caso.id}/notes`,
+      headers: revisorB,
+      payload: { notes: 'Sobrescrita', expectedVersion: 2 }
+    });
+    expect(notasB.statusCode).toBe(409);
+    expect(JSON.parse(notasB.body).code).toBe('REVIEW_CASE_CLAIMED');
+
+    const release = await post(`${caso.id}/release`, revisorA, { expectedVersion: 2 });
+    expect(release.statusCode).toBe(200);
+
+    const dismiss = await post(`${caso.id}/dismiss`, revisorB, { notes: 'Duplicado', expectedVersion: 3 });
+    expect(dismiss.statusCode).toBe(200);
+    expect(JSON.parse(dismiss.body).reviewCase.decision.decidedBy).toBe(revisorBKeyId);
+
+    const denovo = await post(`${caso.id}/dismiss`, revisorB, { notes: 'De novo', expectedVersion: 4 });
+    expect(denovo.statusCode).toBe(409);
+    expect(JSON.parse(denovo.body).code).toBe('INVALID_REVIEW_TRANSITION');
+  });
+
+  test('resolução aplica RESUME_MANDATE com o revisor como ator', async () => {
+    const mandato = JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/mandates',
+      headers: revisorA,
+      payload: {
+        agentId: 'agente-revisado',
+        modo: 'VIVENCIA_ASSISTIDA',
+        politicas_permitidas: ['FIRST_VALID'],
+        perfil_risco_maximo: 'MODERADO'
+      }
+    })).body);
+    const instance = await app.runtime.getOrCreate('acme');
+    await (instance.orquestrador as any).autonomyMandateRepo.suspend(mandato.id, 'Violação de limite', 'obs-mandato');
+    const caso = await abrirCaso(mandato.id);
+
+    const resolve = await post(`${caso.id}/resolve`, revisorA, {
+      resolution: 'APPROVE',
+      notes: 'Limite estava mal configurado',
+      effects: ['RESUME_MANDATE'],
+      expectedVersion: 1
+    });
+    expect(resolve.statusCode).toBe(200);
+    expect(JSON.parse(resolve.body).effectsApplied).toEqual(['RESUME_MANDATE']);
+
+    expect((await instance.orquestrador.GetMandato(mandato.id))!.status).toBe('active');
+    const retomado = (await instance.eventLog.getAll())
+      .find(e => e.evento === TipoEvento.AUTONOMY_RESUMED && e.entidade_id === mandato.id);
+    expect(retomado?.actor).toBe(revisorAKeyId);
+  });
+
+  test('validação do corpo e caso inexistente', async () => {
+    const caso = await abrirCaso();
+
+    const semVersao = await post(`${caso.id}/resolve`, revisorA, { resolution: 'APPROVE', notes: 'x' });
+    expect(semVersao.statusCode).toBe(400);
+
+    const invalido = await post(`${caso.id}/resolve`, revisorA, {
+      resolution: 'TALVEZ',
+      effects: ['APAGAR'],
+      expectedVersion: 0
+    });
+    expect(invalido.statusCode).toBe(400);
+    expect(JSON.parse(invalido.body).details).toHaveLength(3);
+
+    const semNotas = await post(`${caso.id}/resolve`, revisorA, { resolution: 'REJECT', expectedVersion: 1 });
+    expect(semNotas.statusCode).toBe(400);
+    expect(JSON.parse(semNotas.body).code).toBe('REVIEW_NOTES_REQUIRED');
+
+    const inexistente = await post('review_nada/claim', revisorA);
+    expect(inexistente.statusCode).toBe(404);
+  });
+
+  test('chave pública recebe 403', async () => {
+    const caso = await abrirCaso();
+
+    const response = await post(`${caso.id}/claim`, publicAuth);
+    expect(response.statusCode).toBe(403);
+  });
+
+  test('projeção continua consistente após claim e release', async () => {
+    const caso = await abrirCaso();
+    await post(`${caso.id}/claim`, revisorB);
+    await post(`${caso.id}/release`, revisorB);
+
+    const projection = await app.inject({ method: 'GET', url: '/admin/tenants/acme/audit/projection', headers: admin });
+    const report = JSON.parse(projection.body);
+    expect(report.divergences.filter((d: any) => d.collection === 'reviewCases')).toEqual([]);
+  });
+});
+
+describe('Incremento 42 - Revisão em dev sem adminToken', () => {
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = 'test-pepper-inc42-dev-' + Date.now();
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc42-revisao-dev');
+    app = await buildApp({
+      config: {
+        baseDir: dataDir.dir,
+        port: 0,
+        host: '127.0.0.1',
+        adminToken: '',
+        corsOrigins: ['*'],
+        logLevel: 'warn',
+        nodeEnv: 'test'
+      }
+    });
+    await app.inject({ method: 'POST', url: '/admin/tenants', payload: { id: 'acme', name: 'Acme' } });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('claim, notas e resolução atribuem a ação ao ator dev-admin', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+    const service = new ReviewCaseService({
+      reviewRepo: (instance.orquestrador as any).reviewCaseRepo,
+      eventLog: instance.eventLog
+    });
+    const { reviewCase } = await service.createOrGetOpen(caseInput('obs-dev'));
+    const url = `/admin/tenants/acme/reviews/${reviewCase.id}`;
+
+    const claim = await app.inject({ method: 'POST', url: `${url}/claim`, payload: {} });
+    expect(claim.statusCode).toBe(200);
+    expect(JSON.parse(claim.body).reviewCase.claimedBy).toBe('dev-admin');
+
+    const notas = await app.inject({ method: 'PUT', url: `${url}/notes`, payload: { notes: 'Em análise' } });
+    expect(notas.statusCode).toBe(200);
+
+    const resolve = await app.inject({
+      method: 'POST',
+      url: `${url}/resolve`,
+      payload: { resolution: 'APPROVE', notes: 'Ok', expectedVersion: 3 }
+    });
+    expect(resolve.statusCode).toBe(200);
+    expect(JSON.parse(resolve.body).reviewCase.decision.decidedBy).toBe('dev-admin');
+  });
+});
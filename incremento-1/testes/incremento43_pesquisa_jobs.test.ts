@@ -0,0 +1,539 @@
+/**
+ * TESTES - Incremento 43: Pesquisa como Jobs Assíncronos
+ *
+ * Testa:
+ * - ResearchJobRunner: relatório durável, prova de somente-leitura
+ * - Teto de limites e orçamento de variações entre jobs concorrentes
+ * - Escrita no EventLog durante o job invalida o job
+ * - Retenção por tenant e retomada após reinício
+ * - POST/GET /api/v1/pesquisa/jobs e SDK; jobId fora do formato responde 400
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FastifyInstance } from 'fastify';
+
+import {
+  ResearchJobRunner,
+  ResearchJobError,
+  ResearchStore,
+  ResearchInput,
+  ResearchJob,
+  RESEARCH_QUEUE_FULL,
+  createReadOnlyContext,
+  ReadOnlyRepositoryContext,
+  ReadOnlyEventLogRepository,
+  ResearchSandbox,
+  SituacaoDecisoria,
+  StatusSituacao,
+  PerfilRisco
+} from '../camada-3';
+import { SituacaoRepositoryImpl } from '../camada-3/repositorios/implementacao/SituacaoRepositoryImpl';
+import { EpisodioRepositoryImpl } from '../camada-3/repositorios/implementacao/EpisodioRepositoryImpl';
+import { DecisaoRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisaoRepositoryImpl';
+import { ContratoRepositoryImpl } from '../camada-3/repositorios/implementacao/ContratoRepositoryImpl';
+import { DecisionProtocolRepositoryImpl } from '../camada-3/repositorios/implementacao/DecisionProtocolRepositoryImpl';
+import { EventLogRepositoryImpl } from '../camada-3/event-log/EventLogRepositoryImpl';
+import { TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+import { createLiberviaClient } from '../sdk/src';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ════════════════════════════════════════════════════════════════════════════
+
+function situacao(id = 'sit-pesquisa-1'): SituacaoDecisoria {
+  return {
+    id,
+    dominio: 'financeiro',
+    contexto: 'Contexto',
+    objetivo: 'Objetivo',
+    incertezas: ['Incerteza'],
+    alternativas: [
+      { descricao: 'A', riscos_associados: ['r1'] },
+      { descricao: 'B', riscos_associados: ['r2'] }
+    ],
+    riscos: [{ descricao: 'Risco', tipo: 'Operacional', reversibilidade: 'Parcial' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Consequência',
+    possibilidade_aprendizado: true,
+    status: StatusSituacao.RASCUNHO,
+    data_criacao: new Date(),
+    caso_uso_declarado: 1,
+    anexos_analise: []
+  };
+}
+
+function pesquisa(numVariacoes: number, overrides: Partial<ResearchInput> = {}): ResearchInput {
+  return {
+    situacao: situacao(),
+    variacoes: Array.from({ length: numVariacoes }, (_, i) => ({
+      id: `v${i + 1}`,
+      perfilRisco: PerfilRisco.CONSERVADOR
+    })),
+    modoMemoria: 'OFF',
+    ...overrides
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: RUNNER
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 43 - ResearchJobRunner', () => {
+  let dataDir: TestDataDir;
+  let coreDir: string;
+  let eventLog: EventLogRepositoryImpl;
+  let contextFactory: () => ReadOnlyRepositoryContext;
+  let runners: ResearchJobRunner[];
+
+  function criarRunner(
+    config: ConstructorParameters<typeof ResearchJobRunner>[3] = {},
+    maxReports?: () => number | undefined,
+    factory = contextFactory
+  ): ResearchJobRunner {
+    const runner = new ResearchJobRunner(
+      'acme',
+      new ResearchStore(dataDir.dir, 'acme'),
+      factory,
+      config,
+      maxReports
+    );
+    runners.push(runner);
+    return runner;
+  }
+
+  beforeEach(async () => {
+    dataDir = await createTestDataDir('inc43-runner');
+    coreDir = path.join(dataDir.dir, 'tenants', 'acme');
+    runners = [];
+
+    const situacaoRepo = await SituacaoRepositoryImpl.create(coreDir);
+    const episodioRepo = await EpisodioRepositoryImpl.create(coreDir);
+    const decisaoRepo = await DecisaoRepositoryImpl.create(coreDir);
+    const contratoRepo = await ContratoRepositoryImpl.create(coreDir);
+    const protocoloRepo = await DecisionProtocolRepositoryImpl.create(coreDir);
+    eventLog = await EventLogRepositoryImpl.create(coreDir);
+    await eventLog.append('Libervia', TipoEvento.SITUACAO_CRIADA, 'SituacaoDecisoria', 'sit-0', {});
+
+    contextFactory = () => createReadOnlyContext(
+      situacaoRepo, episodioRepo, decisaoRepo, contratoRepo, protocoloRepo, eventLog
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await Promise.all(runners.map(r => r.stop()));
+    await dataDir.cleanup();
+  });
+
+  test('job completa, grava relatório fora do dataDir e prova que não escreveu', async () => {
+    const runner = criarRunner();
+    await runner.start();
+    const antes = await eventLog.count();
+
+    const submetido = await runner.submit(pesquisa(2, { modoMemoria: 'READONLY' }), 'key_1');
+    expect(submetido).toMatchObject({ status: 'queued', submittedBy: 'key_1', tenantId: 'acme' });
+
+    await runner.idle();
+
+    const job = (await runner.getJob(submetido.jobId))!;
+    expect(job.status).toBe('completed');
+    expect(job.readOnlyProof).toEqual({ eventLogWriteAttempts: 0, blockedWrites: [] });
+    expect(await eventLog.count()).toBe(antes);
+
+    const report = (await runner.getReport(submetido.jobId))!;
+    expect(report.reportId).toBe(job.reportId);
+    expect(report.variations).toHaveLength(2);
+    expect(report.memorySignals?.modo).toBe('READONLY');
+
+    const arquivos = await fs.readdir(path.join(dataDir.dir, 'research', 'acme'));
+    expect(arquivos).toContain(`${job.reportId}.json`);
+    await expect(fs.readdir(path.join(coreDir, 'research'))).rejects.toThrow();
+  });
+
+  test('limites pedidos são limitados pelo teto do runner', async () => {
+    const runner = criarRunner({ limits: { maxVariacoes: 3, maxTempoMs: 1000 } });
+    await runner.start();
+
+    const job = await runner.submit(
+      pesquisa(5, { limitesPesquisa: { maxVariacoes: 50, maxTempoMs: 60000 } }),
+      'key_1'
+    );
+    expect(job.limitsApplied).toEqual({ maxVariacoes: 3, maxTempoMs: 1000 });
+
+    await runner.idle();
+    const report = (await runner.getReport(job.jobId))!;
+    expect(report.variations).toHaveLength(3);
+    expect(report.truncated).toBe(true);
+  });
+
+  test('jobs concorrentes não passam do orçamento de variações', async () => {
+    const runner = criarRunner({ maxConcurrentJobs: 2, limits: { maxVariacoes: 4, maxTempoMs: 30000 } });
+    await runner.start();
+
+    const a = await runner.submit(pesquisa(3), 'key_1');
+    const b = await runner.submit(pesquisa(2), 'key_1');
+    const c = await runner.submit(pesquisa(1), 'key_1');
+    await runner.idle();
+
+    const [jobA, jobB, jobC] = await Promise.all([a, b, c].map(j => runner.getJob(j.jobId)));
+    expect([jobA, jobB, jobC].map(j => j!.status)).toEqual(['completed', 'completed', 'completed']);
+
+    // 3 + 2 > 4: B só começa depois que A termina; C (FIFO) não ultrapassa B
+    expect(jobB!.startedAt! >= jobA!.finishedAt!).toBe(true);
+    expect(jobC!.startedAt! >= jobB!.startedAt!).toBe(true);
+  });
+
+  test('fila cheia recusa submissões simultâneas', async () => {
+    const runner = criarRunner({ maxPendingJobs: 1 });
+    await runner.start();
+
+    const resultados = await Promise.allSettled([
+      runner.submit(pesquisa(1), 'key_1'),
+      runner.submit(pesquisa(1), 'key_1')
+    ]);
+
+    expect(resultados.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const recusa = resultados.find(r => r.status === 'rejected') as PromiseRejectedResult;
+    expect(recusa.reason).toBeInstanceOf(ResearchJobError);
+    expect(recusa.reason.code).toBe(RESEARCH_QUEUE_FULL);
+  });
+
+  test('tentativa de escrita no EventLog invalida o job mesmo se engolida', async () => {
+    const comEscrita = (): ReadOnlyRepositoryContext => {
+      const context = contextFactory();
+      const find = context.episodioRepo.find.bind(context.episodioRepo);
+      context.episodioRepo.find = async query => {
+        await context.eventLogRepo!
+          .append('Libervia', TipoEvento.SITUACAO_CRIADA, 'SituacaoDecisoria', 'sit-x', {})
+          .catch(() => undefined);
+        return find(query);
+      };
+      return context;
+    };
+    const runner = criarRunner({}, undefined, comEscrita);
+    await runner.start();
+    const antes = await eventLog.count();
+
+    const submetido = await runner.submit(pesquisa(1, { modoMemoria: 'READONLY' }), 'key_1');
+    await runner.idle();
+
+    const job = (await runner.getJob(submetido.jobId))!;
+    expect(job.status).toBe('failed');
+    expect(job.error).toContain('EventLogRepository.append');
+    expect(job.readOnlyProof).toEqual({
+      eventLogWriteAttempts: 1,
+      blockedWrites: ['EventLogRepository.append']
+    });
+    expect(job.reportId).toBeUndefined();
+    expect(await eventLog.count()).toBe(antes);
+  });
+
+  test('sandbox recebe o contexto do job: escrita pelo seu EventLog falha o job', async () => {
+    const handles: ReadOnlyRepositoryContext[] = [];
+    jest.spyOn(ResearchSandbox.prototype, 'consultarMemoria').mockImplementation(
+      async function (this: ResearchSandbox) {
+        handles.push(this.repositorios!);
+        await this.repositorios!.eventLogRepo!
+          .append('Libervia', TipoEvento.SITUACAO_CRIADA, 'SituacaoDecisoria', 'sit-x', {})
+          .catch(() => undefined);
+        return null;
+      }
+    );
+    const contextos: ReadOnlyRepositoryContext[] = [];
+    const runner = criarRunner({}, undefined, () => {
+      const context = contextFactory();
+      contextos.push(context);
+      return context;
+    });
+    await runner.start();
+    const antes = await eventLog.count();
+
+    const submetido = await runner.submit(pesquisa(1, { modoMemoria: 'READONLY' }), 'key_1');
+    await runner.idle();
+
+    expect(handles).toHaveLength(1);
+    expect(handles[0]).toBe(contextos[0]);
+    expect(handles[0].eventLogRepo).toBeInstanceOf(ReadOnlyEventLogRepository);
+
+    const job = (await runner.getJob(submetido.jobId))!;
+    expect(job.status).toBe('failed');
+    expect(job.error).toContain('EventLogRepository.append');
+    expect(job.readOnlyProof).toEqual({
+      eventLogWriteAttempts: 1,
+      blockedWrites: ['EventLogRepository.append']
+    });
+    expect(await eventLog.count()).toBe(antes);
+  });
+
+  test('retenção remove os jobs encerrados mais antigos e seus relatórios', async () => {
+    const runner = criarRunner({ maxConcurrentJobs: 1 }, () => 2);
+    await runner.start();
+
+    const primeiro = await runner.submit(pesquisa(1), 'key_1');
+    await runner.idle();
+    const relatorioPrimeiro = (await runner.getJob(primeiro.jobId))!.reportId!;
+
+    await runner.submit(pesquisa(1), 'key_1');
+    await runner.idle();
+    await runner.submit(pesquisa(1), 'key_1');
+    await runner.idle();
+
+    expect(await runner.getJob(primeiro.jobId)).toBeNull();
+    const store = new ResearchStore(dataDir.dir, 'acme');
+    expect(await store.load(relatorioPrimeiro)).toBeNull();
+    expect(await store.listJobs()).toHaveLength(2);
+    expect(await store.listReportIds()).toHaveLength(2);
+  });
+
+  test('jobs pendentes voltam para a fila após reinício', async () => {
+    const store = new ResearchStore(dataDir.dir, 'acme');
+    const pendente: ResearchJob = {
+      jobId: 'rjob_00000000-0000-0000-0000-0000000000aa',
+      tenantId: 'acme',
+      status: 'running',
+      submittedBy: 'key_1',
+      submittedAt: new Date().toISOString(),
+      startedAt: new Date().toISOString(),
+      input: pesquisa(1),
+      limitsApplied: { maxVariacoes: 10, maxTempoMs: 30000 }
+    };
+    await store.saveJob(pendente);
+
+    const runner = criarRunner();
+    await runner.start();
+    await runner.idle();
+
+    const job = (await runner.getJob('rjob_00000000-0000-0000-0000-0000000000aa'))!;
+    expect(job.status).toBe('completed');
+    expect(await runner.getReport('rjob_00000000-0000-0000-0000-0000000000aa')).not.toBeNull();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY E SDK
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 43 - Rotas de pesquisa', () => {
+  const TEST_PEPPER = 'test-pepper-inc43-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc43-' + Date.now();
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+  let baseUrl: string;
+  let publicToken: string;
+  let publicKeyId: string;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  function publicHeaders(): Record<string, string> {
+    return { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` };
+  }
+
+  function corpo(overrides: Record<string, unknown> = {}) {
+    const { id: _id, status: _s, data_criacao: _d, anexos_analise: _a, ...semId } = situacao();
+    return {
+      situacao: semId,
+      variacoes: [{ id: 'v1', perfilRisco: 'AGRESSIVO' }, { id: 'v2', incertezas: [] }],
+      modoMemoria: 'READONLY',
+      ...overrides
+    };
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc43-gw');
+
+    const config: GatewayConfig = {
+      baseDir: dataDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+    await app.listen({ port: 0, host: '127.0.0.1' });
+
+    const address = app.server.address();
+    if (typeof address !== 'object' || address === null) {
+      throw new Error('Failed to get server address');
+    }
+    // Host por nome: um IP seria lido como subdominio (tenant "127")
+    baseUrl = `http://localhost:${address.port}`;
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const key = JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    })).body);
+    publicToken = key.token;
+    publicKeyId = key.keyId;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('submete, consulta o job e obtém o relatório', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+    const eventosAntes = await instance.eventLog.count();
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/pesquisa/jobs',
+      headers: publicHeaders(),
+      payload: corpo()
+    });
+    expect(response.statusCode).toBe(202);
+    const submetido = JSON.parse(response.body);
+    expect(submetido).toMatchObject({ status: 'queued', submittedBy: publicKeyId, variacoes: 2 });
+    expect(submetido.situacaoId).toMatch(/^sit-pesquisa-/);
+    expect(submetido.input).toBeUndefined();
+
+    await instance.research.idle();
+
+    const job = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/v1/pesquisa/jobs/${submetido.jobId}`,
+      headers: publicHeaders()
+    })).body);
+    expect(job.status).toBe('completed');
+    expect(job.readOnlyProof).toEqual({ eventLogWriteAttempts: 0, blockedWrites: [] });
+
+    const relatorio = await app.inject({
+      method: 'GET',
+      url: `/api/v1/pesquisa/jobs/${submetido.jobId}/relatorio`,
+      headers: publicHeaders()
+    });
+    expect(relatorio.statusCode).toBe(200);
+    const report = JSON.parse(relatorio.body);
+    expect(report.reportId).toBe(job.reportId);
+    expect(report.variations.map((v: any) => v.variationId)).toEqual(['v1', 'v2']);
+
+    expect(await instance.eventLog.count()).toBe(eventosAntes);
+  });
+
+  test('valida o corpo', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/pesquisa/jobs',
+      headers: publicHeaders(),
+      payload: corpo({
+        modoMemoria: 'WRITE',
+        variacoes: [{ id: 'v1' }, { id: 'v1', perfilRisco: 'TEMERARIO' }],
+        limitesPesquisa: { maxVariacoes: 0 }
+      })
+    });
+
+    expect(response.statusCode).toBe(400);
+    const body = JSON.parse(response.body);
+    expect(body.error).toBe('Invalid research input');
+    expect(body.details).toEqual(expect.arrayContaining([
+      expect.stringContaining('modoMemoria'),
+      expect.stringContaining('duplicado'),
+      expect.stringContaining('perfilRisco'),
+      expect.stringContaining('maxVariacoes')
+    ]));
+
+    const semSituacao = await app.inject({
+      method: 'POST',
+      url: '/api/v1/pesquisa/jobs',
+      headers: publicHeaders(),
+      payload: { modoMemoria: 'OFF' }
+    });
+    expect(semSituacao.statusCode).toBe(400);
+  });
+
+  test('job inexistente responde 404 e job sem relatório responde 409', async () => {
+    const inexistente = await app.inject({
+      method: 'GET',
+      url: '/api/v1/pesquisa/jobs/rjob_00000000-0000-0000-0000-000000000000',
+      headers: publicHeaders()
+    });
+    expect(inexistente.statusCode).toBe(404);
+
+    const instance = await app.runtime.getOrCreate('acme');
+    await (instance.research as any).store.saveJob({
+      jobId: 'rjob_00000000-0000-0000-0000-00000000fa11',
+      tenantId: 'acme',
+      status: 'failed',
+      submittedBy: publicKeyId,
+      submittedAt: new Date().toISOString(),
+      finishedAt: new Date().toISOString(),
+      input: pesquisa(0),
+      limitsApplied: { maxVariacoes: 10, maxTempoMs: 30000 },
+      error: 'Falhou'
+    });
+
+    const relatorio = await app.inject({
+      method: 'GET',
+      url: '/api/v1/pesquisa/jobs/rjob_00000000-0000-0000-0000-00000000fa11/relatorio',
+      headers: publicHeaders()
+    });
+    expect(relatorio.statusCode).toBe(409);
+    expect(JSON.parse(relatorio.body)).toMatchObject({ status: 'failed', message: 'Falhou' });
+  });
+
+  test('jobId fora do formato responde 400 e não sai do diretório do tenant', async () => {
+    // Job de outro tenant no disco: "../../outro/jobs/<id>" a partir de research/acme/jobs
+    const outro = new ResearchStore(dataDir.dir, 'outro');
+    const jobId = 'rjob_11111111-2222-3333-4444-555555555555';
+    await outro.saveJob({
+      jobId,
+      tenantId: 'outro',
+      status: 'failed',
+      submittedBy: 'key_outro',
+      submittedAt: new Date().toISOString(),
+      input: pesquisa(0),
+      limitsApplied: { maxVariacoes: 10, maxTempoMs: 30000 },
+      error: 'Segredo do outro tenant'
+    });
+
+    for (const sufixo of ['', '/relatorio']) {
+      const res = await app.inject({
+        method: 'GET',
+        url: `/api/v1/pesquisa/jobs/..%2F..%2Foutro%2Fjobs%2F${jobId}${sufixo}`,
+        headers: publicHeaders()
+      });
+      expect(res.statusCode).toBe(400);
+      expect(res.body).not.toContain('Segredo');
+    }
+
+    const instance = await app.runtime.getOrCreate('acme');
+    expect(await instance.research.getJob(`../../outro/jobs/${jobId}`)).toBeNull();
+    expect(await (instance.research as any).store.deleteJob(`../../outro/jobs/${jobId}`)).toBe(false);
+    expect(await outro.loadJob(jobId)).not.toBeNull();
+  });
+
+  test('SDK submete e obtém o relatório', async () => {
+    const client = createLiberviaClient({ baseUrl, token: publicToken, tenantId: 'acme' });
+
+    const { situacao: base } = corpo();
+    const job = await client.public.submeterPesquisa({
+      situacao: { ...base, id: 'sit-sdk' },
+      variacoes: [{ id: 'v1', perfilRisco: 'CONSERVADOR' }],
+      modoMemoria: 'OFF'
+    });
+    expect(job.situacaoId).toBe('sit-sdk');
+
+    const instance = await app.runtime.getOrCreate('acme');
+    await instance.research.idle();
+
+    expect((await client.public.getJobPesquisa(job.jobId)).status).toBe('completed');
+    const report = await client.public.getRelatorioPesquisa(job.jobId);
+    expect(report.baselineSummary.situacaoId).toBe('sit-sdk');
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * TESTES - Incremento 44: Backup, Restauração e DR pelo Gateway
+ *
+ * Testa:
+ * - BackupJobRunner: execução sequencial, falha de restauração, retenção
+ * - Rotas /admin/tenants/:id/backups/* como jobs com estado e progresso
+ * - Restauração efetiva e confirmação de DR exigem global_admin (também com path codificado)
+ * - Procedimento DR em duas fases com progresso por passo
+ * - SDK: createBackup() e getBackupJob()
+ */
+
+import { FastifyInstance } from 'fastify';
+
+import {
+  BackupJobRunner,
+  BackupSnapshot,
+  RestoreResult,
+  BACKUP_PEPPER_ENV_KEY
+} from '../camada-3/backup';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+import { createLiberviaClient } from '../sdk/src';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+function snapshotFalso(backupId: string): BackupSnapshot {
+  return { metadata: { backupId } } as unknown as BackupSnapshot;
+}
+
+function restauracaoFalsa(success: boolean): RestoreResult {
+  return { success, errors: success ? [] : ['hash divergente'] } as unknown as RestoreResult;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: RUNNER
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 44 - BackupJobRunner', () => {
+  test('jobs executam um por vez, na ordem de submissão', async () => {
+    const runner = new BackupJobRunner('acme');
+    const ordem: string[] = [];
+
+    const a = runner.submitBackup('key-a', async () => {
+      ordem.push('a:inicio');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      ordem.push('a:fim');
+      return snapshotFalso('backup-a');
+    });
+    const b = runner.submitBackup('key-b', async () => {
+      ordem.push('b');
+      return snapshotFalso('backup-b');
+    });
+
+    expect(a.status).toBe('queued');
+    await runner.idle();
+
+    expect(ordem).toEqual(['a:inicio', 'a:fim', 'b']);
+    expect(runner.getJob(a.jobId)).toMatchObject({ status: 'completed', backupId: 'backup-a', requestedBy: 'key-a' });
+    expect(runner.listJobs().map(j => j.jobId)).toEqual([b.jobId, a.jobId]);
+  });
+
+  test('restauração sem sucesso termina o job como failed', async () => {
+    const runner = new BackupJobRunner('acme');
+
+    const job = runner.submitRestore('restore', 'backup-x', 'key-a', async () => restauracaoFalsa(false));
+    await runner.idle();
+
+    const final = runner.getJob(job.jobId)!;
+    expect(final).toMatchObject({ status: 'failed', backupId: 'backup-x' });
+    expect(final.error).toContain('hash divergente');
+    expect(final.restore!.success).toBe(false);
+  });
+
+  test('mantém só os maxFinishedJobs encerrados mais recentes', async () => {
+    const runner = new BackupJobRunner('acme', { maxFinishedJobs: 2 });
+
+    const jobs = ['b1', 'b2', 'b3'].map(id => runner.submitBackup('key-a', async () => snapshotFalso(id)));
+    await runner.idle();
+
+    expect(runner.getJob(jobs[0].jobId)).toBeNull();
+    expect(runner.listJobs().map(j => j.backupId)).toEqual(['b3', 'b2']);
+  });
+
+  test('runner encerrado recusa novas submissões', async () => {
+    const runner = new BackupJobRunner('acme');
+    await runner.stop();
+
+    expect(() => runner.submitBackup('key-a', async () => snapshotFalso('b1'))).toThrow('encerrado');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY E SDK
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 44 - Rotas de backup e DR', () => {
+  const TEST_PEPPER = 'test-pepper-inc44-' + Date.now();
+  const BACKUP_PEPPER = 'test-backup-pepper-inc44-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc44-' + Date.now();
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+  let baseUrl: string;
+  let tenantAdmin: { authorization: string };
+  let tenantAdminToken: string;
+  let tenantAdminKeyId: string;
+  let publicAuth: { authorization: string };
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  async function criarChave(role: 'public' | 'tenant_admin') {
+    return JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role }
+    })).body);
+  }
+
+  function post(url: string, headers: { authorization: string }, payload: Record<string, unknown> = {}) {
+    return app.inject({ method: 'POST', url: `/admin/tenants/acme/${url}`, headers, payload });
+  }
+
+  async function get(url: string, headers: { authorization: string } = tenantAdmin) {
+    return app.inject({ method: 'GET', url: `/admin/tenants/acme/${url}`, headers });
+  }
+
+  async function aguardarJobs(): Promise<void> {
+    const instance = await app.runtime.getOrCreate('acme');
+    await instance.backups.idle();
+  }
+
+  async function criarBackup(): Promise<string> {
+    const res = await post('backups', tenantAdmin, { description: 'Teste' });
+    expect(res.statusCode).toBe(202);
+    const { jobId } = JSON.parse(res.body);
+    await aguardarJobs();
+    const job = JSON.parse((await get(`backups/jobs/${jobId}`)).body);
+    expect(job.status).toBe('completed');
+    return job.backupId;
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    process.env[BACKUP_PEPPER_ENV_KEY] = BACKUP_PEPPER;
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc44-backup');
+
+    const config: GatewayConfig = {
+      baseDir: dataDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+    await app.listen({ port: 0, host: '127.0.0.1' });
+
+    const address = app.server.address();
+    if (typeof address !== 'object' || address === null) {
+      throw new Error('Failed to get server address');
+    }
+    baseUrl = `http://localhost:${address.port}`;
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+
+    const key = await criarChave('tenant_admin');
+    tenantAdminToken = key.token;
+    tenantAdmin = { authorization: `Bearer ${key.token}` };
+    tenantAdminKeyId = key.keyId;
+    const publicKey = await criarChave('public');
+    publicAuth = { authorization: `Bearer ${publicKey.token}` };
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    delete process.env[BACKUP_PEPPER_ENV_KEY];
+    clearPepperCache();
+  });
+
+  test('backup vira job e aparece na listagem', async () => {
+    const res = await post('backups', tenantAdmin, { includeEntities: ['EventLog', 'AutonomyMandates'] });
+    expect(res.statusCode).toBe(202);
+    const job = JSON.parse(res.body);
+    expect(job).toMatchObject({ operation: 'create', status: 'queued', tenantId: 'acme', requestedBy: tenantAdminKeyId });
+    expect(job.jobId).toMatch(/^bjob_/);
+
+    await aguardarJobs();
+
+    const final = JSON.parse((await get(`backups/jobs/${job.jobId}`)).body);
+    expect(final.status).toBe('completed');
+    expect(final.backup).toMatchObject({ tenantId: 'acme', includedEntities: ['EventLog', 'AutonomyMandates'] });
+
+    const lista = JSON.parse((await get('backups')).body);
+    expect(lista.backups.map((b: { backupId: string }) => b.backupId)).toContain(final.backupId);
+
+    const jobs = JSON.parse((await get('backups/jobs')).body);
+    expect(jobs.jobs[0].jobId).toBe(job.jobId);
+
+    const validacao = await post(`backups/${final.backupId}/validate`, tenantAdmin);
+    expect(validacao.statusCode).toBe(200);
+    expect(JSON.parse(validacao.body).valid).toBe(true);
+  });
+
+  test('corpo inválido e backup inexistente', async () => {
+    const invalido = await post('backups', tenantAdmin, { includeEntities: ['Nada'] });
+    expect(invalido.statusCode).toBe(400);
+    expect(JSON.parse(invalido.body).error).toBe('Invalid backup');
+
+    const inexistente = await post('backups/backup_nao_existe/restore/dry-run', tenantAdmin);
+    expect(inexistente.statusCode).toBe(404);
+    expect(JSON.parse(inexistente.body).code).toBe('BACKUP_NOT_FOUND');
+
+    const job = await get('backups/jobs/bjob_nao_existe');
+    expect(job.statusCode).toBe(404);
+  });
+
+  test('dry-run pelo tenant_admin; restauração efetiva só com global_admin', async () => {
+    const backupId = await criarBackup();
+
+    const dryRun = await post(`backups/${backupId}/restore/dry-run`, tenantAdmin);
+    expect(dryRun.statusCode).toBe(202);
+    await aguardarJobs();
+    const simulado = JSON.parse((await get(`backups/jobs/${JSON.parse(dryRun.body).jobId}`)).body);
+    expect(simulado).toMatchObject({ operation: 'restore_dry_run', status: 'completed' });
+    expect(simulado.restore.mode).toBe('dry-run');
+
+    const negado = await post(`backups/${backupId}/restore`, tenantAdmin);
+    expect(negado.statusCode).toBe(403);
+    expect(JSON.parse(negado.body).code).toBe('INSUFFICIENT_ROLE');
+
+    const efetivo = await post(`backups/${backupId}/restore`, admin);
+    expect(efetivo.statusCode).toBe(202);
+    await aguardarJobs();
+    const restaurado = JSON.parse((await get(`backups/jobs/${JSON.parse(efetivo.body).jobId}`)).body);
+    expect(restaurado).toMatchObject({ operation: 'restore', status: 'completed', requestedBy: 'legacy-admin' });
+    expect(restaurado.restore.mode).toBe('effective');
+  });
+
+  test('path com percent-encoding não contorna a exigência de global_admin', async () => {
+    const backupId = await criarBackup();
+
+    const restore = await post(`backups/${backupId}/%72estore`, tenantAdmin);
+    expect(restore.statusCode).toBe(403);
+    expect(JSON.parse(restore.body).code).toBe('INSUFFICIENT_ROLE');
+
+    const confirm = await post('dr/procedures/dr_qualquer/%63onfirm', tenantAdmin);
+    expect(confirm.statusCode).toBe(403);
+    expect(JSON.parse(confirm.body).code).toBe('INSUFFICIENT_ROLE');
+
+    // global_admin chega ao mesmo handler pelo path codificado
+    const efetivo = await post(`backups/${backupId}/%72estore`, admin);
+    expect(efetivo.statusCode).toBe(202);
+    await aguardarJobs();
+  });
+
+  test('procedimento DR em duas fases com progresso', async () => {
+    await criarBackup();
+
+    const inicio = await post('dr/procedures', tenantAdmin, { type: 'total_node_loss' });
+    expect(inicio.statusCode).toBe(202);
+    await aguardarJobs();
+
+    const fase1 = JSON.parse((await get(`backups/jobs/${JSON.parse(inicio.body).jobId}`)).body);
+    expect(fase1).toMatchObject({ operation: 'dr_start', status: 'completed', procedureStatus: 'in_progress' });
+    expect(fase1.progress).toMatchObject({ completedSteps: 3, totalSteps: 6 });
+    expect(fase1.progress.step.order).toBe(3);
+
+    const procedureId = fase1.procedureId;
+    const negado = await post(`dr/procedures/${procedureId}/confirm`, tenantAdmin);
+    expect(negado.statusCode).toBe(403);
+
+    const confirmacao = await post(`dr/procedures/${procedureId}/confirm`, admin);
+    expect(confirmacao.statusCode).toBe(202);
+    await aguardarJobs();
+
+    const fase2 = JSON.parse((await get(`backups/jobs/${JSON.parse(confirmacao.body).jobId}`)).body);
+    expect(fase2).toMatchObject({ operation: 'dr_confirm', status: 'completed', procedureStatus: 'completed' });
+    expect(fase2.progress).toMatchObject({ completedSteps: 6, totalSteps: 6 });
+
+    const procedimento = JSON.parse((await get(`dr/procedures/${procedureId}`)).body);
+    expect(procedimento.status).toBe('completed');
+    expect(procedimento.steps.every((s: { status: string }) => s.status === 'completed')).toBe(true);
+
+    const repetida = await post(`dr/procedures/${procedureId}/confirm`, admin);
+    expect(repetida.statusCode).toBe(409);
+    expect(JSON.parse(repetida.body).code).toBe('DR_PROCEDURE_INVALID_STATE');
+
+    const cancelamento = await post(`dr/procedures/${procedureId}/cancel`, tenantAdmin);
+    expect(cancelamento.statusCode).toBe(409);
+  });
+
+  test('procedimento sem confirmação e cancelamento', async () => {
+    await criarBackup();
+
+    await post('dr/procedures', tenantAdmin, { type: 'corruption_detection' });
+    await post('dr/procedures', tenantAdmin, { type: 'total_node_loss' });
+    await aguardarJobs();
+
+    const { procedures } = JSON.parse((await get('dr/procedures')).body);
+    const deteccao = procedures.filter((p: { type: string }) => p.type === 'corruption_detection').pop();
+    expect(deteccao.status).toBe('completed');
+    const semConfirmacao = await post(`dr/procedures/${deteccao.procedureId}/confirm`, admin);
+    expect(semConfirmacao.statusCode).toBe(409);
+
+    const pendente = procedures.filter((p: { type: string; status: string }) =>
+      p.type === 'total_node_loss' && p.status === 'in_progress'
+    ).pop();
+    const cancelado = await post(`dr/procedures/${pendente.procedureId}/cancel`, tenantAdmin);
+    expect(cancelado.statusCode).toBe(200);
+    expect(JSON.parse(cancelado.body).status).toBe('rolled_back');
+
+    const aposCancelar = await post(`dr/procedures/${pendente.procedureId}/confirm`, admin);
+    expect(aposCancelar.statusCode).toBe(409);
+  });
+
+  test('validações de procedimento', async () => {
+    const semTipo = await post('dr/procedures', tenantAdmin, { type: 'formatar_disco' });
+    expect(semTipo.statusCode).toBe(400);
+    expect(JSON.parse(semTipo.body).error).toBe('Invalid procedure');
+
+    const semBackup = await post('dr/procedures', tenantAdmin, { type: 'old_snapshot_restore' });
+    expect(semBackup.statusCode).toBe(400);
+
+    const inexistente = await get('dr/procedures/dr_nao_existe');
+    expect(inexistente.statusCode).toBe(404);
+    expect(JSON.parse(inexistente.body).code).toBe('DR_PROCEDURE_NOT_FOUND');
+  });
+
+  test('chave public não acessa backups', async () => {
+    const res = await get('backups', publicAuth);
+    expect(res.statusCode).toBe(403);
+  });
+
+  test('SDK cria backup e acompanha o job', async () => {
+    const client = createLiberviaClient({ baseUrl, token: tenantAdminToken });
+
+    const job = await client.admin.createBackup('acme', { description: 'Via SDK' });
+    expect(job.status).toBe('queued');
+    await aguardarJobs();
+
+    const final = await client.admin.getBackupJob('acme', job.jobId);
+    expect(final.status).toBe('completed');
+    expect(final.backup!.tenantId).toBe('acme');
+  });
+});
+
+describe('Incremento 44 - Backup em dev sem adminToken', () => {
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = 'test-pepper-inc44-dev-' + Date.now();
+    process.env[BACKUP_PEPPER_ENV_KEY] = 'test-backup-pepper-inc44-dev-' + Date.now();
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc44-backup-dev');
+    app = await buildApp({
+      config: {
+        baseDir: dataDir.dir,
+        port: 0,
+        host: '127.0.0.1',
+        adminToken: '',
+        corsOrigins: ['*'],
+        logLevel: 'warn',
+        nodeEnv: 'test'
+      }
+    });
+    await app.inject({ method: 'POST', url: '/admin/tenants', payload: { id: 'acme', name: 'Acme' } });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    delete process.env[BACKUP_PEPPER_ENV_KEY];
+    clearPepperCache();
+  });
+
+  test('backup e restauração atribuem o job ao ator dev-admin', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+
+    const backup = await app.inject({ method: 'POST', url: '/admin/tenants/acme/backups', payload: {} });
+    expect(backup.statusCode).toBe(202);
+    expect(JSON.parse(backup.body).requestedBy).toBe('dev-admin');
+    await instance.backups.idle();
+    const { backupId } = instance.backups.getJob(JSON.parse(backup.body).jobId)!;
+
+    const restore = await app.inject({ method: 'POST', url: `/admin/tenants/acme/backups/${backupId}/restore`, payload: {} });
+    expect(restore.statusCode).toBe(202);
+    expect(JSON.parse(restore.body).requestedBy).toBe('dev-admin');
+    await instance.backups.idle();
+  });
+});
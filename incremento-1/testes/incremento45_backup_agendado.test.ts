@@ -0,0 +1,306 @@
+/**
+ * TESTES - Incremento 45: Backup Agendado por Tenant
+ *
+ * Testa:
+ * - selectBackupsToPrune: retenção diária/semanal/mensal
+ * - Assinatura Ed25519 de backups (TenantFeatures.signedBackup)
+ * - BackupScheduler: respeita backupEnabled, assina, aplica retenção
+ * - Saúde do agendador e do último backup em OperationalHealth
+ */
+
+import { FastifyInstance } from 'fastify';
+
+import {
+  BackupConfigError,
+  BackupMetadata,
+  BackupSnapshot,
+  BACKUP_PEPPER_ENV_KEY,
+  selectBackupsToPrune,
+  signBackupDigitally,
+  verifyBackupDigitalSignature
+} from '../camada-3/backup';
+import { generateKeyPair, ENV_PRIVATE_KEY, ENV_KEY_ID } from '../scripts/crypto_utils';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+import { BackupScheduler } from '../gateway/backup/BackupScheduler';
+import { assessOperationalHealth, HealthCheck } from '../gateway/health/OperationalHealth';
+import { getTelemetryRegistry, resetTelemetryRegistry } from '../gateway/telemetry/TelemetryRegistry';
+import { METRIC_NAMES } from '../gateway/telemetry/TelemetryTypes';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function backupEm(iso: string): BackupMetadata {
+  return { backupId: `b-${iso}`, createdAt: new Date(iso) } as BackupMetadata;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: RETENÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 45 - Retenção de backups agendados', () => {
+  test('mantém o mais recente de cada dia, semana ISO e mês', () => {
+    const backups: BackupMetadata[] = [];
+    for (let t = Date.UTC(2026, 0, 1, 2); t <= Date.UTC(2026, 1, 28, 2); t += DAY_MS) {
+      backups.push(backupEm(new Date(t).toISOString()));
+    }
+
+    const pruned = selectBackupsToPrune(backups, { keepDaily: 3, keepWeekly: 2, keepMonthly: 2 });
+    const kept = backups.map(b => b.backupId).filter(id => !pruned.includes(id));
+
+    expect(kept).toEqual([
+      'b-2026-01-31T02:00:00.000Z',   // mês anterior
+      'b-2026-02-22T02:00:00.000Z',   // semana anterior (domingo)
+      'b-2026-02-26T02:00:00.000Z',
+      'b-2026-02-27T02:00:00.000Z',
+      'b-2026-02-28T02:00:00.000Z'
+    ]);
+    expect(pruned[0]).toBe('b-2026-01-01T02:00:00.000Z');
+  });
+
+  test('semana ISO atravessa a virada do ano', () => {
+    const backups = ['2025-12-28T10:00:00Z', '2025-12-29T10:00:00Z', '2026-01-01T10:00:00Z'].map(backupEm);
+
+    const pruned = selectBackupsToPrune(backups, { keepDaily: 0, keepWeekly: 2, keepMonthly: 0 });
+
+    // 29/12 e 01/01 pertencem à semana 2026-W01; 28/12 à 2025-W52
+    expect(pruned).toEqual(['b-2025-12-29T10:00:00Z']);
+  });
+
+  test('política zerada não remove nada', () => {
+    const backups = ['2026-01-01T00:00:00Z', '2026-01-02T00:00:00Z'].map(backupEm);
+
+    expect(selectBackupsToPrune(backups, { keepDaily: 0, keepWeekly: 0, keepMonthly: 0 })).toEqual([]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: ASSINATURA Ed25519
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 45 - Assinatura Ed25519 de backups', () => {
+  afterEach(() => {
+    delete process.env[ENV_PRIVATE_KEY];
+    delete process.env[ENV_KEY_ID];
+  });
+
+  test('sem chave configurada, assinar lança BackupConfigError', () => {
+    expect(() => signBackupDigitally('backup-1', 'hash')).toThrow(BackupConfigError);
+  });
+
+  test('assinatura cobre backupId e contentHash', () => {
+    const keyPair = generateKeyPair();
+    process.env[ENV_PRIVATE_KEY] = keyPair.privateKey;
+    process.env[ENV_KEY_ID] = keyPair.keyId;
+
+    const snapshot = {
+      metadata: { backupId: 'backup-1' },
+      contentHash: 'hash-original',
+      digitalSignature: signBackupDigitally('backup-1', 'hash-original')
+    } as unknown as BackupSnapshot;
+
+    expect(verifyBackupDigitalSignature(snapshot)).toEqual({ valid: true });
+    expect(verifyBackupDigitalSignature({ ...snapshot, contentHash: 'hash-adulterado' }).valid).toBe(false);
+    expect(verifyBackupDigitalSignature({ ...snapshot, digitalSignature: undefined }).valid).toBe(false);
+
+    delete process.env[ENV_PRIVATE_KEY];
+    expect(verifyBackupDigitalSignature(snapshot).valid).toBeNull();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: AGENDADOR
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 45 - BackupScheduler no gateway', () => {
+  const TEST_PEPPER = 'test-pepper-inc45-' + Date.now();
+  const BACKUP_PEPPER = 'test-backup-pepper-inc45-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc45-' + Date.now();
+  const INICIO = new Date('2026-03-02T03:00:00.000Z');
+  let app: FastifyInstance;
+  let scheduler: BackupScheduler;
+  let dataDir: TestDataDir;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  async function criarTenant(id: string, features: Record<string, boolean>): Promise<void> {
+    const res = await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id, name: id } });
+    expect(res.statusCode).toBe(201);
+    await app.inject({ method: 'PATCH', url: `/admin/tenants/${id}`, headers: admin, payload: { features } });
+  }
+
+  async function agendados(tenantId: string): Promise<BackupMetadata[]> {
+    const instance = await app.runtime.getOrCreate(tenantId);
+    return (await instance.orquestrador.ListarBackups(tenantId)).filter(b => b.scheduled);
+  }
+
+  function check(name: string): HealthCheck {
+    return assessOperationalHealth().checks.find(c => c.name === name)!;
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    process.env[BACKUP_PEPPER_ENV_KEY] = BACKUP_PEPPER;
+    const keyPair = generateKeyPair();
+    process.env[ENV_PRIVATE_KEY] = keyPair.privateKey;
+    process.env[ENV_KEY_ID] = keyPair.keyId;
+    clearPepperCache();
+    resetTelemetryRegistry();
+    dataDir = await createTestDataDir('inc45-backup-agendado');
+
+    const config: GatewayConfig = {
+      baseDir: dataDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test',
+      backupSchedule: {
+        intervalMs: DAY_MS,
+        retention: { keepDaily: 3, keepWeekly: 0, keepMonthly: 0 }
+      }
+    };
+    app = await buildApp({ config });
+    await app.ready();
+    scheduler = app.backupScheduler!;
+
+    await criarTenant('acme', {});
+    await criarTenant('beta', { backupEnabled: false });
+    await criarTenant('gamma', { signedBackup: true });
+
+    // Só o relógio é simulado; timers e I/O seguem reais
+    jest.useFakeTimers({
+      doNotFake: [
+        'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate',
+        'setInterval', 'clearInterval', 'setTimeout', 'clearTimeout'
+      ]
+    });
+    jest.setSystemTime(INICIO);
+  });
+
+  afterAll(async () => {
+    jest.useRealTimers();
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    delete process.env[BACKUP_PEPPER_ENV_KEY];
+    delete process.env[ENV_PRIVATE_KEY];
+    delete process.env[ENV_KEY_ID];
+    clearPepperCache();
+    resetTelemetryRegistry();
+  });
+
+  test('agendador inicia com o app e publica o intervalo', () => {
+    expect(scheduler.isRunning()).toBe(true);
+    expect(check('backup_scheduler')).toMatchObject({ status: 'OK', value: 'starting' });
+    expect(check('backup_last_success')).toMatchObject({ status: 'OK', value: 'none' });
+  });
+
+  test('cria backup dos tenants elegíveis e ignora backupEnabled=false', async () => {
+    const run = await scheduler.runOnce();
+
+    expect(run.results.map(r => [r.tenantId, r.status])).toEqual([['acme', 'created'], ['gamma', 'created']]);
+    expect(run.failingTenants).toBe(0);
+    expect(await agendados('beta')).toEqual([]);
+
+    const instance = await app.runtime.getOrCreate('acme');
+    const job = instance.backups.getJob(run.results[0].jobId!)!;
+    expect(job).toMatchObject({ operation: 'create', status: 'completed', requestedBy: 'backup-scheduler' });
+    expect(job.backup!.scheduled).toBe(true);
+    expect(job.backup!.signed).toBeUndefined();
+  });
+
+  test('signedBackup produz backup com assinatura Ed25519 válida', async () => {
+    const instance = await app.runtime.getOrCreate('gamma');
+    const snapshot = (await instance.orquestrador.GetBackupMaisRecente('gamma'))!;
+
+    expect(snapshot.metadata).toMatchObject({ scheduled: true, signed: true });
+    expect(snapshot.digitalSignature).toMatchObject({ algorithm: 'ed25519', public_key_id: process.env[ENV_KEY_ID] });
+
+    const validacao = await instance.orquestrador.ValidarBackup(snapshot.metadata.backupId);
+    expect(validacao.valid).toBe(true);
+    expect(validacao.warnings).toEqual([]);
+  });
+
+  test('não cria novo backup antes do intervalo', async () => {
+    jest.setSystemTime(INICIO.getTime() + 60 * 60 * 1000);
+
+    const run = await scheduler.runOnce();
+
+    expect(run.results.map(r => r.status)).toEqual(['skipped', 'skipped']);
+    expect(await agendados('acme')).toHaveLength(1);
+  });
+
+  test('retenção remove só backups agendados excedentes', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+    const manual = await instance.orquestrador.CriarBackup({ tenantId: 'acme', description: 'Manual' });
+
+    const pruned: string[] = [];
+    for (let dia = 1; dia <= 4; dia++) {
+      jest.setSystemTime(INICIO.getTime() + dia * DAY_MS);
+      const run = await scheduler.runOnce();
+      expect(run.results[0].status).toBe('created');
+      pruned.push(...run.results[0].pruned);
+    }
+
+    expect(await agendados('acme')).toHaveLength(3);
+    expect(pruned).toHaveLength(2);
+    expect(await instance.orquestrador.ExisteBackup(manual.metadata.backupId)).toBe(true);
+
+    const eventos = await instance.eventLog.getByEvento('BACKUP_DELETED');
+    expect(eventos.map(e => e.entidade_id)).toEqual(pruned);
+
+    const podados = getTelemetryRegistry().getCounter(METRIC_NAMES.BACKUP_PRUNED_TOTAL)!.getValuesForTenant('acme');
+    expect(podados[0].value).toBe(2);
+  });
+
+  test('saúde reporta último backup atrasado', async () => {
+    expect(check('backup_scheduler').status).toBe('OK');
+    expect(check('backup_last_success').status).toBe('OK');
+
+    jest.setSystemTime(INICIO.getTime() + 9 * DAY_MS);
+
+    expect(check('backup_scheduler')).toMatchObject({ status: 'CRITICAL', alertRef: 'ALERT-009' });
+    expect(check('backup_last_success').status).toBe('CRITICAL');
+    expect(check('backup_last_success').message).toContain('overdue');
+  });
+
+  test('falha de assinatura marca o tenant como falhando', async () => {
+    const chave = process.env[ENV_PRIVATE_KEY];
+    delete process.env[ENV_PRIVATE_KEY];
+
+    try {
+      const run = await scheduler.runOnce();
+      const gamma = run.results.find(r => r.tenantId === 'gamma')!;
+
+      expect(gamma.status).toBe('failed');
+      expect(gamma.error).toContain(ENV_PRIVATE_KEY);
+      expect(gamma.pruned).toEqual([]);
+      expect(run.failingTenants).toBe(1);
+      expect(check('backup_scheduler')).toMatchObject({ status: 'WARN', value: 1 });
+    } finally {
+      process.env[ENV_PRIVATE_KEY] = chave;
+    }
+  });
+
+  test('tenant que desativa backup sai da telemetria', async () => {
+    await app.inject({ method: 'PATCH', url: '/admin/tenants/gamma', headers: admin, payload: { features: { backupEnabled: false } } });
+
+    const run = await scheduler.runOnce();
+
+    expect(run.results.map(r => r.tenantId)).toEqual(['acme']);
+    const gauge = getTelemetryRegistry().getGauge(METRIC_NAMES.BACKUP_LAST_SUCCESS_TIMESTAMP)!;
+    expect(gauge.getValues().map(v => v.labels.tenant_id)).toEqual(['acme']);
+    expect(check('backup_last_success').status).toBe('OK');
+  });
+
+  test('encerrar o app para o agendador', async () => {
+    await scheduler.stop();
+
+    expect(scheduler.isRunning()).toBe(false);
+    expect(check('backup_scheduler')).toMatchObject({ status: 'OK', value: 'disabled' });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * TESTES - Incremento 46: Backup Incremental Encadeado por Hash
+ *
+ * Testa:
+ * - Incremental guarda só eventos após a âncora e itens novos/alterados
+ * - Cadeia completo → incremental → incremental (chainRootId, chainDepth)
+ * - Restauração da cadeia inteira, verificando cada elo
+ * - Base alterada, ausente ou EventLog divergente rejeitam a operação
+ * - Rota POST /admin/tenants/:id/backups com baseBackupId
+ */
+
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { FastifyInstance } from 'fastify';
+
+import {
+  BackupChainError,
+  BackupDataProviders,
+  BackupRepositoryImpl,
+  BackupService,
+  BackupValidationError,
+  BACKUP_PEPPER_ENV_KEY,
+  RestoreAppenders,
+  RestoreExistenceCheckers,
+  RestoreRejectedError,
+  RestoreService
+} from '../camada-3/backup';
+import { EventLogEntry, TipoEntidade, TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+const TEST_BACKUP_PEPPER = 'test-backup-pepper-inc46-' + Date.now();
+
+function criarEventos(total: number, anteriores: EventLogEntry[] = []): EventLogEntry[] {
+  const eventos = [...anteriores];
+  for (let i = 0; i < total; i++) {
+    const previous = eventos[eventos.length - 1];
+    eventos.push({
+      id: `evt-${eventos.length + 1}`,
+      timestamp: new Date(),
+      actor: 'Libervia',
+      evento: TipoEvento.SITUACAO_CRIADA,
+      entidade: TipoEntidade.SITUACAO,
+      entidade_id: `sit-${eventos.length + 1}`,
+      payload_hash: crypto.randomBytes(32).toString('hex'),
+      previous_hash: previous ? previous.current_hash : null,
+      current_hash: crypto.randomBytes(32).toString('hex')
+    });
+  }
+  return eventos;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: SERVIÇOS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 46 - Backup incremental', () => {
+  let dataDir: TestDataDir;
+  let repo: BackupRepositoryImpl;
+  let backupService: BackupService;
+  let restoreService: RestoreService;
+  let eventos: EventLogEntry[];
+  let mandatos: Array<{ id: string; status: string }>;
+  let restaurados: { eventos: EventLogEntry[]; mandatos: Array<{ id: string; status: string }> };
+  let registro: Array<{ evento: string; details: Record<string, unknown> }>;
+
+  beforeAll(() => {
+    process.env[BACKUP_PEPPER_ENV_KEY] = TEST_BACKUP_PEPPER;
+  });
+
+  afterAll(() => {
+    delete process.env[BACKUP_PEPPER_ENV_KEY];
+  });
+
+  beforeEach(async () => {
+    dataDir = await createTestDataDir('inc46-backup-incremental');
+    repo = new BackupRepositoryImpl(dataDir.dir);
+    eventos = criarEventos(3);
+    mandatos = [{ id: 'mandate-1', status: 'ativo' }, { id: 'mandate-2', status: 'ativo' }];
+    restaurados = { eventos: [], mandatos: [] };
+    registro = [];
+
+    const onEvent = async (evento: string, _backupId: string, details: Record<string, unknown>) => {
+      registro.push({ evento, details });
+    };
+
+    const providers: BackupDataProviders = {
+      getEventLog: async () => eventos,
+      getObservacoesDeConsequencia: async () => [],
+      getAutonomyMandates: async () => mandatos.map(m => ({ ...m })),
+      getReviewCases: async () => [],
+      getTenantRegistry: async () => []
+    };
+    backupService = new BackupService(repo, providers, onEvent);
+
+    const existenceCheckers: RestoreExistenceCheckers = {
+      eventExists: async id => restaurados.eventos.some(e => e.id === id),
+      observacaoExists: async () => false,
+      mandateExists: async id => restaurados.mandatos.some(m => m.id === id),
+      reviewCaseExists: async () => false,
+      tenantExists: async () => false
+    };
+    const appenders: RestoreAppenders = {
+      appendEvent: async event => { restaurados.eventos.push(event); },
+      appendObservacao: async () => undefined,
+      appendMandate: async mandate => { restaurados.mandatos.push(mandate as { id: string; status: string }); },
+      appendReviewCase: async () => undefined,
+      appendTenant: async () => undefined
+    };
+    restoreService = new RestoreService(repo, backupService, existenceCheckers, appenders, onEvent);
+  });
+
+  afterEach(async () => {
+    await dataDir.cleanup();
+  });
+
+  async function criarCadeia() {
+    const completo = await backupService.createBackup({ tenantId: 'acme' });
+
+    eventos = criarEventos(2, eventos);
+    mandatos[1] = { id: 'mandate-2', status: 'revogado' };
+    mandatos.push({ id: 'mandate-3', status: 'ativo' });
+    const inc1 = await backupService.createBackup({ tenantId: 'acme', baseBackupId: completo.metadata.backupId });
+
+    eventos = criarEventos(1, eventos);
+    const inc2 = await backupService.createBackup({ tenantId: 'acme', baseBackupId: inc1.metadata.backupId });
+
+    return { completo, inc1, inc2 };
+  }
+
+  test('incremental guarda só eventos após a âncora e itens alterados', async () => {
+    const { completo, inc1 } = await criarCadeia();
+
+    const eventLog = inc1.entities.find(e => e.entityType === 'EventLog')!.data as EventLogEntry[];
+    expect(eventLog.map(e => e.id)).toEqual(['evt-4', 'evt-5']);
+    expect(eventLog[0].previous_hash).toBe(completo.metadata.lastEventHash);
+
+    const mandates = inc1.entities.find(e => e.entityType === 'AutonomyMandates')!.data;
+    expect(mandates).toEqual([{ id: 'mandate-2', status: 'revogado' }, { id: 'mandate-3', status: 'ativo' }]);
+
+    expect(inc1.metadata).toMatchObject({
+      kind: 'incremental',
+      baseBackupId: completo.metadata.backupId,
+      baseContentHash: completo.contentHash,
+      baseLastEventId: 'evt-3',
+      baseLastEventHash: completo.metadata.lastEventHash,
+      chainRootId: completo.metadata.backupId,
+      chainDepth: 1,
+      lastEventId: 'evt-5',
+      includedEntities: completo.metadata.includedEntities
+    });
+    expect(inc1.metadata.entityCounts).toMatchObject({ EventLog: 2, AutonomyMandates: 2 });
+    expect(registro.find(r => r.evento === 'BACKUP_CREATED' && r.details.kind === 'incremental')).toBeDefined();
+  });
+
+  test('cadeia completo → incremental → incremental aparece na listagem', async () => {
+    const { completo, inc1, inc2 } = await criarCadeia();
+
+    expect(inc2.metadata).toMatchObject({ baseBackupId: inc1.metadata.backupId, chainRootId: completo.metadata.backupId, chainDepth: 2 });
+
+    const lista = await backupService.listBackups('acme');
+    const porId = new Map(lista.map(m => [m.backupId, m]));
+    expect(porId.get(completo.metadata.backupId)!.kind).toBe('full');
+    expect(porId.get(inc2.metadata.backupId)).toMatchObject({ kind: 'incremental', chainDepth: 2 });
+
+    const cadeia = await backupService.getBackupChain(inc2.metadata.backupId);
+    expect(cadeia.map(s => s.metadata.backupId)).toEqual([
+      completo.metadata.backupId,
+      inc1.metadata.backupId,
+      inc2.metadata.backupId
+    ]);
+  });
+
+  test('incremental sem eventos novos herda a âncora da base', async () => {
+    const completo = await backupService.createBackup({ tenantId: 'acme' });
+    const inc = await backupService.createBackup({ tenantId: 'acme', baseBackupId: completo.metadata.backupId });
+
+    expect(inc.metadata.entityCounts.EventLog).toBe(0);
+    expect(inc.metadata.lastEventId).toBe(completo.metadata.lastEventId);
+    expect(inc.metadata.lastEventHash).toBe(completo.metadata.lastEventHash);
+    expect((await backupService.validateBackup(inc.metadata.backupId)).valid).toBe(true);
+  });
+
+  test('restaurar incremental aplica a cadeia inteira em ordem', async () => {
+    const { completo, inc1, inc2 } = await criarCadeia();
+
+    const result = await restoreService.execute(inc2.metadata.backupId);
+
+    expect(result.success).toBe(true);
+    expect(result.chain).toEqual([completo.metadata.backupId, inc1.metadata.backupId, inc2.metadata.backupId]);
+    expect(restaurados.eventos.map(e => e.id)).toEqual(eventos.map(e => e.id));
+    expect(restaurados.mandatos).toEqual([
+      { id: 'mandate-1', status: 'ativo' },
+      { id: 'mandate-2', status: 'revogado' },
+      { id: 'mandate-3', status: 'ativo' }
+    ]);
+  });
+
+  test('restaurar backup completo não traz chain', async () => {
+    const completo = await backupService.createBackup({ tenantId: 'acme' });
+
+    const result = await restoreService.dryRun(completo.metadata.backupId);
+
+    expect(result.success).toBe(true);
+    expect(result.chain).toBeUndefined();
+  });
+
+  test('base alterada no disco quebra o elo', async () => {
+    const { completo, inc1 } = await criarCadeia();
+    const [arquivo] = (await repo.list('acme')).filter(f => f.metadata?.backupId === completo.metadata.backupId);
+    const raw = JSON.parse(await fs.readFile(arquivo.path, 'utf-8'));
+    raw.metadata.description = 'adulterado';
+    await fs.writeFile(arquivo.path, JSON.stringify(raw));
+
+    await expect(restoreService.dryRun(inc1.metadata.backupId)).rejects.toThrow('Cadeia de backups falhou');
+    expect(registro.find(r => r.evento === 'RESTORE_REJECTED')!.details.reason).toBe('chain_check_failed');
+
+    const validacao = await backupService.validateBackup(inc1.metadata.backupId);
+    expect(validacao.valid).toBe(false);
+    expect(validacao.errors.some(e => e.startsWith(completo.metadata.backupId))).toBe(true);
+  });
+
+  test('elo por hash: incremental religado a outra base é rejeitado', async () => {
+    const { completo, inc2 } = await criarCadeia();
+    const [arquivo] = (await repo.list('acme')).filter(f => f.metadata?.backupId === inc2.metadata.backupId);
+    const raw = JSON.parse(await fs.readFile(arquivo.path, 'utf-8'));
+
+    // Pula o inc1 sem recalcular hashes: integridade do incremental e elo falham
+    raw.metadata.baseBackupId = completo.metadata.backupId;
+    await fs.writeFile(arquivo.path, JSON.stringify(raw));
+
+    await expect(restoreService.dryRun(inc2.metadata.backupId)).rejects.toThrow(RestoreRejectedError);
+  });
+
+  test('base ausente rejeita a restauração', async () => {
+    const { inc1 } = await criarCadeia();
+    const completoId = inc1.metadata.baseBackupId!;
+    const [arquivo] = (await repo.list('acme')).filter(f => f.metadata?.backupId === completoId);
+    await fs.unlink(arquivo.path);
+
+    await expect(restoreService.dryRun(inc1.metadata.backupId)).rejects.toThrow('Cadeia de backups incompleta');
+    expect(registro.find(r => r.evento === 'RESTORE_REJECTED')!.details.reason).toBe('chain_incomplete');
+  });
+
+  test('EventLog que divergiu da base impede o incremental', async () => {
+    const completo = await backupService.createBackup({ tenantId: 'acme' });
+    eventos = eventos.map(e => (e.id === 'evt-3' ? { ...e, current_hash: 'reescrito' } : e));
+
+    await expect(
+      backupService.createBackup({ tenantId: 'acme', baseBackupId: completo.metadata.backupId })
+    ).rejects.toThrow(BackupChainError);
+  });
+
+  test('base precisa ser do mesmo tenant e com as mesmas entidades', async () => {
+    const completo = await backupService.createBackup({ tenantId: 'acme' });
+
+    await expect(
+      backupService.createBackup({ tenantId: 'beta', baseBackupId: completo.metadata.backupId })
+    ).rejects.toThrow(BackupValidationError);
+    await expect(
+      backupService.createBackup({ tenantId: 'acme', baseBackupId: completo.metadata.backupId, includeEntities: ['EventLog'] })
+    ).rejects.toThrow(BackupValidationError);
+
+    const parcial = await backupService.createBackup({ tenantId: 'acme', includeEntities: ['AutonomyMandates'] });
+    await expect(
+      backupService.createBackup({ tenantId: 'acme', baseBackupId: parcial.metadata.backupId })
+    ).rejects.toThrow('exige base com EventLog');
+  });
+
+  test('base de incremental não pode ser removida', async () => {
+    const { completo, inc2 } = await criarCadeia();
+
+    await expect(backupService.deleteBackup(completo.metadata.backupId, 'retention')).rejects.toThrow(BackupChainError);
+    expect(await backupService.deleteBackup(inc2.metadata.backupId, 'retention')).toBe(true);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 46 - Backup incremental pela API', () => {
+  const TEST_PEPPER = 'test-pepper-inc46-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc46-' + Date.now();
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  function post(url: string, payload: Record<string, unknown> = {}) {
+    return app.inject({ method: 'POST', url: `/admin/tenants/acme/${url}`, headers: admin, payload });
+  }
+
+  async function get(url: string) {
+    return JSON.parse((await app.inject({ method: 'GET', url: `/admin/tenants/acme/${url}`, headers: admin })).body);
+  }
+
+  async function concluir(jobId: string) {
+    const instance = await app.runtime.getOrCreate('acme');
+    await instance.backups.idle();
+    return get(`backups/jobs/${jobId}`);
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    process.env[BACKUP_PEPPER_ENV_KEY] = TEST_BACKUP_PEPPER;
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc46-backup-api');
+
+    const config: GatewayConfig = {
+      baseDir: dataDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    delete process.env[BACKUP_PEPPER_ENV_KEY];
+    clearPepperCache();
+  });
+
+  test('cria incremental, lista a cadeia e restaura a cadeia em dry-run', async () => {
+    const completo = await concluir(JSON.parse((await post('backups')).body).jobId);
+    expect(completo.status).toBe('completed');
+
+    // Evento novo entre a base e o incremental
+    await post('keys', { role: 'public' });
+
+    const res = await post('backups', { baseBackupId: completo.backupId });
+    expect(res.statusCode).toBe(202);
+    const inc = await concluir(JSON.parse(res.body).jobId);
+    expect(inc.status).toBe('completed');
+    expect(inc.backup).toMatchObject({ kind: 'incremental', baseBackupId: completo.backupId, chainDepth: 1 });
+
+    const { backups } = await get('backups');
+    const kinds = Object.fromEntries(backups.map((b: { backupId: string; kind: string }) => [b.backupId, b.kind]));
+    expect(kinds).toEqual({ [completo.backupId]: 'full', [inc.backupId]: 'incremental' });
+
+    const dryRun = await concluir(JSON.parse((await post(`backups/${inc.backupId}/restore/dry-run`)).body).jobId);
+    expect(dryRun.status).toBe('completed');
+    expect(dryRun.restore.chain).toEqual([completo.backupId, inc.backupId]);
+  });
+
+  test('valida baseBackupId e responde 404 para base inexistente', async () => {
+    const invalido = await post('backups', { baseBackupId: 'x', includeEntities: ['EventLog'] });
+    expect(invalido.statusCode).toBe(400);
+    expect(JSON.parse(invalido.body).details[0]).toContain('includeEntities');
+
+    const inexistente = await post('backups', { baseBackupId: 'backup_acme_0_inexistente' });
+    expect(inexistente.statusCode).toBe(404);
+    expect(JSON.parse(inexistente.body).code).toBe('BACKUP_NOT_FOUND');
+  });
+});
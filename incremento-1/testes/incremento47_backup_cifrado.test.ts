@@ -0,0 +1,433 @@
+/**
+ * TESTES - Incremento 47: Backup Cifrado em Repouso com Rotação de Chave
+ *
+ * Testa:
+ * - Entidades cifradas com AES-256-GCM; metadados legíveis sem a chave
+ * - Validação e restauração informam a chave exigida
+ * - Chave ausente do key-ring falha com erro explícito
+ * - Rewrap para a chave ativa sem decifrar o conteúdo
+ * - Conteúdo ou envelope adulterados não autenticam
+ * - Rotas com features.encryptedBackup e POST /backups/rewrap
+ */
+
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { FastifyInstance } from 'fastify';
+
+import {
+  BackupConfigError,
+  BackupDataProviders,
+  BackupEncryptionError,
+  BackupRepositoryImpl,
+  BackupService,
+  BACKUP_KEYS_ENV_KEY,
+  BACKUP_KEY_ID_ENV_KEY,
+  BACKUP_PEPPER_ENV_KEY,
+  generateBackupMasterKey,
+  loadBackupKeyRing,
+  RestoreAppenders,
+  RestoreExistenceCheckers,
+  RestoreRejectedError,
+  RestoreService
+} from '../camada-3/backup';
+import { EventLogEntry, TipoEntidade, TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+const TEST_BACKUP_PEPPER = 'test-backup-pepper-inc47-' + Date.now();
+const K1 = generateBackupMasterKey();
+const K2 = generateBackupMasterKey();
+
+function usarChaves(keys: string, activeKeyId?: string): void {
+  process.env[BACKUP_KEYS_ENV_KEY] = keys;
+  if (activeKeyId) {
+    process.env[BACKUP_KEY_ID_ENV_KEY] = activeKeyId;
+  } else {
+    delete process.env[BACKUP_KEY_ID_ENV_KEY];
+  }
+}
+
+function limparChaves(): void {
+  delete process.env[BACKUP_KEYS_ENV_KEY];
+  delete process.env[BACKUP_KEY_ID_ENV_KEY];
+}
+
+function criarEventos(total: number): EventLogEntry[] {
+  const eventos: EventLogEntry[] = [];
+  for (let i = 0; i < total; i++) {
+    eventos.push({
+      id: `evt-${i + 1}`,
+      timestamp: new Date(),
+      actor: 'Libervia',
+      evento: TipoEvento.SITUACAO_CRIADA,
+      entidade: TipoEntidade.SITUACAO,
+      entidade_id: `sit-${i + 1}`,
+      payload_hash: crypto.randomBytes(32).toString('hex'),
+      previous_hash: i > 0 ? eventos[i - 1].current_hash : null,
+      current_hash: crypto.randomBytes(32).toString('hex')
+    });
+  }
+  return eventos;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: KEY-RING
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 47 - Key-ring', () => {
+  afterEach(limparChaves);
+
+  test('primeira chave é a ativa; LIBERVIA_BACKUP_KEY_ID escolhe outra', () => {
+    usarChaves(`k1:${K1}, k2:${K2}`);
+    expect(loadBackupKeyRing().activeKeyId).toBe('k1');
+
+    usarChaves(`k1:${K1},k2:${K2}`, 'k2');
+    const ring = loadBackupKeyRing();
+    expect(ring.activeKeyId).toBe('k2');
+    expect([...ring.keys.keys()]).toEqual(['k1', 'k2']);
+  });
+
+  test('sem variável o key-ring é vazio', () => {
+    expect(loadBackupKeyRing().activeKeyId).toBeUndefined();
+  });
+
+  test('chave malformada ou ativa fora do key-ring', () => {
+    usarChaves('k1:curta');
+    expect(() => loadBackupKeyRing()).toThrow(BackupEncryptionError);
+
+    usarChaves(`k1:${K1}`, 'k9');
+    expect(() => loadBackupKeyRing()).toThrow('k9');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: SERVIÇOS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 47 - Backup cifrado', () => {
+  let dataDir: TestDataDir;
+  let repo: BackupRepositoryImpl;
+  let backupService: BackupService;
+  let restoreService: RestoreService;
+  let eventos: EventLogEntry[];
+  let restaurados: string[];
+  let registro: Array<{ evento: string; details: Record<string, unknown> }>;
+
+  beforeAll(() => {
+    process.env[BACKUP_PEPPER_ENV_KEY] = TEST_BACKUP_PEPPER;
+  });
+
+  afterAll(() => {
+    delete process.env[BACKUP_PEPPER_ENV_KEY];
+  });
+
+  beforeEach(async () => {
+    usarChaves(`k1:${K1}`);
+    dataDir = await createTestDataDir('inc47-backup-cifrado');
+    repo = new BackupRepositoryImpl(dataDir.dir);
+    eventos = criarEventos(3);
+    restaurados = [];
+    registro = [];
+
+    const onEvent = async (evento: string, _backupId: string, details: Record<string, unknown>) => {
+      registro.push({ evento, details });
+    };
+
+    const providers: BackupDataProviders = {
+      getEventLog: async () => eventos,
+      getObservacoesDeConsequencia: async () => [],
+      getAutonomyMandates: async () => [{ id: 'mandate-segredo', status: 'ativo' }],
+      getReviewCases: async () => [],
+      getTenantRegistry: async () => []
+    };
+    backupService = new BackupService(repo, providers, onEvent);
+
+    const existenceCheckers: RestoreExistenceCheckers = {
+      eventExists: async () => false,
+      observacaoExists: async () => false,
+      mandateExists: async () => false,
+      reviewCaseExists: async () => false,
+      tenantExists: async () => false
+    };
+    const appenders: RestoreAppenders = {
+      appendEvent: async event => { restaurados.push(event.id); },
+      appendObservacao: async () => undefined,
+      appendMandate: async mandate => { restaurados.push((mandate as { id: string }).id); },
+      appendReviewCase: async () => undefined,
+      appendTenant: async () => undefined
+    };
+    restoreService = new RestoreService(repo, backupService, existenceCheckers, appenders, onEvent);
+  });
+
+  afterEach(async () => {
+    limparChaves();
+    await dataDir.cleanup();
+  });
+
+  async function arquivo(backupId: string) {
+    const [info] = (await repo.list()).filter(f => f.metadata?.backupId === backupId);
+    return { path: info.path, raw: JSON.parse(await fs.readFile(info.path, 'utf-8')) };
+  }
+
+  test('arquivo guarda só metadados e envelope; conteúdo não aparece em claro', async () => {
+    const backup = await backupService.createBackup({ tenantId: 'acme', encrypted: true });
+    const { raw } = await arquivo(backup.metadata.backupId);
+
+    expect(raw.metadata.encrypted).toBe(true);
+    expect(raw.entities).toEqual([]);
+    expect(raw.encryption).toMatchObject({ algorithm: 'aes-256-gcm', keyId: 'k1' });
+    expect(JSON.stringify(raw)).not.toContain('mandate-segredo');
+    expect(JSON.stringify(raw)).not.toContain(eventos[0].current_hash);
+
+    const carregado = await backupService.getBackup(backup.metadata.backupId);
+    expect(carregado!.entities).toEqual(JSON.parse(JSON.stringify(backup.entities)));
+    expect(registro.find(r => r.evento === 'BACKUP_CREATED')!.details.encrypted).toBe(true);
+  });
+
+  test('validação e restauração informam a chave', async () => {
+    const backup = await backupService.createBackup({ tenantId: 'acme', encrypted: true });
+
+    const validacao = await backupService.validateBackup(backup.metadata.backupId);
+    expect(validacao).toMatchObject({ valid: true, encryptionKeyId: 'k1' });
+
+    const result = await restoreService.execute(backup.metadata.backupId);
+    expect(result).toMatchObject({ success: true, encryptionKeyId: 'k1' });
+    expect(restaurados).toEqual(['evt-1', 'evt-2', 'evt-3', 'mandate-segredo']);
+  });
+
+  test('backup em claro continua igual', async () => {
+    const backup = await backupService.createBackup({ tenantId: 'acme' });
+    const { raw } = await arquivo(backup.metadata.backupId);
+
+    expect(raw.encryption).toBeUndefined();
+    expect(raw.entities).toHaveLength(5);
+    expect((await backupService.validateBackup(backup.metadata.backupId)).encryptionKeyId).toBeUndefined();
+  });
+
+  test('sem chave ativa o backup cifrado falha em vez de sair em claro', async () => {
+    limparChaves();
+
+    await expect(backupService.createBackup({ tenantId: 'acme', encrypted: true })).rejects.toThrow(BackupConfigError);
+    expect(await repo.list()).toHaveLength(0);
+  });
+
+  test('chave ausente: listagem funciona, validação e restauração falham com o keyId', async () => {
+    const backup = await backupService.createBackup({ tenantId: 'acme', encrypted: true });
+    usarChaves(`k2:${K2}`);
+
+    const lista = await backupService.listBackups('acme');
+    expect(lista).toHaveLength(1);
+    expect(lista[0].encrypted).toBe(true);
+    expect(await repo.exists(backup.metadata.backupId)).toBe(true);
+
+    const validacao = await backupService.validateBackup(backup.metadata.backupId);
+    expect(validacao.valid).toBe(false);
+    expect(validacao.encryptionKeyId).toBe('k1');
+    expect(validacao.errors[0]).toContain('Chave de criptografia ausente');
+
+    await expect(restoreService.dryRun(backup.metadata.backupId)).rejects.toThrow(
+      'Backup exige a chave de criptografia k1, ausente do key-ring'
+    );
+    const rejeicao = registro.find(r => r.evento === 'RESTORE_REJECTED')!;
+    expect(rejeicao.details).toMatchObject({ reason: 'encryption_key_missing', keyId: 'k1' });
+  });
+
+  test('rotação: rewrap troca a chave sem tocar no conteúdo cifrado', async () => {
+    const backup = await backupService.createBackup({ tenantId: 'acme', encrypted: true });
+    const antes = (await arquivo(backup.metadata.backupId)).raw;
+
+    usarChaves(`k1:${K1},k2:${K2}`, 'k2');
+    const result = await backupService.rewrapBackups('acme');
+
+    expect(result).toMatchObject({
+      activeKeyId: 'k2',
+      rewrapped: [{ backupId: backup.metadata.backupId, fromKeyId: 'k1' }],
+      unchanged: 0,
+      failed: []
+    });
+    const depois = (await arquivo(backup.metadata.backupId)).raw;
+    expect(depois.encryption.keyId).toBe('k2');
+    expect(depois.encryption.payload).toEqual(antes.encryption.payload);
+    expect(depois.encryption.wrappedKey).not.toEqual(antes.encryption.wrappedKey);
+    expect(depois.contentHash).toBe(antes.contentHash);
+    expect(registro.find(r => r.evento === 'BACKUP_REWRAPPED')!.details).toEqual({ fromKeyId: 'k1', toKeyId: 'k2' });
+
+    // k1 pode sair do key-ring
+    usarChaves(`k2:${K2}`);
+    expect(await backupService.validateBackup(backup.metadata.backupId)).toMatchObject({ valid: true, encryptionKeyId: 'k2' });
+    expect((await restoreService.dryRun(backup.metadata.backupId)).success).toBe(true);
+    expect(await backupService.rewrapBackups('acme')).toMatchObject({ rewrapped: [], unchanged: 1 });
+  });
+
+  test('rewrap sem a chave antiga reporta a falha por backup', async () => {
+    const backup = await backupService.createBackup({ tenantId: 'acme', encrypted: true });
+    usarChaves(`k2:${K2}`);
+
+    const result = await backupService.rewrapBackups();
+
+    expect(result.rewrapped).toEqual([]);
+    expect(result.failed).toEqual([
+      expect.objectContaining({ backupId: backup.metadata.backupId, keyId: 'k1' })
+    ]);
+
+    limparChaves();
+    await expect(backupService.rewrapBackups()).rejects.toThrow(BackupConfigError);
+  });
+
+  test('conteúdo cifrado adulterado não autentica', async () => {
+    const backup = await backupService.createBackup({ tenantId: 'acme', encrypted: true });
+    const { path, raw } = await arquivo(backup.metadata.backupId);
+    const data = Buffer.from(raw.encryption.payload.data, 'base64');
+    data[0] ^= 0xff;
+    raw.encryption.payload.data = data.toString('base64');
+    await fs.writeFile(path, JSON.stringify(raw));
+
+    const validacao = await backupService.validateBackup(backup.metadata.backupId);
+    expect(validacao.valid).toBe(false);
+    expect(validacao.errors[0]).toContain('não autenticou');
+
+    await expect(restoreService.dryRun(backup.metadata.backupId)).rejects.toThrow(RestoreRejectedError);
+    expect(registro.find(r => r.evento === 'RESTORE_REJECTED')!.details.reason).toBe('decryption_failed');
+  });
+
+  test('envelope copiado de outro backup não abre', async () => {
+    const a = await backupService.createBackup({ tenantId: 'acme', encrypted: true });
+    const b = await backupService.createBackup({ tenantId: 'beta', encrypted: true });
+    const origem = (await arquivo(a.metadata.backupId)).raw;
+    const destino = await arquivo(b.metadata.backupId);
+    destino.raw.encryption = origem.encryption;
+    await fs.writeFile(destino.path, JSON.stringify(destino.raw));
+
+    await expect(backupService.getBackup(b.metadata.backupId)).rejects.toThrow(BackupEncryptionError);
+  });
+
+  test('backup marcado como cifrado salvo em claro é inválido', async () => {
+    const backup = await backupService.createBackup({ tenantId: 'acme', encrypted: true });
+    const { path, raw } = await arquivo(backup.metadata.backupId);
+    const claro = await backupService.getBackup(backup.metadata.backupId);
+    raw.entities = claro!.entities;
+    delete raw.encryption;
+    await fs.writeFile(path, JSON.stringify(raw));
+
+    const validacao = await backupService.validateBackup(backup.metadata.backupId);
+    expect(validacao.valid).toBe(false);
+    expect(validacao.errors).toContain('Backup cifrado sem envelope de criptografia');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 47 - Backup cifrado pela API', () => {
+  const TEST_PEPPER = 'test-pepper-inc47-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc47-' + Date.now();
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  function post(url: string, headers: { authorization: string } = admin, payload: Record<string, unknown> = {}) {
+    return app.inject({ method: 'POST', url: `/admin/tenants/acme/${url}`, headers, payload });
+  }
+
+  async function concluir(jobId: string) {
+    const instance = await app.runtime.getOrCreate('acme');
+    await instance.backups.idle();
+    return JSON.parse((await app.inject({ method: 'GET', url: `/admin/tenants/acme/backups/jobs/${jobId}`, headers: admin })).body);
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    process.env[BACKUP_PEPPER_ENV_KEY] = TEST_BACKUP_PEPPER;
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc47-backup-api');
+
+    const config: GatewayConfig = {
+      baseDir: dataDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    await app.inject({
+      method: 'PATCH',
+      url: '/admin/tenants/acme',
+      headers: admin,
+      payload: { features: { encryptedBackup: true } }
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    delete process.env[BACKUP_PEPPER_ENV_KEY];
+    limparChaves();
+    clearPepperCache();
+  });
+
+  test('tenant com encryptedBackup sem key-ring: job falha com BACKUP_CONFIG_MISSING', async () => {
+    limparChaves();
+
+    const job = await concluir(JSON.parse((await post('backups')).body).jobId);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toContain(BACKUP_KEYS_ENV_KEY);
+  });
+
+  test('backup manual cifrado, validação com keyId e rewrap só com global_admin', async () => {
+    usarChaves(`k1:${K1}`);
+    const job = await concluir(JSON.parse((await post('backups')).body).jobId);
+    expect(job.status).toBe('completed');
+    expect(job.backup.encrypted).toBe(true);
+
+    const validacao = JSON.parse((await post(`backups/${job.backupId}/validate`)).body);
+    expect(validacao).toMatchObject({ valid: true, encryptionKeyId: 'k1' });
+
+    const chave = JSON.parse((await post('keys', admin, { role: 'tenant_admin' })).body);
+    const negado = await post('backups/rewrap', { authorization: `Bearer ${chave.token}` });
+    expect(negado.statusCode).toBe(403);
+    const codificado = await post('backups/re%77rap', { authorization: `Bearer ${chave.token}` });
+    expect(codificado.statusCode).toBe(403);
+    expect(JSON.parse(codificado.body).code).toBe('INSUFFICIENT_ROLE');
+
+    usarChaves(`k1:${K1},k2:${K2}`, 'k2');
+    const rewrap = await post('backups/rewrap');
+    expect(rewrap.statusCode).toBe(200);
+    expect(JSON.parse(rewrap.body)).toMatchObject({
+      activeKeyId: 'k2',
+      rewrapped: [{ backupId: job.backupId, fromKeyId: 'k1' }]
+    });
+
+    usarChaves(`k2:${K2}`);
+    const dryRun = await concluir(JSON.parse((await post(`backups/${job.backupId}/restore/dry-run`)).body).jobId);
+    expect(dryRun.status).toBe('completed');
+    expect(dryRun.restore.encryptionKeyId).toBe('k2');
+  });
+
+  test('restauração sem a chave: job falha nomeando a chave', async () => {
+    usarChaves(`k2:${K2}`);
+    const job = await concluir(JSON.parse((await post('backups')).body).jobId);
+
+    usarChaves(`k3:${generateBackupMasterKey()}`);
+    const validacao = JSON.parse((await post(`backups/${job.backupId}/validate`)).body);
+    expect(validacao).toMatchObject({ valid: false, encryptionKeyId: 'k2' });
+
+    const dryRun = await concluir(JSON.parse((await post(`backups/${job.backupId}/restore/dry-run`)).body).jobId);
+    expect(dryRun.status).toBe('failed');
+    expect(dryRun.error).toContain('k2');
+
+    const rewrap = await post('backups/rewrap');
+    expect(JSON.parse(rewrap.body).failed).toEqual(
+      expect.arrayContaining([expect.objectContaining({ keyId: 'k2' })])
+    );
+  });
+});
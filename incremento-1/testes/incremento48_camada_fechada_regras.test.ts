@@ -0,0 +1,450 @@
+/**
+ * TESTES - Incremento 48: Regras da Camada Fechada por Tenant
+ *
+ * Testa:
+ * - Validador de arquivos de conjunto de regras
+ * - Avaliação determinística das regras declarativas
+ * - Regras embutidas continuam obrigatórias e rodam antes
+ * - Protocolo REJEITADO com a versão do conjunto no evento PROTOCOLO_REJEITADO
+ * - RegistrarDecisao bloqueia com a versão vigente do conjunto
+ * - Rotas /admin/tenants/:id/closed-layer/rule-set (PUT/DELETE só global_admin)
+ */
+
+import { FastifyInstance } from 'fastify';
+
+import {
+  validateClosedLayer,
+  validateClosedLayerRuleSet,
+  ClosedLayerRuleId,
+  ClosedLayerRuleSet,
+  SituacaoDecisoria,
+  DecisionProtocol,
+  StatusSituacao,
+  EstadoProtocolo,
+  PerfilRisco,
+  decodeEventPayload
+} from '../camada-3';
+import { evaluateClosedLayerRuleSet } from '../camada-3/camada-fechada';
+import { TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ════════════════════════════════════════════════════════════════════════════
+
+const RULE_SET: ClosedLayerRuleSet = {
+  ruleSetId: 'bancos-br',
+  version: 1,
+  description: 'Regras de crédito regulado',
+  rules: [
+    {
+      id: 'BLOQUEAR_CREDITO_SEM_IRREVERSIVEL',
+      type: 'MINIMO_RISCOS_IRREVERSIVEIS',
+      minimo: 1,
+      dominios: ['Crédito']
+    },
+    {
+      id: 'BLOQUEAR_CREDITO_SEM_LIMITES',
+      type: 'LIMITES_OBRIGATORIOS_POR_DOMINIO',
+      dominio: 'credito',
+      tiposLimite: ['Financeiro', 'Prazo']
+    },
+    {
+      id: 'BLOQUEAR_AGRESSIVO_CASO_3',
+      type: 'PERFIL_PROIBIDO_POR_CASO_USO',
+      perfis: [PerfilRisco.AGRESSIVO],
+      casosUso: [3]
+    }
+  ]
+};
+
+function criarSituacao(overrides: Partial<SituacaoDecisoria> = {}): SituacaoDecisoria {
+  return {
+    id: 'sit-48',
+    dominio: 'credito',
+    contexto: 'Contexto',
+    objetivo: 'Objetivo',
+    incertezas: ['Incerteza'],
+    alternativas: [
+      { descricao: 'A', riscos_associados: ['r1'] },
+      { descricao: 'B', riscos_associados: ['r2'] }
+    ],
+    riscos: [{ descricao: 'Inadimplência', tipo: 'Financeiro', reversibilidade: 'Irreversível' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Perda de capital',
+    possibilidade_aprendizado: true,
+    status: StatusSituacao.EM_ANALISE,
+    data_criacao: new Date(),
+    caso_uso_declarado: 1,
+    anexos_analise: [],
+    ...overrides
+  };
+}
+
+function criarProtocolo(overrides: Partial<DecisionProtocol> = {}): DecisionProtocol {
+  return {
+    id: 'prot-48',
+    episodio_id: 'ep-48',
+    criterios_minimos: ['Critério'],
+    riscos_considerados: ['Inadimplência'],
+    limites_definidos: [
+      { tipo: 'financeiro', descricao: 'Max', valor: '10000' },
+      { tipo: 'PRAZO', descricao: 'Max dias', valor: '30' }
+    ],
+    perfil_risco: PerfilRisco.MODERADO,
+    alternativas_avaliadas: ['A', 'B'],
+    alternativa_escolhida: 'A',
+    memoria_consultada_ids: [],
+    anexos_utilizados_ids: [],
+    estado: EstadoProtocolo.VALIDADO,
+    validado_em: new Date(),
+    validado_por: 'Libervia',
+    ...overrides
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: VALIDADOR DE ARQUIVOS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 48 - validateClosedLayerRuleSet', () => {
+  test('aceita conjunto válido e devolve cópia', () => {
+    const validation = validateClosedLayerRuleSet(RULE_SET);
+
+    expect(validation).toEqual({ valid: true, errors: [], ruleSet: RULE_SET });
+    expect(validation.ruleSet).not.toBe(RULE_SET);
+  });
+
+  test('aponta cada erro com o caminho do campo', () => {
+    const validation = validateClosedLayerRuleSet({
+      ruleSetId: 'Bancos BR',
+      version: 0,
+      extra: true,
+      rules: [
+        { id: ClosedLayerRuleId.SEM_RISCO, type: 'PERFIL_PROIBIDO_POR_CASO_USO', perfis: ['OUSADO'], casosUso: [] },
+        { id: 'REGRA_A', type: 'MINIMO_RISCOS_IRREVERSIVEIS', minimo: 1.5, limite: 2 },
+        { id: 'REGRA_B', type: 'DESCONHECIDO' },
+        { id: 'REGRA_C', type: 'LIMITES_OBRIGATORIOS_POR_DOMINIO', dominio: 'x', tiposLimite: ['Prazo'] },
+        { id: 'REGRA_C', type: 'LIMITES_OBRIGATORIOS_POR_DOMINIO', dominio: 'y', tiposLimite: [''] }
+      ]
+    });
+
+    expect(validation.valid).toBe(false);
+    expect(validation.ruleSet).toBeUndefined();
+    expect(validation.errors).toEqual([
+      'extra: campo desconhecido',
+      'ruleSetId: use minúsculas, dígitos, ".", "_" e "-" (até 64 caracteres)',
+      'version: deve ser inteiro >= 1',
+      `rules[0].id: ${ClosedLayerRuleId.SEM_RISCO} é uma regra embutida`,
+      'rules[0].perfis: deve ser lista não vazia de CONSERVADOR, MODERADO, AGRESSIVO',
+      'rules[0].casosUso: deve ser lista não vazia de inteiros >= 1',
+      'rules[1].limite: campo desconhecido',
+      'rules[1].minimo: deve ser inteiro >= 1',
+      'rules[2].type: deve ser um de MINIMO_RISCOS_IRREVERSIVEIS, LIMITES_OBRIGATORIOS_POR_DOMINIO, PERFIL_PROIBIDO_POR_CASO_USO',
+      'rules[4].tiposLimite[0]: deve ser texto não vazio'
+    ]);
+  });
+
+  test('rejeita ids duplicados e entrada que não é objeto', () => {
+    const regra = { id: 'REGRA_A', type: 'MINIMO_RISCOS_IRREVERSIVEIS', minimo: 1 };
+
+    expect(validateClosedLayerRuleSet({ ruleSetId: 'x', version: 1, rules: [regra, regra] }).errors)
+      .toEqual(['rules[1].id: REGRA_A duplicado']);
+    expect(validateClosedLayerRuleSet([]).errors).toEqual(['conjunto de regras deve ser um objeto JSON']);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: AVALIAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 48 - Avaliação das regras do tenant', () => {
+  test('situação e protocolo conformes passam', () => {
+    expect(validateClosedLayer(criarSituacao(), criarProtocolo(), RULE_SET).blocked).toBe(false);
+  });
+
+  test('MINIMO_RISCOS_IRREVERSIVEIS compara sem acento e respeita dominios', () => {
+    const reversivel = criarSituacao({
+      riscos: [{ descricao: 'Atraso', tipo: 'Operacional', reversibilidade: 'Parcial' }]
+    });
+
+    expect(evaluateClosedLayerRuleSet(RULE_SET, reversivel, criarProtocolo())).toEqual({
+      blocked: true,
+      rule: 'BLOQUEAR_CREDITO_SEM_IRREVERSIVEL',
+      reason: 'Situação exige ao menos 1 risco(s) irreversível(is) declarado(s); encontrados: 0',
+      ruleSetId: 'bancos-br',
+      ruleSetVersion: 1
+    });
+
+    const outroDominio = { ...reversivel, dominio: 'marketing' };
+    expect(evaluateClosedLayerRuleSet(RULE_SET, outroDominio, criarProtocolo()).blocked).toBe(false);
+  });
+
+  test('LIMITES_OBRIGATORIOS_POR_DOMINIO lista os tipos ausentes', () => {
+    const protocolo = criarProtocolo({
+      limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10' }]
+    });
+
+    const result = evaluateClosedLayerRuleSet(RULE_SET, criarSituacao(), protocolo);
+
+    expect(result.rule).toBe('BLOQUEAR_CREDITO_SEM_LIMITES');
+    expect(result.reason).toBe('Domínio credito exige limites dos tipos: Prazo');
+  });
+
+  test('PERFIL_PROIBIDO_POR_CASO_USO usa motivo declarado', () => {
+    const ruleSet: ClosedLayerRuleSet = {
+      ...RULE_SET,
+      rules: [{ ...RULE_SET.rules[2], motivo: 'Caso 3 exige perfil conservador ou moderado' }]
+    };
+    const situacao = criarSituacao({ caso_uso_declarado: 3 });
+
+    const agressivo = evaluateClosedLayerRuleSet(ruleSet, situacao, criarProtocolo({ perfil_risco: PerfilRisco.AGRESSIVO }));
+    expect(agressivo.rule).toBe('BLOQUEAR_AGRESSIVO_CASO_3');
+    expect(agressivo.reason).toBe('Caso 3 exige perfil conservador ou moderado');
+
+    expect(evaluateClosedLayerRuleSet(ruleSet, situacao, criarProtocolo()).blocked).toBe(false);
+  });
+
+  test('regras embutidas rodam antes e não são substituídas', () => {
+    const situacao = criarSituacao({
+      consequencia_relevante: ' ',
+      riscos: [{ descricao: 'Atraso', tipo: 'Operacional', reversibilidade: 'Parcial' }]
+    });
+
+    const result = validateClosedLayer(situacao, criarProtocolo(), RULE_SET);
+
+    expect(result.rule).toBe(ClosedLayerRuleId.SEM_CONSEQUENCIA);
+    expect(result.ruleSetId).toBeUndefined();
+  });
+
+  test('primeiro bloqueio na ordem declarada; sem conjunto só embutidas', () => {
+    const situacao = criarSituacao({
+      caso_uso_declarado: 3,
+      riscos: [{ descricao: 'Atraso', tipo: 'Operacional', reversibilidade: 'Parcial' }]
+    });
+    const protocolo = criarProtocolo({ perfil_risco: PerfilRisco.AGRESSIVO, limites_definidos: [
+      { tipo: 'Financeiro', descricao: 'Max', valor: '10' }
+    ] });
+
+    expect(validateClosedLayer(situacao, protocolo, RULE_SET).rule).toBe('BLOQUEAR_CREDITO_SEM_IRREVERSIVEL');
+    expect(validateClosedLayer(situacao, protocolo).blocked).toBe(false);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 48 - Regras do tenant via gateway', () => {
+  const TEST_PEPPER = 'test-pepper-inc48-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc48-' + Date.now();
+  let app: FastifyInstance;
+  let testDir: TestDataDir;
+  let publicToken: string;
+  let tenantAdminToken: string;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  const DECISAO_PAYLOAD = {
+    situacao: {
+      dominio: 'credito',
+      contexto: 'Contexto',
+      objetivo: 'Objetivo',
+      incertezas: ['Incerteza'],
+      alternativas: [
+        { descricao: 'A', riscos_associados: ['r1'] },
+        { descricao: 'B', riscos_associados: ['r2'] }
+      ],
+      riscos: [{ descricao: 'Inadimplência', tipo: 'Financeiro', reversibilidade: 'irreversivel' }],
+      urgencia: 'Média',
+      capacidade_absorcao: 'Alta',
+      consequencia_relevante: 'Perda de capital',
+      possibilidade_aprendizado: true,
+      caso_uso_declarado: 3
+    },
+    protocolo: {
+      criterios_minimos: ['Critério'],
+      riscos_considerados: ['Inadimplência'],
+      limites_definidos: [
+        { tipo: 'Financeiro', descricao: 'Max', valor: '10' },
+        { tipo: 'Prazo', descricao: 'Dias', valor: '30' }
+      ],
+      perfil_risco: PerfilRisco.AGRESSIVO,
+      alternativas_avaliadas: ['A', 'B'],
+      alternativa_escolhida: 'A'
+    }
+  };
+
+  function ruleSetRequest(method: 'GET' | 'PUT' | 'DELETE', headers: Record<string, string>, payload?: unknown) {
+    return app.inject({
+      method,
+      url: '/admin/tenants/acme/closed-layer/rule-set',
+      headers,
+      payload: payload as Record<string, unknown> | undefined
+    });
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    testDir = await createTestDataDir('inc48-gw');
+
+    const config: GatewayConfig = {
+      baseDir: testDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const publicKey = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    publicToken = JSON.parse(publicKey.body).token;
+    const adminKey = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'tenant_admin' }
+    });
+    tenantAdminToken = JSON.parse(adminKey.body).token;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await testDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('tenant_admin lê e valida; instalar e remover exigem global_admin', async () => {
+    const tenantAdmin = { authorization: `Bearer ${tenantAdminToken}` };
+
+    const vazio = await ruleSetRequest('GET', tenantAdmin);
+    expect(vazio.statusCode).toBe(200);
+    expect(JSON.parse(vazio.body)).toEqual({ ruleSet: null });
+
+    const validacao = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/closed-layer/rule-set/validate',
+      headers: tenantAdmin,
+      payload: { ...RULE_SET, version: 0 }
+    });
+    expect(JSON.parse(validacao.body)).toEqual({ valid: false, errors: ['version: deve ser inteiro >= 1'] });
+
+    expect((await ruleSetRequest('PUT', tenantAdmin, RULE_SET)).statusCode).toBe(403);
+    expect((await ruleSetRequest('DELETE', tenantAdmin)).statusCode).toBe(403);
+
+    // Path com percent-encoding chega ao mesmo handler: a exigência vale igual
+    const codificado = await app.inject({
+      method: 'DELETE',
+      url: '/admin/tenants/acme/closed-layer/rule-s%65t',
+      headers: tenantAdmin
+    });
+    expect(codificado.statusCode).toBe(403);
+    expect(JSON.parse(codificado.body).code).toBe('INSUFFICIENT_ROLE');
+  });
+
+  test('PUT valida o conjunto e exige versão crescente', async () => {
+    const invalido = await ruleSetRequest('PUT', admin, { ...RULE_SET, rules: [{ id: 'x' }] });
+    expect(invalido.statusCode).toBe(400);
+    expect(JSON.parse(invalido.body)).toMatchObject({ code: 'INVALID_RULE_SET' });
+    expect(JSON.parse(invalido.body).errors.length).toBeGreaterThan(0);
+
+    const instalado = await ruleSetRequest('PUT', admin, RULE_SET);
+    expect(instalado.statusCode).toBe(200);
+    expect(JSON.parse(instalado.body)).toEqual({ ruleSet: RULE_SET });
+
+    const repetido = await ruleSetRequest('PUT', admin, RULE_SET);
+    expect(repetido.statusCode).toBe(409);
+    expect(JSON.parse(repetido.body).code).toBe('RULE_SET_VERSION_CONFLICT');
+
+    expect(app.registry.getClosedLayerRuleSet('acme')).toEqual(RULE_SET);
+  });
+
+  test('/decisoes rejeita o protocolo e o evento PROTOCOLO_REJEITADO traz a versão', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes',
+      headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` },
+      payload: DECISAO_PAYLOAD
+    });
+
+    expect(response.statusCode).toBe(400);
+    const body = JSON.parse(response.body);
+    expect(body.error).toBe('Protocol rejected');
+    expect(body.reason).toContain('Camada Fechada (bancos-br v1): Regra: BLOQUEAR_AGRESSIVO_CASO_3');
+    expect(body.regras_camada_fechada).toEqual({ ruleSetId: 'bancos-br', version: 1 });
+
+    const instance = await app.runtime.getOrCreate('acme');
+    const eventos = await instance.eventLog.getByEvento(TipoEvento.PROTOCOLO_REJEITADO);
+    expect(eventos).toHaveLength(1);
+
+    const decoded = decodeEventPayload(eventos[0]);
+    expect(decoded!.verified).toBe(true);
+    expect(decoded!.data).toMatchObject({
+      estado: EstadoProtocolo.REJEITADO,
+      regras_camada_fechada: { ruleSetId: 'bancos-br', version: 1 }
+    });
+    expect(String(decoded!.data!.motivo_rejeicao)).toContain('BLOQUEAR_AGRESSIVO_CASO_3');
+  });
+
+  test('RegistrarDecisao aplica a versão vigente do conjunto', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+    const orquestrador = instance.orquestrador;
+    const { protocolo: dados } = DECISAO_PAYLOAD;
+
+    const episodio = await orquestrador.ProcessarSolicitacao({
+      ...DECISAO_PAYLOAD.situacao,
+      caso_uso_declarado: 1,
+      id: 'sit-inc48-registro',
+      status: StatusSituacao.RASCUNHO,
+      data_criacao: new Date(),
+      anexos_analise: []
+    });
+    const protocolo = await orquestrador.ConstruirProtocoloDeDecisao(episodio.id, dados);
+    expect(protocolo.estado).toBe(EstadoProtocolo.VALIDADO);
+    expect(protocolo.regras_camada_fechada).toEqual({ ruleSetId: 'bancos-br', version: 1 });
+
+    const v2 = await ruleSetRequest('PUT', admin, {
+      ...RULE_SET,
+      version: 2,
+      rules: [{ id: 'BLOQUEAR_AGRESSIVO', type: 'PERFIL_PROIBIDO_POR_CASO_USO', perfis: ['AGRESSIVO'], casosUso: [1] }]
+    });
+    expect(v2.statusCode).toBe(200);
+
+    await expect(orquestrador.RegistrarDecisao(episodio.id, {
+      alternativa_escolhida: dados.alternativa_escolhida,
+      criterios: dados.criterios_minimos,
+      perfil_risco: dados.perfil_risco,
+      limites: dados.limites_definidos,
+      condicoes: []
+    })).rejects.toThrow('Regra: BLOQUEAR_AGRESSIVO. Conjunto: bancos-br v2.');
+  });
+
+  test('DELETE volta às regras embutidas', async () => {
+    const removido = await ruleSetRequest('DELETE', admin);
+    expect(removido.statusCode).toBe(200);
+    expect((await ruleSetRequest('DELETE', admin)).statusCode).toBe(404);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes',
+      headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` },
+      payload: DECISAO_PAYLOAD
+    });
+    expect(response.statusCode).toBe(201);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * TESTES - Incremento 49: Camada Fechada em modo "explicar tudo"
+ *
+ * Testa:
+ * - explainClosedLayer lista todas as regras violadas, com campos
+ * - violations[0] coincide com o bloqueio de validateClosedLayer
+ * - Regras do tenant entram depois das embutidas
+ * - /decisoes: 400 e 422 com camada_fechada, sem gravar nada no bloqueio
+ * - ResearchSandbox devolve todos os bloqueios
+ */
+
+import { FastifyInstance } from 'fastify';
+
+import {
+  validateClosedLayer,
+  explainClosedLayer,
+  ClosedLayerRuleId,
+  ClosedLayerRuleSet,
+  SituacaoDecisoria,
+  DecisionProtocol,
+  StatusSituacao,
+  EstadoProtocolo,
+  PerfilRisco
+} from '../camada-3';
+import { ResearchSandbox } from '../camada-3/pesquisa';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ════════════════════════════════════════════════════════════════════════════
+
+const RULE_SET: ClosedLayerRuleSet = {
+  ruleSetId: 'bancos-br',
+  version: 1,
+  rules: [
+    {
+      id: 'BLOQUEAR_CREDITO_SEM_IRREVERSIVEL',
+      type: 'MINIMO_RISCOS_IRREVERSIVEIS',
+      minimo: 1,
+      dominios: ['credito']
+    },
+    {
+      id: 'BLOQUEAR_AGRESSIVO_CASO_3',
+      type: 'PERFIL_PROIBIDO_POR_CASO_USO',
+      perfis: [PerfilRisco.AGRESSIVO],
+      casosUso: [3]
+    }
+  ]
+};
+
+function criarSituacao(overrides: Partial<SituacaoDecisoria> = {}): SituacaoDecisoria {
+  return {
+    id: 'sit-49',
+    dominio: 'credito',
+    contexto: 'Contexto',
+    objetivo: 'Objetivo',
+    incertezas: ['Incerteza'],
+    alternativas: [
+      { descricao: 'A', riscos_associados: ['r1'] },
+      { descricao: 'B', riscos_associados: ['r2'] }
+    ],
+    riscos: [{ descricao: 'Inadimplência', tipo: 'Financeiro', reversibilidade: 'Reversível' }],
+    urgencia: 'Média',
+    capacidade_absorcao: 'Alta',
+    consequencia_relevante: 'Perda de capital',
+    possibilidade_aprendizado: true,
+    status: StatusSituacao.EM_ANALISE,
+    data_criacao: new Date(),
+    caso_uso_declarado: 3,
+    anexos_analise: [],
+    ...overrides
+  };
+}
+
+function criarProtocolo(overrides: Partial<DecisionProtocol> = {}): DecisionProtocol {
+  return {
+    id: 'prot-49',
+    episodio_id: 'ep-49',
+    criterios_minimos: ['Critério'],
+    riscos_considerados: ['Inadimplência'],
+    limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10000' }],
+    perfil_risco: PerfilRisco.MODERADO,
+    alternativas_avaliadas: ['A', 'B'],
+    alternativa_escolhida: 'A',
+    memoria_consultada_ids: [],
+    anexos_utilizados_ids: [],
+    estado: EstadoProtocolo.VALIDADO,
+    validado_em: new Date(),
+    validado_por: 'Libervia',
+    ...overrides
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: explainClosedLayer
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 49 - explainClosedLayer', () => {
+  test('entrada válida: nenhuma violação', () => {
+    expect(explainClosedLayer(criarSituacao(), criarProtocolo())).toEqual({
+      blocked: false,
+      violations: []
+    });
+  });
+
+  test('lista todas as regras embutidas violadas, em ordem, com campos', () => {
+    const situacao = criarSituacao({ alternativas: [], consequencia_relevante: '  ' });
+    const protocolo = criarProtocolo({
+      limites_definidos: [],
+      criterios_minimos: [],
+      perfil_risco: PerfilRisco.CONSERVADOR
+    });
+
+    const explanation = explainClosedLayer(situacao, protocolo);
+
+    expect(explanation.blocked).toBe(true);
+    expect(explanation.violations.map(v => [v.rule, v.fields])).toEqual([
+      [ClosedLayerRuleId.SEM_ALTERNATIVAS, ['situacao.alternativas']],
+      [ClosedLayerRuleId.SEM_LIMITES, ['protocolo.limites_definidos']],
+      [ClosedLayerRuleId.CONSERVADOR_SEM_CRITERIOS, ['protocolo.criterios_minimos', 'protocolo.perfil_risco']],
+      [ClosedLayerRuleId.SEM_CONSEQUENCIA, ['situacao.consequencia_relevante']]
+    ]);
+    expect(explanation.violations.every(v => v.blocked && v.reason.length > 0)).toBe(true);
+  });
+
+  test('regras do tenant vêm depois das embutidas, com conjunto e versão', () => {
+    const situacao = criarSituacao({ riscos: [], incertezas: [] });
+    const protocolo = criarProtocolo({ perfil_risco: PerfilRisco.AGRESSIVO });
+
+    const { violations } = explainClosedLayer(situacao, protocolo, RULE_SET);
+
+    expect(violations.map(v => v.rule)).toEqual([
+      ClosedLayerRuleId.SEM_RISCO,
+      'BLOQUEAR_CREDITO_SEM_IRREVERSIVEL',
+      'BLOQUEAR_AGRESSIVO_CASO_3'
+    ]);
+    expect(violations[0].fields).toEqual(['situacao.riscos', 'situacao.incertezas']);
+    expect(violations[0].ruleSetId).toBeUndefined();
+    expect(violations[2]).toMatchObject({
+      ruleSetId: 'bancos-br',
+      ruleSetVersion: 1,
+      fields: ['protocolo.perfil_risco', 'situacao.caso_uso_declarado']
+    });
+  });
+
+  test('violations[0] é sempre o bloqueio de validateClosedLayer', () => {
+    const casos: Array<[SituacaoDecisoria, DecisionProtocol]> = [
+      [criarSituacao(), criarProtocolo()],
+      [criarSituacao({ consequencia_relevante: '' }), criarProtocolo({ limites_definidos: [] })],
+      [criarSituacao(), criarProtocolo({ perfil_risco: PerfilRisco.AGRESSIVO })],
+      [criarSituacao({ alternativas: [] }), criarProtocolo({ perfil_risco: PerfilRisco.AGRESSIVO })]
+    ];
+
+    for (const [situacao, protocolo] of casos) {
+      const validacao = validateClosedLayer(situacao, protocolo, RULE_SET);
+      const { violations } = explainClosedLayer(situacao, protocolo, RULE_SET);
+
+      if (validacao.blocked) {
+        const { fields, ...primeira } = violations[0];
+        expect(primeira).toEqual(validacao);
+        expect(fields.length).toBeGreaterThan(0);
+      } else {
+        expect(violations).toEqual([]);
+      }
+    }
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: RESEARCH SANDBOX
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 49 - ResearchSandbox', () => {
+  test('baseline e variação trazem todos os bloqueios', () => {
+    const sandbox = new ResearchSandbox({ modoMemoria: 'OFF' });
+    const situacao = criarSituacao({ riscos: [], incertezas: [], consequencia_relevante: '' });
+
+    const summary = sandbox.analyzeBaseline(situacao);
+    expect(summary.closedLayerBlocks.map(b => b.rule)).toEqual([
+      ClosedLayerRuleId.SEM_RISCO,
+      ClosedLayerRuleId.SEM_CONSEQUENCIA
+    ]);
+
+    const result = sandbox.analyzeVariation(situacao, { id: 'v1', alternativas: [] });
+    expect(result.closedLayerBlocks.map(b => b.rule)).toEqual([
+      ClosedLayerRuleId.SEM_RISCO,
+      ClosedLayerRuleId.SEM_ALTERNATIVAS,
+      ClosedLayerRuleId.SEM_CONSEQUENCIA
+    ]);
+    expect(result.analysis).toContain(`${ClosedLayerRuleId.SEM_ALTERNATIVAS} (situacao.alternativas)`);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES: GATEWAY
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 49 - /api/v1/decisoes com diagnóstico', () => {
+  const TEST_PEPPER = 'test-pepper-inc49-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc49-' + Date.now();
+  let app: FastifyInstance;
+  let testDir: TestDataDir;
+  let publicToken: string;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  function criarPayload() {
+    const { id, status, data_criacao, anexos_analise, ...situacao } = criarSituacao();
+    const { criterios_minimos, riscos_considerados, limites_definidos, perfil_risco,
+      alternativas_avaliadas, alternativa_escolhida } = criarProtocolo();
+    return {
+      situacao,
+      protocolo: {
+        criterios_minimos,
+        riscos_considerados,
+        limites_definidos,
+        perfil_risco,
+        alternativas_avaliadas,
+        alternativa_escolhida
+      }
+    };
+  }
+
+  function decidir(payload: unknown) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes',
+      headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` },
+      payload: payload as Record<string, unknown>
+    });
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    testDir = await createTestDataDir('inc49-gw');
+
+    const config: GatewayConfig = {
+      baseDir: testDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const publicKey = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    publicToken = JSON.parse(publicKey.body).token;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await testDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('bloqueio embutido em RegistrarDecisao: 422 com as violações e nada gravado', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+    const eventosAntes = (await instance.eventLog.getAll()).length;
+
+    // Só espaços passa pelo repositório de situações, mas não pela Camada Fechada
+    const payload = criarPayload();
+    payload.situacao.consequencia_relevante = '   ';
+
+    const response = await decidir(payload);
+
+    expect(response.statusCode).toBe(422);
+    const body = JSON.parse(response.body);
+    expect(body.error).toBe('Blocked by Closed Layer');
+    expect(body.message).toContain(`Regra: ${ClosedLayerRuleId.SEM_CONSEQUENCIA}`);
+    expect(body.camada_fechada).toEqual({
+      blocked: true,
+      violations: [expect.objectContaining({
+        blocked: true,
+        rule: ClosedLayerRuleId.SEM_CONSEQUENCIA,
+        fields: ['situacao.consequencia_relevante']
+      })]
+    });
+
+    expect((await instance.eventLog.getAll()).length).toBe(eventosAntes);
+  });
+
+  test('situação recusada antes da Camada Fechada também traz as violações', async () => {
+    const payload = criarPayload();
+    payload.situacao.riscos = [];
+    payload.situacao.incertezas = [];
+
+    const response = await decidir(payload);
+
+    expect(response.statusCode).toBe(500);
+    const body = JSON.parse(response.body);
+    expect(body.message).toBe('Não há incerteza real - decisão é determinística');
+    expect(body.camada_fechada.violations.map((v: { rule: string }) => v.rule)).toEqual([
+      ClosedLayerRuleId.SEM_RISCO
+    ]);
+  });
+
+  test('protocolo rejeitado por regra do tenant: 400 lista embutidas e do tenant', async () => {
+    const put = await app.inject({
+      method: 'PUT',
+      url: '/admin/tenants/acme/closed-layer/rule-set',
+      headers: admin,
+      payload: RULE_SET as unknown as Record<string, unknown>
+    });
+    expect(put.statusCode).toBe(200);
+
+    const payload = criarPayload();
+    payload.protocolo.perfil_risco = PerfilRisco.AGRESSIVO;
+    payload.situacao.consequencia_relevante = '   ';
+
+    const response = await decidir(payload);
+
+    expect(response.statusCode).toBe(400);
+    const body = JSON.parse(response.body);
+    expect(body.error).toBe('Protocol rejected');
+    expect(body.regras_camada_fechada).toEqual({ ruleSetId: 'bancos-br', version: 1 });
+    expect(body.camada_fechada.violations.map((v: { rule: string }) => v.rule)).toEqual([
+      ClosedLayerRuleId.SEM_CONSEQUENCIA,
+      'BLOQUEAR_CREDITO_SEM_IRREVERSIVEL',
+      'BLOQUEAR_AGRESSIVO_CASO_3'
+    ]);
+  });
+
+  test('rejeição sem relação com a Camada Fechada não traz camada_fechada', async () => {
+    const payload = criarPayload();
+    payload.situacao.riscos = [{ descricao: 'Perda', tipo: 'Financeiro', reversibilidade: 'Irreversível' }];
+    payload.protocolo.alternativa_escolhida = 'C';
+
+    const response = await decidir(payload);
+
+    expect(response.statusCode).toBe(400);
+    const body = JSON.parse(response.body);
+    expect(body.reason).toContain('alternativa_escolhida deve estar entre as alternativas_avaliadas');
+    expect(body.camada_fechada).toBeUndefined();
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * TESTES - Incremento 50: Validação Prévia de Decisões (dry run)
+ *
+ * Testa:
+ * - POST /api/v1/decisoes/validar aceita o corpo de /decisoes
+ * - Reporta todos os problemas: situação, protocolo, memória e Camada Fechada
+ * - erros_protocolo coincide com o motivo_rejeicao de /decisoes
+ * - Nenhuma entidade criada e nenhum evento registrado
+ * - Tipos inválidos: 400 com todos os problemas
+ */
+
+import { FastifyInstance } from 'fastify';
+
+import { ClosedLayerRuleId, PerfilRisco } from '../camada-3';
+import { CoreInstance } from '../tenant/TenantRuntime';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ════════════════════════════════════════════════════════════════════════════
+
+function criarPayload() {
+  return {
+    situacao: {
+      dominio: 'credito',
+      contexto: 'Contexto',
+      objetivo: 'Objetivo',
+      incertezas: ['Incerteza'] as string[],
+      alternativas: [
+        { descricao: 'A', riscos_associados: ['r1'] },
+        { descricao: 'B', riscos_associados: ['r2'] }
+      ],
+      riscos: [{ descricao: 'Inadimplência', tipo: 'Financeiro', reversibilidade: 'Irreversível' }],
+      urgencia: 'Média',
+      capacidade_absorcao: 'Alta',
+      consequencia_relevante: 'Perda de capital',
+      possibilidade_aprendizado: true,
+      caso_uso_declarado: 3
+    },
+    protocolo: {
+      criterios_minimos: ['Critério'],
+      riscos_considerados: ['Inadimplência'],
+      limites_definidos: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10000' }],
+      perfil_risco: PerfilRisco.MODERADO,
+      alternativas_avaliadas: ['A', 'B'],
+      alternativa_escolhida: 'A',
+      memoria_consultada_ids: [] as string[]
+    }
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TESTES
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 50 - POST /api/v1/decisoes/validar', () => {
+  const TEST_PEPPER = 'test-pepper-inc50-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc50-' + Date.now();
+  let app: FastifyInstance;
+  let testDir: TestDataDir;
+  let publicToken: string;
+  let instance: CoreInstance;
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  function post(url: string, payload: unknown) {
+    return app.inject({
+      method: 'POST',
+      url,
+      headers: { 'x-tenant-id': 'acme', authorization: `Bearer ${publicToken}` },
+      payload: payload as Record<string, unknown>
+    });
+  }
+
+  async function validarSemEfeitos(payload: unknown) {
+    const eventosAntes = await instance.eventLog.count();
+    const response = await post('/api/v1/decisoes/validar', payload);
+    expect(await instance.eventLog.count()).toBe(eventosAntes);
+    return response;
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    testDir = await createTestDataDir('inc50-gw');
+
+    const config: GatewayConfig = {
+      baseDir: testDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const publicKey = await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    });
+    publicToken = JSON.parse(publicKey.body).token;
+    instance = await app.runtime.getOrCreate('acme');
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await testDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('entrada válida: valida = true e nada é gravado', async () => {
+    const response = await validarSemEfeitos(criarPayload());
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({
+      valida: true,
+      erros_situacao: [],
+      erros_protocolo: [],
+      camada_fechada: { blocked: false, violations: [] }
+    });
+  });
+
+  test('reporta todos os problemas de uma vez', async () => {
+    const payload = criarPayload();
+    payload.situacao.incertezas = [];
+    payload.situacao.consequencia_relevante = '';
+    payload.protocolo.alternativa_escolhida = 'C';
+    payload.protocolo.criterios_minimos = [];
+    payload.protocolo.memoria_consultada_ids = ['ep-inexistente'];
+
+    const response = await validarSemEfeitos(payload);
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.valida).toBe(false);
+    expect(body.erros_situacao).toEqual([
+      'Não há incerteza real - decisão é determinística',
+      'Não há consequência relevante identificada'
+    ]);
+    expect(body.erros_protocolo).toEqual([
+      'criterios_minimos é obrigatório e não pode ser vazio',
+      'alternativa_escolhida deve estar entre as alternativas_avaliadas',
+      'Memória ep-inexistente usada no protocolo não foi registrada como anexo. ' +
+        'Use ConsultarMemoriaDuranteAnalise primeiro.',
+      'Memória ep-inexistente não encontrada: episódio inexistente'
+    ]);
+    expect(body.camada_fechada.violations.map((v: { rule: string }) => v.rule)).toEqual([
+      ClosedLayerRuleId.SEM_CONSEQUENCIA
+    ]);
+  });
+
+  test('erros_protocolo é exatamente o motivo_rejeicao de /decisoes', async () => {
+    const payload = criarPayload();
+    payload.protocolo.alternativa_escolhida = 'C';
+    payload.protocolo.limites_definidos = [];
+
+    const previa = JSON.parse((await validarSemEfeitos(payload)).body);
+    expect(previa.erros_situacao).toEqual([]);
+    expect(previa.camada_fechada.violations.map((v: { rule: string }) => v.rule)).toEqual([
+      ClosedLayerRuleId.SEM_LIMITES
+    ]);
+
+    const decisao = await post('/api/v1/decisoes', payload);
+    expect(decisao.statusCode).toBe(400);
+    expect(JSON.parse(decisao.body).reason).toBe(previa.erros_protocolo.join('; '));
+  });
+
+  test('memória de episódio existente não é reportada como inexistente', async () => {
+    const decisao = await post('/api/v1/decisoes', criarPayload());
+    expect(decisao.statusCode).toBe(201);
+    const episodioId = JSON.parse(decisao.body).episodio_id;
+
+    const payload = criarPayload();
+    payload.protocolo.memoria_consultada_ids = [episodioId];
+
+    const body = JSON.parse((await validarSemEfeitos(payload)).body);
+    expect(body.erros_protocolo).toEqual([
+      `Memória ${episodioId} usada no protocolo não foi registrada como anexo. ` +
+        'Use ConsultarMemoriaDuranteAnalise primeiro.'
+    ]);
+  });
+
+  test('regras do tenant aparecem no protocolo e na Camada Fechada', async () => {
+    const put = await app.inject({
+      method: 'PUT',
+      url: '/admin/tenants/acme/closed-layer/rule-set',
+      headers: admin,
+      payload: {
+        ruleSetId: 'bancos-br',
+        version: 1,
+        rules: [{
+          id: 'BLOQUEAR_AGRESSIVO_CASO_3',
+          type: 'PERFIL_PROIBIDO_POR_CASO_USO',
+          perfis: ['AGRESSIVO'],
+          casosUso: [3]
+        }]
+      }
+    });
+    expect(put.statusCode).toBe(200);
+
+    const payload = criarPayload();
+    payload.protocolo.perfil_risco = PerfilRisco.AGRESSIVO;
+
+    const body = JSON.parse((await validarSemEfeitos(payload)).body);
+    expect(body.valida).toBe(false);
+    expect(body.regras_camada_fechada).toEqual({ ruleSetId: 'bancos-br', version: 1 });
+    expect(body.erros_protocolo).toHaveLength(1);
+    expect(body.erros_protocolo[0]).toContain('Camada Fechada (bancos-br v1): Regra: BLOQUEAR_AGRESSIVO_CASO_3');
+    expect(body.camada_fechada.violations).toEqual([
+      expect.objectContaining({ rule: 'BLOQUEAR_AGRESSIVO_CASO_3', ruleSetVersion: 1 })
+    ]);
+  });
+
+  test('tipos inválidos: 400 com todos os problemas', async () => {
+    const response = await validarSemEfeitos({
+      situacao: { ...criarPayload().situacao, incertezas: 'uma', caso_uso_declarado: '3' },
+      protocolo: { ...criarPayload().protocolo, perfil_risco: 'OUSADO', limites_definidos: [{ tipo: 'x' }] },
+      condicoes: [1]
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toEqual({
+      error: 'Invalid decision input',
+      details: [
+        'situacao.incertezas deve ser lista de textos',
+        'situacao.caso_uso_declarado deve ser inteiro',
+        'protocolo.limites_definidos deve ser lista de { tipo, descricao, valor }',
+        `protocolo.perfil_risco deve ser um de: ${Object.values(PerfilRisco).join(', ')}`,
+        'condicoes deve ser lista de textos'
+      ]
+    });
+
+    const semProtocolo = await validarSemEfeitos({ situacao: criarPayload().situacao });
+    expect(JSON.parse(semProtocolo.body).details).toEqual(['protocolo e obrigatorio']);
+  });
+
+  test('exige token público', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/decisoes/validar',
+      headers: { 'x-tenant-id': 'acme' },
+      payload: criarPayload()
+    });
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * TESTES - Incremento 51: Condições Tipadas em Limites e Gatilhos do Mandato
+ *
+ * Testa:
+ * - evaluateMandateCondition: VALOR, DOMINIO, URGENCIA, TIPO_RISCO, E/OU/NAO
+ * - Lógica de três valores: fato não declarado = indeterminado
+ * - evaluate: limite violado/não verificável bloqueia; gatilho estruturado aciona
+ * - Retrocompatibilidade: gatilhos textuais continuam por substring no contexto
+ * - Validação com caminho do campo; gateway e ConcederMandato rejeitam condição inválida
+ */
+
+import { FastifyInstance } from 'fastify';
+
+import {
+  AutonomyMode,
+  AutonomyMandate,
+  AutonomyCheckInput,
+  MandateCondition,
+  MandateConditionType,
+  evaluate,
+  evaluateMandateCondition,
+  validateMandateConditions,
+  REGRA,
+  MAX_MANDATE_CONDITION_DEPTH
+} from '../camada-3/autonomy';
+import { PerfilRisco } from '../camada-3/entidades/tipos';
+import { TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ════════════════════════════════════════════════════════════════════════════
+
+const ATE_50_MIL: MandateCondition = {
+  type: MandateConditionType.VALOR,
+  nome: 'valor_operacao',
+  op: '<=',
+  valor: 50000
+};
+
+const CREDITO_CRITICO: MandateCondition = {
+  type: MandateConditionType.E,
+  condicoes: [
+    { type: MandateConditionType.DOMINIO, em: ['crédito'] },
+    { type: MandateConditionType.URGENCIA, em: ['Crítica'] }
+  ]
+};
+
+function criarMandato(overrides: Partial<AutonomyMandate> = {}): AutonomyMandate {
+  return {
+    id: 'mandate-inc51',
+    agentId: 'agente-1',
+    modo: AutonomyMode.VIVENCIA_ASSISTIDA,
+    politicas_permitidas: ['FIRST_VALID'],
+    perfil_risco_maximo: PerfilRisco.MODERADO,
+    limites: [],
+    requer_humano_se: [],
+    concedido_por: 'admin',
+    concedido_em: new Date('2026-01-01T00:00:00.000Z'),
+    revogado: false,
+    ...overrides
+  };
+}
+
+function criarInput(mandate: AutonomyMandate, overrides: Partial<AutonomyCheckInput> = {}): AutonomyCheckInput {
+  return {
+    agentId: 'agente-1',
+    policy: 'FIRST_VALID',
+    perfilRisco: PerfilRisco.MODERADO,
+    closedLayerBlocked: false,
+    mandate,
+    ...overrides
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// AVALIAÇÃO DE CONDIÇÕES
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 51 - evaluateMandateCondition', () => {
+  test('VALOR compara com o limiar; valor não declarado é indeterminado', () => {
+    expect(evaluateMandateCondition(ATE_50_MIL, { valores: { valor_operacao: 50000 } })).toBe(true);
+    expect(evaluateMandateCondition(ATE_50_MIL, { valores: { valor_operacao: 50001 } })).toBe(false);
+    expect(evaluateMandateCondition(ATE_50_MIL, { valores: { outro: 1 } })).toBeNull();
+    expect(evaluateMandateCondition(ATE_50_MIL, {})).toBeNull();
+  });
+
+  test('DOMINIO, URGENCIA e TIPO_RISCO ignoram acento e caixa', () => {
+    expect(evaluateMandateCondition(CREDITO_CRITICO, { dominio: 'Credito', urgencia: 'CRITICA' })).toBe(true);
+    expect(evaluateMandateCondition(CREDITO_CRITICO, { dominio: 'seguros', urgencia: 'Crítica' })).toBe(false);
+
+    const tipoRisco: MandateCondition = { type: MandateConditionType.TIPO_RISCO, em: ['Reputacional'] };
+    expect(evaluateMandateCondition(tipoRisco, { tiposRisco: ['Financeiro', 'reputacional'] })).toBe(true);
+    expect(evaluateMandateCondition(tipoRisco, { tiposRisco: [] })).toBe(false);
+    expect(evaluateMandateCondition(tipoRisco, {})).toBeNull();
+  });
+
+  test('E/OU/NAO seguem lógica de três valores', () => {
+    // E: falso vence indeterminado
+    expect(evaluateMandateCondition(CREDITO_CRITICO, { dominio: 'seguros' })).toBe(false);
+    expect(evaluateMandateCondition(CREDITO_CRITICO, { dominio: 'credito' })).toBeNull();
+
+    // OU: verdadeiro vence indeterminado
+    const ou: MandateCondition = {
+      type: MandateConditionType.OU,
+      condicoes: [ATE_50_MIL, { type: MandateConditionType.DOMINIO, em: ['credito'] }]
+    };
+    expect(evaluateMandateCondition(ou, { dominio: 'credito' })).toBe(true);
+    expect(evaluateMandateCondition(ou, { dominio: 'seguros' })).toBeNull();
+    expect(evaluateMandateCondition(ou, { dominio: 'seguros', valores: { valor_operacao: 1e6 } })).toBe(false);
+
+    const nao: MandateCondition = { type: MandateConditionType.NAO, condicao: ATE_50_MIL };
+    expect(evaluateMandateCondition(nao, { valores: { valor_operacao: 1e6 } })).toBe(true);
+    expect(evaluateMandateCondition(nao, {})).toBeNull();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// AVALIADOR DE AUTONOMIA
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 51 - evaluate com limites e gatilhos estruturados', () => {
+  const mandato = criarMandato({
+    limites: [
+      { tipo: 'Financeiro', descricao: 'Até 50 mil', valor: '50000', condicao: ATE_50_MIL },
+      { tipo: 'Operacional', descricao: 'Texto livre', valor: 'n/a' }
+    ],
+    requer_humano_se: [{ descricao: 'Crédito com urgência crítica', condicao: CREDITO_CRITICO }]
+  });
+
+  test('permite quando o limite vale e o gatilho não aciona', () => {
+    const result = evaluate(criarInput(mandato, {
+      dominio: 'credito',
+      urgencia: 'Média',
+      valores: { valor_operacao: 10000 }
+    }));
+
+    expect(result).toMatchObject({ permitido: true, mandato_id: 'mandate-inc51' });
+  });
+
+  test('limite violado bloqueia com LIMITE_MANDATO_VIOLADO', () => {
+    const result = evaluate(criarInput(mandato, {
+      dominio: 'credito',
+      urgencia: 'Média',
+      valores: { valor_operacao: 75000 }
+    }));
+
+    expect(result.permitido).toBe(false);
+    expect(result.regra_bloqueio).toBe(REGRA.LIMITE_MANDATO_VIOLADO);
+    expect(result.motivo).toBe('Limite "Até 50 mil" do mandato mandate-inc51 violado');
+  });
+
+  test('limite não verificável bloqueia e cita o fato ausente', () => {
+    const result = evaluate(criarInput(mandato, { dominio: 'credito', urgencia: 'Média' }));
+
+    expect(result.regra_bloqueio).toBe(REGRA.LIMITE_MANDATO_VIOLADO);
+    expect(result.motivo).toBe(
+      'Limite "Até 50 mil" do mandato mandate-inc51 não verificável: não declarado valores.valor_operacao'
+    );
+  });
+
+  test('gatilho estruturado aciona quando vale ou quando não pode ser verificado', () => {
+    const acionado = evaluate(criarInput(mandato, {
+      dominio: 'Crédito',
+      urgencia: 'critica',
+      valores: { valor_operacao: 10000 }
+    }));
+    expect(acionado.regra_bloqueio).toBe(REGRA.GATILHO_HUMANO_ACIONADO);
+    expect(acionado.motivo).toBe('Gatilho de supervisão humana acionado: "Crédito com urgência crítica"');
+
+    const semUrgencia = evaluate(criarInput(mandato, { dominio: 'credito', valores: { valor_operacao: 10000 } }));
+    expect(semUrgencia.regra_bloqueio).toBe(REGRA.GATILHO_HUMANO_ACIONADO);
+    expect(semUrgencia.motivo).toContain('não verificável: não declarado urgencia');
+
+    // Domínio diferente já decide o E, mesmo sem urgência
+    const outroDominio = evaluate(criarInput(mandato, { dominio: 'seguros', valores: { valor_operacao: 10000 } }));
+    expect(outroDominio.permitido).toBe(true);
+  });
+
+  test('gatilhos textuais continuam por substring no contexto, na ordem declarada', () => {
+    const misto = criarMandato({
+      requer_humano_se: ['fraude', { descricao: 'Valor alto', condicao: { ...ATE_50_MIL, op: '>' } }]
+    });
+
+    const textual = evaluate(criarInput(misto, {
+      contexto: 'Suspeita de FRAUDE no cadastro',
+      valores: { valor_operacao: 1e6 }
+    }));
+    expect(textual.motivo).toBe('Gatilho de supervisão humana acionado: "fraude"');
+
+    const semContexto = evaluate(criarInput(misto, { valores: { valor_operacao: 1e6 } }));
+    expect(semContexto.motivo).toBe('Gatilho de supervisão humana acionado: "Valor alto"');
+
+    const permitido = evaluate(criarInput(misto, { contexto: 'Cadastro regular', valores: { valor_operacao: 10 } }));
+    expect(permitido.permitido).toBe(true);
+  });
+
+  test('mandato sem condições mantém o comportamento anterior', () => {
+    const legado = criarMandato({
+      limites: [{ tipo: 'Financeiro', descricao: 'Max', valor: '10000' }],
+      requer_humano_se: ['litígio']
+    });
+
+    expect(evaluate(criarInput(legado)).permitido).toBe(true);
+    expect(evaluate(criarInput(legado, { contexto: 'Há litígio em curso' })).regra_bloqueio)
+      .toBe(REGRA.GATILHO_HUMANO_ACIONADO);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// VALIDAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 51 - validateMandateConditions', () => {
+  test('aceita condições bem formadas e gatilhos textuais', () => {
+    expect(validateMandateConditions({
+      limites: [{ tipo: 'Financeiro', descricao: 'Max', valor: '1', condicao: ATE_50_MIL }],
+      requer_humano_se: ['fraude', { descricao: 'Crítico', condicao: CREDITO_CRITICO }]
+    })).toEqual([]);
+  });
+
+  test('reporta todos os erros com caminho do campo', () => {
+    expect(validateMandateConditions({
+      limites: [{ tipo: 'Financeiro', descricao: 'Max', valor: '1', condicao: { type: 'VALOR', nome: 'Valor', op: '!=', valor: '10' } }],
+      requer_humano_se: [
+        { condicao: { type: 'E', condicoes: [] } },
+        { descricao: 'x', condicao: { type: 'DOMINIO', em: [], extra: 1 } },
+        7
+      ]
+    })).toEqual([
+      'limites[0].condicao.nome: use minúsculas, dígitos e _ (ex.: valor_operacao)',
+      'limites[0].condicao.op: deve ser um de >, >=, <, <=, =',
+      'limites[0].condicao.valor: deve ser número finito',
+      'requer_humano_se[0].descricao: deve ser texto não vazio',
+      'requer_humano_se[0].condicao.condicoes: deve ser lista não vazia de condições',
+      'requer_humano_se[1].condicao.extra: campo desconhecido',
+      'requer_humano_se[1].condicao.em: deve ser lista não vazia de textos',
+      'requer_humano_se[2]: deve ser texto ou { descricao, condicao }'
+    ]);
+  });
+
+  test('limita a profundidade', () => {
+    let condicao: MandateCondition = ATE_50_MIL;
+    for (let i = 0; i < MAX_MANDATE_CONDITION_DEPTH; i++) {
+      condicao = { type: MandateConditionType.NAO, condicao };
+    }
+
+    const erros = validateMandateConditions({ requer_humano_se: [{ descricao: 'fundo', condicao }] });
+    expect(erros).toHaveLength(1);
+    expect(erros[0]).toMatch(/profundidade máxima 8$/);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// GATEWAY E ORQUESTRADOR
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 51 - Concessão de mandato com condições', () => {
+  const TEST_PEPPER = 'test-pepper-inc51-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc51-' + Date.now();
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+  let tenantAdmin: { authorization: string };
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  const mandatoValido = (overrides: Record<string, unknown> = {}) => ({
+    agentId: 'agente-1',
+    modo: 'VIVENCIA_ASSISTIDA',
+    politicas_permitidas: ['FIRST_VALID'],
+    perfil_risco_maximo: 'MODERADO',
+    ...overrides
+  });
+
+  async function conceder(payload: Record<string, unknown>) {
+    return app.inject({ method: 'POST', url: '/admin/tenants/acme/mandates', headers: tenantAdmin, payload });
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc51-mandatos');
+
+    const config: GatewayConfig = {
+      baseDir: dataDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const adminKey = JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'tenant_admin' }
+    })).body);
+    tenantAdmin = { authorization: `Bearer ${adminKey.token}` };
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('concede com limites e gatilhos estruturados e avalia pelo orquestrador', async () => {
+    const response = await conceder(mandatoValido({
+      limites: [{ tipo: 'Financeiro', descricao: 'Até 50 mil', valor: '50000', condicao: ATE_50_MIL }],
+      requer_humano_se: ['fraude', { descricao: 'Crédito crítico', condicao: CREDITO_CRITICO }]
+    }));
+    expect(response.statusCode).toBe(201);
+
+    const mandato = JSON.parse(response.body);
+    expect(mandato.limites[0].condicao).toEqual(ATE_50_MIL);
+    expect(mandato.requer_humano_se[1]).toEqual({ descricao: 'Crédito crítico', condicao: CREDITO_CRITICO });
+
+    const instance = await app.runtime.getOrCreate('acme');
+    const result = await instance.orquestrador.AvaliarAutonomia({
+      agentId: 'agente-1',
+      policy: 'FIRST_VALID',
+      perfilRisco: PerfilRisco.MODERADO,
+      closedLayerBlocked: false,
+      dominio: 'credito',
+      urgencia: 'Baixa',
+      valores: { valor_operacao: 80000 }
+    });
+    expect(result.regra_bloqueio).toBe(REGRA.LIMITE_MANDATO_VIOLADO);
+
+    const eventos = await instance.eventLog.getAll();
+    expect(eventos[eventos.length - 1].evento).toBe(TipoEvento.AUTONOMY_CHECK_FAILED);
+  });
+
+  test('400 com os erros de condição', async () => {
+    const response = await conceder(mandatoValido({
+      limites: [{ tipo: 'Financeiro', descricao: 'Max', valor: '1', condicao: { type: 'MAIOR_QUE' } }],
+      requer_humano_se: ['', { descricao: 'x' }]
+    }));
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toEqual({
+      error: 'Invalid mandate',
+      details: [
+        'requer_humano_se deve ser lista de textos ou { descricao, condicao }',
+        'limites[0].condicao.type: deve ser um de VALOR, DOMINIO, URGENCIA, TIPO_RISCO, E, OU, NAO',
+        'requer_humano_se[1].condicao: condição deve ser um objeto'
+      ]
+    });
+  });
+
+  test('ConcederMandato rejeita condição inválida', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+
+    await expect(instance.orquestrador.ConcederMandato({
+      id: 'mandate-direto',
+      agentId: 'agente-2',
+      modo: AutonomyMode.VIVENCIA_ASSISTIDA,
+      politicas_permitidas: ['FIRST_VALID'],
+      perfil_risco_maximo: PerfilRisco.MODERADO,
+      limites: [],
+      requer_humano_se: [{ descricao: 'x', condicao: { type: MandateConditionType.DOMINIO, em: [] } }],
+      concedido_por: 'admin',
+      concedido_em: new Date(),
+      revogado: false
+    })).rejects.toThrow('mandate.requer_humano_se[0].condicao.em: deve ser lista não vazia de textos');
+  });
+});
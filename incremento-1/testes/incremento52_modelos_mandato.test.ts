@@ -0,0 +1,541 @@
+/**
+ * TESTES - Incremento 52: Modelos de Mandato
+ *
+ * Testa:
+ * - validateMandateTemplateSpec: campos desconhecidos, condições (Inc 51), normalização
+ * - diffMandateTemplates e buildMandateFromTemplate (validadeDias, templateVersion)
+ * - Concessão em lote com AUTONOMY_GRANTED por mandato e MANDATE_TEMPLATE_GRANTED
+ * - Nova versão não altera mandatos vigentes; devolve diff e mandatos desatualizados
+ * - Plano e reconcessão: suspenso não é reconcedível, expectedVersion obrigatório,
+ *   concessão + revogação auditadas, validade e usos preservados
+ * - Falha no meio do lote: evento registra o que foi feito; repetir a
+ *   reconcessão só revoga o mandato que já tem substituto
+ * - Rotas admin: validação, 404/409 e RBAC; em dev sem adminToken o ator é dev-admin
+ */
+
+import { FastifyInstance } from 'fastify';
+
+import {
+  AutonomyMode,
+  MandateTemplate,
+  MandateConditionType,
+  validateMandateTemplateSpec,
+  diffMandateTemplates,
+  buildMandateFromTemplate
+} from '../camada-3/autonomy';
+import { PerfilRisco } from '../camada-3/entidades/tipos';
+import { TipoEvento } from '../camada-3/event-log/EventLogEntry';
+import { clearPepperCache } from '../tenant/TenantSecurity';
+import { buildApp } from '../gateway/app';
+import { GatewayConfig } from '../gateway/GatewayConfig';
+
+import { createTestDataDir, TestDataDir } from './helpers/testDataDir';
+
+// ════════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ════════════════════════════════════════════════════════════════════════════
+
+const SPEC_V1 = {
+  descricao: 'Analistas de crédito',
+  modo: 'VIVENCIA_ASSISTIDA',
+  politicas_permitidas: ['FIRST_VALID'],
+  perfil_risco_maximo: 'MODERADO',
+  limites: [{
+    tipo: 'Financeiro', descricao: 'Até 50 mil', valor: '50000',
+    condicao: { type: 'VALOR', nome: 'valor_operacao', op: '<=', valor: 50000 }
+  }],
+  requer_humano_se: ['fraude'],
+  validadeDias: 30,
+  maxUses: 100
+};
+
+const SPEC_V2 = { ...SPEC_V1, perfil_risco_maximo: 'CONSERVADOR', maxUses: 50 };
+
+function criarModelo(overrides: Partial<MandateTemplate> = {}): MandateTemplate {
+  return {
+    templateId: 'analista',
+    version: 1,
+    modo: AutonomyMode.VIVENCIA_ASSISTIDA,
+    politicas_permitidas: ['FIRST_VALID'],
+    perfil_risco_maximo: PerfilRisco.MODERADO,
+    limites: [],
+    requer_humano_se: [],
+    criado_por: 'admin',
+    criado_em: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// FUNÇÕES PURAS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 52 - validateMandateTemplateSpec', () => {
+  test('normaliza em cópia com ordem fixa e listas padrão', () => {
+    const result = validateMandateTemplateSpec({
+      perfil_risco_maximo: 'MODERADO',
+      politicas_permitidas: ['FIRST_VALID'],
+      modo: 'ENSINO'
+    });
+
+    expect(result.valid).toBe(true);
+    expect(Object.keys(result.spec!)).toEqual([
+      'modo', 'politicas_permitidas', 'perfil_risco_maximo', 'limites', 'requer_humano_se'
+    ]);
+    expect(result.spec!.limites).toEqual([]);
+    expect(result.spec!.requer_humano_se).toEqual([]);
+  });
+
+  test('reporta todos os erros com caminho do campo', () => {
+    const result = validateMandateTemplateSpec({
+      modo: 'LIVRE',
+      politicas_permitidas: ['FIRST_VALID', 'FIRST_VALID'],
+      perfil_risco_maximo: 'MODERADO',
+      limites: [{ tipo: 'F', descricao: 'x', valor: '1', condicao: { type: 'VALOR', nome: 'v', op: '!=', valor: 1 } }],
+      validadeDias: 0,
+      agentId: 'agente-1'
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.spec).toBeUndefined();
+    expect(result.errors).toEqual([
+      'agentId: campo desconhecido',
+      'modo: deve ser um de ENSINO, VIVENCIA_ASSISTIDA, VIVENCIA_AUTONOMA',
+      'politicas_permitidas[1]: FIRST_VALID duplicada',
+      'limites[0].condicao.op: deve ser um de >, >=, <, <=, =',
+      'validadeDias: deve ser inteiro >= 1'
+    ]);
+  });
+
+  test('rejeita corpo que não é objeto', () => {
+    expect(validateMandateTemplateSpec([]).errors).toEqual(['modelo deve ser um objeto']);
+  });
+});
+
+describe('Incremento 52 - diffMandateTemplates e buildMandateFromTemplate', () => {
+  test('diff lista apenas campos alterados, na ordem do modelo', () => {
+    const v1 = criarModelo({ maxUses: 10 });
+    const v2 = criarModelo({ perfil_risco_maximo: PerfilRisco.CONSERVADOR, validadeDias: 7 });
+
+    expect(diffMandateTemplates(v1, v2)).toEqual([
+      { campo: 'perfil_risco_maximo', antes: 'MODERADO', depois: 'CONSERVADOR' },
+      { campo: 'validadeDias', antes: null, depois: 7 },
+      { campo: 'maxUses', antes: 10, depois: null }
+    ]);
+    expect(diffMandateTemplates(v1, v1)).toEqual([]);
+  });
+
+  test('validadeDias conta a partir de validFrom; explícitos sobrepõem o modelo', () => {
+    const modelo = criarModelo({ version: 3, validadeDias: 10, maxUses: 5 });
+    const now = new Date('2026-03-01T00:00:00.000Z');
+
+    const padrao = buildMandateFromTemplate(modelo, {
+      id: 'mandate-a', agentId: 'agente-1', concedidoPor: 'admin', now,
+      validFrom: '2026-03-05T00:00:00.000Z'
+    });
+    expect(padrao.validUntil).toBe('2026-03-15T00:00:00.000Z');
+    expect(padrao.maxUses).toBe(5);
+    expect(padrao.uses).toBe(0);
+    expect(padrao.templateId).toBe('analista');
+    expect(padrao.templateVersion).toBe(3);
+
+    const explicito = buildMandateFromTemplate(modelo, {
+      id: 'mandate-b', agentId: 'agente-1', concedidoPor: 'admin', now,
+      validUntil: '2026-04-01T00:00:00.000Z', maxUses: 2
+    });
+    expect(explicito.validUntil).toBe('2026-04-01T00:00:00.000Z');
+    expect(explicito.maxUses).toBe(2);
+  });
+
+  test('mandato não compartilha listas com o modelo', () => {
+    const modelo = criarModelo({ requer_humano_se: ['fraude'] });
+    const mandato = buildMandateFromTemplate(modelo, {
+      id: 'mandate-c', agentId: 'agente-1', concedidoPor: 'admin', now: new Date()
+    });
+
+    (mandato.requer_humano_se as string[]).push('outro');
+    expect(modelo.requer_humano_se).toEqual(['fraude']);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// GATEWAY E ORQUESTRADOR
+// ════════════════════════════════════════════════════════════════════════════
+
+describe('Incremento 52 - Modelos de mandato pela API admin', () => {
+  const TEST_PEPPER = 'test-pepper-inc52-' + Date.now();
+  const ADMIN_TOKEN = 'test-admin-token-inc52-' + Date.now();
+  const BASE = '/admin/tenants/acme/mandate-templates';
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+  let tenantAdmin: { authorization: string };
+  let publicKey: { authorization: string };
+
+  const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  async function chamar(method: 'GET' | 'POST' | 'PUT', url: string, payload?: Record<string, unknown>) {
+    const response = await app.inject({ method, url, headers: tenantAdmin, payload });
+    return { status: response.statusCode, body: JSON.parse(response.body) };
+  }
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = TEST_PEPPER;
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc52-modelos');
+
+    const config: GatewayConfig = {
+      baseDir: dataDir.dir,
+      port: 0,
+      host: '127.0.0.1',
+      adminToken: ADMIN_TOKEN,
+      corsOrigins: ['*'],
+      logLevel: 'warn',
+      nodeEnv: 'test'
+    };
+    app = await buildApp({ config });
+
+    await app.inject({ method: 'POST', url: '/admin/tenants', headers: admin, payload: { id: 'acme', name: 'Acme' } });
+    const adminKey = JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'tenant_admin' }
+    })).body);
+    tenantAdmin = { authorization: `Bearer ${adminKey.token}` };
+
+    const pubKey = JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/admin/tenants/acme/keys',
+      headers: admin,
+      payload: { role: 'public' }
+    })).body);
+    publicKey = { authorization: `Bearer ${pubKey.token}` };
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('cria modelo na versão 1 com criado_por = keyId', async () => {
+    const { status, body } = await chamar('POST', BASE, { templateId: 'analista', ...SPEC_V1 });
+
+    expect(status).toBe(201);
+    expect(body.templateId).toBe('analista');
+    expect(body.version).toBe(1);
+    expect(body.criado_por).toMatch(/^key_/);
+    expect(body.limites[0].condicao.type).toBe(MandateConditionType.VALOR);
+
+    const duplicado = await chamar('POST', BASE, { templateId: 'analista', ...SPEC_V1 });
+    expect(duplicado.status).toBe(409);
+
+    const instance = await app.runtime.getOrCreate('acme');
+    const eventos = await instance.eventLog.getAll();
+    const criado = eventos.find(e => e.evento === TipoEvento.MANDATE_TEMPLATE_CREATED)!;
+    expect(criado.entidade_id).toBe('analista');
+    expect(criado.actor).toBe(body.criado_por);
+  });
+
+  test('400 com templateId e campos inválidos', async () => {
+    const { status, body } = await chamar('POST', BASE, {
+      templateId: 'Analista Crédito',
+      ...SPEC_V1,
+      perfil_risco_maximo: 'TOTAL'
+    });
+
+    expect(status).toBe(400);
+    expect(body).toEqual({
+      error: 'Invalid mandate template',
+      details: [
+        'templateId: use minusculas, digitos, ".", "_" e "-" (ate 64 caracteres)',
+        'perfil_risco_maximo: deve ser um de CONSERVADOR, MODERADO, AGRESSIVO'
+      ]
+    });
+  });
+
+  test('concede em lote com validadeDias e eventos por mandato', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+    const antes = (await instance.eventLog.getAll()).length;
+
+    const { status, body } = await chamar('POST', `${BASE}/analista/grants`, {
+      agentIds: ['agente-1', 'agente-2', 'agente-3']
+    });
+
+    expect(status).toBe(201);
+    expect(body.count).toBe(3);
+    expect(body.version).toBe(1);
+    for (const mandato of body.mandates) {
+      expect(mandato.templateId).toBe('analista');
+      expect(mandato.templateVersion).toBe(1);
+      expect(mandato.maxUses).toBe(100);
+      const dias = (Date.parse(mandato.validUntil) - Date.parse(mandato.concedido_em)) / 86400000;
+      expect(Math.round(dias)).toBe(30);
+    }
+
+    const novos = (await instance.eventLog.getAll()).slice(antes).map(e => e.evento);
+    expect(novos).toEqual([
+      TipoEvento.AUTONOMY_GRANTED,
+      TipoEvento.AUTONOMY_GRANTED,
+      TipoEvento.AUTONOMY_GRANTED,
+      TipoEvento.MANDATE_TEMPLATE_GRANTED
+    ]);
+  });
+
+  test('400 para lote inválido e 404 para modelo inexistente', async () => {
+    const invalido = await chamar('POST', `${BASE}/analista/grants`, {
+      agentIds: ['agente-1', 'agente-1', ''],
+      maxUses: 0
+    });
+    expect(invalido.status).toBe(400);
+    expect(invalido.body.details).toEqual([
+      'agentIds[1] duplicado: agente-1',
+      'agentIds[2] deve ser texto nao vazio',
+      'maxUses deve ser inteiro positivo'
+    ]);
+
+    const inexistente = await chamar('POST', `${BASE}/nenhum/grants`, { agentIds: ['agente-1'] });
+    expect(inexistente.status).toBe(404);
+  });
+
+  test('nova versão devolve diff sem alterar mandatos vigentes', async () => {
+    const { mandates } = (await chamar('GET', '/admin/tenants/acme/mandates/active')).body;
+    expect(mandates).toHaveLength(3);
+
+    const conflito = await chamar('PUT', `${BASE}/analista`, { expectedVersion: 2, ...SPEC_V2 });
+    expect(conflito.status).toBe(409);
+
+    const { status, body } = await chamar('PUT', `${BASE}/analista`, { expectedVersion: 1, ...SPEC_V2 });
+    expect(status).toBe(200);
+    expect(body.template.version).toBe(2);
+    expect(body.versaoAnterior).toBe(1);
+    expect(body.diff).toEqual([
+      { campo: 'perfil_risco_maximo', antes: 'MODERADO', depois: 'CONSERVADOR' },
+      { campo: 'maxUses', antes: 100, depois: 50 }
+    ]);
+    expect([...body.mandatosDesatualizados].sort()).toEqual(mandates.map((m: any) => m.id).sort());
+
+    const depois = (await chamar('GET', '/admin/tenants/acme/mandates/active')).body.mandates;
+    expect(depois).toEqual(mandates);
+
+    const semMudanca = await chamar('PUT', `${BASE}/analista`, { expectedVersion: 2, ...SPEC_V2 });
+    expect(semMudanca.status).toBe(400);
+    expect(semMudanca.body.error).toContain('nenhuma alteração');
+  });
+
+  test('lista e obtém versões do modelo', async () => {
+    const lista = await chamar('GET', BASE);
+    expect(lista.body.count).toBe(1);
+    expect(lista.body.templates[0].version).toBe(2);
+
+    const v1 = await chamar('GET', `${BASE}/analista?version=1`);
+    expect(v1.body.template.perfil_risco_maximo).toBe('MODERADO');
+    expect(v1.body.versions).toEqual([1, 2]);
+
+    expect((await chamar('GET', `${BASE}/analista?version=9`)).status).toBe(404);
+    expect((await chamar('GET', `${BASE}/analista?version=zero`)).status).toBe(400);
+  });
+
+  test('plano marca mandato suspenso como não reconcedível', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+    const { mandates } = (await chamar('GET', '/admin/tenants/acme/mandates/active')).body;
+    const suspenso = mandates.find((m: any) => m.agentId === 'agente-3');
+    await (instance.orquestrador as any).autonomyMandateRepo.suspend(suspenso.id, 'Perda registrada', 'obs-1');
+
+    const { status, body } = await chamar('GET', `${BASE}/analista/regrant`);
+
+    expect(status).toBe(200);
+    expect(body.version).toBe(2);
+    expect(body.itens).toHaveLength(3);
+    const item = body.itens.find((i: any) => i.mandateId === suspenso.id);
+    expect(item.reconcedivel).toBe(false);
+    expect(item.motivo).toBe('Mandato suspenso: retomada exige revisão humana');
+    expect(item.diff.map((d: any) => d.campo)).toEqual(['perfil_risco_maximo', 'maxUses']);
+  });
+
+  test('reconcede com expectedVersion, preservando validade e usos', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+    const anteriores = (await chamar('GET', '/admin/tenants/acme/mandates/active')).body.mandates;
+    const agente1 = anteriores.find((m: any) => m.agentId === 'agente-1');
+
+    const semVersao = await chamar('POST', `${BASE}/analista/regrant`, {});
+    expect(semVersao.status).toBe(400);
+
+    const conflito = await chamar('POST', `${BASE}/analista/regrant`, { expectedVersion: 1 });
+    expect(conflito.status).toBe(409);
+
+    const antes = (await instance.eventLog.getAll()).length;
+    const { status, body } = await chamar('POST', `${BASE}/analista/regrant`, { expectedVersion: 2 });
+
+    expect(status).toBe(200);
+    expect(body.reconcedidos).toHaveLength(2);
+    expect(body.ignorados).toEqual([
+      { mandateId: expect.any(String), motivo: 'Mandato suspenso: retomada exige revisão humana' }
+    ]);
+
+    const novo = body.reconcedidos.find((r: any) => r.anterior === agente1.id).mandate;
+    expect(novo.templateVersion).toBe(2);
+    expect(novo.perfil_risco_maximo).toBe('CONSERVADOR');
+    expect(novo.substitui_mandato_id).toBe(agente1.id);
+    expect(novo.validUntil).toBe(agente1.validUntil);
+    expect(novo.maxUses).toBe(agente1.maxUses);
+    expect(novo.uses).toBe(agente1.uses ?? 0);
+
+    const anterior = await instance.orquestrador.GetMandato(agente1.id);
+    expect(anterior!.revogado).toBe(true);
+    expect(anterior!.motivo_revogacao).toBe(`Reconcedido pelo modelo analista v2: ${novo.id}`);
+
+    const novos = (await instance.eventLog.getAll()).slice(antes);
+    expect(novos.map(e => e.evento)).toEqual([
+      TipoEvento.AUTONOMY_GRANTED,
+      TipoEvento.AUTONOMY_REVOKED,
+      TipoEvento.AUTONOMY_GRANTED,
+      TipoEvento.AUTONOMY_REVOKED,
+      TipoEvento.MANDATE_TEMPLATE_REGRANTED
+    ]);
+    const envelope = novos[4].envelope!;
+    expect(envelope.v).toBe(1);
+    const payload = envelope.data as any;
+    expect(payload.reconcedidos).toContainEqual({ anterior: agente1.id, novo: novo.id, agentId: 'agente-1' });
+    expect(payload.ignorados).toHaveLength(1);
+
+    // Plano seguinte: resta apenas o suspenso
+    const plano = (await chamar('GET', `${BASE}/analista/regrant`)).body;
+    expect(plano.itens.map((i: any) => i.reconcedivel)).toEqual([false]);
+  });
+
+  test('mandateIds fora do plano são ignorados com motivo', async () => {
+    const { status, body } = await chamar('POST', `${BASE}/analista/regrant`, {
+      expectedVersion: 2,
+      mandateIds: ['mandate-outro']
+    });
+
+    expect(status).toBe(200);
+    expect(body.reconcedidos).toEqual([]);
+    expect(body.ignorados).toEqual([
+      { mandateId: 'mandate-outro', motivo: 'Não é mandato vigente de versão anterior do modelo' }
+    ]);
+  });
+
+  test('falha no meio: eventos registram o feito e a nova reconcessão não concede de novo', async () => {
+    const instance = await app.runtime.getOrCreate('acme');
+    const orquestrador = instance.orquestrador;
+    const ultimoEvento = async (evento: string) =>
+      (await instance.eventLog.getAll()).filter(e => e.evento === evento).pop()!.envelope!.data as any;
+
+    await chamar('POST', BASE, { templateId: 'operador', ...SPEC_V1 });
+
+    // Concessão em lote: o segundo agente falha
+    const conceder = orquestrador.ConcederMandato.bind(orquestrador);
+    const concessao = jest.spyOn(orquestrador, 'ConcederMandato')
+      .mockImplementationOnce(conceder)
+      .mockRejectedValueOnce(new Error('falha simulada na concessão'));
+    await expect(orquestrador.ConcederMandatosPorModelo(
+      'operador', { agentIds: ['operador-1', 'operador-2', 'operador-3'] }, 'admin'
+    )).rejects.toThrow('falha simulada na concessão');
+    concessao.mockRestore();
+
+    const lote = await ultimoEvento(TipoEvento.MANDATE_TEMPLATE_GRANTED);
+    expect(lote.agentIds).toEqual(['operador-1']);
+    expect(lote.mandateIds).toHaveLength(1);
+    expect(lote.falha).toEqual({
+      agentId: 'operador-2',
+      erro: 'falha simulada na concessão',
+      naoConcedidos: ['operador-2', 'operador-3']
+    });
+    const [original] = lote.mandateIds;
+
+    // Reconcessão: concede o substituto e falha ao revogar o anterior
+    await orquestrador.AtualizarModeloMandato('operador', SPEC_V2, 1, 'admin');
+    jest.spyOn(orquestrador, 'RevogarMandato').mockRejectedValueOnce(new Error('falha simulada na revogação'));
+    await expect(orquestrador.ReconcederMandatosPorModelo('operador', { expectedVersion: 2 }, 'admin'))
+      .rejects.toThrow('falha simulada na revogação');
+    jest.restoreAllMocks();
+
+    const interrompida = await ultimoEvento(TipoEvento.MANDATE_TEMPLATE_REGRANTED);
+    expect(interrompida.reconcedidos).toEqual([]);
+    expect(interrompida.falha).toEqual({
+      mandateId: original,
+      novo: expect.any(String),
+      erro: 'falha simulada na revogação'
+    });
+    const substituto = interrompida.falha.novo;
+
+    const plano = await orquestrador.PlanejarReconcessaoModelo('operador');
+    expect(plano.itens).toEqual([
+      expect.objectContaining({ mandateId: original, reconcedivel: true, substitutoId: substituto })
+    ]);
+
+    // Nova tentativa: só revoga o anterior
+    const antes = (await instance.eventLog.getAll()).length;
+    const result = await orquestrador.ReconcederMandatosPorModelo('operador', { expectedVersion: 2 }, 'admin');
+
+    expect(result.reconcedidos).toEqual([{ anterior: original, mandate: expect.objectContaining({ id: substituto }) }]);
+    const novos = (await instance.eventLog.getAll()).slice(antes).map(e => e.evento);
+    expect(novos).toEqual([TipoEvento.AUTONOMY_REVOKED, TipoEvento.MANDATE_TEMPLATE_REGRANTED]);
+    expect((await orquestrador.GetMandato(original))!.motivo_revogacao)
+      .toBe(`Reconcedido pelo modelo operador v2: ${substituto}`);
+
+    const ativos = (await orquestrador.ListarMandatosAtivos()).filter(m => m.agentId === 'operador-1');
+    expect(ativos.map(m => m.id)).toEqual([substituto]);
+  });
+
+  test('chave public não acessa modelos', async () => {
+    const response = await app.inject({ method: 'GET', url: BASE, headers: publicKey });
+    expect(response.statusCode).toBe(403);
+
+    const grant = await app.inject({
+      method: 'POST',
+      url: `${BASE}/analista/grants`,
+      headers: publicKey,
+      payload: { agentIds: ['agente-9'] }
+    });
+    expect(grant.statusCode).toBe(403);
+  });
+});
+
+describe('Incremento 52 - Modelos de mandato em dev sem adminToken', () => {
+  const BASE = '/admin/tenants/acme/mandate-templates';
+  let app: FastifyInstance;
+  let dataDir: TestDataDir;
+
+  beforeAll(async () => {
+    process.env.LIBERVIA_AUTH_PEPPER = 'test-pepper-inc52-dev-' + Date.now();
+    clearPepperCache();
+    dataDir = await createTestDataDir('inc52-modelos-dev');
+    app = await buildApp({
+      config: {
+        baseDir: dataDir.dir,
+        port: 0,
+        host: '127.0.0.1',
+        adminToken: '',
+        corsOrigins: ['*'],
+        logLevel: 'warn',
+        nodeEnv: 'test'
+      }
+    });
+    await app.inject({ method: 'POST', url: '/admin/tenants', payload: { id: 'acme', name: 'Acme' } });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await dataDir.cleanup();
+    delete process.env.LIBERVIA_AUTH_PEPPER;
+    clearPepperCache();
+  });
+
+  test('cria e concede atribuindo a ação ao ator dev-admin', async () => {
+    const criado = await app.inject({ method: 'POST', url: BASE, payload: { templateId: 'analista', ...SPEC_V1 } });
+    expect(criado.statusCode).toBe(201);
+    expect(JSON.parse(criado.body).criado_por).toBe('dev-admin');
+
+    const concedido = await app.inject({
+      method: 'POST',
+      url: `${BASE}/analista/grants`,
+      payload: { agentIds: ['agente-dev'] }
+    });
+    expect(concedido.statusCode).toBe(201);
+    expect(JSON.parse(concedido.body).mandates[0].concedido_por).toBe('dev-admin');
+  });
+});